@@ -0,0 +1,125 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { DeviceInfo } from '../../shared/types/protocol'
+
+const mockListDevices = vi.fn<() => Promise<DeviceInfo[]>>()
+const mockBroadcast = vi.fn()
+
+vi.mock('../hid-service', () => ({
+  listDevices: () => mockListDevices(),
+}))
+
+vi.mock('../utils/broadcast', () => ({
+  broadcastToAllWindows: (...args: unknown[]) => mockBroadcast(...args),
+}))
+
+vi.mock('../ipc-guard', () => ({
+  secureHandle: vi.fn(),
+}))
+
+vi.mock('../logger', () => ({
+  log: vi.fn(),
+}))
+
+import {
+  scanDevices,
+  startDeviceWatcher,
+  stopDeviceWatcher,
+  setDeviceWatcherSuspended,
+  DEVICE_WATCH_INTERVAL_MS,
+} from '../device-watcher'
+
+const keyboard: DeviceInfo = {
+  vendorId: 0x1234,
+  productId: 0x5678,
+  productName: 'Test Keyboard',
+  serialNumber: 'vial:f64c2b3c',
+  type: 'vial',
+}
+
+const other: DeviceInfo = { ...keyboard, productId: 0x9999, serialNumber: 'vial:00000001' }
+
+beforeEach(() => {
+  stopDeviceWatcher()
+  setDeviceWatcherSuspended(false)
+  mockListDevices.mockReset().mockResolvedValue([])
+  mockBroadcast.mockReset()
+})
+
+afterEach(() => {
+  stopDeviceWatcher()
+  vi.useRealTimers()
+})
+
+describe('device-watcher', () => {
+  it('records the first scan as a baseline without broadcasting', async () => {
+    mockListDevices.mockResolvedValue([keyboard])
+    await scanDevices()
+    expect(mockBroadcast).not.toHaveBeenCalled()
+  })
+
+  it('broadcasts connects and disconnects between scans', async () => {
+    mockListDevices.mockResolvedValue([keyboard])
+    await scanDevices()
+
+    mockListDevices.mockResolvedValue([other])
+    await scanDevices()
+
+    expect(mockBroadcast.mock.calls).toEqual([
+      ['device:disconnected', keyboard],
+      ['device:connected', other],
+    ])
+  })
+
+  it('treats a serial change as a different device', async () => {
+    mockListDevices.mockResolvedValue([keyboard])
+    await scanDevices()
+
+    const bootloader: DeviceInfo = { ...keyboard, serialNumber: 'vibl:d4f8159c', type: 'bootloader' }
+    mockListDevices.mockResolvedValue([bootloader])
+    await scanDevices()
+
+    expect(mockBroadcast).toHaveBeenCalledWith('device:disconnected', keyboard)
+    expect(mockBroadcast).toHaveBeenCalledWith('device:connected', bootloader)
+  })
+
+  it('keeps the previous set when enumeration fails', async () => {
+    mockListDevices.mockResolvedValue([keyboard])
+    await scanDevices()
+
+    mockListDevices.mockRejectedValueOnce(new Error('busy'))
+    await scanDevices()
+    await scanDevices()
+
+    expect(mockBroadcast).not.toHaveBeenCalled()
+  })
+
+  it('skips enumeration while suspended and reports the net change on resume', async () => {
+    vi.useFakeTimers()
+    mockListDevices.mockResolvedValue([keyboard])
+    startDeviceWatcher()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(mockListDevices).toHaveBeenCalledTimes(1)
+
+    setDeviceWatcherSuspended(true)
+    mockListDevices.mockResolvedValue([])
+    await vi.advanceTimersByTimeAsync(DEVICE_WATCH_INTERVAL_MS * 3)
+    expect(mockListDevices).toHaveBeenCalledTimes(1)
+
+    setDeviceWatcherSuspended(false)
+    await vi.advanceTimersByTimeAsync(DEVICE_WATCH_INTERVAL_MS)
+    expect(mockBroadcast).toHaveBeenCalledWith('device:disconnected', keyboard)
+  })
+
+  it('stops scanning once stopped', async () => {
+    vi.useFakeTimers()
+    startDeviceWatcher()
+    await vi.advanceTimersByTimeAsync(0)
+    stopDeviceWatcher()
+    mockListDevices.mockClear()
+
+    await vi.advanceTimersByTimeAsync(DEVICE_WATCH_INTERVAL_MS * 3)
+    expect(mockListDevices).not.toHaveBeenCalled()
+  })
+})
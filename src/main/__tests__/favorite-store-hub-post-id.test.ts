@@ -113,7 +113,7 @@ describe('favorite-store set-hub-post-id', () => {
 
   it('returns error when type is invalid', async () => {
     const handler = getHandler(IpcChannels.FAVORITE_STORE_SET_HUB_POST_ID)
-    const result = await handler(fakeEvent, 'qmkSettings', 'some-id', 'post-1') as {
+    const result = await handler(fakeEvent, 'lightning', 'some-id', 'post-1') as {
       success: boolean
       error: string
     }
@@ -183,6 +183,52 @@ describe('favorite-store', () => {
     })
   })
 
+  describe('set tags', () => {
+    it('stores normalized tags and bumps updatedAt', async () => {
+      const saveHandler = getHandler(IpcChannels.FAVORITE_STORE_SAVE)
+      const saved = await saveHandler(fakeEvent, 'tapDance', '{}', 'Tagged') as {
+        entry: { id: string; updatedAt: string }
+      }
+
+      const handler = getHandler(IpcChannels.FAVORITE_STORE_SET_TAGS)
+      const result = await handler(fakeEvent, 'tapDance', saved.entry.id, [' Gaming', 'gaming', 'nav']) as {
+        success: boolean
+      }
+      expect(result.success).toBe(true)
+      expect(notifyChange).toHaveBeenCalledWith('favorites/tapDance')
+
+      const listHandler = getHandler(IpcChannels.FAVORITE_STORE_LIST)
+      const list = await listHandler(fakeEvent, 'tapDance') as {
+        entries: Array<{ tags?: string[]; updatedAt: string }>
+      }
+      expect(list.entries[0].tags).toEqual(['gaming', 'nav'])
+      expect(list.entries[0].updatedAt >= saved.entry.updatedAt).toBe(true)
+    })
+
+    it('removes the field when no tags are left', async () => {
+      const saveHandler = getHandler(IpcChannels.FAVORITE_STORE_SAVE)
+      const saved = await saveHandler(fakeEvent, 'tapDance', '{}', 'Tagged') as { entry: { id: string } }
+
+      const handler = getHandler(IpcChannels.FAVORITE_STORE_SET_TAGS)
+      await handler(fakeEvent, 'tapDance', saved.entry.id, ['nav'])
+      await handler(fakeEvent, 'tapDance', saved.entry.id, [])
+
+      const listHandler = getHandler(IpcChannels.FAVORITE_STORE_LIST)
+      const list = await listHandler(fakeEvent, 'tapDance') as { entries: Array<{ tags?: string[] }> }
+      expect(list.entries[0]).not.toHaveProperty('tags')
+    })
+
+    it('rejects tags that are not an array', async () => {
+      const saveHandler = getHandler(IpcChannels.FAVORITE_STORE_SAVE)
+      const saved = await saveHandler(fakeEvent, 'tapDance', '{}', 'Tagged') as { entry: { id: string } }
+
+      const handler = getHandler(IpcChannels.FAVORITE_STORE_SET_TAGS)
+      const result = await handler(fakeEvent, 'tapDance', saved.entry.id, 'nav') as { success: boolean; error: string }
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Invalid tags')
+    })
+  })
+
   describe('delete', () => {
     it('soft-deletes an entry (tombstone) and hides from list', async () => {
       const saveHandler = getHandler(IpcChannels.FAVORITE_STORE_SAVE)
@@ -295,7 +341,7 @@ describe('favorite-store', () => {
   describe('invalid type rejection', () => {
     it('rejects invalid type for list', async () => {
       const handler = getHandler(IpcChannels.FAVORITE_STORE_LIST)
-      const result = await handler(fakeEvent, 'qmkSettings') as { success: boolean; error: string }
+      const result = await handler(fakeEvent, 'lightning') as { success: boolean; error: string }
       expect(result.success).toBe(false)
       expect(result.error).toContain('Invalid favorite type')
     })
@@ -419,7 +465,7 @@ describe('favorite-store', () => {
 
     it('returns error for invalid scope', async () => {
       const handler = getHandler(IpcChannels.FAVORITE_STORE_EXPORT)
-      const result = await handler(fakeEvent, 'qmkSettings', 6) as { success: boolean; error: string }
+      const result = await handler(fakeEvent, 'lightning', 6) as { success: boolean; error: string }
       expect(result.success).toBe(false)
       expect(result.error).toBe('Invalid scope')
     })
@@ -610,6 +656,40 @@ describe('favorite-store', () => {
       expect(list.entries[0].label).toBe('Imported TD')
     })
 
+    it('imports tags and the new favorite kinds', async () => {
+      const importFile = join(mockUserDataPath, 'import-layer.json')
+      await writeFile(importFile, JSON.stringify({
+        app: 'pipette',
+        version: 3,
+        scope: 'fav',
+        exportedAt: new Date().toISOString(),
+        categories: {
+          layer: [{
+            label: 'Nav layer',
+            savedAt: '2025-01-01T00:00:00.000Z',
+            tags: ['Nav'],
+            data: { keys: [{ x: 0.5, y: 0.5, keycode: 'KC_LEFT' }] },
+          }],
+          qmk: [{ label: 'Tap-Hold', savedAt: '2025-01-01T00:00:00.000Z', data: { group: 'Tap-Hold', values: { '7': [200, 0] } } }],
+        },
+      }), 'utf-8')
+
+      vi.mocked(dialog.showOpenDialog).mockResolvedValue({ canceled: false, filePaths: [importFile] })
+
+      const handler = getHandler(IpcChannels.FAVORITE_STORE_IMPORT)
+      const result = await handler(fakeEvent) as { success: boolean; imported: number; skipped: number }
+      expect(result.imported).toBe(2)
+      expect(result.skipped).toBe(0)
+
+      const listHandler = getHandler(IpcChannels.FAVORITE_STORE_LIST)
+      const list = await listHandler(fakeEvent, 'layer') as { entries: Array<{ id: string; tags?: string[] }> }
+      expect(list.entries[0].tags).toEqual(['nav'])
+
+      const loadHandler = getHandler(IpcChannels.FAVORITE_STORE_LOAD)
+      const loaded = await loadHandler(fakeEvent, 'layer', list.entries[0].id) as { data: string }
+      expect(JSON.parse(loaded.data).data).toEqual({ keys: [{ x: 0.5, y: 0.5, keycode: 0x50 }] })
+    })
+
     it('skips duplicate entries (matching label + savedAt)', async () => {
       // First save an entry directly
       const saveHandler = getHandler(IpcChannels.FAVORITE_STORE_SAVE)
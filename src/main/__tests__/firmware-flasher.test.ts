@@ -0,0 +1,176 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Flash-sequence tests run against the virtual bootloader, so the packets
+// the flasher emits are checked by the same code E2E tests drive.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createHash } from 'node:crypto'
+import { parseFirmwareFile, flashFirmware, formatViblUid, readBootloaderUid } from '../firmware-flasher'
+import type { ViblTransport } from '../firmware-flasher'
+import {
+  enterVirtualBootloader,
+  resetVirtualBootloader,
+  isVirtualBootloaderActive,
+  getLastVirtualFlash,
+  openVirtualBootloaderTransport,
+} from '../virtual-bootloader'
+import { VIRTUAL_DEVICE_UID_BYTES } from '../virtual-device/gpk60-63r'
+import type { FirmwareFlashProgress } from '../../shared/types/firmware'
+
+const VIRTUAL_UID = formatViblUid(VIRTUAL_DEVICE_UID_BYTES)
+
+function makeImage(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (i * 7) & 0xff)
+}
+
+function makePackage(payload: Uint8Array, uid: ArrayLike<number>, timestamp = 1_700_000_000): Uint8Array {
+  const header = new Uint8Array(64)
+  header.set(new TextEncoder().encode('VIALFW00'), 0)
+  header.set(Array.from(uid), 8)
+  new DataView(header.buffer).setBigUint64(16, BigInt(timestamp), true)
+  header.set(createHash('sha256').update(payload).digest(), 32)
+  const pkg = new Uint8Array(64 + payload.length)
+  pkg.set(header)
+  pkg.set(payload, 64)
+  return pkg
+}
+
+beforeEach(() => {
+  resetVirtualBootloader()
+})
+
+describe('formatViblUid', () => {
+  it('matches the KeyboardId.uid format (u64 little-endian hex)', () => {
+    expect(formatViblUid([0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0x08])).toBe('0x0807060504030201')
+  })
+})
+
+describe('parseFirmwareFile', () => {
+  it('treats files without the package signature as raw images', () => {
+    const image = makeImage(100)
+    const { info, payload } = parseFirmwareFile('board.bin', image)
+    expect(info).toMatchObject({ fileName: 'board.bin', format: 'bin', size: 100 })
+    expect(info.uid).toBeUndefined()
+    expect(info.sha256).toBe(createHash('sha256').update(image).digest('hex'))
+    expect(payload).toEqual(image)
+  })
+
+  it('reads uid, timestamp and payload from a .vfw package', () => {
+    const image = makeImage(130)
+    const { info, payload } = parseFirmwareFile('board.vfw', makePackage(image, VIRTUAL_DEVICE_UID_BYTES))
+    expect(info).toMatchObject({ format: 'vfw', size: 130, uid: VIRTUAL_UID, builtAt: 1_700_000_000_000 })
+    expect(Array.from(payload)).toEqual(Array.from(image))
+  })
+
+  it('rejects a package whose payload does not match its checksum', () => {
+    const pkg = makePackage(makeImage(64), VIRTUAL_DEVICE_UID_BYTES)
+    pkg[pkg.length - 1] ^= 0xff
+    expect(() => parseFirmwareFile('board.vfw', pkg)).toThrow('checksum mismatch')
+  })
+
+  it('rejects an empty file', () => {
+    expect(() => parseFirmwareFile('empty.bin', new Uint8Array())).toThrow('empty')
+  })
+})
+
+describe('flashFirmware (virtual bootloader)', () => {
+  function open(): ViblTransport {
+    enterVirtualBootloader()
+    return openVirtualBootloaderTransport()
+  }
+
+  it('reads the uid the keyboard reports as KeyboardId.uid', async () => {
+    await expect(readBootloaderUid(open())).resolves.toBe(VIRTUAL_UID)
+  })
+
+  it('writes the zero-padded image in 64-byte chunks and reboots', async () => {
+    const firmware = parseFirmwareFile('board.bin', makeImage(150))
+    const progress: FirmwareFlashProgress[] = []
+
+    const uid = await flashFirmware(open(), firmware, { expectedUid: VIRTUAL_UID, enableInsecure: false }, (p) => progress.push(p))
+
+    expect(uid).toBe(VIRTUAL_UID)
+    const flashed = getLastVirtualFlash()!
+    expect(flashed.expectedChunks).toBe(3)
+    expect(flashed.receivedChunks).toBe(3)
+    expect(Array.from(flashed.image.subarray(0, 150))).toEqual(Array.from(makeImage(150)))
+    expect(flashed.image.subarray(150).every((b) => b === 0)).toBe(true)
+    expect(flashed.insecureBoot).toBe(false)
+    expect(isVirtualBootloaderActive()).toBe(false)
+    expect(progress.map((p) => p.phase)).toEqual(['checking', 'flashing', 'rebooting', 'done'])
+    expect(progress[1]).toEqual({ phase: 'flashing', written: 150, total: 150 })
+  })
+
+  it('enables insecure first boot when asked to, so a snapshot can be restored', async () => {
+    const firmware = parseFirmwareFile('board.bin', makeImage(64))
+    await flashFirmware(open(), firmware, { expectedUid: VIRTUAL_UID, enableInsecure: true }, () => {})
+    expect(getLastVirtualFlash()!.insecureBoot).toBe(true)
+  })
+
+  it('accepts a uid written with different case or leading zeros', async () => {
+    const firmware = parseFirmwareFile('board.bin', makeImage(64))
+    await expect(
+      flashFirmware(open(), firmware, { expectedUid: VIRTUAL_UID.toUpperCase().replace('0X', '0x'), enableInsecure: false }, () => {}),
+    ).resolves.toBe(VIRTUAL_UID)
+  })
+
+  it('refuses to write when the bootloader belongs to another keyboard', async () => {
+    const firmware = parseFirmwareFile('board.bin', makeImage(64))
+    const onProgress = vi.fn()
+    await expect(
+      flashFirmware(open(), firmware, { expectedUid: '0x1122334455667788', enableInsecure: false }, onProgress),
+    ).rejects.toThrow('uid mismatch')
+    expect(getLastVirtualFlash()).toBeNull()
+    expect(isVirtualBootloaderActive()).toBe(true)
+    expect(onProgress).toHaveBeenCalledTimes(1)
+  })
+
+  it('refuses a package built for another keyboard', async () => {
+    const firmware = parseFirmwareFile('board.vfw', makePackage(makeImage(64), [1, 2, 3, 4, 5, 6, 7, 8]))
+    await expect(
+      flashFirmware(open(), firmware, { expectedUid: VIRTUAL_UID, enableInsecure: false }, () => {}),
+    ).rejects.toThrow('package uid mismatch')
+    expect(getLastVirtualFlash()).toBeNull()
+  })
+
+  it('refuses a raw image when a package is required', async () => {
+    const firmware = parseFirmwareFile('board.bin', makeImage(64))
+    await expect(
+      flashFirmware(open(), firmware, { expectedUid: VIRTUAL_UID, enableInsecure: false, requirePackage: true }, () => {}),
+    ).rejects.toThrow('package required')
+    expect(getLastVirtualFlash()).toBeNull()
+  })
+
+  it('flashes a required package whose uid matches the bootloader', async () => {
+    const firmware = parseFirmwareFile('board.vfw', makePackage(makeImage(64), VIRTUAL_DEVICE_UID_BYTES))
+    await expect(
+      flashFirmware(open(), firmware, { expectedUid: VIRTUAL_UID, enableInsecure: false, requirePackage: true }, () => {}),
+    ).resolves.toBe(VIRTUAL_UID)
+  })
+
+  it('refuses a bootloader without a uid', async () => {
+    const transport: ViblTransport = {
+      write: vi.fn(async () => {}),
+      read: vi.fn()
+        .mockResolvedValueOnce([1, 0, 0, 0, 0, 0, 0, 0])
+        .mockResolvedValueOnce([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]),
+      close: vi.fn(),
+    }
+    const firmware = parseFirmwareFile('board.bin', makeImage(64))
+    await expect(
+      flashFirmware(transport, firmware, { expectedUid: VIRTUAL_UID, enableInsecure: false }, () => {}),
+    ).rejects.toThrow('uid not set')
+    expect(transport.write).toHaveBeenCalledTimes(2)
+  })
+
+  it('refuses an unknown bootloader version', async () => {
+    const transport: ViblTransport = {
+      write: vi.fn(async () => {}),
+      read: vi.fn().mockResolvedValue([7, 0, 0, 0, 0, 0, 0, 0]),
+      close: vi.fn(),
+    }
+    const firmware = parseFirmwareFile('board.bin', makeImage(64))
+    await expect(
+      flashFirmware(transport, firmware, { expectedUid: VIRTUAL_UID, enableInsecure: false }, () => {}),
+    ).rejects.toThrow('unsupported bootloader version 7')
+  })
+})
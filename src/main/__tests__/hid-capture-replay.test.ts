@@ -0,0 +1,141 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Record a session against the virtual device through hid-service, then
+// replay the capture with PIPETTE_HID_REPLAY and check the answers match.
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  MSG_LEN,
+  CMD_VIA_GET_PROTOCOL_VERSION,
+  CMD_VIA_VIAL_PREFIX,
+  CMD_VIAL_GET_KEYBOARD_ID,
+  CMD_VIAL_GET_SIZE,
+  VIAL_SERIAL_MAGIC,
+} from '../../shared/constants/protocol'
+import type { HidCapture } from '../../shared/types/hid-capture'
+
+vi.mock('node-hid', () => ({
+  default: {
+    devicesAsync: vi.fn().mockResolvedValue([]),
+    HIDAsync: { open: vi.fn() },
+  },
+}))
+
+vi.mock('../../main/logger', () => ({
+  log: vi.fn(),
+  logHidPacket: vi.fn(),
+}))
+
+import { openHidDevice, closeHidDevice, sendReceive, listDevices } from '../hid-service'
+import { startHidRecording, stopHidRecording, getHidRecordingStatus, toHex } from '../hid-recorder'
+import { getVirtualDeviceInfo } from '../virtual-device'
+import { createReplayPlayer, parseHidCapture } from '../virtual-device/replay'
+import { VIRTUAL_DEVICE_VID, VIRTUAL_DEVICE_PID } from '../virtual-device/gpk60-63r'
+
+const PROTOCOL_VERSION = [CMD_VIA_GET_PROTOCOL_VERSION]
+const KEYBOARD_ID = [CMD_VIA_VIAL_PREFIX, CMD_VIAL_GET_KEYBOARD_ID]
+const DEFINITION_SIZE = [CMD_VIA_VIAL_PREFIX, CMD_VIAL_GET_SIZE]
+
+let dir: string
+
+beforeEach(async () => {
+  vi.unstubAllEnvs()
+  dir = mkdtempSync(join(tmpdir(), 'pipette-capture-'))
+  await closeHidDevice()
+})
+
+afterEach(async () => {
+  await closeHidDevice()
+  stopHidRecording(null, false)
+  vi.unstubAllEnvs()
+  rmSync(dir, { recursive: true, force: true })
+})
+
+async function recordVirtualSession(scrub: boolean): Promise<{ capture: HidCapture; answers: number[][] }> {
+  vi.stubEnv('PIPETTE_VIRTUAL_DEVICE', '1')
+  await openHidDevice(VIRTUAL_DEVICE_VID, VIRTUAL_DEVICE_PID)
+  startHidRecording(getVirtualDeviceInfo())
+  const answers = [
+    await sendReceive(PROTOCOL_VERSION),
+    await sendReceive(KEYBOARD_ID),
+  ]
+  const capture = stopHidRecording(null, scrub)!
+  await closeHidDevice()
+  vi.unstubAllEnvs()
+  return { capture, answers }
+}
+
+describe('HID session recorder', () => {
+  it('records editor-device exchanges only while recording', async () => {
+    const { capture, answers } = await recordVirtualSession(false)
+
+    expect(getHidRecordingStatus()).toEqual({ recording: false, exchanges: 0 })
+    expect(capture.scrubbed).toBe(false)
+    expect(capture.exchanges).toEqual([
+      { tx: toHex([...PROTOCOL_VERSION, ...new Array(MSG_LEN - 1).fill(0)]), rx: toHex(answers[0]) },
+      { tx: toHex([...KEYBOARD_ID, ...new Array(MSG_LEN - 2).fill(0)]), rx: toHex(answers[1]) },
+    ])
+  })
+
+  it('returns null when nothing is being recorded', () => {
+    expect(stopHidRecording(null, true)).toBeNull()
+  })
+
+  it('scrubs the UID and serial number', async () => {
+    const { capture, answers } = await recordVirtualSession(true)
+
+    expect(capture.scrubbed).toBe(true)
+    expect(capture.device.serialNumber).toBe(VIAL_SERIAL_MAGIC)
+    const rx = capture.exchanges[1].rx!
+    expect(rx.slice(8, 24)).toBe(toHex([...Buffer.from('SCRUBBED')]))
+    // Everything around the UID is kept
+    expect(rx.slice(0, 8)).toBe(toHex(answers[1].slice(0, 4)))
+    expect(rx.slice(24)).toBe(toHex(answers[1].slice(12)))
+  })
+})
+
+describe('HID capture replay', () => {
+  it('exposes the recorded keyboard and answers from the capture', async () => {
+    const { capture, answers } = await recordVirtualSession(false)
+    const file = join(dir, 'capture.json')
+    writeFileSync(file, JSON.stringify({ ...capture, device: { ...capture.device, vendorId: 0xabcd } }))
+    vi.stubEnv('PIPETTE_HID_REPLAY', file)
+
+    expect((await listDevices()).some((d) => d.vendorId === 0xabcd)).toBe(true)
+    expect(await openHidDevice(0xabcd, capture.device.productId)).toBe(true)
+    expect(await sendReceive(KEYBOARD_ID)).toEqual(answers[1])
+    expect(await sendReceive(PROTOCOL_VERSION)).toEqual(answers[0])
+  })
+
+  it('repeats the last recorded reply once a request runs out of replies', async () => {
+    const player = await createReplayPlayer({
+      ...(await recordVirtualSession(false)).capture,
+      exchanges: [
+        { tx: toHex([1, ...new Array(MSG_LEN - 1).fill(0)]), rx: toHex([1, 0, 9]) },
+        { tx: toHex([1, ...new Array(MSG_LEN - 1).fill(0)]), rx: toHex([1, 0, 12]) },
+      ],
+    })
+    const req = new Uint8Array(MSG_LEN)
+    req[0] = 1
+    expect(player.handle(req)[2]).toBe(9)
+    expect(player.handle(req)[2]).toBe(12)
+    expect(player.handle(req)[2]).toBe(12)
+  })
+
+  it('serves the stored definition and marks unknown requests unhandled', async () => {
+    const { capture } = await recordVirtualSession(false)
+    const player = await createReplayPlayer({ ...capture, definition: { name: 'Board', matrix: { rows: 1, cols: 1 }, layouts: { keymap: [] } } })
+
+    const size = player.handle(Uint8Array.from([...DEFINITION_SIZE, ...new Array(MSG_LEN - 2).fill(0)]))
+    expect(size[0] + (size[1] << 8)).toBeGreaterThan(0)
+
+    const unknown = player.handle(Uint8Array.from([0x42, 7, ...new Array(MSG_LEN - 2).fill(0)]))
+    expect(Array.from(unknown.slice(0, 2))).toEqual([0xff, 7])
+  })
+
+  it('rejects files that are not captures', () => {
+    expect(() => parseHidCapture('{"version":1}')).toThrow('Invalid HID capture')
+  })
+})
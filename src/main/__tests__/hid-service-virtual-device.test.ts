@@ -25,9 +25,10 @@ vi.mock('../../main/logger', () => ({
   logHidPacket: vi.fn(),
 }))
 
-import { listDevices, openHidDevice, closeHidDevice, sendReceive, isDeviceOpen } from '../hid-service'
+import { listDevices, openHidDevice, closeHidDevice, sendReceive, send, isDeviceOpen, openBootloaderTransport } from '../hid-service'
 import { VIRTUAL_DEVICE_VID, VIRTUAL_DEVICE_PID, VIRTUAL_DEVICE_NAME } from '../virtual-device/gpk60-63r'
-import { isVirtualDeviceOpen } from '../virtual-device'
+import { isVirtualDeviceOpen, getVirtualDeviceController } from '../virtual-device'
+import { enterVirtualBootloader, resetVirtualBootloader, isVirtualBootloaderActive } from '../virtual-bootloader'
 
 function createMockDeviceInfo(overrides?: Record<string, unknown>) {
   return {
@@ -158,3 +159,66 @@ describe('virtual device enabled', () => {
     await expect(sendReceive([0x01])).rejects.toThrow('No HID device is open')
   })
 })
+
+describe('virtual bootloader', () => {
+  beforeEach(() => {
+    vi.stubEnv('PIPETTE_VIRTUAL_DEVICE', '1')
+    resetVirtualBootloader()
+  })
+
+  afterEach(() => {
+    resetVirtualBootloader()
+  })
+
+  it('lists the virtual keyboard as a bootloader while it is in the bootloader', async () => {
+    enterVirtualBootloader()
+    const result = await listDevices()
+    expect(result).toHaveLength(1)
+    expect(result[0].type).toBe('bootloader')
+    expect(result[0].vendorId).toBe(VIRTUAL_DEVICE_VID)
+  })
+
+  it('drops an open virtual keyboard when it jumps to the bootloader', async () => {
+    await openHidDevice(VIRTUAL_DEVICE_VID, VIRTUAL_DEVICE_PID)
+    enterVirtualBootloader()
+    await expect(isDeviceOpen()).resolves.toBe(false)
+    await expect(openHidDevice(VIRTUAL_DEVICE_VID, VIRTUAL_DEVICE_PID)).resolves.toBe(false)
+  })
+
+  it('hands over to the bootloader on an unlocked bootloader_jump', async () => {
+    const controller = getVirtualDeviceController()
+    controller.reset()
+    await openHidDevice(VIRTUAL_DEVICE_VID, VIRTUAL_DEVICE_PID)
+
+    // Locked: the firmware drops the command and stays on the bus
+    await send([0x0b])
+    expect(isVirtualBootloaderActive()).toBe(false)
+
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1_000)
+    controller.setUnlockCounterMax(1)
+    controller.holdKeys([[0, 0], [0, 1]])
+    await sendReceive([0xfe, 0x06])
+    now.mockReturnValue(1_200)
+    await sendReceive([0xfe, 0x07])
+    now.mockRestore()
+    controller.releaseAll()
+    expect(controller.getState().unlocked).toBe(true)
+
+    await send([0x0b])
+    expect(isVirtualBootloaderActive()).toBe(true)
+    await expect(isDeviceOpen()).resolves.toBe(false)
+    controller.reset()
+  })
+
+  it('opens a bootloader transport without any node-hid calls', async () => {
+    enterVirtualBootloader()
+    const transport = await openBootloaderTransport(VIRTUAL_DEVICE_VID, VIRTUAL_DEVICE_PID)
+    transport.close()
+    expect(mockHIDAsyncOpen).not.toHaveBeenCalled()
+  })
+
+  it('rejects a bootloader transport when no bootloader is present', async () => {
+    mockDevicesAsync.mockResolvedValue([createMockDeviceInfo()])
+    await expect(openBootloaderTransport(0x1234, 0x5678)).rejects.toThrow('Bootloader not found')
+  })
+})
@@ -49,6 +49,9 @@ import {
   send,
   isDeviceOpen,
   validateHidData,
+  openHidSession,
+  closeHidSession,
+  closeAllHidSessions,
 } from '../hid-service'
 
 function createMockDeviceInfo(overrides?: Record<string, unknown>) {
@@ -558,3 +561,98 @@ describe('isDeviceOpen', () => {
     await expect(isDeviceOpen()).resolves.toBe(false)
   })
 })
+
+describe('device sessions', () => {
+  const primaryInfo = createMockDeviceInfo()
+  const secondInfo = createMockDeviceInfo({ path: '/dev/hidraw1', serialNumber: 'vial:00000002' })
+
+  function createSessionDevice() {
+    return { write: vi.fn(() => MSG_LEN + 1), read: vi.fn(), close: vi.fn() }
+  }
+
+  it('opens a second board next to the editor device', async () => {
+    mockDevicesAsync.mockResolvedValue([primaryInfo, secondInfo])
+    mockHIDAsyncOpen.mockResolvedValue(createMockOpenDevice())
+    await openHidDevice(0x1234, 0x5678)
+
+    const sessionDevice = createSessionDevice()
+    mockHIDAsyncOpen.mockResolvedValue(sessionDevice)
+    const sessionId = await openHidSession(0x1234, 0x5678)
+
+    expect(sessionId).toBe('/dev/hidraw1')
+    expect(mockHIDAsyncOpen).toHaveBeenLastCalledWith('/dev/hidraw1')
+    await closeHidSession('/dev/hidraw1')
+    expect(sessionDevice.close).toHaveBeenCalled()
+  })
+
+  it('returns null when every matching board is already open', async () => {
+    mockDevicesAsync.mockResolvedValue([primaryInfo])
+    mockHIDAsyncOpen.mockResolvedValue(createMockOpenDevice())
+    await openHidDevice(0x1234, 0x5678)
+
+    await expect(openHidSession(0x1234, 0x5678)).resolves.toBeNull()
+  })
+
+  it('routes traffic to the session device only', async () => {
+    mockDevicesAsync.mockResolvedValue([secondInfo])
+    const sessionDevice = createSessionDevice()
+    const response = new Array(MSG_LEN).fill(0)
+    response[0] = 0x42
+    sessionDevice.read.mockResolvedValue(Buffer.from(response))
+    mockHIDAsyncOpen.mockResolvedValue(sessionDevice)
+    const sessionId = await openHidSession(0x1234, 0x5678, 'vial:00000002')
+
+    const result = await sendReceive([0x42], sessionId!)
+    expect(result[0]).toBe(0x42)
+    expect(sessionDevice.write).toHaveBeenCalledTimes(1)
+    expect(mockWrite).not.toHaveBeenCalled()
+
+    await closeHidSession(sessionId!)
+  })
+
+  it('serializes each session independently of the editor device', async () => {
+    mockDevicesAsync.mockResolvedValue([primaryInfo, secondInfo])
+    let releasePrimary: (v: Buffer) => void = () => {}
+    mockRead.mockImplementation(() => new Promise<Buffer>((resolve) => { releasePrimary = resolve }))
+    mockHIDAsyncOpen.mockResolvedValue(createMockOpenDevice())
+    await openHidDevice(0x1234, 0x5678)
+
+    const sessionDevice = createSessionDevice()
+    sessionDevice.read.mockResolvedValue(Buffer.from(new Array(MSG_LEN).fill(0)))
+    mockHIDAsyncOpen.mockResolvedValue(sessionDevice)
+    const sessionId = await openHidSession(0x1234, 0x5678)
+
+    const primary = sendReceive([0x01])
+    // The editor device is still waiting for its response
+    await expect(sendReceive([0x02], sessionId!)).resolves.toHaveLength(MSG_LEN)
+
+    releasePrimary(Buffer.from(new Array(MSG_LEN).fill(0)))
+    await primary
+    await closeHidSession(sessionId!)
+  })
+
+  it('rejects traffic for an unknown session', async () => {
+    await expect(sendReceive([0x01], '/dev/hidraw9')).rejects.toThrow('HID session is not open')
+    await expect(send([0x01], '/dev/hidraw9')).rejects.toThrow('HID session is not open')
+  })
+
+  it('closes every session at once', async () => {
+    mockDevicesAsync.mockResolvedValue([secondInfo])
+    const sessionDevice = createSessionDevice()
+    mockHIDAsyncOpen.mockResolvedValue(sessionDevice)
+    const sessionId = await openHidSession(0x1234, 0x5678)
+
+    await closeAllHidSessions()
+    expect(sessionDevice.close).toHaveBeenCalled()
+    await expect(sendReceive([0x01], sessionId!)).rejects.toThrow('HID session is not open')
+  })
+
+  it('keeps the session path out of the editor device search', async () => {
+    mockDevicesAsync.mockResolvedValue([secondInfo])
+    mockHIDAsyncOpen.mockResolvedValue(createSessionDevice())
+    const sessionId = await openHidSession(0x1234, 0x5678)
+
+    await expect(openHidDevice(0x1234, 0x5678)).resolves.toBe(false)
+    await closeHidSession(sessionId!)
+  })
+})
@@ -0,0 +1,129 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { join } from 'node:path'
+import { mkdtemp, rm, readFile, writeFile, mkdir } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+
+// --- Mock electron ---
+
+let mockUserDataPath = ''
+
+vi.mock('electron', () => ({
+  app: {
+    getPath: (name: string) => {
+      if (name === 'userData') return mockUserDataPath
+      return `/mock/${name}`
+    },
+  },
+  ipcMain: {
+    handle: vi.fn(),
+  },
+}))
+
+vi.mock('../ipc-guard', async () => {
+  const { ipcMain } = await import('electron')
+  return { secureHandle: ipcMain.handle }
+})
+
+// --- Import after mocking ---
+
+import { ipcMain } from 'electron'
+import { setupQmkSettingsProfileStore } from '../qmk-settings-profile-store'
+import { IpcChannels } from '../../shared/ipc/channels'
+import type { QmkSettingsProfile } from '../../shared/types/qmk-settings-profile'
+
+type IpcHandler = (...args: unknown[]) => Promise<unknown>
+
+interface ListResult { success: boolean; profiles?: QmkSettingsProfile[]; error?: string }
+interface SaveResult { success: boolean; profile?: QmkSettingsProfile; error?: string }
+
+function getHandler(channel: string): IpcHandler {
+  const calls = vi.mocked(ipcMain.handle).mock.calls
+  const match = calls.find(([ch]) => ch === channel)
+  if (!match) throw new Error(`No handler registered for ${channel}`)
+  return match[1] as IpcHandler
+}
+
+const fakeEvent = { sender: {} } as Electron.IpcMainInvokeEvent
+
+async function list(): Promise<QmkSettingsProfile[]> {
+  const result = await getHandler(IpcChannels.QMK_SETTINGS_PROFILE_LIST)(fakeEvent) as ListResult
+  expect(result.success).toBe(true)
+  return result.profiles ?? []
+}
+
+async function save(name: unknown, values: unknown): Promise<SaveResult> {
+  return await getHandler(IpcChannels.QMK_SETTINGS_PROFILE_SAVE)(fakeEvent, name, values) as SaveResult
+}
+
+describe('qmk-settings-profile-store', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    mockUserDataPath = await mkdtemp(join(tmpdir(), 'qmk-settings-profile-test-'))
+    setupQmkSettingsProfileStore()
+  })
+
+  afterEach(async () => {
+    await rm(mockUserDataPath, { recursive: true, force: true })
+  })
+
+  it('starts empty and lists saved profiles newest first', async () => {
+    expect(await list()).toEqual([])
+
+    await save('Office', { '7': [200, 0] })
+    await save('Gaming', { '7': [150, 0] })
+
+    expect((await list()).map((p) => p.name)).toEqual(['Gaming', 'Office'])
+  })
+
+  it('stores profiles in the machine-local directory', async () => {
+    await save('Office', { '7': [200, 0] })
+    const raw = await readFile(join(mockUserDataPath, 'local', 'qmk-settings-profiles.json'), 'utf-8')
+    expect(JSON.parse(raw).profiles[0].values).toEqual({ '7': [200, 0] })
+  })
+
+  it('replaces the values of a profile saved under the same name', async () => {
+    const first = await save('Office', { '7': [200, 0] })
+    const second = await save(' office ', { '7': [180, 0] })
+
+    expect(second.profile?.id).toBe(first.profile?.id)
+    const profiles = await list()
+    expect(profiles).toHaveLength(1)
+    expect(profiles[0]).toMatchObject({ name: 'Office', values: { '7': [180, 0] } })
+  })
+
+  it('rejects invalid names and values', async () => {
+    expect((await save('', { '7': [1] })).success).toBe(false)
+    expect((await save('x'.repeat(101), { '7': [1] })).success).toBe(false)
+    expect((await save('Bad', { '7': [256] })).success).toBe(false)
+    expect((await save('Bad', [1, 2])).success).toBe(false)
+    expect(await list()).toEqual([])
+  })
+
+  it('renames profiles unless the name is taken', async () => {
+    const office = await save('Office', { '7': [200, 0] })
+    await save('Gaming', { '7': [150, 0] })
+    const rename = getHandler(IpcChannels.QMK_SETTINGS_PROFILE_RENAME)
+
+    expect(await rename(fakeEvent, office.profile?.id, 'gaming')).toEqual({ success: false, error: 'Name already in use' })
+    expect(await rename(fakeEvent, office.profile?.id, 'Work')).toEqual({ success: true })
+    expect(await rename(fakeEvent, 'missing', 'Other')).toEqual({ success: false, error: 'Profile not found' })
+    expect((await list()).map((p) => p.name)).toEqual(['Gaming', 'Work'])
+  })
+
+  it('deletes profiles', async () => {
+    const office = await save('Office', { '7': [200, 0] })
+    const remove = getHandler(IpcChannels.QMK_SETTINGS_PROFILE_DELETE)
+
+    expect(await remove(fakeEvent, office.profile?.id)).toEqual({ success: true })
+    expect(await remove(fakeEvent, office.profile?.id)).toEqual({ success: false, error: 'Profile not found' })
+    expect(await list()).toEqual([])
+  })
+
+  it('treats a corrupt index as empty', async () => {
+    await mkdir(join(mockUserDataPath, 'local'), { recursive: true })
+    await writeFile(join(mockUserDataPath, 'local', 'qmk-settings-profiles.json'), '{not json', 'utf-8')
+    expect(await list()).toEqual([])
+  })
+})
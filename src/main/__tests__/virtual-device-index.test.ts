@@ -1,9 +1,17 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { delimiter } from 'node:path'
+
+vi.mock('../logger', () => ({
+  log: vi.fn(),
+}))
+
+import { log } from '../logger'
 import {
   isVirtualDeviceEnabled,
   getVirtualDeviceInfo,
+  listVirtualDevices,
   matchesVirtualDevice,
   openVirtualDevice,
   closeVirtualDevice,
@@ -45,6 +53,22 @@ describe('getVirtualDeviceInfo / matchesVirtualDevice', () => {
     expect(info.type).toBe('vial')
   })
 
+  it('falls back to the built-in board when the replay file cannot be read', () => {
+    vi.mocked(log).mockClear()
+    vi.stubEnv('PIPETTE_HID_REPLAY', '/nonexistent/capture.json')
+    expect(getVirtualDeviceInfo().vendorId).toBe(VIRTUAL_DEVICE_VID)
+    expect(getVirtualDeviceInfo().vendorId).toBe(VIRTUAL_DEVICE_VID)
+    expect(log).toHaveBeenCalledTimes(1)
+  })
+
+  it('leaves out board files that cannot be loaded', () => {
+    vi.mocked(log).mockClear()
+    vi.stubEnv('PIPETTE_VIRTUAL_DEVICE', ['1', '/nonexistent/board.vil'].join(delimiter))
+    expect(listVirtualDevices().map((d) => d.productId)).toEqual([VIRTUAL_DEVICE_PID])
+    expect(listVirtualDevices()).toHaveLength(1)
+    expect(log).toHaveBeenCalledTimes(1)
+  })
+
   it('matches only the virtual vid/pid pair', () => {
     expect(matchesVirtualDevice(VIRTUAL_DEVICE_VID, VIRTUAL_DEVICE_PID)).toBe(true)
     expect(matchesVirtualDevice(0x1234, 0x5678)).toBe(false)
@@ -0,0 +1,198 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { delimiter, join } from 'node:path'
+import {
+  MSG_LEN,
+  CMD_VIA_GET_LAYER_COUNT,
+  CMD_VIA_MACRO_GET_BUFFER_SIZE,
+  CMD_VIA_GET_KEYCODE,
+  CMD_VIA_VIAL_PREFIX,
+  CMD_VIAL_GET_KEYBOARD_ID,
+  CMD_VIAL_GET_ENCODER,
+  CMD_VIAL_SET_ENCODER,
+  CMD_VIAL_DYNAMIC_ENTRY_OP,
+  DYNAMIC_VIAL_GET_NUMBER_OF_ENTRIES,
+} from '../../shared/constants/protocol'
+import type { KeyboardDefinition, VilFile } from '../../shared/types/protocol'
+import { parseVirtualDeviceProfile, type VirtualDeviceIdentity } from '../virtual-device/profile'
+import {
+  listVirtualDevices,
+  isVirtualDeviceExclusive,
+  openVirtualDevice,
+  closeVirtualDevice,
+  handleVirtualReport,
+} from '../virtual-device/index'
+import { VIRTUAL_DEVICE_VID, VIRTUAL_DEVICE_PID, VIRTUAL_DEVICE_NAME } from '../virtual-device/gpk60-63r'
+
+const identity: VirtualDeviceIdentity = {
+  vendorId: 0x7a79,
+  productId: 0x1000,
+  serial: 'vial:f64c2b3c:virtual-1',
+  uid: new Uint8Array(8).fill(1),
+}
+
+// 2x3 matrix with one encoder (two "e" keys) and backlight lighting
+const definition: KeyboardDefinition = {
+  name: 'Macropad',
+  matrix: { rows: 2, cols: 3 },
+  lighting: 'qmk_backlight',
+  dynamic_keymap: { layer_count: 3 },
+  layouts: {
+    keymap: [
+      ['0,0', '0,1', '0,2'],
+      ['1,0', '1,1', '1,2', { e: 0 }, '0,0\n\n\n\n\n\n\n\n\ne', { e: 1 }, '0,1\n\n\n\n\n\n\n\n\ne'],
+    ],
+  },
+}
+
+const vil: VilFile = {
+  version: 2,
+  uid: '0x0102030405060708',
+  keymap: { '0,0,0': 4, '0,1,2': 5, '1,0,0': 6 },
+  encoderLayout: { '0,0,0': 0x52, '0,0,1': 0x51 },
+  macros: new Array(100).fill(0),
+  macroJson: [[], [], [], []],
+  layoutOptions: 2,
+  tapDance: new Array(4).fill({ onTap: 4, onHold: 0, onDoubleTap: 0, onTapHold: 0, tappingTerm: 150 }),
+  combo: new Array(2).fill({ key1: 0, key2: 0, key3: 0, key4: 0, output: 0 }),
+  keyOverride: [],
+  altRepeatKey: [],
+  qmkSettings: {},
+  definition,
+}
+
+function report(...bytes: number[]): number[] {
+  return [...bytes, ...new Array(MSG_LEN - bytes.length).fill(0)]
+}
+
+describe('parseVirtualDeviceProfile', () => {
+  it('takes the matrix, layer count, encoders and lighting from a definition', () => {
+    const profile = parseVirtualDeviceProfile(JSON.stringify(definition), 'file', identity)
+
+    expect(profile.name).toBe('Macropad')
+    expect([profile.layers, profile.rows, profile.cols]).toEqual([3, 2, 3])
+    expect(profile.encoderCount).toBe(1)
+    expect(profile.lighting).toBe('qmk_backlight')
+    expect(profile.vendorId).toBe(identity.vendorId)
+    expect(profile.factory().keymap).toHaveLength(3 * 2 * 3)
+  })
+
+  it('takes entry counts, macro buffer and contents from a .vil file', () => {
+    const profile = parseVirtualDeviceProfile(JSON.stringify(vil), 'file', identity)
+
+    expect(profile.layers).toBe(2)
+    expect(profile.entryCounts).toEqual({ tapDance: 4, combo: 2, keyOverride: 0, altRepeatKey: 0 })
+    expect([profile.macroCount, profile.macroBufferSize]).toEqual([4, 100])
+    expect(Array.from(profile.uid)).toEqual([8, 7, 6, 5, 4, 3, 2, 1])
+
+    const factory = profile.factory()
+    expect(factory.keymap[0]).toBe(4)
+    expect(factory.keymap[(0 * 2 + 1) * 3 + 2]).toBe(5)
+    expect(factory.keymap[(1 * 2 + 0) * 3 + 0]).toBe(6)
+    expect(Array.from(factory.encoders.slice(0, 2))).toEqual([0x52, 0x51])
+    expect(factory.layoutOptions).toBe(2)
+    expect(factory.tapDance[3].tappingTerm).toBe(150)
+  })
+
+  it('places one LED per switch and offers Direct Control on VialRGB boards', () => {
+    const json = JSON.stringify({ ...definition, lighting: 'vialrgb' })
+    const profile = parseVirtualDeviceProfile(json, 'file', identity)
+
+    expect(profile.vialRGBEffects).toContain(1)
+    // Encoder keys carry no LED
+    expect(profile.leds.map((led) => [led.row, led.col])).toEqual([[0, 0], [0, 1], [0, 2], [1, 0], [1, 1], [1, 2]])
+    expect([profile.leds[0].x, profile.leds[0].y]).toEqual([0, 0])
+    expect([profile.leds[5].x, profile.leds[5].y]).toEqual([224, 64])
+    expect(parseVirtualDeviceProfile(JSON.stringify(definition), 'file', identity).leds).toEqual([])
+  })
+
+  it('uses VIA-style vendor and product ids when the definition has them', () => {
+    const json = JSON.stringify({ ...definition, vendorId: '0x4653', productId: '0x0001' })
+    const profile = parseVirtualDeviceProfile(json, 'file', identity)
+    expect([profile.vendorId, profile.productId]).toEqual([0x4653, 0x0001])
+  })
+
+  it('rejects files that are neither a definition nor a v2 .vil', () => {
+    const { definition: _, ...v1 } = vil
+    expect(() => parseVirtualDeviceProfile(JSON.stringify({ ...v1, version: undefined }), 'f', identity))
+      .toThrow('Unsupported virtual device file')
+  })
+})
+
+describe('PIPETTE_VIRTUAL_DEVICE device list', () => {
+  let dir: string
+  let defPath: string
+  let vilPath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'pipette-virtual-'))
+    defPath = join(dir, 'macropad.json')
+    vilPath = join(dir, 'board.vil')
+    writeFileSync(defPath, JSON.stringify(definition))
+    writeFileSync(vilPath, JSON.stringify(vil))
+  })
+
+  afterEach(() => {
+    closeVirtualDevice()
+    vi.unstubAllEnvs()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('lists the built-in board and each file with its own identity', () => {
+    vi.stubEnv('PIPETTE_VIRTUAL_DEVICE', ['1', defPath, vilPath].join(delimiter))
+
+    const devices = listVirtualDevices()
+    expect(devices.map((d) => d.productName)).toEqual([VIRTUAL_DEVICE_NAME, 'Macropad', 'Macropad'])
+    expect(devices.every((d) => d.vendorId === VIRTUAL_DEVICE_VID)).toBe(true)
+    expect(new Set(devices.map((d) => d.productId)).size).toBe(3)
+    expect(new Set(devices.map((d) => d.serialNumber)).size).toBe(3)
+    expect(isVirtualDeviceExclusive()).toBe(false)
+  })
+
+  it('hides the built-in board when only files follow "only"', () => {
+    vi.stubEnv('PIPETTE_VIRTUAL_DEVICE', ['only', defPath].join(delimiter))
+
+    expect(isVirtualDeviceExclusive()).toBe(true)
+    expect(listVirtualDevices().map((d) => d.productName)).toEqual(['Macropad'])
+  })
+
+  it('emulates the loaded board once opened', async () => {
+    vi.stubEnv('PIPETTE_VIRTUAL_DEVICE', ['1', vilPath].join(delimiter))
+    const board = listVirtualDevices()[1]
+    await openVirtualDevice(board.vendorId, board.productId)
+
+    expect(handleVirtualReport(report(CMD_VIA_GET_LAYER_COUNT))[1]).toBe(2)
+    const size = handleVirtualReport(report(CMD_VIA_MACRO_GET_BUFFER_SIZE))
+    expect((size[1] << 8) | size[2]).toBe(100)
+    const keycode = handleVirtualReport(report(CMD_VIA_GET_KEYCODE, 0, 1, 2))
+    expect((keycode[4] << 8) | keycode[5]).toBe(5)
+    const entries = handleVirtualReport(
+      report(CMD_VIA_VIAL_PREFIX, CMD_VIAL_DYNAMIC_ENTRY_OP, DYNAMIC_VIAL_GET_NUMBER_OF_ENTRIES),
+    )
+    expect(entries.slice(0, 4)).toEqual([4, 2, 0, 0])
+    // Only VialRGB boards set the keyboard-id lighting flag
+    const id = handleVirtualReport(report(CMD_VIA_VIAL_PREFIX, CMD_VIAL_GET_KEYBOARD_ID))
+    expect(id.slice(4, 12)).toEqual([8, 7, 6, 5, 4, 3, 2, 1])
+    expect(id[12]).toBe(0)
+  })
+
+  it('reads and writes encoder keycodes', async () => {
+    vi.stubEnv('PIPETTE_VIRTUAL_DEVICE', vilPath)
+    await openVirtualDevice()
+
+    const before = handleVirtualReport(report(CMD_VIA_VIAL_PREFIX, CMD_VIAL_GET_ENCODER, 0, 0))
+    expect(before.slice(0, 4)).toEqual([0, 0x52, 0, 0x51])
+
+    handleVirtualReport(report(CMD_VIA_VIAL_PREFIX, CMD_VIAL_SET_ENCODER, 1, 0, 1, 0x00, 0x2c))
+    const after = handleVirtualReport(report(CMD_VIA_VIAL_PREFIX, CMD_VIAL_GET_ENCODER, 1, 0))
+    expect(after.slice(0, 4)).toEqual([0, 0, 0, 0x2c])
+  })
+
+  it('keeps the built-in board when nothing is configured', () => {
+    expect(listVirtualDevices()).toHaveLength(1)
+    expect(listVirtualDevices()[0].productId).toBe(VIRTUAL_DEVICE_PID)
+  })
+})
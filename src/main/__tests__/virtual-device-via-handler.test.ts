@@ -4,7 +4,7 @@ import { describe, it, expect } from 'vitest'
 import { MSG_LEN, BUFFER_FETCH_CHUNK } from '../../shared/constants/protocol'
 import { setProtocolValue } from '../../shared/keycodes/keycodes'
 import { resolve } from '../../shared/keycodes/keycodes-utils'
-import { ROWS, COLS, LAYERS, MACRO_BUFFER_SIZE } from '../virtual-device/gpk60-63r'
+import { ROWS, COLS, LAYERS, MACRO_BUFFER_SIZE, buildDefaultKeymap } from '../virtual-device/gpk60-63r'
 import { createVirtualDeviceState, pressKey, keymapIndex } from '../virtual-device/state'
 import { handleViaReport } from '../virtual-device/via-handler'
 import { readBE16, writeBE16, readBE32, writeBE32 } from '../virtual-device/byte-utils'
@@ -106,6 +106,25 @@ describe('handleViaReport', () => {
     expect(state.keymap[keymapIndex(0, 0, 0)]).toBe(qkBoot)
   })
 
+  it('keymap set_buffer writes big-endian keycodes from a byte offset', () => {
+    const state = createVirtualDeviceState()
+    const offset = keymapIndex(1, 0, 0) * 2
+    const setReq = req(0x13, 0, 0, 4, 0x12, 0x34, 0x00, 0x05)
+    writeBE16(setReq, 1, offset)
+    handleViaReport(state, setReq)
+    expect(state.keymap[keymapIndex(1, 0, 0)]).toBe(0x1234)
+    expect(state.keymap[keymapIndex(1, 0, 1)]).toBe(0x0005)
+  })
+
+  it('keymap set_buffer applies the QK_BOOT firewall while locked', () => {
+    setProtocolValue(6)
+    const qkBoot = resolve('QK_BOOT')
+    const state = createVirtualDeviceState()
+    const setReq = req(0x13, 0, 0, 2, qkBoot >> 8, qkBoot & 0xff)
+    handleViaReport(state, setReq)
+    expect(state.keymap[keymapIndex(0, 0, 0)]).toBe(0)
+  })
+
   it('macro buffer round-trips through set/get in chunks', () => {
     const state = createVirtualDeviceState()
     const sample = new Uint8Array(MACRO_BUFFER_SIZE)
@@ -159,4 +178,74 @@ describe('handleViaReport', () => {
     expect(resp[2 + 4 * 2]).toBe(1 << 3)
     expect(resp[2 + 4 * 2 + 1]).toBe(0x00)
   })
+
+  it('custom menu values round-trip per channel and value id', () => {
+    const state = createVirtualDeviceState()
+    handleViaReport(state, req(0x07, 0x00, 0x01, 0x01, 0xf4))
+    handleViaReport(state, req(0x07, 0x00, 0x02, 0x05))
+
+    const first = handleViaReport(state, req(0x08, 0x00, 0x01))
+    expect(Array.from(first.subarray(0, 5))).toEqual([0x08, 0x00, 0x01, 0x01, 0xf4])
+    const second = handleViaReport(state, req(0x08, 0x00, 0x02))
+    expect(second[3]).toBe(0x05)
+  })
+
+  it('unwritten custom menu values read back as zero', () => {
+    const state = createVirtualDeviceState()
+    const resp = handleViaReport(state, req(0x08, 0x00, 0x09, 0xaa))
+    expect(Array.from(resp.subarray(0, 3))).toEqual([0x08, 0x00, 0x09])
+    expect(resp.subarray(3).every((b) => b === 0)).toBe(true)
+  })
+
+  it('custom channel writes leave VialRGB state untouched', () => {
+    const state = createVirtualDeviceState()
+    const before = { ...state.rgb }
+    handleViaReport(state, req(0x07, 0x00, 0x41, 0x01, 0x00))
+    expect(state.rgb).toEqual(before)
+  })
+
+  describe('maintenance commands', () => {
+    function customized() {
+      const state = createVirtualDeviceState()
+      state.keymap[keymapIndex(1, 2, 3)] = 0x1234
+      state.layoutOptions = 5
+      return state
+    }
+
+    it('are ignored while locked', () => {
+      const state = customized()
+      const macros = Array.from(state.macroBuffer)
+      for (const cmd of [0x06, 0x0a, 0x0b]) {
+        expect(Array.from(handleViaReport(state, req(cmd)))).toEqual(Array.from(req(cmd)))
+      }
+      expect(state.keymap[keymapIndex(1, 2, 3)]).toBe(0x1234)
+      expect(state.layoutOptions).toBe(5)
+      expect(Array.from(state.macroBuffer)).toEqual(macros)
+      expect(state.bootloaderJumpPending).toBe(false)
+    })
+
+    it('dynamic_keymap_reset restores the default keymap only', () => {
+      const state = customized()
+      state.unlocked = true
+      handleViaReport(state, req(0x06))
+      expect(Array.from(state.keymap)).toEqual(Array.from(buildDefaultKeymap()))
+      expect(state.layoutOptions).toBe(5)
+    })
+
+    it('eeprom_reset resets layout options, keymap and macros', () => {
+      const state = customized()
+      state.unlocked = true
+      handleViaReport(state, req(0x0a))
+      expect(Array.from(state.keymap)).toEqual(Array.from(buildDefaultKeymap()))
+      expect(state.layoutOptions).toBe(0)
+      expect(state.macroBuffer.every((b) => b === 0)).toBe(true)
+    })
+
+    it('bootloader_jump flags the hand-over to the bootloader', () => {
+      const state = createVirtualDeviceState()
+      state.unlocked = true
+      handleViaReport(state, req(0x0b))
+      expect(state.bootloaderJumpPending).toBe(true)
+    })
+  })
 })
@@ -1,7 +1,16 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 
 import { describe, it, expect } from 'vitest'
-import { MSG_LEN, VIALRGB_GET_INFO, VIALRGB_GET_MODE, VIALRGB_GET_SUPPORTED, VIALRGB_SET_MODE } from '../../shared/constants/protocol'
+import {
+  MSG_LEN,
+  VIALRGB_GET_INFO,
+  VIALRGB_GET_MODE,
+  VIALRGB_GET_SUPPORTED,
+  VIALRGB_SET_MODE,
+  VIALRGB_GET_NUMBER_LEDS,
+  VIALRGB_GET_LED_INFO,
+  VIALRGB_DIRECT_FASTSET,
+} from '../../shared/constants/protocol'
 import { VIALRGB_SUPPORTED_EFFECTS } from '../virtual-device/gpk60-63r'
 import { createVirtualDeviceState } from '../virtual-device/state'
 import { getLightingValue, setLightingValue } from '../virtual-device/vialrgb-handler'
@@ -54,6 +63,36 @@ describe('getLightingValue', () => {
       expect(beyondResp[i]).toBe(0xff)
     }
   })
+
+  it('VIALRGB_GET_NUMBER_LEDS reports one LED per switch', () => {
+    const state = createVirtualDeviceState()
+    const r = req(0x08, VIALRGB_GET_NUMBER_LEDS)
+    const resp = getLightingValue(state, r, new Uint8Array(r))
+    expect(readLE16(resp, 2)).toBe(state.profile.leds.length)
+    expect(state.profile.leds.length).toBeGreaterThan(0)
+  })
+
+  it('VIALRGB_GET_LED_INFO returns the point, flags and matrix position', () => {
+    const state = createVirtualDeviceState()
+    const leds = state.profile.leds
+    const r = req(0x08, VIALRGB_GET_LED_INFO)
+    writeLE16(r, 2, leds.length - 1)
+    const resp = getLightingValue(state, r, new Uint8Array(r))
+    const last = leds[leds.length - 1]
+    expect(Array.from(resp.slice(2, 7))).toEqual([last.x, last.y, last.flags, last.row, last.col])
+    // Points span the rgb_matrix grid
+    expect(Math.min(...leds.map((l) => l.x))).toBe(0)
+    expect(Math.max(...leds.map((l) => l.x))).toBe(224)
+    expect(Math.max(...leds.map((l) => l.y))).toBe(64)
+  })
+
+  it('VIALRGB_GET_LED_INFO leaves the echo for an out-of-range LED', () => {
+    const state = createVirtualDeviceState()
+    const r = req(0x08, VIALRGB_GET_LED_INFO)
+    writeLE16(r, 2, 9999)
+    const resp = getLightingValue(state, r, new Uint8Array(r))
+    expect(resp).toEqual(r)
+  })
 })
 
 describe('setLightingValue', () => {
@@ -75,4 +114,21 @@ describe('setLightingValue', () => {
     setLightingValue(state, req(0x07, 0x99))
     expect(state.rgb).toEqual(before)
   })
+
+  it('stores Direct Control colors from VIALRGB_DIRECT_FASTSET', () => {
+    const state = createVirtualDeviceState()
+    const r = req(0x07, VIALRGB_DIRECT_FASTSET, 2, 0, 2, 10, 20, 30, 40, 50, 60)
+    setLightingValue(state, r)
+    expect(Array.from(state.directColors.slice(6, 12))).toEqual([10, 20, 30, 40, 50, 60])
+    expect(Array.from(state.directColors.slice(0, 6))).toEqual([0, 0, 0, 0, 0, 0])
+  })
+
+  it('clips a fastset that runs past the last LED', () => {
+    const state = createVirtualDeviceState()
+    const last = state.profile.leds.length - 1
+    const r = req(0x07, VIALRGB_DIRECT_FASTSET, last & 0xff, last >> 8, 3, 1, 2, 3, 4, 5, 6, 7, 8, 9)
+    setLightingValue(state, r)
+    expect(Array.from(state.directColors.slice(-3))).toEqual([1, 2, 3])
+    expect(state.directColors).toHaveLength(state.profile.leds.length * 3)
+  })
 })
@@ -0,0 +1,85 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// USB hot-plug watcher (main process). node-hid has no attach/detach
+// events, so this re-enumerates on a timer and broadcasts the difference
+// as DEVICE_CONNECTED / DEVICE_DISCONNECTED.
+
+import { IpcChannels } from '../shared/ipc/channels'
+import type { DeviceInfo } from '../shared/types/protocol'
+import { listDevices } from './hid-service'
+import { broadcastToAllWindows } from './utils/broadcast'
+import { secureHandle } from './ipc-guard'
+import { log } from './logger'
+
+/** Interval between enumeration passes (ms) */
+export const DEVICE_WATCH_INTERVAL_MS = 1000
+
+let timerId: ReturnType<typeof setTimeout> | null = null
+let running = false
+let suspended = false
+// null until the first pass has run — that pass only records the baseline.
+let known: Map<string, DeviceInfo> | null = null
+
+function deviceKey(d: DeviceInfo): string {
+  return `${d.vendorId}:${d.productId}:${d.serialNumber}:${d.type}`
+}
+
+/** Run one enumeration pass and broadcast what changed since the last one. */
+export async function scanDevices(): Promise<void> {
+  let devices: DeviceInfo[]
+  try {
+    devices = await listDevices()
+  } catch (err) {
+    log('warn', `Device watcher scan failed: ${err instanceof Error ? err.message : String(err)}`)
+    return
+  }
+
+  const current = new Map<string, DeviceInfo>()
+  for (const d of devices) current.set(deviceKey(d), d)
+
+  const previous = known
+  known = current
+  if (!previous) return
+
+  for (const [key, d] of previous) {
+    if (!current.has(key)) broadcastToAllWindows(IpcChannels.DEVICE_DISCONNECTED, d)
+  }
+  for (const [key, d] of current) {
+    if (!previous.has(key)) broadcastToAllWindows(IpcChannels.DEVICE_CONNECTED, d)
+  }
+}
+
+async function tick(): Promise<void> {
+  timerId = null
+  // Enumeration disrupts firmware-side timing (the unlock counter, the
+  // bootloader handshake), so skip passes while the renderer asks for quiet.
+  if (!suspended) await scanDevices()
+  if (running) timerId = setTimeout(() => { void tick() }, DEVICE_WATCH_INTERVAL_MS)
+}
+
+export function startDeviceWatcher(): void {
+  if (running) return
+  running = true
+  timerId = setTimeout(() => { void tick() }, 0)
+}
+
+export function stopDeviceWatcher(): void {
+  running = false
+  if (timerId !== null) clearTimeout(timerId)
+  timerId = null
+  known = null
+}
+
+/**
+ * Pause enumeration. The first pass after resuming diffs against the set
+ * seen before the pause, so only net changes are reported.
+ */
+export function setDeviceWatcherSuspended(value: boolean): void {
+  suspended = value
+}
+
+export function setupDeviceWatcher(): void {
+  secureHandle(IpcChannels.DEVICE_WATCH_SET_SUSPENDED, (_event, value: unknown) => {
+    setDeviceWatcherSuspended(value === true)
+  })
+  startDeviceWatcher()
+}
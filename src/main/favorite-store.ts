@@ -6,7 +6,7 @@ import { join } from 'node:path'
 import { mkdir, readFile, writeFile } from 'node:fs/promises'
 import { randomUUID } from 'node:crypto'
 import { IpcChannels } from '../shared/ipc/channels'
-import { isValidFavoriteType, isValidVialProtocol, isFavoriteDataFile, FAV_EXPORT_KEY_MAP, FAV_TYPE_TO_EXPORT_KEY, isValidFavExportFile, buildFavExportFile, serializeFavData, deserializeFavData } from '../shared/favorite-data'
+import { isValidFavoriteType, isValidVialProtocol, isFavoriteDataFile, FAV_EXPORT_KEY_MAP, FAV_TYPE_TO_EXPORT_KEY, isValidFavExportFile, buildFavExportFile, serializeFavData, deserializeFavData, normalizeFavTags } from '../shared/favorite-data'
 import { serialize as serializeKeycode, deserialize as deserializeKeycode } from '../shared/keycodes/keycodes'
 import { withDeserializeProtocol, withSerializeProtocol } from '../shared/keycodes/with-protocol'
 import { notifyChange } from './sync/sync-service'
@@ -205,6 +205,7 @@ export function setupFavoriteStore(): void {
             exportEntries.push({
               label: entry.label,
               savedAt: entry.savedAt,
+              ...(entry.tags?.length ? { tags: entry.tags } : {}),
               data: withSerializeProtocol(vialProtocol, () => serializeFavData(scope, parsed.data, serializeKeycode)),
             })
           } catch {
@@ -354,6 +355,32 @@ export function setupFavoriteStore(): void {
     },
   )
 
+  // --- Set Tags ---
+  secureHandle(
+    IpcChannels.FAVORITE_STORE_SET_TAGS,
+    async (_event, type: unknown, entryId: string, tags: unknown): Promise<{ success: boolean; error?: string }> => {
+      try {
+        validateType(type)
+        if (!Array.isArray(tags)) return { success: false, error: 'Invalid tags' }
+        const found = await findEntry(type, entryId)
+        if (!found) return { success: false, error: 'Entry not found' }
+
+        const normalized = normalizeFavTags(tags)
+        if (normalized.length === 0) {
+          delete found.entry.tags
+        } else {
+          found.entry.tags = normalized
+        }
+        found.entry.updatedAt = new Date().toISOString()
+        await writeIndex(type, found.index)
+        notifyChange(`favorites/${type}`)
+        return { success: true }
+      } catch (err) {
+        return { success: false, error: String(err) }
+      }
+    },
+  )
+
   // --- Import to Current (read file, return first matching entry data without saving) ---
   secureHandle(
     IpcChannels.FAVORITE_STORE_IMPORT_TO_CURRENT,
@@ -473,6 +500,8 @@ export function setupFavoriteStore(): void {
               savedAt: entry.savedAt,
               updatedAt: now.toISOString(),
             }
+            const tags = normalizeFavTags(entry.tags)
+            if (tags.length > 0) meta.tags = tags
 
             index.entries.unshift(meta)
             imported++
@@ -4,6 +4,7 @@
 import { dialog, BrowserWindow } from 'electron'
 import { readFile, writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
+import { strToU8, zipSync } from 'fflate'
 import { IpcChannels } from '../shared/ipc/channels'
 import { secureHandle } from './ipc-guard'
 
@@ -19,7 +20,7 @@ interface SaveDialogOptions {
   filters: Electron.FileFilter[]
 }
 
-function sanitizeFilename(name: string): string {
+export function sanitizeFilename(name: string): string {
   return name
     .replace(/[/\\:*?"<>|]/g, '_')
     .replace(/[\x00-\x1f]/g, '')
@@ -27,7 +28,7 @@ function sanitizeFilename(name: string): string {
     .trim() || 'keyboard'
 }
 
-async function saveFileWithDialog(
+export async function saveFileWithDialog(
   event: Electron.IpcMainInvokeEvent,
   content: string | Buffer,
   options: SaveDialogOptions,
@@ -65,13 +66,30 @@ export function setupFileIO(): void {
     })
   })
 
-  secureHandle(IpcChannels.FILE_EXPORT_KEYMAP_C, async (event, content: string, deviceName?: string) => {
-    const filename = deviceName ? `${sanitizeFilename(deviceName)}_keymap.c` : 'keymap.c'
-    return saveFileWithDialog(event, content, {
+  // keymap.c export bundle: the renderer builds keymap.c, config.h and
+  // rules.mk; they are zipped here under their own names.
+  secureHandle(IpcChannels.FILE_EXPORT_KEYMAP_C, async (event, files: unknown, deviceName?: string) => {
+    if (!Array.isArray(files) || files.length === 0) {
+      return { success: false, error: 'no files' }
+    }
+    const entries: Record<string, Uint8Array> = {}
+    for (const f of files) {
+      if (
+        typeof f !== 'object' || f === null ||
+        typeof (f as { name?: unknown }).name !== 'string' ||
+        typeof (f as { content?: unknown }).content !== 'string'
+      ) {
+        return { success: false, error: 'invalid file entry' }
+      }
+      const entry = f as { name: string; content: string }
+      entries[sanitizeFilename(entry.name)] = strToU8(entry.content)
+    }
+    const filename = deviceName ? `${sanitizeFilename(deviceName)}_keymap.zip` : 'keymap.zip'
+    return saveFileWithDialog(event, Buffer.from(zipSync(entries)), {
       title: 'Export keymap.c',
       defaultPath: filename,
       filters: [
-        { name: 'C Source', extensions: ['c'] },
+        { name: 'ZIP Archive', extensions: ['zip'] },
         { name: 'All Files', extensions: ['*'] },
       ],
     })
@@ -89,6 +107,18 @@ export function setupFileIO(): void {
     })
   })
 
+  secureHandle(IpcChannels.FILE_EXPORT_ZMK_KEYMAP, async (event, content: string, deviceName?: string) => {
+    const filename = deviceName ? `${sanitizeFilename(deviceName)}.keymap` : 'default.keymap'
+    return saveFileWithDialog(event, content, {
+      title: 'Export ZMK Keymap',
+      defaultPath: filename,
+      filters: [
+        { name: 'ZMK Keymap', extensions: ['keymap'] },
+        { name: 'All Files', extensions: ['*'] },
+      ],
+    })
+  })
+
   secureHandle(IpcChannels.FILE_EXPORT_CSV, async (event, content: string, defaultName?: string) => {
     const filename = defaultName ? `${sanitizeFilename(defaultName)}.csv` : 'typing-test-history.csv'
     return saveFileWithDialog(event, content, {
@@ -162,11 +192,14 @@ export function setupFileIO(): void {
     const win = BrowserWindow.fromWebContents(event.sender)
     if (!win) return { success: false, error: 'No window' }
 
-    // Default to .vil; callers can pass ['pipette'] for pipette-file mode
+    // Default to .vil; callers can pass ['pipette'] for pipette-file mode or
+    // ['c', 'json'] for a QMK keymap
     const exts = Array.isArray(extensions) && extensions.every((e) => typeof e === 'string')
       ? extensions as string[]
       : ['vil']
-    const filterName = exts.includes('pipette') ? 'Pipette Layout' : 'Vial Layout'
+    const filterName = exts.includes('pipette')
+      ? 'Pipette Layout'
+      : exts.includes('c') ? 'QMK Keymap' : 'Vial Layout'
 
     const result = await dialog.showOpenDialog(win, {
       title: typeof title === 'string' ? title : 'Import Layout',
@@ -0,0 +1,157 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Vial bootloader (vibl) flashing — firmware image parsing and the flash
+// sequence, written against a small transport so the same code drives real
+// HID bootloaders and the virtual stand-in. Mirrors vial-gui's
+// firmware_flasher.py (version check → uid check → "VF" + 64-byte chunks →
+// optional "VT" → "VR").
+
+import { createHash } from 'node:crypto'
+import {
+  VIBL_PACKET_LEN,
+  VIBL_CMD_CHECK,
+  VIBL_CHECK_VERSION,
+  VIBL_CHECK_UID,
+  VIBL_CMD_FLASH,
+  VIBL_CMD_INSECURE_BOOT,
+  VIBL_CMD_REBOOT,
+  VIBL_SUPPORTED_VERSIONS,
+  VIBL_PACKAGE_SIGNATURE,
+  VIBL_PACKAGE_HEADER_LEN,
+} from '../shared/constants/protocol'
+import type { FirmwareFileInfo, FirmwareFlashOptions, FirmwareFlashProgress } from '../shared/types/firmware'
+
+/** Raw packet I/O with a vibl bootloader (64-byte reports, no report id). */
+export interface ViblTransport {
+  write(packet: number[]): Promise<void>
+  read(length: number): Promise<number[]>
+  close(): void
+}
+
+export interface ParsedFirmware {
+  info: FirmwareFileInfo
+  payload: Uint8Array
+}
+
+/** Progress events are throttled to one per this many chunks (plus the last). */
+const PROGRESS_EVERY_CHUNKS = 16
+
+const UID_LEN = 8
+
+/** Format 8 uid bytes like preload's readLE64Hex, so it compares equal to KeyboardId.uid. */
+export function formatViblUid(bytes: ArrayLike<number>): string {
+  let hex = ''
+  for (let i = UID_LEN - 1; i >= 0; i--) {
+    hex += (bytes[i] ?? 0).toString(16).padStart(2, '0')
+  }
+  return '0x' + hex
+}
+
+function normalizeUid(uid: string): string {
+  return uid.toLowerCase().replace(/^0x0*/, '0x')
+}
+
+function sha256Hex(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * Parse a firmware file. A .vfw package is recognised by its signature and
+ * has its payload checked against the embedded SHA-256; anything else is
+ * treated as a raw .bin image.
+ */
+export function parseFirmwareFile(fileName: string, data: Uint8Array): ParsedFirmware {
+  const signature = new TextDecoder().decode(data.subarray(0, VIBL_PACKAGE_SIGNATURE.length))
+  if (signature !== VIBL_PACKAGE_SIGNATURE) {
+    if (data.length === 0) throw new Error('Firmware file is empty')
+    return {
+      info: { fileName, format: 'bin', size: data.length, sha256: sha256Hex(data) },
+      payload: data,
+    }
+  }
+
+  if (data.length <= VIBL_PACKAGE_HEADER_LEN) throw new Error('Firmware package is truncated')
+  const payload = data.subarray(VIBL_PACKAGE_HEADER_LEN)
+  const expectedHash = Buffer.from(data.subarray(32, 64)).toString('hex')
+  const actualHash = sha256Hex(payload)
+  if (expectedHash !== actualHash) throw new Error('Firmware package checksum mismatch')
+
+  const timestamp = Number(Buffer.from(data.subarray(16, 24)).readBigUInt64LE(0))
+  return {
+    info: {
+      fileName,
+      format: 'vfw',
+      size: payload.length,
+      sha256: actualHash,
+      uid: formatViblUid(data.subarray(8, 16)),
+      builtAt: timestamp * 1000,
+    },
+    payload,
+  }
+}
+
+/** Zero-pad a command to a full vibl packet. */
+export function padViblPacket(bytes: readonly number[]): number[] {
+  const packet = new Array<number>(VIBL_PACKET_LEN).fill(0)
+  for (let i = 0; i < Math.min(bytes.length, VIBL_PACKET_LEN); i++) {
+    packet[i] = bytes[i]
+  }
+  return packet
+}
+
+export async function readBootloaderVersion(transport: ViblTransport): Promise<number> {
+  await transport.write(padViblPacket([...VIBL_CMD_CHECK, VIBL_CHECK_VERSION]))
+  const resp = await transport.read(UID_LEN)
+  return resp[0]
+}
+
+/** Read the keyboard uid baked into the bootloader. Returns null when unset (all 0xFF). */
+export async function readBootloaderUid(transport: ViblTransport): Promise<string | null> {
+  await transport.write(padViblPacket([...VIBL_CMD_CHECK, VIBL_CHECK_UID]))
+  const resp = await transport.read(UID_LEN)
+  if (resp.slice(0, UID_LEN).every((b) => b === 0xff)) return null
+  return formatViblUid(resp)
+}
+
+/**
+ * Run the full flash sequence. Every check happens before the first write,
+ * so a rejected image never touches flash. Returns the bootloader uid.
+ */
+export async function flashFirmware(
+  transport: ViblTransport,
+  firmware: ParsedFirmware,
+  options: FirmwareFlashOptions,
+  onProgress: (progress: FirmwareFlashProgress) => void,
+): Promise<string> {
+  const total = firmware.payload.length
+  onProgress({ phase: 'checking', written: 0, total })
+  if (options.requirePackage && firmware.info.uid == null) throw new Error('package required')
+
+  const version = await readBootloaderVersion(transport)
+  if (!VIBL_SUPPORTED_VERSIONS.includes(version)) {
+    throw new Error(`unsupported bootloader version ${version}`)
+  }
+
+  const uid = await readBootloaderUid(transport)
+  if (uid == null) throw new Error('uid not set')
+  if (normalizeUid(uid) !== normalizeUid(options.expectedUid)) throw new Error('uid mismatch')
+  if (firmware.info.uid != null && normalizeUid(firmware.info.uid) !== normalizeUid(uid)) {
+    throw new Error('package uid mismatch')
+  }
+
+  const chunkCount = Math.ceil(total / VIBL_PACKET_LEN)
+  if (chunkCount > 0xffff) throw new Error('firmware too large')
+  await transport.write(padViblPacket([...VIBL_CMD_FLASH, chunkCount & 0xff, (chunkCount >> 8) & 0xff]))
+  for (let i = 0; i < chunkCount; i++) {
+    const start = i * VIBL_PACKET_LEN
+    await transport.write(padViblPacket(Array.from(firmware.payload.subarray(start, start + VIBL_PACKET_LEN))))
+    if ((i + 1) % PROGRESS_EVERY_CHUNKS === 0 || i === chunkCount - 1) {
+      onProgress({ phase: 'flashing', written: Math.min(start + VIBL_PACKET_LEN, total), total })
+    }
+  }
+
+  onProgress({ phase: 'rebooting', written: total, total })
+  if (options.enableInsecure) await transport.write(padViblPacket(VIBL_CMD_INSECURE_BOOT))
+  await transport.write(padViblPacket(VIBL_CMD_REBOOT))
+  onProgress({ phase: 'done', written: total, total })
+  return uid
+}
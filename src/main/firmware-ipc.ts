@@ -0,0 +1,109 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// IPC handler registration for firmware flashing (main process)
+
+import { BrowserWindow, dialog } from 'electron'
+import { readFile } from 'node:fs/promises'
+import { basename } from 'node:path'
+import { IpcChannels } from '../shared/ipc/channels'
+import type { FirmwareFileInfo, FirmwareFlashOptions, FirmwareFlashResult } from '../shared/types/firmware'
+import { parseFirmwareFile, flashFirmware, readBootloaderUid } from './firmware-flasher'
+import type { ParsedFirmware, ViblTransport } from './firmware-flasher'
+import { openBootloaderTransport } from './hid-service'
+import { broadcastToAllWindows } from './utils/broadcast'
+import { secureHandle } from './ipc-guard'
+import { log } from './logger'
+
+// The picked image stays in the main process; only its metadata crosses IPC.
+let selectedFirmware: ParsedFirmware | null = null
+let flashing = false
+
+function isFlashOptions(value: unknown): value is FirmwareFlashOptions {
+  if (value == null || typeof value !== 'object') return false
+  const v = value as Record<string, unknown>
+  return typeof v.expectedUid === 'string' && /^0x[0-9a-f]+$/i.test(v.expectedUid) &&
+    typeof v.enableInsecure === 'boolean' &&
+    (v.requirePackage === undefined || typeof v.requirePackage === 'boolean')
+}
+
+export function setupFirmwareIpc(): void {
+  secureHandle(
+    IpcChannels.FIRMWARE_SELECT_FILE,
+    async (event): Promise<{ success: boolean; firmware?: FirmwareFileInfo; error?: string }> => {
+      const win = BrowserWindow.fromWebContents(event.sender)
+      if (!win) return { success: false, error: 'No window' }
+
+      const result = await dialog.showOpenDialog(win, {
+        title: 'Select Firmware',
+        filters: [
+          { name: 'Firmware', extensions: ['bin', 'vfw'] },
+          { name: 'All Files', extensions: ['*'] },
+        ],
+        properties: ['openFile'],
+      })
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: false, error: 'cancelled' }
+      }
+
+      try {
+        const data = await readFile(result.filePaths[0])
+        selectedFirmware = parseFirmwareFile(basename(result.filePaths[0]), new Uint8Array(data))
+        return { success: true, firmware: selectedFirmware.info }
+      } catch (err) {
+        selectedFirmware = null
+        return { success: false, error: err instanceof Error ? err.message : String(err) }
+      }
+    },
+  )
+
+  // A bootloader picked from the device list has no recorded keyboard; its
+  // uid tells the renderer which keyboard the flash is for.
+  secureHandle(
+    IpcChannels.FIRMWARE_READ_BOOTLOADER_UID,
+    async (_event, vendorId: unknown, productId: unknown): Promise<{ success: boolean; uid?: string | null; error?: string }> => {
+      if (typeof vendorId !== 'number' || typeof productId !== 'number') {
+        return { success: false, error: 'invalid arguments' }
+      }
+      if (flashing) return { success: false, error: 'flash in progress' }
+
+      let transport: ViblTransport | null = null
+      try {
+        transport = await openBootloaderTransport(vendorId, productId)
+        return { success: true, uid: await readBootloaderUid(transport) }
+      } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : String(err) }
+      } finally {
+        transport?.close()
+      }
+    },
+  )
+
+  secureHandle(
+    IpcChannels.FIRMWARE_FLASH,
+    async (_event, vendorId: unknown, productId: unknown, options: unknown): Promise<FirmwareFlashResult> => {
+      if (typeof vendorId !== 'number' || typeof productId !== 'number' || !isFlashOptions(options)) {
+        return { success: false, error: 'invalid arguments' }
+      }
+      const firmware = selectedFirmware
+      if (!firmware) return { success: false, error: 'no firmware selected' }
+      if (flashing) return { success: false, error: 'flash in progress' }
+
+      flashing = true
+      let transport: ViblTransport | null = null
+      try {
+        transport = await openBootloaderTransport(vendorId, productId)
+        const bootloaderUid = await flashFirmware(transport, firmware, options, (progress) => {
+          broadcastToAllWindows(IpcChannels.FIRMWARE_FLASH_PROGRESS, progress)
+        })
+        log('info', `Firmware flashed: ${firmware.info.fileName} (${firmware.info.size} bytes)`)
+        return { success: true, bootloaderUid }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err)
+        log('warn', `Firmware flash failed: ${message}`)
+        return { success: false, error: message }
+      } finally {
+        transport?.close()
+        flashing = false
+      }
+    },
+  )
+}
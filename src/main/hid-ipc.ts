@@ -3,9 +3,45 @@
 
 import { IpcChannels } from '../shared/ipc/channels'
 import { MSG_LEN } from '../shared/constants/protocol'
+import type { DeviceInfo, KeyboardDefinition } from '../shared/types/protocol'
+import type { HidCaptureSaveResult } from '../shared/types/hid-capture'
 import * as hidService from './hid-service'
+import { startHidRecording, stopHidRecording, getHidRecordingStatus } from './hid-recorder'
+import { saveFileWithDialog, sanitizeFilename } from './file-io'
 import { secureHandle } from './ipc-guard'
 
+function validateSessionId(sessionId: unknown): string | undefined {
+  if (sessionId === undefined || sessionId === null) return undefined
+  if (typeof sessionId !== 'string' || sessionId.length === 0) {
+    throw new Error('Invalid HID session id')
+  }
+  return sessionId
+}
+
+function validateUsbId(value: unknown, name: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 0xffff) {
+    throw new Error(`Invalid ${name}`)
+  }
+  return value
+}
+
+function validateSerialNumber(serialNumber: unknown): string | undefined {
+  if (serialNumber === undefined || serialNumber === null) return undefined
+  if (typeof serialNumber !== 'string') throw new Error('Invalid serial number')
+  return serialNumber
+}
+
+function validateCaptureDevice(device: unknown): DeviceInfo {
+  const d = device as Partial<DeviceInfo> | null
+  if (
+    !d || typeof d.vendorId !== 'number' || typeof d.productId !== 'number' ||
+    typeof d.productName !== 'string' || typeof d.serialNumber !== 'string'
+  ) {
+    throw new Error('Invalid capture device')
+  }
+  return { vendorId: d.vendorId, productId: d.productId, productName: d.productName, serialNumber: d.serialNumber, type: 'vial' }
+}
+
 /**
  * Register IPC handlers for HID device operations.
  * These bridge preload → main for node-hid access.
@@ -22,12 +58,12 @@ export function setupHidIpc(): void {
 
   secureHandle(IpcChannels.HID_CLOSE_DEVICE, () => hidService.closeHidDevice())
 
-  secureHandle(IpcChannels.HID_SEND_RECEIVE, (_event, data: unknown) =>
-    hidService.sendReceive(hidService.validateHidData(data, MSG_LEN)),
+  secureHandle(IpcChannels.HID_SEND_RECEIVE, (_event, data: unknown, sessionId?: unknown) =>
+    hidService.sendReceive(hidService.validateHidData(data, MSG_LEN), validateSessionId(sessionId)),
   )
 
-  secureHandle(IpcChannels.HID_SEND, (_event, data: unknown) =>
-    hidService.send(hidService.validateHidData(data, MSG_LEN)),
+  secureHandle(IpcChannels.HID_SEND, (_event, data: unknown, sessionId?: unknown) =>
+    hidService.send(hidService.validateHidData(data, MSG_LEN), validateSessionId(sessionId)),
   )
 
   secureHandle(IpcChannels.HID_IS_DEVICE_OPEN, () => hidService.isDeviceOpen())
@@ -35,4 +71,45 @@ export function setupHidIpc(): void {
   secureHandle(IpcChannels.HID_PROBE_DEVICE, (_event, vendorId: number, productId: number, serialNumber?: string) =>
     hidService.probeDevice(vendorId, productId, serialNumber),
   )
+
+  // --- Additional device sessions ---
+  secureHandle(
+    IpcChannels.HID_OPEN_SESSION,
+    (_event, vendorId: unknown, productId: unknown, serialNumber?: unknown) =>
+      hidService.openHidSession(
+        validateUsbId(vendorId, 'vendor id'),
+        validateUsbId(productId, 'product id'),
+        validateSerialNumber(serialNumber),
+      ),
+  )
+
+  secureHandle(IpcChannels.HID_CLOSE_SESSION, (_event, sessionId: unknown) => {
+    const id = validateSessionId(sessionId)
+    return id ? hidService.closeHidSession(id) : undefined
+  })
+
+  // --- Session capture for bug reports ---
+  secureHandle(IpcChannels.HID_CAPTURE_START, (_event, device: unknown) => {
+    startHidRecording(validateCaptureDevice(device))
+  })
+
+  secureHandle(IpcChannels.HID_CAPTURE_STATUS, () => getHidRecordingStatus())
+
+  secureHandle(
+    IpcChannels.HID_CAPTURE_STOP,
+    async (event, definition: KeyboardDefinition | null, scrub: boolean): Promise<HidCaptureSaveResult> => {
+      const capture = stopHidRecording(definition ?? null, scrub !== false)
+      if (!capture) return { success: false, error: 'not recording' }
+      const name = sanitizeFilename(capture.device.productName || 'keyboard')
+      const result = await saveFileWithDialog(event, JSON.stringify(capture, null, 2), {
+        title: 'Save HID Capture',
+        defaultPath: `${name}-capture.json`,
+        filters: [
+          { name: 'HID Capture', extensions: ['json'] },
+          { name: 'All Files', extensions: ['*'] },
+        ],
+      })
+      return { ...result, exchanges: capture.exchanges.length }
+    },
+  )
 }
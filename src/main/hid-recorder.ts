@@ -0,0 +1,94 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// HID session recorder — collects every report exchanged with the editor's
+// device into a portable capture that the virtual device can replay
+// (PIPETTE_HID_REPLAY). Additional device sessions are not recorded.
+
+import {
+  CMD_VIA_VIAL_PREFIX,
+  CMD_VIAL_GET_KEYBOARD_ID,
+  VIAL_SERIAL_MAGIC,
+} from '../shared/constants/protocol'
+import type { DeviceInfo, KeyboardDefinition } from '../shared/types/protocol'
+import {
+  HID_CAPTURE_VERSION,
+  type HidCapture,
+  type HidCaptureExchange,
+  type HidCaptureStatus,
+} from '../shared/types/hid-capture'
+
+/** "SCRUBBED" — stands in for the keyboard UID in scrubbed captures. */
+const SCRUBBED_UID_BYTES = [0x53, 0x43, 0x52, 0x55, 0x42, 0x42, 0x45, 0x44]
+const UID_OFFSET = 4
+
+interface Recording {
+  device: DeviceInfo
+  startedAt: string
+  exchanges: HidCaptureExchange[]
+}
+
+let recording: Recording | null = null
+
+export function toHex(bytes: readonly number[]): string {
+  return bytes.map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+export function fromHex(hex: string): number[] {
+  const bytes: number[] = []
+  for (let i = 0; i + 1 < hex.length; i += 2) {
+    bytes.push(parseInt(hex.slice(i, i + 2), 16))
+  }
+  return bytes
+}
+
+/** Start a new recording for `device`, discarding any recording in progress. */
+export function startHidRecording(device: DeviceInfo): void {
+  recording = { device: { ...device }, startedAt: new Date().toISOString(), exchanges: [] }
+}
+
+export function getHidRecordingStatus(): HidCaptureStatus {
+  return { recording: recording !== null, exchanges: recording?.exchanges.length ?? 0 }
+}
+
+/** Append one exchange; a no-op while nothing is being recorded. */
+export function recordHidExchange(tx: readonly number[], rx: readonly number[] | null): void {
+  recording?.exchanges.push({ tx: toHex(tx), rx: rx ? toHex(rx) : null })
+}
+
+/** Stop recording and return the capture, or null when nothing was recorded. */
+export function stopHidRecording(definition: KeyboardDefinition | null, scrub: boolean): HidCapture | null {
+  if (!recording) return null
+  const capture: HidCapture = {
+    version: HID_CAPTURE_VERSION,
+    recordedAt: recording.startedAt,
+    device: recording.device,
+    definition,
+    scrubbed: false,
+    exchanges: recording.exchanges,
+  }
+  recording = null
+  return scrub ? scrubHidCapture(capture) : capture
+}
+
+/**
+ * Replace what identifies the physical board: the serial number (the Vial
+ * magic is kept so the device still classifies as Vial) and the UID in
+ * every keyboard-id reply.
+ */
+export function scrubHidCapture(capture: HidCapture): HidCapture {
+  const keyboardIdTx = toHex([CMD_VIA_VIAL_PREFIX, CMD_VIAL_GET_KEYBOARD_ID])
+  const serial = capture.device.serialNumber
+  return {
+    ...capture,
+    scrubbed: true,
+    device: {
+      ...capture.device,
+      serialNumber: serial.includes(VIAL_SERIAL_MAGIC) ? VIAL_SERIAL_MAGIC : '',
+    },
+    exchanges: capture.exchanges.map((exchange) => {
+      if (!exchange.rx || !exchange.tx.startsWith(keyboardIdTx)) return exchange
+      const rx = fromHex(exchange.rx)
+      rx.splice(UID_OFFSET, SCRUBBED_UID_BYTES.length, ...SCRUBBED_UID_BYTES)
+      return { ...exchange, rx: toHex(rx) }
+    }),
+  }
+}
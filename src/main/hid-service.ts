@@ -16,6 +16,7 @@ import {
   HID_OPEN_RETRY_DELAY_MS,
   VIAL_SERIAL_MAGIC,
   BOOTLOADER_SERIAL_MAGIC,
+  VIBL_PACKET_LEN,
   CMD_VIA_GET_KEYBOARD_VALUE,
   CMD_VIA_GET_LAYER_COUNT,
   CMD_VIA_KEYMAP_GET_BUFFER,
@@ -27,22 +28,48 @@ import {
   CMD_VIAL_GET_ENCODER,
 } from '../shared/constants/protocol'
 import { logHidPacket } from './logger'
+import { recordHidExchange } from './hid-recorder'
 import type { DeviceInfo, DeviceType, KeyboardDefinition, ProbeResult } from '../shared/types/protocol'
 import { decompressLzma, decompressXz, hasXzMagic } from './lzma'
 import {
   isVirtualDeviceEnabled,
   isVirtualDeviceExclusive,
-  getVirtualDeviceInfo,
+  listVirtualDevices,
   matchesVirtualDevice,
+  hasVirtualBootloader,
   openVirtualDevice,
   closeVirtualDevice,
   isVirtualDeviceOpen,
   handleVirtualReport,
+  consumeVirtualBootloaderJump,
 } from './virtual-device'
+import {
+  enterVirtualBootloader,
+  isVirtualBootloaderActive,
+  getVirtualBootloaderInfo,
+  matchesVirtualBootloader,
+  openVirtualBootloaderTransport,
+} from './virtual-bootloader'
+import type { ViblTransport } from './firmware-flasher'
+
+/** Serializes traffic to one device; every open device has its own. */
+interface SendQueue {
+  tail: Promise<void>
+}
+
+/** An additional keyboard opened alongside the editor's device. */
+interface HidSession {
+  device: HID.HIDAsync
+  queue: SendQueue
+}
 
+// The editor's device (openHidDevice / closeHidDevice)
 let openDevice: HID.HIDAsync | null = null
 let openDevicePath: string | null = null
-let sendMutex: Promise<void> = Promise.resolve()
+const primaryQueue: SendQueue = { tail: Promise.resolve() }
+
+// Additional device sessions, keyed by device path
+const sessions = new Map<string, HidSession>()
 
 /**
  * Pad data to exactly MSG_LEN bytes, truncating or zero-filling as needed.
@@ -56,13 +83,13 @@ function padToMsgLen(data: number[]): number[] {
 }
 
 /**
- * Acquire the send mutex, returning { prev, release }.
+ * Acquire a device's send mutex, returning { prev, release }.
  * Caller must chain on `prev` and call `release()` when done.
  */
-function acquireMutex(): { prev: Promise<void>; release: () => void } {
-  const prev = sendMutex
+function acquireMutex(queue: SendQueue): { prev: Promise<void>; release: () => void } {
+  const prev = queue.tail
   let release: () => void
-  sendMutex = new Promise<void>((resolve) => {
+  queue.tail = new Promise<void>((resolve) => {
     release = resolve
   })
   return { prev, release: release! }
@@ -106,7 +133,7 @@ export async function listDevices(): Promise<DeviceInfo[]> {
   // 'only' mode: hide real hardware so device lists (and doc screenshots)
   // are reproducible regardless of what is plugged into the workstation.
   if (isVirtualDeviceExclusive()) {
-    return [getVirtualDeviceInfo()]
+    return getVirtualListings()
   }
 
   const devices = await HID.devicesAsync()
@@ -127,12 +154,20 @@ export async function listDevices(): Promise<DeviceInfo[]> {
   }
 
   if (isVirtualDeviceEnabled()) {
-    result.push(getVirtualDeviceInfo())
+    result.push(...getVirtualListings())
   }
 
   return result
 }
 
+/** The built-in virtual keyboard enumerates as its bootloader while it is "in" it. */
+function getVirtualListings(): DeviceInfo[] {
+  const bootloaderActive = isVirtualBootloaderActive()
+  return listVirtualDevices().map((d) =>
+    bootloaderActive && hasVirtualBootloader(d.vendorId, d.productId) ? getVirtualBootloaderInfo() : d,
+  )
+}
+
 function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms))
 }
@@ -153,7 +188,9 @@ export async function openHidDevice(vendorId: number, productId: number): Promis
   await closeHidDevice()
 
   if (isVirtualDeviceEnabled() && matchesVirtualDevice(vendorId, productId)) {
-    await openVirtualDevice()
+    // A keyboard sitting in its bootloader has no Vial interface to open
+    if (isVirtualBootloaderActive() && hasVirtualBootloader(vendorId, productId)) return false
+    await openVirtualDevice(vendorId, productId)
     return true
   }
 
@@ -163,26 +200,26 @@ export async function openHidDevice(vendorId: number, productId: number): Promis
       d.vendorId === vendorId &&
       d.productId === productId &&
       d.usagePage === HID_USAGE_PAGE &&
-      d.usage === HID_USAGE,
+      d.usage === HID_USAGE &&
+      !(d.path && sessions.has(d.path)),
   )
 
   if (!deviceInfo?.path) return false
 
-  for (let attempt = 0; attempt < HID_OPEN_RETRY_COUNT; attempt++) {
+  openDevice = await openWithRetry(deviceInfo.path)
+  openDevicePath = deviceInfo.path
+  return true
+}
+
+async function openWithRetry(path: string): Promise<HID.HIDAsync> {
+  for (let attempt = 0; ; attempt++) {
     try {
-      openDevice = await HID.HIDAsync.open(deviceInfo.path)
-      openDevicePath = deviceInfo.path
-      return true
+      return await HID.HIDAsync.open(path)
     } catch (err) {
-      if (attempt < HID_OPEN_RETRY_COUNT - 1) {
-        await delay(HID_OPEN_RETRY_DELAY_MS)
-      } else {
-        throw err
-      }
+      if (attempt >= HID_OPEN_RETRY_COUNT - 1) throw err
+      await delay(HID_OPEN_RETRY_DELAY_MS)
     }
   }
-
-  return false
 }
 
 /**
@@ -225,12 +262,54 @@ export function validateHidData(data: unknown, maxLen: number): number[] {
   return data as number[]
 }
 
+/** Write a padded report and read the reply, retrying on timeout. */
+async function writeAndRead(device: HID.HIDAsync, padded: number[]): Promise<number[]> {
+  let lastError: Error | undefined
+  for (let attempt = 0; attempt < HID_RETRY_COUNT; attempt++) {
+    try {
+      device.write([HID_REPORT_ID, ...padded])
+
+      const response = await device.read(HID_TIMEOUT_MS)
+      if (!response || response.length === 0) {
+        throw new Error('HID read timeout')
+      }
+
+      const result = normalizeResponse(response, MSG_LEN)
+      logHidPacket('RX', new Uint8Array(result))
+      return result
+    } catch (err) {
+      lastError = err instanceof Error ? err : new Error(String(err))
+      if (!isTransientError(lastError)) throw lastError
+      if (attempt < HID_RETRY_COUNT - 1) {
+        await delay(HID_RETRY_DELAY_MS)
+      }
+    }
+  }
+  throw lastError ?? new Error('HID send/receive failed')
+}
+
 /**
  * Send a 32-byte packet and receive a 32-byte response.
- * Serialized via mutex; retries on timeout up to HID_RETRY_COUNT times.
+ * Serialized via the target device's mutex; retries on timeout up to
+ * HID_RETRY_COUNT times. Without `sessionId` this talks to the editor's device.
  */
-export function sendReceive(data: number[]): Promise<number[]> {
-  const { prev, release } = acquireMutex()
+export function sendReceive(data: number[], sessionId?: string): Promise<number[]> {
+  if (sessionId !== undefined) {
+    const session = sessions.get(sessionId)
+    if (!session) return Promise.reject(new Error('HID session is not open'))
+    const { prev, release } = acquireMutex(session.queue)
+    return prev.then(async () => {
+      try {
+        const padded = padToMsgLen(data)
+        logHidPacket('TX', new Uint8Array(padded))
+        return await writeAndRead(session.device, padded)
+      } finally {
+        release()
+      }
+    })
+  }
+
+  const { prev, release } = acquireMutex(primaryQueue)
 
   return prev.then(async () => {
     try {
@@ -238,7 +317,9 @@ export function sendReceive(data: number[]): Promise<number[]> {
         const padded = padToMsgLen(data)
         logHidPacket('TX', new Uint8Array(padded))
         const result = handleVirtualReport(padded)
+        if (consumeVirtualBootloaderJump()) enterVirtualBootloader()
         logHidPacket('RX', new Uint8Array(result))
+        recordHidExchange(padded, result)
         return result
       }
 
@@ -248,29 +329,9 @@ export function sendReceive(data: number[]): Promise<number[]> {
 
       const padded = padToMsgLen(data)
       logHidPacket('TX', new Uint8Array(padded))
-
-      let lastError: Error | undefined
-      for (let attempt = 0; attempt < HID_RETRY_COUNT; attempt++) {
-        try {
-          openDevice.write([HID_REPORT_ID, ...padded])
-
-          const response = await openDevice.read(HID_TIMEOUT_MS)
-          if (!response || response.length === 0) {
-            throw new Error('HID read timeout')
-          }
-
-          const result = normalizeResponse(response, MSG_LEN)
-          logHidPacket('RX', new Uint8Array(result))
-          return result
-        } catch (err) {
-          lastError = err instanceof Error ? err : new Error(String(err))
-          if (!isTransientError(lastError)) throw lastError
-          if (attempt < HID_RETRY_COUNT - 1) {
-            await delay(HID_RETRY_DELAY_MS)
-          }
-        }
-      }
-      throw lastError ?? new Error('HID send/receive failed')
+      const result = await writeAndRead(openDevice, padded)
+      recordHidExchange(padded, result)
+      return result
     } finally {
       release()
     }
@@ -279,10 +340,25 @@ export function sendReceive(data: number[]): Promise<number[]> {
 
 /**
  * Send a packet without waiting for response.
- * Serialized via mutex to prevent interleaving with sendReceive.
+ * Serialized via the device's mutex to prevent interleaving with sendReceive.
  */
-export function send(data: number[]): Promise<void> {
-  const { prev, release } = acquireMutex()
+export function send(data: number[], sessionId?: string): Promise<void> {
+  if (sessionId !== undefined) {
+    const session = sessions.get(sessionId)
+    if (!session) return Promise.reject(new Error('HID session is not open'))
+    const { prev, release } = acquireMutex(session.queue)
+    return prev.then(() => {
+      try {
+        const padded = padToMsgLen(data)
+        logHidPacket('TX', new Uint8Array(padded))
+        session.device.write([HID_REPORT_ID, ...padded])
+      } finally {
+        release()
+      }
+    })
+  }
+
+  const { prev, release } = acquireMutex(primaryQueue)
 
   return prev.then(() => {
     try {
@@ -290,6 +366,8 @@ export function send(data: number[]): Promise<void> {
         const padded = padToMsgLen(data)
         logHidPacket('TX', new Uint8Array(padded))
         handleVirtualReport(padded)
+        if (consumeVirtualBootloaderJump()) enterVirtualBootloader()
+        recordHidExchange(padded, null)
         return
       }
 
@@ -300,6 +378,7 @@ export function send(data: number[]): Promise<void> {
       const padded = padToMsgLen(data)
       logHidPacket('TX', new Uint8Array(padded))
       openDevice.write([HID_REPORT_ID, ...padded])
+      recordHidExchange(padded, null)
     } finally {
       release()
     }
@@ -321,6 +400,56 @@ export async function isDeviceOpen(): Promise<boolean> {
   return present
 }
 
+/**
+ * Open an additional keyboard next to the editor's device.
+ * Returns the session id (the device path), or null when no matching device
+ * is free. The virtual device only ever serves the editor's connection.
+ */
+export async function openHidSession(
+  vendorId: number,
+  productId: number,
+  serialNumber?: string,
+): Promise<string | null> {
+  const devices = await HID.devicesAsync()
+  const deviceInfo = devices.find(
+    (d) =>
+      d.vendorId === vendorId &&
+      d.productId === productId &&
+      d.usagePage === HID_USAGE_PAGE &&
+      d.usage === HID_USAGE &&
+      d.path !== openDevicePath &&
+      !(d.path && sessions.has(d.path)) &&
+      (!serialNumber || (d.serialNumber ?? '') === serialNumber),
+  )
+  if (!deviceInfo?.path) return null
+
+  const device = await openWithRetry(deviceInfo.path)
+  sessions.set(deviceInfo.path, { device, queue: { tail: Promise.resolve() } })
+  return deviceInfo.path
+}
+
+/** Close an additional device session. Unknown ids are ignored. */
+export async function closeHidSession(sessionId: string): Promise<void> {
+  const session = sessions.get(sessionId)
+  if (!session) return
+  sessions.delete(sessionId)
+  // Let queued traffic finish before the handle goes away
+  await session.queue.tail
+  try {
+    session.device.close()
+  } catch {
+    // Ignore close errors (device may already be disconnected)
+  }
+}
+
+/**
+ * Close every additional session. The renderer's session ids do not survive
+ * a reload, so their handles would otherwise stay open until the app exits.
+ */
+export async function closeAllHidSessions(): Promise<void> {
+  await Promise.all([...sessions.keys()].map((id) => closeHidSession(id)))
+}
+
 /**
  * Probe a secondary keyboard device to read its keymap without affecting the primary connection.
  * Opens a temporary HID handle, reads protocol data, then closes.
@@ -509,3 +638,52 @@ export async function probeDevice(vendorId: number, productId: number, serialNum
     }
   }
 }
+
+/**
+ * Open a vibl bootloader for flashing. Any open keyboard handle is closed
+ * first — the bootloader is a different USB interface and flashing must
+ * not interleave with keyboard traffic. The caller owns the transport and
+ * must close() it.
+ */
+export async function openBootloaderTransport(vendorId: number, productId: number): Promise<ViblTransport> {
+  await closeHidDevice()
+
+  if (isVirtualDeviceEnabled() && matchesVirtualBootloader(vendorId, productId)) {
+    return openVirtualBootloaderTransport()
+  }
+
+  const devices = await HID.devicesAsync()
+  const deviceInfo = devices.find(
+    (d) =>
+      d.vendorId === vendorId &&
+      d.productId === productId &&
+      d.usagePage === HID_USAGE_PAGE &&
+      d.usage === HID_USAGE &&
+      classifyDevice(d.serialNumber ?? '') === 'bootloader',
+  )
+  if (!deviceInfo?.path) throw new Error('Bootloader not found')
+
+  const device = await HID.HIDAsync.open(deviceInfo.path)
+  return {
+    async write(packet) {
+      logHidPacket('TX', new Uint8Array(packet))
+      await device.write([HID_REPORT_ID, ...packet])
+    },
+    async read(length) {
+      const response = await device.read(HID_TIMEOUT_MS)
+      if (!response || response.length === 0) {
+        throw new Error('HID read timeout')
+      }
+      const result = normalizeResponse(response, VIBL_PACKET_LEN)
+      logHidPacket('RX', new Uint8Array(result))
+      return result.slice(0, length)
+    },
+    close() {
+      try {
+        device.close()
+      } catch {
+        // Ignore close errors (the bootloader drops off the bus on reboot)
+      }
+    },
+  }
+}
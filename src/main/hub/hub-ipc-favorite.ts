@@ -51,6 +51,7 @@ async function buildFavoriteExportJson(
     [exportKey]: [{
       label: entry.label,
       savedAt: entry.savedAt,
+      ...(entry.tags?.length ? { tags: entry.tags } : {}),
       data: serializedData,
     }],
   })
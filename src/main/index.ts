@@ -6,12 +6,14 @@ import { setupFileIO } from './file-io'
 import { setupSnapshotStore } from './snapshot-store'
 import { setupAnalyzeFilterStore } from './analyze-filter-store'
 import { setupFavoriteStore } from './favorite-store'
+import { setupQmkSettingsProfileStore } from './qmk-settings-profile-store'
 import { setupKeyLabelStore } from './key-label-ipc'
 import { setupTypingTestTextStore } from './typing-test-text-ipc'
 import { setupTypingRunLogStore } from './typing-run-log-ipc'
 import { setupI18nPackStore } from './i18n-pack-ipc'
 import { setupThemePackStore } from './theme-pack-ipc'
 import { setupHidIpc } from './hid-ipc'
+import { closeAllHidSessions } from './hid-service'
 import { setupPipetteSettingsStore } from './pipette-settings-store'
 import { setupLanguageStore } from './language-store'
 import { setupAozoraIpc } from './aozora/aozora-ipc'
@@ -48,6 +50,9 @@ import {
 import { registerPreSyncQuitFinalizer, notifyChange } from './sync/sync-service'
 import { secureHandle, secureOn } from './ipc-guard'
 import { isVirtualDeviceEnabled, getVirtualDeviceController } from './virtual-device'
+import { getVirtualBootloaderController } from './virtual-bootloader'
+import { setupFirmwareIpc } from './firmware-ipc'
+import { setupDeviceWatcher, stopDeviceWatcher } from './device-watcher'
 
 const isDev = !!process.env.ELECTRON_RENDERER_URL
 
@@ -72,6 +77,11 @@ app.on('before-quit', () => {
   isQuitting = true
 })
 
+app.on('will-quit', () => {
+  stopDeviceWatcher()
+  void closeAllHidSessions()
+})
+
 // Linux: disable GPU sandbox only when chrome-sandbox lacks SUID root.
 // Packaged builds with correct permissions keep the GPU sandbox enabled.
 if (process.platform === 'linux') {
@@ -179,6 +189,11 @@ function createWindow(): void {
 
   win.webContents.setWindowOpenHandler(() => ({ action: 'deny' }))
 
+  // A reload forgets the renderer's extra device sessions; release their handles
+  win.webContents.on('did-start-loading', () => {
+    void closeAllHidSessions()
+  })
+
   // Native context menu for editable text fields (textarea, input)
   win.webContents.on('context-menu', (_event, params) => {
     if (!params.isEditable) return
@@ -430,11 +445,15 @@ app.whenReady().then(() => {
   if (isVirtualDeviceEnabled()) {
     const globalWithVirtualDevice = globalThis as Record<string, unknown>
     globalWithVirtualDevice.__pipetteVirtualDevice = getVirtualDeviceController()
+    globalWithVirtualDevice.__pipetteVirtualBootloader = getVirtualBootloaderController()
   }
+  setupFirmwareIpc()
+  setupDeviceWatcher()
   setupFileIO()
   setupSnapshotStore()
   setupAnalyzeFilterStore()
   setupFavoriteStore()
+  setupQmkSettingsProfileStore()
   setupKeyLabelStore()
   setupTypingTestTextStore()
   setupTypingRunLogStore()
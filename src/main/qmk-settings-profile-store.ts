@@ -0,0 +1,128 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// QMK Settings profile store — named qsid value sets, kept in one local
+// index file. Profiles are not keyboard-specific: applying one writes
+// whichever qsids the target board supports.
+
+import { app } from 'electron'
+import { join } from 'node:path'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { randomUUID } from 'node:crypto'
+import { IpcChannels } from '../shared/ipc/channels'
+import { isQmkSettingsValues } from '../shared/qmk-settings-profile'
+import { secureHandle } from './ipc-guard'
+import type { QmkSettingsProfile, QmkSettingsProfileIndex } from '../shared/types/qmk-settings-profile'
+
+const MAX_NAME_LENGTH = 100
+
+function getStoreDir(): string {
+  return join(app.getPath('userData'), 'local')
+}
+
+function getIndexPath(): string {
+  return join(getStoreDir(), 'qmk-settings-profiles.json')
+}
+
+async function readIndex(): Promise<QmkSettingsProfileIndex> {
+  try {
+    const raw = await readFile(getIndexPath(), 'utf-8')
+    const parsed = JSON.parse(raw) as QmkSettingsProfileIndex
+    if (Array.isArray(parsed?.profiles)) return parsed
+  } catch {
+    // Index does not exist or is corrupt — return empty
+  }
+  return { profiles: [] }
+}
+
+async function writeIndex(index: QmkSettingsProfileIndex): Promise<void> {
+  await mkdir(getStoreDir(), { recursive: true })
+  await writeFile(getIndexPath(), JSON.stringify(index, null, 2), 'utf-8')
+}
+
+function validateName(name: unknown): string {
+  if (typeof name !== 'string') throw new Error('Invalid name')
+  const trimmed = name.trim()
+  if (!trimmed || trimmed.length > MAX_NAME_LENGTH) throw new Error('Invalid name')
+  return trimmed
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+export function setupQmkSettingsProfileStore(): void {
+  secureHandle(
+    IpcChannels.QMK_SETTINGS_PROFILE_LIST,
+    async (): Promise<{ success: boolean; profiles?: QmkSettingsProfile[]; error?: string }> => {
+      try {
+        const index = await readIndex()
+        return { success: true, profiles: index.profiles }
+      } catch (err) {
+        return { success: false, error: String(err) }
+      }
+    },
+  )
+
+  // Saving under an existing name replaces that profile's values in place
+  secureHandle(
+    IpcChannels.QMK_SETTINGS_PROFILE_SAVE,
+    async (_event, name: unknown, values: unknown): Promise<{ success: boolean; profile?: QmkSettingsProfile; error?: string }> => {
+      try {
+        const validName = validateName(name)
+        if (!isQmkSettingsValues(values)) throw new Error('Invalid values')
+
+        const index = await readIndex()
+        const now = new Date().toISOString()
+        const existing = index.profiles.find((p) => sameName(p.name, validName))
+        let profile: QmkSettingsProfile
+        if (existing) {
+          existing.values = values
+          existing.updatedAt = now
+          profile = existing
+        } else {
+          profile = { id: randomUUID(), name: validName, savedAt: now, updatedAt: now, values }
+          index.profiles.unshift(profile)
+        }
+        await writeIndex(index)
+        return { success: true, profile }
+      } catch (err) {
+        return { success: false, error: String(err) }
+      }
+    },
+  )
+
+  secureHandle(
+    IpcChannels.QMK_SETTINGS_PROFILE_RENAME,
+    async (_event, id: unknown, newName: unknown): Promise<{ success: boolean; error?: string }> => {
+      try {
+        const validName = validateName(newName)
+        const index = await readIndex()
+        const profile = index.profiles.find((p) => p.id === id)
+        if (!profile) return { success: false, error: 'Profile not found' }
+        if (index.profiles.some((p) => p.id !== id && sameName(p.name, validName))) {
+          return { success: false, error: 'Name already in use' }
+        }
+        profile.name = validName
+        profile.updatedAt = new Date().toISOString()
+        await writeIndex(index)
+        return { success: true }
+      } catch (err) {
+        return { success: false, error: String(err) }
+      }
+    },
+  )
+
+  secureHandle(
+    IpcChannels.QMK_SETTINGS_PROFILE_DELETE,
+    async (_event, id: unknown): Promise<{ success: boolean; error?: string }> => {
+      try {
+        const index = await readIndex()
+        const remaining = index.profiles.filter((p) => p.id !== id)
+        if (remaining.length === index.profiles.length) return { success: false, error: 'Profile not found' }
+        await writeIndex({ profiles: remaining })
+        return { success: true }
+      } catch (err) {
+        return { success: false, error: String(err) }
+      }
+    },
+  )
+}
@@ -0,0 +1,194 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Virtual vibl bootloader — the stand-in the virtual GPK60-63R "reboots"
+// into for firmware flashing. Shares the virtual keyboard's VID/PID and
+// uid (like a real vibl build), answers the vibl check commands, records
+// the flashed image, and hands control back to the virtual keyboard on
+// "VR" so the whole flash → re-enumerate → restore flow runs without
+// hardware. Gated on the same PIPETTE_VIRTUAL_DEVICE switch.
+
+import {
+  VIBL_PACKET_LEN,
+  VIBL_CMD_CHECK,
+  VIBL_CHECK_VERSION,
+  VIBL_CHECK_UID,
+  VIBL_CMD_FLASH,
+  VIBL_CMD_INSECURE_BOOT,
+  VIBL_CMD_REBOOT,
+  BOOTLOADER_SERIAL_MAGIC,
+} from '../../shared/constants/protocol'
+import type { DeviceInfo } from '../../shared/types/protocol'
+import type { ViblTransport } from '../firmware-flasher'
+import { VIRTUAL_DEVICE_VID, VIRTUAL_DEVICE_PID, VIRTUAL_DEVICE_NAME, VIRTUAL_DEVICE_UID_BYTES } from '../virtual-device/gpk60-63r'
+import { closeVirtualDevice } from '../virtual-device'
+
+export const VIRTUAL_BOOTLOADER_VERSION = 1
+export const VIRTUAL_BOOTLOADER_SERIAL = `${BOOTLOADER_SERIAL_MAGIC}:virtual`
+
+/** What the last completed "VR" left behind. */
+export interface VirtualFlashRecord {
+  image: Uint8Array
+  /** Chunk count announced by "VF" */
+  expectedChunks: number
+  /** Chunks actually received before the reboot */
+  receivedChunks: number
+  insecureBoot: boolean
+}
+
+interface FlashInProgress {
+  expectedChunks: number
+  chunks: number[][]
+}
+
+let active = false
+let flashing: FlashInProgress | null = null
+let insecureBoot = false
+let lastFlash: VirtualFlashRecord | null = null
+
+/** True while the virtual keyboard is sitting in its bootloader. */
+export function isVirtualBootloaderActive(): boolean {
+  return active
+}
+
+/** Jump the virtual keyboard into the bootloader (the QK_BOOT / bootloader_jump equivalent). */
+export function enterVirtualBootloader(): void {
+  closeVirtualDevice()
+  active = true
+  flashing = null
+  insecureBoot = false
+}
+
+export function getVirtualBootloaderInfo(): DeviceInfo {
+  return {
+    vendorId: VIRTUAL_DEVICE_VID,
+    productId: VIRTUAL_DEVICE_PID,
+    productName: VIRTUAL_DEVICE_NAME,
+    serialNumber: VIRTUAL_BOOTLOADER_SERIAL,
+    type: 'bootloader',
+  }
+}
+
+export function matchesVirtualBootloader(vendorId: number, productId: number): boolean {
+  return active && vendorId === VIRTUAL_DEVICE_VID && productId === VIRTUAL_DEVICE_PID
+}
+
+export function getLastVirtualFlash(): VirtualFlashRecord | null {
+  return lastFlash
+}
+
+function startsWith(packet: readonly number[], prefix: readonly number[]): boolean {
+  return prefix.every((b, i) => packet[i] === b)
+}
+
+function reply(bytes: ArrayLike<number>): number[] {
+  const resp = new Array<number>(VIBL_PACKET_LEN).fill(0)
+  for (let i = 0; i < bytes.length; i++) resp[i] = bytes[i]
+  return resp
+}
+
+function reboot(): void {
+  const chunks = flashing?.chunks ?? []
+  lastFlash = {
+    image: Uint8Array.from(chunks.flat()),
+    expectedChunks: flashing?.expectedChunks ?? 0,
+    receivedChunks: chunks.length,
+    insecureBoot,
+  }
+  flashing = null
+  insecureBoot = false
+  active = false
+}
+
+/**
+ * Handle one 64-byte packet. Returns the response report for commands that
+ * have one ("VC"), null for write-only packets. While a "VF" transfer is
+ * running every packet is a firmware chunk, exactly like vibl.
+ */
+export function handleVirtualBootloaderReport(data: readonly number[]): number[] | null {
+  if (!active) throw new Error('Virtual bootloader is not active')
+  const packet = Array.from({ length: VIBL_PACKET_LEN }, (_, i) => data[i] ?? 0)
+
+  if (flashing && flashing.chunks.length < flashing.expectedChunks) {
+    flashing.chunks.push(packet)
+    return null
+  }
+
+  if (startsWith(packet, VIBL_CMD_CHECK)) {
+    if (packet[2] === VIBL_CHECK_VERSION) return reply([VIRTUAL_BOOTLOADER_VERSION])
+    if (packet[2] === VIBL_CHECK_UID) return reply(VIRTUAL_DEVICE_UID_BYTES)
+    return reply([])
+  }
+  if (startsWith(packet, VIBL_CMD_FLASH)) {
+    flashing = { expectedChunks: packet[2] | (packet[3] << 8), chunks: [] }
+    return null
+  }
+  if (startsWith(packet, VIBL_CMD_INSECURE_BOOT)) {
+    insecureBoot = true
+    return null
+  }
+  if (startsWith(packet, VIBL_CMD_REBOOT)) {
+    reboot()
+    return null
+  }
+  return null
+}
+
+/** Transport over the virtual bootloader; responses queue up until read. */
+export function openVirtualBootloaderTransport(): ViblTransport {
+  const pending: number[][] = []
+  return {
+    async write(packet) {
+      const resp = handleVirtualBootloaderReport(packet)
+      if (resp) pending.push(resp)
+    },
+    async read(length) {
+      const resp = pending.shift()
+      if (!resp) throw new Error('HID read timeout')
+      return resp.slice(0, length)
+    },
+    close() {
+      pending.length = 0
+    },
+  }
+}
+
+/** Restore the power-on state (keyboard mode, nothing flashed). Test helper. */
+export function resetVirtualBootloader(): void {
+  active = false
+  flashing = null
+  insecureBoot = false
+  lastFlash = null
+}
+
+export interface VirtualBootloaderControllerState {
+  active: boolean
+  lastFlash: { size: number; expectedChunks: number; receivedChunks: number; insecureBoot: boolean } | null
+}
+
+export interface VirtualBootloaderController {
+  enter(): void
+  getState(): VirtualBootloaderControllerState
+  reset(): void
+}
+
+/** Exposed on `globalThis.__pipetteVirtualBootloader` for Playwright E2E tests to drive. */
+export function getVirtualBootloaderController(): VirtualBootloaderController {
+  return {
+    enter() {
+      enterVirtualBootloader()
+    },
+    getState() {
+      return {
+        active,
+        lastFlash: lastFlash && {
+          size: lastFlash.image.length,
+          expectedChunks: lastFlash.expectedChunks,
+          receivedChunks: lastFlash.receivedChunks,
+          insecureBoot: lastFlash.insecureBoot,
+        },
+      }
+    },
+    reset() {
+      resetVirtualBootloader()
+    },
+  }
+}
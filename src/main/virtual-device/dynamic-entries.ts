@@ -99,20 +99,20 @@ const ZERO_ALT_REPEAT_KEY: AltRepeatKeyEntry = Object.freeze({
   enabled: false,
 })
 
-export function createDefaultTapDanceEntries(): TapDanceEntry[] {
-  return Array.from({ length: TAP_DANCE_ENTRY_COUNT }, defaultTapDanceEntry)
+export function createDefaultTapDanceEntries(count = TAP_DANCE_ENTRY_COUNT): TapDanceEntry[] {
+  return Array.from({ length: count }, defaultTapDanceEntry)
 }
 
-export function createDefaultComboEntries(): ComboEntry[] {
-  return Array.from({ length: COMBO_ENTRY_COUNT }, defaultComboEntry)
+export function createDefaultComboEntries(count = COMBO_ENTRY_COUNT): ComboEntry[] {
+  return Array.from({ length: count }, defaultComboEntry)
 }
 
-export function createDefaultKeyOverrideEntries(): KeyOverrideEntry[] {
-  return Array.from({ length: KEY_OVERRIDE_ENTRY_COUNT }, defaultKeyOverrideEntry)
+export function createDefaultKeyOverrideEntries(count = KEY_OVERRIDE_ENTRY_COUNT): KeyOverrideEntry[] {
+  return Array.from({ length: count }, defaultKeyOverrideEntry)
 }
 
-export function createDefaultAltRepeatKeyEntries(): AltRepeatKeyEntry[] {
-  return Array.from({ length: ALT_REPEAT_KEY_ENTRY_COUNT }, defaultAltRepeatKeyEntry)
+export function createDefaultAltRepeatKeyEntries(count = ALT_REPEAT_KEY_ENTRY_COUNT): AltRepeatKeyEntry[] {
+  return Array.from({ length: count }, defaultAltRepeatKeyEntry)
 }
 
 // --- Wire codecs — byte layouts match vial_*_entry_t in vial-qmk's quantum/vial.h ---
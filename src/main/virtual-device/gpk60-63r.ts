@@ -16,7 +16,19 @@ import * as lzmaModule from 'lzma'
 import { setProtocolValue } from '../../shared/keycodes/keycodes'
 import { resolve, deserialize } from '../../shared/keycodes/keycodes-utils'
 import { SS_QMK_PREFIX, SS_TAP_CODE } from '../../shared/constants/protocol'
-import type { TapDanceEntry, ComboEntry, KeyOverrideEntry, AltRepeatKeyEntry } from '../../shared/types/protocol'
+import type { KeyboardDefinition, TapDanceEntry, ComboEntry, KeyOverrideEntry, AltRepeatKeyEntry } from '../../shared/types/protocol'
+import { ledsFromDefinition, type VirtualDeviceProfile } from './profile'
+import {
+  TAP_DANCE_ENTRY_COUNT,
+  COMBO_ENTRY_COUNT,
+  KEY_OVERRIDE_ENTRY_COUNT,
+  ALT_REPEAT_KEY_ENTRY_COUNT,
+  DYNAMIC_ENTRY_FEATURE_FLAGS,
+  createDefaultTapDanceEntries,
+  createDefaultComboEntries,
+  createDefaultKeyOverrideEntries,
+  createDefaultAltRepeatKeyEntries,
+} from './dynamic-entries'
 import definitionJson from './gpk60-63r-definition.json'
 
 export const VIRTUAL_DEVICE_VID = 0x7a79
@@ -115,8 +127,8 @@ function kc(token: string): number {
 /** True for the QK_BOOT keycode — vial-qmk's vial_keycode_firewall() blocks writing this
  *  value into any dynamic store (keymap, tap dance, combo, key override, alt-repeat-key)
  *  while the board is locked. */
-export function isBootKeycode(keycode: number): boolean {
-  setProtocolValue(VIAL_PROTOCOL)
+export function isBootKeycode(keycode: number, vialProtocol = VIAL_PROTOCOL): boolean {
+  setProtocolValue(vialProtocol)
   return keycode === resolve('QK_BOOT')
 }
 
@@ -205,7 +217,7 @@ export function buildSampleAltRepeatKey(): AltRepeatKeyEntry {
   return { lastKey: resolve('KC_C'), altKey: resolve('KC_V'), allowedMods: 0, options: 0, enabled: true }
 }
 
-function compressLzma(text: string): Promise<Uint8Array> {
+export function compressLzma(text: string): Promise<Uint8Array> {
   return new Promise((resolve, reject) => {
     try {
       lzmaModule.compress(text, 1, (result: number[] | null, error?: unknown) => {
@@ -239,3 +251,57 @@ export async function getCompressedDefinition(): Promise<Uint8Array> {
   cachedCompressedDefinition = await compressLzma(json)
   return cachedCompressedDefinition
 }
+
+/**
+ * The built-in board: what PIPETTE_VIRTUAL_DEVICE=1 exposes, and the only
+ * profile with a vibl image for the virtual bootloader. Index 0 of each
+ * dynamic-entry store is seeded with a sample, mirroring the sample macros.
+ */
+export const GPK60_63R_PROFILE: VirtualDeviceProfile = {
+  vendorId: VIRTUAL_DEVICE_VID,
+  productId: VIRTUAL_DEVICE_PID,
+  name: VIRTUAL_DEVICE_NAME,
+  serial: VIRTUAL_DEVICE_SERIAL,
+  uid: VIRTUAL_DEVICE_UID_BYTES,
+  vialProtocol: VIAL_PROTOCOL,
+  definition: definitionJson as KeyboardDefinition,
+  layers: LAYERS,
+  rows: ROWS,
+  cols: COLS,
+  encoderCount: 0,
+  macroCount: MACRO_COUNT,
+  macroBufferSize: MACRO_BUFFER_SIZE,
+  entryCounts: {
+    tapDance: TAP_DANCE_ENTRY_COUNT,
+    combo: COMBO_ENTRY_COUNT,
+    keyOverride: KEY_OVERRIDE_ENTRY_COUNT,
+    altRepeatKey: ALT_REPEAT_KEY_ENTRY_COUNT,
+  },
+  featureFlags: DYNAMIC_ENTRY_FEATURE_FLAGS,
+  lighting: definitionJson.lighting,
+  vialRGBEffects: VIALRGB_SUPPORTED_EFFECTS,
+  leds: ledsFromDefinition(definitionJson as KeyboardDefinition),
+  unlockCombo: VIRTUAL_DEVICE_UNLOCK_COMBO,
+  bootloader: true,
+  factory() {
+    const tapDance = createDefaultTapDanceEntries()
+    const combo = createDefaultComboEntries()
+    const keyOverride = createDefaultKeyOverrideEntries()
+    const altRepeatKey = createDefaultAltRepeatKeyEntries()
+    tapDance[0] = buildSampleTapDance()
+    combo[0] = buildSampleCombo()
+    keyOverride[0] = buildSampleKeyOverride()
+    altRepeatKey[0] = buildSampleAltRepeatKey()
+    return {
+      keymap: buildDefaultKeymap(),
+      encoders: new Uint16Array(0),
+      macroBuffer: buildDefaultMacroBuffer(),
+      layoutOptions: 0,
+      tapDance,
+      combo,
+      keyOverride,
+      altRepeatKey,
+      qmkSettings: {},
+    }
+  },
+}
@@ -1,70 +1,220 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
-// Public API for the virtual GPK60-63R emulator — the seam hid-service.ts
+// Public API for the virtual keyboard emulator — the seam hid-service.ts
 // calls into, plus a controller exposed to E2E tests for driving key
-// presses and the unlock sequence without real HID hardware.
+// presses and the unlock sequence without real HID hardware. Emulates the
+// built-in GPK60-63R or any board loaded from a definition / .vil /
+// .pipette file, several at once. With PIPETTE_HID_REPLAY set, the same
+// seam replays a recorded capture instead.
 
+import { readFileSync } from 'node:fs'
+import { delimiter } from 'node:path'
 import { CMD_VIA_VIAL_PREFIX, MSG_LEN } from '../../shared/constants/protocol'
 import type { DeviceInfo } from '../../shared/types/protocol'
-import { VIRTUAL_DEVICE_VID, VIRTUAL_DEVICE_PID, VIRTUAL_DEVICE_NAME, VIRTUAL_DEVICE_SERIAL, getCompressedDefinition } from './gpk60-63r'
+import type { HidCapture } from '../../shared/types/hid-capture'
+import { log } from '../logger'
+import { GPK60_63R_PROFILE, VIRTUAL_DEVICE_UID_BYTES, compressLzma } from './gpk60-63r'
+import { loadVirtualDeviceProfile } from './profile'
+import type { VirtualDeviceProfile } from './profile'
 import { createVirtualDeviceState, pressKey, releaseKey, releaseAll } from './state'
 import type { VirtualDeviceState } from './state'
 import { handleViaReport } from './via-handler'
 import { handleVialReport } from './vial-handler'
+import { createReplayPlayer, parseHidCapture, type ReplayPlayer } from './replay'
 
-let state: VirtualDeviceState | null = null
-let compressedDefinition: Uint8Array | null = null
+interface VirtualDevice {
+  profile: VirtualDeviceProfile
+  state: VirtualDeviceState | null
+  compressedDefinition: Uint8Array | null
+}
+
+/** The built-in board keeps its state however the env var changes. */
+const builtinDevice: VirtualDevice = { profile: GPK60_63R_PROFILE, state: null, compressedDefinition: null }
+/** Devices built from the last PIPETTE_VIRTUAL_DEVICE value seen. */
+let devices: { spec: string; list: VirtualDevice[] } | null = null
+let current: VirtualDevice | null = null
 let open = false
+let replay: { path: string; capture: HidCapture | null } | null = null
+let replayPlayer: ReplayPlayer | null = null
+
+const BUILTIN_ENTRY = '1'
+const EXCLUSIVE_ENTRY = 'only'
+
+/**
+ * Split PIPETTE_VIRTUAL_DEVICE into its entries (path-delimiter separated,
+ * like PATH). '1' is the built-in GPK60-63R, 'only' hides real devices and
+ * anything else is a definition / .vil / .pipette file to emulate. A bare
+ * '1' or 'only' keeps meaning the built-in board alone.
+ */
+function parseSpec(spec: string): { exclusive: boolean; entries: string[] } {
+  const tokens = spec.split(delimiter).map((t) => t.trim()).filter((t) => t && t !== '0')
+  const exclusive = tokens.includes(EXCLUSIVE_ENTRY)
+  const entries = tokens.filter((t) => t !== EXCLUSIVE_ENTRY)
+  return { exclusive, entries: exclusive && entries.length === 0 ? [BUILTIN_ENTRY] : entries }
+}
 
 /**
  * Read live (not cached at module load) so tests can toggle the env var
- * per-case. PIPETTE_VIRTUAL_DEVICE accepts two values:
- * - '1'    — append the virtual device to the real HID enumeration
- * - 'only' — expose the virtual device exclusively (real devices hidden),
+ * per-case. PIPETTE_VIRTUAL_DEVICE accepts a list of entries:
+ * - '1'    — append the built-in virtual device to the real HID enumeration
+ * - 'only' — expose the virtual devices exclusively (real devices hidden),
  *            so doc screenshots don't depend on whatever hardware happens
  *            to be plugged into the workstation
+ * - a file path — emulate the board described by that file
  */
 export function isVirtualDeviceEnabled(): boolean {
-  const v = process.env.PIPETTE_VIRTUAL_DEVICE
-  return v === '1' || v === 'only'
+  return parseSpec(process.env.PIPETTE_VIRTUAL_DEVICE ?? '').entries.length > 0 || !!process.env.PIPETTE_HID_REPLAY
 }
 
-/** True only for PIPETTE_VIRTUAL_DEVICE='only' — list the virtual device alone. */
+/**
+ * The capture named by PIPETTE_HID_REPLAY, read once per path. While set,
+ * the virtual device takes the recorded keyboard's identity and answers
+ * from the capture. A file that cannot be read is logged once and ignored.
+ */
+function getReplayCapture(): HidCapture | null {
+  const path = process.env.PIPETTE_HID_REPLAY
+  if (!path) return null
+  if (replay?.path !== path) {
+    let capture: HidCapture | null = null
+    try {
+      capture = parseHidCapture(readFileSync(path, 'utf-8'))
+    } catch (err) {
+      log('error', `HID replay: cannot load ${path}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    replay = { path, capture }
+  }
+  return replay.capture
+}
+
+/** True whenever PIPETTE_VIRTUAL_DEVICE contains 'only' — list the virtual devices alone. */
 export function isVirtualDeviceExclusive(): boolean {
-  return process.env.PIPETTE_VIRTUAL_DEVICE === 'only'
+  return parseSpec(process.env.PIPETTE_VIRTUAL_DEVICE ?? '').exclusive
 }
 
-export function getVirtualDeviceInfo(): DeviceInfo {
+/**
+ * Loaded boards get the built-in VID and consecutive PIDs (unless their
+ * definition names its own), a numbered serial and a UID of their own, so
+ * the app tells them apart and keeps separate per-keyboard settings.
+ * Returns null (after logging) for a file that cannot be loaded.
+ */
+function loadProfile(path: string, index: number, taken: readonly VirtualDeviceProfile[]): VirtualDeviceProfile | null {
+  const uid = new Uint8Array(VIRTUAL_DEVICE_UID_BYTES)
+  uid[7] = index + 1
+  let profile: VirtualDeviceProfile
+  try {
+    profile = loadVirtualDeviceProfile(path, {
+      vendorId: GPK60_63R_PROFILE.vendorId,
+      productId: (GPK60_63R_PROFILE.productId + index + 1) & 0xffff,
+      serial: `${GPK60_63R_PROFILE.serial}-${index + 1}`,
+      uid,
+    })
+  } catch (err) {
+    log('error', `Virtual device: cannot load ${path}: ${err instanceof Error ? err.message : String(err)}`)
+    return null
+  }
+  // Devices are opened by VID/PID, so two boards may not share a pair
+  while (taken.some((p) => p.vendorId === profile.vendorId && p.productId === profile.productId)) {
+    profile.productId = (profile.productId + 1) & 0xffff
+  }
+  return profile
+}
+
+/**
+ * The emulated boards, reloaded whenever the env value changes (loaded
+ * boards then start from their files again). Files that fail to load are
+ * left out. With nothing configured the built-in board is still available,
+ * so the controller and tests can drive it directly.
+ */
+function getDevices(): VirtualDevice[] {
+  const spec = process.env.PIPETTE_VIRTUAL_DEVICE ?? ''
+  if (devices?.spec === spec) return devices.list
+
+  const list: VirtualDevice[] = []
+  for (const [index, entry] of parseSpec(spec).entries.entries()) {
+    if (entry === BUILTIN_ENTRY) {
+      list.push(builtinDevice)
+    } else {
+      const profile = loadProfile(entry, index, list.map((d) => d.profile))
+      if (profile) list.push({ profile, state: null, compressedDefinition: null })
+    }
+  }
+  if (list.length === 0) list.push(builtinDevice)
+
+  devices = { spec, list }
+  return list
+}
+
+function toDeviceInfo(profile: VirtualDeviceProfile): DeviceInfo {
   return {
-    vendorId: VIRTUAL_DEVICE_VID,
-    productId: VIRTUAL_DEVICE_PID,
-    productName: VIRTUAL_DEVICE_NAME,
-    serialNumber: VIRTUAL_DEVICE_SERIAL,
+    vendorId: profile.vendorId,
+    productId: profile.productId,
+    productName: profile.name,
+    serialNumber: profile.serial,
     type: 'vial',
   }
 }
 
+/** Every virtual keyboard to enumerate, in PIPETTE_VIRTUAL_DEVICE order. */
+export function listVirtualDevices(): DeviceInfo[] {
+  const capture = getReplayCapture()
+  if (capture) return [{ ...capture.device, type: 'vial' }]
+  return getDevices().map((device) => toDeviceInfo(device.profile))
+}
+
+/** The first virtual keyboard — the built-in board unless configured otherwise. */
+export function getVirtualDeviceInfo(): DeviceInfo {
+  return listVirtualDevices()[0]
+}
+
 export function matchesVirtualDevice(vendorId: number, productId: number): boolean {
-  return vendorId === VIRTUAL_DEVICE_VID && productId === VIRTUAL_DEVICE_PID
+  return listVirtualDevices().some((info) => vendorId === info.vendorId && productId === info.productId)
+}
+
+/** True for the board the virtual bootloader stands in for. */
+export function hasVirtualBootloader(vendorId: number, productId: number): boolean {
+  if (getReplayCapture()) return false
+  return getDevices().some(
+    (d) => d.profile.bootloader && d.profile.vendorId === vendorId && d.profile.productId === productId,
+  )
+}
+
+function findDevice(vendorId?: number, productId?: number): VirtualDevice {
+  const list = getDevices()
+  if (vendorId === undefined || productId === undefined) return list[0]
+  const device = list.find((d) => d.profile.vendorId === vendorId && d.profile.productId === productId)
+  if (!device) throw new Error('Virtual device not found')
+  return device
 }
 
-function ensureState(): VirtualDeviceState {
-  if (!state) state = createVirtualDeviceState()
-  return state
+function ensureState(device: VirtualDevice): VirtualDeviceState {
+  if (!device.state) device.state = createVirtualDeviceState(device.profile)
+  return device.state
 }
 
 /**
- * Open the virtual device. State persists across re-opens within the same
- * process (like a powered-on keyboard keeping its EEPROM) — only `reset()`
- * on the controller restores factory defaults.
+ * Open a virtual device (the first one when no VID/PID is given). State
+ * persists across re-opens within the same process (like a powered-on
+ * keyboard keeping its EEPROM) — only `reset()` on the controller restores
+ * factory defaults.
  */
-export async function openVirtualDevice(): Promise<void> {
-  ensureState()
-  compressedDefinition = await getCompressedDefinition()
+export async function openVirtualDevice(vendorId?: number, productId?: number): Promise<void> {
+  // Every open replays the capture from its first exchange
+  const capture = getReplayCapture()
+  if (capture) {
+    replayPlayer = await createReplayPlayer(capture)
+    open = true
+    return
+  }
+  const device = findDevice(vendorId, productId)
+  ensureState(device)
+  device.compressedDefinition ??= await compressLzma(JSON.stringify(device.profile.definition))
+  current = device
   open = true
 }
 
 export function closeVirtualDevice(): void {
   open = false
+  current = null
+  replayPlayer = null
 }
 
 export function isVirtualDeviceOpen(): boolean {
@@ -73,14 +223,17 @@ export function isVirtualDeviceOpen(): boolean {
 
 /** Handle one raw 32-byte HID report and return the 32-byte response. */
 export function handleVirtualReport(data: number[]): number[] {
-  if (!open || !state || !compressedDefinition) {
-    throw new Error('Virtual device is not open')
-  }
-
   const req = new Uint8Array(MSG_LEN)
   for (let i = 0; i < Math.min(data.length, MSG_LEN); i++) {
     req[i] = data[i]
   }
+  if (open && replayPlayer) return Array.from(replayPlayer.handle(req))
+
+  const state = current?.state
+  const compressedDefinition = current?.compressedDefinition
+  if (!open || !state || !compressedDefinition) {
+    throw new Error('Virtual device is not open')
+  }
 
   const now = Date.now()
   const resp =
@@ -91,6 +244,19 @@ export function handleVirtualReport(data: number[]): number[] {
   return Array.from(resp)
 }
 
+/**
+ * True once after an accepted bootloader_jump. The virtual device cannot
+ * import the virtual bootloader (it imports us), so hid-service polls this
+ * after each report and performs the hand-over.
+ */
+export function consumeVirtualBootloaderJump(): boolean {
+  const state = current?.state
+  if (!state?.bootloaderJumpPending) return false
+  state.bootloaderJumpPending = false
+  // Boards without a vibl image just acknowledge the jump and stay put
+  return current?.profile.bootloader === true
+}
+
 export interface VirtualDeviceControllerState {
   open: boolean
   unlocked: boolean
@@ -106,6 +272,8 @@ export interface VirtualDeviceController {
   holdKeys(pairs: [number, number][]): void
   setUnlockCounterMax(n: number): void
   getState(): VirtualDeviceControllerState
+  /** Direct Control HSV triples, 3 bytes per LED. */
+  getDirectColors(): number[]
   reset(): void
 }
 
@@ -113,41 +281,57 @@ function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms))
 }
 
-/** Exposed on `globalThis.__pipetteVirtualDevice` for Playwright E2E tests to drive. */
+/** The open board, else the first one. */
+function controlledDevice(): VirtualDevice {
+  return current ?? getDevices()[0]
+}
+
+function controlledState(): VirtualDeviceState {
+  return ensureState(controlledDevice())
+}
+
+/**
+ * Exposed on `globalThis.__pipetteVirtualDevice` for Playwright E2E tests to
+ * drive. Acts on whichever virtual keyboard is open, else the first one.
+ */
 export function getVirtualDeviceController(): VirtualDeviceController {
   return {
     pressKey(row, col) {
-      pressKey(ensureState(), row, col)
+      pressKey(controlledState(), row, col)
     },
     releaseKey(row, col) {
-      releaseKey(ensureState(), row, col)
+      releaseKey(controlledState(), row, col)
     },
     async tapKey(row, col, holdMs = 0) {
-      const s = ensureState()
+      const s = controlledState()
       pressKey(s, row, col)
       if (holdMs > 0) await delay(holdMs)
       releaseKey(s, row, col)
     },
     releaseAll() {
-      releaseAll(ensureState())
+      releaseAll(controlledState())
     },
     holdKeys(pairs) {
-      const s = ensureState()
+      const s = controlledState()
       for (const [row, col] of pairs) pressKey(s, row, col)
     },
     setUnlockCounterMax(n) {
-      const s = ensureState()
+      const s = controlledState()
       s.unlockCounterMax = n
       // Clamp a countdown already in progress so tests shortening the
       // sequence take effect immediately instead of after a combo release.
       if (s.unlockCounter > n) s.unlockCounter = n
     },
     getState() {
-      const s = ensureState()
+      const s = controlledState()
       return { open, unlocked: s.unlocked, unlockInProgress: s.unlockInProgress, unlockCounter: s.unlockCounter }
     },
+    getDirectColors() {
+      return Array.from(controlledState().directColors)
+    },
     reset() {
-      state = createVirtualDeviceState()
+      const device = controlledDevice()
+      device.state = createVirtualDeviceState(device.profile)
     },
   }
 }
@@ -0,0 +1,302 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Board profiles for the virtual device. A profile carries everything the
+// handlers used to read from the GPK60-63R constants — identity, matrix,
+// layer count, dynamic entry counts, macro buffer size, lighting type and
+// the factory contents — so the emulator can stand in for any board. The
+// built-in profile lives in gpk60-63r.ts; loadVirtualDeviceProfile() builds
+// one from a Vial definition JSON or a v2 .vil / .pipette file.
+
+import { readFileSync } from 'node:fs'
+import { basename, extname } from 'node:path'
+import type {
+  KeyboardDefinition,
+  TapDanceEntry,
+  ComboEntry,
+  KeyOverrideEntry,
+  AltRepeatKeyEntry,
+  VilFile,
+} from '../../shared/types/protocol'
+import { isKeyboardDefinition, isRecord, isVilFile, deriveLayerCount } from '../../shared/vil-file'
+import { parseKle } from '../../shared/kle/kle-parser'
+import {
+  TAP_DANCE_ENTRY_COUNT,
+  COMBO_ENTRY_COUNT,
+  KEY_OVERRIDE_ENTRY_COUNT,
+  ALT_REPEAT_KEY_ENTRY_COUNT,
+  DYNAMIC_ENTRY_FEATURE_FLAGS,
+  createDefaultTapDanceEntries,
+  createDefaultComboEntries,
+  createDefaultKeyOverrideEntries,
+  createDefaultAltRepeatKeyEntries,
+} from './dynamic-entries'
+
+export interface VirtualDeviceEntryCounts {
+  tapDance: number
+  combo: number
+  keyOverride: number
+  altRepeatKey: number
+}
+
+/** One rgb_matrix LED: g_led_config point, flags and the key it sits under. */
+export interface VirtualLed {
+  x: number
+  y: number
+  flags: number
+  row: number
+  col: number
+}
+
+/** Contents of a freshly flashed board; reset commands restore from here. */
+export interface VirtualDeviceFactory {
+  /** Flat layer-major, row-major keymap. */
+  keymap: Uint16Array
+  /** Flat (layer, encoder, direction) encoder keymap. */
+  encoders: Uint16Array
+  macroBuffer: Uint8Array
+  layoutOptions: number
+  tapDance: TapDanceEntry[]
+  combo: ComboEntry[]
+  keyOverride: KeyOverrideEntry[]
+  altRepeatKey: AltRepeatKeyEntry[]
+  /** qsid → LE value bytes, applied over the QMK Settings defaults. */
+  qmkSettings: Record<string, number[]>
+}
+
+export interface VirtualDeviceProfile {
+  vendorId: number
+  productId: number
+  name: string
+  serial: string
+  /** 8-byte keyboard UID reported by vial_get_keyboard_id. */
+  uid: Uint8Array
+  vialProtocol: number
+  /** Served LZMA-compressed over CMD_VIAL_GET_DEFINITION. */
+  definition: KeyboardDefinition
+  layers: number
+  rows: number
+  cols: number
+  encoderCount: number
+  macroCount: number
+  macroBufferSize: number
+  entryCounts: VirtualDeviceEntryCounts
+  /** Caps Word / Layer Lock byte of dynamic_vial_get_number_of_entries. */
+  featureFlags: number
+  /** The definition's `lighting` value; 'vialrgb' enables the VialRGB commands. */
+  lighting: string | undefined
+  /** Ascending VialRGB effect ids reported by vialrgb_get_supported. */
+  vialRGBEffects: readonly number[]
+  /** rgb_matrix LEDs in index order; empty without VialRGB. */
+  leds: readonly VirtualLed[]
+  /** (row, col) pairs held to unlock. */
+  unlockCombo: readonly [number, number][]
+  /** Only boards with a vibl image can hand over to the virtual bootloader. */
+  bootloader: boolean
+  factory(): VirtualDeviceFactory
+}
+
+/** Identity handed to a loaded profile by its position in PIPETTE_VIRTUAL_DEVICE. */
+export interface VirtualDeviceIdentity {
+  vendorId: number
+  productId: number
+  serial: string
+  uid: Uint8Array
+}
+
+const DEFAULT_LAYERS = 4
+const DEFAULT_MACRO_COUNT = 16
+const DEFAULT_MACRO_BUFFER_SIZE = 900
+const DEFAULT_VIAL_PROTOCOL = 6
+/** LED_FLAG_KEYLIGHT from quantum/rgb_matrix/rgb_matrix_types.h */
+const LED_FLAG_KEYLIGHT = 0x04
+/** g_led_config point ranges: x 0-224, y 0-64 */
+const LED_POINT_MAX_X = 224
+const LED_POINT_MAX_Y = 64
+/** Effects a loaded VialRGB board supports: Off, Direct Control and a plain solid color. */
+const LOADED_VIALRGB_EFFECTS: readonly number[] = [0, 1, 2]
+
+const DEFAULT_UNLOCK_COMBO: readonly [number, number][] = [
+  [0, 0],
+  [0, 1],
+]
+
+/** Number of encoders in a definition — KLE keys tagged "e", one per direction. */
+export function countDefinitionEncoders(def: KeyboardDefinition): number {
+  let count = 0
+  for (const row of def.layouts.keymap) {
+    if (!Array.isArray(row)) continue
+    for (const item of row) {
+      if (isRecord(item) && 'e' in item) count++
+    }
+  }
+  return Math.ceil(count / 2)
+}
+
+/**
+ * One key-light LED under every switch of the default layout, in layout
+ * order, with the key centers scaled onto the rgb_matrix point grid — the
+ * way most per-key boards lay out g_led_config.
+ */
+export function ledsFromDefinition(def: KeyboardDefinition): VirtualLed[] {
+  const seen = new Set<string>()
+  const keys = parseKle(def.layouts.keymap).keys.filter((key) => {
+    const pos = `${key.row},${key.col}`
+    if (key.decal || key.ghost || key.encoderIdx >= 0 || key.layoutOption > 0 || seen.has(pos)) return false
+    seen.add(pos)
+    return true
+  })
+  if (keys.length === 0) return []
+
+  const centers = keys.map((key) => ({ x: key.x + key.width / 2, y: key.y + key.height / 2 }))
+  const minX = Math.min(...centers.map((c) => c.x))
+  const minY = Math.min(...centers.map((c) => c.y))
+  const spanX = Math.max(...centers.map((c) => c.x)) - minX || 1
+  const spanY = Math.max(...centers.map((c) => c.y)) - minY || 1
+  return keys.map((key, i) => ({
+    x: Math.round(((centers[i].x - minX) / spanX) * LED_POINT_MAX_X),
+    y: Math.round(((centers[i].y - minY) / spanY) * LED_POINT_MAX_Y),
+    flags: LED_FLAG_KEYLIGHT,
+    row: key.row,
+    col: key.col,
+  }))
+}
+
+/** VIA-style "0x1234" vendor/product id strings carried by some definitions. */
+function readHexId(def: KeyboardDefinition, key: 'vendorId' | 'productId'): number | null {
+  const value = (def as unknown as Record<string, unknown>)[key]
+  if (typeof value !== 'string') return null
+  const id = parseInt(value, 16)
+  return Number.isInteger(id) && id > 0 && id <= 0xffff ? id : null
+}
+
+/** Parse a "0x…" keyboard UID (u64 as hex) back into its little-endian wire bytes. */
+function parseUid(uid: string): Uint8Array | null {
+  if (!/^0x[0-9a-fA-F]{16}$/.test(uid)) return null
+  const bytes = new Uint8Array(8)
+  for (let i = 0; i < 8; i++) {
+    bytes[7 - i] = parseInt(uid.slice(2 + i * 2, 4 + i * 2), 16)
+  }
+  return bytes
+}
+
+function fitEntries<T>(entries: readonly T[] | undefined, defaults: T[]): T[] {
+  return defaults.map((entry, i) => (entries?.[i] ? { ...entries[i] } : entry))
+}
+
+function buildKeymap(
+  layers: number,
+  rows: number,
+  cols: number,
+  keymap: Record<string, number> | undefined,
+): Uint16Array {
+  const flat = new Uint16Array(layers * rows * cols)
+  for (const [key, code] of Object.entries(keymap ?? {})) {
+    const [layer, row, col] = key.split(',').map(Number)
+    if (layer < layers && row < rows && col < cols) {
+      flat[(layer * rows + row) * cols + col] = code
+    }
+  }
+  return flat
+}
+
+function buildEncoders(
+  layers: number,
+  encoderCount: number,
+  encoderLayout: Record<string, number> | undefined,
+): Uint16Array {
+  const flat = new Uint16Array(layers * encoderCount * 2)
+  for (const [key, code] of Object.entries(encoderLayout ?? {})) {
+    const [layer, idx, dir] = key.split(',').map(Number)
+    if (layer < layers && idx < encoderCount && (dir === 0 || dir === 1)) {
+      flat[(layer * encoderCount + idx) * 2 + dir] = code
+    }
+  }
+  return flat
+}
+
+/** Build a profile from a parsed definition, seeding its stores from `vil` when given. */
+function buildProfile(
+  definition: KeyboardDefinition,
+  vil: VilFile | null,
+  fallbackName: string,
+  identity: VirtualDeviceIdentity,
+): VirtualDeviceProfile {
+  const { rows, cols } = definition.matrix
+  const layers = vil ? deriveLayerCount(vil.keymap) : definition.dynamic_keymap?.layer_count ?? DEFAULT_LAYERS
+  const encoderCount = countDefinitionEncoders(definition)
+  const macroBufferSize = vil && vil.macros.length > 0 ? vil.macros.length : DEFAULT_MACRO_BUFFER_SIZE
+  const entryCounts: VirtualDeviceEntryCounts = vil
+    ? {
+        tapDance: vil.tapDance.length,
+        combo: vil.combo.length,
+        keyOverride: vil.keyOverride.length,
+        altRepeatKey: vil.altRepeatKey.length,
+      }
+    : {
+        tapDance: TAP_DANCE_ENTRY_COUNT,
+        combo: COMBO_ENTRY_COUNT,
+        keyOverride: KEY_OVERRIDE_ENTRY_COUNT,
+        altRepeatKey: ALT_REPEAT_KEY_ENTRY_COUNT,
+      }
+
+  return {
+    vendorId: readHexId(definition, 'vendorId') ?? identity.vendorId,
+    productId: readHexId(definition, 'productId') ?? identity.productId,
+    name: definition.name ?? fallbackName,
+    serial: identity.serial,
+    uid: (vil && parseUid(vil.uid)) ?? identity.uid,
+    vialProtocol: vil?.vialProtocol ?? DEFAULT_VIAL_PROTOCOL,
+    definition,
+    layers,
+    rows,
+    cols,
+    encoderCount,
+    macroCount: vil?.macroJson?.length ?? DEFAULT_MACRO_COUNT,
+    macroBufferSize,
+    entryCounts,
+    featureFlags: vil?.featureFlags ?? DYNAMIC_ENTRY_FEATURE_FLAGS,
+    lighting: definition.lighting,
+    vialRGBEffects: LOADED_VIALRGB_EFFECTS,
+    leds: definition.lighting === 'vialrgb' ? ledsFromDefinition(definition) : [],
+    unlockCombo: DEFAULT_UNLOCK_COMBO.filter(([row, col]) => row < rows && col < cols),
+    bootloader: false,
+    factory() {
+      const macroBuffer = new Uint8Array(macroBufferSize)
+      if (vil) macroBuffer.set(vil.macros.slice(0, macroBufferSize))
+      return {
+        keymap: buildKeymap(layers, rows, cols, vil?.keymap),
+        encoders: buildEncoders(layers, encoderCount, vil?.encoderLayout),
+        macroBuffer,
+        layoutOptions: vil?.layoutOptions ?? 0,
+        tapDance: fitEntries(vil?.tapDance, createDefaultTapDanceEntries(entryCounts.tapDance)),
+        combo: fitEntries(vil?.combo, createDefaultComboEntries(entryCounts.combo)),
+        keyOverride: fitEntries(vil?.keyOverride, createDefaultKeyOverrideEntries(entryCounts.keyOverride)),
+        altRepeatKey: fitEntries(vil?.altRepeatKey, createDefaultAltRepeatKeyEntries(entryCounts.altRepeatKey)),
+        qmkSettings: { ...vil?.qmkSettings },
+      }
+    },
+  }
+}
+
+/**
+ * Build a profile from the text of a Vial definition JSON or a v2 .vil /
+ * .pipette file (which embeds its definition). A .vil file also supplies
+ * the layer count, entry counts, macro buffer and the keymap to start from.
+ */
+export function parseVirtualDeviceProfile(
+  json: string,
+  fallbackName: string,
+  identity: VirtualDeviceIdentity,
+): VirtualDeviceProfile {
+  const data: unknown = JSON.parse(json)
+  if (isVilFile(data) && data.definition) {
+    return buildProfile(data.definition, data, fallbackName, identity)
+  }
+  if (isKeyboardDefinition(data)) {
+    return buildProfile(data, null, fallbackName, identity)
+  }
+  throw new Error('Unsupported virtual device file')
+}
+
+export function loadVirtualDeviceProfile(path: string, identity: VirtualDeviceIdentity): VirtualDeviceProfile {
+  return parseVirtualDeviceProfile(readFileSync(path, 'utf-8'), basename(path, extname(path)), identity)
+}
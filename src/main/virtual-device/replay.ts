@@ -0,0 +1,87 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Replay mode for the virtual device: answers reports from a capture
+// recorded by hid-recorder.ts instead of emulating the GPK60-63R, so a
+// maintainer can reproduce a user's connect/reload sequence without the
+// hardware. Requests are matched byte-for-byte; a request recorded several
+// times gets its replies back in recorded order, then the last one again.
+
+import {
+  CMD_VIA_VIAL_PREFIX,
+  CMD_VIAL_GET_SIZE,
+  CMD_VIAL_GET_DEFINITION,
+  MSG_LEN,
+} from '../../shared/constants/protocol'
+import { HID_CAPTURE_VERSION, type HidCapture } from '../../shared/types/hid-capture'
+import { toHex, fromHex } from '../hid-recorder'
+import { compressLzma } from './gpk60-63r'
+import { readLE32, writeLE32 } from './byte-utils'
+
+// What VIA firmware puts in byte 0 for a command it does not handle
+const ID_UNHANDLED = 0xff
+
+export interface ReplayPlayer {
+  /** Answer one 32-byte report from the capture. */
+  handle(req: Uint8Array): Uint8Array
+}
+
+/** Parse and sanity-check a capture file. */
+export function parseHidCapture(json: string): HidCapture {
+  const data = JSON.parse(json) as Partial<HidCapture>
+  if (
+    data.version !== HID_CAPTURE_VERSION ||
+    !data.device ||
+    typeof data.device.vendorId !== 'number' ||
+    typeof data.device.productId !== 'number' ||
+    !Array.isArray(data.exchanges)
+  ) {
+    throw new Error('Invalid HID capture')
+  }
+  return data as HidCapture
+}
+
+function toReport(bytes: readonly number[]): Uint8Array {
+  const resp = new Uint8Array(MSG_LEN)
+  resp.set(bytes.slice(0, MSG_LEN))
+  return resp
+}
+
+export async function createReplayPlayer(capture: HidCapture): Promise<ReplayPlayer> {
+  const replies = new Map<string, { rx: number[][]; next: number }>()
+  for (const { tx, rx } of capture.exchanges) {
+    if (rx === null) continue
+    const entry = replies.get(tx) ?? { rx: [], next: 0 }
+    entry.rx.push(fromHex(rx))
+    replies.set(tx, entry)
+  }
+
+  // Serves the definition when the capture started after the device was
+  // opened and so holds no definition transfer of its own
+  const compressed = capture.definition ? await compressLzma(JSON.stringify(capture.definition)) : null
+
+  return {
+    handle(req) {
+      const entry = replies.get(toHex(Array.from(req)))
+      if (entry) {
+        const rx = entry.rx[Math.min(entry.next, entry.rx.length - 1)]
+        entry.next++
+        return toReport(rx)
+      }
+
+      if (compressed && req[0] === CMD_VIA_VIAL_PREFIX) {
+        if (req[1] === CMD_VIAL_GET_SIZE) {
+          const resp = new Uint8Array(MSG_LEN)
+          writeLE32(resp, 0, compressed.length)
+          return resp
+        }
+        if (req[1] === CMD_VIAL_GET_DEFINITION) {
+          const start = readLE32(req, 2) * MSG_LEN
+          return toReport(Array.from(compressed.subarray(start, start + MSG_LEN)))
+        }
+      }
+
+      const resp = toReport(Array.from(req))
+      resp[0] = ID_UNHANDLED
+      return resp
+    },
+  }
+}
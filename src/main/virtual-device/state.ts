@@ -1,30 +1,14 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
-// Matrix / unlock state machine for the virtual GPK60-63R.
+// Matrix / unlock state machine for the virtual device.
 // The unlock sequence mirrors vial-qmk's vial.c vial_unlock_poll(): the
 // keyboard only unlocks after the combo has been held continuously for
 // unlockCounterMax poll ticks spaced >= 100ms apart.
 
 import type { TapDanceEntry, ComboEntry, KeyOverrideEntry, AltRepeatKeyEntry } from '../../shared/types/protocol'
-import {
-  LAYERS,
-  ROWS,
-  COLS,
-  VIRTUAL_DEVICE_UNLOCK_COMBO,
-  VIALRGB_SUPPORTED_EFFECTS,
-  buildDefaultKeymap,
-  buildDefaultMacroBuffer,
-  buildSampleTapDance,
-  buildSampleCombo,
-  buildSampleKeyOverride,
-  buildSampleAltRepeatKey,
-} from './gpk60-63r'
-import {
-  createDefaultTapDanceEntries,
-  createDefaultComboEntries,
-  createDefaultKeyOverrideEntries,
-  createDefaultAltRepeatKeyEntries,
-} from './dynamic-entries'
-import { createDefaultQmkSettings } from './qmk-settings'
+import { MSG_LEN, VIALRGB_EFFECT_DIRECT } from '../../shared/constants/protocol'
+import { GPK60_63R_PROFILE } from './gpk60-63r'
+import type { VirtualDeviceProfile } from './profile'
+import { createDefaultQmkSettings, qmkSettingsSet } from './qmk-settings'
 import type { QmkSettingsStore } from './qmk-settings'
 
 export interface VialRGBState {
@@ -36,7 +20,11 @@ export interface VialRGBState {
 }
 
 export interface VirtualDeviceState {
+  /** The board being emulated; fixes the matrix, counts and factory contents. */
+  profile: VirtualDeviceProfile
   keymap: Uint16Array
+  /** (layer, encoder, direction) keycodes — see encoderIndex(). */
+  encoders: Uint16Array
   macroBuffer: Uint8Array
   layoutOptions: number
   /** matrix[row][col] — true while the switch is held down. */
@@ -48,64 +36,82 @@ export interface VirtualDeviceState {
   /** Timestamp (ms) of the last unlock poll tick that made progress. */
   unlockTimer: number
   rgb: VialRGBState
+  /** Direct Control HSV triples, 3 bytes per LED in LED index order. */
+  directColors: Uint8Array
+  /** qmk_backlight / qmk_rgblight values keyed by lighting value id. */
+  lightingValues: Map<number, Uint8Array>
   tapDanceEntries: TapDanceEntry[]
   comboEntries: ComboEntry[]
   keyOverrideEntries: KeyOverrideEntry[]
   altRepeatKeyEntries: AltRepeatKeyEntry[]
   qmkSettings: QmkSettingsStore
+  /** VIA v3 custom menu payloads keyed by "channel:valueId". */
+  customValues: Map<string, Uint8Array>
+  /** Set by bootloader_jump; the transport hands over to the virtual bootloader. */
+  bootloaderJumpPending: boolean
 }
 
 const UNLOCK_COUNTER_MAX_DEFAULT = 50
 const UNLOCK_POLL_MIN_INTERVAL_MS = 100
 
-function createMatrix(): boolean[][] {
-  return Array.from({ length: ROWS }, () => new Array<boolean>(COLS).fill(false))
+function createMatrix(profile: VirtualDeviceProfile): boolean[][] {
+  return Array.from({ length: profile.rows }, () => new Array<boolean>(profile.cols).fill(false))
 }
 
-export function createVirtualDeviceState(): VirtualDeviceState {
-  const tapDanceEntries = createDefaultTapDanceEntries()
-  const comboEntries = createDefaultComboEntries()
-  const keyOverrideEntries = createDefaultKeyOverrideEntries()
-  const altRepeatKeyEntries = createDefaultAltRepeatKeyEntries()
-  // Seed index 0 of each store with a sample so a fresh device (and the doc
-  // screenshots) show a configured tile, mirroring the sample macros below.
-  tapDanceEntries[0] = buildSampleTapDance()
-  comboEntries[0] = buildSampleCombo()
-  keyOverrideEntries[0] = buildSampleKeyOverride()
-  altRepeatKeyEntries[0] = buildSampleAltRepeatKey()
+function createQmkSettings(values: Record<string, number[]>): QmkSettingsStore {
+  const store = createDefaultQmkSettings()
+  for (const [qsid, bytes] of Object.entries(values)) {
+    qmkSettingsSet(store, Number(qsid), Uint8Array.from(bytes), 0)
+  }
+  return store
+}
+
+export function createVirtualDeviceState(profile: VirtualDeviceProfile = GPK60_63R_PROFILE): VirtualDeviceState {
+  const factory = profile.factory()
 
   return {
-    keymap: buildDefaultKeymap(),
-    macroBuffer: buildDefaultMacroBuffer(),
-    layoutOptions: 0,
-    matrix: createMatrix(),
+    profile,
+    keymap: factory.keymap,
+    encoders: factory.encoders,
+    macroBuffer: factory.macroBuffer,
+    layoutOptions: factory.layoutOptions,
+    matrix: createMatrix(profile),
     unlocked: false,
     unlockInProgress: false,
     unlockCounter: UNLOCK_COUNTER_MAX_DEFAULT,
     unlockCounterMax: UNLOCK_COUNTER_MAX_DEFAULT,
     unlockTimer: 0,
     rgb: {
-      mode: VIALRGB_SUPPORTED_EFFECTS[1] ?? 0,
+      // First animated effect; boards power up out of Off and Direct Control
+      mode: profile.vialRGBEffects.find((effect) => effect > VIALRGB_EFFECT_DIRECT) ?? 0,
       speed: 128,
       hue: 128,
       sat: 255,
       val: 128,
     },
-    tapDanceEntries,
-    comboEntries,
-    keyOverrideEntries,
-    altRepeatKeyEntries,
-    qmkSettings: createDefaultQmkSettings(),
+    directColors: new Uint8Array(profile.leds.length * 3),
+    lightingValues: new Map(),
+    tapDanceEntries: factory.tapDance,
+    comboEntries: factory.combo,
+    keyOverrideEntries: factory.keyOverride,
+    altRepeatKeyEntries: factory.altRepeatKey,
+    qmkSettings: createQmkSettings(factory.qmkSettings),
+    customValues: new Map(),
+    bootloaderJumpPending: false,
   }
 }
 
+function inMatrix(state: VirtualDeviceState, row: number, col: number): boolean {
+  return row >= 0 && row < state.profile.rows && col >= 0 && col < state.profile.cols
+}
+
 export function pressKey(state: VirtualDeviceState, row: number, col: number): void {
-  if (row < 0 || row >= ROWS || col < 0 || col >= COLS) return
+  if (!inMatrix(state, row, col)) return
   state.matrix[row][col] = true
 }
 
 export function releaseKey(state: VirtualDeviceState, row: number, col: number): void {
-  if (row < 0 || row >= ROWS || col < 0 || col >= COLS) return
+  if (!inMatrix(state, row, col)) return
   state.matrix[row][col] = false
 }
 
@@ -115,7 +121,7 @@ export function releaseAll(state: VirtualDeviceState): void {
 
 /** Returns true only while every key of the unlock combo is currently held. */
 export function isHoldingUnlockCombo(state: VirtualDeviceState): boolean {
-  return VIRTUAL_DEVICE_UNLOCK_COMBO.every(([row, col]) => state.matrix[row]?.[col] === true)
+  return state.profile.unlockCombo.every(([row, col]) => state.matrix[row]?.[col] === true)
 }
 
 /**
@@ -147,25 +153,58 @@ export function unlockPollTick(state: VirtualDeviceState, now: number): void {
   }
 }
 
-/** Pack the matrix into the VIA switch-matrix-state byte layout (2 bytes per row, big-endian). */
+/**
+ * Pack the matrix into the VIA switch-matrix-state layout: one big-endian
+ * bitmap per row, ceil(cols / 8) bytes wide (via.c's MATRIX_COLS > 8/16/24
+ * steps), clipped to what fits after the 2-byte header.
+ */
 export function packMatrixState(state: VirtualDeviceState): Uint8Array {
-  const bytes = new Uint8Array(ROWS * 2)
-  for (let row = 0; row < ROWS; row++) {
+  const { rows, cols } = state.profile
+  const rowBytes = Math.ceil(cols / 8)
+  const bytes = new Uint8Array(Math.min(rows * rowBytes, MSG_LEN - 2))
+  for (let row = 0; row < rows; row++) {
     let bits = 0
-    for (let col = 0; col < COLS; col++) {
-      if (state.matrix[row][col]) bits |= 1 << col
+    for (let col = 0; col < cols; col++) {
+      if (state.matrix[row][col]) bits |= 2 ** col
+    }
+    for (let i = 0; i < rowBytes; i++) {
+      const offset = row * rowBytes + i
+      if (offset >= bytes.length) return bytes
+      bytes[offset] = Math.floor(bits / 2 ** ((rowBytes - 1 - i) * 8)) & 0xff
     }
-    bytes[row * 2] = (bits >> 8) & 0xff
-    bytes[row * 2 + 1] = bits & 0xff
   }
   return bytes
 }
 
-export function keymapIndex(layer: number, row: number, col: number): number {
-  return (layer * ROWS + row) * COLS + col
+export function keymapIndex(
+  layer: number,
+  row: number,
+  col: number,
+  profile: VirtualDeviceProfile = GPK60_63R_PROFILE,
+): number {
+  return (layer * profile.rows + row) * profile.cols + col
 }
 
 /** Every unused/out-of-range keymap position resolves to KC_NO (0). */
-export function isValidKeymapPosition(layer: number, row: number, col: number): boolean {
-  return layer >= 0 && layer < LAYERS && row >= 0 && row < ROWS && col >= 0 && col < COLS
+export function isValidKeymapPosition(
+  layer: number,
+  row: number,
+  col: number,
+  profile: VirtualDeviceProfile = GPK60_63R_PROFILE,
+): boolean {
+  return layer >= 0 && layer < profile.layers && row >= 0 && row < profile.rows && col >= 0 && col < profile.cols
+}
+
+export function encoderIndex(profile: VirtualDeviceProfile, layer: number, encoder: number, direction: number): number {
+  return (layer * profile.encoderCount + encoder) * 2 + direction
+}
+
+/** Out-of-range encoder slots read as KC_NO and ignore writes, like dynamic_keymap_get_encoder(). */
+export function isValidEncoderPosition(
+  profile: VirtualDeviceProfile,
+  layer: number,
+  encoder: number,
+  direction: number,
+): boolean {
+  return layer < profile.layers && encoder < profile.encoderCount && (direction === 0 || direction === 1)
 }
@@ -11,6 +11,9 @@ import {
   CMD_VIA_SET_KEYBOARD_VALUE,
   CMD_VIA_GET_KEYCODE,
   CMD_VIA_SET_KEYCODE,
+  CMD_VIA_DYNAMIC_KEYMAP_RESET,
+  CMD_VIA_EEPROM_RESET,
+  CMD_VIA_BOOTLOADER_JUMP,
   CMD_VIA_LIGHTING_GET_VALUE,
   CMD_VIA_LIGHTING_SET_VALUE,
   CMD_VIA_LIGHTING_SAVE,
@@ -20,15 +23,36 @@ import {
   CMD_VIA_MACRO_SET_BUFFER,
   CMD_VIA_GET_LAYER_COUNT,
   CMD_VIA_KEYMAP_GET_BUFFER,
+  CMD_VIA_KEYMAP_SET_BUFFER,
   VIA_LAYOUT_OPTIONS,
   VIA_SWITCH_MATRIX_STATE,
 } from '../../shared/constants/protocol'
 import { readBE16, writeBE16, readBE32, writeBE32 } from './byte-utils'
-import { LAYERS, ROWS, COLS, MACRO_COUNT, MACRO_BUFFER_SIZE, isBootKeycode } from './gpk60-63r'
+import { isBootKeycode } from './gpk60-63r'
 import type { VirtualDeviceState } from './state'
 import { isValidKeymapPosition, keymapIndex, packMatrixState } from './state'
 import { getLightingValue, setLightingValue } from './vialrgb-handler'
 
+/** VIA v3 channel ids (id_custom_channel .. id_qmk_led_matrix_channel).
+ *  Lighting get/set packets whose byte1 falls in this range are custom
+ *  menu values; legacy lighting and VialRGB ids all sit above it. */
+const VIA_CHANNEL_COUNT = 6
+
+function customValueKey(req: Uint8Array): string {
+  return `${req[1]}:${req[2]}`
+}
+
+/** qmk_backlight / qmk_rgblight values: stored as written, zero until set. */
+function getLegacyLightingValue(state: VirtualDeviceState, req: Uint8Array, resp: Uint8Array): void {
+  const stored = state.lightingValues.get(req[1])
+  resp.fill(0, 2)
+  if (stored) resp.set(stored, 2)
+}
+
+function setLegacyLightingValue(state: VirtualDeviceState, req: Uint8Array): void {
+  state.lightingValues.set(req[1], req.slice(2))
+}
+
 export function handleViaReport(state: VirtualDeviceState, req: Uint8Array): Uint8Array {
   const resp = new Uint8Array(req)
   const cmd = req[0]
@@ -62,7 +86,9 @@ export function handleViaReport(state: VirtualDeviceState, req: Uint8Array): Uin
 
     case CMD_VIA_GET_KEYCODE: {
       const [layer, row, col] = [req[1], req[2], req[3]]
-      const value = isValidKeymapPosition(layer, row, col) ? state.keymap[keymapIndex(layer, row, col)] : 0
+      const value = isValidKeymapPosition(layer, row, col, state.profile)
+        ? state.keymap[keymapIndex(layer, row, col, state.profile)]
+        : 0
       writeBE16(resp, 4, value)
       break
     }
@@ -70,22 +96,50 @@ export function handleViaReport(state: VirtualDeviceState, req: Uint8Array): Uin
     case CMD_VIA_SET_KEYCODE: {
       const [layer, row, col] = [req[1], req[2], req[3]]
       const keycode = readBE16(req, 4)
-      if (isValidKeymapPosition(layer, row, col)) {
-        const blocked = !state.unlocked && isBootKeycode(keycode)
-        state.keymap[keymapIndex(layer, row, col)] = blocked ? 0 : keycode
+      if (isValidKeymapPosition(layer, row, col, state.profile)) {
+        const blocked = !state.unlocked && isBootKeycode(keycode, state.profile.vialProtocol)
+        state.keymap[keymapIndex(layer, row, col, state.profile)] = blocked ? 0 : keycode
+      }
+      break
+    }
+
+    // Maintenance commands: vial-qmk drops all three while locked, since a
+    // reset can bring QK_BOOT back from the firmware default keymap.
+    case CMD_VIA_DYNAMIC_KEYMAP_RESET: {
+      if (state.unlocked) {
+        const factory = state.profile.factory()
+        state.keymap = factory.keymap
+        state.encoders = factory.encoders
+      }
+      break
+    }
+
+    case CMD_VIA_EEPROM_RESET: {
+      // eeconfig_init_via(): layout options, keymap, then an empty macro buffer.
+      if (state.unlocked) {
+        const factory = state.profile.factory()
+        state.layoutOptions = 0
+        state.keymap = factory.keymap
+        state.encoders = factory.encoders
+        state.macroBuffer.fill(0)
       }
       break
     }
 
+    case CMD_VIA_BOOTLOADER_JUMP: {
+      if (state.unlocked) state.bootloaderJumpPending = true
+      break
+    }
+
     case CMD_VIA_GET_LAYER_COUNT: {
-      resp[1] = LAYERS
+      resp[1] = state.profile.layers
       break
     }
 
     case CMD_VIA_KEYMAP_GET_BUFFER: {
       const offset = readBE16(req, 1)
       const size = Math.min(req[3], BUFFER_FETCH_CHUNK)
-      const keymapBytes = new Uint8Array(LAYERS * ROWS * COLS * 2)
+      const keymapBytes = new Uint8Array(state.keymap.length * 2)
       for (let i = 0; i < state.keymap.length; i++) {
         writeBE16(keymapBytes, i * 2, state.keymap[i])
       }
@@ -97,12 +151,12 @@ export function handleViaReport(state: VirtualDeviceState, req: Uint8Array): Uin
     }
 
     case CMD_VIA_MACRO_GET_COUNT: {
-      resp[1] = MACRO_COUNT
+      resp[1] = state.profile.macroCount
       break
     }
 
     case CMD_VIA_MACRO_GET_BUFFER_SIZE: {
-      writeBE16(resp, 1, MACRO_BUFFER_SIZE)
+      writeBE16(resp, 1, state.profile.macroBufferSize)
       break
     }
 
@@ -116,6 +170,29 @@ export function handleViaReport(state: VirtualDeviceState, req: Uint8Array): Uin
       break
     }
 
+    case CMD_VIA_KEYMAP_SET_BUFFER: {
+      const offset = readBE16(req, 1)
+      const size = Math.min(req[3], BUFFER_FETCH_CHUNK)
+      for (let i = 0; i < size; i++) {
+        const byteIndex = offset + i
+        const cell = byteIndex >> 1
+        if (cell >= state.keymap.length) break
+        const prev = state.keymap[cell]
+        state.keymap[cell] = byteIndex & 1
+          ? (prev & 0xff00) | req[4 + i]
+          : (req[4 + i] << 8) | (prev & 0xff)
+      }
+      // Same QK_BOOT firewall as set_keycode for every cell the write touched
+      if (!state.unlocked) {
+        const first = offset >> 1
+        const last = Math.min((offset + size - 1) >> 1, state.keymap.length - 1)
+        for (let cell = first; cell <= last; cell++) {
+          if (isBootKeycode(state.keymap[cell], state.profile.vialProtocol)) state.keymap[cell] = 0
+        }
+      }
+      break
+    }
+
     case CMD_VIA_MACRO_SET_BUFFER: {
       const offset = readBE16(req, 1)
       const size = Math.min(req[3], BUFFER_FETCH_CHUNK)
@@ -129,17 +206,34 @@ export function handleViaReport(state: VirtualDeviceState, req: Uint8Array): Uin
     }
 
     case CMD_VIA_LIGHTING_GET_VALUE: {
-      getLightingValue(state, req, resp)
+      if (req[1] < VIA_CHANNEL_COUNT) {
+        // Values never written read back as zero, like a fresh EEPROM.
+        const stored = state.customValues.get(customValueKey(req))
+        resp.fill(0, 3)
+        if (stored) resp.set(stored, 3)
+      } else if (state.profile.lighting === 'vialrgb') {
+        getLightingValue(state, req, resp)
+      } else if (state.profile.lighting) {
+        getLegacyLightingValue(state, req, resp)
+      }
       break
     }
 
     case CMD_VIA_LIGHTING_SET_VALUE: {
-      setLightingValue(state, req)
+      if (req[1] < VIA_CHANNEL_COUNT) {
+        // The value width is only known to the definition, so keep the
+        // whole payload; reads slice what they need.
+        state.customValues.set(customValueKey(req), req.slice(3))
+      } else if (state.profile.lighting === 'vialrgb') {
+        setLightingValue(state, req)
+      } else if (state.profile.lighting) {
+        setLegacyLightingValue(state, req)
+      }
       break
     }
 
     case CMD_VIA_LIGHTING_SAVE: {
-      // No persistent EEPROM to flush — ack only.
+      // No persistent EEPROM to flush (lighting or custom channel) — ack only.
       break
     }
 
@@ -9,6 +9,8 @@ import {
   CMD_VIAL_GET_KEYBOARD_ID,
   CMD_VIAL_GET_SIZE,
   CMD_VIAL_GET_DEFINITION,
+  CMD_VIAL_GET_ENCODER,
+  CMD_VIAL_SET_ENCODER,
   CMD_VIAL_GET_UNLOCK_STATUS,
   CMD_VIAL_UNLOCK_START,
   CMD_VIAL_UNLOCK_POLL,
@@ -29,16 +31,11 @@ import {
   DYNAMIC_VIAL_ALT_REPEAT_KEY_SET,
 } from '../../shared/constants/protocol'
 import type { TapDanceEntry, ComboEntry, KeyOverrideEntry, AltRepeatKeyEntry } from '../../shared/types/protocol'
-import { readLE16, readLE32, writeLE32 } from './byte-utils'
-import { VIAL_PROTOCOL, VIRTUAL_DEVICE_UID_BYTES, VIRTUAL_DEVICE_UNLOCK_COMBO, isBootKeycode } from './gpk60-63r'
+import { readBE16, writeBE16, readLE16, readLE32, writeLE32 } from './byte-utils'
+import { isBootKeycode } from './gpk60-63r'
 import type { VirtualDeviceState } from './state'
-import { unlockPollTick } from './state'
+import { encoderIndex, isValidEncoderPosition, unlockPollTick } from './state'
 import {
-  TAP_DANCE_ENTRY_COUNT,
-  COMBO_ENTRY_COUNT,
-  KEY_OVERRIDE_ENTRY_COUNT,
-  ALT_REPEAT_KEY_ENTRY_COUNT,
-  DYNAMIC_ENTRY_FEATURE_FLAGS,
   getTapDance,
   setTapDance,
   getCombo,
@@ -63,11 +60,11 @@ import { qmkSettingsQuery, qmkSettingsGet, qmkSettingsSet, resetQmkSettings } fr
 const VIALRGB_FLAG = 1
 const UNLOCK_COMBO_SLOTS = 15
 
-function handleKeyboardId(): Uint8Array {
+function handleKeyboardId(state: VirtualDeviceState): Uint8Array {
   const resp = new Uint8Array(MSG_LEN)
-  writeLE32(resp, 0, VIAL_PROTOCOL)
-  resp.set(VIRTUAL_DEVICE_UID_BYTES, 4)
-  resp[12] = VIALRGB_FLAG
+  writeLE32(resp, 0, state.profile.vialProtocol)
+  resp.set(state.profile.uid, 4)
+  if (state.profile.lighting === 'vialrgb') resp[12] = VIALRGB_FLAG
   return resp
 }
 
@@ -93,7 +90,7 @@ function handleUnlockStatus(state: VirtualDeviceState): Uint8Array {
   resp[0] = state.unlocked ? 1 : 0
   resp[1] = state.unlockInProgress ? 1 : 0
   for (let i = 0; i < UNLOCK_COMBO_SLOTS; i++) {
-    const pair = VIRTUAL_DEVICE_UNLOCK_COMBO[i]
+    const pair = state.profile.unlockCombo[i]
     if (pair) {
       resp[2 + i * 2] = pair[0]
       resp[3 + i * 2] = pair[1]
@@ -114,19 +111,41 @@ function handleUnlockPoll(state: VirtualDeviceState, now: number): Uint8Array {
 
 /** Replaces a QK_BOOT keycode with KC_NO while locked — vial_keycode_firewall()'s behavior. */
 function gateBootKeycode(state: VirtualDeviceState, keycode: number): number {
-  return !state.unlocked && isBootKeycode(keycode) ? 0 : keycode
+  return !state.unlocked && isBootKeycode(keycode, state.profile.vialProtocol) ? 0 : keycode
 }
 
-function handleGetNumberOfEntries(): Uint8Array {
+function handleGetNumberOfEntries(state: VirtualDeviceState): Uint8Array {
+  const { entryCounts, featureFlags } = state.profile
   const resp = new Uint8Array(MSG_LEN)
-  resp[0] = TAP_DANCE_ENTRY_COUNT
-  resp[1] = COMBO_ENTRY_COUNT
-  resp[2] = KEY_OVERRIDE_ENTRY_COUNT
-  resp[3] = ALT_REPEAT_KEY_ENTRY_COUNT
-  resp[MSG_LEN - 1] = DYNAMIC_ENTRY_FEATURE_FLAGS
+  resp[0] = entryCounts.tapDance
+  resp[1] = entryCounts.combo
+  resp[2] = entryCounts.keyOverride
+  resp[3] = entryCounts.altRepeatKey
+  resp[MSG_LEN - 1] = featureFlags
   return resp
 }
 
+/** vial_get_encoder: CCW keycode at bytes 0-1, CW at 2-3, both BE16; the rest stays echoed. */
+function handleGetEncoder(state: VirtualDeviceState, req: Uint8Array): Uint8Array {
+  const resp = new Uint8Array(req)
+  const [layer, encoder] = [req[2], req[3]]
+  for (const direction of [0, 1]) {
+    const keycode = isValidEncoderPosition(state.profile, layer, encoder, direction)
+      ? state.encoders[encoderIndex(state.profile, layer, encoder, direction)]
+      : 0
+    writeBE16(resp, direction * 2, keycode)
+  }
+  return resp
+}
+
+function handleSetEncoder(state: VirtualDeviceState, req: Uint8Array): Uint8Array {
+  const [layer, encoder, direction] = [req[2], req[3], req[4]]
+  if (isValidEncoderPosition(state.profile, layer, encoder, direction)) {
+    state.encoders[encoderIndex(state.profile, layer, encoder, direction)] = gateBootKeycode(state, readBE16(req, 5))
+  }
+  return new Uint8Array(req)
+}
+
 /**
  * Shared shape of every dynamic-entry GET: echo the request, look the entry
  * up by req[3], put the status byte at offset 0 and the wire entry at offset 1.
@@ -191,7 +210,7 @@ function handleAltRepeatKeySet(state: VirtualDeviceState, req: Uint8Array): Uint
 function handleDynamicEntryOp(state: VirtualDeviceState, req: Uint8Array): Uint8Array {
   switch (req[2]) {
     case DYNAMIC_VIAL_GET_NUMBER_OF_ENTRIES:
-      return handleGetNumberOfEntries()
+      return handleGetNumberOfEntries(state)
     case DYNAMIC_VIAL_TAP_DANCE_GET:
       return handleEntryGet(req, state.tapDanceEntries, getTapDance, writeTapDanceEntry)
     case DYNAMIC_VIAL_TAP_DANCE_SET:
@@ -245,7 +264,7 @@ export function handleVialReport(
 
   switch (sub) {
     case CMD_VIAL_GET_KEYBOARD_ID:
-      return handleKeyboardId()
+      return handleKeyboardId(state)
 
     case CMD_VIAL_GET_SIZE:
       return handleDefinitionSize(compressedDefinition.length)
@@ -253,6 +272,14 @@ export function handleVialReport(
     case CMD_VIAL_GET_DEFINITION:
       return handleDefinitionBlock(req, compressedDefinition)
 
+    case CMD_VIAL_GET_ENCODER:
+      if (state.profile.encoderCount === 0) return new Uint8Array(req)
+      return handleGetEncoder(state, req)
+
+    case CMD_VIAL_SET_ENCODER:
+      if (state.profile.encoderCount === 0) return new Uint8Array(req)
+      return handleSetEncoder(state, req)
+
     case CMD_VIAL_GET_UNLOCK_STATUS:
       return handleUnlockStatus(state)
 
@@ -287,7 +314,7 @@ export function handleVialReport(
       return handleDynamicEntryOp(state, req)
 
     default:
-      // Encoders (0x03/0x04): unsupported, echo.
+      // Unrecognized sub-command: unsupported, echo.
       return new Uint8Array(req)
   }
 }
@@ -2,9 +2,19 @@
 // VialRGB lighting sub-commands, reached through CMD_VIA_LIGHTING_GET_VALUE /
 // CMD_VIA_LIGHTING_SET_VALUE (byte1 selects the VialRGB sub-command).
 
-import { MSG_LEN, VIALRGB_GET_INFO, VIALRGB_GET_MODE, VIALRGB_GET_SUPPORTED, VIALRGB_SET_MODE } from '../../shared/constants/protocol'
+import {
+  MSG_LEN,
+  VIALRGB_GET_INFO,
+  VIALRGB_GET_MODE,
+  VIALRGB_GET_SUPPORTED,
+  VIALRGB_GET_NUMBER_LEDS,
+  VIALRGB_GET_LED_INFO,
+  VIALRGB_SET_MODE,
+  VIALRGB_DIRECT_FASTSET,
+  VIALRGB_DIRECT_FASTSET_MAX_LEDS,
+  VIALRGB_NO_MATRIX_POSITION,
+} from '../../shared/constants/protocol'
 import { readLE16, writeLE16 } from './byte-utils'
-import { VIALRGB_SUPPORTED_EFFECTS } from './gpk60-63r'
 import type { VirtualDeviceState } from './state'
 
 const VIALRGB_PROTOCOL_VERSION = 1
@@ -35,7 +45,7 @@ export function getLightingValue(state: VirtualDeviceState, req: Uint8Array, res
     case VIALRGB_GET_SUPPORTED: {
       const greaterThan = readLE16(req, 2)
       resp.fill(0xff, 2, MSG_LEN)
-      const candidates = VIALRGB_SUPPORTED_EFFECTS.filter((effect) => effect > greaterThan)
+      const candidates = state.profile.vialRGBEffects.filter((effect) => effect > greaterThan)
       const count = Math.min(candidates.length, SUPPORTED_ENTRIES_PER_PAGE)
       for (let i = 0; i < count; i++) {
         writeLE16(resp, 2 + i * 2, candidates[i])
@@ -43,6 +53,23 @@ export function getLightingValue(state: VirtualDeviceState, req: Uint8Array, res
       break
     }
 
+    case VIALRGB_GET_NUMBER_LEDS: {
+      writeLE16(resp, 2, state.profile.leds.length)
+      break
+    }
+
+    case VIALRGB_GET_LED_INFO: {
+      const led = state.profile.leds[readLE16(req, 2)]
+      // Out-of-range index: firmware leaves the response untouched
+      if (!led) break
+      resp[2] = led.x
+      resp[3] = led.y
+      resp[4] = led.flags
+      resp[5] = led.row < state.profile.rows ? led.row : VIALRGB_NO_MATRIX_POSITION
+      resp[6] = led.col < state.profile.cols ? led.col : VIALRGB_NO_MATRIX_POSITION
+      break
+    }
+
     default:
       // Unhandled lighting sub-command: leave the echoed request bytes as-is.
       break
@@ -51,8 +78,22 @@ export function getLightingValue(state: VirtualDeviceState, req: Uint8Array, res
   return resp
 }
 
+/** Store a Direct Control fastset: LE16 first LED, count, then HSV triples. */
+function directFastset(state: VirtualDeviceState, req: Uint8Array): void {
+  const first = readLE16(req, 2)
+  const ledCount = state.profile.leds.length
+  const count = Math.min(req[4], VIALRGB_DIRECT_FASTSET_MAX_LEDS, Math.max(ledCount - first, 0))
+  for (let i = 0; i < count; i++) {
+    state.directColors.set(req.subarray(5 + i * 3, 8 + i * 3), (first + i) * 3)
+  }
+}
+
 /** Handle CMD_VIA_LIGHTING_SET_VALUE sub-commands (mutates state; caller returns the echo response). */
 export function setLightingValue(state: VirtualDeviceState, req: Uint8Array): void {
+  if (req[1] === VIALRGB_DIRECT_FASTSET) {
+    directFastset(state, req)
+    return
+  }
   if (req[1] !== VIALRGB_SET_MODE) return
 
   state.rgb.mode = readLE16(req, 2)
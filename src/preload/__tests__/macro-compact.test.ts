@@ -0,0 +1,129 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import {
+  compactMacro,
+  compactMacros,
+  macroBufferUsage,
+  serializeMacroBuffer,
+} from '../macro-compact'
+import { deserializeAllMacros, serializeAllMacros, type MacroAction } from '../macro'
+import { VIAL_PROTOCOL_ADVANCED_MACROS } from '../../shared/constants/protocol'
+
+const V1 = VIAL_PROTOCOL_ADVANCED_MACROS - 1
+const V2 = VIAL_PROTOCOL_ADVANCED_MACROS
+
+const KC_A = 0x04
+const KC_B = 0x05
+const KC_C = 0x06
+const KC_1 = 0x1e
+const KC_ENTER = 0x28
+const KC_SPACE = 0x2c
+const KC_LCTRL = 0xe0
+const KC_LSHIFT = 0xe1
+const KC_RSHIFT = 0xe5
+const LSFT_A = 0x0204
+
+describe('compactMacro', () => {
+  it('turns taps of text keys into text runs', () => {
+    expect(compactMacro([
+      { type: 'text', text: 'hi' },
+      { type: 'tap', keycodes: [KC_SPACE, KC_A, KC_1, KC_ENTER, KC_B] },
+      { type: 'text', text: '!' },
+    ], V2)).toEqual([
+      { type: 'text', text: 'hi a1' },
+      { type: 'tap', keycodes: [KC_ENTER] },
+      { type: 'text', text: 'b!' },
+    ])
+  })
+
+  it('turns Shift-held runs and shifted keycodes into upper-case text', () => {
+    expect(compactMacro([
+      { type: 'down', keycodes: [KC_LSHIFT] },
+      { type: 'tap', keycodes: [KC_A, KC_1] },
+      { type: 'up', keycodes: [KC_LSHIFT] },
+      { type: 'tap', keycodes: [LSFT_A] },
+    ], V2)).toEqual([{ type: 'text', text: 'A!A' }])
+    // v1 writes LSFT(KC_A) as KC_A, so it must stay a tap
+    expect(compactMacro([{ type: 'tap', keycodes: [LSFT_A] }], V1)).toEqual([{ type: 'tap', keycodes: [LSFT_A] }])
+  })
+
+  it('keeps taps under other held keys and Shift runs with non-text keys', () => {
+    const chord: MacroAction[] = [
+      { type: 'down', keycodes: [KC_LCTRL] },
+      { type: 'tap', keycodes: [KC_C] },
+      { type: 'up', keycodes: [KC_LCTRL] },
+    ]
+    expect(compactMacro(chord, V2)).toEqual(chord)
+    const shiftEnter: MacroAction[] = [
+      { type: 'down', keycodes: [KC_RSHIFT] },
+      { type: 'tap', keycodes: [KC_A, KC_ENTER] },
+      { type: 'up', keycodes: [KC_RSHIFT] },
+    ]
+    expect(compactMacro(shiftEnter, V2)).toEqual(shiftEnter)
+  })
+
+  it('collapses a down straight followed by its up into a tap', () => {
+    expect(compactMacro([
+      { type: 'down', keycodes: [KC_LCTRL, KC_ENTER] },
+      { type: 'up', keycodes: [KC_ENTER] },
+      { type: 'down', keycodes: [KC_A] },
+      { type: 'up', keycodes: [KC_A, KC_LCTRL] },
+    ], V2)).toEqual([
+      { type: 'down', keycodes: [KC_LCTRL] },
+      { type: 'tap', keycodes: [KC_ENTER, KC_A] },
+      { type: 'up', keycodes: [KC_LCTRL] },
+    ])
+  })
+
+  it('drops zero delays and keeps unicode actions', () => {
+    expect(compactMacro([
+      { type: 'delay', delay: 0 },
+      { type: 'unicode', text: 'é', method: 'linux' },
+      { type: 'delay', delay: 20 },
+      { type: 'tap', keycodes: [KC_A] },
+    ], V2)).toEqual([
+      { type: 'unicode', text: 'é', method: 'linux' },
+      { type: 'delay', delay: 20 },
+      { type: 'text', text: 'a' },
+    ])
+  })
+
+  it('never grows a macro and round-trips through the device format', () => {
+    const actions: MacroAction[] = [
+      { type: 'tap', keycodes: [KC_A, KC_ENTER] },
+      { type: 'down', keycodes: [KC_LSHIFT] },
+      { type: 'tap', keycodes: [KC_B] },
+      { type: 'up', keycodes: [KC_LSHIFT] },
+    ]
+    for (const protocol of [V1, V2]) {
+      const compacted = compactMacro(actions, protocol)
+      const bytes = serializeAllMacros([compacted], protocol)
+      expect(bytes.length).toBeLessThan(serializeAllMacros([actions], protocol).length)
+      expect(deserializeAllMacros(bytes, protocol, 1)).toEqual([compacted])
+    }
+  })
+})
+
+describe('macro buffer usage', () => {
+  const macros: MacroAction[][] = [[{ type: 'text', text: 'ab' }], [], [{ type: 'tap', keycodes: [KC_A] }], [], []]
+
+  it('counts bytes per macro and leaves trailing empty macros out when trimming', () => {
+    expect(macroBufferUsage(macros, V2)).toEqual({ perMacro: [3, 1, 4, 1, 1], total: 10 })
+    expect(macroBufferUsage(macros, V2, true)).toEqual({ perMacro: [3, 1, 4, 0, 0], total: 8 })
+  })
+
+  it('zero-fills the buffer after trimmed macros', () => {
+    expect(serializeMacroBuffer(macros, V2, 12)).toEqual(serializeAllMacros(macros, V2))
+    const trimmed = serializeMacroBuffer(macros, V2, 12, true)
+    expect(trimmed).toHaveLength(12)
+    expect(deserializeAllMacros(trimmed, V2, 5)).toEqual(macros)
+  })
+
+  it('reports the before/after diff of compacting', () => {
+    const result = compactMacros(macros, V2)
+    expect(result.macros[2]).toEqual([{ type: 'text', text: 'a' }])
+    expect(result.before.total).toBe(10)
+    expect(result.after).toEqual({ perMacro: [3, 1, 2, 0, 0], total: 6 })
+  })
+})
@@ -0,0 +1,169 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import {
+  macroActionsToScript,
+  parseMacroScript,
+  tokenizeMacroScript,
+  MACRO_SCRIPT_MAX_DELAY,
+  type MacroScriptParseResult,
+} from '../macro-script'
+import { serializeMacro, deserializeMacro, type MacroAction } from '../macro'
+import { VIAL_PROTOCOL_ADVANCED_MACROS } from '../../shared/constants/protocol'
+
+const V1 = VIAL_PROTOCOL_ADVANCED_MACROS - 1
+const V2 = VIAL_PROTOCOL_ADVANCED_MACROS
+
+const KC_A = 0x04
+const KC_C = 0x06
+const KC_ENTER = 0x28
+const KC_LCTRL = 0xe0
+const KC_LSHIFT = 0xe1
+const LSFT_A = 0x0204
+
+function actionsOf(result: MacroScriptParseResult): MacroAction[] {
+  if (!result.ok) throw new Error(`unexpected error: ${JSON.stringify(result.error)}`)
+  return result.actions
+}
+
+function errorOf(result: MacroScriptParseResult) {
+  if (result.ok) throw new Error('expected a parse error')
+  return result.error
+}
+
+describe('parseMacroScript', () => {
+  it('parses the documented example', () => {
+    const actions = actionsOf(parseMacroScript('"hello" {LCTL+C} {delay 120} {down LSFT} a {up LSFT}', V2))
+    expect(actions).toEqual([
+      { type: 'text', text: 'hello' },
+      { type: 'down', keycodes: [KC_LCTRL] },
+      { type: 'tap', keycodes: [KC_C] },
+      { type: 'up', keycodes: [KC_LCTRL] },
+      { type: 'delay', delay: 120 },
+      { type: 'down', keycodes: [KC_LSHIFT] },
+      { type: 'tap', keycodes: [KC_A] },
+      { type: 'up', keycodes: [KC_LSHIFT] },
+    ])
+  })
+
+  it('accepts full qmkIds, optional KC_ prefixes and masked keycodes', () => {
+    const actions = actionsOf(parseMacroScript('KC_ENTER enter ENT LSFT(KC_A) {tap KC_A c}', V2))
+    expect(actions).toEqual([{ type: 'tap', keycodes: [KC_ENTER, KC_ENTER, KC_ENTER, LSFT_A, KC_A, KC_C] }])
+  })
+
+  it('releases chord modifiers in reverse order', () => {
+    const actions = actionsOf(parseMacroScript('{LCTL+LSFT+a}', V2))
+    expect(actions).toEqual([
+      { type: 'down', keycodes: [KC_LCTRL, KC_LSHIFT] },
+      { type: 'tap', keycodes: [KC_A] },
+      { type: 'up', keycodes: [KC_LSHIFT, KC_LCTRL] },
+    ])
+  })
+
+  it('handles escapes, comments and line breaks', () => {
+    const actions = actionsOf(parseMacroScript('"say \\"hi\\" \\\\o/" # greet\n{up}', V2))
+    expect(actions).toEqual([
+      { type: 'text', text: 'say "hi" \\o/' },
+      { type: 'tap', keycodes: [0x52] },
+    ])
+  })
+
+  it('parses u"..." as a unicode action with the given input method', () => {
+    const actions = actionsOf(parseMacroScript('u"Café \\"ok\\"" u x', V1, 'macos'))
+    expect(actions).toEqual([
+      { type: 'unicode', text: 'Café "ok"', method: 'macos' },
+      { type: 'tap', keycodes: [0x18, 0x1b] },
+    ])
+    expect(macroActionsToScript(actions)).toBe('u"Café \\"ok\\"" u x')
+  })
+
+  it.each([
+    ['a "abc', 'unterminatedText', 1, 3],
+    ['"héllo"', 'invalidText', 1, 1],
+    ['a\n  bogus_key', 'unknownKeycode', 2, 3],
+    ['{LCTL+a', 'unclosedGroup', 1, 1],
+    ['a }', 'unexpectedBrace', 1, 3],
+    ['a + b', 'unexpectedPlus', 1, 3],
+    ['{a+}', 'unexpectedPlus', 1, 3],
+    ['{a b}', 'expectedPlus', 1, 4],
+    ['{ }', 'emptyGroup', 1, 1],
+    ['{delay soon}', 'invalidDelay', 1, 8],
+    [`{delay ${MACRO_SCRIPT_MAX_DELAY + 1}}`, 'invalidDelay', 1, 8],
+  ] as const)('reports %j as %s at %i:%i', (script, code, line, column) => {
+    expect(errorOf(parseMacroScript(script, V2))).toMatchObject({ code, line, column })
+  })
+
+  it('rejects delays and 2-byte keycodes on v1', () => {
+    expect(errorOf(parseMacroScript('a {delay 10}', V1))).toMatchObject({ code: 'delayUnsupported', line: 1, column: 4 })
+    expect(errorOf(parseMacroScript('LSFT(KC_A)', V1))).toMatchObject({ code: 'keycodeUnsupported', token: 'LSFT(KC_A)' })
+  })
+})
+
+describe('macroActionsToScript', () => {
+  it('writes short key names, chords and explicit actions', () => {
+    expect(macroActionsToScript([
+      { type: 'text', text: 'a "quote"' },
+      { type: 'tap', keycodes: [KC_A, KC_ENTER] },
+      { type: 'down', keycodes: [KC_LCTRL] },
+      { type: 'tap', keycodes: [KC_C] },
+      { type: 'up', keycodes: [KC_LCTRL] },
+      { type: 'down', keycodes: [KC_LSHIFT] },
+      { type: 'delay', delay: 50 },
+      { type: 'up', keycodes: [KC_LSHIFT] },
+    ])).toBe('"a \\"quote\\"" a ENT {LCTL+c} {down LSFT} {delay 50} {up LSFT}')
+  })
+})
+
+describe('round trip', () => {
+  const v2Actions: MacroAction[] = [
+    { type: 'text', text: 'Hello, {world} #1 "x" \\' },
+    { type: 'tap', keycodes: [KC_A, LSFT_A, 0x7e00] },
+    { type: 'down', keycodes: [KC_LCTRL, KC_LSHIFT] },
+    { type: 'tap', keycodes: [KC_C] },
+    { type: 'up', keycodes: [KC_LSHIFT, KC_LCTRL] },
+    { type: 'delay', delay: 300 },
+    { type: 'down', keycodes: [KC_LSHIFT] },
+    { type: 'tap', keycodes: [KC_A] },
+    { type: 'tap', keycodes: [KC_C] },
+    { type: 'up', keycodes: [KC_LCTRL] },
+    { type: 'up', keycodes: [] },
+  ]
+
+  it('preserves the v2 byte encoding', () => {
+    const bytes = serializeMacro(v2Actions, V2)
+    const script = macroActionsToScript(deserializeMacro(bytes, V2))
+    expect(serializeMacro(actionsOf(parseMacroScript(script, V2)), V2)).toEqual(bytes)
+  })
+
+  it('preserves the v1 byte encoding', () => {
+    const v1Actions = v2Actions.filter((a) => a.type !== 'delay' && !(a.type === 'tap' && a.keycodes.some((kc) => kc > 0xff)))
+    const bytes = serializeMacro(v1Actions, V1)
+    const script = macroActionsToScript(deserializeMacro(bytes, V1))
+    expect(serializeMacro(actionsOf(parseMacroScript(script, V1)), V1)).toEqual(bytes)
+  })
+
+  it('keeps line breaks in unicode text as \\n escapes', () => {
+    const actions: MacroAction[] = [{ type: 'unicode', text: 'Grüße\nà bientôt \\n', method: 'linux' }]
+    const script = macroActionsToScript(actions)
+    expect(script).toBe('u"Grüße\\nà bientôt \\\\n"')
+    expect(actionsOf(parseMacroScript(script, V2, 'linux'))).toEqual(actions)
+  })
+})
+
+describe('tokenizeMacroScript', () => {
+  it('covers every character with highlight kinds', () => {
+    const script = '"hi" {delay 5} {up} {down LSFT} x+ # note\n"open'
+    const tokens = tokenizeMacroScript(script)
+    expect(tokens.map((t) => t.value).join('')).toBe(script)
+    expect(tokens.filter((t) => t.kind !== 'space').map((t) => [t.kind, t.value])).toEqual([
+      ['text', '"hi"'],
+      ['brace', '{'], ['command', 'delay'], ['number', '5'], ['brace', '}'],
+      ['brace', '{'], ['key', 'up'], ['brace', '}'],
+      ['brace', '{'], ['command', 'down'], ['key', 'LSFT'], ['brace', '}'],
+      ['key', 'x'], ['plus', '+'],
+      ['comment', '# note'],
+      ['invalid', '"open'],
+    ])
+    expect(tokens[tokens.length - 1]).toMatchObject({ line: 2, column: 1 })
+  })
+})
@@ -0,0 +1,139 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import { expandUnicodeText, type HostLayoutMap } from '../macro-unicode'
+import { serializeMacro, expandMacroActions, type MacroAction } from '../macro'
+import { VIAL_PROTOCOL_ADVANCED_MACROS } from '../../shared/constants/protocol'
+
+const V1 = VIAL_PROTOCOL_ADVANCED_MACROS - 1
+
+const KC_A = 0x04
+const KC_C = 0x06
+const KC_D = 0x07
+const KC_E = 0x08
+const KC_F = 0x09
+const KC_H = 0x0b
+const KC_I = 0x0c
+const KC_Q = 0x14
+const KC_U = 0x18
+const KC_1 = 0x1e
+const KC_2 = 0x1f
+const KC_3 = 0x20
+const KC_8 = 0x25
+const KC_9 = 0x26
+const KC_0 = 0x27
+const KC_ENTER = 0x28
+const KC_SPACE = 0x2c
+const KC_KP_PLUS = 0x57
+const KC_KP_9 = 0x61
+const KC_KP_0 = 0x62
+const KC_LCTRL = 0xe0
+const KC_LSHIFT = 0xe1
+const KC_LALT = 0xe2
+const KC_RALT = 0xe6
+
+// A French-style host layout: A and Q swapped, digits on Shift, é and € typed directly
+const AZERTY: HostLayoutMap = {
+  KC_Q: 'A',
+  KC_A: 'Q',
+  KC_1: '1\n&',
+  KC_2: '2\né',
+  KC_E: 'E    €',
+}
+
+const IBUS_PREFIX: MacroAction[] = [
+  { type: 'down', keycodes: [KC_LCTRL, KC_LSHIFT] },
+  { type: 'tap', keycodes: [KC_U] },
+  { type: 'up', keycodes: [KC_LSHIFT, KC_LCTRL] },
+]
+
+describe('expandUnicodeText', () => {
+  it('types characters the host layout has directly, holding Shift across runs', () => {
+    expect(expandUnicodeText('HIi!', 'linux')).toEqual([
+      { type: 'down', keycodes: [KC_LSHIFT] },
+      { type: 'tap', keycodes: [KC_H, KC_I] },
+      { type: 'up', keycodes: [KC_LSHIFT] },
+      { type: 'tap', keycodes: [KC_I] },
+      { type: 'down', keycodes: [KC_LSHIFT] },
+      { type: 'tap', keycodes: [KC_1] },
+      { type: 'up', keycodes: [KC_LSHIFT] },
+    ])
+  })
+
+  it('uses Ctrl+Shift+U hex Space on Linux', () => {
+    expect(expandUnicodeText('é', 'linux')).toEqual([
+      ...IBUS_PREFIX,
+      { type: 'tap', keycodes: [KC_0, KC_0, KC_E, KC_9, KC_SPACE] },
+    ])
+  })
+
+  it('uses Right Alt, U, hex and Enter with WinCompose', () => {
+    expect(expandUnicodeText('é', 'wincompose')).toEqual([
+      { type: 'tap', keycodes: [KC_RALT, KC_U, KC_0, KC_0, KC_E, KC_9, KC_ENTER] },
+    ])
+  })
+
+  it('types hex digits on the keypad for Windows Alt codes', () => {
+    expect(expandUnicodeText('é', 'windows')).toEqual([
+      { type: 'down', keycodes: [KC_LALT] },
+      { type: 'tap', keycodes: [KC_KP_PLUS, KC_KP_0, KC_KP_0, KC_E, KC_KP_9] },
+      { type: 'up', keycodes: [KC_LALT] },
+    ])
+  })
+
+  it('holds Option over UTF-16 units on macOS', () => {
+    expect(expandUnicodeText('😀', 'macos')).toEqual([
+      { type: 'down', keycodes: [KC_LALT] },
+      { type: 'tap', keycodes: [KC_D, KC_8, KC_3, KC_D, KC_D, KC_E, KC_0, KC_0] },
+      { type: 'up', keycodes: [KC_LALT] },
+    ])
+  })
+
+  it('follows the host layout for direct characters and hex digits', () => {
+    expect(expandUnicodeText('aé€', 'linux', AZERTY)).toEqual([
+      { type: 'tap', keycodes: [KC_Q, KC_2] },
+      { type: 'down', keycodes: [KC_RALT] },
+      { type: 'tap', keycodes: [KC_E] },
+      { type: 'up', keycodes: [KC_RALT] },
+    ])
+    // ñ = U+00F1; the 1 needs Shift on this layout
+    expect(expandUnicodeText('ñ', 'linux', AZERTY)).toEqual([
+      ...IBUS_PREFIX,
+      { type: 'tap', keycodes: [KC_0, KC_0, KC_F] },
+      { type: 'down', keycodes: [KC_LSHIFT] },
+      { type: 'tap', keycodes: [KC_1] },
+      { type: 'up', keycodes: [KC_LSHIFT] },
+      { type: 'tap', keycodes: [KC_SPACE] },
+    ])
+  })
+
+  it('keeps macOS hex input on QWERTY regardless of the host layout', () => {
+    expect(expandUnicodeText('ₐ', 'macos', AZERTY)).toEqual([
+      { type: 'down', keycodes: [KC_LALT] },
+      { type: 'tap', keycodes: [KC_2, KC_0, KC_9, KC_0] },
+      { type: 'up', keycodes: [KC_LALT] },
+    ])
+  })
+})
+
+describe('unicode action serialization', () => {
+  const action: MacroAction = { type: 'unicode', text: 'né', method: 'linux' }
+
+  it('serializes the expansion with basic keycodes, even on v1', () => {
+    expect(serializeMacro([action], V1)).toEqual(serializeMacro(expandUnicodeText('né', 'linux'), V1))
+    expect(expandMacroActions([{ type: 'tap', keycodes: [KC_C] }, action])).toEqual([
+      { type: 'tap', keycodes: [KC_C] },
+      ...expandUnicodeText('né', 'linux'),
+    ])
+  })
+
+  it('types through the host layout it is given', () => {
+    const macro: MacroAction[] = [{ type: 'unicode', text: 'aé', method: 'linux' }]
+    const qwerty = serializeMacro(macro, V1)
+    const azerty = serializeMacro(macro, V1, AZERTY)
+    expect(azerty).toEqual(serializeMacro(expandUnicodeText('aé', 'linux', AZERTY), V1))
+    expect(azerty).not.toEqual(qwerty)
+    expect(expandMacroActions(macro, AZERTY)).toEqual(expandUnicodeText('aé', 'linux', AZERTY))
+    expect(expandUnicodeText('a', 'linux')).toEqual([{ type: 'tap', keycodes: [KC_A] }])
+  })
+})
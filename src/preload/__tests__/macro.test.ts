@@ -786,6 +786,18 @@ describe('macro', () => {
     it('returns null for non-array item in top-level list', () => {
       expect(jsonToMacroActions('[["text","x"],"oops"]')).toBeNull()
     })
+
+    it('round-trips unicode actions with their input method', () => {
+      const actions: MacroAction[] = [{ type: 'unicode', text: 'Café — 日本', method: 'wincompose' }]
+      expect(JSON.parse(macroActionsToJson(actions))).toEqual([['unicode', 'Café — 日本', 'wincompose']])
+      expect(jsonToMacroActions(macroActionsToJson(actions))).toEqual(actions)
+    })
+
+    it('defaults the unicode input method and rejects unknown ones', () => {
+      expect(jsonToMacroActions('[["unicode","é"]]')).toEqual([{ type: 'unicode', text: 'é', method: 'linux' }])
+      expect(jsonToMacroActions('[["unicode","é","beos"]]')).toBeNull()
+      expect(jsonToMacroActions('[["unicode",1]]')).toBeNull()
+    })
   })
 
   describe('macroActionsToJson (down/up)', () => {
@@ -44,6 +44,8 @@ import {
   getVialRGBInfo,
   getVialRGBMode,
   getVialRGBSupported,
+  getVialRGBLeds,
+  setVialRGBDirect,
 } from '../protocol'
 import { openVirtualDevice, closeVirtualDevice, getVirtualDeviceController } from '../../main/virtual-device'
 import {
@@ -190,6 +192,19 @@ describe('preload protocol against the virtual device emulator', () => {
     expect(supported.size).toBe(VIALRGB_SUPPORTED_EFFECTS.length)
   })
 
+  it('getVialRGBLeds/setVialRGBDirect read the LED map and fill Direct Control across packets', async () => {
+    const leds = await getVialRGBLeds()
+    expect(leds.length).toBeGreaterThan(20)
+    expect(leds[0]).toMatchObject({ flags: 4, row: expect.any(Number), col: expect.any(Number) })
+
+    // 20 LEDs need three fastset packets of at most 9
+    const colors = Array.from({ length: 20 }, (_, i): [number, number, number] => [i, 100, 200])
+    await setVialRGBDirect(1, colors)
+    const direct = getVirtualDeviceController().getDirectColors()
+    expect(direct.slice(0, 3)).toEqual([0, 0, 0])
+    expect(direct.slice(3, 63)).toEqual(colors.flat())
+  })
+
   it('unlocks via unlockStart + repeated unlockPoll while the combo is held', async () => {
     const controller = getVirtualDeviceController()
     controller.reset()
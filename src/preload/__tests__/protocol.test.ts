@@ -4,9 +4,10 @@ import { vi, describe, it, expect, beforeEach } from 'vitest'
 
 vi.mock('../hid-transport', () => ({
   sendReceive: vi.fn(),
+  send: vi.fn(),
 }))
 
-import { sendReceive } from '../hid-transport'
+import { sendReceive, send } from '../hid-transport'
 import type { Mock } from 'vitest'
 
 import {
@@ -23,7 +24,13 @@ import {
   getLightingValue,
   setLightingValue,
   saveLighting,
+  customGetValue,
+  customSetValue,
+  customSave,
   getMatrixState,
+  dynamicKeymapReset,
+  eepromReset,
+  jumpToBootloader,
   getKeyboardId,
   getDefinitionSize,
   getDefinitionRaw,
@@ -49,6 +56,7 @@ import {
 } from '../protocol'
 
 const mockSendReceive = sendReceive as Mock
+const mockSend = send as Mock
 
 // Helper: build a 32-byte response Uint8Array with specified bytes at the start
 function resp(...bytes: number[]): Uint8Array {
@@ -357,6 +365,50 @@ describe('VIA Protocol Commands', () => {
     })
   })
 
+  describe('customGetValue', () => {
+    it('sends [0x08, channel, valueId] and returns bytes after the id', async () => {
+      mockSendReceive.mockResolvedValueOnce(resp(0x08, 0x00, 0x03, 0x12, 0x34, 0x56))
+
+      const result = await customGetValue(0, [3], 2)
+
+      const pkt = sentPacket()
+      expect(Array.from(pkt.subarray(0, 4))).toEqual([0x08, 0x00, 0x03, 0x00])
+      expect(result).toEqual([0x12, 0x34])
+    })
+
+    it('offsets the payload past multi-byte value ids', async () => {
+      mockSendReceive.mockResolvedValueOnce(resp(0x08, 0x00, 0x01, 0x02, 0x7f))
+
+      const result = await customGetValue(0, [1, 2], 1)
+
+      expect(Array.from(sentPacket().subarray(0, 4))).toEqual([0x08, 0x00, 0x01, 0x02])
+      expect(result).toEqual([0x7f])
+    })
+  })
+
+  describe('customSetValue', () => {
+    it('sends [0x07, channel, valueId, ...data]', async () => {
+      mockSendReceive.mockResolvedValueOnce(resp())
+
+      await customSetValue(0, [5], [0x01, 0xf4])
+
+      expect(Array.from(sentPacket().subarray(0, 6))).toEqual([0x07, 0x00, 0x05, 0x01, 0xf4, 0x00])
+    })
+  })
+
+  describe('customSave', () => {
+    it('sends [0x09, channel]', async () => {
+      mockSendReceive.mockResolvedValueOnce(resp())
+
+      await customSave(2)
+
+      const pkt = sentPacket()
+      expect(pkt[0]).toBe(0x09)
+      expect(pkt[1]).toBe(0x02)
+      for (let i = 2; i < 32; i++) expect(pkt[i]).toBe(0)
+    })
+  })
+
   describe('getMatrixState', () => {
     it('sends [0x02, 0x03] and returns resp.subarray(2)', async () => {
       const response = resp(0x02, 0x03, 0xff, 0x00, 0xab)
@@ -373,6 +425,37 @@ describe('VIA Protocol Commands', () => {
       expect(state[2]).toBe(0xab)
     })
   })
+
+  describe('maintenance', () => {
+    it('dynamicKeymapReset sends [0x06]', async () => {
+      mockSendReceive.mockResolvedValueOnce(resp())
+
+      await dynamicKeymapReset()
+
+      const pkt = sentPacket()
+      expect(pkt[0]).toBe(0x06)
+      for (let i = 1; i < 32; i++) expect(pkt[i]).toBe(0)
+    })
+
+    it('eepromReset sends [0x0A]', async () => {
+      mockSendReceive.mockResolvedValueOnce(resp())
+
+      await eepromReset()
+
+      expect(sentPacket()[0]).toBe(0x0a)
+    })
+
+    it('jumpToBootloader sends [0x0B] without waiting for a response', async () => {
+      mockSend.mockResolvedValueOnce(undefined)
+
+      await jumpToBootloader()
+
+      expect(mockSendReceive).not.toHaveBeenCalled()
+      const pkt = mockSend.mock.calls[0][0] as Uint8Array
+      expect(pkt).toHaveLength(32)
+      expect(pkt[0]).toBe(0x0b)
+    })
+  })
 })
 
 // =====================================================================
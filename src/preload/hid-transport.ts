@@ -56,6 +56,34 @@ export async function send(data: Uint8Array): Promise<void> {
   await ipcRenderer.invoke(IpcChannels.HID_SEND, Array.from(data))
 }
 
+/**
+ * Open an additional keyboard alongside the primary one.
+ * Returns its session id, or null when the device is not available.
+ */
+export async function openHidSession(vendorId: number, productId: number, serialNumber?: string): Promise<string | null> {
+  return ipcRenderer.invoke(IpcChannels.HID_OPEN_SESSION, vendorId, productId, serialNumber)
+}
+
+export async function closeHidSession(sessionId: string): Promise<void> {
+  await ipcRenderer.invoke(IpcChannels.HID_CLOSE_SESSION, sessionId)
+}
+
+/** Packet I/O bound to one additional device session. */
+export function sessionTransport(sessionId: string): {
+  sendReceive: (data: Uint8Array) => Promise<Uint8Array>
+  send: (data: Uint8Array) => Promise<void>
+} {
+  return {
+    sendReceive: async (data) => {
+      const result: number[] = await ipcRenderer.invoke(IpcChannels.HID_SEND_RECEIVE, Array.from(data), sessionId)
+      return new Uint8Array(result)
+    },
+    send: async (data) => {
+      await ipcRenderer.invoke(IpcChannels.HID_SEND, Array.from(data), sessionId)
+    },
+  }
+}
+
 /**
  * Check if a device is currently open and physically present.
  * Queries main process to detect physical disconnection.
@@ -5,15 +5,22 @@ import {
   closeHidDevice,
   isDeviceOpen,
   probeDevice,
+  openHidSession,
+  closeHidSession,
+  sessionTransport,
 } from './hid-transport'
 import * as protocol from './protocol'
+import { createProtocol, type Protocol } from './protocol'
 import { IpcChannels } from '../shared/ipc/channels'
-import type { DeviceInfo, KeyboardDefinition, ProbeResult } from '../shared/types/protocol'
-import type { TrayStatus } from '../shared/types/vial-api'
+import type { DeviceInfo, HsvColor, KeyboardDefinition, ProbeResult, VialRGBLedInfo } from '../shared/types/protocol'
+import type { TrayStatus, DeviceSessionMethod } from '../shared/types/vial-api'
 import type { SnapshotMeta } from '../shared/types/snapshot-store'
+import type { FirmwareFileInfo, FirmwareFlashOptions, FirmwareFlashProgress, FirmwareFlashResult } from '../shared/types/firmware'
+import type { HidCaptureSaveResult, HidCaptureStatus } from '../shared/types/hid-capture'
 import type { AnalyzeFilterSnapshotMeta } from '../shared/types/analyze-filter-store'
 import type { RunKeystrokeLog, RunLogMeta } from '../shared/types/typing-run-log'
 import type { SavedFavoriteMeta, FavoriteImportResult } from '../shared/types/favorite-store'
+import type { QmkSettingsProfile } from '../shared/types/qmk-settings-profile'
 import type { KeyLabelMeta, KeyLabelRecord, KeyLabelStoreResult, KeyLabelImportBatchResult } from '../shared/types/key-label-store'
 import type { TypingTestTextMeta, TypingTestTextRecord, TypingTestTextStoreResult } from '../shared/types/typing-test-text-store'
 import type { HubKeyLabelItem, HubKeyLabelListResponse, HubKeyLabelListParams, HubKeyLabelTimestampsResponse } from '../shared/types/hub-key-label'
@@ -93,6 +100,75 @@ import type { NotificationFetchResult } from '../shared/types/notification'
  * Architecture: HID communication goes through IPC to main process (node-hid).
  * Protocol logic runs in preload; raw HID I/O runs in main.
  */
+/** Read and LZMA-decompress the keyboard definition through a protocol instance. */
+async function fetchDefinition(
+  p: Pick<Protocol, 'getDefinitionSize' | 'getDefinitionRaw'>,
+): Promise<KeyboardDefinition | null> {
+  try {
+    const size = await p.getDefinitionSize()
+    const raw = await p.getDefinitionRaw(size)
+    const input = Array.from(raw)
+    const result: string | null = await ipcRenderer.invoke(IpcChannels.LZMA_DECOMPRESS, input)
+    if (result === null) {
+      console.warn('LZMA decompression failed')
+      return null
+    }
+    try {
+      return JSON.parse(result) as KeyboardDefinition
+    } catch {
+      console.warn('Failed to parse definition JSON')
+      return null
+    }
+  } catch (err) {
+    console.warn('Failed to fetch definition:', err)
+    return null
+  }
+}
+
+type SessionMethodTable = Record<DeviceSessionMethod, (...args: never[]) => Promise<unknown>>
+
+/** Commands reachable through sessionCall, with the same IPC-safe shapes as the primary API. */
+function sessionMethods(p: Protocol): SessionMethodTable {
+  return {
+    getProtocolVersion: () => p.getProtocolVersion(),
+    getKeyboardId: () => p.getKeyboardId(),
+    getDefinition: () => fetchDefinition(p),
+    getLayerCount: () => p.getLayerCount(),
+    getLayoutOptions: () => p.getLayoutOptions(),
+    getKeymapBuffer: (offset: number, size: number) => p.getKeymapBuffer(offset, size),
+    setKeycode: (layer: number, row: number, col: number, keycode: number) =>
+      p.setKeycode(layer, row, col, keycode),
+    getEncoder: (layer: number, index: number) => p.getEncoder(layer, index),
+    setEncoder: (layer: number, index: number, direction: number, keycode: number) =>
+      p.setEncoder(layer, index, direction, keycode),
+    getMacroCount: () => p.getMacroCount(),
+    getMacroBufferSize: () => p.getMacroBufferSize(),
+    getMacroBuffer: (totalSize: number) => p.getMacroBuffer(totalSize),
+    setMacroBuffer: (data: number[]) => p.setMacroBuffer(data),
+    getLightingValue: (id: number) => p.getLightingValue(id),
+    getVialRGBInfo: () => p.getVialRGBInfo(),
+    getVialRGBMode: () => p.getVialRGBMode(),
+    getVialRGBSupported: () => p.getVialRGBSupported().then((s) => Array.from(s)),
+    getUnlockStatus: () => p.getUnlockStatus(),
+    unlockStart: () => p.unlockStart(),
+    unlockPoll: () => p.unlockPoll(),
+    getDynamicEntryCount: () => p.getDynamicEntryCount(),
+    getTapDance: (index: number) => p.getTapDance(index),
+    setTapDance: (index: number, entry: Parameters<Protocol['setTapDance']>[1]) => p.setTapDance(index, entry),
+    getCombo: (index: number) => p.getCombo(index),
+    setCombo: (index: number, entry: Parameters<Protocol['setCombo']>[1]) => p.setCombo(index, entry),
+    getKeyOverride: (index: number) => p.getKeyOverride(index),
+    setKeyOverride: (index: number, entry: Parameters<Protocol['setKeyOverride']>[1]) => p.setKeyOverride(index, entry),
+    getAltRepeatKey: (index: number) => p.getAltRepeatKey(index),
+    setAltRepeatKey: (index: number, entry: Parameters<Protocol['setAltRepeatKey']>[1]) => p.setAltRepeatKey(index, entry),
+    qmkSettingsQuery: (startId: number) => p.qmkSettingsQuery(startId),
+    qmkSettingsGet: (qsid: number) => p.qmkSettingsGet(qsid),
+  }
+}
+
+// Additional device sessions, keyed by the session id main hands out
+const sessions = new Map<string, SessionMethodTable>()
+
 const vialAPI = {
   // --- Device Management (node-hid via IPC) ---
   listDevices: (): Promise<DeviceInfo[]> => listDevices(),
@@ -102,12 +178,54 @@ const vialAPI = {
   isDeviceOpen: (): Promise<boolean> => isDeviceOpen(),
   probeDevice: (vendorId: number, productId: number, serialNumber?: string): Promise<ProbeResult> =>
     probeDevice(vendorId, productId, serialNumber),
+  onDeviceConnected: (callback: (device: DeviceInfo) => void): (() => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, device: DeviceInfo): void => {
+      callback(device)
+    }
+    ipcRenderer.on(IpcChannels.DEVICE_CONNECTED, handler)
+    return () => ipcRenderer.removeListener(IpcChannels.DEVICE_CONNECTED, handler)
+  },
+  onDeviceDisconnected: (callback: (device: DeviceInfo) => void): (() => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, device: DeviceInfo): void => {
+      callback(device)
+    }
+    ipcRenderer.on(IpcChannels.DEVICE_DISCONNECTED, handler)
+    return () => ipcRenderer.removeListener(IpcChannels.DEVICE_DISCONNECTED, handler)
+  },
+  setDeviceWatchSuspended: (suspended: boolean): Promise<void> =>
+    ipcRenderer.invoke(IpcChannels.DEVICE_WATCH_SET_SUSPENDED, suspended),
+
+  // --- Additional device sessions ---
+  sessionOpen: async (vendorId: number, productId: number, serialNumber?: string): Promise<string | null> => {
+    const sessionId = await openHidSession(vendorId, productId, serialNumber)
+    if (sessionId) sessions.set(sessionId, sessionMethods(createProtocol(sessionTransport(sessionId))))
+    return sessionId
+  },
+  sessionClose: async (sessionId: string): Promise<void> => {
+    sessions.delete(sessionId)
+    await closeHidSession(sessionId)
+  },
+  sessionCall: (sessionId: string, method: DeviceSessionMethod, ...args: unknown[]): Promise<unknown> => {
+    const methods = sessions.get(sessionId)
+    if (!methods) return Promise.reject(new Error('HID session is not open'))
+    if (!Object.hasOwn(methods, method)) return Promise.reject(new Error(`Unsupported session method: ${method}`))
+    return (methods[method] as (...a: unknown[]) => Promise<unknown>)(...args)
+  },
+
+  // --- HID session capture ---
+  hidCaptureStart: (device: DeviceInfo): Promise<void> =>
+    ipcRenderer.invoke(IpcChannels.HID_CAPTURE_START, device),
+  hidCaptureStop: (definition: KeyboardDefinition | null, scrub: boolean): Promise<HidCaptureSaveResult> =>
+    ipcRenderer.invoke(IpcChannels.HID_CAPTURE_STOP, definition, scrub),
+  hidCaptureStatus: (): Promise<HidCaptureStatus> => ipcRenderer.invoke(IpcChannels.HID_CAPTURE_STATUS),
 
   // --- VIA Protocol ---
   getProtocolVersion: (): Promise<number> => protocol.getProtocolVersion(),
   getLayerCount: (): Promise<number> => protocol.getLayerCount(),
   getKeymapBuffer: (offset: number, size: number): Promise<number[]> =>
     protocol.getKeymapBuffer(offset, size),
+  setKeymapBuffer: (offset: number, data: number[]): Promise<void> =>
+    protocol.setKeymapBuffer(offset, data),
   setKeycode: (layer: number, row: number, col: number, keycode: number): Promise<void> =>
     protocol.setKeycode(layer, row, col, keycode),
   getLayoutOptions: (): Promise<number> => protocol.getLayoutOptions(),
@@ -119,27 +237,7 @@ const vialAPI = {
   getDefinitionSize: (): Promise<number> => protocol.getDefinitionSize(),
   getDefinitionRaw: (size: number): Promise<number[]> =>
     protocol.getDefinitionRaw(size).then((buf) => Array.from(buf)),
-  getDefinition: async (): Promise<KeyboardDefinition | null> => {
-    try {
-      const size = await protocol.getDefinitionSize()
-      const raw = await protocol.getDefinitionRaw(size)
-      const input = Array.from(raw)
-      const result: string | null = await ipcRenderer.invoke(IpcChannels.LZMA_DECOMPRESS, input)
-      if (result === null) {
-        console.warn('LZMA decompression failed')
-        return null
-      }
-      try {
-        return JSON.parse(result) as KeyboardDefinition
-      } catch {
-        console.warn('Failed to parse definition JSON')
-        return null
-      }
-    } catch (err) {
-      console.warn('Failed to fetch definition:', err)
-      return null
-    }
-  },
+  getDefinition: (): Promise<KeyboardDefinition | null> => fetchDefinition(protocol),
   getEncoder: (layer: number, index: number): Promise<[number, number]> =>
     protocol.getEncoder(layer, index),
   setEncoder: (layer: number, index: number, direction: number, keycode: number): Promise<void> =>
@@ -158,6 +256,33 @@ const vialAPI = {
     protocol.setLightingValue(id, ...args),
   saveLighting: (): Promise<void> => protocol.saveLighting(),
 
+  // --- VIA v3 custom menus ---
+  customGetValue: (channelId: number, valueId: number[], length: number): Promise<number[]> =>
+    protocol.customGetValue(channelId, valueId, length),
+  customSetValue: (channelId: number, valueId: number[], data: number[]): Promise<void> =>
+    protocol.customSetValue(channelId, valueId, data),
+  customSave: (channelId: number): Promise<void> => protocol.customSave(channelId),
+
+  // --- Maintenance ---
+  dynamicKeymapReset: (): Promise<void> => protocol.dynamicKeymapReset(),
+  eepromReset: (): Promise<void> => protocol.eepromReset(),
+  jumpToBootloader: (): Promise<void> => protocol.jumpToBootloader(),
+
+  // --- Firmware flashing (Vial bootloader) ---
+  firmwareSelectFile: (): Promise<{ success: boolean; firmware?: FirmwareFileInfo; error?: string }> =>
+    ipcRenderer.invoke(IpcChannels.FIRMWARE_SELECT_FILE),
+  firmwareFlash: (vendorId: number, productId: number, options: FirmwareFlashOptions): Promise<FirmwareFlashResult> =>
+    ipcRenderer.invoke(IpcChannels.FIRMWARE_FLASH, vendorId, productId, options),
+  firmwareReadBootloaderUid: (vendorId: number, productId: number): Promise<{ success: boolean; uid?: string | null; error?: string }> =>
+    ipcRenderer.invoke(IpcChannels.FIRMWARE_READ_BOOTLOADER_UID, vendorId, productId),
+  firmwareOnProgress: (callback: (progress: FirmwareFlashProgress) => void): (() => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, progress: FirmwareFlashProgress): void => {
+      callback(progress)
+    }
+    ipcRenderer.on(IpcChannels.FIRMWARE_FLASH_PROGRESS, handler)
+    return () => ipcRenderer.removeListener(IpcChannels.FIRMWARE_FLASH_PROGRESS, handler)
+  },
+
   // --- VialRGB ---
   getVialRGBInfo: (): Promise<{ version: number; maxBrightness: number }> =>
     protocol.getVialRGBInfo(),
@@ -167,6 +292,9 @@ const vialAPI = {
     protocol.getVialRGBSupported().then((s) => Array.from(s)),
   setVialRGBMode: (mode: number, speed: number, hue: number, sat: number, val: number): Promise<void> =>
     protocol.setVialRGBMode(mode, speed, hue, sat, val),
+  getVialRGBLeds: (): Promise<VialRGBLedInfo[]> => protocol.getVialRGBLeds(),
+  setVialRGBDirect: (firstLed: number, colors: HsvColor[]): Promise<void> =>
+    protocol.setVialRGBDirect(firstLed, colors),
 
   // --- Lock/Unlock ---
   getUnlockStatus: (): Promise<{ unlocked: boolean; inProgress: boolean; keys: [number, number][] }> =>
@@ -207,10 +335,15 @@ const vialAPI = {
     ipcRenderer.invoke(IpcChannels.FILE_SAVE_LAYOUT, json, deviceName),
   loadLayout: (title?: string, extensions?: string[]): Promise<{ success: boolean; data?: string; filePath?: string; error?: string }> =>
     ipcRenderer.invoke(IpcChannels.FILE_LOAD_LAYOUT, title, extensions),
-  exportKeymapC: (content: string, deviceName?: string): Promise<{ success: boolean; filePath?: string; error?: string }> =>
-    ipcRenderer.invoke(IpcChannels.FILE_EXPORT_KEYMAP_C, content, deviceName),
+  exportKeymapC: (
+    files: ReadonlyArray<{ name: string; content: string }>,
+    deviceName?: string,
+  ): Promise<{ success: boolean; filePath?: string; error?: string }> =>
+    ipcRenderer.invoke(IpcChannels.FILE_EXPORT_KEYMAP_C, files, deviceName),
   exportPdf: (base64Data: string, deviceName?: string): Promise<{ success: boolean; filePath?: string; error?: string }> =>
     ipcRenderer.invoke(IpcChannels.FILE_EXPORT_PDF, base64Data, deviceName),
+  exportZmkKeymap: (content: string, deviceName?: string): Promise<{ success: boolean; filePath?: string; error?: string }> =>
+    ipcRenderer.invoke(IpcChannels.FILE_EXPORT_ZMK_KEYMAP, content, deviceName),
   exportCsv: (content: string, defaultName?: string): Promise<{ success: boolean; filePath?: string; error?: string }> =>
     ipcRenderer.invoke(IpcChannels.FILE_EXPORT_CSV, content, defaultName),
   exportCsvBundle: (
@@ -278,6 +411,16 @@ const vialAPI = {
   favoriteStoreImportToCurrent: (scope: string): Promise<{ success: boolean; data?: unknown; error?: string }> =>
     ipcRenderer.invoke(IpcChannels.FAVORITE_STORE_IMPORT_TO_CURRENT, scope),
 
+  // --- QMK Settings Profile Store (local) ---
+  qmkSettingsProfileList: (): Promise<{ success: boolean; profiles?: QmkSettingsProfile[]; error?: string }> =>
+    ipcRenderer.invoke(IpcChannels.QMK_SETTINGS_PROFILE_LIST),
+  qmkSettingsProfileSave: (name: string, values: Record<string, number[]>): Promise<{ success: boolean; profile?: QmkSettingsProfile; error?: string }> =>
+    ipcRenderer.invoke(IpcChannels.QMK_SETTINGS_PROFILE_SAVE, name, values),
+  qmkSettingsProfileRename: (id: string, newName: string): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke(IpcChannels.QMK_SETTINGS_PROFILE_RENAME, id, newName),
+  qmkSettingsProfileDelete: (id: string): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke(IpcChannels.QMK_SETTINGS_PROFILE_DELETE, id),
+
   // --- Key Label Store (local) ---
   keyLabelStoreList: (): Promise<KeyLabelStoreResult<KeyLabelMeta[]>> =>
     ipcRenderer.invoke(IpcChannels.KEY_LABEL_STORE_LIST),
@@ -753,6 +896,8 @@ const vialAPI = {
     ipcRenderer.invoke(IpcChannels.FAVORITE_STORE_SET_HUB_POST_ID, type, entryId, hubPostId),
   favoriteStoreSetHubPrivate: (type: string, entryId: string, link: HubPrivateLink | null): Promise<{ success: boolean; error?: string }> =>
     ipcRenderer.invoke(IpcChannels.FAVORITE_STORE_SET_HUB_PRIVATE, type, entryId, link),
+  favoriteStoreSetTags: (type: string, entryId: string, tags: string[]): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke(IpcChannels.FAVORITE_STORE_SET_TAGS, type, entryId, tags),
 
   // --- Hub Analytics posts ---
   hubUploadAnalyticsPost: (params: HubUploadAnalyticsPostParams): Promise<HubUploadResult> =>
@@ -0,0 +1,213 @@
+/**
+ * Macro buffer budget and lossless compaction.
+ *
+ * Byte counts come from serializeAllMacros() for the keyboard's protocol and
+ * host layout, so they match what a save writes. Compaction only rewrites actions into
+ * shorter encodings that type the same thing:
+ *
+ * - taps of keys firmware text would pick anyway become text runs
+ *   (`{down LSFT} a b {up LSFT}` becomes "AB"; LSFT(KC_A) becomes "A" on v2)
+ * - a down immediately followed by the up of the same key becomes a tap
+ * - zero delays are dropped
+ * - trailing empty macros are left to the zero padding of the buffer
+ */
+
+import { VIAL_PROTOCOL_ADVANCED_MACROS } from '../shared/constants/protocol'
+import { isValidMacroText, serializeAllMacros, type MacroAction } from './macro'
+import { qwertyCharFor, type HostLayoutMap } from './macro-unicode'
+
+const KC_LSHIFT = 0xe1
+const KC_RSHIFT = 0xe5
+const QK_LSFT = 0x0200
+const QK_RSFT = 0x1200
+
+// --- Budget ---
+
+/** Macros up to the last non-empty one. */
+export function trimTrailingEmptyMacros(macros: MacroAction[][]): MacroAction[][] {
+  let end = macros.length
+  while (end > 0 && macros[end - 1].length === 0) end--
+  return macros.slice(0, end)
+}
+
+export interface MacroBufferUsage {
+  /** Bytes per macro including its NUL; 0 for trimmed trailing empty macros. */
+  perMacro: number[]
+  total: number
+}
+
+/** Bytes the macros take in the device buffer. */
+export function macroBufferUsage(
+  macros: MacroAction[][],
+  vialProtocol: number,
+  trimTrailing = false,
+  layout: HostLayoutMap | null = null,
+): MacroBufferUsage {
+  const kept = trimTrailing ? trimTrailingEmptyMacros(macros).length : macros.length
+  const perMacro = macros.map((macro, i) => (i < kept ? serializeAllMacros([macro], vialProtocol, layout).length : 0))
+  return { perMacro, total: perMacro.reduce((sum, n) => sum + n, 0) }
+}
+
+/**
+ * Serialize macros for a buffer write. With trimTrailing the trailing empty
+ * macros are not written; the rest of the buffer is zero-filled instead so
+ * the firmware still reads them as empty rather than finding stale bytes.
+ */
+export function serializeMacroBuffer(
+  macros: MacroAction[][],
+  vialProtocol: number,
+  bufferSize: number,
+  trimTrailing = false,
+  layout: HostLayoutMap | null = null,
+): number[] {
+  if (!trimTrailing) return serializeAllMacros(macros, vialProtocol, layout)
+  const buffer = serializeAllMacros(trimTrailingEmptyMacros(macros), vialProtocol, layout)
+  while (buffer.length < bufferSize) buffer.push(0)
+  return buffer
+}
+
+// --- Compaction ---
+
+type KeyType = 'tap' | 'down' | 'up'
+
+type MacroEvent =
+  | { type: KeyType; keycode: number }
+  | Exclude<MacroAction, { type: KeyType }>
+
+function toEvents(actions: MacroAction[]): MacroEvent[] {
+  return actions.flatMap((a): MacroEvent[] => {
+    switch (a.type) {
+      case 'tap':
+      case 'down':
+      case 'up':
+        return a.keycodes.map((keycode) => ({ type: a.type, keycode }))
+      case 'text':
+        return a.text ? [a] : []
+      case 'delay':
+        return a.delay > 0 ? [a] : []
+      case 'unicode':
+        return [a]
+    }
+  })
+}
+
+function toActions(events: MacroEvent[]): MacroAction[] {
+  const actions: MacroAction[] = []
+  for (const e of events) {
+    const last = actions[actions.length - 1]
+    if ('keycode' in e) {
+      if (last?.type === e.type) last.keycodes.push(e.keycode)
+      else actions.push({ type: e.type, keycodes: [e.keycode] })
+    } else if (e.type === 'text' && last?.type === 'text') {
+      last.text += e.text
+    } else {
+      actions.push({ ...e })
+    }
+  }
+  return actions
+}
+
+function isShift(keycode: number): boolean {
+  return keycode === KC_LSHIFT || keycode === KC_RSHIFT
+}
+
+/** Text a tap types with nothing else held, if text would type it on the same key. */
+function tapText(keycode: number, shiftHeld: boolean, v2: boolean): string | undefined {
+  let ch: string | undefined
+  if (keycode <= 0xff) {
+    ch = qwertyCharFor(keycode, shiftHeld)
+  } else if (v2 && !shiftHeld && ((keycode & 0xff00) === QK_LSFT || (keycode & 0xff00) === QK_RSFT)) {
+    // v1 truncates 2-byte keycodes, so only v2 types these shifted
+    ch = qwertyCharFor(keycode & 0xff, true)
+  }
+  return ch !== undefined && isValidMacroText(ch) ? ch : undefined
+}
+
+/** `down k, up k` → `tap k` when the macro is not already holding k. */
+function collapseDownUp(events: MacroEvent[]): MacroEvent[] {
+  const out: MacroEvent[] = []
+  const held = new Set<number>()
+  for (let i = 0; i < events.length; i++) {
+    const e = events[i]
+    const next = events[i + 1]
+    if (e.type === 'down' && next?.type === 'up' && next.keycode === e.keycode && !held.has(e.keycode)) {
+      out.push({ type: 'tap', keycode: e.keycode })
+      i++
+      continue
+    }
+    if (e.type === 'down') held.add(e.keycode)
+    if (e.type === 'up') held.delete(e.keycode)
+    out.push(e)
+  }
+  return out
+}
+
+/** Text for a `down Shift, taps…, up Shift` block starting at `start`, with its end index. */
+function shiftedRun(events: MacroEvent[], start: number, v2: boolean): [string, number] | null {
+  const shift = events[start]
+  if (shift.type !== 'down') return null
+  let text = ''
+  for (let i = start + 1; i < events.length; i++) {
+    const e = events[i]
+    if (e.type === 'up' && e.keycode === shift.keycode) return text ? [text, i] : null
+    const ch = e.type === 'tap' ? tapText(e.keycode, true, v2) : undefined
+    if (ch === undefined) return null
+    text += ch
+  }
+  return null
+}
+
+function tapsToText(events: MacroEvent[], v2: boolean): MacroEvent[] {
+  const out: MacroEvent[] = []
+  const held = new Set<number>()
+  for (let i = 0; i < events.length; i++) {
+    const e = events[i]
+    if (e.type === 'down' && held.size === 0 && isShift(e.keycode)) {
+      const run = shiftedRun(events, i, v2)
+      if (run) {
+        out.push({ type: 'text', text: run[0] })
+        i = run[1]
+        continue
+      }
+    }
+    if (e.type === 'tap' && held.size === 0) {
+      const ch = tapText(e.keycode, false, v2)
+      if (ch !== undefined) {
+        out.push({ type: 'text', text: ch })
+        continue
+      }
+    }
+    if (e.type === 'down') held.add(e.keycode)
+    if (e.type === 'up') held.delete(e.keycode)
+    out.push(e)
+  }
+  return out
+}
+
+/** Rewrite a macro into the shortest encoding of the same keystrokes this module knows. */
+export function compactMacro(actions: MacroAction[], vialProtocol: number): MacroAction[] {
+  const v2 = vialProtocol >= VIAL_PROTOCOL_ADVANCED_MACROS
+  return toActions(tapsToText(collapseDownUp(toEvents(actions)), v2))
+}
+
+export interface MacroCompaction {
+  macros: MacroAction[][]
+  /** Buffer usage before and after; `after` leaves trailing empty macros out. */
+  before: MacroBufferUsage
+  after: MacroBufferUsage
+}
+
+/** Compact every macro and report the byte difference. */
+export function compactMacros(
+  macros: MacroAction[][],
+  vialProtocol: number,
+  trimTrailing = false,
+  layout: HostLayoutMap | null = null,
+): MacroCompaction {
+  const compacted = macros.map((m) => compactMacro(m, vialProtocol))
+  return {
+    macros: compacted,
+    before: macroBufferUsage(macros, vialProtocol, trimTrailing, layout),
+    after: macroBufferUsage(compacted, vialProtocol, true, layout),
+  }
+}
@@ -0,0 +1,364 @@
+/**
+ * Macro script: a compact text form of MacroAction[] for the text editor.
+ *
+ *   "hello" {LCTL+C} {delay 120} {down LSFT} a {up LSFT}  # comment
+ *
+ * - `"..."` types text (`\"`, `\\` and `\n` escape); `u"..."` is a unicode
+ *   action and may hold any character.
+ * - A bare key name taps it. Names are qmkIds from shared/keycodes, with the
+ *   `KC_` prefix optional and single letters/digits allowed in lower case.
+ * - `{A+B+C}` holds A and B, taps C, then releases B and A.
+ * - `{tap K…}`, `{down K…}`, `{up K…}` and `{delay ms}` spell actions out.
+ *
+ * macroActionsToScript() and parseMacroScript() round-trip through
+ * serializeMacro() for both v1 and v2 protocols.
+ */
+
+import { VIAL_PROTOCOL_ADVANCED_MACROS } from '../shared/constants/protocol'
+import { serialize, deserialize, findKeycode } from '../shared/keycodes/keycodes'
+import { isValidMacroText, type MacroAction } from './macro'
+import { DEFAULT_UNICODE_INPUT_METHOD, type UnicodeInputMethod } from './macro-unicode'
+
+/** Largest delay the v2 two-byte delay encoding can hold. */
+export const MACRO_SCRIPT_MAX_DELAY = 254 * 255 + 254
+
+const COMMANDS = new Set(['tap', 'down', 'up', 'delay'])
+const WORD_RE = /[^\s{}"#+]+/y
+const SPACE_RE = /\s+/y
+
+// --- Tokenizer ---
+
+export type MacroScriptTokenKind =
+  | 'text'
+  | 'key'
+  | 'command'
+  | 'number'
+  | 'brace'
+  | 'plus'
+  | 'comment'
+  | 'space'
+  | 'invalid'
+
+export interface MacroScriptToken {
+  kind: MacroScriptTokenKind
+  /** Raw source text; concatenating every token reproduces the script. */
+  value: string
+  offset: number
+  line: number
+  column: number
+}
+
+/** Split a script into tokens covering every character, for the parser and for highlighting. */
+export function tokenizeMacroScript(script: string): MacroScriptToken[] {
+  const tokens: MacroScriptToken[] = []
+  let offset = 0
+  let line = 1
+  let column = 1
+  let inGroup = false
+  let groupWords = 0
+  let afterDelay = false
+
+  const push = (kind: MacroScriptTokenKind, value: string): void => {
+    tokens.push({ kind, value, offset, line, column })
+    for (const ch of value) {
+      if (ch === '\n') {
+        line++
+        column = 1
+      } else {
+        column++
+      }
+    }
+    offset += value.length
+  }
+
+  const matchAt = (re: RegExp): string | null => {
+    re.lastIndex = offset
+    return re.exec(script)?.[0] ?? null
+  }
+
+  while (offset < script.length) {
+    const ch = script[offset]
+    const space = matchAt(SPACE_RE)
+    if (space) {
+      push('space', space)
+    } else if (ch === '#') {
+      const end = script.indexOf('\n', offset)
+      push('comment', script.slice(offset, end === -1 ? script.length : end))
+    } else if (ch === '"' || (ch === 'u' && script[offset + 1] === '"')) {
+      push(...readText(script, offset))
+    } else if (ch === '{' || ch === '}') {
+      inGroup = ch === '{'
+      groupWords = 0
+      afterDelay = false
+      push('brace', ch)
+    } else if (ch === '+') {
+      push('plus', ch)
+    } else {
+      const word = matchAt(WORD_RE) ?? ch
+      if (!inGroup) {
+        push('key', word)
+      } else if (groupWords++ === 0 && COMMANDS.has(word) && hasArguments(script, offset + word.length)) {
+        afterDelay = word === 'delay'
+        push('command', word)
+      } else {
+        push(afterDelay ? 'number' : 'key', word)
+      }
+    }
+  }
+  return tokens
+}
+
+function readText(script: string, start: number): [MacroScriptTokenKind, string] {
+  let i = script.indexOf('"', start) + 1
+  while (i < script.length && script[i] !== '\n') {
+    if (script[i] === '\\' && i + 1 < script.length && script[i + 1] !== '\n') {
+      i += 2
+    } else if (script[i] === '"') {
+      return ['text', script.slice(start, i + 1)]
+    } else {
+      i++
+    }
+  }
+  return ['invalid', script.slice(start, i)]
+}
+
+/** A command word only counts as one when something other than `}` or `+` follows it. */
+function hasArguments(script: string, from: number): boolean {
+  SPACE_RE.lastIndex = from
+  const space = SPACE_RE.exec(script)
+  const next = script[from + (space ? space[0].length : 0)]
+  return next !== undefined && next !== '}' && next !== '+' && next !== '#'
+}
+
+// --- Key names ---
+
+/** Resolve a key name as written in a script. Returns null when unknown. */
+export function resolveMacroKeyName(name: string): number | null {
+  const candidates = /^[a-z0-9]$/i.test(name)
+    ? [`KC_${name.toUpperCase()}`]
+    : [name, `KC_${name}`, `KC_${name.toUpperCase()}`]
+  for (const candidate of candidates) {
+    const code = deserialize(candidate)
+    if (code !== 0 || findKeycode(candidate)?.qmkId === 'KC_NO') return code
+  }
+  return null
+}
+
+/** Shortest name for a keycode that still resolves back to it. */
+export function macroKeyName(code: number): string {
+  const qmkId = serialize(code)
+  const single = /^KC_([A-Z0-9])$/.exec(qmkId)
+  if (single) return single[1].toLowerCase()
+  const aliases = findKeycode(qmkId)?.alias ?? [qmkId]
+  const short = aliases
+    .filter((a) => a.startsWith('KC_'))
+    .map((a) => a.slice(3))
+    .sort((a, b) => a.length - b.length)
+    .find((a) => resolveMacroKeyName(a) === code)
+  return short ?? qmkId
+}
+
+// --- Serializer ---
+
+function quoteText(text: string): string {
+  return `"${text.replace(/[\\"\n]/g, (c) => (c === '\n' ? '\\n' : `\\${c}`))}"`
+}
+
+function sameKeycodes(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((kc, i) => kc === b[i])
+}
+
+/** Convert actions to script text. Hold/tap/release runs become `{A+B}` chords. */
+export function macroActionsToScript(actions: MacroAction[]): string {
+  const parts: string[] = []
+  for (let i = 0; i < actions.length; i++) {
+    const action = actions[i]
+    const tap = actions[i + 1]
+    const up = actions[i + 2]
+    if (
+      action.type === 'down' && action.keycodes.length > 0 &&
+      tap?.type === 'tap' && tap.keycodes.length === 1 &&
+      up?.type === 'up' && sameKeycodes(up.keycodes, [...action.keycodes].reverse())
+    ) {
+      parts.push(`{${[...action.keycodes, tap.keycodes[0]].map(macroKeyName).join('+')}}`)
+      i += 2
+      continue
+    }
+    switch (action.type) {
+      case 'text':
+        parts.push(quoteText(action.text))
+        break
+      case 'unicode':
+        parts.push(`u${quoteText(action.text)}`)
+        break
+      case 'tap':
+        parts.push(...action.keycodes.map(macroKeyName))
+        break
+      case 'down':
+      case 'up':
+        if (action.keycodes.length > 0) {
+          parts.push(`{${action.type} ${action.keycodes.map(macroKeyName).join(' ')}}`)
+        }
+        break
+      case 'delay':
+        parts.push(`{delay ${action.delay}}`)
+        break
+    }
+  }
+  return parts.join(' ')
+}
+
+// --- Parser ---
+
+export type MacroScriptErrorCode =
+  | 'unterminatedText'
+  | 'invalidText'
+  | 'unknownKeycode'
+  | 'unclosedGroup'
+  | 'unexpectedBrace'
+  | 'unexpectedPlus'
+  | 'expectedPlus'
+  | 'emptyGroup'
+  | 'invalidDelay'
+  | 'delayUnsupported'
+  | 'keycodeUnsupported'
+
+export interface MacroScriptError {
+  code: MacroScriptErrorCode
+  line: number
+  column: number
+  /** The offending source text, for the message. */
+  token: string
+}
+
+export type MacroScriptParseResult =
+  | { ok: true; actions: MacroAction[] }
+  | { ok: false; error: MacroScriptError }
+
+class ScriptError extends Error {
+  constructor(readonly detail: MacroScriptError) {
+    super(detail.code)
+  }
+}
+
+function fail(code: MacroScriptErrorCode, token: MacroScriptToken): never {
+  throw new ScriptError({ code, line: token.line, column: token.column, token: token.value })
+}
+
+function unescapeText(raw: string): string {
+  return raw.slice(raw.indexOf('"') + 1, -1).replace(/\\(.)/g, (_, c: string) => (c === 'n' ? '\n' : c))
+}
+
+/**
+ * Parse script text into actions. Delays and 2-byte keycodes are rejected below v2.
+ * `u"..."` actions take the macro's unicode input method.
+ */
+export function parseMacroScript(
+  script: string,
+  vialProtocol: number,
+  unicodeMethod: UnicodeInputMethod = DEFAULT_UNICODE_INPUT_METHOD,
+): MacroScriptParseResult {
+  const v2 = vialProtocol >= VIAL_PROTOCOL_ADVANCED_MACROS
+  const tokens = tokenizeMacroScript(script).filter((t) => t.kind !== 'space' && t.kind !== 'comment')
+  const actions: MacroAction[] = []
+  let pos = 0
+
+  const keycode = (token: MacroScriptToken): number => {
+    const code = resolveMacroKeyName(token.value)
+    if (code === null) fail('unknownKeycode', token)
+    if (!v2 && code > 0xff) fail('keycodeUnsupported', token)
+    return code
+  }
+
+  const pushTap = (code: number): void => {
+    const last = actions[actions.length - 1]
+    if (last?.type === 'tap') last.keycodes.push(code)
+    else actions.push({ type: 'tap', keycodes: [code] })
+  }
+
+  const parseGroup = (open: MacroScriptToken): void => {
+    const items: MacroScriptToken[] = []
+    for (;;) {
+      const token = tokens[pos++]
+      if (token === undefined || token.kind === 'text' || token.kind === 'invalid') fail('unclosedGroup', open)
+      if (token.kind === 'brace') {
+        if (token.value === '{') fail('unclosedGroup', open)
+        break
+      }
+      items.push(token)
+    }
+    if (items.length === 0) fail('emptyGroup', open)
+
+    // `{cmd arg…}` takes space-separated arguments; a chord alternates key and `+`
+    const chord = items[0].kind !== 'command'
+    const words = items.filter((token, i) => {
+      if (!chord || i % 2 === 0) {
+        if (token.kind === 'plus') fail('unexpectedPlus', token)
+        return true
+      }
+      if (token.kind !== 'plus') fail('expectedPlus', token)
+      return false
+    })
+    if (chord && items[items.length - 1].kind === 'plus') fail('unexpectedPlus', items[items.length - 1])
+
+    const [head, ...args] = words
+    if (head.kind === 'command') {
+      if (head.value === 'delay') {
+        if (args.length !== 1) fail('invalidDelay', args[1] ?? head)
+        if (!v2) fail('delayUnsupported', head)
+        const delay = /^\d+$/.test(args[0].value) ? Number(args[0].value) : NaN
+        if (!(delay <= MACRO_SCRIPT_MAX_DELAY)) fail('invalidDelay', args[0])
+        actions.push({ type: 'delay', delay })
+      } else if (head.value === 'tap') {
+        for (const arg of args) pushTap(keycode(arg))
+      } else {
+        actions.push({ type: head.value as 'down' | 'up', keycodes: args.map(keycode) })
+      }
+      return
+    }
+
+    const codes = words.map(keycode)
+    const held = codes.slice(0, -1)
+    if (held.length === 0) {
+      pushTap(codes[0])
+      return
+    }
+    actions.push({ type: 'down', keycodes: held })
+    actions.push({ type: 'tap', keycodes: [codes[codes.length - 1]] })
+    actions.push({ type: 'up', keycodes: [...held].reverse() })
+  }
+
+  try {
+    while (pos < tokens.length) {
+      const token = tokens[pos++]
+      switch (token.kind) {
+        case 'text': {
+          const text = unescapeText(token.value)
+          if (token.value.startsWith('u')) {
+            if (text) actions.push({ type: 'unicode', text, method: unicodeMethod })
+            break
+          }
+          if (!isValidMacroText(text)) fail('invalidText', token)
+          if (text) actions.push({ type: 'text', text })
+          break
+        }
+        case 'invalid':
+          fail('unterminatedText', token)
+          break
+        case 'key':
+          pushTap(keycode(token))
+          break
+        case 'brace':
+          if (token.value === '}') fail('unexpectedBrace', token)
+          parseGroup(token)
+          break
+        default:
+          fail('unexpectedPlus', token)
+      }
+    }
+  } catch (e) {
+    if (e instanceof ScriptError) return { ok: false, error: e.detail }
+    throw e
+  }
+  return { ok: true, actions }
+}
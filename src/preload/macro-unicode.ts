@@ -0,0 +1,227 @@
+/**
+ * Unicode text macro actions.
+ *
+ * Firmware macros can only send keycodes, so a 'unicode' action is expanded
+ * into tap/down/up actions when it is serialized. Characters the host layout
+ * has a key for are typed on that key; everything else goes through the
+ * host's Unicode hex input method, using the same sequences as QMK's
+ * UNICODE_MODE_* settings:
+ *
+ * - linux:      Ctrl+Shift+U, hex digits, Space (IBus)
+ * - macos:      hold Option, 4 hex digits per UTF-16 unit (Unicode Hex Input)
+ * - wincompose: Right Alt (compose), U, hex digits, Enter
+ * - windows:    hold Alt, keypad +, hex digits (EnableHexNumpad)
+ *
+ * The host layout is the Key Label pack selected for the keyboard, passed in
+ * by the caller; without one it is US QWERTY.
+ */
+
+import {
+  deserialize,
+  KEYCODES_BASIC_CHARACTERS,
+  KEYCODES_ISO,
+  KEYCODES_JIS,
+} from '../shared/keycodes/keycodes'
+import { parseLayoutEntry, type ParsedLayoutEntry } from '../shared/keymap/layout-parse'
+import type { DeviceMacroAction } from './macro'
+
+export type UnicodeInputMethod = 'linux' | 'macos' | 'wincompose' | 'windows'
+
+export const UNICODE_INPUT_METHODS: readonly UnicodeInputMethod[] = ['linux', 'macos', 'wincompose', 'windows']
+
+export const DEFAULT_UNICODE_INPUT_METHOD: UnicodeInputMethod = 'linux'
+
+export function isUnicodeInputMethod(value: unknown): value is UnicodeInputMethod {
+  return typeof value === 'string' && (UNICODE_INPUT_METHODS as readonly string[]).includes(value)
+}
+
+const KC_ENTER = 0x28
+const KC_SPACE = 0x2c
+const KC_KP_PLUS = 0x57
+const KC_KP_1 = 0x59
+const KC_KP_0 = 0x62
+const KC_LCTRL = 0xe0
+const KC_LSHIFT = 0xe1
+const KC_LALT = 0xe2
+const KC_RALT = 0xe6
+
+// --- Host layout ---
+
+/** qmkId → legend, in the format of a Key Label pack's `map`. */
+export type HostLayoutMap = Record<string, string>
+
+/** A key that types a character, with the modifier it needs held (if any). */
+interface HostKey {
+  keycode: number
+  mod: number | null
+}
+
+const QWERTY: HostLayoutMap = {}
+const tableCache = new WeakMap<HostLayoutMap, Map<string, HostKey>>()
+
+function isCasedLetter(s: string): boolean {
+  return s.toLowerCase() !== s.toUpperCase()
+}
+
+/** Character → key table; unshifted keys win over Shift, Shift over AltGr. */
+function hostKeyTable(map: HostLayoutMap): Map<string, HostKey> {
+  const cached = tableCache.get(map)
+  if (cached) return cached
+
+  // ISO/JIS keys only count when the layout says what they type
+  const entries: Array<[number, ParsedLayoutEntry]> = []
+  for (const kc of KEYCODES_BASIC_CHARACTERS) {
+    entries.push([deserialize(kc.qmkId), parseLayoutEntry(map[kc.qmkId] ?? kc.label)])
+  }
+  for (const kc of [...KEYCODES_ISO, ...KEYCODES_JIS]) {
+    const raw = map[kc.qmkId]
+    if (raw !== undefined) entries.push([deserialize(kc.qmkId), parseLayoutEntry(raw)])
+  }
+
+  const table = new Map<string, HostKey>([[' ', { keycode: KC_SPACE, mod: null }]])
+  const add = (ch: string | undefined, keycode: number, mod: number | null): void => {
+    if (ch === undefined || [...ch].length !== 1 || table.has(ch)) return
+    table.set(ch, { keycode, mod })
+  }
+  // A lone letter legend ("A") stands for the letter in both cases
+  const letterOnly = (e: ParsedLayoutEntry) => e.shift === undefined && [...e.base].length === 1 && isCasedLetter(e.base)
+  for (const [code, e] of entries) add(letterOnly(e) ? e.base.toLowerCase() : e.base, code, null)
+  for (const [code, e] of entries) add(letterOnly(e) ? e.base.toUpperCase() : e.shift, code, KC_LSHIFT)
+  for (const [code, e] of entries) add(e.altgr, code, KC_RALT)
+
+  tableCache.set(map, table)
+  return table
+}
+
+let qwertyChars: Map<number, string> | null = null
+
+/**
+ * The character a key types on US QWERTY, which is the layout firmware text
+ * actions are typed on. Only keys that firmware would pick for that
+ * character count, so a text action with the result types the same key.
+ */
+export function qwertyCharFor(keycode: number, shifted: boolean): string | undefined {
+  if (!qwertyChars) {
+    qwertyChars = new Map()
+    for (const [ch, key] of hostKeyTable(QWERTY)) {
+      if (key.mod === null) qwertyChars.set(key.keycode, ch)
+      else if (key.mod === KC_LSHIFT) qwertyChars.set(key.keycode | 0x100, ch)
+    }
+  }
+  return qwertyChars.get(keycode | (shifted ? 0x100 : 0))
+}
+
+// --- Expansion ---
+
+class ActionBuilder {
+  readonly actions: DeviceMacroAction[] = []
+  private held: number | null = null
+
+  tap(keycode: number): void {
+    const last = this.actions[this.actions.length - 1]
+    if (last?.type === 'tap') last.keycodes.push(keycode)
+    else this.actions.push({ type: 'tap', keycodes: [keycode] })
+  }
+
+  down(...keycodes: number[]): void {
+    this.actions.push({ type: 'down', keycodes })
+  }
+
+  up(...keycodes: number[]): void {
+    this.actions.push({ type: 'up', keycodes })
+  }
+
+  /** Type a key, keeping Shift/AltGr held across consecutive keys that need it. */
+  key(key: HostKey): void {
+    if (key.mod !== this.held) {
+      this.release()
+      if (key.mod !== null) this.down(key.mod)
+      this.held = key.mod
+    }
+    this.tap(key.keycode)
+  }
+
+  release(): void {
+    if (this.held !== null) this.up(this.held)
+    this.held = null
+  }
+}
+
+function hex(value: number, digits = 4): string {
+  return value.toString(16).padStart(digits, '0')
+}
+
+function charKey(ch: string, table: Map<string, HostKey>): HostKey {
+  // Hex digits and 'u' exist on every supported layout; QWERTY is a safety net
+  const key = table.get(ch) ?? hostKeyTable(QWERTY).get(ch)
+  if (!key) throw new Error(`No key for ${JSON.stringify(ch)}`)
+  return key
+}
+
+function typeHex(out: ActionBuilder, digits: string, table: Map<string, HostKey>, keypad = false): void {
+  for (const d of digits) {
+    if (keypad && d >= '0' && d <= '9') {
+      out.release()
+      out.tap(d === '0' ? KC_KP_0 : KC_KP_1 + Number(d) - 1)
+    } else {
+      out.key(charKey(d, table))
+    }
+  }
+  out.release()
+}
+
+function inputCodePoint(out: ActionBuilder, cp: number, method: UnicodeInputMethod, table: Map<string, HostKey>): void {
+  out.release()
+  switch (method) {
+    case 'linux':
+      out.down(KC_LCTRL, KC_LSHIFT)
+      out.tap(charKey('u', table).keycode)
+      out.up(KC_LSHIFT, KC_LCTRL)
+      typeHex(out, hex(cp), table)
+      out.tap(KC_SPACE)
+      break
+    case 'macos': {
+      // Unicode Hex Input is its own US-based input source, so the host
+      // layout does not apply while it is active
+      const qwerty = hostKeyTable(QWERTY)
+      const units = String.fromCodePoint(cp)
+      out.down(KC_LALT)
+      for (let i = 0; i < units.length; i++) typeHex(out, hex(units.charCodeAt(i)), qwerty)
+      out.up(KC_LALT)
+      break
+    }
+    case 'wincompose':
+      out.tap(KC_RALT)
+      out.key(charKey('u', table))
+      typeHex(out, hex(cp), table)
+      out.tap(KC_ENTER)
+      break
+    case 'windows':
+      out.down(KC_LALT)
+      out.tap(KC_KP_PLUS)
+      typeHex(out, hex(cp), table, true)
+      out.up(KC_LALT)
+      break
+  }
+}
+
+/**
+ * Expand text into the tap/down/up actions that type it on the host.
+ * `layout` is the host layout (null means US QWERTY). Every keycode is a
+ * basic 1-byte keycode, so the result works on v1 too.
+ */
+export function expandUnicodeText(
+  text: string,
+  method: UnicodeInputMethod,
+  layout: HostLayoutMap | null = null,
+): DeviceMacroAction[] {
+  const table = hostKeyTable(layout ?? QWERTY)
+  const out = new ActionBuilder()
+  for (const ch of text) {
+    const key = table.get(ch)
+    if (key) out.key(key)
+    else inputCodePoint(out, ch.codePointAt(0) ?? 0, method, table)
+  }
+  out.release()
+  return out.actions
+}
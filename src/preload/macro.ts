@@ -18,6 +18,13 @@ import {
   VIAL_PROTOCOL_ADVANCED_MACROS,
 } from '../shared/constants/protocol'
 import { serialize, deserialize } from '../shared/keycodes/keycodes'
+import {
+  DEFAULT_UNICODE_INPUT_METHOD,
+  expandUnicodeText,
+  isUnicodeInputMethod,
+  type HostLayoutMap,
+  type UnicodeInputMethod,
+} from './macro-unicode'
 
 // --- Validation ---
 
@@ -34,6 +41,20 @@ export type MacroAction =
   | { type: 'down'; keycodes: number[] }
   | { type: 'up'; keycodes: number[] }
   | { type: 'delay'; delay: number }
+  /** Any text, typed through the host layout and Unicode input method (see macro-unicode.ts). */
+  | { type: 'unicode'; text: string; method: UnicodeInputMethod }
+
+/** An action the firmware can store; unicode actions expand into these. */
+export type DeviceMacroAction = Exclude<MacroAction, { type: 'unicode' }>
+
+/**
+ * Replace unicode actions with the key sequences they type on the host.
+ * `layout` is the board's host layout (its Key Label pack map); null means
+ * US QWERTY.
+ */
+export function expandMacroActions(actions: MacroAction[], layout: HostLayoutMap | null = null): DeviceMacroAction[] {
+  return actions.flatMap((a) => (a.type === 'unicode' ? expandUnicodeText(a.text, a.method, layout) : [a]))
+}
 
 // --- Deserialization ---
 
@@ -59,8 +80,8 @@ export function splitMacroBuffer(buffer: number[], macroCount: number): number[]
 }
 
 /** Deserialize a single macro from bytes (v1 format). */
-function deserializeV1(data: number[]): MacroAction[] {
-  const actions: MacroAction[] = []
+function deserializeV1(data: number[]): DeviceMacroAction[] {
+  const actions: DeviceMacroAction[] = []
   let i = 0
 
   while (i < data.length) {
@@ -102,7 +123,7 @@ function actionTypeFromCode(
 }
 
 /** Append a keycode to the last action if it has the same type, otherwise create a new action. */
-function pushOrMergeKeycode(actions: MacroAction[], type: 'tap' | 'down' | 'up', kc: number): void {
+function pushOrMergeKeycode(actions: DeviceMacroAction[], type: 'tap' | 'down' | 'up', kc: number): void {
   const last = actions[actions.length - 1]
   if (last && last.type === type) {
     last.keycodes.push(kc)
@@ -112,8 +133,8 @@ function pushOrMergeKeycode(actions: MacroAction[], type: 'tap' | 'down' | 'up',
 }
 
 /** Deserialize a single macro from bytes (v2 format). */
-function deserializeV2(data: number[]): MacroAction[] {
-  const actions: MacroAction[] = []
+function deserializeV2(data: number[]): DeviceMacroAction[] {
+  const actions: DeviceMacroAction[] = []
   let i = 0
 
   while (i < data.length) {
@@ -171,7 +192,7 @@ function deserializeV2(data: number[]): MacroAction[] {
 }
 
 /** Deserialize a macro from bytes, selecting format by protocol version. */
-export function deserializeMacro(data: number[], vialProtocol: number): MacroAction[] {
+export function deserializeMacro(data: number[], vialProtocol: number): DeviceMacroAction[] {
   if (vialProtocol >= VIAL_PROTOCOL_ADVANCED_MACROS) {
     return deserializeV2(data)
   }
@@ -179,14 +200,14 @@ export function deserializeMacro(data: number[], vialProtocol: number): MacroAct
 }
 
 /** Deserialize all macros from the device buffer. */
-export function deserializeAllMacros(buffer: number[], vialProtocol: number, macroCount: number): MacroAction[][] {
+export function deserializeAllMacros(buffer: number[], vialProtocol: number, macroCount: number): DeviceMacroAction[][] {
   return splitMacroBuffer(buffer, macroCount).map((m) => deserializeMacro(m, vialProtocol))
 }
 
 // --- Serialization ---
 
 /** Serialize a single macro action to bytes. */
-function serializeAction(action: MacroAction, vialProtocol: number): number[] {
+function serializeAction(action: MacroAction, vialProtocol: number, layout: HostLayoutMap | null): number[] {
   const v2 = vialProtocol >= VIAL_PROTOCOL_ADVANCED_MACROS
 
   switch (action.type) {
@@ -230,23 +251,29 @@ function serializeAction(action: MacroAction, vialProtocol: number): number[] {
         (action.delay % 255) + 1,
         Math.floor(action.delay / 255) + 1,
       ]
+
+    case 'unicode':
+      return expandUnicodeText(action.text, action.method, layout).flatMap((a) => serializeAction(a, vialProtocol, layout))
   }
 }
 
-/** Serialize a list of actions into a single macro byte array. */
-export function serializeMacro(actions: MacroAction[], vialProtocol: number): number[] {
+/**
+ * Serialize a list of actions into a single macro byte array. Unicode
+ * actions are typed through `layout` (see expandMacroActions).
+ */
+export function serializeMacro(actions: MacroAction[], vialProtocol: number, layout: HostLayoutMap | null = null): number[] {
   const bytes: number[] = []
   for (const action of actions) {
-    bytes.push(...serializeAction(action, vialProtocol))
+    bytes.push(...serializeAction(action, vialProtocol, layout))
   }
   return bytes
 }
 
 /** Serialize all macros into a NUL-separated buffer. */
-export function serializeAllMacros(macros: MacroAction[][], vialProtocol: number): number[] {
+export function serializeAllMacros(macros: MacroAction[][], vialProtocol: number, layout: HostLayoutMap | null = null): number[] {
   const buffer: number[] = []
   for (const macro of macros) {
-    buffer.push(...serializeMacro(macro, vialProtocol))
+    buffer.push(...serializeMacro(macro, vialProtocol, layout))
     buffer.push(0) // NUL terminator
   }
   return buffer
@@ -255,7 +282,8 @@ export function serializeAllMacros(macros: MacroAction[][], vialProtocol: number
 // --- JSON serialization (Python-compatible) ---
 
 /** Convert macro actions to Python-compatible JSON string.
- *  Format: [["text","Hello"],["tap","KC_A","KC_B"],["down","KC_LCTRL"],["delay",500]] */
+ *  Format: [["text","Hello"],["tap","KC_A","KC_B"],["down","KC_LCTRL"],["delay",500]]
+ *  Pipette-only: ["unicode","café","linux"] */
 export function macroActionsToJson(actions: MacroAction[]): string {
   const items = actions.map((action): unknown[] => {
     switch (action.type) {
@@ -267,6 +295,8 @@ export function macroActionsToJson(actions: MacroAction[]): string {
         return [action.type, ...action.keycodes.map((kc) => serialize(kc))]
       case 'delay':
         return ['delay', action.delay]
+      case 'unicode':
+        return ['unicode', action.text, action.method]
     }
   })
   return JSON.stringify(items)
@@ -312,6 +342,13 @@ export function jsonToMacroActions(json: string): MacroAction[] | null {
         actions.push({ type: 'delay', delay: item[1] })
         break
       }
+      case 'unicode': {
+        if (item.length < 2 || item.length > 3 || typeof item[1] !== 'string') return null
+        if (item.length === 3 && !isUnicodeInputMethod(item[2])) return null
+        const method = item.length === 3 ? item[2] as UnicodeInputMethod : DEFAULT_UNICODE_INPUT_METHOD
+        actions.push({ type: 'unicode', text: item[1], method })
+        break
+      }
       default:
         return null
     }
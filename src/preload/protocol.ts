@@ -10,7 +10,7 @@
  *     Little-endian: vial protocol, keyboard uid, definition block, dynamic entries, QMK settings
  */
 
-import { sendReceive } from './hid-transport'
+import { sendReceive, send } from './hid-transport'
 import {
   MSG_LEN,
   BUFFER_FETCH_CHUNK,
@@ -18,15 +18,22 @@ import {
   CMD_VIA_GET_KEYBOARD_VALUE,
   CMD_VIA_SET_KEYBOARD_VALUE,
   CMD_VIA_SET_KEYCODE,
+  CMD_VIA_DYNAMIC_KEYMAP_RESET,
   CMD_VIA_LIGHTING_SET_VALUE,
   CMD_VIA_LIGHTING_GET_VALUE,
   CMD_VIA_LIGHTING_SAVE,
+  CMD_VIA_CUSTOM_SET_VALUE,
+  CMD_VIA_CUSTOM_GET_VALUE,
+  CMD_VIA_CUSTOM_SAVE,
+  CMD_VIA_EEPROM_RESET,
+  CMD_VIA_BOOTLOADER_JUMP,
   CMD_VIA_MACRO_GET_COUNT,
   CMD_VIA_MACRO_GET_BUFFER_SIZE,
   CMD_VIA_MACRO_GET_BUFFER,
   CMD_VIA_MACRO_SET_BUFFER,
   CMD_VIA_GET_LAYER_COUNT,
   CMD_VIA_KEYMAP_GET_BUFFER,
+  CMD_VIA_KEYMAP_SET_BUFFER,
   CMD_VIA_VIAL_PREFIX,
   VIA_LAYOUT_OPTIONS,
   VIA_SWITCH_MATRIX_STATE,
@@ -34,6 +41,11 @@ import {
   VIALRGB_GET_MODE,
   VIALRGB_GET_SUPPORTED,
   VIALRGB_SET_MODE,
+  VIALRGB_GET_NUMBER_LEDS,
+  VIALRGB_GET_LED_INFO,
+  VIALRGB_DIRECT_FASTSET,
+  VIALRGB_DIRECT_FASTSET_MAX_LEDS,
+  VIALRGB_NO_MATRIX_POSITION,
   CMD_VIAL_GET_KEYBOARD_ID,
   CMD_VIAL_GET_SIZE,
   CMD_VIAL_GET_DEFINITION,
@@ -69,6 +81,8 @@ import type {
   AltRepeatKeyEntry,
   DynamicEntryCounts,
   UnlockStatus,
+  VialRGBLedInfo,
+  HsvColor,
 } from '../shared/types/protocol'
 
 // --- Byte helpers ---
@@ -91,22 +105,6 @@ function isVialEcho(resp: Uint8Array, pkt: Uint8Array): boolean {
   return true
 }
 
-/**
- * Send a Vial command with echo retry.
- * If the device echoes the command, retry up to ECHO_RETRY_COUNT times.
- * Throws with ECHO_DETECTED_MSG if all retries return echoes.
- */
-async function sendWithEchoRetry(pkt: Uint8Array): Promise<Uint8Array> {
-  for (let attempt = 0; attempt < ECHO_RETRY_COUNT; attempt++) {
-    const resp = await sendReceive(pkt)
-    if (!isVialEcho(resp, pkt)) return resp
-    if (attempt < ECHO_RETRY_COUNT - 1) {
-      await delay(ECHO_RETRY_DELAY_MS)
-    }
-  }
-  throw new Error(ECHO_DETECTED_MSG)
-}
-
 /** Build a command packet (auto-padded to MSG_LEN). */
 function cmd(...bytes: number[]): Uint8Array {
   const buf = new Uint8Array(MSG_LEN)
@@ -173,554 +171,814 @@ function readLE64Hex(buf: Uint8Array, offset: number): string {
   return '0x' + hex
 }
 
-// =====================================================================
-// VIA Protocol Commands
-// =====================================================================
-
-/** Get VIA protocol version. Response bytes 1-2: u16 big-endian. */
-export async function getProtocolVersion(): Promise<number> {
-  const resp = await sendReceive(cmd(CMD_VIA_GET_PROTOCOL_VERSION))
-  return readBE16(resp, 1)
-}
-
-/** Get layer count. Response byte 1: u8. */
-export async function getLayerCount(): Promise<number> {
-  const resp = await sendReceive(cmd(CMD_VIA_GET_LAYER_COUNT))
-  return resp[1]
-}
-
-/**
- * Get keymap buffer chunk.
- * Request: [0x12, offset_BE16, size_u8]
- * Response: [4-byte echo, up to 28 bytes of keycode data]
- */
-export async function getKeymapBuffer(offset: number, size: number): Promise<number[]> {
-  const pkt = new Uint8Array(MSG_LEN)
-  pkt[0] = CMD_VIA_KEYMAP_GET_BUFFER
-  writeBE16(pkt, 1, offset)
-  pkt[3] = size
-  const resp = await sendReceive(pkt)
-  return Array.from(resp.subarray(4, 4 + size))
+/** Packet I/O that a protocol instance talks through. */
+export interface ProtocolTransport {
+  sendReceive: (data: Uint8Array) => Promise<Uint8Array>
+  send: (data: Uint8Array) => Promise<void>
 }
 
 /**
- * Set a single keycode.
- * Request: [0x05, layer, row, col, keycode_BE16]
+ * Build the command set on top of a transport. The module exports below are
+ * bound to the editor's device; additional device sessions get their own
+ * instance.
  */
-export async function setKeycode(
-  layer: number,
-  row: number,
-  col: number,
-  keycode: number,
-): Promise<void> {
-  const pkt = new Uint8Array(MSG_LEN)
-  pkt[0] = CMD_VIA_SET_KEYCODE
-  pkt[1] = layer
-  pkt[2] = row
-  pkt[3] = col
-  writeBE16(pkt, 4, keycode)
-  await sendReceive(pkt)
-}
-
-/** Get layout options. Response bytes 2-5: u32 big-endian. */
-export async function getLayoutOptions(): Promise<number> {
-  const resp = await sendReceive(cmd(CMD_VIA_GET_KEYBOARD_VALUE, VIA_LAYOUT_OPTIONS))
-  return readBE32(resp, 2)
-}
-
-/** Set layout options. Request bytes 2-5: u32 big-endian. */
-export async function setLayoutOptions(options: number): Promise<void> {
-  const pkt = new Uint8Array(MSG_LEN)
-  pkt[0] = CMD_VIA_SET_KEYBOARD_VALUE
-  pkt[1] = VIA_LAYOUT_OPTIONS
-  writeBE32(pkt, 2, options)
-  await sendReceive(pkt)
-}
+export function createProtocol({ sendReceive, send }: ProtocolTransport) {
+  /**
+   * Send a Vial command with echo retry.
+   * If the device echoes the command, retry up to ECHO_RETRY_COUNT times.
+   * Throws with ECHO_DETECTED_MSG if all retries return echoes.
+   */
+  async function sendWithEchoRetry(pkt: Uint8Array): Promise<Uint8Array> {
+    for (let attempt = 0; attempt < ECHO_RETRY_COUNT; attempt++) {
+      const resp = await sendReceive(pkt)
+      if (!isVialEcho(resp, pkt)) return resp
+      if (attempt < ECHO_RETRY_COUNT - 1) {
+        await delay(ECHO_RETRY_DELAY_MS)
+      }
+    }
+    throw new Error(ECHO_DETECTED_MSG)
+  }
 
-// --- Macro ---
+  // =====================================================================
+  // VIA Protocol Commands
+  // =====================================================================
 
-/** Get macro count. Response byte 1: u8. */
-export async function getMacroCount(): Promise<number> {
-  const resp = await sendReceive(cmd(CMD_VIA_MACRO_GET_COUNT))
-  return resp[1]
-}
+  /** Get VIA protocol version. Response bytes 1-2: u16 big-endian. */
+  async function getProtocolVersion(): Promise<number> {
+    const resp = await sendReceive(cmd(CMD_VIA_GET_PROTOCOL_VERSION))
+    return readBE16(resp, 1)
+  }
 
-/** Get macro buffer size. Response bytes 1-2: u16 big-endian. */
-export async function getMacroBufferSize(): Promise<number> {
-  const resp = await sendReceive(cmd(CMD_VIA_MACRO_GET_BUFFER_SIZE))
-  return readBE16(resp, 1)
-}
+  /** Get layer count. Response byte 1: u8. */
+  async function getLayerCount(): Promise<number> {
+    const resp = await sendReceive(cmd(CMD_VIA_GET_LAYER_COUNT))
+    return resp[1]
+  }
 
-/**
- * Get entire macro buffer by fetching 28-byte chunks.
- * Returns the full buffer as a number array.
- */
-export async function getMacroBuffer(totalSize: number): Promise<number[]> {
-  const buffer: number[] = []
-  for (let offset = 0; offset < totalSize; offset += BUFFER_FETCH_CHUNK) {
-    const chunkSize = Math.min(BUFFER_FETCH_CHUNK, totalSize - offset)
+  /**
+   * Get keymap buffer chunk.
+   * Request: [0x12, offset_BE16, size_u8]
+   * Response: [4-byte echo, up to 28 bytes of keycode data]
+   */
+  async function getKeymapBuffer(offset: number, size: number): Promise<number[]> {
     const pkt = new Uint8Array(MSG_LEN)
-    pkt[0] = CMD_VIA_MACRO_GET_BUFFER
+    pkt[0] = CMD_VIA_KEYMAP_GET_BUFFER
     writeBE16(pkt, 1, offset)
-    pkt[3] = chunkSize
+    pkt[3] = size
     const resp = await sendReceive(pkt)
-    for (let i = 0; i < chunkSize; i++) {
-      buffer.push(resp[4 + i])
+    return Array.from(resp.subarray(4, 4 + size))
+  }
+
+  /**
+   * Write raw keymap bytes starting at `offset`, in 28-byte chunks.
+   * Request: [0x13, offset_BE16, size_u8, data...]
+   */
+  async function setKeymapBuffer(offset: number, data: number[]): Promise<void> {
+    for (let pos = 0; pos < data.length; pos += BUFFER_FETCH_CHUNK) {
+      const chunkSize = Math.min(BUFFER_FETCH_CHUNK, data.length - pos)
+      const pkt = new Uint8Array(MSG_LEN)
+      pkt[0] = CMD_VIA_KEYMAP_SET_BUFFER
+      writeBE16(pkt, 1, offset + pos)
+      pkt[3] = chunkSize
+      for (let i = 0; i < chunkSize; i++) {
+        pkt[4 + i] = data[pos + i]
+      }
+      await sendReceive(pkt)
     }
   }
-  return buffer
-}
 
-/**
- * Set macro buffer by writing 28-byte chunks.
- */
-export async function setMacroBuffer(data: number[]): Promise<void> {
-  for (let offset = 0; offset < data.length; offset += BUFFER_FETCH_CHUNK) {
-    const chunkSize = Math.min(BUFFER_FETCH_CHUNK, data.length - offset)
+  /**
+   * Set a single keycode.
+   * Request: [0x05, layer, row, col, keycode_BE16]
+   */
+  async function setKeycode(
+    layer: number,
+    row: number,
+    col: number,
+    keycode: number,
+  ): Promise<void> {
     const pkt = new Uint8Array(MSG_LEN)
-    pkt[0] = CMD_VIA_MACRO_SET_BUFFER
-    writeBE16(pkt, 1, offset)
-    pkt[3] = chunkSize
-    for (let i = 0; i < chunkSize; i++) {
-      pkt[4 + i] = data[offset + i]
-    }
+    pkt[0] = CMD_VIA_SET_KEYCODE
+    pkt[1] = layer
+    pkt[2] = row
+    pkt[3] = col
+    writeBE16(pkt, 4, keycode)
     await sendReceive(pkt)
   }
-}
 
-// --- Lighting ---
+  /** Get layout options. Response bytes 2-5: u32 big-endian. */
+  async function getLayoutOptions(): Promise<number> {
+    const resp = await sendReceive(cmd(CMD_VIA_GET_KEYBOARD_VALUE, VIA_LAYOUT_OPTIONS))
+    return readBE32(resp, 2)
+  }
 
-/** Get a lighting value. Returns raw response bytes from offset 2. */
-export async function getLightingValue(id: number): Promise<number[]> {
-  const resp = await sendReceive(cmd(CMD_VIA_LIGHTING_GET_VALUE, id))
-  return Array.from(resp.subarray(2))
-}
+  /** Set layout options. Request bytes 2-5: u32 big-endian. */
+  async function setLayoutOptions(options: number): Promise<void> {
+    const pkt = new Uint8Array(MSG_LEN)
+    pkt[0] = CMD_VIA_SET_KEYBOARD_VALUE
+    pkt[1] = VIA_LAYOUT_OPTIONS
+    writeBE32(pkt, 2, options)
+    await sendReceive(pkt)
+  }
 
-/** Set a lighting value. */
-export async function setLightingValue(id: number, ...args: number[]): Promise<void> {
-  await sendReceive(cmd(CMD_VIA_LIGHTING_SET_VALUE, id, ...args))
-}
+  // --- Macro ---
 
-/** Save lighting settings to EEPROM. */
-export async function saveLighting(): Promise<void> {
-  await sendReceive(cmd(CMD_VIA_LIGHTING_SAVE))
-}
+  /** Get macro count. Response byte 1: u8. */
+  async function getMacroCount(): Promise<number> {
+    const resp = await sendReceive(cmd(CMD_VIA_MACRO_GET_COUNT))
+    return resp[1]
+  }
 
-// --- VialRGB ---
+  /** Get macro buffer size. Response bytes 1-2: u16 big-endian. */
+  async function getMacroBufferSize(): Promise<number> {
+    const resp = await sendReceive(cmd(CMD_VIA_MACRO_GET_BUFFER_SIZE))
+    return readBE16(resp, 1)
+  }
 
-/** Get VialRGB info: protocol version and max brightness. */
-export async function getVialRGBInfo(): Promise<{ version: number; maxBrightness: number }> {
-  const resp = await sendReceive(cmd(CMD_VIA_LIGHTING_GET_VALUE, VIALRGB_GET_INFO))
-  return {
-    version: readLE16(resp, 2),
-    maxBrightness: resp[4],
+  /**
+   * Get entire macro buffer by fetching 28-byte chunks.
+   * Returns the full buffer as a number array.
+   */
+  async function getMacroBuffer(totalSize: number): Promise<number[]> {
+    const buffer: number[] = []
+    for (let offset = 0; offset < totalSize; offset += BUFFER_FETCH_CHUNK) {
+      const chunkSize = Math.min(BUFFER_FETCH_CHUNK, totalSize - offset)
+      const pkt = new Uint8Array(MSG_LEN)
+      pkt[0] = CMD_VIA_MACRO_GET_BUFFER
+      writeBE16(pkt, 1, offset)
+      pkt[3] = chunkSize
+      const resp = await sendReceive(pkt)
+      for (let i = 0; i < chunkSize; i++) {
+        buffer.push(resp[4 + i])
+      }
+    }
+    return buffer
   }
-}
 
-/** Get VialRGB current mode, speed, and HSV color. */
-export async function getVialRGBMode(): Promise<{
-  mode: number
-  speed: number
-  hue: number
-  sat: number
-  val: number
-}> {
-  const resp = await sendReceive(cmd(CMD_VIA_LIGHTING_GET_VALUE, VIALRGB_GET_MODE))
-  return {
-    mode: readLE16(resp, 2),
-    speed: resp[4],
-    hue: resp[5],
-    sat: resp[6],
-    val: resp[7],
+  /**
+   * Set macro buffer by writing 28-byte chunks.
+   */
+  async function setMacroBuffer(data: number[]): Promise<void> {
+    for (let offset = 0; offset < data.length; offset += BUFFER_FETCH_CHUNK) {
+      const chunkSize = Math.min(BUFFER_FETCH_CHUNK, data.length - offset)
+      const pkt = new Uint8Array(MSG_LEN)
+      pkt[0] = CMD_VIA_MACRO_SET_BUFFER
+      writeBE16(pkt, 1, offset)
+      pkt[3] = chunkSize
+      for (let i = 0; i < chunkSize; i++) {
+        pkt[4 + i] = data[offset + i]
+      }
+      await sendReceive(pkt)
+    }
   }
-}
 
-/**
- * Get VialRGB supported effects.
- * Queries paginated effect lists using maxEffect as cursor.
- * Loop terminates when maxEffect reaches 0xFFFF (sentinel)
- * or when no progress is made on a page (stall guard).
- * Always includes effect 0.
- */
-export async function getVialRGBSupported(): Promise<Set<number>> {
-  const supported = new Set<number>([0])
-  let maxEffect = 0
+  // --- Lighting ---
+
+  /** Get a lighting value. Returns raw response bytes from offset 2. */
+  async function getLightingValue(id: number): Promise<number[]> {
+    const resp = await sendReceive(cmd(CMD_VIA_LIGHTING_GET_VALUE, id))
+    return Array.from(resp.subarray(2))
+  }
+
+  /** Set a lighting value. */
+  async function setLightingValue(id: number, ...args: number[]): Promise<void> {
+    await sendReceive(cmd(CMD_VIA_LIGHTING_SET_VALUE, id, ...args))
+  }
+
+  /** Save lighting settings to EEPROM. */
+  async function saveLighting(): Promise<void> {
+    await sendReceive(cmd(CMD_VIA_LIGHTING_SAVE))
+  }
+
+  // --- VIA v3 custom menus ---
+
+  /**
+   * Get a custom menu value.
+   * Request: [0x08, channel_id, ...value_id]
+   * Response: echo header, then `length` value bytes.
+   */
+  async function customGetValue(channelId: number, valueId: number[], length: number): Promise<number[]> {
+    const resp = await sendReceive(cmd(CMD_VIA_CUSTOM_GET_VALUE, channelId, ...valueId))
+    const offset = 2 + valueId.length
+    return Array.from(resp.subarray(offset, offset + length))
+  }
+
+  /** Set a custom menu value. Request: [0x07, channel_id, ...value_id, ...data] */
+  async function customSetValue(channelId: number, valueId: number[], data: number[]): Promise<void> {
+    await sendReceive(cmd(CMD_VIA_CUSTOM_SET_VALUE, channelId, ...valueId, ...data))
+  }
+
+  /** Persist a custom menu channel to EEPROM. Request: [0x09, channel_id] */
+  async function customSave(channelId: number): Promise<void> {
+    await sendReceive(cmd(CMD_VIA_CUSTOM_SAVE, channelId))
+  }
+
+  // --- VialRGB ---
+
+  /** Get VialRGB info: protocol version and max brightness. */
+  async function getVialRGBInfo(): Promise<{ version: number; maxBrightness: number }> {
+    const resp = await sendReceive(cmd(CMD_VIA_LIGHTING_GET_VALUE, VIALRGB_GET_INFO))
+    return {
+      version: readLE16(resp, 2),
+      maxBrightness: resp[4],
+    }
+  }
 
-  while (maxEffect < 0xffff) {
-    const prevMax = maxEffect
+  /** Get VialRGB current mode, speed, and HSV color. */
+  async function getVialRGBMode(): Promise<{
+    mode: number
+    speed: number
+    hue: number
+    sat: number
+    val: number
+  }> {
+    const resp = await sendReceive(cmd(CMD_VIA_LIGHTING_GET_VALUE, VIALRGB_GET_MODE))
+    return {
+      mode: readLE16(resp, 2),
+      speed: resp[4],
+      hue: resp[5],
+      sat: resp[6],
+      val: resp[7],
+    }
+  }
+
+  /**
+   * Get VialRGB supported effects.
+   * Queries paginated effect lists using maxEffect as cursor.
+   * Loop terminates when maxEffect reaches 0xFFFF (sentinel)
+   * or when no progress is made on a page (stall guard).
+   * Always includes effect 0.
+   */
+  async function getVialRGBSupported(): Promise<Set<number>> {
+    const supported = new Set<number>([0])
+    let maxEffect = 0
+
+    while (maxEffect < 0xffff) {
+      const prevMax = maxEffect
+      const pkt = new Uint8Array(MSG_LEN)
+      pkt[0] = CMD_VIA_LIGHTING_GET_VALUE
+      pkt[1] = VIALRGB_GET_SUPPORTED
+      writeLE16(pkt, 2, maxEffect)
+      const resp = await sendReceive(pkt)
+
+      for (let i = 2; i + 1 < resp.length; i += 2) {
+        const val = readLE16(resp, i)
+        if (val !== 0xffff) {
+          supported.add(val)
+        }
+        maxEffect = Math.max(maxEffect, val)
+      }
+
+      if (maxEffect === prevMax) break
+    }
+
+    return supported
+  }
+
+  /** Set VialRGB mode, speed, and HSV color. */
+  async function setVialRGBMode(
+    mode: number,
+    speed: number,
+    hue: number,
+    sat: number,
+    val: number,
+  ): Promise<void> {
+    const pkt = new Uint8Array(MSG_LEN)
+    pkt[0] = CMD_VIA_LIGHTING_SET_VALUE
+    pkt[1] = VIALRGB_SET_MODE
+    writeLE16(pkt, 2, mode)
+    pkt[4] = speed
+    pkt[5] = hue
+    pkt[6] = sat
+    pkt[7] = val
+    await sendReceive(pkt)
+  }
+
+  /** Number of LEDs the board drives (RGB_MATRIX_LED_COUNT). */
+  async function getVialRGBLedCount(): Promise<number> {
+    const resp = await sendReceive(cmd(CMD_VIA_LIGHTING_GET_VALUE, VIALRGB_GET_NUMBER_LEDS))
+    return readLE16(resp, 2)
+  }
+
+  /**
+   * Get one LED's position, flags and matrix position.
+   * Response: [.., .., x, y, flags, row, col]; row/col 0xFF for no key.
+   */
+  async function getVialRGBLedInfo(index: number): Promise<VialRGBLedInfo> {
     const pkt = new Uint8Array(MSG_LEN)
     pkt[0] = CMD_VIA_LIGHTING_GET_VALUE
-    pkt[1] = VIALRGB_GET_SUPPORTED
-    writeLE16(pkt, 2, maxEffect)
+    pkt[1] = VIALRGB_GET_LED_INFO
+    writeLE16(pkt, 2, index)
     const resp = await sendReceive(pkt)
-
-    for (let i = 2; i + 1 < resp.length; i += 2) {
-      const val = readLE16(resp, i)
-      if (val !== 0xffff) {
-        supported.add(val)
-      }
-      maxEffect = Math.max(maxEffect, val)
+    const onMatrix = resp[5] !== VIALRGB_NO_MATRIX_POSITION && resp[6] !== VIALRGB_NO_MATRIX_POSITION
+    return {
+      x: resp[2],
+      y: resp[3],
+      flags: resp[4],
+      row: onMatrix ? resp[5] : null,
+      col: onMatrix ? resp[6] : null,
     }
+  }
 
-    if (maxEffect === prevMax) break
+  /** Read every LED's info, in LED index order. */
+  async function getVialRGBLeds(): Promise<VialRGBLedInfo[]> {
+    const count = await getVialRGBLedCount()
+    const leds: VialRGBLedInfo[] = []
+    for (let i = 0; i < count; i++) {
+      leds.push(await getVialRGBLedInfo(i))
+    }
+    return leds
   }
 
-  return supported
-}
+  /**
+   * Set Direct Control colors starting at `firstLed`.
+   * Request: [0x07, 0x42, first_LE16, count, h, s, v, ...] — split into
+   * packets of VIALRGB_DIRECT_FASTSET_MAX_LEDS.
+   */
+  async function setVialRGBDirect(firstLed: number, colors: HsvColor[]): Promise<void> {
+    for (let start = 0; start < colors.length; start += VIALRGB_DIRECT_FASTSET_MAX_LEDS) {
+      const chunk = colors.slice(start, start + VIALRGB_DIRECT_FASTSET_MAX_LEDS)
+      const pkt = new Uint8Array(MSG_LEN)
+      pkt[0] = CMD_VIA_LIGHTING_SET_VALUE
+      pkt[1] = VIALRGB_DIRECT_FASTSET
+      writeLE16(pkt, 2, firstLed + start)
+      pkt[4] = chunk.length
+      chunk.forEach(([h, s, v], i) => {
+        pkt[5 + i * 3] = h
+        pkt[6 + i * 3] = s
+        pkt[7 + i * 3] = v
+      })
+      await sendReceive(pkt)
+    }
+  }
 
-/** Set VialRGB mode, speed, and HSV color. */
-export async function setVialRGBMode(
-  mode: number,
-  speed: number,
-  hue: number,
-  sat: number,
-  val: number,
-): Promise<void> {
-  const pkt = new Uint8Array(MSG_LEN)
-  pkt[0] = CMD_VIA_LIGHTING_SET_VALUE
-  pkt[1] = VIALRGB_SET_MODE
-  writeLE16(pkt, 2, mode)
-  pkt[4] = speed
-  pkt[5] = hue
-  pkt[6] = sat
-  pkt[7] = val
-  await sendReceive(pkt)
-}
+  // --- Matrix tester ---
 
-// --- Matrix tester ---
+  /** Get switch matrix state. Returns raw response bytes from offset 2. */
+  async function getMatrixState(): Promise<number[]> {
+    const resp = await sendReceive(cmd(CMD_VIA_GET_KEYBOARD_VALUE, VIA_SWITCH_MATRIX_STATE))
+    return Array.from(resp.subarray(2))
+  }
 
-/** Get switch matrix state. Returns raw response bytes from offset 2. */
-export async function getMatrixState(): Promise<number[]> {
-  const resp = await sendReceive(cmd(CMD_VIA_GET_KEYBOARD_VALUE, VIA_SWITCH_MATRIX_STATE))
-  return Array.from(resp.subarray(2))
-}
+  // --- Maintenance ---
+  // vial-qmk ignores all three while the keyboard is locked; callers go
+  // through the unlock gate first.
 
-// =====================================================================
-// Vial Protocol Commands (prefixed with 0xFE)
-// =====================================================================
+  /** Restore every layer of the keymap to the firmware default. */
+  async function dynamicKeymapReset(): Promise<void> {
+    await sendReceive(cmd(CMD_VIA_DYNAMIC_KEYMAP_RESET))
+  }
 
-/**
- * Get keyboard ID.
- * Response bytes 0-3: vial_protocol (u32 LE), bytes 4-11: uid (u64 LE as hex string).
- */
-export async function getKeyboardId(): Promise<KeyboardId> {
-  const resp = await sendReceive(cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_GET_KEYBOARD_ID))
-  return {
-    vialProtocol: readLE32(resp, 0),
-    uid: readLE64Hex(resp, 4),
+  /** Reinitialize VIA EEPROM: layout options, keymap and macros. */
+  async function eepromReset(): Promise<void> {
+    await sendReceive(cmd(CMD_VIA_EEPROM_RESET))
   }
-}
 
-/**
- * Get compressed definition size.
- * Response bytes 0-3: size (u32 LE).
- */
-export async function getDefinitionSize(): Promise<number> {
-  const resp = await sendReceive(cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_GET_SIZE))
-  return readLE32(resp, 0)
-}
+  /**
+   * Jump to the bootloader. The keyboard resets before it can answer,
+   * so this is fire-and-forget.
+   */
+  async function jumpToBootloader(): Promise<void> {
+    await send(cmd(CMD_VIA_BOOTLOADER_JUMP))
+  }
 
-/**
- * Get compressed definition data by fetching 32-byte blocks.
- * Returns the raw LZMA-compressed bytes.
- */
-export async function getDefinitionRaw(size: number): Promise<Uint8Array> {
-  const blocks = Math.ceil(size / MSG_LEN)
-  const result = new Uint8Array(size)
+  // =====================================================================
+  // Vial Protocol Commands (prefixed with 0xFE)
+  // =====================================================================
+
+  /**
+   * Get keyboard ID.
+   * Response bytes 0-3: vial_protocol (u32 LE), bytes 4-11: uid (u64 LE as hex string).
+   */
+  async function getKeyboardId(): Promise<KeyboardId> {
+    const resp = await sendReceive(cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_GET_KEYBOARD_ID))
+    return {
+      vialProtocol: readLE32(resp, 0),
+      uid: readLE64Hex(resp, 4),
+    }
+  }
 
-  for (let block = 0; block < blocks; block++) {
-    const pkt = new Uint8Array(MSG_LEN)
-    pkt[0] = CMD_VIA_VIAL_PREFIX
-    pkt[1] = CMD_VIAL_GET_DEFINITION
-    writeLE32(pkt, 2, block)
-    const resp = await sendReceive(pkt)
-    const copyLen = Math.min(MSG_LEN, size - block * MSG_LEN)
-    result.set(resp.subarray(0, copyLen), block * MSG_LEN)
+  /**
+   * Get compressed definition size.
+   * Response bytes 0-3: size (u32 LE).
+   */
+  async function getDefinitionSize(): Promise<number> {
+    const resp = await sendReceive(cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_GET_SIZE))
+    return readLE32(resp, 0)
   }
 
-  return result
-}
+  /**
+   * Get compressed definition data by fetching 32-byte blocks.
+   * Returns the raw LZMA-compressed bytes.
+   */
+  async function getDefinitionRaw(size: number): Promise<Uint8Array> {
+    const blocks = Math.ceil(size / MSG_LEN)
+    const result = new Uint8Array(size)
+
+    for (let block = 0; block < blocks; block++) {
+      const pkt = new Uint8Array(MSG_LEN)
+      pkt[0] = CMD_VIA_VIAL_PREFIX
+      pkt[1] = CMD_VIAL_GET_DEFINITION
+      writeLE32(pkt, 2, block)
+      const resp = await sendReceive(pkt)
+      const copyLen = Math.min(MSG_LEN, size - block * MSG_LEN)
+      result.set(resp.subarray(0, copyLen), block * MSG_LEN)
+    }
 
-/**
- * Get encoder keycode pair for a given layer and encoder index.
- * Response: [cw_keycode_BE16, ccw_keycode_BE16]
- */
-export async function getEncoder(
-  layer: number,
-  encoderIndex: number,
-): Promise<[number, number]> {
-  const resp = await sendReceive(
-    cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_GET_ENCODER, layer, encoderIndex),
-  )
-  return [readBE16(resp, 0), readBE16(resp, 2)]
-}
+    return result
+  }
 
-/**
- * Set encoder keycode.
- * Request: [0xFE, 0x04, layer, index, direction, keycode_BE16]
- */
-export async function setEncoder(
-  layer: number,
-  encoderIndex: number,
-  direction: number,
-  keycode: number,
-): Promise<void> {
-  const pkt = new Uint8Array(MSG_LEN)
-  pkt[0] = CMD_VIA_VIAL_PREFIX
-  pkt[1] = CMD_VIAL_SET_ENCODER
-  pkt[2] = layer
-  pkt[3] = encoderIndex
-  pkt[4] = direction
-  writeBE16(pkt, 5, keycode)
-  await sendReceive(pkt)
-}
+  /**
+   * Get encoder keycode pair for a given layer and encoder index.
+   * Response: [cw_keycode_BE16, ccw_keycode_BE16]
+   */
+  async function getEncoder(
+    layer: number,
+    encoderIndex: number,
+  ): Promise<[number, number]> {
+    const resp = await sendReceive(
+      cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_GET_ENCODER, layer, encoderIndex),
+    )
+    return [readBE16(resp, 0), readBE16(resp, 2)]
+  }
 
-// --- Unlock ---
+  /**
+   * Set encoder keycode.
+   * Request: [0xFE, 0x04, layer, index, direction, keycode_BE16]
+   */
+  async function setEncoder(
+    layer: number,
+    encoderIndex: number,
+    direction: number,
+    keycode: number,
+  ): Promise<void> {
+    const pkt = new Uint8Array(MSG_LEN)
+    pkt[0] = CMD_VIA_VIAL_PREFIX
+    pkt[1] = CMD_VIAL_SET_ENCODER
+    pkt[2] = layer
+    pkt[3] = encoderIndex
+    pkt[4] = direction
+    writeBE16(pkt, 5, keycode)
+    await sendReceive(pkt)
+  }
 
-/**
- * Get unlock status.
- * Response byte 0: locked(0)/unlocked(1)
- * Response byte 1: unlock in progress flag
- * Response bytes 2-31: up to 15 (row,col) pairs (0xFF,0xFF = unused)
- */
-export async function getUnlockStatus(): Promise<UnlockStatus> {
-  const resp = await sendReceive(
-    cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_GET_UNLOCK_STATUS),
-  )
-  const unlocked = resp[0] === 1
-  const inProgress = resp[1] !== 0
-  const keys: [number, number][] = []
-  for (let i = 0; i < 15; i++) {
-    const row = resp[2 + i * 2]
-    const col = resp[3 + i * 2]
-    if (row !== 0xff && col !== 0xff) {
-      keys.push([row, col])
+  // --- Unlock ---
+
+  /**
+   * Get unlock status.
+   * Response byte 0: locked(0)/unlocked(1)
+   * Response byte 1: unlock in progress flag
+   * Response bytes 2-31: up to 15 (row,col) pairs (0xFF,0xFF = unused)
+   */
+  async function getUnlockStatus(): Promise<UnlockStatus> {
+    const resp = await sendReceive(
+      cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_GET_UNLOCK_STATUS),
+    )
+    const unlocked = resp[0] === 1
+    const inProgress = resp[1] !== 0
+    const keys: [number, number][] = []
+    for (let i = 0; i < 15; i++) {
+      const row = resp[2 + i * 2]
+      const col = resp[3 + i * 2]
+      if (row !== 0xff && col !== 0xff) {
+        keys.push([row, col])
+      }
     }
+    return { unlocked, inProgress, keys }
   }
-  return { unlocked, inProgress, keys }
-}
 
-/** Start unlock sequence. */
-export async function unlockStart(): Promise<void> {
-  await sendReceive(cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_UNLOCK_START))
-}
+  /** Start unlock sequence. */
+  async function unlockStart(): Promise<void> {
+    await sendReceive(cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_UNLOCK_START))
+  }
 
-/**
- * Poll unlock progress.
- * Returns raw response for UI to interpret:
- * byte 0 = unlocked, byte 2 = counter.
- */
-export async function unlockPoll(): Promise<number[]> {
-  const resp = await sendReceive(cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_UNLOCK_POLL))
-  return Array.from(resp)
-}
+  /**
+   * Poll unlock progress.
+   * Returns raw response for UI to interpret:
+   * byte 0 = unlocked, byte 2 = counter.
+   */
+  async function unlockPoll(): Promise<number[]> {
+    const resp = await sendReceive(cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_UNLOCK_POLL))
+    return Array.from(resp)
+  }
 
-/** Lock keyboard. */
-export async function lock(): Promise<void> {
-  await sendReceive(cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_LOCK))
-}
+  /** Lock keyboard. */
+  async function lock(): Promise<void> {
+    await sendReceive(cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_LOCK))
+  }
 
-// --- Dynamic Entries ---
+  // --- Dynamic Entries ---
+
+  /**
+   * Get dynamic entry counts.
+   * Unlike other dynamic entry commands, GET_NUMBER_OF_ENTRIES has no status byte.
+   * Response bytes 0-3: tap_dance, combo, key_override, alt_repeat_key counts.
+   * Response byte at last position: feature flags (bit 0 = caps_word, bit 1 = layer_lock).
+   * Note: matches Python data[-1]. On older firmware with short responses,
+   * this may overlap with the altRepeatKey byte — same as the Python reference.
+   */
+  async function getDynamicEntryCount(): Promise<DynamicEntryCounts> {
+    const pkt = cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_DYNAMIC_ENTRY_OP, DYNAMIC_VIAL_GET_NUMBER_OF_ENTRIES)
+    const resp = await sendWithEchoRetry(pkt)
+    return {
+      tapDance: resp[0],
+      combo: resp[1],
+      keyOverride: resp[2],
+      altRepeatKey: resp[3],
+      featureFlags: resp[resp.length - 1],
+    }
+  }
 
-/**
- * Get dynamic entry counts.
- * Unlike other dynamic entry commands, GET_NUMBER_OF_ENTRIES has no status byte.
- * Response bytes 0-3: tap_dance, combo, key_override, alt_repeat_key counts.
- * Response byte at last position: feature flags (bit 0 = caps_word, bit 1 = layer_lock).
- * Note: matches Python data[-1]. On older firmware with short responses,
- * this may overlap with the altRepeatKey byte — same as the Python reference.
- */
-export async function getDynamicEntryCount(): Promise<DynamicEntryCounts> {
-  const pkt = cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_DYNAMIC_ENTRY_OP, DYNAMIC_VIAL_GET_NUMBER_OF_ENTRIES)
-  const resp = await sendWithEchoRetry(pkt)
-  return {
-    tapDance: resp[0],
-    combo: resp[1],
-    keyOverride: resp[2],
-    altRepeatKey: resp[3],
-    featureFlags: resp[resp.length - 1],
+  /** Get a tap dance entry. Format: 5x u16 LE (10 bytes). */
+  async function getTapDance(index: number): Promise<TapDanceEntry> {
+    const resp = await sendReceive(
+      cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_DYNAMIC_ENTRY_OP, DYNAMIC_VIAL_TAP_DANCE_GET, index),
+    )
+    if (resp[0] !== 0) throw new Error(`Failed to get tap dance entry ${index}`)
+    return {
+      onTap: readLE16(resp, 1),
+      onHold: readLE16(resp, 3),
+      onDoubleTap: readLE16(resp, 5),
+      onTapHold: readLE16(resp, 7),
+      tappingTerm: readLE16(resp, 9),
+    }
   }
-}
 
-/** Get a tap dance entry. Format: 5x u16 LE (10 bytes). */
-export async function getTapDance(index: number): Promise<TapDanceEntry> {
-  const resp = await sendReceive(
-    cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_DYNAMIC_ENTRY_OP, DYNAMIC_VIAL_TAP_DANCE_GET, index),
-  )
-  if (resp[0] !== 0) throw new Error(`Failed to get tap dance entry ${index}`)
-  return {
-    onTap: readLE16(resp, 1),
-    onHold: readLE16(resp, 3),
-    onDoubleTap: readLE16(resp, 5),
-    onTapHold: readLE16(resp, 7),
-    tappingTerm: readLE16(resp, 9),
+  /** Set a tap dance entry. */
+  async function setTapDance(index: number, entry: TapDanceEntry): Promise<void> {
+    const pkt = new Uint8Array(MSG_LEN)
+    pkt[0] = CMD_VIA_VIAL_PREFIX
+    pkt[1] = CMD_VIAL_DYNAMIC_ENTRY_OP
+    pkt[2] = DYNAMIC_VIAL_TAP_DANCE_SET
+    pkt[3] = index
+    writeLE16(pkt, 4, entry.onTap)
+    writeLE16(pkt, 6, entry.onHold)
+    writeLE16(pkt, 8, entry.onDoubleTap)
+    writeLE16(pkt, 10, entry.onTapHold)
+    writeLE16(pkt, 12, entry.tappingTerm)
+    await sendReceive(pkt)
   }
-}
 
-/** Set a tap dance entry. */
-export async function setTapDance(index: number, entry: TapDanceEntry): Promise<void> {
-  const pkt = new Uint8Array(MSG_LEN)
-  pkt[0] = CMD_VIA_VIAL_PREFIX
-  pkt[1] = CMD_VIAL_DYNAMIC_ENTRY_OP
-  pkt[2] = DYNAMIC_VIAL_TAP_DANCE_SET
-  pkt[3] = index
-  writeLE16(pkt, 4, entry.onTap)
-  writeLE16(pkt, 6, entry.onHold)
-  writeLE16(pkt, 8, entry.onDoubleTap)
-  writeLE16(pkt, 10, entry.onTapHold)
-  writeLE16(pkt, 12, entry.tappingTerm)
-  await sendReceive(pkt)
-}
+  /** Get a combo entry. Format: 5x u16 LE (10 bytes). */
+  async function getCombo(index: number): Promise<ComboEntry> {
+    const resp = await sendReceive(
+      cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_DYNAMIC_ENTRY_OP, DYNAMIC_VIAL_COMBO_GET, index),
+    )
+    if (resp[0] !== 0) throw new Error(`Failed to get combo entry ${index}`)
+    return {
+      key1: readLE16(resp, 1),
+      key2: readLE16(resp, 3),
+      key3: readLE16(resp, 5),
+      key4: readLE16(resp, 7),
+      output: readLE16(resp, 9),
+    }
+  }
 
-/** Get a combo entry. Format: 5x u16 LE (10 bytes). */
-export async function getCombo(index: number): Promise<ComboEntry> {
-  const resp = await sendReceive(
-    cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_DYNAMIC_ENTRY_OP, DYNAMIC_VIAL_COMBO_GET, index),
-  )
-  if (resp[0] !== 0) throw new Error(`Failed to get combo entry ${index}`)
-  return {
-    key1: readLE16(resp, 1),
-    key2: readLE16(resp, 3),
-    key3: readLE16(resp, 5),
-    key4: readLE16(resp, 7),
-    output: readLE16(resp, 9),
+  /** Set a combo entry. */
+  async function setCombo(index: number, entry: ComboEntry): Promise<void> {
+    const pkt = new Uint8Array(MSG_LEN)
+    pkt[0] = CMD_VIA_VIAL_PREFIX
+    pkt[1] = CMD_VIAL_DYNAMIC_ENTRY_OP
+    pkt[2] = DYNAMIC_VIAL_COMBO_SET
+    pkt[3] = index
+    writeLE16(pkt, 4, entry.key1)
+    writeLE16(pkt, 6, entry.key2)
+    writeLE16(pkt, 8, entry.key3)
+    writeLE16(pkt, 10, entry.key4)
+    writeLE16(pkt, 12, entry.output)
+    await sendReceive(pkt)
   }
-}
 
-/** Set a combo entry. */
-export async function setCombo(index: number, entry: ComboEntry): Promise<void> {
-  const pkt = new Uint8Array(MSG_LEN)
-  pkt[0] = CMD_VIA_VIAL_PREFIX
-  pkt[1] = CMD_VIAL_DYNAMIC_ENTRY_OP
-  pkt[2] = DYNAMIC_VIAL_COMBO_SET
-  pkt[3] = index
-  writeLE16(pkt, 4, entry.key1)
-  writeLE16(pkt, 6, entry.key2)
-  writeLE16(pkt, 8, entry.key3)
-  writeLE16(pkt, 10, entry.key4)
-  writeLE16(pkt, 12, entry.output)
-  await sendReceive(pkt)
-}
+  /**
+   * Get a key override entry.
+   * Format after status byte: trigger(u16 LE) + replacement(u16 LE) + layers(u16 LE)
+   *   + triggerMods(u8) + negativeMods(u8) + suppressedMods(u8) + options(u8)
+   *   = 10 bytes total.
+   */
+  async function getKeyOverride(index: number): Promise<KeyOverrideEntry> {
+    const resp = await sendReceive(
+      cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_DYNAMIC_ENTRY_OP, DYNAMIC_VIAL_KEY_OVERRIDE_GET, index),
+    )
+    if (resp[0] !== 0) throw new Error(`Failed to get key override entry ${index}`)
+    const optionsByte = resp[10]
+    return {
+      triggerKey: readLE16(resp, 1),
+      replacementKey: readLE16(resp, 3),
+      layers: readLE16(resp, 5),
+      triggerMods: resp[7],
+      negativeMods: resp[8],
+      suppressedMods: resp[9],
+      options: optionsByte & 0x7f,
+      enabled: (optionsByte & 0x80) !== 0,
+    }
+  }
 
-/**
- * Get a key override entry.
- * Format after status byte: trigger(u16 LE) + replacement(u16 LE) + layers(u16 LE)
- *   + triggerMods(u8) + negativeMods(u8) + suppressedMods(u8) + options(u8)
- *   = 10 bytes total.
- */
-export async function getKeyOverride(index: number): Promise<KeyOverrideEntry> {
-  const resp = await sendReceive(
-    cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_DYNAMIC_ENTRY_OP, DYNAMIC_VIAL_KEY_OVERRIDE_GET, index),
-  )
-  if (resp[0] !== 0) throw new Error(`Failed to get key override entry ${index}`)
-  const optionsByte = resp[10]
-  return {
-    triggerKey: readLE16(resp, 1),
-    replacementKey: readLE16(resp, 3),
-    layers: readLE16(resp, 5),
-    triggerMods: resp[7],
-    negativeMods: resp[8],
-    suppressedMods: resp[9],
-    options: optionsByte & 0x7f,
-    enabled: (optionsByte & 0x80) !== 0,
+  /** Set a key override entry. */
+  async function setKeyOverride(index: number, entry: KeyOverrideEntry): Promise<void> {
+    const pkt = new Uint8Array(MSG_LEN)
+    pkt[0] = CMD_VIA_VIAL_PREFIX
+    pkt[1] = CMD_VIAL_DYNAMIC_ENTRY_OP
+    pkt[2] = DYNAMIC_VIAL_KEY_OVERRIDE_SET
+    pkt[3] = index
+    writeLE16(pkt, 4, entry.triggerKey)
+    writeLE16(pkt, 6, entry.replacementKey)
+    writeLE16(pkt, 8, entry.layers)
+    pkt[10] = entry.triggerMods
+    pkt[11] = entry.negativeMods
+    pkt[12] = entry.suppressedMods
+    pkt[13] = (entry.options & 0x7f) | (entry.enabled ? 0x80 : 0)
+    await sendReceive(pkt)
   }
-}
 
-/** Set a key override entry. */
-export async function setKeyOverride(index: number, entry: KeyOverrideEntry): Promise<void> {
-  const pkt = new Uint8Array(MSG_LEN)
-  pkt[0] = CMD_VIA_VIAL_PREFIX
-  pkt[1] = CMD_VIAL_DYNAMIC_ENTRY_OP
-  pkt[2] = DYNAMIC_VIAL_KEY_OVERRIDE_SET
-  pkt[3] = index
-  writeLE16(pkt, 4, entry.triggerKey)
-  writeLE16(pkt, 6, entry.replacementKey)
-  writeLE16(pkt, 8, entry.layers)
-  pkt[10] = entry.triggerMods
-  pkt[11] = entry.negativeMods
-  pkt[12] = entry.suppressedMods
-  pkt[13] = (entry.options & 0x7f) | (entry.enabled ? 0x80 : 0)
-  await sendReceive(pkt)
-}
+  /**
+   * Get an alt repeat key entry.
+   * Format: 2x u16 LE + 2x u8 (6 bytes total after status).
+   */
+  async function getAltRepeatKey(index: number): Promise<AltRepeatKeyEntry> {
+    const resp = await sendReceive(
+      cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_DYNAMIC_ENTRY_OP, DYNAMIC_VIAL_ALT_REPEAT_KEY_GET, index),
+    )
+    if (resp[0] !== 0) throw new Error(`Failed to get alt repeat key entry ${index}`)
+    const options = resp[6]
+    return {
+      lastKey: readLE16(resp, 1),
+      altKey: readLE16(resp, 3),
+      allowedMods: resp[5],
+      options: options & 0x07,
+      enabled: (options & 0x08) !== 0,
+    }
+  }
 
-/**
- * Get an alt repeat key entry.
- * Format: 2x u16 LE + 2x u8 (6 bytes total after status).
- */
-export async function getAltRepeatKey(index: number): Promise<AltRepeatKeyEntry> {
-  const resp = await sendReceive(
-    cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_DYNAMIC_ENTRY_OP, DYNAMIC_VIAL_ALT_REPEAT_KEY_GET, index),
-  )
-  if (resp[0] !== 0) throw new Error(`Failed to get alt repeat key entry ${index}`)
-  const options = resp[6]
-  return {
-    lastKey: readLE16(resp, 1),
-    altKey: readLE16(resp, 3),
-    allowedMods: resp[5],
-    options: options & 0x07,
-    enabled: (options & 0x08) !== 0,
+  /** Set an alt repeat key entry. */
+  async function setAltRepeatKey(index: number, entry: AltRepeatKeyEntry): Promise<void> {
+    const pkt = new Uint8Array(MSG_LEN)
+    pkt[0] = CMD_VIA_VIAL_PREFIX
+    pkt[1] = CMD_VIAL_DYNAMIC_ENTRY_OP
+    pkt[2] = DYNAMIC_VIAL_ALT_REPEAT_KEY_SET
+    pkt[3] = index
+    writeLE16(pkt, 4, entry.lastKey)
+    writeLE16(pkt, 6, entry.altKey)
+    pkt[8] = entry.allowedMods
+    pkt[9] = (entry.options & 0x07) | (entry.enabled ? 0x08 : 0)
+    await sendReceive(pkt)
   }
-}
 
-/** Set an alt repeat key entry. */
-export async function setAltRepeatKey(index: number, entry: AltRepeatKeyEntry): Promise<void> {
-  const pkt = new Uint8Array(MSG_LEN)
-  pkt[0] = CMD_VIA_VIAL_PREFIX
-  pkt[1] = CMD_VIAL_DYNAMIC_ENTRY_OP
-  pkt[2] = DYNAMIC_VIAL_ALT_REPEAT_KEY_SET
-  pkt[3] = index
-  writeLE16(pkt, 4, entry.lastKey)
-  writeLE16(pkt, 6, entry.altKey)
-  pkt[8] = entry.allowedMods
-  pkt[9] = (entry.options & 0x07) | (entry.enabled ? 0x08 : 0)
-  await sendReceive(pkt)
-}
+  // --- QMK Settings ---
 
-// --- QMK Settings ---
+  /**
+   * Query supported QMK settings starting from a given QSID.
+   * Returns raw response bytes (list of LE u16 QSIDs, 0xFFFF = terminator).
+   * Throws ECHO_DETECTED if the device echoes the command after retries.
+   */
+  async function qmkSettingsQuery(startId: number): Promise<number[]> {
+    const pkt = new Uint8Array(MSG_LEN)
+    pkt[0] = CMD_VIA_VIAL_PREFIX
+    pkt[1] = CMD_VIAL_QMK_SETTINGS_QUERY
+    writeLE16(pkt, 2, startId)
+    const resp = await sendWithEchoRetry(pkt)
+    return Array.from(resp)
+  }
 
-/**
- * Query supported QMK settings starting from a given QSID.
- * Returns raw response bytes (list of LE u16 QSIDs, 0xFFFF = terminator).
- * Throws ECHO_DETECTED if the device echoes the command after retries.
- */
-export async function qmkSettingsQuery(startId: number): Promise<number[]> {
-  const pkt = new Uint8Array(MSG_LEN)
-  pkt[0] = CMD_VIA_VIAL_PREFIX
-  pkt[1] = CMD_VIAL_QMK_SETTINGS_QUERY
-  writeLE16(pkt, 2, startId)
-  const resp = await sendWithEchoRetry(pkt)
-  return Array.from(resp)
-}
+  /**
+   * Get a QMK setting value.
+   * Response byte 0: status (0 = ok), bytes 1+: value data.
+   */
+  async function qmkSettingsGet(qsid: number): Promise<number[]> {
+    const pkt = new Uint8Array(MSG_LEN)
+    pkt[0] = CMD_VIA_VIAL_PREFIX
+    pkt[1] = CMD_VIAL_QMK_SETTINGS_GET
+    writeLE16(pkt, 2, qsid)
+    const resp = await sendReceive(pkt)
+    if (resp[0] !== 0) throw new Error(`Failed to get QMK setting ${qsid}`)
+    return Array.from(resp.subarray(1))
+  }
 
-/**
- * Get a QMK setting value.
- * Response byte 0: status (0 = ok), bytes 1+: value data.
- */
-export async function qmkSettingsGet(qsid: number): Promise<number[]> {
-  const pkt = new Uint8Array(MSG_LEN)
-  pkt[0] = CMD_VIA_VIAL_PREFIX
-  pkt[1] = CMD_VIAL_QMK_SETTINGS_GET
-  writeLE16(pkt, 2, qsid)
-  const resp = await sendReceive(pkt)
-  if (resp[0] !== 0) throw new Error(`Failed to get QMK setting ${qsid}`)
-  return Array.from(resp.subarray(1))
-}
+  /**
+   * Set a QMK setting value.
+   */
+  async function qmkSettingsSet(qsid: number, data: number[]): Promise<void> {
+    const pkt = new Uint8Array(MSG_LEN)
+    pkt[0] = CMD_VIA_VIAL_PREFIX
+    pkt[1] = CMD_VIAL_QMK_SETTINGS_SET
+    writeLE16(pkt, 2, qsid)
+    for (let i = 0; i < data.length && 4 + i < MSG_LEN; i++) {
+      pkt[4 + i] = data[i]
+    }
+    await sendReceive(pkt)
+  }
 
-/**
- * Set a QMK setting value.
- */
-export async function qmkSettingsSet(qsid: number, data: number[]): Promise<void> {
-  const pkt = new Uint8Array(MSG_LEN)
-  pkt[0] = CMD_VIA_VIAL_PREFIX
-  pkt[1] = CMD_VIAL_QMK_SETTINGS_SET
-  writeLE16(pkt, 2, qsid)
-  for (let i = 0; i < data.length && 4 + i < MSG_LEN; i++) {
-    pkt[4 + i] = data[i]
-  }
-  await sendReceive(pkt)
-}
+  /** Reset all QMK settings to defaults. */
+  async function qmkSettingsReset(): Promise<void> {
+    await sendReceive(cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_QMK_SETTINGS_RESET))
+  }
 
-/** Reset all QMK settings to defaults. */
-export async function qmkSettingsReset(): Promise<void> {
-  await sendReceive(cmd(CMD_VIA_VIAL_PREFIX, CMD_VIAL_QMK_SETTINGS_RESET))
+  return {
+    getProtocolVersion,
+    getLayerCount,
+    getKeymapBuffer,
+    setKeymapBuffer,
+    setKeycode,
+    getLayoutOptions,
+    setLayoutOptions,
+    getMacroCount,
+    getMacroBufferSize,
+    getMacroBuffer,
+    setMacroBuffer,
+    getLightingValue,
+    setLightingValue,
+    saveLighting,
+    customGetValue,
+    customSetValue,
+    customSave,
+    getVialRGBInfo,
+    getVialRGBMode,
+    getVialRGBSupported,
+    setVialRGBMode,
+    getVialRGBLedCount,
+    getVialRGBLedInfo,
+    getVialRGBLeds,
+    setVialRGBDirect,
+    getMatrixState,
+    dynamicKeymapReset,
+    eepromReset,
+    jumpToBootloader,
+    getKeyboardId,
+    getDefinitionSize,
+    getDefinitionRaw,
+    getEncoder,
+    setEncoder,
+    getUnlockStatus,
+    unlockStart,
+    unlockPoll,
+    lock,
+    getDynamicEntryCount,
+    getTapDance,
+    setTapDance,
+    getCombo,
+    setCombo,
+    getKeyOverride,
+    setKeyOverride,
+    getAltRepeatKey,
+    setAltRepeatKey,
+    qmkSettingsQuery,
+    qmkSettingsGet,
+    qmkSettingsSet,
+    qmkSettingsReset,
+  }
 }
+
+export type Protocol = ReturnType<typeof createProtocol>
+
+export const {
+  getProtocolVersion,
+  getLayerCount,
+  getKeymapBuffer,
+  setKeymapBuffer,
+  setKeycode,
+  getLayoutOptions,
+  setLayoutOptions,
+  getMacroCount,
+  getMacroBufferSize,
+  getMacroBuffer,
+  setMacroBuffer,
+  getLightingValue,
+  setLightingValue,
+  saveLighting,
+  customGetValue,
+  customSetValue,
+  customSave,
+  getVialRGBInfo,
+  getVialRGBMode,
+  getVialRGBSupported,
+  setVialRGBMode,
+  getVialRGBLedCount,
+  getVialRGBLedInfo,
+  getVialRGBLeds,
+  setVialRGBDirect,
+  getMatrixState,
+  dynamicKeymapReset,
+  eepromReset,
+  jumpToBootloader,
+  getKeyboardId,
+  getDefinitionSize,
+  getDefinitionRaw,
+  getEncoder,
+  setEncoder,
+  getUnlockStatus,
+  unlockStart,
+  unlockPoll,
+  lock,
+  getDynamicEntryCount,
+  getTapDance,
+  setTapDance,
+  getCombo,
+  setCombo,
+  getKeyOverride,
+  setKeyOverride,
+  getAltRepeatKey,
+  setAltRepeatKey,
+  qmkSettingsQuery,
+  qmkSettingsGet,
+  qmkSettingsSet,
+  qmkSettingsReset,
+} = createProtocol({ sendReceive, send })
@@ -3,6 +3,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useAppConfig } from './hooks/useAppConfig'
 import { useDeviceConnection } from './hooks/useDeviceConnection'
+import { useDeviceSessions } from './hooks/useDeviceSessions'
 import { useKeyboard } from './hooks/useKeyboard'
 import { useFileIO } from './hooks/useFileIO'
 import { useLayoutStore } from './hooks/useLayoutStore'
@@ -23,12 +24,14 @@ import { useBootHiddenWindow } from './hooks/useBootHiddenWindow'
 import { useMissingKeyLabelNotice } from './hooks/useMissingKeyLabelNotice'
 import { useTypingRecordingTray } from './hooks/use-typing-recording-tray'
 import { useFileGenerators } from './hooks/use-file-generators'
+import { useFirmwareFlash } from './hooks/useFirmwareFlash'
 import { formatDeviceId } from './app-types'
 import { AppBanners } from './components/AppBanners'
 import { AppDisconnectedView } from './components/AppDisconnectedView'
 import { AppModals } from './components/AppModals'
 import { AppEditorSurface } from './components/AppEditorSurface'
 import { ConnectingOverlay } from './components/ConnectingOverlay'
+import { FirmwareFlashModal } from './components/FirmwareFlashModal'
 import { AppStatusBar } from './components/AppStatusBar'
 import type { KeymapEditorHandle } from './components/editors/KeymapEditor'
 import type { KeymapApplyResult } from './components/editors/keymap-editor-types'
@@ -48,8 +51,9 @@ export function App() {
   const appConfig = useAppConfig()
   const themeCtx = useTheme()
   const devicePrefs = useDevicePrefs()
-  const device = useDeviceConnection()
+  const device = useDeviceConnection({ holdOnUnplug: true })
   const keyboard = useKeyboard()
+  const deviceSessions = useDeviceSessions()
   const sync = useSync()
   const startupNotification = useStartupNotification()
 
@@ -75,11 +79,12 @@ export function App() {
 
   const deviceName = device.connectedDevice?.productName || 'keyboard'
 
-  const { keymapCGenerator, pdfGenerator } = useFileGenerators({
+  const { keymapCGenerator, pdfGenerator, zmkKeymapGenerator } = useFileGenerators({
     keyboard,
     deviceName,
     decodedLayoutOptions,
     deserializedMacros,
+    hostLayout: devicePrefs.hostLayout,
   })
 
   const fileIO = useFileIO({
@@ -88,8 +93,10 @@ export function App() {
     serialize: keyboard.serialize,
     serializeVialGui: keyboard.serializeVialGui,
     applyVilFile: keyboard.applyVilFile,
+    hostLayout: devicePrefs.hostLayout,
     keymapCGenerator,
     pdfGenerator,
+    zmkKeymapGenerator,
   })
 
   const sideload = useSideloadJson(keyboard.applyDefinition)
@@ -121,6 +128,7 @@ export function App() {
     effectiveIsDummy,
     supportedQsids: keyboard.supportedQsids,
     lighting: keyboard.definition?.lighting,
+    menus: keyboard.definition?.menus,
     dynamicCounts: keyboard.dynamicCounts,
     keymapScale: devicePrefs.keymapScale,
     setKeymapScale: devicePrefs.setKeymapScale,
@@ -148,6 +156,7 @@ export function App() {
     dynamicCountsFeatureFlags: keyboard.dynamicCounts.featureFlags,
     layoutStoreEntries: layoutStore.entries,
     deviceName,
+    hostLayout: devicePrefs.hostLayout,
   })
 
   const lifecycle = useDeviceLifecycle({
@@ -156,12 +165,17 @@ export function App() {
     connectDummy: device.connectDummy,
     connectPipetteFile: device.connectPipetteFile,
     isPipetteFile: device.isPipetteFile,
+    connectedDevice: device.connectedDevice,
+    offline: device.offline,
     keyboardUid: keyboard.uid,
     keyboardReload: keyboard.reload,
     keyboardReset: keyboard.reset,
     keyboardLoadDummy: keyboard.loadDummy,
     keyboardLoadPipetteFile: keyboard.loadPipetteFile,
     refreshUnlockStatus: keyboard.refreshUnlockStatus,
+    keyboardSetOffline: keyboard.setOffline,
+    flushPendingWrites: keyboard.flushPendingWrites,
+    discardPendingWrites: keyboard.discardPendingWrites,
     unlocked: keyboard.unlockStatus.unlocked,
     activityCount: keyboard.activityCount,
     applyDevicePrefs: devicePrefs.applyDevicePrefs,
@@ -201,6 +215,20 @@ export function App() {
     },
   })
 
+  const firmwareFlash = useFirmwareFlash({
+    devices: device.devices,
+    connectedDevice: device.connectedDevice,
+    isDummy: device.isDummy,
+    keyboardUid: keyboard.uid,
+    keyboardLoading: keyboard.loading,
+    deviceName,
+    connect: lifecycle.handleConnect,
+    setPollSuspended: device.setPollSuspended,
+    setDisconnectExpected: device.setDisconnectExpected,
+    saveSnapshot: layoutStore.saveLayout,
+    restoreSnapshot: layoutStore.loadLayout,
+  })
+
   useSessionRestore({
     configLoaded: !appConfig.loading,
     restoreEnabled: appConfig.config.restoreLastSession === true,
@@ -372,17 +400,21 @@ export function App() {
   // --- Disconnected view ---
   if (!device.connectedDevice) {
     return (
-      <AppDisconnectedView
-        deviceSyncing={deviceSyncing}
-        device={device}
-        sync={sync}
-        lifecycle={lifecycle}
-        themeCtx={themeCtx}
-        devicePrefs={devicePrefs}
-        appConfig={appConfig}
-        hub={hub}
-        startupNotification={startupNotification}
-      />
+      <>
+        <AppDisconnectedView
+          deviceSyncing={deviceSyncing}
+          device={device}
+          sync={sync}
+          lifecycle={lifecycle}
+          themeCtx={themeCtx}
+          devicePrefs={devicePrefs}
+          appConfig={appConfig}
+          hub={hub}
+          startupNotification={startupNotification}
+          onOpenBootloader={(device) => { void firmwareFlash.openForBootloader(device) }}
+        />
+        <FirmwareFlashModal flash={firmwareFlash} />
+      </>
     )
   }
 
@@ -441,6 +473,7 @@ export function App() {
             handleViewAnalytics={handleViewAnalytics}
             timelineHandoff={timelineHandoff}
             setTypingTestRunning={setTypingTestRunning}
+            onFlashFirmware={firmwareFlash.start}
           />
         )}
 
@@ -480,7 +513,12 @@ export function App() {
         missingKeyLabel={missingKeyLabel}
         decodedLayoutOptions={decodedLayoutOptions}
         deserializedMacros={deserializedMacros}
+        saveSnapshot={layoutStore.saveLayout}
+        deviceSessions={deviceSessions}
+        keymapEditorRef={keymapEditorRef}
       />
+
+      <FirmwareFlashModal flash={firmwareFlash} />
     </div>
   )
 }
@@ -1,6 +1,7 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 // Connected-view warning banners (dummy/pipette-file mode, unsaved
-// changes, example UID, protocol version, connection warning). Split out
+// changes, unplugged device, example UID, protocol version, connection
+// warning). Split out
 // of App.tsx (Task-split-app-tsx) to bring it under the file-splitting
 // line-count target.
 
@@ -34,6 +35,68 @@ export function AppBanners({ device, keyboard, lifecycle }: Props) {
         </div>
       )}
 
+      {device.offline && (
+        <div
+          className="flex items-center justify-between gap-4 border-b border-warning/30 bg-warning/10 px-4 py-2 text-sm text-warning"
+          data-testid="device-offline-banner"
+        >
+          <span>
+            {t('error.deviceOffline', { name: device.connectedDevice?.productName || 'Keyboard' })}
+            {keyboard.pendingWriteCount > 0 && (
+              <span className="ml-2" data-testid="pending-write-count">
+                {t('error.pendingWrites', { count: keyboard.pendingWriteCount })}
+              </span>
+            )}
+          </span>
+          <button
+            type="button"
+            className="shrink-0 rounded border border-warning/50 px-2 py-0.5 text-xs hover:bg-warning/20"
+            data-testid="device-offline-disconnect"
+            onClick={() => void lifecycle.handleDisconnect()}
+          >
+            {t('common.disconnect')}
+          </button>
+        </div>
+      )}
+
+      {keyboard.restoreProgress && (
+        <div
+          className="border-b border-accent/30 bg-accent/10 px-4 py-2 text-sm text-accent"
+          data-testid="restore-progress-banner"
+        >
+          {t('layoutStore.restoreProgress', keyboard.restoreProgress)}
+        </div>
+      )}
+
+      {keyboard.restoreVerification && (
+        <div
+          className="flex items-center justify-between gap-4 border-b border-danger/30 bg-danger/10 px-4 py-2 text-sm text-danger"
+          data-testid="restore-verify-banner"
+        >
+          <span>{t('layoutStore.restoreVerifyFailed', { count: keyboard.restoreVerification.mismatches.length })}</span>
+          <span className="flex shrink-0 gap-2">
+            {keyboard.restoreVerification.previous && (
+              <button
+                type="button"
+                className="rounded border border-danger/50 px-2 py-0.5 text-xs hover:bg-danger/20"
+                data-testid="restore-verify-rollback"
+                onClick={() => void keyboard.rollbackRestore()}
+              >
+                {t('layoutStore.restoreRollback')}
+              </button>
+            )}
+            <button
+              type="button"
+              className="rounded border border-danger/50 px-2 py-0.5 text-xs hover:bg-danger/20"
+              data-testid="restore-verify-dismiss"
+              onClick={keyboard.dismissRestoreVerification}
+            >
+              {t('common.close')}
+            </button>
+          </span>
+        </div>
+      )}
+
       {!device.isDummy && keyboard.uid === EMPTY_UID && (
         <div className="border-b border-warning/30 bg-warning/10 px-4 py-2 text-sm text-warning">
           {t('error.exampleUid')}
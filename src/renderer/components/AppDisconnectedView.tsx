@@ -17,6 +17,7 @@ import type { UseDevicePrefsReturn } from '../hooks/useDevicePrefs'
 import type { useAppConfig } from '../hooks/useAppConfig'
 import type { useHubState } from '../hooks/useHubState'
 import type { useStartupNotification } from '../hooks/useStartupNotification'
+import type { DeviceInfo } from '../../shared/types/protocol'
 
 interface Props {
   deviceSyncing: boolean
@@ -28,6 +29,7 @@ interface Props {
   appConfig: ReturnType<typeof useAppConfig>
   hub: ReturnType<typeof useHubState>
   startupNotification: ReturnType<typeof useStartupNotification>
+  onOpenBootloader: (device: DeviceInfo) => void
 }
 
 export function AppDisconnectedView({
@@ -40,6 +42,7 @@ export function AppDisconnectedView({
   appConfig,
   hub,
   startupNotification,
+  onOpenBootloader,
 }: Props) {
   return (
     <>
@@ -53,6 +56,7 @@ export function AppDisconnectedView({
         connecting={device.connecting}
         error={lifecycle.fileLoadError || device.error}
         onConnect={lifecycle.handleConnect}
+        onOpenBootloader={onOpenBootloader}
         onLoadDummy={lifecycle.handleLoadDummy}
         onLoadPipetteFile={lifecycle.handleLoadPipetteFile}
         pipetteFileKeyboards={lifecycle.pipetteFileKeyboards}
@@ -6,9 +6,10 @@
 // app, so the `editor-content` testid div and its style-based
 // (never conditional-render) visibility toggle move verbatim.
 
-import { useCallback, type RefObject } from 'react'
+import { useCallback, useState, type RefObject } from 'react'
 import { useTranslation } from 'react-i18next'
 import { LayoutStoreContent } from './editors/LayoutStoreModal'
+import { SnapshotCompareModal } from './editors/SnapshotCompareModal'
 import { IMPORT_BTN } from './editors/layout-store-types'
 import { ROW_CLASS } from './editors/modal-controls'
 import { KeymapEditor, type KeymapEditorHandle } from './editors/KeymapEditor'
@@ -61,6 +62,7 @@ interface Props {
   handleViewAnalytics: (origin: AnalyticsOrigin) => void
   timelineHandoff: TimelineHandoff | null
   setTypingTestRunning: (running: boolean) => void
+  onFlashFirmware: () => void
 }
 
 export function AppEditorSurface({
@@ -93,9 +95,11 @@ export function AppEditorSurface({
   handleViewAnalytics,
   timelineHandoff,
   setTypingTestRunning,
+  onFlashFirmware,
 }: Props) {
   const { t } = useTranslation()
   const api = window.vialAPI
+  const [compareEntryId, setCompareEntryId] = useState<string | null>(null)
 
   const handleLoadEntry = useCallback(async (entryId: string) => {
     const entry = layoutStore.entries.find((e) => e.id === entryId)
@@ -136,6 +140,58 @@ export function AppEditorSurface({
           )}
         </div>
       </div>
+      {editorUI.customMenusSupported && (
+        <div className={ROW_CLASS} data-testid="overlay-custom-menus-row">
+          <span className="text-sm font-medium text-content">{t('editor.customMenus.title')}</span>
+          <button
+            type="button"
+            className={IMPORT_BTN}
+            onClick={() => editorUI.setShowCustomMenusModal(true)}
+            data-testid="overlay-custom-menus-button"
+          >
+            {t('common.configuration')}
+          </button>
+        </div>
+      )}
+      {!device.isDummy && (
+        <div className={ROW_CLASS} data-testid="overlay-maintenance-row">
+          <span className="text-sm font-medium text-content">{t('maintenance.title')}</span>
+          <button
+            type="button"
+            className={IMPORT_BTN}
+            onClick={() => editorUI.setShowMaintenanceModal(true)}
+            data-testid="overlay-maintenance-button"
+          >
+            {t('common.configuration')}
+          </button>
+        </div>
+      )}
+      {!device.isDummy && (
+        <div className={ROW_CLASS} data-testid="overlay-sessions-row">
+          <span className="text-sm font-medium text-content">{t('sessions.title')}</span>
+          <button
+            type="button"
+            className={IMPORT_BTN}
+            onClick={() => editorUI.setShowSessionsModal(true)}
+            data-testid="overlay-sessions-button"
+          >
+            {t('sessions.openEditor')}
+          </button>
+        </div>
+      )}
+      {!device.isDummy && (
+        <div className={ROW_CLASS} data-testid="overlay-firmware-row">
+          <span className="text-sm font-medium text-content">{t('firmware.rowLabel')}</span>
+          <button
+            type="button"
+            className={IMPORT_BTN}
+            onClick={onFlashFirmware}
+            data-testid="overlay-firmware-button"
+          >
+            {t('firmware.flashButton')}
+          </button>
+        </div>
+      )}
     </>
   )
 
@@ -154,11 +210,13 @@ export function AppEditorSurface({
           return id
         }}
         onLoad={handleLoadEntry}
+        onCompare={!effectiveIsDummy ? setCompareEntryId : undefined}
         onRename={hub.handleRenameEntry}
         onDelete={hub.handleDeleteEntry}
         onExportVil={fileHandlers.handleExportVil}
         onExportKeymapC={fileHandlers.handleExportKeymapC}
         onExportPdf={fileHandlers.handleExportPdf}
+        onExportZmkKeymap={fileHandlers.handleExportZmkKeymap}
         onExportEntryVil={!effectiveIsDummy ? entryOps.handleExportEntryVil : undefined}
         onExportEntryKeymapC={!effectiveIsDummy ? entryOps.handleExportEntryKeymapC : undefined}
         onExportEntryPdf={!effectiveIsDummy ? entryOps.handleExportEntryPdf : undefined}
@@ -201,6 +259,7 @@ export function AppEditorSurface({
         isRemapped={devicePrefs.isRemapped}
         remapKind={devicePrefs.remapKind}
         pickerRemapLabel={devicePrefs.pickerRemapLabel}
+        hostLayout={devicePrefs.hostLayout}
         onSetKey={keyboard.setKey}
         onSetKeysBulk={keyboard.setKeysBulk}
         onSetEncoder={keyboard.setEncoder}
@@ -233,6 +292,7 @@ export function AppEditorSurface({
         qmkSettingsReset={editorUI.hasAnySettings ? (device.isPipetteFile ? keyboard.pipetteFileQmkSettingsReset : api.qmkSettingsReset) : undefined}
         onSettingsUpdate={editorUI.hasAnySettings ? keyboard.updateQmkSettingsValue : undefined}
         tappingTermMs={tappingTerm.termMs}
+        qmkSettingsValues={keyboard.qmkSettingsValues}
         autoAdvance={devicePrefs.autoAdvance}
         onAutoAdvanceChange={devicePrefs.setAutoAdvance}
         viewMatrix={devicePrefs.viewMatrix}
@@ -334,6 +394,21 @@ export function AppEditorSurface({
         connectedDevice={device.connectedDevice}
         onDeviceListActiveChange={device.setDeviceListActive}
       />
+      {compareEntryId && (
+        <SnapshotCompareModal
+          entries={layoutStore.entries}
+          initialTargetId={compareEntryId}
+          loadEntry={entryOps.loadEntryVilData}
+          getLive={keyboard.serialize}
+          rows={keyboard.rows}
+          cols={keyboard.cols}
+          macroCount={keyboard.macroCount}
+          vialProtocol={keyboard.vialProtocol}
+          layerNames={keyboard.layerNames}
+          onApply={keyboard.applyVilFile}
+          onClose={() => setCompareEntryId(null)}
+        />
+      )}
     </div>
   )
 }
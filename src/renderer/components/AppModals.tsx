@@ -1,21 +1,29 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 // Connected-view overlay modals: Unlock dialog, lighting configurator,
-// Combo/AltRepeatKey/KeyOverride panels, startup notifications, the
+// VIA custom menus ("Keyboard" settings), device maintenance, multi-keyboard sessions, Combo/AltRepeatKey/KeyOverride panels, startup notifications, the
 // missing-key-label dialog, and the ja-removed banner. Split out of
 // App.tsx (Task-split-app-tsx).
 
+import type { RefObject } from 'react'
 import { useTranslation } from 'react-i18next'
 import { UnlockDialog } from './editors/UnlockDialog'
 import { ModalCloseButton } from './editors/ModalCloseButton'
 import { RGBConfigurator } from './editors/RGBConfigurator'
+import { VialRGBPainter } from './editors/VialRGBPainter'
+import { CustomMenusPanel } from './editors/CustomMenusPanel'
+import { MaintenancePanel } from './editors/MaintenancePanel'
+import { HidCapturePanel } from './editors/HidCapturePanel'
+import { SessionsPanel, PRIMARY_BOARD_ID, type SessionBoard } from './editors/SessionsPanel'
 import { ComboPanelModal } from './editors/ComboPanelModal'
 import { AltRepeatKeyPanelModal } from './editors/AltRepeatKeyPanelModal'
 import { KeyOverridePanelModal } from './editors/KeyOverridePanelModal'
 import { NotificationModal } from './NotificationModal'
 import { MissingKeyLabelDialog } from './key-labels/MissingKeyLabelDialog'
 import { JaRemovedBanner } from './i18n-packs/JaRemovedBanner'
+import { VIALRGB_EFFECT_DIRECT } from '../../shared/constants/protocol'
 import type { decodeLayoutOptions } from '../../shared/kle/layout-options'
-import type { deserializeAllMacros } from '../../preload/macro'
+import type { MacroAction } from '../../preload/macro'
+import type { HostLayoutMap } from '../../preload/macro-unicode'
 import type { useDeviceConnection } from '../hooks/useDeviceConnection'
 import type { useKeyboard } from '../hooks/useKeyboard'
 import type { useEditorUIState } from '../hooks/useEditorUIState'
@@ -23,6 +31,8 @@ import type { UseDevicePrefsReturn } from '../hooks/useDevicePrefs'
 import type { useHubState } from '../hooks/useHubState'
 import type { useStartupNotification } from '../hooks/useStartupNotification'
 import type { useMissingKeyLabelNotice } from '../hooks/useMissingKeyLabelNotice'
+import type { useDeviceSessions } from '../hooks/useDeviceSessions'
+import type { KeymapEditorHandle } from './editors/KeymapEditor'
 
 interface Props {
   device: ReturnType<typeof useDeviceConnection>
@@ -33,7 +43,55 @@ interface Props {
   startupNotification: ReturnType<typeof useStartupNotification>
   missingKeyLabel: ReturnType<typeof useMissingKeyLabelNotice>
   decodedLayoutOptions: ReturnType<typeof decodeLayoutOptions>
-  deserializedMacros: ReturnType<typeof deserializeAllMacros> | undefined
+  deserializedMacros: MacroAction[][] | undefined
+  saveSnapshot: (label: string) => Promise<string | null>
+  deviceSessions: ReturnType<typeof useDeviceSessions>
+  /** The mounted keymap editor, whose recorded setters put the panel
+   *  modals' writes on its undo history. */
+  keymapEditorRef: RefObject<KeymapEditorHandle | null>
+}
+
+/** The editor's keyboard as a SessionsPanel board, written through the usual
+ *  setters. Dynamic entries go through the keymap editor's recorded setters
+ *  when it is mounted, so a paste lands on its undo history. */
+function primarySessionBoard(
+  device: ReturnType<typeof useDeviceConnection>,
+  keyboard: ReturnType<typeof useKeyboard>,
+  editorRef: RefObject<KeymapEditorHandle | null>,
+  name: string,
+  hostLayout: HostLayoutMap | null,
+): SessionBoard {
+  return {
+    id: PRIMARY_BOARD_ID,
+    name,
+    state: keyboard,
+    hostLayout,
+    setKeys: keyboard.setKeysBulk,
+    setEncoders: async (entries) => {
+      for (const { layer, idx, direction, keycode } of entries) {
+        await keyboard.setEncoder(layer, idx, direction, keycode)
+      }
+    },
+    setMacroBuffer: keyboard.setMacroBuffer,
+    setDynamicEntry: async (kind, index, entry) => {
+      switch (kind) {
+        case 'tapDance':
+          return (editorRef.current?.setTapDanceEntry ?? keyboard.setTapDanceEntry)(index, entry as typeof keyboard.tapDanceEntries[number])
+        case 'combo':
+          return (editorRef.current?.setComboEntry ?? keyboard.setComboEntry)(index, entry as typeof keyboard.comboEntries[number])
+        case 'keyOverride':
+          return (editorRef.current?.setKeyOverrideEntry ?? keyboard.setKeyOverrideEntry)(index, entry as typeof keyboard.keyOverrideEntries[number])
+        case 'altRepeatKey':
+          return (editorRef.current?.setAltRepeatKeyEntry ?? keyboard.setAltRepeatKeyEntry)(index, entry as typeof keyboard.altRepeatKeyEntries[number])
+      }
+    },
+    unlockStart: () => { device.setPollSuspended(true); return window.vialAPI.unlockStart() },
+    unlockPoll: () => window.vialAPI.unlockPoll(),
+    finishUnlock: async (unlocked) => {
+      device.setPollSuspended(false)
+      if (unlocked) await keyboard.refreshUnlockStatus()
+    },
+  }
 }
 
 export function AppModals({
@@ -46,12 +104,73 @@ export function AppModals({
   missingKeyLabel,
   decodedLayoutOptions,
   deserializedMacros,
+  saveSnapshot,
+  deviceSessions,
+  keymapEditorRef,
 }: Props) {
   const { t } = useTranslation()
   const api = window.vialAPI
 
   return (
     <>
+      {/* Before the Unlock dialog: a maintenance command can prompt for
+          unlock while this modal is open, and the prompt must stack on top. */}
+      {editorUI.showMaintenanceModal && !device.isDummy && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+          data-testid="maintenance-modal-backdrop"
+          onClick={() => editorUI.setShowMaintenanceModal(false)}
+        >
+          <div
+            className="w-modal-md max-w-modal-vw rounded-lg bg-surface-alt p-6 shadow-xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="mb-4 flex items-center justify-between">
+              <h3 className="text-lg font-semibold">{t('maintenance.title')}</h3>
+              <ModalCloseButton testid="maintenance-modal-close" onClick={() => editorUI.setShowMaintenanceModal(false)} />
+            </div>
+            <MaintenancePanel
+              onSaveSnapshot={saveSnapshot}
+              onResetDynamicKeymap={keyboard.resetDynamicKeymap}
+              onResetEeprom={keyboard.resetEeprom}
+              onJumpToBootloader={() => keyboard.jumpToBootloader(() => device.setDisconnectExpected(true))}
+            />
+            {device.connectedDevice && (
+              <div className="mt-4 border-t border-edge pt-4">
+                <HidCapturePanel
+                  device={device.connectedDevice}
+                  definition={keyboard.definition}
+                  onReload={keyboard.reload}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {editorUI.showSessionsModal && !device.isDummy && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+          data-testid="sessions-modal-backdrop"
+          onClick={() => editorUI.setShowSessionsModal(false)}
+        >
+          <div
+            className="w-modal-xl max-w-modal-vw rounded-lg bg-surface-alt p-6 shadow-xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="mb-4 flex items-center justify-between">
+              <h3 className="text-lg font-semibold">{t('sessions.title')}</h3>
+              <ModalCloseButton testid="sessions-modal-close" onClick={() => editorUI.setShowSessionsModal(false)} />
+            </div>
+            <SessionsPanel
+              primary={primarySessionBoard(device, keyboard, keymapEditorRef, device.connectedDevice?.productName || t('sessions.thisKeyboard'), devicePrefs.hostLayout)}
+              connectedDevice={device.connectedDevice}
+              deviceSessions={deviceSessions}
+            />
+          </div>
+        </div>
+      )}
+
       {editorUI.showUnlockDialog && !device.isDummy && (
         <UnlockDialog
           keys={keyboard.layout?.keys ?? []}
@@ -119,6 +238,41 @@ export function AppModals({
               onSetVialRGBHSV={keyboard.setVialRGBHSV}
               onSave={api.saveLighting}
             />
+            {keyboard.definition?.lighting === 'vialrgb' && keyboard.vialRGBSupported.includes(VIALRGB_EFFECT_DIRECT) && (
+              <div className="mt-6 border-t border-edge pt-6">
+                <VialRGBPainter
+                  keys={keyboard.layout?.keys ?? []}
+                  layoutOptions={decodedLayoutOptions}
+                  maxBrightness={keyboard.vialRGBMaxBrightness}
+                  mode={keyboard.vialRGBMode}
+                  directColors={keyboard.vialRGBDirectColors}
+                  scenes={keyboard.lightingScenes}
+                  onSetMode={keyboard.setVialRGBMode}
+                  onSetDirectColors={keyboard.setVialRGBDirectColors}
+                  onSaveScene={keyboard.saveLightingScene}
+                  onDeleteScene={keyboard.deleteLightingScene}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {editorUI.showCustomMenusModal && editorUI.customMenusSupported && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+          data-testid="custom-menus-modal-backdrop"
+          onClick={() => editorUI.setShowCustomMenusModal(false)}
+        >
+          <div
+            className="w-modal-app max-w-modal-vw max-h-modal-80vh overflow-y-auto rounded-lg bg-surface-alt p-6 shadow-xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="mb-4 flex items-center justify-between">
+              <h3 className="text-lg font-semibold">{t('editor.customMenus.title')}</h3>
+              <ModalCloseButton testid="custom-menus-modal-close" onClick={() => editorUI.setShowCustomMenusModal(false)} />
+            </div>
+            <CustomMenusPanel menus={editorUI.customMenus} />
           </div>
         </div>
       )}
@@ -126,7 +280,7 @@ export function AppModals({
       {editorUI.comboSupported && editorUI.comboInitialIndex !== null && (
         <ComboPanelModal
           entries={keyboard.comboEntries}
-          onSetEntry={keyboard.setComboEntry}
+          onSetEntry={(index, entry) => (keymapEditorRef.current?.setComboEntry ?? keyboard.setComboEntry)(index, entry)}
           initialIndex={editorUI.comboInitialIndex}
           unlocked={keyboard.unlockStatus.unlocked}
           onUnlock={() => editorUI.setShowUnlockDialog(true)}
@@ -151,7 +305,7 @@ export function AppModals({
       {editorUI.altRepeatKeySupported && editorUI.altRepeatKeyInitialIndex !== null && (
         <AltRepeatKeyPanelModal
           entries={keyboard.altRepeatKeyEntries}
-          onSetEntry={keyboard.setAltRepeatKeyEntry}
+          onSetEntry={(index, entry) => (keymapEditorRef.current?.setAltRepeatKeyEntry ?? keyboard.setAltRepeatKeyEntry)(index, entry)}
           initialIndex={editorUI.altRepeatKeyInitialIndex}
           unlocked={keyboard.unlockStatus.unlocked}
           onUnlock={() => editorUI.setShowUnlockDialog(true)}
@@ -176,7 +330,7 @@ export function AppModals({
       {editorUI.keyOverrideSupported && editorUI.keyOverrideInitialIndex !== null && (
         <KeyOverridePanelModal
           entries={keyboard.keyOverrideEntries}
-          onSetEntry={keyboard.setKeyOverrideEntry}
+          onSetEntry={(index, entry) => (keymapEditorRef.current?.setKeyOverrideEntry ?? keyboard.setKeyOverrideEntry)(index, entry)}
           initialIndex={editorUI.keyOverrideInitialIndex}
           unlocked={keyboard.unlockStatus.unlocked}
           onUnlock={() => editorUI.setShowUnlockDialog(true)}
@@ -40,6 +40,8 @@ interface Props {
   connecting: boolean
   error: string | null
   onConnect: (device: DeviceInfo) => void
+  /** Bootloader entries open the firmware flasher instead of connecting */
+  onOpenBootloader?: (device: DeviceInfo) => void
   onLoadDummy: () => void
   onLoadPipetteFile: () => void
   pipetteFileKeyboards?: PipetteFileKeyboard[]
@@ -59,6 +61,7 @@ export function DeviceSelector({
   connecting,
   error,
   onConnect,
+  onOpenBootloader,
   onLoadDummy,
   onLoadPipetteFile,
   pipetteFileKeyboards,
@@ -194,7 +197,10 @@ export function DeviceSelector({
                     type="button"
                     data-testid="device-button"
                     className={`group ${DEVICE_ENTRY_CLASS}`}
-                    onClick={() => onConnect(device)}
+                    onClick={() => {
+                      if (device.type === 'bootloader' && onOpenBootloader) onOpenBootloader(device)
+                      else onConnect(device)
+                    }}
                     disabled={connecting}
                   >
                     <div className="min-w-0 flex-1">
@@ -0,0 +1,229 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Firmware flashing dialog for the Vial bootloader. Rendered by App in both
+// the connected and disconnected views, since the keyboard drops off the
+// bus into its bootloader and comes back partway through the flow.
+
+import { useTranslation } from 'react-i18next'
+import { ModalCloseButton } from './editors/ModalCloseButton'
+import { IMPORT_BTN } from './editors/layout-store-types'
+import type { useFirmwareFlash } from '../hooks/useFirmwareFlash'
+
+interface Props {
+  flash: ReturnType<typeof useFirmwareFlash>
+}
+
+const PRIMARY_BTN =
+  'rounded bg-accent px-3 py-1.5 text-sm font-medium text-content-inverse hover:bg-accent-hover disabled:opacity-50'
+
+const ERROR_KEYS: Record<string, string> = {
+  'uid mismatch': 'firmware.errors.uidMismatch',
+  'uid not set': 'firmware.errors.uidNotSet',
+  'package uid mismatch': 'firmware.errors.packageUidMismatch',
+  'package required': 'firmware.errors.packageRequired',
+  'uid changed': 'firmware.errors.uidChanged',
+  'reconnect timeout': 'firmware.errors.reconnectTimeout',
+  'restore failed': 'firmware.errors.restoreFailed',
+}
+
+function errorMessage(t: (key: string, opts?: Record<string, unknown>) => string, error: string): string {
+  const key = ERROR_KEYS[error]
+  return key ? t(key) : t('firmware.errors.generic', { error })
+}
+
+function sameUid(a: string, b: string): boolean {
+  return a.toLowerCase().replace(/^0x0*/, '0x') === b.toLowerCase().replace(/^0x0*/, '0x')
+}
+
+export function FirmwareFlashModal({ flash }: Props) {
+  const { t } = useTranslation()
+  const { step, target, bootloader, firmware, progress, error } = flash
+  if (step === 'idle') return null
+
+  const packageMismatch = firmware?.uid != null && target != null && !sameUid(firmware.uid, target.uid)
+  // The uid of a picked bootloader is its own, so only a package can be checked against it
+  const packageRequired = firmware != null && firmware.uid == null && !!target?.fromBootloader
+  const busy = step === 'flashing' || step === 'restoring'
+  const percent = progress && progress.total > 0 ? Math.round((progress.written / progress.total) * 100) : 0
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+      data-testid="firmware-flash-backdrop"
+    >
+      <div className="w-modal-md max-w-modal-vw rounded-lg bg-surface-alt p-6 shadow-xl">
+        <div className="mb-4 flex items-center justify-between">
+          <h3 className="text-lg font-semibold">{t('firmware.title')}</h3>
+          {!busy && <ModalCloseButton testid="firmware-flash-close" onClick={flash.close} />}
+        </div>
+
+        {(target || bootloader) && (
+          <dl className="mb-4 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+            {target && (
+              <>
+                <dt className="text-content-muted">{t('firmware.targetKeyboard')}</dt>
+                <dd className="font-mono" data-testid="firmware-target">{target.deviceName} ({target.uid})</dd>
+              </>
+            )}
+            {bootloader && (
+              <>
+                <dt className="text-content-muted">{t('firmware.bootloader')}</dt>
+                <dd className="font-mono">
+                  {bootloader.vendorId.toString(16).padStart(4, '0')}:{bootloader.productId.toString(16).padStart(4, '0')}
+                </dd>
+              </>
+            )}
+          </dl>
+        )}
+
+        {step === 'prepare' && (
+          <div className="flex flex-col gap-4">
+            <p className="text-sm text-content-secondary">{t('firmware.prepareDescription')}</p>
+            <div className="flex justify-end">
+              <button
+                type="button"
+                className={PRIMARY_BTN}
+                onClick={() => { void flash.prepare(t('firmware.snapshotLabel')) }}
+                data-testid="firmware-prepare"
+              >
+                {t('firmware.prepareContinue')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'waitBootloader' && (
+          <div className="flex flex-col gap-3">
+            {target && target.snapshotId == null && (
+              <p className="text-sm text-warning" data-testid="firmware-snapshot-failed">{t('firmware.snapshotFailed')}</p>
+            )}
+            <p className="text-sm text-content-secondary" data-testid="firmware-wait-bootloader">
+              {t('firmware.waitBootloader', { name: target?.deviceName ?? '' })}
+            </p>
+          </div>
+        )}
+
+        {step === 'ready' && (
+          <div className="flex flex-col gap-4">
+            {!target ? (
+              !error && <p className="text-sm text-content-secondary" data-testid="firmware-reading-uid">{t('firmware.readingUid')}</p>
+            ) : (
+              <>
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    className={IMPORT_BTN}
+                    onClick={() => { void flash.selectFile() }}
+                    data-testid="firmware-select-file"
+                  >
+                    {t('firmware.selectFile')}
+                  </button>
+                  {firmware && (
+                    <span className="truncate text-sm" data-testid="firmware-file-info">
+                      {t('firmware.fileInfo', { name: firmware.fileName, size: firmware.size })}
+                    </span>
+                  )}
+                </div>
+                {firmware && (
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                    <dt className="text-content-muted">{t('firmware.checksum')}</dt>
+                    <dd className="break-all font-mono">{firmware.sha256}</dd>
+                    {firmware.uid && (
+                      <>
+                        <dt className="text-content-muted">{t('firmware.packageUid')}</dt>
+                        <dd className="font-mono">{firmware.uid}</dd>
+                      </>
+                    )}
+                    {firmware.builtAt != null && (
+                      <>
+                        <dt className="text-content-muted">{t('firmware.builtAt')}</dt>
+                        <dd className="font-mono">{new Date(firmware.builtAt).toLocaleString()}</dd>
+                      </>
+                    )}
+                  </dl>
+                )}
+                {packageMismatch && (
+                  <p className="text-sm text-danger" data-testid="firmware-package-mismatch">{t('firmware.packageUidMismatch')}</p>
+                )}
+                {packageRequired && (
+                  <p className="text-sm text-danger" data-testid="firmware-package-required">{t('firmware.packageRequired')}</p>
+                )}
+                <p className="text-xs text-content-muted">{t('firmware.warning')}</p>
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    className={PRIMARY_BTN}
+                    disabled={!firmware || packageMismatch || packageRequired}
+                    onClick={() => { void flash.flash() }}
+                    data-testid="firmware-flash"
+                  >
+                    {t('firmware.flash')}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {step === 'flashing' && (
+          <div className="flex flex-col gap-2" data-testid="firmware-progress">
+            <p className="text-sm text-content-secondary">
+              {t(`firmware.phase.${progress?.phase ?? 'checking'}`, {
+                written: progress?.written ?? 0,
+                total: progress?.total ?? 0,
+              })}
+            </p>
+            <div className="h-2 overflow-hidden rounded bg-surface-dim">
+              <div className="h-full bg-accent transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="text-xs text-content-muted">{t('firmware.warning')}</p>
+          </div>
+        )}
+
+        {step === 'reconnecting' && (
+          <p className="text-sm text-content-secondary" data-testid="firmware-reconnecting">{t('firmware.reconnecting')}</p>
+        )}
+
+        {step === 'flashed' && (
+          <div className="flex flex-col gap-4">
+            <p className="text-sm text-content-secondary" data-testid="firmware-flashed">{t('firmware.flashed')}</p>
+            <div className="flex justify-end">
+              <button type="button" className={IMPORT_BTN} onClick={flash.close}>
+                {t('common.done')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {(step === 'verified' || step === 'restoring') && (
+          <div className="flex flex-col gap-4">
+            <p className="text-sm text-content-secondary" data-testid="firmware-verified">{t('firmware.verified')}</p>
+            <div className="flex justify-end gap-2">
+              {target?.snapshotId && (
+                <button
+                  type="button"
+                  className={PRIMARY_BTN}
+                  disabled={busy}
+                  onClick={() => { void flash.restore() }}
+                  data-testid="firmware-restore"
+                >
+                  {step === 'restoring' ? t('firmware.restoring') : t('firmware.restore')}
+                </button>
+              )}
+              <button type="button" className={IMPORT_BTN} disabled={busy} onClick={flash.close}>
+                {t('common.done')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'restored' && (
+          <p className="text-sm text-content-secondary" data-testid="firmware-restored">{t('firmware.restored')}</p>
+        )}
+
+        {error && (
+          <p className="mt-3 text-sm text-danger" data-testid="firmware-error">{errorMessage(t, error)}</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -99,6 +99,16 @@ describe('DeviceSelector', () => {
     expect(onConnect).toHaveBeenCalledWith(mockDevice)
   })
 
+  it('opens the firmware flasher instead of connecting for bootloader devices', () => {
+    const bootloader: DeviceInfo = { ...mockDevice, serialNumber: 'vibl:d4f8159c', type: 'bootloader' }
+    const onConnect = vi.fn()
+    const onOpenBootloader = vi.fn()
+    render(<DeviceSelector {...defaultProps} devices={[bootloader]} onConnect={onConnect} onOpenBootloader={onOpenBootloader} />)
+    fireEvent.click(screen.getByText('Test Keyboard'))
+    expect(onOpenBootloader).toHaveBeenCalledWith(bootloader)
+    expect(onConnect).not.toHaveBeenCalled()
+  })
+
   it('disables action buttons when connecting (tabs remain enabled)', () => {
     render(<DeviceSelector {...defaultProps} devices={[mockDevice]} connecting={true} onOpenSettings={vi.fn()} />)
     // Action buttons should be disabled
@@ -15,6 +15,7 @@ import { TypingAnalyticsContent } from './TypingAnalyticsContent'
 import { CloudDataContent } from './CloudDataContent'
 import { ConfirmResetRow } from './ConfirmResetRow'
 import { useDataNavTree } from './useDataNavTree'
+import { favoriteTypeLabelKey } from './data-modal-types'
 import type { FavoriteType } from '../../../shared/types/favorite-store'
 import type { FavHubEntryResult } from '../editors/FavoriteHubActions'
 import type { UseSyncReturn } from '../../hooks/useSync'
@@ -197,7 +198,7 @@ export function DataModal({
     if (path.page === 'sync-favorite') {
       return (
         <div className="py-4 text-center text-sm text-content-muted">
-          {t(`editor.${path.favoriteType}.title`)}
+          {t(favoriteTypeLabelKey(path.favoriteType))}
         </div>
       )
     }
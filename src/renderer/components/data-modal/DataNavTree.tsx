@@ -42,6 +42,9 @@ const FAVORITE_TYPES: { type: FavoriteType; labelKey: string }[] = [
   { type: 'combo', labelKey: 'editor.combo.title' },
   { type: 'keyOverride', labelKey: 'editor.keyOverride.title' },
   { type: 'altRepeatKey', labelKey: 'editor.altRepeatKey.title' },
+  { type: 'layer', labelKey: 'favoriteStore.types.layer' },
+  { type: 'encoder', labelKey: 'favoriteStore.types.encoder' },
+  { type: 'qmkSettings', labelKey: 'favoriteStore.types.qmkSettings' },
 ]
 
 function isActivePath(a: DataNavPath | null, b: DataNavPath): boolean {
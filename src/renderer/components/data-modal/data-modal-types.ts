@@ -1,6 +1,8 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 
 import type { FavoriteType } from '../../../shared/types/favorite-store'
+import { isValidFavoriteType } from '../../../shared/favorite-data'
+import { TYPE_LABEL_KEYS } from '../editors/favorite-type-labels'
 
 /** Discriminated union describing the active navigation path in the Data modal. */
 export type DataNavPath =
@@ -23,7 +25,7 @@ export function breadcrumbSegments(
     case 'keyboard':
       return [t('dataModal.local'), t('dataModal.keyboards'), path.name]
     case 'favorite':
-      return [t('dataModal.local'), t('dataModal.favorites'), t(`editor.${path.favoriteType}.title`)]
+      return [t('dataModal.local'), t('dataModal.favorites'), t(favoriteTypeLabelKey(path.favoriteType))]
     case 'application':
       return [t('dataModal.local'), t('dataModal.application')]
     case 'typing':
@@ -31,7 +33,7 @@ export function breadcrumbSegments(
     case 'sync-keyboard':
       return [t('dataModal.sync'), t('dataModal.keyboards'), path.name]
     case 'sync-favorite':
-      return [t('dataModal.sync'), t('dataModal.favorites'), t(`editor.${path.favoriteType}.title`)]
+      return [t('dataModal.sync'), t('dataModal.favorites'), t(favoriteTypeLabelKey(path.favoriteType))]
     case 'sync-typing-device':
       return [t('dataModal.sync'), t('dataModal.typing.title'), path.name, path.deviceLabel]
     case 'cloud-data':
@@ -50,7 +52,7 @@ export function navTitle(
     case 'keyboard':
       return path.name
     case 'favorite':
-      return t(`editor.${path.favoriteType}.title`)
+      return t(favoriteTypeLabelKey(path.favoriteType))
     case 'application':
       return t('dataModal.application')
     case 'typing':
@@ -58,7 +60,7 @@ export function navTitle(
     case 'sync-keyboard':
       return path.name
     case 'sync-favorite':
-      return t(`editor.${path.favoriteType}.title`)
+      return t(favoriteTypeLabelKey(path.favoriteType))
     case 'sync-typing-device':
       return `${path.name} — ${path.deviceLabel}`
     case 'cloud-data':
@@ -67,3 +69,8 @@ export function navTitle(
       return path.keyboardName
   }
 }
+
+/** i18n key naming a favorite type; sync paths carry the raw type string. */
+export function favoriteTypeLabelKey(type: string): string {
+  return isValidFavoriteType(type) ? TYPE_LABEL_KEYS[type] : `editor.${type}.title`
+}
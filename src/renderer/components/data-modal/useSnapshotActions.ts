@@ -3,7 +3,7 @@
 
 import { useCallback } from 'react'
 import { decodeLayoutOptions } from '../../../shared/kle/layout-options'
-import { generateKeymapC } from '../../../shared/keymap-export'
+import { generateKeymapC, generateKeymapExportFiles } from '../../../shared/keymap-export'
 import { generateKeymapPdf } from '../../../shared/pdf-export'
 import { generatePdfThumbnail } from '../../utils/pdf-thumbnail'
 import { isVilFile, recordToMap, deriveLayerCount } from '../../../shared/vil-file'
@@ -14,7 +14,10 @@ import {
   deserializeMacro,
   macroActionsToJson,
   jsonToMacroActions,
+  expandMacroActions,
 } from '../../../preload/macro'
+import type { HostLayoutMap } from '../../../preload/macro-unicode'
+import { useKeyLabelLookup, type UseKeyLabelLookupReturn } from '../../hooks/useKeyLabelLookup'
 import {
   serialize as serializeKeycode,
   serializeForCExport,
@@ -47,7 +50,19 @@ function loadVilData(uid: string, entryId: string): Promise<VilFile | null> {
   }).catch(() => null)
 }
 
-function buildParams(vilData: VilFile) {
+/** The board's host layout for unicode macro actions, from its layout preference. */
+async function loadHostLayout(uid: string, lookup: UseKeyLabelLookupReturn): Promise<HostLayoutMap | null> {
+  try {
+    const layout = (await window.vialAPI.pipetteSettingsGet(uid))?.keyboardLayout
+    if (!layout) return null
+    await lookup.ensure(layout)
+    return lookup.getMap(layout) ?? null
+  } catch {
+    return null
+  }
+}
+
+function buildParams(vilData: VilFile, hostLayout: HostLayoutMap | null = null) {
   const def = vilData.definition!
   const kleResult = parseKle(def.layouts.keymap as unknown[][])
   const labels = def.layouts?.labels
@@ -72,14 +87,17 @@ function buildParams(vilData: VilFile) {
     combo: vilData.combo,
     keyOverride: vilData.keyOverride,
     altRepeatKey: vilData.altRepeatKey,
+    qmkSettings: vilData.qmkSettings,
     macros: vilData.macroJson
-      ? vilData.macroJson.map((m) => jsonToMacroActions(JSON.stringify(m)) ?? [])
+      ? vilData.macroJson.map((m) => expandMacroActions(jsonToMacroActions(JSON.stringify(m)) ?? [], hostLayout))
       : splitMacroBuffer(vilData.macros, macroCount)
           .map((m) => deserializeMacro(m, vialProtocol)),
   }
 }
 
 export function useSnapshotActions({ uid, deviceName }: Options) {
+  const lookup = useKeyLabelLookup()
+
   const handleExportVil = useCallback(async (entryId: string) => {
     try {
       const vilData = await loadVilData(uid, entryId)
@@ -110,17 +128,18 @@ export function useSnapshotActions({ uid, deviceName }: Options) {
     try {
       const vilData = await loadVilData(uid, entryId)
       if (!vilData) return
-      const content = generateKeymapC({ ...buildParams(vilData), serializeKeycode: serializeForCExport })
-      await window.vialAPI.exportKeymapC(content, deviceName)
+      const params = buildParams(vilData, await loadHostLayout(uid, lookup))
+      const files = generateKeymapExportFiles({ ...params, serializeKeycode: serializeForCExport })
+      await window.vialAPI.exportKeymapC(files, deviceName)
     } catch { /* non-critical */ }
-  }, [uid, deviceName])
+  }, [uid, deviceName, lookup])
 
   const handleExportPdf = useCallback(async (entryId: string) => {
     try {
       const vilData = await loadVilData(uid, entryId)
       if (!vilData) return
       const base64 = generateKeymapPdf({
-        ...buildParams(vilData),
+        ...buildParams(vilData, await loadHostLayout(uid, lookup)),
         deviceName,
         keycodeLabel,
         isMask,
@@ -129,13 +148,13 @@ export function useSnapshotActions({ uid, deviceName }: Options) {
       })
       await window.vialAPI.exportPdf(base64, deviceName)
     } catch { /* non-critical */ }
-  }, [uid, deviceName])
+  }, [uid, deviceName, lookup])
 
   const handleUploadToHub = useCallback(async (entryId: string, label: string) => {
     try {
       const vilData = await loadVilData(uid, entryId)
       if (!vilData) return
-      const params = buildParams(vilData)
+      const params = buildParams(vilData, await loadHostLayout(uid, lookup))
       const pdfBase64 = generateKeymapPdf({
         ...params,
         deviceName,
@@ -168,13 +187,13 @@ export function useSnapshotActions({ uid, deviceName }: Options) {
       const _entry = listResult.entries?.find((e) => e.id === entryId)
       // hubPostId is updated server-side via the upload response
     } catch { /* non-critical */ }
-  }, [uid, deviceName])
+  }, [uid, deviceName, lookup])
 
   const handleUpdateOnHub = useCallback(async (entryId: string, hubPostId: string, label: string) => {
     try {
       const vilData = await loadVilData(uid, entryId)
       if (!vilData) return
-      const params = buildParams(vilData)
+      const params = buildParams(vilData, await loadHostLayout(uid, lookup))
       const pdfBase64 = generateKeymapPdf({
         ...params,
         deviceName,
@@ -204,7 +223,7 @@ export function useSnapshotActions({ uid, deviceName }: Options) {
         thumbnailBase64,
       })
     } catch { /* non-critical */ }
-  }, [uid, deviceName])
+  }, [uid, deviceName, lookup])
 
   const handleRemoveFromHub = useCallback(async (hubPostId: string) => {
     try {
@@ -0,0 +1,209 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// "Keyboard" settings panel: renders the VIA v3 custom menus declared in the
+// keyboard definition (toggle / range / dropdown / color / keycode controls,
+// with showIf visibility) and binds them to id_custom_get/set_value.
+
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { evaluateShowIf } from '../../../shared/via-custom-menus'
+import type { CustomMenu, CustomMenuControl, CustomMenuValues } from '../../../shared/via-custom-menus'
+import { serialize, deserialize } from '../../../shared/keycodes/keycodes'
+import { useCustomMenuValues } from '../../hooks/useCustomMenuValues'
+import { hsvToRgb, rgbToHex } from './HSVColorPicker'
+import { toggleTrackClass, toggleKnobClass } from './modal-controls'
+
+interface Props {
+  menus: CustomMenu[]
+}
+
+const SELECT_CLASS = 'flex-1 rounded border border-edge bg-surface px-2 py-1 text-sm focus:border-accent focus:outline-none'
+const INPUT_CLASS = 'w-40 rounded border border-edge bg-transparent px-1.5 py-0.5 font-mono text-xs focus:border-accent focus:outline-none'
+
+function controlTestId(control: CustomMenuControl): string {
+  return `custom-menu-${control.key}`
+}
+
+function KeycodeInput({ control, value, onChange }: {
+  control: CustomMenuControl
+  value: number
+  onChange: (v: number) => void
+}) {
+  const { t } = useTranslation()
+  const [draft, setDraft] = useState<string | null>(null)
+  const [invalid, setInvalid] = useState(false)
+
+  function commit(): void {
+    if (draft === null) return
+    const text = draft.trim()
+    const code = deserialize(text)
+    // deserialize() maps unknown names to 0, so only KC_NO may legitimately yield 0
+    if (code === 0 && text !== 'KC_NO' && text !== '0') {
+      setInvalid(true)
+      return
+    }
+    setInvalid(false)
+    setDraft(null)
+    if (code !== value) onChange(code & 0xffff)
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-0.5">
+      <input
+        className={`${INPUT_CLASS} ${invalid ? 'border-danger' : ''}`}
+        value={draft ?? serialize(value)}
+        aria-label={control.label}
+        aria-invalid={invalid || undefined}
+        onFocus={() => setDraft(serialize(value))}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur()
+          if (e.key === 'Escape') {
+            setDraft(null)
+            setInvalid(false)
+            e.currentTarget.blur()
+          }
+        }}
+        data-testid={controlTestId(control)}
+      />
+      {invalid && <span className="text-xs text-danger">{t('editor.customMenus.invalidKeycode')}</span>}
+    </div>
+  )
+}
+
+function ColorInput({ control, value, onChange }: {
+  control: CustomMenuControl
+  value: number
+  onChange: (v: number) => void
+}) {
+  const { t } = useTranslation()
+  const hue = (value >> 8) & 0xff
+  const sat = value & 0xff
+  const swatch = rgbToHex(...hsvToRgb(hue, sat, 255))
+
+  return (
+    <div className="flex flex-1 items-center gap-3" data-testid={controlTestId(control)}>
+      <span className="h-6 w-6 shrink-0 rounded border border-edge" style={{ backgroundColor: swatch }} />
+      <div className="flex flex-1 flex-col gap-1">
+        <input
+          type="range"
+          min={0}
+          max={255}
+          value={hue}
+          aria-label={`${control.label} ${t('editor.lighting.hue')}`}
+          onChange={(e) => onChange((Number(e.target.value) << 8) | sat)}
+        />
+        <input
+          type="range"
+          min={0}
+          max={255}
+          value={sat}
+          aria-label={`${control.label} ${t('editor.lighting.saturation')}`}
+          onChange={(e) => onChange((hue << 8) | Number(e.target.value))}
+        />
+      </div>
+    </div>
+  )
+}
+
+function ControlInput({ control, value, onChange }: {
+  control: CustomMenuControl
+  value: number
+  onChange: (v: number) => void
+}) {
+  switch (control.type) {
+    case 'toggle': {
+      const on = value === control.max
+      return (
+        <button
+          type="button"
+          role="switch"
+          aria-checked={on}
+          aria-label={control.label}
+          className={toggleTrackClass(on)}
+          onClick={() => onChange(on ? control.min : control.max)}
+          data-testid={controlTestId(control)}
+        >
+          <span className={toggleKnobClass(on)} />
+        </button>
+      )
+    }
+    case 'range':
+      return (
+        <div className="flex flex-1 items-center gap-3">
+          <input
+            type="range"
+            min={control.min}
+            max={control.max}
+            value={value}
+            aria-label={control.label}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="flex-1"
+            data-testid={controlTestId(control)}
+          />
+          <span className="w-12 text-right text-sm">{value}</span>
+        </div>
+      )
+    case 'dropdown':
+      return (
+        <select
+          value={value}
+          aria-label={control.label}
+          onChange={(e) => onChange(Number(e.target.value))}
+          className={SELECT_CLASS}
+          data-testid={controlTestId(control)}
+        >
+          {/* Keep an out-of-range firmware value visible instead of silently showing the first option */}
+          {!control.choices.some((c) => c.value === value) && <option value={value}>{value}</option>}
+          {control.choices.map((choice) => (
+            <option key={choice.value} value={choice.value}>{choice.label}</option>
+          ))}
+        </select>
+      )
+    case 'color':
+      return <ColorInput control={control} value={value} onChange={onChange} />
+    case 'keycode':
+      return <KeycodeInput control={control} value={value} onChange={onChange} />
+  }
+}
+
+function isVisible(showIf: string | undefined, values: CustomMenuValues): boolean {
+  return evaluateShowIf(showIf, values)
+}
+
+export function CustomMenusPanel({ menus }: Props) {
+  const { t } = useTranslation()
+  const { values, loading, error, setValue } = useCustomMenuValues(menus)
+
+  if (loading) {
+    return <div className="p-4 text-content-muted" data-testid="custom-menus-loading">{t('common.loading')}</div>
+  }
+
+  return (
+    <div className="flex max-w-md flex-col gap-6" data-testid="custom-menus-panel">
+      {error && (
+        <div className="text-sm text-danger" data-testid="custom-menus-error">{t('editor.customMenus.error')}</div>
+      )}
+      {menus.map((menu, menuIndex) => (
+        <section key={menuIndex} className="flex flex-col gap-4">
+          {menus.length > 1 && <h3 className="text-base font-medium">{menu.label}</h3>}
+          {menu.sections.filter((section) => isVisible(section.showIf, values)).map((section, sectionIndex) => (
+            <div key={sectionIndex} className="flex flex-col gap-3">
+              {section.label && <h4 className="text-sm font-semibold text-content-secondary">{section.label}</h4>}
+              {section.controls.filter((control) => isVisible(control.showIf, values)).map((control, controlIndex) => (
+                <div key={`${control.key}-${controlIndex}`} className="flex items-center gap-3">
+                  <label className="min-w-rgb-label text-sm">{control.label}</label>
+                  <ControlInput
+                    control={control}
+                    value={values[control.key] ?? 0}
+                    onChange={(v) => { void setValue(control, v) }}
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+        </section>
+      ))}
+    </div>
+  )
+}
@@ -1,14 +1,21 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useInlineRename } from '../../hooks/useInlineRename'
 import { ACTION_BTN, CONFIRM_DELETE_BTN, DELETE_BTN, SectionHeader, formatDate } from './store-modal-shared'
 import { BTN_PRIMARY } from '../../constants/ui-tokens'
 import { FavoriteHubActions } from './FavoriteHubActions'
 import type { FavHubEntryResult } from './FavoriteHubActions'
-import type { FavoriteType, SavedFavoriteMeta } from '../../../shared/types/favorite-store'
+import type { SavedFavoriteMeta } from '../../../shared/types/favorite-store'
 import type { FavoriteImportResultState } from '../../hooks/useFavoriteStore'
+import {
+  FAVORITE_SORT_ORDERS,
+  collectFavoriteTags,
+  filterFavoriteEntries,
+  parseTagInput,
+  type FavoriteSortOrder,
+} from './favorite-store-filter'
 
 export function formatImportMessage(t: (key: string, opts?: Record<string, unknown>) => string, result: FavoriteImportResultState): string {
   if (result.imported === 0) return t('favoriteStore.importEmpty')
@@ -16,13 +23,7 @@ export function formatImportMessage(t: (key: string, opts?: Record<string, unkno
   return t('favoriteStore.importSuccess', { imported: result.imported })
 }
 
-export const TYPE_LABEL_KEYS: Record<FavoriteType, string> = {
-  tapDance: 'editor.tapDance.title',
-  macro: 'editor.macro.title',
-  combo: 'editor.combo.title',
-  keyOverride: 'editor.keyOverride.title',
-  altRepeatKey: 'editor.altRepeatKey.title',
-}
+const FILTER_SELECT = 'rounded border border-edge bg-surface px-1.5 py-1 text-xs text-content focus:border-accent focus:outline-none'
 
 export interface FavoriteStoreContentProps {
   entries: SavedFavoriteMeta[]
@@ -53,6 +54,12 @@ export interface FavoriteStoreContentProps {
   onRemoveFromHub?: (entryId: string) => void
   onRenameOnHub?: (entryId: string, hubPostId: string, newLabel: string) => void
   onRefreshEntries?: () => void
+  // Tags and content search (optional)
+  onSetTags?: (entryId: string, tags: string[]) => Promise<boolean> | void
+  /** Decoded content per entry id, searched along with labels and tags. */
+  searchTexts?: ReadonlyMap<string, string>
+  /** Called when a search starts so the caller can load `searchTexts`. */
+  onSearchContent?: () => void
 }
 
 export function FavoriteStoreContent({
@@ -81,6 +88,9 @@ export function FavoriteStoreContent({
   onRemoveFromHub,
   onRenameOnHub,
   onRefreshEntries,
+  onSetTags,
+  searchTexts,
+  onSearchContent,
 }: FavoriteStoreContentProps) {
   const { t } = useTranslation()
   const [saveLabel, setSaveLabel] = useState('')
@@ -90,6 +100,28 @@ export function FavoriteStoreContent({
   const [showImported, setShowImported] = useState(false)
   const exportedTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
   const importedTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const [search, setSearch] = useState('')
+  const [tagFilter, setTagFilter] = useState<string | null>(null)
+  const [sort, setSort] = useState<FavoriteSortOrder>('stored')
+  const [editingTagsId, setEditingTagsId] = useState<string | null>(null)
+  const [tagsDraft, setTagsDraft] = useState('')
+
+  const allTags = useMemo(() => collectFavoriteTags(entries), [entries])
+  const visibleEntries = useMemo(
+    () => filterFavoriteEntries(entries, { search, tag: tagFilter, sort }, searchTexts),
+    [entries, search, tagFilter, sort, searchTexts],
+  )
+
+  // Content is loaded whenever a search is active so newly saved or imported entries are searched too
+  const searching = search.trim().length > 0
+  useEffect(() => {
+    if (searching) onSearchContent?.()
+  }, [searching, entries, onSearchContent])
+
+  // A tag filter whose last entry lost the tag would hide everything
+  useEffect(() => {
+    if (tagFilter !== null && !allTags.includes(tagFilter)) setTagFilter(null)
+  }, [allTags, tagFilter])
 
   function flashExported(): void {
     setShowExported(true)
@@ -140,6 +172,26 @@ export function FavoriteStoreContent({
     }
   }
 
+  function startEditTags(entry: SavedFavoriteMeta): void {
+    setEditingTagsId(entry.id)
+    setTagsDraft((entry.tags ?? []).join(', '))
+  }
+
+  function commitTags(entryId: string): void {
+    if (editingTagsId !== entryId) return
+    setEditingTagsId(null)
+    void onSetTags?.(entryId, parseTagInput(tagsDraft))
+  }
+
+  function handleTagsKeyDown(e: React.KeyboardEvent, entryId: string): void {
+    if (e.key === 'Enter') {
+      commitTags(entryId)
+    } else if (e.key === 'Escape') {
+      e.stopPropagation()
+      setEditingTagsId(null)
+    }
+  }
+
   function handleRenameKeyDown(e: React.KeyboardEvent, entryId: string): void {
     if (e.key === 'Enter') {
       void commitRename(entryId)
@@ -206,6 +258,44 @@ export function FavoriteStoreContent({
         {/* Synced Data header */}
         <div className="pt-5">
           <SectionHeader label={t('common.synced')} count={entries.length} />
+          {entries.length > 0 && (
+            <div className="mb-2 flex items-center gap-1.5">
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder={t('favoriteStore.searchPlaceholder')}
+                aria-label={t('favoriteStore.searchPlaceholder')}
+                className="min-w-0 flex-1 rounded border border-edge bg-surface px-2 py-1 text-xs text-content placeholder:text-content-muted focus:border-accent focus:outline-none"
+                data-testid="favorite-store-search"
+              />
+              {allTags.length > 0 && (
+                <select
+                  value={tagFilter ?? ''}
+                  onChange={(e) => setTagFilter(e.target.value || null)}
+                  aria-label={t('favoriteStore.tagFilter')}
+                  className={FILTER_SELECT}
+                  data-testid="favorite-store-tag-filter"
+                >
+                  <option value="">{t('favoriteStore.allTags')}</option>
+                  {allTags.map((tag) => (
+                    <option key={tag} value={tag}>{tag}</option>
+                  ))}
+                </select>
+              )}
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value as FavoriteSortOrder)}
+                aria-label={t('favoriteStore.sortLabel')}
+                className={FILTER_SELECT}
+                data-testid="favorite-store-sort"
+              >
+                {FAVORITE_SORT_ORDERS.map((order) => (
+                  <option key={order} value={order}>{t(`favoriteStore.sort.${order}`)}</option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
       </div>
 
@@ -221,9 +311,15 @@ export function FavoriteStoreContent({
           </div>
         )}
 
-        {!loading && entries.length > 0 && (
+        {!loading && entries.length > 0 && visibleEntries.length === 0 && (
+          <div className="py-4 text-center text-sm text-content-muted" data-testid="favorite-store-no-match">
+            {t('favoriteStore.noMatch')}
+          </div>
+        )}
+
+        {!loading && visibleEntries.length > 0 && (
           <div className="flex flex-col gap-1.5" data-testid="favorite-store-list">
-            {entries.map((entry) => (
+            {visibleEntries.map((entry) => (
               <div
                 key={entry.id}
                 className={`rounded-lg border border-edge bg-surface/20 p-3 hover:border-content-muted/30 ${rename.confirmedId === entry.id ? 'confirm-flash' : ''}`}
@@ -297,19 +393,59 @@ export function FavoriteStoreContent({
                   </div>
                 </div>
 
+                {editingTagsId === entry.id ? (
+                  <input
+                    type="text"
+                    value={tagsDraft}
+                    onChange={(e) => setTagsDraft(e.target.value)}
+                    onBlur={() => commitTags(entry.id)}
+                    onKeyDown={(e) => handleTagsKeyDown(e, entry.id)}
+                    placeholder={t('favoriteStore.tagsPlaceholder')}
+                    className="mb-1 w-full border-b border-edge bg-transparent px-1 text-xs text-content focus:outline-none focus:border-accent"
+                    data-testid="favorite-store-tags-input"
+                    autoFocus
+                  />
+                ) : entry.tags && entry.tags.length > 0 && (
+                  <div className="mb-1 flex flex-wrap gap-1">
+                    {entry.tags.map((tag) => (
+                      <button
+                        key={tag}
+                        type="button"
+                        className={`rounded px-1.5 py-px text-2xs ${tag === tagFilter ? 'bg-accent text-content-inverse' : 'bg-accent/20 text-accent'}`}
+                        onClick={() => setTagFilter(tag === tagFilter ? null : tag)}
+                        data-testid="favorite-store-entry-tag"
+                      >
+                        {tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between">
                   <span className="text-xs text-content-muted font-mono">
                     {formatDate(entry.savedAt)}
                   </span>
-                  <button
-                    type="button"
-                    disabled={exporting || importing}
-                    className={ACTION_BTN}
-                    onClick={() => onExportEntry(entry.id)}
-                    data-testid="favorite-store-export-entry-btn"
-                  >
-                    {t('favoriteStore.export')}
-                  </button>
+                  <div className="flex items-center gap-0.5">
+                    {onSetTags && (
+                      <button
+                        type="button"
+                        className={ACTION_BTN}
+                        onClick={() => startEditTags(entry)}
+                        data-testid="favorite-store-tags-btn"
+                      >
+                        {t('favoriteStore.tags')}
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      disabled={exporting || importing}
+                      className={ACTION_BTN}
+                      onClick={() => onExportEntry(entry.id)}
+                      data-testid="favorite-store-export-entry-btn"
+                    >
+                      {t('favoriteStore.export')}
+                    </button>
+                  </div>
                 </div>
 
                 <FavoriteHubActions
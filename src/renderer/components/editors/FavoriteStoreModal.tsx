@@ -3,7 +3,8 @@
 import { useTranslation } from 'react-i18next'
 import { useEscapeClose } from '../../hooks/useEscapeClose'
 import { ModalCloseButton } from './ModalCloseButton'
-import { FavoriteStoreContent, TYPE_LABEL_KEYS, type FavoriteStoreContentProps } from './FavoriteStoreContent'
+import { FavoriteStoreContent, type FavoriteStoreContentProps } from './FavoriteStoreContent'
+import { TYPE_LABEL_KEYS } from './favorite-type-labels'
 import type { FavoriteType } from '../../../shared/types/favorite-store'
 
 interface Props extends FavoriteStoreContentProps {
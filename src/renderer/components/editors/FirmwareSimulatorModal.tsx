@@ -0,0 +1,179 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Firmware simulator panel: clicking keys on the keyboard builds a timed
+// press / release sequence, which `shared/keymap/firmware-sim` replays
+// against the live configuration. Shows the resulting text, the HID report
+// stream and how each tap-hold / tap-dance key was settled. Nothing is
+// sent to the keyboard.
+
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { serialize } from '../../../shared/keycodes/keycodes'
+import { simulateFirmware } from '../../../shared/keymap/firmware-sim'
+import type { FirmwareSimEvent, FirmwareSimInput } from '../../../shared/keymap/firmware-sim'
+import { posKey } from '../../../shared/kle/pos-key'
+import type { KleKey } from '../../../shared/kle/types'
+import { KeyboardWidget } from '../keyboard/KeyboardWidget'
+import { ModalCloseButton } from './ModalCloseButton'
+import { useEscapeClose } from '../../hooks/useEscapeClose'
+import { BTN_SECONDARY } from '../../constants/ui-tokens'
+
+interface Props {
+  input: FirmwareSimInput
+  keys: KleKey[]
+  keycodesForLayer: (layer: number) => Map<string, string>
+  layerLabel: (layer: number) => string
+  onClose: () => void
+}
+
+const DEFAULT_TAP_MS = 50
+const DEFAULT_GAP_MS = 150
+const MOD_NAMES = ['LCtl', 'LSft', 'LAlt', 'LGui', 'RCtl', 'RSft', 'RAlt', 'RGui']
+const NUMBER_INPUT_CLASS = 'w-20 rounded border border-edge bg-surface px-2 py-1 text-sm focus:border-accent focus:outline-none'
+
+function reportLabel(mods: number, keys: readonly number[]): string {
+  const parts = MOD_NAMES.filter((_, bit) => mods & (1 << bit))
+  parts.push(...keys.map((code) => serialize(code)))
+  return parts.length > 0 ? parts.join(' + ') : '—'
+}
+
+function toMs(value: string): number {
+  return Math.max(0, parseInt(value, 10) || 0)
+}
+
+export function FirmwareSimulatorModal({ input, keys, keycodesForLayer, layerLabel, onClose }: Props) {
+  const { t } = useTranslation()
+  const [events, setEvents] = useState<FirmwareSimEvent[]>([])
+  const [clock, setClock] = useState(0)
+  const [held, setHeld] = useState<Set<string>>(() => new Set())
+  const [tapMs, setTapMs] = useState(DEFAULT_TAP_MS)
+  const [gapMs, setGapMs] = useState(DEFAULT_GAP_MS)
+  useEscapeClose(onClose)
+
+  const result = useMemo(() => simulateFirmware(input, events), [input, events])
+  const activeLayer = 31 - Math.clz32((result.layerState | (1 << result.defaultLayer)) >>> 0)
+  const keycodes = useMemo(() => keycodesForLayer(activeLayer), [keycodesForLayer, activeLayer])
+
+  // Click taps a key; Shift+click presses it until it is clicked again
+  function handleKeyClick(key: KleKey, _maskClicked: boolean, event?: { shiftKey: boolean }): void {
+    const pos = posKey(key.row, key.col)
+    const next = new Set(held)
+    const added: FirmwareSimEvent[] = []
+    if (held.has(pos)) {
+      next.delete(pos)
+      added.push({ time: clock, row: key.row, col: key.col, pressed: false })
+    } else if (event?.shiftKey) {
+      next.add(pos)
+      added.push({ time: clock, row: key.row, col: key.col, pressed: true })
+    } else {
+      added.push({ time: clock, row: key.row, col: key.col, pressed: true }, { time: clock + tapMs, row: key.row, col: key.col, pressed: false })
+    }
+    setEvents([...events, ...added])
+    setHeld(next)
+    setClock(clock + gapMs)
+  }
+
+  function handleReset(): void {
+    setEvents([])
+    setHeld(new Set())
+    setClock(0)
+  }
+
+  const { settings } = input
+  const enabledOptions = [
+    settings.permissiveHold && t('editor.keymap.simulator.permissiveHold'),
+    settings.holdOnOtherKeyPress && t('editor.keymap.simulator.holdOnOtherKeyPress'),
+    settings.chordalHold && t('editor.keymap.simulator.chordalHold'),
+  ].filter(Boolean)
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" data-testid="firmware-sim" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        className="w-modal-xl max-w-modal-xl-vw max-h-modal-90vh overflow-y-auto rounded-lg bg-surface-alt p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-1 flex items-center justify-between">
+          <h3 className="text-lg font-semibold">{t('editor.keymap.simulator.title')}</h3>
+          <ModalCloseButton testid="firmware-sim-close" onClick={onClose} />
+        </div>
+        <p className="mb-1 text-xs text-content-muted">{t('editor.keymap.simulator.description')}</p>
+        <p className="mb-3 text-xs text-content-muted" data-testid="firmware-sim-settings">
+          {t('editor.keymap.simulator.settings', { tappingTerm: settings.tappingTermMs, comboTerm: settings.comboTermMs })}
+          {enabledOptions.length > 0 && ` · ${enabledOptions.join(' · ')}`}
+        </p>
+
+        <div className="mb-3 flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-1">
+            <span className="text-content-secondary">{t('editor.keymap.simulator.tapMs')}</span>
+            <input type="number" min={0} value={tapMs} onChange={(e) => setTapMs(toMs(e.target.value))} className={NUMBER_INPUT_CLASS} data-testid="firmware-sim-tap-ms" />
+          </label>
+          <label className="flex items-center gap-1">
+            <span className="text-content-secondary">{t('editor.keymap.simulator.gapMs')}</span>
+            <input type="number" min={0} value={gapMs} onChange={(e) => setGapMs(toMs(e.target.value))} className={NUMBER_INPUT_CLASS} data-testid="firmware-sim-gap-ms" />
+          </label>
+          <button type="button" className={BTN_SECONDARY} onClick={() => setClock(clock + settings.tappingTermMs)} data-testid="firmware-sim-wait">
+            {t('editor.keymap.simulator.wait', { ms: settings.tappingTermMs })}
+          </button>
+          <button type="button" className={BTN_SECONDARY} onClick={handleReset} disabled={events.length === 0} data-testid="firmware-sim-reset">
+            {t('editor.keymap.simulator.reset')}
+          </button>
+          <span className="ml-auto text-xs text-content-muted" data-testid="firmware-sim-layer">
+            {t('editor.keymap.simulator.activeLayer', { layer: layerLabel(activeLayer) })}
+          </span>
+        </div>
+
+        <p className="mb-2 text-xs text-content-muted">{t('editor.keymap.simulator.hint')}</p>
+        <div className="mb-4 flex justify-center overflow-x-auto">
+          <KeyboardWidget keys={keys} keycodes={keycodes} pressedKeys={held} onKeyClick={handleKeyClick} scale={0.8} />
+        </div>
+
+        <h4 className="mb-1 text-sm font-semibold">{t('editor.keymap.simulator.text')}</h4>
+        <pre className="mb-4 min-h-8 whitespace-pre-wrap break-all rounded border border-edge bg-surface px-2 py-1 font-mono text-sm" data-testid="firmware-sim-text">
+          {result.text}
+        </pre>
+
+        {events.length === 0 ? (
+          <p className="text-sm text-content-muted" data-testid="firmware-sim-empty">{t('editor.keymap.simulator.noEvents')}</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <h4 className="mb-1 text-sm font-semibold">{t('editor.keymap.simulator.reports')}</h4>
+              <ol className="flex flex-col font-mono text-xs">
+                {result.reports.map((report, i) => (
+                  <li key={i} className="flex gap-2" data-testid="firmware-sim-report">
+                    <span className="w-14 shrink-0 text-right text-content-muted">{report.time} ms</span>
+                    <span>{reportLabel(report.mods, report.keys)}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+            <div>
+              <h4 className="mb-1 text-sm font-semibold">{t('editor.keymap.simulator.decisions')}</h4>
+              <ol className="flex flex-col text-xs">
+                {result.decisions.map((decision, i) => (
+                  <li key={i} className="flex gap-2" data-testid="firmware-sim-decision">
+                    <span className="w-14 shrink-0 text-right font-mono text-content-muted">{decision.time} ms</span>
+                    <span>
+                      {t('editor.keymap.simulator.decision', {
+                        keycode: serialize(decision.keycode),
+                        outcome: t(`editor.keymap.simulator.outcome.${decision.outcome}`),
+                        reason: t(`editor.keymap.simulator.reason.${decision.reason}`),
+                      })}
+                    </span>
+                  </li>
+                ))}
+                {result.combos.map((index, i) => (
+                  <li key={`combo-${i}`} className="flex gap-2" data-testid="firmware-sim-combo">
+                    <span className="w-14 shrink-0" />
+                    <span>{t('editor.keymap.simulator.comboFired', { index })}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Records the editor's HID traffic into a capture file for bug reports.
+// Starting a recording reloads the keyboard so the capture holds the whole
+// connect/reload sequence; the file can be replayed with PIPETTE_HID_REPLAY.
+
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { DeviceInfo, KeyboardDefinition } from '../../../shared/types/protocol'
+
+interface Props {
+  device: DeviceInfo
+  definition: KeyboardDefinition | null
+  onReload: () => Promise<unknown>
+}
+
+type Status =
+  | { kind: 'idle' }
+  | { kind: 'recording' }
+  | { kind: 'saved'; exchanges: number }
+  | { kind: 'error'; messageKey: string }
+
+export function HidCapturePanel({ device, definition, onReload }: Props) {
+  const { t } = useTranslation()
+  const [status, setStatus] = useState<Status>({ kind: 'idle' })
+  const [scrub, setScrub] = useState(true)
+  const [busy, setBusy] = useState(false)
+
+  // A recording keeps running in main while this panel is closed
+  useEffect(() => {
+    let cancelled = false
+    void window.vialAPI.hidCaptureStatus().then((s) => {
+      if (!cancelled && s.recording) setStatus({ kind: 'recording' })
+    })
+    return () => { cancelled = true }
+  }, [])
+
+  const start = useCallback(async () => {
+    setBusy(true)
+    try {
+      await window.vialAPI.hidCaptureStart(device)
+      setStatus({ kind: 'recording' })
+      await onReload()
+    } catch {
+      setStatus({ kind: 'error', messageKey: 'hidCapture.startFailed' })
+    } finally {
+      setBusy(false)
+    }
+  }, [device, onReload])
+
+  const stop = useCallback(async () => {
+    setBusy(true)
+    try {
+      const result = await window.vialAPI.hidCaptureStop(definition, scrub)
+      if (result.success) {
+        setStatus({ kind: 'saved', exchanges: result.exchanges ?? 0 })
+      } else if (result.error === 'cancelled') {
+        setStatus({ kind: 'idle' })
+      } else {
+        setStatus({ kind: 'error', messageKey: 'hidCapture.saveFailed' })
+      }
+    } finally {
+      setBusy(false)
+    }
+  }, [definition, scrub])
+
+  const recording = status.kind === 'recording'
+
+  return (
+    <div className="flex flex-col gap-2" data-testid="hid-capture-panel">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="text-sm font-medium">{t('hidCapture.title')}</div>
+          <div className="text-xs text-content-muted">{t('hidCapture.description')}</div>
+        </div>
+        <button
+          type="button"
+          className="shrink-0 rounded border px-3 py-1.5 text-sm"
+          data-testid={recording ? 'hid-capture-stop' : 'hid-capture-start'}
+          disabled={busy}
+          onClick={() => void (recording ? stop() : start())}
+        >
+          {t(recording ? 'hidCapture.stop' : 'hidCapture.start')}
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-xs text-content-secondary">
+        <input
+          type="checkbox"
+          checked={scrub}
+          onChange={(e) => setScrub(e.target.checked)}
+          data-testid="hid-capture-scrub"
+        />
+        {t('hidCapture.scrub')}
+      </label>
+      {recording && (
+        <p className="text-sm text-content-muted" data-testid="hid-capture-recording">{t('hidCapture.recording')}</p>
+      )}
+      {status.kind === 'saved' && (
+        <p className="text-sm text-content-secondary" data-testid="hid-capture-saved">
+          {t('hidCapture.saved', { count: status.exchanges })}
+        </p>
+      )}
+      {status.kind === 'error' && (
+        <p className="text-sm text-danger" data-testid="hid-capture-error">{t(status.messageKey)}</p>
+      )}
+    </div>
+  )
+}
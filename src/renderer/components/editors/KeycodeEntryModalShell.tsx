@@ -235,6 +235,9 @@ export function KeycodeEntryModalShell<TEntry>({
           onRemoveFromHub={hubProps?.onRemoveFromHub}
           onRenameOnHub={hubProps?.onRenameOnHub}
           onRefreshEntries={favStore.refreshEntries}
+          onSetTags={favStore.setEntryTags}
+          searchTexts={favStore.searchTexts}
+          onSearchContent={favStore.loadSearchTexts}
         />
       </div>
     )
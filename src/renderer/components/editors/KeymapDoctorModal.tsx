@@ -0,0 +1,94 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Keymap doctor report: runs the static checks in `shared/keymap/keymap-doctor`
+// over the current configuration and lists the findings, most severe first.
+// Clicking a finding closes the report and jumps to the offending key,
+// encoder, layer or dynamic entry.
+
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { AlertCircle, AlertTriangle, Info } from 'lucide-react'
+import { analyzeKeymap } from '../../../shared/keymap/keymap-doctor'
+import type { KeymapDoctorInput, KeymapDoctorSeverity, KeymapDoctorTarget } from '../../../shared/keymap/keymap-doctor'
+import { ModalCloseButton } from './ModalCloseButton'
+import { ICON_SM } from '../../constants/ui-tokens'
+import { useEscapeClose } from '../../hooks/useEscapeClose'
+
+interface Props {
+  input: KeymapDoctorInput
+  layerLabel: (layer: number) => string
+  onJump: (target: KeymapDoctorTarget) => void
+  onClose: () => void
+}
+
+const SEVERITY_ICON: Record<KeymapDoctorSeverity, { icon: typeof Info; className: string }> = {
+  error: { icon: AlertCircle, className: 'text-danger' },
+  warning: { icon: AlertTriangle, className: 'text-warning' },
+  info: { icon: Info, className: 'text-content-muted' },
+}
+
+export function KeymapDoctorModal({ input, layerLabel, onJump, onClose }: Props) {
+  const { t } = useTranslation()
+  const findings = useMemo(() => analyzeKeymap(input), [input])
+  useEscapeClose(onClose)
+
+  function targetLabel(target: KeymapDoctorTarget): string {
+    switch (target.kind) {
+      case 'key':
+        return t('editor.keymap.doctor.keyTarget', { layer: layerLabel(target.layer), row: target.row, col: target.col })
+      case 'encoder':
+        return t('editor.keymap.doctor.encoderTarget', { layer: layerLabel(target.layer), idx: target.idx, dir: target.dir === 0 ? 'CW' : 'CCW' })
+      case 'layer':
+        return layerLabel(target.layer)
+      case 'tapDance':
+        return t('editor.tapDance.editTitle', { index: target.index })
+      case 'combo':
+        return t('editor.combo.editTitle', { index: target.index })
+      case 'keyOverride':
+        return t('editor.keyOverride.editTitle', { index: target.index })
+      case 'altRepeatKey':
+        return t('editor.altRepeatKey.editTitle', { index: target.index })
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" data-testid="keymap-doctor" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        className="w-modal-md max-w-modal-vw max-h-modal-80vh overflow-y-auto rounded-lg bg-surface-alt p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-1 flex items-center justify-between">
+          <h3 className="text-lg font-semibold">{t('editor.keymap.doctor.title')}</h3>
+          <ModalCloseButton testid="keymap-doctor-close" onClick={onClose} />
+        </div>
+        <p className="mb-4 text-xs text-content-muted">{t('editor.keymap.doctor.description')}</p>
+
+        {findings.length === 0 ? (
+          <p className="text-sm text-content-muted" data-testid="keymap-doctor-empty">{t('editor.keymap.doctor.noFindings')}</p>
+        ) : (
+          <ul className="flex flex-col gap-1">
+            {findings.map((finding, i) => {
+              const { icon: Icon, className } = SEVERITY_ICON[finding.severity]
+              return (
+                <li key={i}>
+                  <button
+                    type="button"
+                    className="flex w-full items-start gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-surface-dim"
+                    onClick={() => onJump(finding.target)}
+                    data-testid="keymap-doctor-finding"
+                    data-severity={finding.severity}
+                  >
+                    <Icon size={ICON_SM} className={`mt-0.5 shrink-0 ${className}`} aria-label={t(`editor.keymap.doctor.severity.${finding.severity}`)} />
+                    <span className="flex-1">{t(`editor.keymap.doctor.findings.${finding.code}`, finding.params)}</span>
+                    <span className="shrink-0 text-xs text-content-muted">{targetLabel(finding.target)}</span>
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 
-import { useCallback, useEffect, useRef, useImperativeHandle, forwardRef } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState, useImperativeHandle, forwardRef } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useTileContentOverride } from '../../hooks/useTileContentOverride'
 import { ViewMatrixPanel } from './ViewMatrixPanel'
@@ -17,6 +17,7 @@ import { useKeymapMultiSelect } from './useKeymapMultiSelect'
 import { useLayoutOptionsPanel } from './useLayoutOptionsPanel'
 import { useKeymapSelectionHandlers } from './useKeymapSelectionHandlers'
 import { useKeymapHistory } from './useKeymapHistory'
+import { useKeymapCommands } from './use-keymap-commands'
 import { useKeyFlash } from './useKeyFlash'
 import { useAppConfig } from '../../hooks/useAppConfig'
 import { KeymapTypingTestPane } from './KeymapTypingTestPane'
@@ -26,10 +27,33 @@ import { useViewMatrixEditing } from './useViewMatrixEditing'
 import { KeymapEditorModals } from './KeymapEditorModals'
 import { useLayerKeycodes } from './use-layer-keycodes'
 import { useKeymapRewrite } from './use-keymap-rewrite'
+import { useKeymapLayerOps } from './use-keymap-layer-ops'
 import { useKeymapPackTabs } from './use-keymap-pack-tabs'
 import { KeymapPickerRegion } from './KeymapPickerRegion'
 import { KeymapPrimaryPane } from './KeymapPrimaryPane'
+import { KeymapDoctorModal } from './KeymapDoctorModal'
+import { KeymapLayerGraphModal } from './KeymapLayerGraphModal'
+import { FirmwareSimulatorModal } from './FirmwareSimulatorModal'
+import { KeymapImportModal } from './KeymapImportModal'
+import { useKeymapImport } from './use-keymap-import'
+import { KeymapHistoryModal } from './KeymapHistoryModal'
+import { KeymapFindReplaceModal } from './KeymapFindReplaceModal'
+import { StandaloneFavoriteModal } from './StandaloneFavoriteModal'
+import { useKeymapFindReplace } from './use-keymap-find-replace'
+import type { KeymapDoctorInput, KeymapDoctorTarget } from '../../../shared/keymap/keymap-doctor'
+import type { KeycodeSearchInput, KeycodeUse } from '../../../shared/keymap/keycode-search'
+import { resolveFirmwareSimSettings } from '../../../shared/keymap/firmware-sim'
+import type { FirmwareSimInput } from '../../../shared/keymap/firmware-sim'
+import type { MacroMatrixSource } from './macro-matrix-recording'
+import type { KeymapImportInput } from '../../../shared/keymap-import'
+import { buildEncoderFavorite, buildLayerFavorite, planEncoderFavorite, planLayerFavorite } from '../../../shared/keymap/layer-favorite'
+import { FALLBACK_VIAL_PROTOCOL } from '../../../shared/favorite-data'
+import type { EncoderFavoriteData, LayerFavoriteData } from '../../../shared/types/favorite-store'
+import { buildErgonomicsByPos } from '../../../shared/kle/kle-ergonomics'
+import { deserialize, resolve } from '../../../shared/keycodes/keycodes'
+import { DEFAULT_TAPPING_TERM_MS } from '../../../shared/qmk-settings-tapping-term'
 import type { LineSnapshot } from '../../typing-test/TypingTestView'
+import { expandMacroActions, type MacroAction } from '../../../preload/macro'
 
 export const KeymapEditor = forwardRef<import('./keymap-editor-types').KeymapEditorHandle, Props>(function KeymapEditor(props, ref) {
   // Kept as a whole object (not just destructured) so the typing-test
@@ -43,7 +67,7 @@ export const KeymapEditor = forwardRef<import('./keymap-editor-types').KeymapEdi
     remapLabel, isRemapped, remapKind, pickerRemapLabel, onSetKey, onSetKeysBulk, onSetEncoder,
     rows, cols, getMatrixState, unlocked, onUnlock,
     tapDanceEntries, onSetTapDanceEntry,
-    macroCount, macroBufferSize, macroBuffer, vialProtocol, parsedMacros, onSaveMacros,
+    macroCount, macroBufferSize, macroBuffer, vialProtocol, parsedMacros, onSaveMacros, hostLayout = null,
     tapHoldSupported, mouseKeysSupported, magicSupported, graveEscapeSupported,
     autoShiftSupported, oneShotKeysSupported, comboSettingsSupported,
     supportedQsids, qmkSettingsGet, qmkSettingsSet, qmkSettingsReset, onSettingsUpdate,
@@ -56,7 +80,7 @@ export const KeymapEditor = forwardRef<import('./keymap-editor-types').KeymapEdi
     comboEntries, onOpenCombo, onSetComboEntry,
     keyOverrideEntries, onOpenKeyOverride, onSetKeyOverrideEntry,
     altRepeatKeyEntries, onOpenAltRepeatKey, onSetAltRepeatKeyEntry,
-    layerNames,
+    layerNames, onSetLayerName,
     layerPanelOpen: layerPanelOpenProp, onLayerPanelOpenChange,
     scale: scaleProp = 1, onScaleChange,
     typingTestMode, onTypingTestModeChange, onSaveTypingTestResult, onRenameTypingTestResult, typingTestHistory,
@@ -68,7 +92,7 @@ export const KeymapEditor = forwardRef<import('./keymap-editor-types').KeymapEdi
     typingRecordEnabled, onRecKeystroke,
     typingRecordingConsentAccepted,
     onTypingTestRunningChange,
-    tappingTermMs,
+    tappingTermMs, qmkSettingsValues,
     deviceName, isDummy,
     favHubOrigin, favHubNeedsDisplayName, favHubUploading, favHubUploadResult,
     onFavUploadToHub, onFavUpdateOnHub, onFavRemoveFromHub, onFavRenameOnHub,
@@ -107,26 +131,48 @@ export const KeymapEditor = forwardRef<import('./keymap-editor-types').KeymapEdi
     lineSnapshotRef,
   })
 
+  // --- Keymap history ---
+  const { config: appCfg } = useAppConfig()
+  const history = useKeymapHistory(appCfg.maxKeymapHistory)
+
+  // --- Recorded device writes: every non-keymap write made from here is
+  // pushed onto `history` as a command, so one Undo covers it like a key
+  // edit. Only layer operations keep the raw setters (they push their own
+  // batch). ---
+  const commands = useKeymapCommands({
+    history,
+    tapDanceEntries, comboEntries, keyOverrideEntries, altRepeatKeyEntries, layerNames,
+    macroBuffer, parsedMacros, packedLayoutOptions,
+    onSetTapDanceEntry, onSetComboEntry, onSetKeyOverrideEntry, onSetAltRepeatKeyEntry, onSetLayerName,
+    onSaveMacros, onSetLayoutOptions, qmkSettingsValues, qmkSettingsSet, onSettingsUpdate,
+  })
+
   // --- Layout options ---
   const {
     parsedOptions, hasLayoutOptions, layoutValues, effectiveLayoutOptions,
     handleLayoutOptionChange, keyboardAreaMinHeight, selectableKeys,
     layoutPanelOpen, setLayoutPanelOpen, layoutPanelRef, layoutButtonRef,
-  } = useLayoutOptionsPanel({ layout, layoutLabels, packedLayoutOptions, onSetLayoutOptions, layoutOptions, scale: scaleProp })
+  } = useLayoutOptionsPanel({ layout, layoutLabels, packedLayoutOptions, onSetLayoutOptions: commands.onSetLayoutOptions, layoutOptions, scale: scaleProp })
 
   // --- Multi-selection ---
   const hasActiveSingleSelectionRef = useRef(false)
   const multiSelect = useKeymapMultiSelect({ hasActiveSingleSelectionRef })
 
-  // --- Keymap history ---
-  const { config: appCfg } = useAppConfig()
-  const history = useKeymapHistory(appCfg.maxKeymapHistory)
-
   // --- Key flash (Key Label "apply to keymap" bulk rewrite, and undo/redo)
   // — must run before `useKeymapSelectionHandlers` below so `triggerFlash`
   // exists to pass in as `onHistoryApplied`. ---
   const { flash, triggerFlash } = useKeyFlash(currentLayer)
 
+  // --- Layer operations (copy / clear / swap / reorder) — each pushed onto
+  // `history` as one batch; their non-keymap side changes are replayed by
+  // undo/redo through `commands.applyCommand`. ---
+  const layerOps = useKeymapLayerOps({
+    layers, keymap, encoderLayout,
+    tapDanceEntries, comboEntries, keyOverrideEntries, altRepeatKeyEntries, layerNames,
+    onSetKeysBulk, onSetEncoder, applyCommand: commands.applyCommand,
+    history, triggerFlash, unlocked, onUnlock,
+  })
+
   // --- Selection + handlers ---
   const {
     selectedKey, selectedEncoder, selectedMaskPart, popoverState, closePopover,
@@ -135,17 +181,18 @@ export const KeymapEditor = forwardRef<import('./keymap-editor-types').KeymapEdi
     handleKeycodeSelect, handlePopoverKeycodeSelect, handlePopoverRawKeycodeSelect,
     handlePopoverModMaskChange, popoverUndoKeycode, handlePopoverUndo,
     popoverRedoKeycode, handlePopoverRedo,
-    handleUndo, handleRedo,
+    handleUndo, handleRedo, handleHistoryJump,
     handleDeselect, handleDeselectClick,
-    tdModalIndex, macroModalIndex, handleTdModalSave, handleTdModalClose, handleMacroModalClose,
+    tdModalIndex, macroModalIndex, openTdModal, openMacroModal, handleTdModalSave, handleTdModalClose, handleMacroModalClose,
   } = useKeymapSelectionHandlers({
     keymap, encoderLayout, currentLayer,
     selectableKeys, autoAdvance, viewMatrix,
     onSetKey, onSetKeysBulk, onSetEncoder, keyboardContentRef, unlocked, onUnlock,
     multiSelect, history,
     onHistoryApplied: triggerFlash,
-    tapDanceEntries, onSetTapDanceEntry,
-    macroCount, macroBufferSize, macroBuffer, onSaveMacros,
+    onApplyCommand: commands.applyCommand,
+    tapDanceEntries, onSetTapDanceEntry: commands.onSetTapDanceEntry,
+    macroCount, macroBufferSize, macroBuffer, onSaveMacros: commands.onSaveMacros,
   })
 
   hasActiveSingleSelectionRef.current = !!(selectedKey || selectedEncoder)
@@ -184,11 +231,11 @@ export const KeymapEditor = forwardRef<import('./keymap-editor-types').KeymapEdi
     tdJson, comboJson, koJson, arkJson, macroJson,
   } = useKeymapJsonEditors({
     unlocked, onUnlock,
-    tapDanceEntries, onSetTapDanceEntry,
-    comboEntries, onSetComboEntry,
-    keyOverrideEntries, onSetKeyOverrideEntry,
-    altRepeatKeyEntries, onSetAltRepeatKeyEntry,
-    onSaveMacros, macroBufferSize, vialProtocol,
+    tapDanceEntries, onSetTapDanceEntry: commands.onSetTapDanceEntry,
+    comboEntries, onSetComboEntry: commands.onSetComboEntry,
+    keyOverrideEntries, onSetKeyOverrideEntry: commands.onSetKeyOverrideEntry,
+    altRepeatKeyEntries, onSetAltRepeatKeyEntry: commands.onSetAltRepeatKeyEntry,
+    onSaveMacros: commands.onSaveMacros, macroBufferSize, vialProtocol, hostLayout,
     tapHoldSupported, mouseKeysSupported, magicSupported, graveEscapeSupported,
     autoShiftSupported, oneShotKeysSupported, comboSettingsSupported,
   })
@@ -211,7 +258,14 @@ export const KeymapEditor = forwardRef<import('./keymap-editor-types').KeymapEdi
     matrixMode, hasMatrixTester,
     applyKeymapRewrite,
     clearHistory: history.clear,
-  }), [handleMatrixToggle, handleTypingTestToggle, matrixMode, hasMatrixTester, applyKeymapRewrite, history.clear])
+    setTapDanceEntry: commands.onSetTapDanceEntry,
+    setComboEntry: commands.onSetComboEntry,
+    setKeyOverrideEntry: commands.onSetKeyOverrideEntry,
+    setAltRepeatKeyEntry: commands.onSetAltRepeatKeyEntry,
+  }), [
+    handleMatrixToggle, handleTypingTestToggle, matrixMode, hasMatrixTester, applyKeymapRewrite, history.clear,
+    commands.onSetTapDanceEntry, commands.onSetComboEntry, commands.onSetKeyOverrideEntry, commands.onSetAltRepeatKeyEntry,
+  ])
 
   // --- Layer keycode builders (current layer / typing test / picker) ---
   const {
@@ -225,6 +279,113 @@ export const KeymapEditor = forwardRef<import('./keymap-editor-types').KeymapEdi
     typingTestMode, typingTestEffectiveLayer: typingTest.effectiveLayer,
   })
 
+  // --- Keymap doctor: whole-configuration checks, each finding jumping to
+  // the key / encoder / layer / entry it is about. Keycode find / replace
+  // and the layer graph share the same jump. ---
+  const [doctorOpen, setDoctorOpen] = useState(false)
+  const [findOpen, setFindOpen] = useState(false)
+  const [layerGraphOpen, setLayerGraphOpen] = useState(false)
+  const [simulatorOpen, setSimulatorOpen] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [favoriteKind, setFavoriteKind] = useState<'layer' | 'encoder' | null>(null)
+  const doctorInput = useMemo((): KeymapDoctorInput => ({
+    layers, keymap, encoderLayout, keys: selectableKeys, encoderCount,
+    tapDanceEntries, comboEntries, keyOverrideEntries, altRepeatKeyEntries,
+    macros: deserializedMacros ?? null,
+    tappingTermMs: tappingTermMs ?? DEFAULT_TAPPING_TERM_MS,
+  }), [layers, keymap, encoderLayout, selectableKeys, encoderCount, tapDanceEntries, comboEntries, keyOverrideEntries, altRepeatKeyEntries, deserializedMacros, tappingTermMs])
+
+  const searchInput = useMemo((): KeycodeSearchInput<MacroAction> => ({
+    layers, keymap, encoderLayout, keys: selectableKeys, encoderCount,
+    tapDanceEntries, comboEntries, keyOverrideEntries, altRepeatKeyEntries,
+    macros: deserializedMacros ?? null,
+  }), [layers, keymap, encoderLayout, selectableKeys, encoderCount, tapDanceEntries, comboEntries, keyOverrideEntries, altRepeatKeyEntries, deserializedMacros])
+
+  // Chordal Hold needs each key's hand, estimated from the layout geometry
+  const simulatorInput = useMemo((): FirmwareSimInput => {
+    const hands = new Map<string, 'left' | 'right'>()
+    for (const [pos, meta] of buildErgonomicsByPos(selectableKeys)) {
+      if (meta.hand) hands.set(pos, meta.hand)
+    }
+    return {
+      layers, keymap, tapDanceEntries, comboEntries, keyOverrideEntries,
+      macros: deserializedMacros?.map((m) => expandMacroActions(m, hostLayout)) ?? null,
+      hands,
+      settings: resolveFirmwareSimSettings(qmkSettingsValues),
+    }
+  }, [layers, keymap, selectableKeys, tapDanceEntries, comboEntries, keyOverrideEntries, deserializedMacros, hostLayout, qmkSettingsValues])
+  const macroMatrixSource = useMemo((): MacroMatrixSource | undefined => (
+    getMatrixState && rows != null && cols != null
+      ? { rows, cols, getMatrixState, simulatorInput }
+      : undefined
+  ), [rows, cols, getMatrixState, simulatorInput])
+  const simulatorKeycodesForLayer = useCallback((layer: number) => buildKeycodesForLayer(layer).keycodes, [buildKeycodesForLayer])
+
+  const importInput = useMemo((): KeymapImportInput => ({
+    layers, keys: layout?.keys ?? [], layoutOptions: effectiveLayoutOptions, encoderCount,
+    keymap, encoderLayout, deserializeKeycode: deserialize,
+  }), [layers, layout, effectiveLayoutOptions, encoderCount, keymap, encoderLayout])
+
+  const { applyKeymapImport } = useKeymapImport({
+    onSetKeysBulk, onSetEncoder, applyCommand: commands.applyCommand, history, triggerFlash, unlocked, onUnlock,
+  })
+
+  // --- Layer / encoder favorites: saved from and loaded onto the current layer ---
+  const serializeFavorite = useCallback(() => (
+    favoriteKind === 'encoder' ? buildEncoderFavorite(importInput, currentLayer) : buildLayerFavorite(importInput, currentLayer)
+  ), [favoriteKind, importInput, currentLayer])
+  const applyFavorite = useCallback((data: unknown) => {
+    if (favoriteKind === 'encoder') {
+      void applyKeymapImport({ keys: [], encoders: planEncoderFavorite(data as EncoderFavoriteData, importInput, currentLayer) })
+      return
+    }
+    // Saved keys with no key at their position are skipped; ask before that
+    const { keys } = data as LayerFavoriteData
+    const plan = planLayerFavorite(data as LayerFavoriteData, importInput, currentLayer)
+    if (plan.unmatched > 0) {
+      const message = plan.unmatched === keys.length
+        ? t('editor.keymap.layerFavoriteNoneMatched', { total: keys.length })
+        : t('editor.keymap.layerFavoriteUnmatched', { count: plan.unmatched, total: keys.length })
+      if (!window.confirm(message)) return
+    }
+    void applyKeymapImport({ keys: plan.keys, encoders: [] })
+  }, [favoriteKind, importInput, currentLayer, applyKeymapImport, t])
+
+  const { replaceKeycode } = useKeymapFindReplace({
+    input: searchInput, macroBuffer, macroBufferSize, vialProtocol: vialProtocol ?? 0, hostLayout,
+    onSetKeysBulk, onSetEncoder, applyCommand: commands.applyCommand, canSaveMacros: !!onSaveMacros,
+    history, triggerFlash, unlocked, onUnlock,
+  })
+
+  const handleJump = useCallback((target: KeymapDoctorTarget | KeycodeUse) => {
+    setDoctorOpen(false)
+    setFindOpen(false)
+    setLayerGraphOpen(false)
+    switch (target.kind) {
+      case 'layer':
+        onLayerChange?.(target.layer)
+        break
+      case 'key': {
+        onLayerChange?.(target.layer)
+        const key = selectableKeys.find((k) => k.row === target.row && k.col === target.col)
+        if (key) handleKeyClick(key, false)
+        break
+      }
+      case 'encoder': {
+        onLayerChange?.(target.layer)
+        const key = layout?.keys.find((k) => k.encoderIdx === target.idx && k.encoderDir === target.dir)
+        if (key) handleEncoderClick(key, target.dir, false)
+        break
+      }
+      case 'macro': openMacroModal(resolve('M0') + target.index); break
+      case 'tapDance': openTdModal(resolve(`TD(${target.index})`)); break
+      case 'combo': onOpenCombo?.(target.index); break
+      case 'keyOverride': onOpenKeyOverride?.(target.index); break
+      case 'altRepeatKey': onOpenAltRepeatKey?.(target.index); break
+    }
+  }, [onLayerChange, selectableKeys, layout, handleKeyClick, handleEncoderClick, openMacroModal, openTdModal, onOpenCombo, onOpenKeyOverride, onOpenAltRepeatKey])
+
   // --- Simulation/Base tab (Plan-qwerty-select-no-rewrite v7). See
   // `useKeymapPackTabs` for the full tab-visibility / read-only / Base-tab
   // raw-data contract. ---
@@ -321,7 +482,11 @@ export const KeymapEditor = forwardRef<import('./keymap-editor-types').KeymapEdi
           <KeymapToolbar
             typingTestMode={typingTestMode} viewMatrixActive={viewMatrixMode.active}
             canUndo={history.canUndo} canRedo={history.canRedo}
-            onUndo={handleUndo} onRedo={handleRedo}
+            onUndo={handleUndo} onRedo={handleRedo} onOpenHistory={() => setHistoryOpen(true)} onOpenFind={() => setFindOpen(true)} onOpenDoctor={() => setDoctorOpen(true)}
+            onOpenLayerGraph={() => setLayerGraphOpen(true)} onOpenSimulator={() => setSimulatorOpen(true)}
+            onOpenImport={() => setImportOpen(true)}
+            onOpenLayerFavorites={isDummy ? undefined : () => setFavoriteKind('layer')}
+            onOpenEncoderFavorites={isDummy || !encoderCount ? undefined : () => setFavoriteKind('encoder')}
             scale={scaleProp} onScaleChange={onScaleChange}
           />
         )}
@@ -462,7 +627,8 @@ export const KeymapEditor = forwardRef<import('./keymap-editor-types').KeymapEdi
       {!typingTestMode && !viewMatrixMode.active && (
         <KeymapPickerRegion
           {...props}
-          layerPanelCollapsed={layerPanelCollapsed} toggleLayerPanel={toggleLayerPanel}
+          onSetLayerName={commands.onSetLayerName}
+          layerPanelCollapsed={layerPanelCollapsed} toggleLayerPanel={toggleLayerPanel} layerOps={layerOps}
           layoutPickerContent={layoutPickerContent} packTabReadOnly={packTabReadOnly}
           gatedHandleKeycodeSelect={gatedHandleKeycodeSelect} handlePickerMultiSelect={handlePickerMultiSelect}
           pickerSelectedIndices={pickerSelectedIndices} selectedKey={selectedKey} selectedEncoder={selectedEncoder}
@@ -479,12 +645,13 @@ export const KeymapEditor = forwardRef<import('./keymap-editor-types').KeymapEdi
       )}
 
       <KeymapEditorModals
-        tdModalIndex={tdModalIndex} tapDanceEntries={tapDanceEntries} onSetTapDanceEntry={onSetTapDanceEntry}
+        tdModalIndex={tdModalIndex} tapDanceEntries={tapDanceEntries} onSetTapDanceEntry={commands.onSetTapDanceEntry}
         handleTdModalSave={handleTdModalSave} handleTdModalClose={handleTdModalClose}
         macroModalIndex={macroModalIndex} macroBuffer={macroBuffer} macroCount={macroCount}
-        macroBufferSize={macroBufferSize} vialProtocol={vialProtocol} onSaveMacros={onSaveMacros}
-        parsedMacros={parsedMacros} handleMacroModalClose={handleMacroModalClose}
+        macroBufferSize={macroBufferSize} vialProtocol={vialProtocol} onSaveMacros={commands.onSaveMacros}
+        parsedMacros={parsedMacros} hostLayout={hostLayout} handleMacroModalClose={handleMacroModalClose}
         unlocked={unlocked} onUnlock={onUnlock} autoAdvance={autoAdvance} layers={layers}
+        macroMatrixSource={macroMatrixSource}
         isDummy={isDummy} deserializedMacros={deserializedMacros} quickSelect={quickSelect}
         splitKeyMode={splitKeyMode} basicViewType={basicViewType}
         favHubOrigin={favHubOrigin} favHubNeedsDisplayName={favHubNeedsDisplayName}
@@ -493,12 +660,61 @@ export const KeymapEditor = forwardRef<import('./keymap-editor-types').KeymapEdi
         onFavRemoveFromHub={onFavRemoveFromHub} onFavRenameOnHub={onFavRenameOnHub}
         comboEntries={comboEntries} keyOverrideEntries={keyOverrideEntries} altRepeatKeyEntries={altRepeatKeyEntries}
         tdJson={tdJson} comboJson={comboJson} koJson={koJson} arkJson={arkJson} macroJson={macroJson}
-        supportedQsids={supportedQsids} qmkSettingsGet={qmkSettingsGet} qmkSettingsSet={qmkSettingsSet}
+        supportedQsids={supportedQsids} qmkSettingsGet={qmkSettingsGet} qmkSettingsSet={commands.qmkSettingsSet}
         qmkSettingsReset={qmkSettingsReset} onSettingsUpdate={onSettingsUpdate}
         visibleModals={visibleModals} closeSettings={closeSettings}
         keymapApplyOpen={keymapApplyOpen} keymapApplyLabelName={keymapApplyLabelName} keymapApplyBusy={keymapApplyBusy}
         onKeymapApplyConfirm={onKeymapApplyConfirm} onKeymapApplyCancel={onKeymapApplyCancel}
       />
+
+      {doctorOpen && (
+        <KeymapDoctorModal
+          input={doctorInput} layerLabel={layerLabel}
+          onJump={handleJump} onClose={() => setDoctorOpen(false)}
+        />
+      )}
+      {findOpen && (
+        <KeymapFindReplaceModal
+          input={searchInput} layerLabel={layerLabel}
+          onJump={handleJump} onReplace={replaceKeycode} onClose={() => setFindOpen(false)}
+        />
+      )}
+      {layerGraphOpen && (
+        <KeymapLayerGraphModal
+          input={searchInput} layerLabel={layerLabel}
+          onJump={handleJump} onClose={() => setLayerGraphOpen(false)}
+        />
+      )}
+      {simulatorOpen && (
+        <FirmwareSimulatorModal
+          input={simulatorInput} keys={selectableKeys} layerLabel={layerLabel}
+          keycodesForLayer={simulatorKeycodesForLayer} onClose={() => setSimulatorOpen(false)}
+        />
+      )}
+      {importOpen && (
+        <KeymapImportModal
+          input={importInput} layerLabel={layerLabel}
+          onApply={applyKeymapImport} onClose={() => setImportOpen(false)}
+        />
+      )}
+      {favoriteKind && (
+        <StandaloneFavoriteModal
+          favoriteType={favoriteKind} vialProtocol={vialProtocol ?? FALLBACK_VIAL_PROTOCOL}
+          serialize={serializeFavorite} apply={applyFavorite} onClose={() => setFavoriteKind(null)}
+          hubOrigin={favHubOrigin} hubNeedsDisplayName={favHubNeedsDisplayName}
+          hubUploading={favHubUploading} hubUploadResult={favHubUploadResult}
+          onUploadToHub={onFavUploadToHub ? (entryId) => onFavUploadToHub(favoriteKind, entryId) : undefined}
+          onUpdateOnHub={onFavUpdateOnHub ? (entryId) => onFavUpdateOnHub(favoriteKind, entryId) : undefined}
+          onRemoveFromHub={onFavRemoveFromHub ? (entryId) => onFavRemoveFromHub(favoriteKind, entryId) : undefined}
+          onRenameOnHub={onFavRenameOnHub}
+        />
+      )}
+      {historyOpen && (
+        <KeymapHistoryModal
+          undoEntries={history.undoEntries} redoEntries={history.redoEntries} layerLabel={layerLabel}
+          onJump={handleHistoryJump} onClose={() => setHistoryOpen(false)}
+        />
+      )}
     </div>
   )
 })
@@ -11,6 +11,7 @@ import type { FavoriteType } from '../../../shared/types/favorite-store'
 import { FALLBACK_VIAL_PROTOCOL } from '../../../shared/favorite-data'
 import type { BasicViewType, SplitKeyMode } from '../../../shared/types/app-config'
 import type { MacroAction } from '../../../preload/macro'
+import type { HostLayoutMap } from '../../../preload/macro-unicode'
 import { TapDanceModal } from './TapDanceModal'
 import { MacroModal } from './MacroModal'
 import { TapDanceJsonEditor } from './TapDanceJsonEditor'
@@ -19,6 +20,7 @@ import { comboToJson, parseCombo, keyOverrideToJson, parseKeyOverride, altRepeat
 import { QmkSettingsModals } from './QmkSettingsModal'
 import { KeymapApplyConfirmModal } from '../key-labels/KeymapApplyConfirmModal'
 import type { FavHubEntryResult } from './FavoriteHubActions'
+import type { MacroMatrixSource } from './macro-matrix-recording'
 import type { EntryJsonEditor, MacroJsonEditor, VisibleQmkModals } from './useKeymapJsonEditors'
 
 export interface KeymapEditorModalsProps {
@@ -37,11 +39,14 @@ export interface KeymapEditorModalsProps {
   vialProtocol?: number
   onSaveMacros?: (buffer: number[], parsedMacros?: MacroAction[][]) => Promise<void>
   parsedMacros?: MacroAction[][] | null
+  /** Host layout unicode actions are typed through; US QWERTY when absent. */
+  hostLayout?: HostLayoutMap | null
   handleMacroModalClose: () => void
   unlocked?: boolean
   onUnlock?: (options?: { macroWarning?: boolean }) => void
   autoAdvance?: boolean
   layers: number
+  macroMatrixSource?: MacroMatrixSource
 
   // --- Shared by Tap Dance / Macro modals ---
   isDummy?: boolean
@@ -88,7 +93,7 @@ export interface KeymapEditorModalsProps {
 export function KeymapEditorModals({
   tdModalIndex, tapDanceEntries, onSetTapDanceEntry, handleTdModalSave, handleTdModalClose,
   macroModalIndex, macroBuffer, macroCount, macroBufferSize, vialProtocol, onSaveMacros,
-  parsedMacros, handleMacroModalClose, unlocked, onUnlock, autoAdvance, layers,
+  parsedMacros, hostLayout, handleMacroModalClose, unlocked, onUnlock, autoAdvance, layers, macroMatrixSource,
   isDummy, deserializedMacros, quickSelect, splitKeyMode, basicViewType,
   favHubOrigin, favHubNeedsDisplayName, favHubUploading, favHubUploadResult,
   onFavUploadToHub, onFavUpdateOnHub, onFavRemoveFromHub, onFavRenameOnHub,
@@ -118,10 +123,10 @@ export function KeymapEditorModals({
       {macroModalIndex !== null && macroBuffer && macroCount != null && onSaveMacros && (
         <MacroModal index={macroModalIndex} macroCount={macroCount} macroBufferSize={macroBufferSize ?? 0}
           macroBuffer={macroBuffer} vialProtocol={vialProtocol ?? FALLBACK_VIAL_PROTOCOL} onSaveMacros={onSaveMacros}
-          parsedMacros={parsedMacros} onClose={handleMacroModalClose} unlocked={unlocked} onUnlock={onUnlock}
+          parsedMacros={parsedMacros} hostLayout={hostLayout} onClose={handleMacroModalClose} unlocked={unlocked} onUnlock={onUnlock}
           isDummy={isDummy} tapDanceEntries={tapDanceEntries} deserializedMacros={deserializedMacros}
           quickSelect={quickSelect} autoAdvance={autoAdvance} splitKeyMode={splitKeyMode} basicViewType={basicViewType}
-          layers={layers}
+          layers={layers} matrixSource={macroMatrixSource}
           hubOrigin={favHubOrigin} hubNeedsDisplayName={favHubNeedsDisplayName}
           hubUploading={favHubUploading} hubUploadResult={favHubUploadResult}
           onUploadToHub={onFavUploadToHub ? (entryId) => onFavUploadToHub('macro', entryId) : undefined}
@@ -190,7 +195,16 @@ export function KeymapEditorModals({
       {supportedQsids && qmkSettingsGet && qmkSettingsSet && qmkSettingsReset && (
         <QmkSettingsModals supportedQsids={supportedQsids} qmkSettingsGet={qmkSettingsGet}
           qmkSettingsSet={qmkSettingsSet} qmkSettingsReset={qmkSettingsReset}
-          onSettingsUpdate={onSettingsUpdate} visibleModals={visibleModals} onCloseModal={closeSettings} />
+          onSettingsUpdate={onSettingsUpdate} visibleModals={visibleModals} onCloseModal={closeSettings}
+          vialProtocol={vialProtocol ?? FALLBACK_VIAL_PROTOCOL}
+          hubProps={{
+            hubOrigin: favHubOrigin, hubNeedsDisplayName: favHubNeedsDisplayName,
+            hubUploading: favHubUploading, hubUploadResult: favHubUploadResult,
+            onUploadToHub: onFavUploadToHub ? (entryId) => onFavUploadToHub('qmkSettings', entryId) : undefined,
+            onUpdateOnHub: onFavUpdateOnHub ? (entryId) => onFavUpdateOnHub('qmkSettings', entryId) : undefined,
+            onRemoveFromHub: onFavRemoveFromHub ? (entryId) => onFavRemoveFromHub('qmkSettings', entryId) : undefined,
+            onRenameOnHub: onFavRenameOnHub,
+          }} />
       )}
 
       <KeymapApplyConfirmModal
@@ -0,0 +1,170 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Keycode find / replace: lists every place a keycode is bound across the
+// keymap, encoders, macros and dynamic entries (see
+// `shared/keymap/keycode-search`). Clicking a result closes the panel and
+// jumps to it; Replace rewrites every result as one undoable batch.
+
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { serialize } from '../../../shared/keycodes/keycodes'
+import { findKeycodeUses, parseKeycodeQuery } from '../../../shared/keymap/keycode-search'
+import type { KeycodeSearchInput, KeycodeUse } from '../../../shared/keymap/keycode-search'
+import { ModalCloseButton } from './ModalCloseButton'
+import { ConfirmButton } from './ConfirmButton'
+import { useEscapeClose } from '../../hooks/useEscapeClose'
+
+const INPUT_CLASS = 'w-full rounded border border-edge bg-surface px-2 py-1 font-mono text-sm focus:border-accent focus:outline-none'
+
+interface Props {
+  input: KeycodeSearchInput
+  layerLabel: (layer: number) => string
+  onJump: (use: KeycodeUse) => void
+  onReplace: (from: number, to: number) => Promise<void>
+  onClose: () => void
+}
+
+export function KeymapFindReplaceModal({ input, layerLabel, onJump, onReplace, onClose }: Props) {
+  const { t } = useTranslation()
+  const [findText, setFindText] = useState('')
+  const [replaceText, setReplaceText] = useState('')
+  const [confirming, setConfirming] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<{ kind: 'success' | 'error'; text: string } | null>(null)
+  useEscapeClose(onClose)
+
+  const findCode = parseKeycodeQuery(findText)
+  const replaceCode = parseKeycodeQuery(replaceText)
+  const uses = useMemo(() => (findCode === null ? [] : findKeycodeUses(input, findCode)), [input, findCode])
+  const canReplace = uses.length > 0 && replaceCode !== null && replaceCode !== findCode && !busy
+
+  function resultLabel(use: KeycodeUse): string {
+    switch (use.kind) {
+      case 'key':
+        return t('editor.keymap.doctor.keyTarget', { layer: layerLabel(use.layer), row: use.row, col: use.col })
+      case 'encoder':
+        return t('editor.keymap.doctor.encoderTarget', { layer: layerLabel(use.layer), idx: use.idx, dir: use.dir === 0 ? 'CW' : 'CCW' })
+      case 'macro':
+        return t('editor.keymap.find.macroAction', { macro: t('editor.macro.editTitle', { index: use.index }), action: use.action + 1 })
+      case 'tapDance':
+        return t('editor.keymap.find.entryField', { entry: t('editor.tapDance.editTitle', { index: use.index }), field: use.field })
+      case 'combo':
+        return t('editor.keymap.find.entryField', { entry: t('editor.combo.editTitle', { index: use.index }), field: use.field })
+      case 'keyOverride':
+        return t('editor.keymap.find.entryField', { entry: t('editor.keyOverride.editTitle', { index: use.index }), field: use.field })
+      case 'altRepeatKey':
+        return t('editor.keymap.find.entryField', { entry: t('editor.altRepeatKey.editTitle', { index: use.index }), field: use.field })
+    }
+  }
+
+  async function handleReplace() {
+    if (!canReplace || findCode === null || replaceCode === null) return
+    if (!confirming) {
+      setConfirming(true)
+      return
+    }
+    setConfirming(false)
+    setBusy(true)
+    setMessage(null)
+    const count = uses.length
+    try {
+      await onReplace(findCode, replaceCode)
+      setMessage({ kind: 'success', text: t('editor.keymap.find.replaced', { count, from: serialize(findCode), to: serialize(replaceCode) }) })
+    } catch (err) {
+      setMessage({ kind: 'error', text: t('editor.keymap.find.replaceFailed', { message: err instanceof Error ? err.message : String(err) }) })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" data-testid="keymap-find" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        className="w-modal-md max-w-modal-vw max-h-modal-80vh overflow-y-auto rounded-lg bg-surface-alt p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-1 flex items-center justify-between">
+          <h3 className="text-lg font-semibold">{t('editor.keymap.find.title')}</h3>
+          <ModalCloseButton testid="keymap-find-close" onClick={onClose} />
+        </div>
+        <p className="mb-4 text-xs text-content-muted">{t('editor.keymap.find.description')}</p>
+
+        <label className="mb-3 flex flex-col gap-1 text-sm">
+          <span className="text-content-muted">{t('editor.keymap.find.find')}</span>
+          <input
+            type="text"
+            className={INPUT_CLASS}
+            value={findText}
+            placeholder="KC_APP"
+            onChange={(e) => { setFindText(e.target.value); setConfirming(false); setMessage(null) }}
+            data-testid="keymap-find-input"
+            autoFocus
+          />
+        </label>
+
+        {findText.trim() && findCode === null && (
+          <p className="mb-3 text-xs text-danger" data-testid="keymap-find-invalid">{t('editor.keymap.find.invalidKeycode')}</p>
+        )}
+
+        {findCode !== null && (
+          uses.length === 0 ? (
+            <p className="mb-3 text-sm text-content-muted" data-testid="keymap-find-empty">{t('editor.keymap.find.noResults')}</p>
+          ) : (
+            <>
+              <p className="mb-1 text-xs text-content-muted">{t('editor.keymap.find.results', { count: uses.length })}</p>
+              <ul className="mb-3 flex flex-col gap-1">
+                {uses.map((use, i) => (
+                  <li key={i}>
+                    <button
+                      type="button"
+                      className="w-full rounded px-2 py-1 text-left text-sm hover:bg-surface-dim"
+                      onClick={() => onJump(use)}
+                      data-testid="keymap-find-result"
+                    >
+                      {resultLabel(use)}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )
+        )}
+
+        <label className="mb-3 flex flex-col gap-1 text-sm">
+          <span className="text-content-muted">{t('editor.keymap.find.replaceWith')}</span>
+          <input
+            type="text"
+            className={INPUT_CLASS}
+            value={replaceText}
+            onChange={(e) => { setReplaceText(e.target.value); setConfirming(false) }}
+            data-testid="keymap-replace-input"
+          />
+        </label>
+
+        {replaceText.trim() && replaceCode === null && (
+          <p className="mb-3 text-xs text-danger" data-testid="keymap-replace-invalid">{t('editor.keymap.find.invalidKeycode')}</p>
+        )}
+
+        <div className="flex items-center justify-end gap-2">
+          {message && (
+            <p
+              className={`flex-1 text-sm ${message.kind === 'error' ? 'text-danger' : 'text-content-muted'}`}
+              data-testid="keymap-find-message"
+            >
+              {message.text}
+            </p>
+          )}
+          <ConfirmButton
+            testId="keymap-replace-button"
+            confirming={confirming}
+            onClick={() => void handleReplace()}
+            labelKey="editor.keymap.find.replace"
+            confirmLabelKey="editor.keymap.find.confirmReplace"
+            disabled={!canReplace}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
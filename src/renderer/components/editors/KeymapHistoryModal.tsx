@@ -0,0 +1,139 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Edit history panel: lists the keymap editor's undo and redo stacks as one
+// timeline, newest first, and jumps to the state right after any entry by
+// undoing or redoing everything in between.
+
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { serialize } from '../../../shared/keycodes/keycodes'
+import type { HistoryCommand, HistoryEntry } from './useKeymapHistory'
+import { ModalCloseButton } from './ModalCloseButton'
+import { useEscapeClose } from '../../hooks/useEscapeClose'
+
+type TFunction = (key: string, opts?: Record<string, unknown>) => string
+
+interface Props {
+  undoEntries: readonly HistoryEntry[]
+  redoEntries: readonly HistoryEntry[]
+  layerLabel: (layer: number) => string
+  /** Moves `offset` entries: negative undoes, positive redoes. */
+  onJump: (offset: number) => Promise<void>
+  onClose: () => void
+}
+
+function describeCommand(t: TFunction, command: HistoryCommand): string {
+  const edited = (key: string, index: number) =>
+    t('editor.keymap.history.entries.entryEdited', { target: t(key, { index }) })
+  switch (command.kind) {
+    case 'tapDance': return edited('editor.tapDance.editTitle', command.index)
+    case 'combo': return edited('editor.combo.editTitle', command.index)
+    case 'keyOverride': return edited('editor.keyOverride.editTitle', command.index)
+    case 'altRepeatKey': return edited('editor.altRepeatKey.editTitle', command.index)
+    case 'layerName':
+      return t('editor.keymap.history.entries.layerName', {
+        layer: t('editor.keymap.layerN', { n: command.layer }), from: command.oldName, to: command.newName,
+      })
+    case 'macros': return t('editor.keymap.history.entries.macros')
+    case 'layoutOptions': return t('editor.keymap.history.entries.layoutOptions')
+    case 'qmkSetting': return t('editor.keymap.history.entries.qmkSetting', { qsid: command.qsid })
+  }
+}
+
+/** Human-readable one-line description of a history entry. */
+export function describeHistoryEntry(t: TFunction, entry: HistoryEntry, layerLabel: (layer: number) => string): string {
+  switch (entry.kind) {
+    case 'key':
+      return t('editor.keymap.history.entries.key', {
+        layer: layerLabel(entry.layer), row: entry.row, col: entry.col,
+        from: serialize(entry.oldKeycode), to: serialize(entry.newKeycode),
+      })
+    case 'encoder':
+      return t('editor.keymap.history.entries.encoder', {
+        layer: layerLabel(entry.layer), idx: entry.idx, dir: entry.dir === 0 ? 'CW' : 'CCW',
+        from: serialize(entry.oldKeycode), to: serialize(entry.newKeycode),
+      })
+    case 'batch': {
+      const others = entry.sideChanges ?? []
+      if (entry.entries.length === 0 && others.length === 1) return describeCommand(t, others[0])
+      const keys = t('editor.keymap.history.entries.batch', { count: entry.entries.length })
+      return others.length > 0
+        ? t('editor.keymap.history.entries.batchWithOthers', { keys, others: others.length })
+        : keys
+    }
+    default:
+      return describeCommand(t, entry)
+  }
+}
+
+export function KeymapHistoryModal({ undoEntries, redoEntries, layerLabel, onJump, onClose }: Props) {
+  const { t } = useTranslation()
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  useEscapeClose(onClose)
+
+  // Timeline of every entry, oldest first: the undo stack, then the redo
+  // stack from its top down. Position `n` is the state after `n` entries;
+  // the current state is `undoEntries.length`.
+  const timeline = [...undoEntries, ...[...redoEntries].reverse()]
+  const current = undoEntries.length
+
+  async function jumpTo(position: number) {
+    if (busy || position === current) return
+    setBusy(true)
+    setError(null)
+    try {
+      await onJump(position - current)
+    } catch (err) {
+      setError(t('editor.keymap.history.jumpFailed', { message: err instanceof Error ? err.message : String(err) }))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function row(position: number, label: string) {
+    const isCurrent = position === current
+    const undone = position > current
+    return (
+      <li key={position}>
+        <button
+          type="button"
+          className={`flex w-full items-center gap-2 rounded px-2 py-1.5 text-left text-sm disabled:cursor-default ${
+            isCurrent ? 'bg-accent/10 font-semibold' : 'hover:bg-surface-dim'
+          } ${undone ? 'text-content-muted' : ''}`}
+          onClick={() => void jumpTo(position)}
+          disabled={busy || isCurrent}
+          data-testid="keymap-history-entry"
+          data-position={position}
+          aria-current={isCurrent ? 'step' : undefined}
+        >
+          <span className="flex-1">{label}</span>
+          {isCurrent && <span className="shrink-0 text-xs text-accent">{t('editor.keymap.history.current')}</span>}
+          {undone && <span className="shrink-0 text-xs">{t('editor.keymap.history.undone')}</span>}
+        </button>
+      </li>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" data-testid="keymap-history" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        className="w-modal-md max-w-modal-vw max-h-modal-80vh overflow-y-auto rounded-lg bg-surface-alt p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-1 flex items-center justify-between">
+          <h3 className="text-lg font-semibold">{t('editor.keymap.history.title')}</h3>
+          <ModalCloseButton testid="keymap-history-close" onClick={onClose} />
+        </div>
+        <p className="mb-4 text-xs text-content-muted">{t('editor.keymap.history.description')}</p>
+        {error && <p className="mb-2 text-sm text-danger" data-testid="keymap-history-error">{error}</p>}
+
+        <ul className="flex flex-col gap-1">
+          {timeline.map((entry, i) => row(i + 1, describeHistoryEntry(t, entry, layerLabel))).reverse()}
+          {row(0, t('editor.keymap.history.initialState'))}
+        </ul>
+      </div>
+    </div>
+  )
+}
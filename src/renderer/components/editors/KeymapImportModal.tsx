@@ -0,0 +1,188 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// QMK keymap import: reads a keymap.c or Configurator keymap.json through
+// `shared/keymap-import`, previews each layer on the board with the keys
+// whose keycodes did not resolve highlighted, and applies only after the
+// user confirms.
+
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { serialize } from '../../../shared/keycodes/keycodes'
+import { parseQmkKeymap, planKeymapImport } from '../../../shared/keymap-import'
+import type { KeymapImportInput, KeymapImportPlan, KeymapImportTarget, ParsedQmkKeymap } from '../../../shared/keymap-import'
+import { posKey } from '../../../shared/kle/pos-key'
+import { KeyboardWidget } from '../keyboard/KeyboardWidget'
+import { ModalCloseButton } from './ModalCloseButton'
+import { useEscapeClose } from '../../hooks/useEscapeClose'
+import { BTN_PRIMARY, BTN_SECONDARY, BTN_TOGGLE_ACTIVE, BTN_TOGGLE_INACTIVE } from '../../constants/ui-tokens'
+
+interface Props {
+  input: KeymapImportInput
+  layerLabel: (layer: number) => string
+  onApply: (plan: KeymapImportPlan) => Promise<void>
+  onClose: () => void
+}
+
+export function KeymapImportModal({ input, layerLabel, onApply, onClose }: Props) {
+  const { t } = useTranslation()
+  const [parsed, setParsed] = useState<ParsedQmkKeymap | null>(null)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [previewLayer, setPreviewLayer] = useState(0)
+  const [busy, setBusy] = useState(false)
+  useEscapeClose(onClose)
+
+  const plan = useMemo(() => (parsed ? planKeymapImport(parsed, input) : null), [parsed, input])
+  const previewLayers = parsed ? Math.min(parsed.layers.length, input.layers) : 0
+
+  const previewKeycodes = useMemo(() => {
+    const keycodes = new Map<string, string>()
+    if (!plan) return keycodes
+    for (const [key, code] of plan.keymap) {
+      const [layer, row, col] = key.split(',').map(Number)
+      if (layer === previewLayer) keycodes.set(posKey(row, col), serialize(code))
+    }
+    return keycodes
+  }, [plan, previewLayer])
+
+  const unresolvedKeys = useMemo(() => new Set(
+    (plan?.unresolved ?? [])
+      .flatMap(({ target }) => (target.kind === 'key' && target.layer === previewLayer ? [posKey(target.row, target.col)] : [])),
+  ), [plan, previewLayer])
+
+  async function handleChooseFile(): Promise<void> {
+    setError(null)
+    const result = await window.vialAPI.loadLayout(t('editor.keymap.import.chooseFile'), ['c', 'json'])
+    if (!result.success || !result.data) {
+      if (result.error !== 'cancelled') setError(t('error.loadFailed'))
+      return
+    }
+    try {
+      setParsed(parseQmkKeymap(result.data))
+      setFileName(result.filePath?.split(/[\\/]/).pop() ?? null)
+      setPreviewLayer(0)
+    } catch (err) {
+      setParsed(null)
+      setError(t('editor.keymap.import.parseFailed', { message: err instanceof Error ? err.message : String(err) }))
+    }
+  }
+
+  async function handleApply(): Promise<void> {
+    if (!plan) return
+    setBusy(true)
+    setError(null)
+    try {
+      await onApply(plan)
+      onClose()
+    } catch (err) {
+      setError(t('editor.keymap.import.applyFailed', { message: err instanceof Error ? err.message : String(err) }))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function targetLabel(target: KeymapImportTarget): string {
+    return target.kind === 'key'
+      ? t('editor.keymap.import.keyTarget', { layer: layerLabel(target.layer), row: target.row, col: target.col })
+      : t('editor.keymap.import.encoderTarget', { layer: layerLabel(target.layer), idx: target.idx, dir: target.dir === 0 ? 'CW' : 'CCW' })
+  }
+
+  const changeCount = plan ? plan.keys.length + plan.encoders.length : 0
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" data-testid="keymap-import" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        className="w-modal-xl max-w-modal-xl-vw max-h-modal-90vh overflow-y-auto rounded-lg bg-surface-alt p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-1 flex items-center justify-between">
+          <h3 className="text-lg font-semibold">{t('editor.keymap.import.title')}</h3>
+          <ModalCloseButton testid="keymap-import-close" onClick={onClose} />
+        </div>
+        <p className="mb-4 text-xs text-content-muted">{t('editor.keymap.import.description')}</p>
+
+        <div className="mb-3 flex items-center gap-3">
+          <button type="button" className={BTN_SECONDARY} onClick={() => void handleChooseFile()} disabled={busy} data-testid="keymap-import-choose">
+            {t('editor.keymap.import.chooseFile')}
+          </button>
+          {fileName && <span className="truncate font-mono text-sm text-content-secondary">{fileName}</span>}
+        </div>
+
+        {parsed && plan && (
+          <>
+            <p className="mb-3 text-sm" data-testid="keymap-import-summary">
+              {t('editor.keymap.import.summary', {
+                layout: parsed.layout ?? 'LAYOUT', layers: parsed.layers.length, count: changeCount,
+              })}
+            </p>
+
+            <div className="mb-2 flex flex-wrap gap-1">
+              {Array.from({ length: previewLayers }, (_, layer) => (
+                <button
+                  key={layer}
+                  type="button"
+                  className={layer === previewLayer ? BTN_TOGGLE_ACTIVE : BTN_TOGGLE_INACTIVE}
+                  onClick={() => setPreviewLayer(layer)}
+                  data-testid="keymap-import-layer"
+                >
+                  {layerLabel(layer)}
+                </button>
+              ))}
+            </div>
+            <div className="mb-4 flex justify-center overflow-x-auto">
+              <KeyboardWidget
+                keys={input.keys}
+                keycodes={previewKeycodes}
+                highlightedKeys={unresolvedKeys}
+                layoutOptions={input.layoutOptions}
+                readOnly
+                scale={0.8}
+              />
+            </div>
+
+            {plan.countMismatches.map(({ layer, expected, actual }) => (
+              <p key={layer} className="mb-1 text-xs text-warning" data-testid="keymap-import-mismatch">
+                {t('editor.keymap.import.countMismatch', { layer: layerLabel(layer), expected, actual })}
+              </p>
+            ))}
+            {plan.droppedLayers > 0 && (
+              <p className="mb-1 text-xs text-warning" data-testid="keymap-import-dropped">
+                {t('editor.keymap.import.droppedLayers', { count: plan.droppedLayers })}
+              </p>
+            )}
+            {plan.unresolved.length > 0 && (
+              <div className="mb-3">
+                <p className="mb-1 text-xs text-danger">{t('editor.keymap.import.unresolved', { count: plan.unresolved.length })}</p>
+                <ul className="flex flex-col text-xs">
+                  {plan.unresolved.map(({ target, name }, i) => (
+                    <li key={i} className="flex gap-2" data-testid="keymap-import-unresolved">
+                      <span className="w-1/3 shrink-0 text-content-muted">{targetLabel(target)}</span>
+                      <span className="font-mono text-danger">{name}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex items-center justify-end gap-2">
+          {error && <p className="flex-1 text-sm text-danger" data-testid="keymap-import-error">{error}</p>}
+          <button type="button" className={BTN_SECONDARY} onClick={onClose}>
+            {t('common.cancel')}
+          </button>
+          <button
+            type="button"
+            className={BTN_PRIMARY}
+            onClick={() => void handleApply()}
+            disabled={busy || changeCount === 0}
+            data-testid="keymap-import-apply"
+          >
+            {t('editor.keymap.import.apply', { count: changeCount })}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Layer navigation graph: draws `shared/keymap/layer-graph` as a ring of
+// layer nodes with one arrow per layer pair, and lists every edge with its
+// switching mechanism and trigger key. Clicking an arrow or a listed edge
+// closes the panel and selects the key that fires it.
+
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { serialize } from '../../../shared/keycodes/keycodes'
+import { buildLayerGraph } from '../../../shared/keymap/layer-graph'
+import type { LayerGraphEdge, LayerGraphInput, LayerGraphTrigger } from '../../../shared/keymap/layer-graph'
+import type { KeymapDoctorTarget } from '../../../shared/keymap/keymap-doctor'
+import { ModalCloseButton } from './ModalCloseButton'
+import { useEscapeClose } from '../../hooks/useEscapeClose'
+
+interface Props {
+  input: LayerGraphInput
+  layerLabel: (layer: number) => string
+  onJump: (target: KeymapDoctorTarget) => void
+  onClose: () => void
+}
+
+const VIEW_SIZE = 320
+const RING_RADIUS = 120
+const NODE_RADIUS = 16
+/** Sideways bend of each arrow, so A→B and B→A do not overlap. */
+const EDGE_BEND = 18
+
+interface Point { x: number; y: number }
+
+function nodePosition(layer: number, layers: number): Point {
+  const center = VIEW_SIZE / 2
+  if (layers === 1) return { x: center, y: center }
+  const angle = (2 * Math.PI * layer) / layers - Math.PI / 2
+  return { x: center + RING_RADIUS * Math.cos(angle), y: center + RING_RADIUS * Math.sin(angle) }
+}
+
+/** Quadratic arrow from node `a` to node `b`, trimmed to the node circles, plus its label anchor. */
+function edgePath(a: Point, b: Point): { d: string; label: Point } {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const len = Math.hypot(dx, dy) || 1
+  const ux = dx / len
+  const uy = dy / len
+  const control = { x: (a.x + b.x) / 2 - uy * EDGE_BEND, y: (a.y + b.y) / 2 + ux * EDGE_BEND }
+  const start = { x: a.x + ux * NODE_RADIUS, y: a.y + uy * NODE_RADIUS }
+  const end = { x: b.x - ux * (NODE_RADIUS + 4), y: b.y - uy * (NODE_RADIUS + 4) }
+  return {
+    d: `M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`,
+    label: { x: (start.x + 2 * control.x + end.x) / 4, y: (start.y + 2 * control.y + end.y) / 4 },
+  }
+}
+
+function jumpTarget(edge: LayerGraphEdge): KeymapDoctorTarget {
+  const [trigger] = edge.triggers
+  return trigger.kind === 'key'
+    ? { kind: 'key', layer: edge.from, row: trigger.row, col: trigger.col }
+    : { kind: 'encoder', layer: edge.from, idx: trigger.idx, dir: trigger.dir }
+}
+
+export function KeymapLayerGraphModal({ input, layerLabel, onJump, onClose }: Props) {
+  const { t } = useTranslation()
+  const graph = useMemo(() => buildLayerGraph(input), [input])
+  useEscapeClose(onClose)
+
+  // One arrow per ordered layer pair; self edges (e.g. TG(n) on layer n)
+  // only show up in the list
+  const arrows = useMemo(() => {
+    const byPair = new Map<string, LayerGraphEdge[]>()
+    for (const edge of graph.edges) {
+      if (edge.from === edge.to) continue
+      const key = `${edge.from},${edge.to}`
+      byPair.set(key, [...(byPair.get(key) ?? []), edge])
+    }
+    return [...byPair.values()]
+  }, [graph])
+
+  function jump(edge: LayerGraphEdge): void {
+    onJump(jumpTarget(edge))
+  }
+
+  function triggerLabel(trigger: LayerGraphTrigger): string {
+    return trigger.kind === 'key'
+      ? t('editor.keymap.layerGraph.keyTrigger', { row: trigger.row, col: trigger.col })
+      : t('editor.keymap.layerGraph.encoderTrigger', { idx: trigger.idx, dir: trigger.dir === 0 ? 'CW' : 'CCW' })
+  }
+
+  function mechanismLabel(edge: LayerGraphEdge): string {
+    switch (edge.via.kind) {
+      case 'keycode':
+        return serialize(edge.keycode)
+      case 'tapDance':
+        return t('editor.keymap.layerGraph.viaTapDance', { tapDance: `TD(${edge.via.index})`, keycode: serialize(edge.keycode) })
+      case 'combo':
+        return t('editor.keymap.layerGraph.viaCombo', { combo: edge.via.index, keycode: serialize(edge.keycode) })
+    }
+  }
+
+  const positions = graph.nodes.map((node) => nodePosition(node.layer, graph.nodes.length))
+  const trappedCount = graph.nodes.filter((node) => node.trapped).length
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" data-testid="keymap-layer-graph" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        className="w-modal-md max-w-modal-vw max-h-modal-80vh overflow-y-auto rounded-lg bg-surface-alt p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-1 flex items-center justify-between">
+          <h3 className="text-lg font-semibold">{t('editor.keymap.layerGraph.title')}</h3>
+          <ModalCloseButton testid="keymap-layer-graph-close" onClick={onClose} />
+        </div>
+        <p className="mb-4 text-xs text-content-muted">{t('editor.keymap.layerGraph.description')}</p>
+
+        <svg viewBox={`0 0 ${VIEW_SIZE} ${VIEW_SIZE}`} className="mx-auto mb-2 block w-full max-w-sm" role="img" aria-label={t('editor.keymap.layerGraph.title')}>
+          <defs>
+            <marker id="layer-graph-arrow" viewBox="0 0 8 8" refX="4" refY="4" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 8 4 L 0 8 z" className="fill-content-muted" />
+            </marker>
+          </defs>
+          {arrows.map((edges) => {
+            const { from, to } = edges[0]
+            const { d, label } = edgePath(positions[from], positions[to])
+            const fns = [...new Set(edges.map((e) => e.fn))].join(', ')
+            return (
+              <g key={`${from},${to}`} className="cursor-pointer" onClick={() => jump(edges[0])} data-testid="keymap-layer-graph-arrow">
+                <path d={d} fill="none" strokeWidth={10} className="stroke-transparent" />
+                <path d={d} fill="none" strokeWidth={1.5} className="stroke-content-muted" markerEnd="url(#layer-graph-arrow)" />
+                <text x={label.x} y={label.y} textAnchor="middle" dominantBaseline="central" fontSize={9} className="fill-content-secondary">{fns}</text>
+              </g>
+            )
+          })}
+          {graph.nodes.map((node) => {
+            const { x, y } = positions[node.layer]
+            const ring = node.trapped ? 'stroke-danger' : node.reachable ? 'stroke-accent' : 'stroke-edge'
+            return (
+              <g key={node.layer} data-testid="keymap-layer-graph-node" data-trapped={node.trapped || undefined}>
+                <circle cx={x} cy={y} r={NODE_RADIUS} strokeWidth={node.trapped ? 3 : 1.5} className={`fill-surface ${ring}`} />
+                <text x={x} y={y} textAnchor="middle" dominantBaseline="central" fontSize={12} className="fill-content">{node.layer}</text>
+              </g>
+            )
+          })}
+        </svg>
+
+        {trappedCount > 0 && (
+          <p className="mb-3 text-xs text-danger" data-testid="keymap-layer-graph-trapped">
+            {t('editor.keymap.layerGraph.trapped', {
+              count: trappedCount,
+              layers: graph.nodes.filter((node) => node.trapped).map((node) => layerLabel(node.layer)).join(', '),
+            })}
+          </p>
+        )}
+
+        {graph.edges.length === 0 ? (
+          <p className="text-sm text-content-muted" data-testid="keymap-layer-graph-empty">{t('editor.keymap.layerGraph.noEdges')}</p>
+        ) : (
+          <ul className="flex flex-col gap-1">
+            {graph.edges.map((edge, i) => (
+              <li key={i}>
+                <button
+                  type="button"
+                  className="flex w-full items-start gap-2 rounded px-2 py-1 text-left text-sm hover:bg-surface-dim"
+                  onClick={() => jump(edge)}
+                  data-testid="keymap-layer-graph-edge"
+                >
+                  <span className="w-1/3 shrink-0 truncate">{layerLabel(edge.from)} → {layerLabel(edge.to)}</span>
+                  <span className="flex-1 font-mono text-xs">{mechanismLabel(edge)}</span>
+                  <span className="shrink-0 text-xs text-content-muted">{edge.triggers.map(triggerLabel).join(' + ')}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -9,6 +9,7 @@ import { LayerListPanel } from './LayerListPanel'
 import { Tooltip } from '../ui/Tooltip'
 import { ICON_MD } from '../../constants/ui-tokens'
 import type { KeymapEditorProps } from './keymap-editor-types'
+import type { UseKeymapLayerOpsReturn } from './use-keymap-layer-ops'
 import type { Keycode } from '../../../shared/keycodes/keycodes'
 import type { parseLayoutLabels } from '../../../shared/layout-options'
 
@@ -23,6 +24,7 @@ import type { parseLayoutLabels } from '../../../shared/layout-options'
 export interface KeymapPickerRegionProps extends KeymapEditorProps {
   layerPanelCollapsed: boolean
   toggleLayerPanel: () => void
+  layerOps?: UseKeymapLayerOpsReturn
   layoutPickerContent: React.ReactNode
   packTabReadOnly: boolean
   gatedHandleKeycodeSelect: (kc: Keycode) => void
@@ -70,7 +72,7 @@ export interface KeymapPickerRegionProps extends KeymapEditorProps {
  *  either itself. */
 export function KeymapPickerRegion(props: KeymapPickerRegionProps): JSX.Element {
   const {
-    layers, currentLayer, onLayerChange, layerNames, onSetLayerName, layerPanelCollapsed, toggleLayerPanel,
+    layers, currentLayer, onLayerChange, layerNames, onSetLayerName, layerPanelCollapsed, toggleLayerPanel, layerOps,
     layoutPickerContent, packTabReadOnly, gatedHandleKeycodeSelect, handlePickerMultiSelect,
     pickerSelectedIndices, selectedKey, selectedEncoder, handleDeselect, clearPickerSelection,
     configuredKeycodes, isMaskKey, isLMMask, tabFooterContent, tabContentOverride,
@@ -88,7 +90,9 @@ export function KeymapPickerRegion(props: KeymapPickerRegionProps): JSX.Element
     <div className="flex min-h-0 flex-1 gap-2">
       {onLayerChange && layers > 1 && (
         <LayerListPanel layers={layers} currentLayer={currentLayer} onLayerChange={onLayerChange}
-          layerNames={layerNames} onSetLayerName={onSetLayerName} collapsed={layerPanelCollapsed} onToggleCollapse={toggleLayerPanel} />
+          layerNames={layerNames} onSetLayerName={onSetLayerName} collapsed={layerPanelCollapsed} onToggleCollapse={toggleLayerPanel}
+          onCopyLayer={layerOps?.copyLayer} onSwapLayers={layerOps?.swapLayers}
+          onClearLayer={layerOps?.clearLayer} onMoveLayer={layerOps?.moveLayer} />
       )}
       <TabbedKeycodes
         keyboardPickerContent={layoutPickerContent}
@@ -1,9 +1,12 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 
+import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import { ChevronsLeft, ChevronsRight } from 'lucide-react'
+import { ChevronsLeft, ChevronsRight, SlidersHorizontal } from 'lucide-react'
 import { ICON_SM } from '../../constants/ui-tokens'
 import { useInlineRename } from '../../hooks/useInlineRename'
+import { useConfirmAction } from '../../hooks/useConfirmAction'
+import { ConfirmButton } from './ConfirmButton'
 import { PANEL_COLLAPSED_WIDTH } from './keymap-editor-types'
 import { Tooltip } from '../ui/Tooltip'
 
@@ -22,6 +25,8 @@ function layerNameClass(active: boolean, editable: boolean): string {
 }
 
 const LAYER_TOGGLE_BTN = 'flex items-center justify-center rounded-md p-0.5 text-content-muted hover:text-content hover:bg-surface-dim transition-colors'
+const LAYER_OP_SELECT = 'min-w-0 flex-1 rounded border border-edge bg-surface px-1 py-0.5 text-xs'
+const LAYER_OP_BTN = 'shrink-0 rounded border border-edge px-2 py-0.5 text-xs hover:bg-surface-dim'
 
 export interface LayerListPanelProps {
   layers: number
@@ -31,6 +36,77 @@ export interface LayerListPanelProps {
   onSetLayerName?: (layer: number, name: string) => void
   collapsed?: boolean
   onToggleCollapse?: () => void
+  /** Layer operations; each is one undoable batch and reorders rewrite layer references. */
+  onCopyLayer?: (src: number, dst: number) => Promise<void>
+  onSwapLayers?: (a: number, b: number) => Promise<void>
+  onClearLayer?: (layer: number) => Promise<void>
+  onMoveLayer?: (from: number, to: number) => Promise<void>
+}
+
+function runLayerOp(op: Promise<void>): void {
+  op.catch((err: unknown) => console.error('[Keymap] layer operation failed:', err))
+}
+
+/** Copy / swap / clear for the current layer, shown under the layer list. */
+function LayerOpsPanel({ layers, currentLayer, layerLabel, onLayerChange, onCopyLayer, onSwapLayers, onClearLayer }: {
+  layers: number
+  currentLayer: number
+  layerLabel: (layer: number) => string
+  onLayerChange: (layer: number) => void
+  onCopyLayer?: (src: number, dst: number) => Promise<void>
+  onSwapLayers?: (a: number, b: number) => Promise<void>
+  onClearLayer?: (layer: number) => Promise<void>
+}) {
+  const { t } = useTranslation()
+  const others = Array.from({ length: layers }, (_, i) => i).filter((i) => i !== currentLayer)
+  const [copyTarget, setCopyTarget] = useState(others[0])
+  const [swapTarget, setSwapTarget] = useState(others[0])
+  const clearAction = useConfirmAction(() => { if (onClearLayer) runLayerOp(onClearLayer(currentLayer)) })
+  // Targets reset to the first other layer when the current one moves onto them
+  const copyTo = others.includes(copyTarget) ? copyTarget : others[0]
+  const swapWith = others.includes(swapTarget) ? swapTarget : others[0]
+
+  const options = others.map((i) => <option key={i} value={i}>{layerLabel(i)}</option>)
+
+  return (
+    <div className="flex flex-col gap-1.5 pt-2 text-xs" data-testid="layer-ops-panel">
+      {onCopyLayer && (
+        <div className="flex items-center gap-1">
+          <select className={LAYER_OP_SELECT} value={copyTo} onChange={(e) => setCopyTarget(Number(e.target.value))} aria-label={t('editor.keymap.layerOps.copyTo')} data-testid="layer-ops-copy-target">
+            {options}
+          </select>
+          <button type="button" className={LAYER_OP_BTN} onClick={() => runLayerOp(onCopyLayer(currentLayer, copyTo))} data-testid="layer-ops-copy">
+            {t('editor.keymap.layerOps.copyTo')}
+          </button>
+        </div>
+      )}
+      {onSwapLayers && (
+        <div className="flex items-center gap-1">
+          <select className={LAYER_OP_SELECT} value={swapWith} onChange={(e) => setSwapTarget(Number(e.target.value))} aria-label={t('editor.keymap.layerOps.swapWith')} data-testid="layer-ops-swap-target">
+            {options}
+          </select>
+          <button
+            type="button"
+            className={LAYER_OP_BTN}
+            onClick={() => { runLayerOp(onSwapLayers(currentLayer, swapWith)); onLayerChange(swapWith) }}
+            data-testid="layer-ops-swap"
+          >
+            {t('editor.keymap.layerOps.swapWith')}
+          </button>
+        </div>
+      )}
+      {onClearLayer && (
+        <ConfirmButton
+          testId="layer-ops-clear"
+          confirming={clearAction.confirming}
+          onClick={clearAction.trigger}
+          labelKey="editor.keymap.layerOps.clear"
+          confirmLabelKey="common.confirmClear"
+          className="rounded border px-2 py-0.5 text-xs"
+        />
+      )}
+    </div>
+  )
 }
 
 function LayerNumButton({ index, active, onLayerChange }: {
@@ -49,8 +125,16 @@ function LayerNumButton({ index, active, onLayerChange }: {
   )
 }
 
-export function LayerListPanel({ layers, currentLayer, onLayerChange, layerNames, onSetLayerName, collapsed, onToggleCollapse }: LayerListPanelProps) {
+export function LayerListPanel({
+  layers, currentLayer, onLayerChange, layerNames, onSetLayerName, collapsed, onToggleCollapse,
+  onCopyLayer, onSwapLayers, onClearLayer, onMoveLayer,
+}: LayerListPanelProps) {
   const { t } = useTranslation()
+  const [opsOpen, setOpsOpen] = useState(false)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null)
+  const hasLayerOps = !!(onCopyLayer || onSwapLayers || onClearLayer)
+  const canReorder = !!onMoveLayer && !collapsed
   // Layer names fall back to a computed "Layer N" label when empty, so
   // clearing the field is a valid rename (unlike stored layouts/packs/
   // favorites, which require a non-empty name).
@@ -75,6 +159,25 @@ export function LayerListPanel({ layers, currentLayer, onLayerChange, layerNames
     }
   }
 
+  function layerLabel(layer: number): string {
+    return layerNames?.[layer] || t('editor.keymap.layerN', { n: layer })
+  }
+
+  // Dropping moves the dragged layer into the target slot; the moved layer stays selected
+  function handleDrop(target: number): void {
+    const from = dragIndex
+    setDragIndex(null)
+    setDragOverIndex(null)
+    if (from === null || from === target || !onMoveLayer) return
+    runLayerOp(onMoveLayer(from, target))
+    onLayerChange(target)
+  }
+
+  function dropIndicatorClass(index: number): string {
+    if (dragIndex === null || dragOverIndex !== index || dragIndex === index) return ''
+    return dragIndex < index ? ' border-b-2 border-b-accent' : ' border-t-2 border-t-accent'
+  }
+
   // Outer container clips content and transitions width.
   // Inner content is always full-width (w-44); collapsing just shrinks the
   // visible area so names slide out horizontally.
@@ -96,8 +199,13 @@ export function LayerListPanel({ layers, currentLayer, onLayerChange, layerNames
               return (
                 <div
                   key={i}
-                  className="flex shrink-0 items-center gap-1.5"
+                  className={`flex shrink-0 items-center gap-1.5${dropIndicatorClass(i)}`}
                   data-testid={`layer-panel-layer-${i}`}
+                  draggable={canReorder && !isEditing}
+                  onDragStart={canReorder ? (e) => { e.dataTransfer.effectAllowed = 'move'; e.dataTransfer.setData('text/plain', ''); setDragIndex(i) } : undefined}
+                  onDragOver={canReorder ? (e) => { e.preventDefault(); setDragOverIndex(i) } : undefined}
+                  onDrop={canReorder ? (e) => { e.preventDefault(); handleDrop(i) } : undefined}
+                  onDragEnd={canReorder ? () => { setDragIndex(null); setDragOverIndex(null) } : undefined}
                 >
                   <LayerNumButton index={i} active={isActive} onLayerChange={onLayerChange} />
                   <div
@@ -133,7 +241,18 @@ export function LayerListPanel({ layers, currentLayer, onLayerChange, layerNames
         </div>
         <div className="shrink-0">
           <div className="border-t border-edge" style={collapsed ? { maxWidth: '2rem' } : undefined} />
-          <div className="flex pt-2">
+          {!collapsed && opsOpen && hasLayerOps && (
+            <LayerOpsPanel
+              layers={layers}
+              currentLayer={currentLayer}
+              layerLabel={layerLabel}
+              onLayerChange={onLayerChange}
+              onCopyLayer={onCopyLayer}
+              onSwapLayers={onSwapLayers}
+              onClearLayer={onClearLayer}
+            />
+          )}
+          <div className="flex items-center justify-between pt-2">
             <Tooltip content={collapsed ? t('editor.keymap.expandLayers') : t('editor.keymap.collapseLayers')}>
               <button
                 type="button"
@@ -145,6 +264,20 @@ export function LayerListPanel({ layers, currentLayer, onLayerChange, layerNames
                 {collapsed ? <ChevronsRight size={ICON_SM} aria-hidden="true" /> : <ChevronsLeft size={ICON_SM} aria-hidden="true" />}
               </button>
             </Tooltip>
+            {!collapsed && hasLayerOps && (
+              <Tooltip content={t('editor.keymap.layerOps.title')}>
+                <button
+                  type="button"
+                  className={LAYER_TOGGLE_BTN}
+                  onClick={() => setOpsOpen((open) => !open)}
+                  aria-label={t('editor.keymap.layerOps.title')}
+                  aria-expanded={opsOpen}
+                  data-testid="layer-panel-ops-btn"
+                >
+                  <SlidersHorizontal size={ICON_SM} aria-hidden="true" />
+                </button>
+              </Tooltip>
+            )}
           </div>
         </div>
       </div>
@@ -50,6 +50,7 @@ export function LayoutStoreContent({
   defaultSaveLabel,
   onSave,
   onLoad,
+  onCompare,
   onRename,
   onDelete,
   onOverwriteSave,
@@ -57,6 +58,7 @@ export function LayoutStoreContent({
   onExportVil,
   onExportKeymapC,
   onExportPdf,
+  onExportZmkKeymap,
   onSideloadJson,
   onExportEntryVil,
   onExportEntryKeymapC,
@@ -163,7 +165,7 @@ export function LayoutStoreContent({
 
   const hasImportSideload = onImportVil || onSideloadJson
   const hasEntryExport = onExportEntryVil || onExportEntryKeymapC || onExportEntryPdf
-  const hasCurrentExport = onExportVil || onExportKeymapC || onExportPdf
+  const hasCurrentExport = onExportVil || onExportKeymapC || onExportPdf || onExportZmkKeymap
   const hasHubActions = onUploadToHub || onUpdateOnHub || onRemoveFromHub || onReuploadToHub || onDeleteOrphanedHubPost || hubNeedsDisplayName
   const isPanel = !!listClassName
   const fixedSection = isPanel ? ' shrink-0' : ''
@@ -240,6 +242,7 @@ export function LayoutStoreContent({
                       onVil={onExportVil ? async () => { if (await onExportVil()) flashExported() } : undefined}
                       onKeymapC={onExportKeymapC ? async () => { if (await onExportKeymapC()) flashExported() } : undefined}
                       onPdf={onExportPdf ? async () => { if (await onExportPdf()) flashExported() } : undefined}
+                      onZmkKeymap={onExportZmkKeymap ? async () => { if (await onExportZmkKeymap()) flashExported() } : undefined}
                     />
                   </div>
                 </div>
@@ -314,6 +317,7 @@ export function LayoutStoreContent({
                     onVil={onExportVil ? async () => { if (await onExportVil()) flashExported() } : undefined}
                     onKeymapC={onExportKeymapC ? async () => { if (await onExportKeymapC()) flashExported() } : undefined}
                     onPdf={onExportPdf ? async () => { if (await onExportPdf()) flashExported() } : undefined}
+                    onZmkKeymap={onExportZmkKeymap ? async () => { if (await onExportZmkKeymap()) flashExported() } : undefined}
                   />
                 </div>
               </div>
@@ -354,6 +358,7 @@ export function LayoutStoreContent({
                     onCommitRename={commitRename}
                     onHandleRenameKeyDown={handleRenameKeyDown}
                     onLoad={onLoad}
+                    onCompare={onCompare}
                     onDelete={onDelete}
                     hasEntryExport={!!hasEntryExport}
                     hasHubActions={!!hasHubActions}
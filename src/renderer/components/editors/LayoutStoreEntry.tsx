@@ -15,9 +15,10 @@ interface FormatButtonsProps {
   onVil?: () => void
   onKeymapC?: () => void
   onPdf?: () => void
+  onZmkKeymap?: () => void
 }
 
-function FormatButtons({ className, testIdPrefix, disabled, onVil, onKeymapC, onPdf }: FormatButtonsProps) {
+function FormatButtons({ className, testIdPrefix, disabled, onVil, onKeymapC, onPdf, onZmkKeymap }: FormatButtonsProps) {
   const { t } = useTranslation()
   return (
     <>
@@ -54,6 +55,17 @@ function FormatButtons({ className, testIdPrefix, disabled, onVil, onKeymapC, on
           {t('layoutStore.exportPdf')}
         </button>
       )}
+      {onZmkKeymap && (
+        <button
+          type="button"
+          className={className}
+          onClick={onZmkKeymap}
+          disabled={disabled}
+          data-testid={`${testIdPrefix}-zmk-keymap`}
+        >
+          {t('layoutStore.exportZmkKeymap')}
+        </button>
+      )}
     </>
   )
 }
@@ -79,6 +91,7 @@ interface LayoutStoreEntryProps {
   onCommitRename?: (entryId: string) => void
   onHandleRenameKeyDown?: (e: React.KeyboardEvent, entryId: string) => void
   onLoad?: (entryId: string) => void
+  onCompare?: (entryId: string) => void
   onDelete: (entryId: string) => void
   hasEntryExport: boolean
   hasHubActions: boolean
@@ -112,6 +125,7 @@ export function LayoutStoreEntry({
   onCommitRename,
   onHandleRenameKeyDown,
   onLoad,
+  onCompare,
   onDelete,
   hasEntryExport,
   hasHubActions,
@@ -217,6 +231,16 @@ export function LayoutStoreEntry({
                   {t('common.load')}
                 </button>
               )}
+              {onCompare && (
+                <button
+                  type="button"
+                  className={ACTION_BTN}
+                  onClick={() => onCompare(entry.id)}
+                  data-testid="layout-store-compare-btn"
+                >
+                  {t('layoutStore.compare.button')}
+                </button>
+              )}
               <button
                 type="button"
                 className={DELETE_BTN}
@@ -4,6 +4,7 @@ import { useTranslation } from 'react-i18next'
 import { GripVertical, X } from 'lucide-react'
 import { ICON_SM, ICON_LG } from '../../constants/ui-tokens'
 import { isValidMacroText, type MacroAction } from '../../../preload/macro'
+import { DEFAULT_UNICODE_INPUT_METHOD, type UnicodeInputMethod } from '../../../preload/macro-unicode'
 import { INPUT_BASE } from './store-modal-shared'
 import { KeycodeField, KEYCODE_FIELD_SIZE } from './KeycodeField'
 import { Tooltip } from '../ui/Tooltip'
@@ -34,10 +35,15 @@ interface Props {
   disabled?: boolean
 }
 
-export function defaultAction(type: ActionType): MacroAction {
+export function defaultAction(
+  type: ActionType,
+  unicodeMethod: UnicodeInputMethod = DEFAULT_UNICODE_INPUT_METHOD,
+): MacroAction {
   switch (type) {
     case 'text':
       return { type: 'text', text: '' }
+    case 'unicode':
+      return { type: 'unicode', text: '', method: unicodeMethod }
     case 'tap':
     case 'down':
     case 'up':
@@ -78,6 +84,7 @@ export function MacroActionItem({
     down: t('editor.macro.down'),
     up: t('editor.macro.up'),
     delay: t('editor.macro.delay'),
+    unicode: t('editor.macro.unicode'),
   }
 
   const renderContent = () => {
@@ -100,6 +107,20 @@ export function MacroActionItem({
           </div>
         )
       }
+      case 'unicode':
+        return (
+          <div className="flex-1">
+            <input
+              type="text"
+              value={action.text}
+              onChange={(e) => onChange(index, { ...action, text: e.target.value })}
+              placeholder={t('editor.macro.unicode')}
+              disabled={disabled}
+              className="w-full rounded border border-edge px-2 py-1 text-sm focus:border-accent focus:outline-none disabled:opacity-50"
+              data-testid="macro-unicode-text"
+            />
+          </div>
+        )
       case 'tap':
       case 'down':
       case 'up':
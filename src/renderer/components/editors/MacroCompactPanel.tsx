@@ -0,0 +1,66 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { useTranslation } from 'react-i18next'
+import type { MacroCompaction } from '../../../preload/macro-compact'
+import { BTN_PRIMARY } from '../../constants/ui-tokens'
+
+interface Props {
+  compaction: MacroCompaction
+  macroBufferSize: number
+  onApply: () => void
+  onCancel: () => void
+}
+
+export function MacroCompactPanel({ compaction, macroBufferSize, onApply, onCancel }: Props) {
+  const { t } = useTranslation()
+  const { before, after } = compaction
+  const saved = before.total - after.total
+  const changed = before.perMacro
+    .map((bytes, index) => ({ index, before: bytes, after: after.perMacro[index] }))
+    .filter((m) => m.before !== m.after)
+  // Trailing empty macros drop to 0 bytes; list them as one line
+  const trimmed = changed.filter((m) => m.after === 0)
+
+  return (
+    <div className="mx-6 mb-3 rounded border border-edge bg-surface-dim p-3 text-xs" data-testid="macro-compact-panel">
+      {saved > 0 ? (
+        <>
+          <p className="font-medium" data-testid="macro-compact-diff">
+            {t('editor.macro.compactDiff', { before: before.total, after: after.total, saved, total: macroBufferSize })}
+          </p>
+          <ul className="mt-1 max-h-24 overflow-y-auto text-content-muted" data-testid="macro-compact-macros">
+            {changed.filter((m) => m.after > 0).map((m) => (
+              <li key={m.index}>
+                {t('editor.macro.compactMacroDiff', { index: m.index, before: m.before, after: m.after })}
+              </li>
+            ))}
+            {trimmed.length > 0 && (
+              <li>{t('editor.macro.compactTrimmed', { count: trimmed.length })}</li>
+            )}
+          </ul>
+        </>
+      ) : (
+        <p className="text-content-muted" data-testid="macro-compact-diff">{t('editor.macro.compactNothing')}</p>
+      )}
+      <div className="mt-2 flex justify-end gap-2">
+        <button
+          type="button"
+          className="rounded border border-edge px-3 py-1 hover:bg-surface-raised"
+          onClick={onCancel}
+          data-testid="macro-compact-cancel"
+        >
+          {t('common.cancel')}
+        </button>
+        <button
+          type="button"
+          className={BTN_PRIMARY}
+          onClick={onApply}
+          disabled={saved <= 0}
+          data-testid="macro-compact-apply"
+        >
+          {t('editor.macro.compactApply')}
+        </button>
+      </div>
+    </div>
+  )
+}
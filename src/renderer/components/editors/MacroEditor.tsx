@@ -5,16 +5,28 @@ import { useTranslation } from 'react-i18next'
 import { MacroActionItem, defaultAction, type ActionType } from './MacroActionItem'
 import { MacroRecorder } from './MacroRecorder'
 import { MacroTextEditor } from './MacroTextEditor'
+import { MacroCompactPanel } from './MacroCompactPanel'
+import type { MacroMatrixSource } from './macro-matrix-recording'
 import { TabbedKeycodes } from '../keycodes/TabbedKeycodes'
 import { KeyPopover } from '../keycodes/KeyPopover'
 import {
   type MacroAction,
-  serializeAllMacros,
-  serializeMacro,
   macroActionsToJson,
   jsonToMacroActions,
   isValidMacroText,
 } from '../../../preload/macro'
+import {
+  DEFAULT_UNICODE_INPUT_METHOD,
+  UNICODE_INPUT_METHODS,
+  type HostLayoutMap,
+  type UnicodeInputMethod,
+} from '../../../preload/macro-unicode'
+import {
+  compactMacros,
+  macroBufferUsage,
+  serializeMacroBuffer,
+  type MacroCompaction,
+} from '../../../preload/macro-compact'
 import type { TapDanceEntry } from '../../../shared/types/protocol'
 import { useUnlockGate } from '../../hooks/useUnlockGate'
 import { BTN_PRIMARY } from '../../constants/ui-tokens'
@@ -26,7 +38,13 @@ import { ConfirmButton } from './ConfirmButton'
 import { FavoriteStoreContent } from './FavoriteStoreContent'
 import type { FavHubEntryResult } from './FavoriteHubActions'
 import type { BasicViewType, SplitKeyMode } from '../../../shared/types/app-config'
-import { parseMacroBuffer, isKeycodeAction, normalizeMacros, normalizeMacroActions } from './macro-editor-utils'
+import {
+  parseMacroBuffer,
+  isKeycodeAction,
+  normalizeMacros,
+  normalizeMacroActions,
+  macroUnicodeMethod,
+} from './macro-editor-utils'
 
 interface Props {
   macroCount: number
@@ -35,6 +53,8 @@ interface Props {
   vialProtocol: number
   onSaveMacros: (buffer: number[], parsedMacros?: MacroAction[][]) => Promise<void>
   parsedMacros?: MacroAction[][] | null
+  /** Host layout unicode actions are typed through; US QWERTY when absent. */
+  hostLayout?: HostLayoutMap | null
   onClose?: () => void
   initialMacro?: number
   unlocked?: boolean
@@ -44,6 +64,7 @@ interface Props {
   onRecordingChange?: (recording: boolean) => void
   tapDanceEntries?: TapDanceEntry[]
   deserializedMacros?: MacroAction[][]
+  matrixSource?: MacroMatrixSource
   // Hub integration (optional)
   hubOrigin?: string
   hubNeedsDisplayName?: boolean
@@ -67,6 +88,7 @@ export function MacroEditor({
   vialProtocol,
   onSaveMacros,
   parsedMacros: parsedMacrosProp,
+  hostLayout = null,
   onClose,
   initialMacro,
   unlocked,
@@ -76,6 +98,7 @@ export function MacroEditor({
   onRecordingChange,
   tapDanceEntries,
   deserializedMacros,
+  matrixSource,
   hubOrigin,
   hubNeedsDisplayName,
   hubUploading,
@@ -96,6 +119,9 @@ export function MacroEditor({
   const [dirty, setDirty] = useState(false)
   const [showTextEditor, setShowTextEditor] = useState(false)
   const [isRecording, setIsRecording] = useState(false)
+  const [compaction, setCompaction] = useState<MacroCompaction | null>(null)
+  // Set once compaction has trimmed trailing empty macros; saves then zero-fill the buffer
+  const [trimTrailing, setTrimTrailing] = useState(false)
 
   useEffect(() => {
     onRecordingChange?.(isRecording)
@@ -109,6 +135,12 @@ export function MacroEditor({
 
   const currentActions = macros[activeMacro] ?? []
 
+  // Unicode actions of one macro share an input method; the last one picked
+  // is used for macros that have none yet
+  const [preferredUnicodeMethod, setPreferredUnicodeMethod] = useState<UnicodeInputMethod>(DEFAULT_UNICODE_INPUT_METHOD)
+  const currentUnicodeMethod = macroUnicodeMethod(currentActions)
+  const unicodeMethod = currentUnicodeMethod ?? preferredUnicodeMethod
+
   const favStore = useFavoriteStore({
     favoriteType: 'macro',
     serialize: () => JSON.parse(macroActionsToJson(normalizeMacroActions(currentActions))),
@@ -198,9 +230,17 @@ export function MacroEditor({
   const handleAddActionType = useCallback(
     (type: ActionType) => {
       if (isRecording) return
-      beginAddAction(defaultAction(type))
+      beginAddAction(defaultAction(type, unicodeMethod))
     },
-    [isRecording, beginAddAction],
+    [isRecording, beginAddAction, unicodeMethod],
+  )
+
+  const handleUnicodeMethodChange = useCallback(
+    (method: UnicodeInputMethod) => {
+      setPreferredUnicodeMethod(method)
+      updateActions(currentActions.map((a) => (a.type === 'unicode' ? { ...a, method } : a)))
+    },
+    [currentActions, updateActions],
   )
 
   const handleChange = useCallback(
@@ -269,12 +309,12 @@ export function MacroEditor({
   const handleSave = useCallback(async () => {
     await guardAll(async () => {
       const current = normalizeMacros(macrosRef.current)
-      const buffer = serializeAllMacros(current, vialProtocol)
+      const buffer = serializeMacroBuffer(current, vialProtocol, macroBufferSize, trimTrailing, hostLayout)
       await onSaveMacros(buffer, current)
       setDirty(false)
       onClose?.()
     })
-  }, [vialProtocol, onSaveMacros, guardAll, onClose])
+  }, [vialProtocol, macroBufferSize, trimTrailing, hostLayout, onSaveMacros, guardAll, onClose])
 
   const clearAction = useConfirmAction(useCallback(() => {
     updateActions([])
@@ -285,6 +325,7 @@ export function MacroEditor({
     setSelectedKey(null)
     setPopoverState(null)
     setMacros(parseMacroBuffer(macroBuffer, vialProtocol, macroCount))
+    setTrimTrailing(false)
     setDirty(false)
   }, [macroBuffer, vialProtocol, macroCount, clearPending, setSelectedKey, setPopoverState]))
 
@@ -308,13 +349,32 @@ export function MacroEditor({
     editRevertAction.reset()
   }, [activeMacro])
 
-  const memoryUsed = useMemo(() => {
-    let total = 0
-    for (const macro of macros) {
-      total += serializeMacro(macro, vialProtocol).length + 1 // +1 for NUL terminator
-    }
-    return total
-  }, [macros, vialProtocol])
+  const usage = useMemo(
+    () => macroBufferUsage(normalizeMacros(macros), vialProtocol, trimTrailing, hostLayout),
+    [macros, vialProtocol, trimTrailing, hostLayout],
+  )
+  const overBudget = usage.total > macroBufferSize
+  const usagePercent = macroBufferSize > 0 ? Math.min(100, (usage.total / macroBufferSize) * 100) : 100
+  const usageColor = overBudget ? 'bg-danger' : usagePercent >= 90 ? 'bg-warning' : 'bg-accent'
+
+  // A preview is only valid for the macros it was computed from
+  useEffect(() => {
+    setCompaction(null)
+  }, [macros, vialProtocol, hostLayout])
+
+  const handleCompact = useCallback(() => {
+    setCompaction(compactMacros(normalizeMacros(macrosRef.current), vialProtocol, trimTrailing, hostLayout))
+  }, [vialProtocol, trimTrailing, hostLayout])
+
+  const handleCompactApply = useCallback(() => {
+    if (!compaction) return
+    clearPending()
+    setSelectedKey(null)
+    setPopoverState(null)
+    setMacros(compaction.macros)
+    setTrimTrailing(true)
+    setDirty(true)
+  }, [compaction, clearPending, setSelectedKey, setPopoverState])
 
   const hasInvalidText = useMemo(
     () => macros.some((macro) =>
@@ -336,12 +396,18 @@ export function MacroEditor({
       <div className="flex-1 flex flex-col min-h-0" data-testid="editor-macro">
         {/* Fixed header: memory + action buttons */}
           <div className={`shrink-0 px-6 pt-2 pb-3 flex items-center gap-2 ${isEditing ? 'hidden' : ''}`}>
-            <span className="text-xs text-content-muted" data-testid="macro-memory">
+            <span className="text-xs text-content-muted" data-testid="macro-bytes">
+              {t('editor.macro.macroBytes', { bytes: usage.perMacro[activeMacro] ?? 0 })}
+            </span>
+            <span className={`text-xs ${overBudget ? 'text-danger' : 'text-content-muted'}`} data-testid="macro-memory">
               {t('editor.macro.memoryUsage', {
-                used: memoryUsed,
+                used: usage.total,
                 total: macroBufferSize,
               })}
             </span>
+            <div className="h-1.5 w-16 overflow-hidden rounded bg-surface-dim" data-testid="macro-memory-meter">
+              <div className={`h-full ${usageColor}`} style={{ width: `${usagePercent}%` }} />
+            </div>
             <div className="flex-1" />
             <select
               data-testid="macro-add-action"
@@ -359,8 +425,28 @@ export function MacroEditor({
               <option value="down">{t('editor.macro.down')}</option>
               <option value="up">{t('editor.macro.up')}</option>
               <option value="delay">{t('editor.macro.delay')}</option>
+              <option value="unicode">{t('editor.macro.unicode')}</option>
             </select>
-            <MacroRecorder onRecordComplete={handleRecordComplete} onRecordingChange={setIsRecording} />
+            {currentUnicodeMethod !== null && (
+              <select
+                data-testid="macro-unicode-method"
+                aria-label={t('editor.macro.unicodeMethod')}
+                className="rounded border border-transparent bg-surface-dim px-2.5 py-1 text-xs hover:bg-surface-raised disabled:opacity-50 focus:border-accent focus:outline-none"
+                value={currentUnicodeMethod}
+                disabled={isRecording}
+                onChange={(e) => handleUnicodeMethodChange(e.target.value as UnicodeInputMethod)}
+              >
+                {UNICODE_INPUT_METHODS.map((method) => (
+                  <option key={method} value={method}>{t(`editor.macro.unicodeMethods.${method}`)}</option>
+                ))}
+              </select>
+            )}
+            <MacroRecorder
+              onRecordComplete={handleRecordComplete}
+              onRecordingChange={setIsRecording}
+              matrixSource={matrixSource}
+              guardUnlock={guardAll}
+            />
             <button
               type="button"
               data-testid="macro-text-editor-btn"
@@ -370,8 +456,32 @@ export function MacroEditor({
             >
               {t('editor.macro.textEditor')}
             </button>
+            <button
+              type="button"
+              data-testid="macro-compact"
+              className="rounded border border-transparent bg-surface-dim px-2.5 py-1 text-xs hover:bg-surface-raised disabled:opacity-50 focus:border-accent focus:outline-none"
+              disabled={isRecording}
+              onClick={handleCompact}
+            >
+              {t('editor.macro.compact')}
+            </button>
           </div>
 
+        {!isEditing && overBudget && (
+          <p className="shrink-0 px-6 pb-3 text-xs text-danger" data-testid="macro-over-budget">
+            {t('editor.macro.overBudget', { over: usage.total - macroBufferSize })}
+          </p>
+        )}
+
+        {!isEditing && compaction && (
+          <MacroCompactPanel
+            compaction={compaction}
+            macroBufferSize={macroBufferSize}
+            onApply={handleCompactApply}
+            onCancel={() => setCompaction(null)}
+          />
+        )}
+
         {/* Action list: shrink-0 in edit mode, scrollable in list mode */}
         <div className={`px-6 pb-3 ${isEditing ? 'shrink-0 pt-6' : 'flex-1 overflow-y-auto'}`}>
           <div className="space-y-1" data-testid="macro-action-list">
@@ -463,7 +573,7 @@ export function MacroEditor({
                 onClick={isEditing ? commitAndDeselect : handleSave}
                 disabled={isEditing
                   ? (isRecording || !hasPendingEdit)
-                  : (!dirty || hasInvalidText || isRecording)}
+                  : (!dirty || hasInvalidText || isRecording || overBudget)}
               >
                 {t('common.save')}
               </button>
@@ -491,6 +601,8 @@ export function MacroEditor({
         {showTextEditor && (
           <MacroTextEditor
             initialJson={macroActionsToJson(currentActions)}
+            vialProtocol={vialProtocol}
+            unicodeMethod={unicodeMethod}
             onApply={handleTextEditorApply}
             onClose={() => setShowTextEditor(false)}
           />
@@ -528,6 +640,9 @@ export function MacroEditor({
             onRemoveFromHub={onRemoveFromHub}
             onRenameOnHub={onRenameOnHub}
             onRefreshEntries={favStore.refreshEntries}
+            onSetTags={favStore.setEntryTags}
+            searchTexts={favStore.searchTexts}
+            onSearchContent={favStore.loadSearchTexts}
           />
         </div>
       )}
@@ -6,7 +6,9 @@ import { MacroEditor } from './MacroEditor'
 import { ModalCloseButton } from './ModalCloseButton'
 import { useEscapeClose } from '../../hooks/useEscapeClose'
 import type { MacroAction } from '../../../preload/macro'
+import type { HostLayoutMap } from '../../../preload/macro-unicode'
 import type { TapDanceEntry } from '../../../shared/types/protocol'
+import type { MacroMatrixSource } from './macro-matrix-recording'
 import type { FavHubEntryResult } from './FavoriteHubActions'
 import type { BasicViewType, SplitKeyMode } from '../../../shared/types/app-config'
 
@@ -18,12 +20,15 @@ interface Props {
   vialProtocol: number
   onSaveMacros: (buffer: number[], parsedMacros?: MacroAction[][]) => Promise<void>
   parsedMacros?: MacroAction[][] | null
+  /** Host layout unicode actions are typed through; US QWERTY when absent. */
+  hostLayout?: HostLayoutMap | null
   onClose: () => void
   unlocked?: boolean
   onUnlock?: () => void
   isDummy?: boolean
   tapDanceEntries?: TapDanceEntry[]
   deserializedMacros?: MacroAction[][]
+  matrixSource?: MacroMatrixSource
   // Hub integration (optional)
   hubOrigin?: string
   hubNeedsDisplayName?: boolean
@@ -48,12 +53,14 @@ export function MacroModal({
   vialProtocol,
   onSaveMacros,
   parsedMacros,
+  hostLayout,
   onClose,
   unlocked,
   onUnlock,
   isDummy,
   tapDanceEntries,
   deserializedMacros,
+  matrixSource,
   hubOrigin,
   hubNeedsDisplayName,
   hubUploading,
@@ -109,6 +116,7 @@ export function MacroModal({
             vialProtocol={vialProtocol}
             onSaveMacros={onSaveMacros}
             parsedMacros={parsedMacros}
+            hostLayout={hostLayout}
             onClose={onClose}
             initialMacro={index}
             unlocked={unlocked}
@@ -118,6 +126,7 @@ export function MacroModal({
             onRecordingChange={setIsRecording}
             tapDanceEntries={tapDanceEntries}
             deserializedMacros={deserializedMacros}
+            matrixSource={matrixSource}
             hubOrigin={hubOrigin}
             hubNeedsDisplayName={hubNeedsDisplayName}
             hubUploading={hubUploading}
@@ -4,22 +4,43 @@ import { useState, useCallback, useEffect, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
 import type { MacroAction } from '../../../preload/macro'
 import { findByRecorderAlias, deserialize } from '../../../shared/keycodes/keycodes'
+import type { FirmwareSimEvent } from '../../../shared/keymap/firmware-sim'
+import { parseMatrixState, POLL_INTERVAL } from './matrix-utils'
+import {
+  diffMatrixState,
+  matrixEventsToMacro,
+  MAX_DELAY_CHOICES_MS,
+  QUANTIZE_CHOICES_MS,
+  type MacroMatrixSource,
+  type MatrixRecordingOptions,
+} from './macro-matrix-recording'
 
 interface Props {
   onRecordComplete: (actions: MacroAction[]) => void
   onRecordingChange?: (recording: boolean) => void
+  /** Enables recording from the board's own matrix. */
+  matrixSource?: MacroMatrixSource
+  /** Runs `action` once the keyboard is unlocked; matrix polling needs it. */
+  guardUnlock?: (action: () => Promise<void>) => Promise<void>
 }
 
+type RecordSource = 'host' | 'matrix'
+
 const TAP_THRESHOLD_MS = 200
 
+const SELECT_CLASS = 'rounded border border-transparent bg-surface-dim px-2 py-1 text-xs hover:bg-surface-raised disabled:opacity-50 focus:border-accent focus:outline-none'
+
 interface PendingKey {
   code: string
   downTime: number
 }
 
-export function MacroRecorder({ onRecordComplete, onRecordingChange }: Props) {
+export function MacroRecorder({ onRecordComplete, onRecordingChange, matrixSource, guardUnlock }: Props) {
   const { t } = useTranslation()
   const [recording, setRecording] = useState(false)
+  const [source, setSource] = useState<RecordSource>('host')
+  const [options, setOptions] = useState<MatrixRecordingOptions>({ quantizeMs: 0, maxDelayMs: 0 })
+  const matrixMode = source === 'matrix' && matrixSource !== undefined
 
   useEffect(() => {
     onRecordingChange?.(recording)
@@ -62,7 +83,7 @@ export function MacroRecorder({ onRecordComplete, onRecordingChange }: Props) {
   }, [])
 
   useEffect(() => {
-    if (!recording) return
+    if (!recording || matrixMode) return
 
     const handleKeyDown = (e: KeyboardEvent) => {
       e.preventDefault()
@@ -85,10 +106,76 @@ export function MacroRecorder({ onRecordComplete, onRecordingChange }: Props) {
       document.removeEventListener('keydown', handleKeyDown, true)
       document.removeEventListener('keyup', handleKeyUp, true)
     }
-  }, [recording, flushPending])
+  }, [recording, matrixMode, flushPending])
+
+  // --- Matrix recording ---
+  const matrixEventsRef = useRef<FirmwareSimEvent[]>([])
+  const matrixPressedRef = useRef<Set<string>>(new Set())
+  const matrixStartRef = useRef(0)
+  const pollingRef = useRef(false)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+
+  const stopPolling = useCallback(() => {
+    pollingRef.current = false
+    if (timerRef.current) clearTimeout(timerRef.current)
+  }, [])
+
+  const poll = useCallback(async () => {
+    if (!pollingRef.current || !matrixSource) return
+    try {
+      const data = await matrixSource.getMatrixState()
+      if (!pollingRef.current) return
+      const pressed = parseMatrixState(data, matrixSource.rows, matrixSource.cols)
+      const time = Date.now() - matrixStartRef.current
+      matrixEventsRef.current.push(...diffMatrixState(matrixPressedRef.current, pressed, time))
+      matrixPressedRef.current = pressed
+    } catch {
+      // device may disconnect
+    }
+    if (pollingRef.current) {
+      timerRef.current = setTimeout(poll, POLL_INTERVAL)
+    }
+  }, [matrixSource])
+
+  useEffect(() => stopPolling, [stopPolling])
+
+  // The board still types into the app while it is being recorded
+  useEffect(() => {
+    if (!recording || !matrixMode) return
+    const swallow = (e: KeyboardEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+    }
+    document.addEventListener('keydown', swallow, true)
+    document.addEventListener('keyup', swallow, true)
+    return () => {
+      document.removeEventListener('keydown', swallow, true)
+      document.removeEventListener('keyup', swallow, true)
+    }
+  }, [recording, matrixMode])
+
+  const startMatrixRecording = useCallback(async () => {
+    matrixEventsRef.current = []
+    matrixPressedRef.current = new Set()
+    matrixStartRef.current = Date.now()
+    pollingRef.current = true
+    setRecording(true)
+    void poll()
+  }, [poll])
 
   const handleToggle = useCallback(() => {
-    if (recording) {
+    if (recording && matrixMode && matrixSource) {
+      stopPolling()
+      setRecording(false)
+      // Keys still down when recording stopped are released here
+      const time = Date.now() - matrixStartRef.current
+      const events = [...matrixEventsRef.current, ...diffMatrixState(matrixPressedRef.current, new Set(), time)]
+      onRecordComplete(matrixEventsToMacro(matrixSource.simulatorInput, events, options))
+      matrixEventsRef.current = []
+    } else if (!recording && matrixMode) {
+      if (guardUnlock) void guardUnlock(startMatrixRecording)
+      else void startMatrixRecording()
+    } else if (recording) {
       // Flush any remaining pending keys
       for (const code of pendingRef.current.keys()) {
         flushPending(code)
@@ -102,19 +189,65 @@ export function MacroRecorder({ onRecordComplete, onRecordingChange }: Props) {
       pendingRef.current.clear()
       setRecording(true)
     }
-  }, [recording, flushPending, onRecordComplete])
+  }, [recording, matrixMode, matrixSource, options, flushPending, onRecordComplete, stopPolling, guardUnlock, startMatrixRecording])
+
+  const formatMs = (ms: number) => (ms === 0 ? t('editor.macro.recordOff') : t('editor.macro.recordMs', { ms }))
 
   return (
-    <button
-      type="button"
-      className={`rounded px-2.5 py-1 text-xs ${
-        recording
-          ? 'bg-danger text-content-inverse hover:bg-danger'
-          : 'bg-surface-dim hover:bg-surface-raised'
-      }`}
-      onClick={handleToggle}
-    >
-      {recording ? t('editor.macro.stopRecording') : t('editor.macro.record')}
-    </button>
+    <div className="flex items-center gap-1">
+      {matrixSource && (
+        <select
+          data-testid="macro-record-source"
+          aria-label={t('editor.macro.recordSource')}
+          className={SELECT_CLASS}
+          value={source}
+          disabled={recording}
+          onChange={(e) => setSource(e.target.value as RecordSource)}
+        >
+          <option value="host">{t('editor.macro.recordSources.host')}</option>
+          <option value="matrix">{t('editor.macro.recordSources.matrix')}</option>
+        </select>
+      )}
+      {matrixMode && (
+        <>
+          <select
+            data-testid="macro-record-quantize"
+            aria-label={t('editor.macro.recordQuantize')}
+            className={SELECT_CLASS}
+            value={options.quantizeMs}
+            disabled={recording}
+            onChange={(e) => setOptions((prev) => ({ ...prev, quantizeMs: Number(e.target.value) }))}
+          >
+            {QUANTIZE_CHOICES_MS.map((ms) => (
+              <option key={ms} value={ms}>{t('editor.macro.recordQuantizeOption', { value: formatMs(ms) })}</option>
+            ))}
+          </select>
+          <select
+            data-testid="macro-record-max-delay"
+            aria-label={t('editor.macro.recordMaxDelay')}
+            className={SELECT_CLASS}
+            value={options.maxDelayMs}
+            disabled={recording}
+            onChange={(e) => setOptions((prev) => ({ ...prev, maxDelayMs: Number(e.target.value) }))}
+          >
+            {MAX_DELAY_CHOICES_MS.map((ms) => (
+              <option key={ms} value={ms}>{t('editor.macro.recordMaxDelayOption', { value: formatMs(ms) })}</option>
+            ))}
+          </select>
+        </>
+      )}
+      <button
+        type="button"
+        className={`rounded px-2.5 py-1 text-xs ${
+          recording
+            ? 'bg-danger text-content-inverse hover:bg-danger'
+            : 'bg-surface-dim hover:bg-surface-raised'
+        }`}
+        onClick={handleToggle}
+        data-testid="macro-record"
+      >
+        {recording ? t('editor.macro.stopRecording') : t('editor.macro.record')}
+      </button>
+    </div>
   )
 }
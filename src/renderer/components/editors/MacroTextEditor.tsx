@@ -1,27 +1,79 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import type { MacroAction } from '../../../preload/macro'
-import { jsonToMacroActions } from '../../../preload/macro'
+import { jsonToMacroActions, macroActionsToJson } from '../../../preload/macro'
+import {
+  macroActionsToScript,
+  parseMacroScript,
+  tokenizeMacroScript,
+  type MacroScriptTokenKind,
+} from '../../../preload/macro-script'
+import type { UnicodeInputMethod } from '../../../preload/macro-unicode'
 import { BTN_PRIMARY } from '../../constants/ui-tokens'
 
+type EditorMode = 'script' | 'json'
+
+const MODES: EditorMode[] = ['script', 'json']
+
+const TOKEN_CLASS: Record<MacroScriptTokenKind, string> = {
+  text: 'text-success',
+  key: 'text-accent',
+  command: 'text-warning',
+  number: 'text-warning',
+  brace: 'text-content-muted',
+  plus: 'text-content-muted',
+  comment: 'text-content-muted italic',
+  space: '',
+  invalid: 'text-danger',
+}
+
+// The highlight layer sits under a transparent textarea, so both must share
+// exactly the same box and font metrics.
+const EDITOR_BOX = 'rounded border p-2 font-mono text-sm whitespace-pre-wrap break-words'
+
 interface Props {
   initialJson: string
+  vialProtocol: number
+  unicodeMethod?: UnicodeInputMethod
   onApply: (actions: MacroAction[]) => void
   onClose: () => void
 }
 
-export function MacroTextEditor({ initialJson, onApply, onClose }: Props) {
+export function MacroTextEditor({ initialJson, vialProtocol, unicodeMethod, onApply, onClose }: Props) {
   const { t } = useTranslation()
-  const [text, setText] = useState(initialJson)
-  const [error, setError] = useState(() => jsonToMacroActions(initialJson) === null)
+  const [initialActions] = useState(() => jsonToMacroActions(initialJson))
+  // Unparseable JSON opens as-is so it can be fixed rather than silently dropped
+  const [mode, setMode] = useState<EditorMode>(initialActions === null ? 'json' : 'script')
+  const [json, setJson] = useState(initialJson)
+  const [script, setScript] = useState(() => macroActionsToScript(initialActions ?? []))
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const highlightRef = useRef<HTMLPreElement>(null)
   const titleId = 'macro-text-editor-title'
 
+  const scriptResult = useMemo(
+    () => parseMacroScript(script, vialProtocol, unicodeMethod),
+    [script, vialProtocol, unicodeMethod],
+  )
+  const jsonActions = useMemo(() => jsonToMacroActions(json), [json])
+  const actions = mode === 'script' ? (scriptResult.ok ? scriptResult.actions : null) : jsonActions
+  const text = mode === 'script' ? script : json
+
+  const errorMessage = useMemo(() => {
+    if (mode === 'json') return jsonActions === null ? t('editor.macro.invalidJson') : null
+    if (scriptResult.ok) return null
+    const { code, line, column, token } = scriptResult.error
+    return t('editor.macro.scriptErrorAt', {
+      line,
+      column,
+      message: t(`editor.macro.scriptError.${code}`, { token }),
+    })
+  }, [mode, jsonActions, scriptResult, t])
+
   useEffect(() => {
     textareaRef.current?.select()
-  }, [])
+  }, [mode])
 
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
@@ -35,18 +87,32 @@ export function MacroTextEditor({ initialJson, onApply, onClose }: Props) {
   }, [onClose])
 
   const handleChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const value = e.target.value
-    setText(value)
-    setError(jsonToMacroActions(value) === null)
+    if (mode === 'script') setScript(e.target.value)
+    else setJson(e.target.value)
+  }, [mode])
+
+  // Carry valid content over to the other format; invalid text stays where it is
+  const handleModeChange = useCallback((next: EditorMode) => {
+    if (next === mode) return
+    if (actions !== null) {
+      if (next === 'script') setScript(macroActionsToScript(actions))
+      else setJson(macroActionsToJson(actions))
+    }
+    setMode(next)
+  }, [mode, actions])
+
+  const handleScroll = useCallback(() => {
+    if (highlightRef.current && textareaRef.current) {
+      highlightRef.current.scrollTop = textareaRef.current.scrollTop
+    }
   }, [])
 
   const handleApply = useCallback(() => {
-    const actions = jsonToMacroActions(text)
     if (actions !== null) {
       onApply(actions)
       onClose()
     }
-  }, [text, onApply, onClose])
+  }, [actions, onApply, onClose])
 
   const handleBackdropClick = useCallback(
     (e: React.MouseEvent<HTMLDivElement>) => {
@@ -55,6 +121,15 @@ export function MacroTextEditor({ initialJson, onApply, onClose }: Props) {
     [onClose],
   )
 
+  const highlighted = useMemo(
+    () => mode === 'script'
+      ? tokenizeMacroScript(script).map((token) => (
+        <span key={token.offset} className={TOKEN_CLASS[token.kind]}>{token.value}</span>
+      ))
+      : null,
+    [mode, script],
+  )
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
@@ -67,18 +142,53 @@ export function MacroTextEditor({ initialJson, onApply, onClose }: Props) {
         aria-labelledby={titleId}
         className="w-modal-app rounded-lg border border-edge bg-surface p-4 shadow-xl"
       >
-        <h3 id={titleId} className="mb-3 text-sm font-medium">{t('editor.macro.textEditorTitle')}</h3>
-        <textarea
-          ref={textareaRef}
-          value={text}
-          onChange={handleChange}
-          rows={8}
-          className="w-full rounded border border-edge bg-surface-dim p-2 font-mono text-sm"
-          data-testid="macro-text-editor-textarea"
-        />
-        {error && (
+        <div className="mb-3 flex items-center justify-between">
+          <h3 id={titleId} className="text-sm font-medium">{t('editor.macro.textEditorTitle')}</h3>
+          <div role="tablist" className="flex gap-1" data-testid="macro-text-editor-modes">
+            {MODES.map((m) => (
+              <button
+                key={m}
+                type="button"
+                role="tab"
+                aria-selected={mode === m}
+                className={`rounded px-2 py-0.5 text-xs ${mode === m ? 'bg-accent text-content-inverse' : 'bg-surface-dim hover:bg-surface-raised'}`}
+                onClick={() => handleModeChange(m)}
+                data-testid={`macro-text-editor-mode-${m}`}
+              >
+                {t(m === 'script' ? 'editor.macro.scriptMode' : 'editor.macro.jsonMode')}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="relative">
+          {highlighted && (
+            <pre
+              ref={highlightRef}
+              aria-hidden="true"
+              className={`${EDITOR_BOX} pointer-events-none absolute inset-0 m-0 overflow-hidden border-transparent bg-surface-dim`}
+              data-testid="macro-text-editor-highlight"
+            >
+              {highlighted}
+              {'\n'}
+            </pre>
+          )}
+          <textarea
+            ref={textareaRef}
+            value={text}
+            onChange={handleChange}
+            onScroll={handleScroll}
+            rows={8}
+            spellCheck={false}
+            className={`${EDITOR_BOX} relative block w-full resize-y border-edge ${highlighted ? 'bg-transparent text-transparent caret-content' : 'bg-surface-dim'}`}
+            data-testid="macro-text-editor-textarea"
+          />
+        </div>
+        {mode === 'script' && (
+          <p className="mt-1 text-xs text-content-muted">{t('editor.macro.scriptHint')}</p>
+        )}
+        {errorMessage && (
           <p className="mt-1 text-xs text-danger" data-testid="macro-text-editor-error">
-            {t('editor.macro.invalidJson')}
+            {errorMessage}
           </p>
         )}
         <div className="mt-3 flex justify-end gap-2">
@@ -93,7 +203,7 @@ export function MacroTextEditor({ initialJson, onApply, onClose }: Props) {
           <button
             type="button"
             onClick={handleApply}
-            disabled={error}
+            disabled={actions === null}
             className={BTN_PRIMARY}
             data-testid="macro-text-editor-apply"
           >
@@ -0,0 +1,102 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Device maintenance panel: dynamic keymap reset, EEPROM reset and jump to
+// bootloader. Each command saves a snapshot first and is refused if that
+// fails; the unlock prompt (when needed) comes from the keyboard hook.
+
+import { useCallback, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useConfirmAction } from '../../hooks/useConfirmAction'
+import { ConfirmButton } from './ConfirmButton'
+
+export type MaintenanceCommand = 'dynamicKeymapReset' | 'eepromReset' | 'bootloaderJump'
+
+interface Props {
+  onSaveSnapshot: (label: string) => Promise<string | null>
+  onResetDynamicKeymap: () => Promise<void>
+  onResetEeprom: () => Promise<void>
+  onJumpToBootloader: () => Promise<void>
+}
+
+type Status =
+  | { kind: 'idle' }
+  | { kind: 'running'; command: MaintenanceCommand }
+  | { kind: 'done'; command: MaintenanceCommand }
+  | { kind: 'error'; messageKey: string }
+
+export function MaintenancePanel({
+  onSaveSnapshot,
+  onResetDynamicKeymap,
+  onResetEeprom,
+  onJumpToBootloader,
+}: Props) {
+  const { t } = useTranslation()
+  const [status, setStatus] = useState<Status>({ kind: 'idle' })
+
+  const run = useCallback(async (command: MaintenanceCommand, action: () => Promise<void>) => {
+    setStatus({ kind: 'running', command })
+    const snapshotId = await onSaveSnapshot(
+      t('maintenance.snapshotLabel', { command: t(`maintenance.${command}.title`) }),
+    )
+    if (snapshotId == null) {
+      setStatus({ kind: 'error', messageKey: 'maintenance.snapshotFailed' })
+      return
+    }
+    try {
+      await action()
+      setStatus({ kind: 'done', command })
+    } catch (err) {
+      const cancelled = err instanceof Error && err.message === 'Unlock cancelled'
+      setStatus({ kind: 'error', messageKey: cancelled ? 'maintenance.unlockCancelled' : 'maintenance.failed' })
+    }
+  }, [onSaveSnapshot, t])
+
+  const keymapAction = useConfirmAction(() => { void run('dynamicKeymapReset', onResetDynamicKeymap) })
+  const eepromAction = useConfirmAction(() => { void run('eepromReset', onResetEeprom) })
+  const bootloaderAction = useConfirmAction(() => { void run('bootloaderJump', onJumpToBootloader) })
+
+  const rows: { command: MaintenanceCommand; action: ReturnType<typeof useConfirmAction> }[] = [
+    { command: 'dynamicKeymapReset', action: keymapAction },
+    { command: 'eepromReset', action: eepromAction },
+    { command: 'bootloaderJump', action: bootloaderAction },
+  ]
+  const busy = status.kind === 'running'
+
+  return (
+    <div className="flex flex-col gap-4" data-testid="maintenance-panel">
+      <p className="text-sm text-content-secondary">{t('maintenance.description')}</p>
+      {rows.map(({ command, action }) => (
+        <div key={command} className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <div className="text-sm font-medium">{t(`maintenance.${command}.title`)}</div>
+            <div className="text-xs text-content-muted">{t(`maintenance.${command}.description`)}</div>
+          </div>
+          <ConfirmButton
+            testId={`maintenance-${command}`}
+            confirming={action.confirming}
+            onClick={() => {
+              for (const other of rows) if (other.action !== action) other.action.reset()
+              action.trigger()
+            }}
+            labelKey={`maintenance.${command}.button`}
+            confirmLabelKey="maintenance.confirm"
+            className="shrink-0 rounded border px-3 py-1.5 text-sm"
+            disabled={busy}
+          />
+        </div>
+      ))}
+      {status.kind === 'running' && (
+        <p className="text-sm text-content-muted" data-testid="maintenance-running">
+          {t('maintenance.running', { command: t(`maintenance.${status.command}.title`) })}
+        </p>
+      )}
+      {status.kind === 'done' && (
+        <p className="text-sm text-content-secondary" data-testid="maintenance-done">
+          {t(`maintenance.${status.command}.done`)}
+        </p>
+      )}
+      {status.kind === 'error' && (
+        <p className="text-sm text-danger" data-testid="maintenance-error">{t(status.messageKey)}</p>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,18 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 
+import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useEscapeClose } from '../../hooks/useEscapeClose'
 import { QmkSettings } from './QmkSettings'
+import { QmkSettingsProfiles } from './QmkSettingsProfiles'
 import { ModalCloseButton } from './ModalCloseButton'
+import { StandaloneFavoriteModal } from './StandaloneFavoriteModal'
+import type { HubIntegrationProps } from './KeycodeEntryModalShell'
+import { planQmkSettingsProfile, qmkSettingsGroupQsids } from '../../../shared/qmk-settings-profile'
+import { normalizeQmkSettingData } from '../../../shared/qmk-settings-normalize'
+import { FALLBACK_VIAL_PROTOCOL } from '../../../shared/favorite-data'
+import type { QmkSettingsFavoriteData } from '../../../shared/types/favorite-store'
+import { BTN_SECONDARY } from '../../constants/ui-tokens'
 
 interface SettingsModalProps {
   title: string
@@ -14,6 +23,8 @@ interface SettingsModalProps {
   qmkSettingsSet: (qsid: number, data: number[]) => Promise<void>
   qmkSettingsReset: () => Promise<void>
   onSettingsUpdate?: (qsid: number, data: number[]) => void
+  vialProtocol?: number
+  hubProps?: HubIntegrationProps
   onClose: () => void
 }
 
@@ -26,9 +37,50 @@ function SettingsModal({
   qmkSettingsSet,
   qmkSettingsReset,
   onSettingsUpdate,
+  vialProtocol,
+  hubProps,
   onClose,
 }: SettingsModalProps) {
-  useEscapeClose(onClose)
+  const { t } = useTranslation()
+  // The favorites modal stacks on top and handles Escape itself
+  const [favoriteValues, setFavoriteValues] = useState<Record<string, number[]> | null>(null)
+  useEscapeClose(onClose, favoriteValues === null)
+  // Bumped after a profile is applied so the form reloads from the board
+  const [reloadKey, setReloadKey] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  // The group's values as they are on the board, read when the favorites open
+  async function openFavorites(): Promise<void> {
+    setError(null)
+    const values: Record<string, number[]> = {}
+    try {
+      for (const qsid of qmkSettingsGroupQsids(tabName)) {
+        if (!supportedQsids.has(qsid)) continue
+        values[String(qsid)] = normalizeQmkSettingData(qsid, await qmkSettingsGet(qsid))
+      }
+    } catch {
+      setError(t('editor.qmkSettings.favoritesReadFailed'))
+      return
+    }
+    setFavoriteValues(values)
+  }
+
+  async function applyFavorite(data: QmkSettingsFavoriteData): Promise<void> {
+    setError(null)
+    let applied = 0
+    try {
+      for (const { qsid, data: bytes } of planQmkSettingsProfile(data.values, supportedQsids).writes) {
+        await qmkSettingsSet(qsid, bytes)
+        onSettingsUpdate?.(qsid, bytes)
+        applied++
+      }
+    } catch {
+      setError(t('editor.qmkSettings.favoritesApplyFailed', { count: applied }))
+    } finally {
+      setReloadKey((k) => k + 1)
+    }
+  }
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
@@ -41,9 +93,21 @@ function SettingsModal({
       >
         <div className="mb-4 flex items-center justify-between">
           <h3 className="text-lg font-semibold">{title}</h3>
-          <ModalCloseButton testid={`${testidPrefix}-close`} onClick={onClose} />
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              className={BTN_SECONDARY}
+              onClick={() => void openFavorites()}
+              data-testid={`${testidPrefix}-favorites`}
+            >
+              {t('favoriteStore.title')}
+            </button>
+            <ModalCloseButton testid={`${testidPrefix}-close`} onClick={onClose} />
+          </div>
         </div>
+        {error && <p className="mb-2 text-sm text-danger" data-testid={`${testidPrefix}-favorites-error`}>{error}</p>}
         <QmkSettings
+          key={reloadKey}
           tabName={tabName}
           supportedQsids={supportedQsids}
           qmkSettingsGet={qmkSettingsGet}
@@ -51,7 +115,27 @@ function SettingsModal({
           qmkSettingsReset={qmkSettingsReset}
           onSettingsUpdate={onSettingsUpdate}
         />
+        <QmkSettingsProfiles
+          supportedQsids={supportedQsids}
+          qmkSettingsGet={qmkSettingsGet}
+          qmkSettingsSet={qmkSettingsSet}
+          onSettingsUpdate={onSettingsUpdate}
+          onApplied={() => setReloadKey((k) => k + 1)}
+        />
       </div>
+      {favoriteValues && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <StandaloneFavoriteModal
+            favoriteType="qmkSettings"
+            vialProtocol={vialProtocol ?? FALLBACK_VIAL_PROTOCOL}
+            serialize={(): QmkSettingsFavoriteData => ({ group: tabName, values: favoriteValues })}
+            apply={(data) => void applyFavorite(data as QmkSettingsFavoriteData)}
+            canSave={Object.keys(favoriteValues).length > 0}
+            onClose={() => setFavoriteValues(null)}
+            {...hubProps}
+          />
+        </div>
+      )}
     </div>
   )
 }
@@ -79,6 +163,9 @@ export interface QmkSettingsModalsProps {
   qmkSettingsSet: (qsid: number, data: number[]) => Promise<void>
   qmkSettingsReset: () => Promise<void>
   onSettingsUpdate?: (qsid: number, data: number[]) => void
+  vialProtocol?: number
+  /** Hub actions for QMK Settings favorites */
+  hubProps?: HubIntegrationProps
   visibleModals: Record<string, boolean>
   onCloseModal: (key: string) => void
 }
@@ -89,6 +176,8 @@ export function QmkSettingsModals({
   qmkSettingsSet,
   qmkSettingsReset,
   onSettingsUpdate,
+  vialProtocol,
+  hubProps,
   visibleModals,
   onCloseModal,
 }: QmkSettingsModalsProps) {
@@ -107,6 +196,8 @@ export function QmkSettingsModals({
             qmkSettingsSet={qmkSettingsSet}
             qmkSettingsReset={qmkSettingsReset}
             onSettingsUpdate={onSettingsUpdate}
+            vialProtocol={vialProtocol}
+            hubProps={hubProps}
             onClose={() => onCloseModal(def.key)}
           />
         ) : null,
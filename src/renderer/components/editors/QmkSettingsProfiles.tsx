@@ -0,0 +1,312 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Named QMK Settings profiles: save the board's current values, compare them
+// against firmware defaults and a chosen profile, and apply a profile to any
+// board — qsids the board does not support are skipped and reported.
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  buildQmkSettingsProfileExport,
+  diffQmkSettings,
+  isQmkSettingsDiffRowChanged,
+  parseQmkSettingsProfileExport,
+  planQmkSettingsProfile,
+} from '../../../shared/qmk-settings-profile'
+import { normalizeQmkSettingData } from '../../../shared/qmk-settings-normalize'
+import { BTN_PRIMARY, BTN_SECONDARY } from '../../constants/ui-tokens'
+import type { QmkSettingsProfile, QmkSettingsProfileApplyReport } from '../../../shared/types/qmk-settings-profile'
+
+interface Props {
+  supportedQsids: Set<number>
+  qmkSettingsGet: (qsid: number) => Promise<number[]>
+  qmkSettingsSet: (qsid: number, data: number[]) => Promise<void>
+  onSettingsUpdate?: (qsid: number, data: number[]) => void
+  /** Called after a profile was written so the settings form can reload */
+  onApplied?: () => void
+}
+
+export function QmkSettingsProfiles({
+  supportedQsids,
+  qmkSettingsGet,
+  qmkSettingsSet,
+  onSettingsUpdate,
+  onApplied,
+}: Props) {
+  const { t } = useTranslation()
+  const [profiles, setProfiles] = useState<QmkSettingsProfile[]>([])
+  const [current, setCurrent] = useState<Record<string, number[]> | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [report, setReport] = useState<QmkSettingsProfileApplyReport | null>(null)
+  const [onlyChanged, setOnlyChanged] = useState(true)
+
+  const refreshProfiles = useCallback(async () => {
+    const result = await window.vialAPI.qmkSettingsProfileList()
+    if (result.success && result.profiles) setProfiles(result.profiles)
+  }, [])
+
+  const readCurrent = useCallback(async (): Promise<Record<string, number[]>> => {
+    const values: Record<string, number[]> = {}
+    for (const qsid of [...supportedQsids].sort((a, b) => a - b)) {
+      values[String(qsid)] = normalizeQmkSettingData(qsid, await qmkSettingsGet(qsid))
+    }
+    setCurrent(values)
+    return values
+  }, [supportedQsids, qmkSettingsGet])
+
+  useEffect(() => {
+    void refreshProfiles()
+    readCurrent().catch(() => setError(t('editor.qmkSettings.profiles.readFailed')))
+  }, [refreshProfiles, readCurrent, t])
+
+  function formatValue(value: number | undefined, type: 'boolean' | 'integer'): string {
+    if (value === undefined) return '—'
+    if (type === 'boolean') return t(value ? 'editor.qmkSettings.profiles.on' : 'editor.qmkSettings.profiles.off')
+    return String(value)
+  }
+
+  const selected = profiles.find((p) => p.id === selectedId) ?? null
+
+  const rows = useMemo(() => {
+    if (!current) return []
+    const all = diffQmkSettings(current, selected?.values ?? null, supportedQsids)
+    return onlyChanged ? all.filter(isQmkSettingsDiffRowChanged) : all
+  }, [current, selected, supportedQsids, onlyChanged])
+
+  async function handleSave(): Promise<void> {
+    const trimmed = name.trim()
+    if (!trimmed) return
+    setBusy(true)
+    setError(null)
+    try {
+      const values = await readCurrent()
+      const result = await window.vialAPI.qmkSettingsProfileSave(trimmed, values)
+      if (!result.success) throw new Error(result.error)
+      setName('')
+      await refreshProfiles()
+      if (result.profile) setSelectedId(result.profile.id)
+    } catch {
+      setError(t('editor.qmkSettings.profiles.saveFailed'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleApply(profile: QmkSettingsProfile): Promise<void> {
+    setBusy(true)
+    setError(null)
+    setReport(null)
+    const { writes, skipped } = planQmkSettingsProfile(profile.values, supportedQsids)
+    const applied: number[] = []
+    try {
+      for (const { qsid, data } of writes) {
+        await qmkSettingsSet(qsid, data)
+        onSettingsUpdate?.(qsid, data)
+        applied.push(qsid)
+      }
+      setReport({ applied, skipped })
+      await readCurrent()
+      onApplied?.()
+    } catch {
+      setError(t('editor.qmkSettings.profiles.applyFailed', { count: applied.length }))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleRename(id: string): Promise<void> {
+    const trimmed = renameValue.trim()
+    setRenamingId(null)
+    if (!trimmed) return
+    const result = await window.vialAPI.qmkSettingsProfileRename(id, trimmed)
+    if (!result.success) setError(t('editor.qmkSettings.profiles.renameFailed'))
+    await refreshProfiles()
+  }
+
+  async function handleDelete(id: string): Promise<void> {
+    await window.vialAPI.qmkSettingsProfileDelete(id)
+    if (selectedId === id) setSelectedId(null)
+    await refreshProfiles()
+  }
+
+  async function handleExport(): Promise<void> {
+    const file = buildQmkSettingsProfileExport(profiles)
+    await window.vialAPI.exportJson(JSON.stringify(file, null, 2), 'qmk-settings-profiles')
+  }
+
+  async function handleImport(): Promise<void> {
+    setError(null)
+    const result = await window.vialAPI.sideloadJson(t('editor.qmkSettings.profiles.import'))
+    if (!result.success) return
+    const entries = parseQmkSettingsProfileExport(result.data)
+    if (!entries) {
+      setError(t('editor.qmkSettings.profiles.invalidFile'))
+      return
+    }
+    for (const entry of entries) {
+      await window.vialAPI.qmkSettingsProfileSave(entry.name, entry.values)
+    }
+    await refreshProfiles()
+  }
+
+  return (
+    <section className="mt-6 flex flex-col gap-3 border-t border-edge pt-4" data-testid="qmk-settings-profiles">
+      <div>
+        <h4 className="text-base font-medium">{t('editor.qmkSettings.profiles.title')}</h4>
+        <p className="text-xs text-content-muted">{t('editor.qmkSettings.profiles.description')}</p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          className="flex-1 rounded border border-edge bg-surface px-2 py-1 text-sm focus:border-accent focus:outline-none"
+          placeholder={t('editor.qmkSettings.profiles.namePlaceholder')}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') void handleSave() }}
+          data-testid="qmk-profile-name"
+        />
+        <button
+          type="button"
+          className={BTN_PRIMARY}
+          disabled={busy || !name.trim()}
+          onClick={() => void handleSave()}
+          data-testid="qmk-profile-save"
+        >
+          {t('editor.qmkSettings.profiles.saveCurrent')}
+        </button>
+      </div>
+
+      {profiles.length === 0 ? (
+        <p className="text-xs text-content-muted">{t('editor.qmkSettings.profiles.empty')}</p>
+      ) : (
+        <ul className="flex flex-col gap-1">
+          {profiles.map((profile) => (
+            <li
+              key={profile.id}
+              className={`flex items-center gap-2 rounded px-2 py-1 text-sm ${profile.id === selectedId ? 'bg-accent/10' : ''}`}
+              data-testid="qmk-profile"
+            >
+              {renamingId === profile.id ? (
+                <input
+                  type="text"
+                  autoFocus
+                  className="flex-1 rounded border border-edge bg-surface px-2 py-0.5 text-sm focus:border-accent focus:outline-none"
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={() => void handleRename(profile.id)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') void handleRename(profile.id)
+                    if (e.key === 'Escape') setRenamingId(null)
+                  }}
+                  data-testid="qmk-profile-rename-input"
+                />
+              ) : (
+                <button
+                  type="button"
+                  className="flex-1 truncate text-left"
+                  onClick={() => setSelectedId(profile.id === selectedId ? null : profile.id)}
+                  onDoubleClick={() => { setRenamingId(profile.id); setRenameValue(profile.name) }}
+                  data-testid="qmk-profile-select"
+                >
+                  {profile.name}
+                </button>
+              )}
+              <button
+                type="button"
+                className={BTN_SECONDARY}
+                disabled={busy}
+                onClick={() => void handleApply(profile)}
+                data-testid="qmk-profile-apply"
+              >
+                {t('common.apply')}
+              </button>
+              <button
+                type="button"
+                className={BTN_SECONDARY}
+                disabled={busy}
+                onClick={() => void handleDelete(profile.id)}
+                data-testid="qmk-profile-delete"
+              >
+                {t('common.delete')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button type="button" className={BTN_SECONDARY} onClick={() => void handleImport()} data-testid="qmk-profile-import">
+          {t('editor.qmkSettings.profiles.import')}
+        </button>
+        <button
+          type="button"
+          className={BTN_SECONDARY}
+          disabled={profiles.length === 0}
+          onClick={() => void handleExport()}
+          data-testid="qmk-profile-export"
+        >
+          {t('editor.qmkSettings.profiles.export')}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-danger" data-testid="qmk-profile-error">{error}</p>}
+
+      {report && (
+        <div className="text-sm" data-testid="qmk-profile-report">
+          <p>{t('editor.qmkSettings.profiles.applied', { count: report.applied.length })}</p>
+          {report.skipped.length > 0 && (
+            <p className="text-content-muted" data-testid="qmk-profile-skipped">
+              {t('editor.qmkSettings.profiles.skipped', { qsids: report.skipped.join(', ') })}
+            </p>
+          )}
+        </div>
+      )}
+
+      {current && (
+        <div className="flex flex-col gap-1">
+          <label className="flex items-center gap-2 text-xs text-content-muted">
+            <input type="checkbox" checked={onlyChanged} onChange={(e) => setOnlyChanged(e.target.checked)} />
+            {t('editor.qmkSettings.profiles.onlyChanged')}
+          </label>
+          {rows.length === 0 ? (
+            <p className="text-xs text-content-muted" data-testid="qmk-profile-diff-empty">
+              {t('editor.qmkSettings.profiles.noDifferences')}
+            </p>
+          ) : (
+            <table className="w-full text-sm" data-testid="qmk-profile-diff">
+              <thead>
+                <tr className="text-left text-xs text-content-muted">
+                  <th className="font-normal">{t('editor.qmkSettings.profiles.setting')}</th>
+                  <th className="font-normal">{t('editor.qmkSettings.profiles.current')}</th>
+                  <th className="font-normal">{t('editor.qmkSettings.profiles.default')}</th>
+                  {selected && <th className="font-normal">{selected.name}</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={`${row.qsid}:${row.bit ?? ''}`} data-testid="qmk-profile-diff-row">
+                    <td className="pr-2">{row.title}</td>
+                    <td className="pr-2 font-mono">{formatValue(row.current, row.type)}</td>
+                    <td className={`pr-2 font-mono ${row.current !== row.defaultValue ? 'text-warning' : ''}`}>
+                      {formatValue(row.defaultValue, row.type)}
+                    </td>
+                    {selected && (
+                      <td className={`font-mono ${row.current !== row.profile ? 'text-warning' : ''}`}>
+                        {formatValue(row.profile, row.type)}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
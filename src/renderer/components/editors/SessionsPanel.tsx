@@ -0,0 +1,474 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Multi-keyboard editor: the editor's keyboard plus any boards opened as
+// additional device sessions, shown side by side. Layers, macros and
+// dynamic entries are copied from one pane and pasted into the other.
+// Each pane previews the selected layer of its board read-only; key-by-key
+// editing stays in the main editor, so other boards are changed by pasting.
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { DeviceInfo } from '../../../shared/types/protocol'
+import type { MacroAction } from '../../../preload/macro'
+import type { HostLayoutMap } from '../../../preload/macro-unicode'
+import { isResetKeycode, serialize } from '../../../shared/keycodes/keycodes'
+import { decodeLayoutOptions } from '../../../shared/kle/layout-options'
+import { posKey } from '../../../shared/kle/pos-key'
+import type { BulkKeyEntry, KeyboardState } from '../../hooks/keyboard-types'
+import { createSessionApi, type useDeviceSessions } from '../../hooks/useDeviceSessions'
+import { isSameDevice } from '../../hooks/useDeviceConnection'
+import {
+  type DynamicEntryKind,
+  type DynamicEntryMap,
+  type EncoderEntry,
+  type SessionClipboard,
+  DYNAMIC_ENTRY_KINDS,
+  copyDynamicEntry,
+  copyLayer,
+  copyMacro,
+  dynamicEntries,
+  planDynamicEntryPaste,
+  planLayerPaste,
+  planMacroPaste,
+} from '../../hooks/session-transfer'
+import {
+  BTN_PRIMARY,
+  BTN_SECONDARY,
+  BTN_TOGGLE_ACTIVE,
+  BTN_TOGGLE_INACTIVE,
+} from '../../constants/ui-tokens'
+import { KeyboardWidget } from '../keyboard/KeyboardWidget'
+import { UnlockDialog } from './UnlockDialog'
+
+/** A keyboard the panel can read from and write to. */
+export interface SessionBoard {
+  id: string
+  name: string
+  state: KeyboardState
+  setKeys: (entries: BulkKeyEntry[]) => Promise<void>
+  setEncoders: (entries: EncoderEntry[]) => Promise<void>
+  setMacroBuffer: (buffer: number[], macros: MacroAction[][]) => Promise<void>
+  setDynamicEntry: <K extends DynamicEntryKind>(kind: K, index: number, entry: DynamicEntryMap[K]) => Promise<void>
+  unlockStart: () => Promise<void>
+  unlockPoll: () => Promise<number[]>
+  /** Called when the unlock dialog closes; re-reads the unlock status once it succeeded. */
+  finishUnlock: (unlocked: boolean) => Promise<void>
+  /** Host layout the board's unicode macro actions are typed through; US QWERTY when absent. */
+  hostLayout?: HostLayoutMap | null
+}
+
+export const PRIMARY_BOARD_ID = 'primary'
+
+type Section = 'layers' | 'macros' | DynamicEntryKind
+
+const SECTIONS: readonly Section[] = ['layers', 'macros', ...DYNAMIC_ENTRY_KINDS]
+
+type Status = { kind: 'idle' } | { kind: 'busy' } | { kind: 'done'; messageKey: string } | { kind: 'error'; messageKey: string }
+
+interface Clip {
+  data: SessionClipboard
+  label: string
+}
+
+/** A paste held back until its board has been unlocked. */
+interface PendingUnlock {
+  board: SessionBoard
+  write: () => Promise<string>
+}
+
+interface Props {
+  primary: SessionBoard
+  connectedDevice: DeviceInfo | null
+  deviceSessions: ReturnType<typeof useDeviceSessions>
+}
+
+function itemCount(state: KeyboardState, section: Section): number {
+  if (section === 'layers') return state.layers
+  if (section === 'macros') return state.macroCount
+  return dynamicEntries(state, section).length
+}
+
+function itemLabel(t: (key: string, opts?: Record<string, unknown>) => string, section: Section, index: number): string {
+  if (section === 'layers') return t('sessions.layerLabel', { index })
+  if (section === 'macros') return `M${index}`
+  return t(`sessions.entryLabel.${section}`, { index })
+}
+
+function boardLayoutOptions(state: KeyboardState): Map<number, number> {
+  const labels = state.definition?.layouts?.labels
+  return labels ? decodeLayoutOptions(state.layoutOptions, labels) : new Map()
+}
+
+function layerKeycodes(state: KeyboardState, layer: number): Map<string, string> {
+  const map = new Map<string, string>()
+  for (const key of state.layout?.keys ?? []) {
+    map.set(posKey(key.row, key.col), serialize(state.keymap.get(`${layer},${key.row},${key.col}`) ?? 0))
+  }
+  return map
+}
+
+function BoardPane({
+  side,
+  boards,
+  boardId,
+  onBoardChange,
+  clip,
+  busy,
+  onCopy,
+  onPaste,
+}: {
+  side: 'left' | 'right'
+  boards: SessionBoard[]
+  boardId: string
+  onBoardChange: (id: string) => void
+  clip: Clip | null
+  busy: boolean
+  onCopy: (board: SessionBoard, section: Section, index: number) => void
+  onPaste: (board: SessionBoard, section: Section, index: number) => void
+}) {
+  const { t } = useTranslation()
+  const [section, setSection] = useState<Section>('layers')
+  const [previewLayer, setPreviewLayer] = useState(0)
+  const board = boards.find((b) => b.id === boardId) ?? boards[0]
+  const { state } = board
+  const layer = Math.min(previewLayer, Math.max(state.layers - 1, 0))
+  const keycodes = useMemo(() => layerKeycodes(state, layer), [state, layer])
+  const layoutOptions = useMemo(() => boardLayoutOptions(state), [state])
+  const count = itemCount(state, section)
+  const pasteKind: string = section === 'layers' ? 'layer' : section === 'macros' ? 'macro' : section
+  const canPaste = clip !== null && clip.data.kind === pasteKind && !busy
+
+  return (
+    <div className="flex min-w-0 flex-1 flex-col gap-3" data-testid={`sessions-pane-${side}`}>
+      <div className="flex flex-wrap gap-1">
+        {boards.map((b) => (
+          <button
+            key={b.id}
+            type="button"
+            className={b.id === board.id ? BTN_TOGGLE_ACTIVE : BTN_TOGGLE_INACTIVE}
+            onClick={() => onBoardChange(b.id)}
+            data-testid={`sessions-${side}-board-${b.id}`}
+          >
+            {b.name}
+          </button>
+        ))}
+      </div>
+      <div className="text-xs text-content-muted" data-testid={`sessions-${side}-summary`}>
+        {t('sessions.summary', {
+          layers: state.layers,
+          rows: state.rows,
+          cols: state.cols,
+          used: state.macroBuffer.length,
+          total: state.macroBufferSize,
+          protocol: state.vialProtocol,
+        })}
+      </div>
+      {section === 'layers' && state.layout && (
+        <div className="overflow-x-auto" data-testid={`sessions-${side}-keymap`}>
+          <KeyboardWidget
+            keys={state.layout.keys}
+            keycodes={keycodes}
+            layoutOptions={layoutOptions}
+            readOnly
+            scale={0.5}
+          />
+        </div>
+      )}
+      <select
+        className="rounded border border-edge bg-surface px-2 py-1 text-sm"
+        value={section}
+        onChange={(e) => setSection(e.target.value as Section)}
+        data-testid={`sessions-${side}-section`}
+      >
+        {SECTIONS.map((s) => (
+          <option key={s} value={s}>{t(`sessions.section.${s}`)}</option>
+        ))}
+      </select>
+      <div className="flex max-h-80 flex-col gap-1 overflow-y-auto">
+        {count === 0 && <p className="text-sm text-content-muted">{t('sessions.noItems')}</p>}
+        {Array.from({ length: count }, (_, index) => (
+          <div key={index} className="flex items-center justify-between gap-2 text-sm">
+            {section === 'layers' ? (
+              <button
+                type="button"
+                className={`min-w-0 truncate text-left ${index === layer ? 'font-semibold' : 'text-content-secondary'}`}
+                onClick={() => setPreviewLayer(index)}
+                data-testid={`sessions-${side}-show-${index}`}
+              >
+                {itemLabel(t, section, index)}
+              </button>
+            ) : (
+              <span className="min-w-0 truncate">{itemLabel(t, section, index)}</span>
+            )}
+            <div className="flex shrink-0 gap-1">
+              <button
+                type="button"
+                className={BTN_SECONDARY}
+                disabled={busy}
+                onClick={() => onCopy(board, section, index)}
+                data-testid={`sessions-${side}-copy-${index}`}
+              >
+                {t('sessions.copy')}
+              </button>
+              <button
+                type="button"
+                className={BTN_PRIMARY}
+                disabled={!canPaste}
+                onClick={() => onPaste(board, section, index)}
+                data-testid={`sessions-${side}-paste-${index}`}
+              >
+                {t('sessions.paste')}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function SessionsPanel({ primary, connectedDevice, deviceSessions }: Props) {
+  const { t } = useTranslation()
+  const { sessions, openSession, closeSession } = deviceSessions
+  const [devices, setDevices] = useState<DeviceInfo[]>([])
+  const [selected, setSelected] = useState(0)
+  const [leftId, setLeftId] = useState(PRIMARY_BOARD_ID)
+  const [rightId, setRightId] = useState(PRIMARY_BOARD_ID)
+  const [clip, setClip] = useState<Clip | null>(null)
+  const [status, setStatus] = useState<Status>({ kind: 'idle' })
+  const [pendingUnlock, setPendingUnlock] = useState<PendingUnlock | null>(null)
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      setDevices(await window.vialAPI.listDevices())
+    } catch {
+      setDevices([])
+    }
+    setSelected(0)
+  }, [])
+
+  useEffect(() => {
+    void refreshDevices()
+  }, [refreshDevices])
+
+  const available = useMemo(() => devices.filter((d) =>
+    d.type !== 'bootloader' &&
+    !(connectedDevice && isSameDevice(d, connectedDevice)) &&
+    !sessions.some((s) => isSameDevice(s.device, d)),
+  ), [devices, connectedDevice, sessions])
+
+  const boards = useMemo<SessionBoard[]>(() => {
+    const list = [primary]
+    for (const s of sessions) {
+      if (!s.state) continue
+      const id = s.id
+      list.push({
+        id,
+        name: s.device.productName || s.device.serialNumber,
+        state: s.state,
+        setKeys: (entries) => deviceSessions.setKeys(id, entries),
+        setEncoders: (entries) => deviceSessions.setEncoders(id, entries),
+        setMacroBuffer: (buffer, macros) => deviceSessions.setMacroBuffer(id, buffer, macros),
+        setDynamicEntry: (kind, index, entry) => deviceSessions.setDynamicEntry(id, kind, index, entry),
+        unlockStart: () => createSessionApi(id).unlockStart(),
+        unlockPoll: () => createSessionApi(id).unlockPoll(),
+        finishUnlock: async (unlocked) => {
+          if (unlocked) await deviceSessions.refreshUnlockStatus(id)
+        },
+      })
+    }
+    return list
+  }, [primary, sessions, deviceSessions])
+
+  const handleOpen = useCallback(async () => {
+    const device = available[selected]
+    if (!device) return
+    setStatus({ kind: 'busy' })
+    const id = await openSession(device).catch(() => null)
+    if (!id) {
+      setStatus({ kind: 'error', messageKey: 'sessions.openFailed' })
+      return
+    }
+    setRightId(id)
+    setSelected(0)
+    setStatus({ kind: 'idle' })
+  }, [available, selected, openSession])
+
+  const handleCopy = useCallback((board: SessionBoard, section: Section, index: number) => {
+    const data = section === 'layers'
+      ? copyLayer(board.state, index)
+      : section === 'macros'
+        ? copyMacro(board.state, index)
+        : copyDynamicEntry(board.state, section, index)
+    if (!data) return
+    setClip({ data, label: `${board.name} — ${itemLabel(t, section, index)}` })
+    setStatus({ kind: 'idle' })
+  }, [t])
+
+  const runWrite = useCallback(async (write: () => Promise<string>) => {
+    setStatus({ kind: 'busy' })
+    try {
+      setStatus({ kind: 'done', messageKey: await write() })
+    } catch (err) {
+      console.error('[Sessions] paste failed:', err)
+      setStatus({ kind: 'error', messageKey: 'sessions.pasteFailed' })
+    }
+  }, [])
+
+  const handlePaste = useCallback(async (board: SessionBoard, _section: Section, index: number) => {
+    if (!clip) return
+    const { data } = clip
+    let write: () => Promise<string>
+    let needsUnlock: boolean
+    if (data.kind === 'layer') {
+      const plan = planLayerPaste(data, board.state, index)
+      needsUnlock = [...plan.keys, ...plan.encoders].some((e) => isResetKeycode(e.keycode))
+      write = async () => {
+        await board.setKeys(plan.keys)
+        if (plan.encoders.length > 0) await board.setEncoders(plan.encoders)
+        return plan.skipped > 0 ? 'sessions.pastedPartial' : 'sessions.pasted'
+      }
+    } else if (data.kind === 'macro') {
+      const plan = planMacroPaste(data, board.state, index, board.hostLayout)
+      if (!plan) {
+        setStatus({ kind: 'error', messageKey: 'sessions.macroTooLarge' })
+        return
+      }
+      // Vial refuses macro writes while the board is locked
+      needsUnlock = true
+      write = async () => {
+        await board.setMacroBuffer(plan.buffer, plan.macros)
+        return 'sessions.pasted'
+      }
+    } else {
+      needsUnlock = false
+      write = async () => {
+        await board.setDynamicEntry(data.kind, index, planDynamicEntryPaste(data, board.state))
+        return 'sessions.pasted'
+      }
+    }
+    if (needsUnlock && board.state.unlockStatus.unlocked === false) {
+      setPendingUnlock({ board, write })
+      return
+    }
+    await runWrite(write)
+  }, [clip, runWrite])
+
+  const handleUnlockComplete = useCallback(async () => {
+    if (!pendingUnlock) return
+    setPendingUnlock(null)
+    try {
+      await pendingUnlock.board.finishUnlock(true)
+    } catch (err) {
+      console.error('[Sessions] unlock status refresh failed:', err)
+    }
+    await runWrite(pendingUnlock.write)
+  }, [pendingUnlock, runWrite])
+
+  const handleUnlockDisconnect = useCallback(() => {
+    if (!pendingUnlock) return
+    setPendingUnlock(null)
+    void pendingUnlock.board.finishUnlock(false).catch(() => {})
+    setStatus({ kind: 'error', messageKey: 'sessions.unlockFailed' })
+  }, [pendingUnlock])
+
+  const busy = status.kind === 'busy'
+  const loading = sessions.filter((s) => s.loading || s.error)
+
+  return (
+    <div className="flex flex-col gap-4" data-testid="sessions-panel">
+      <p className="text-sm text-content-secondary">{t('sessions.description')}</p>
+      <div className="flex items-center gap-2">
+        <select
+          className="min-w-0 flex-1 rounded border border-edge bg-surface px-2 py-1.5 text-sm"
+          value={selected}
+          onChange={(e) => setSelected(Number(e.target.value))}
+          disabled={available.length === 0}
+          data-testid="sessions-device-select"
+        >
+          {available.length === 0 && <option value={0}>{t('sessions.noOtherDevices')}</option>}
+          {available.map((d, i) => (
+            <option key={`${d.vendorId}:${d.productId}:${d.serialNumber}`} value={i}>
+              {d.productName || d.serialNumber}
+            </option>
+          ))}
+        </select>
+        <button type="button" className={BTN_SECONDARY} onClick={() => void refreshDevices()} data-testid="sessions-refresh">
+          {t('sessions.refresh')}
+        </button>
+        <button
+          type="button"
+          className={BTN_PRIMARY}
+          disabled={busy || available.length === 0}
+          onClick={() => void handleOpen()}
+          data-testid="sessions-open"
+        >
+          {t('sessions.open')}
+        </button>
+      </div>
+      {sessions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {sessions.map((s) => (
+            <span key={s.id} className="flex items-center gap-1 rounded border border-edge px-2 py-0.5 text-xs">
+              {s.device.productName || s.device.serialNumber}
+              <button
+                type="button"
+                className="text-content-muted hover:text-content"
+                onClick={() => void closeSession(s.id)}
+                data-testid={`sessions-close-${s.id}`}
+              >
+                {t('sessions.close')}
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      {loading.map((s) => (
+        <p key={s.id} className={`text-sm ${s.error ? 'text-danger' : 'text-content-muted'}`}>
+          {s.error ? t(s.error) : t('sessions.loading', { name: s.device.productName })}
+        </p>
+      ))}
+      <div className="flex gap-6">
+        <BoardPane
+          side="left"
+          boards={boards}
+          boardId={leftId}
+          onBoardChange={setLeftId}
+          clip={clip}
+          busy={busy}
+          onCopy={handleCopy}
+          onPaste={(board, section, index) => void handlePaste(board, section, index)}
+        />
+        <BoardPane
+          side="right"
+          boards={boards}
+          boardId={rightId}
+          onBoardChange={setRightId}
+          clip={clip}
+          busy={busy}
+          onCopy={handleCopy}
+          onPaste={(board, section, index) => void handlePaste(board, section, index)}
+        />
+      </div>
+      <div className="text-xs text-content-muted" data-testid="sessions-clipboard">
+        {clip ? t('sessions.clipboard', { label: clip.label }) : t('sessions.clipboardEmpty')}
+      </div>
+      {status.kind === 'done' && (
+        <p className="text-sm text-content-secondary" data-testid="sessions-done">{t(status.messageKey)}</p>
+      )}
+      {status.kind === 'error' && (
+        <p className="text-sm text-danger" data-testid="sessions-error">{t(status.messageKey)}</p>
+      )}
+      {pendingUnlock && (
+        <UnlockDialog
+          keys={pendingUnlock.board.state.layout?.keys ?? []}
+          unlockKeys={pendingUnlock.board.state.unlockStatus.keys}
+          layoutOptions={boardLayoutOptions(pendingUnlock.board.state)}
+          unlockStart={pendingUnlock.board.unlockStart}
+          unlockPoll={pendingUnlock.board.unlockPoll}
+          onComplete={() => void handleUnlockComplete()}
+          onDisconnect={handleUnlockDisconnect}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,361 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Snapshot comparison: diffs two states (saved snapshots or the live board)
+// section by section and writes a chosen subset of the right-hand side to
+// the connected keyboard.
+
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { serialize } from '../../../shared/keycodes/keycodes'
+import type { VilFile } from '../../../shared/types/protocol'
+import type { SnapshotMeta } from '../../../shared/types/snapshot-store'
+import {
+  SNAPSHOT_ENTRY_KINDS,
+  diffSnapshots,
+  emptySnapshotSelection,
+  fullSnapshotSelection,
+  isEmptySnapshotSelection,
+  mergeSnapshotSelection,
+} from './snapshot-diff'
+import type { EntryFieldChange, LayerDiff, SnapshotEntryKind, SnapshotSelection } from './snapshot-diff'
+import { ModalCloseButton } from './ModalCloseButton'
+import { Tooltip } from '../ui/Tooltip'
+import { useEscapeClose } from '../../hooks/useEscapeClose'
+import { BTN_PRIMARY, BTN_SECONDARY } from '../../constants/ui-tokens'
+
+/** Source id standing for the connected keyboard's current state. */
+export const LIVE_SOURCE = 'live'
+
+const SELECT_CLASS = 'h-8 w-full rounded-md border border-edge bg-surface-alt px-2 text-sm text-content-secondary focus:border-accent focus:outline-none'
+
+const ENTRY_TITLE_KEY: Record<SnapshotEntryKind, string> = {
+  tapDance: 'editor.tapDance.editTitle',
+  combo: 'editor.combo.editTitle',
+  keyOverride: 'editor.keyOverride.editTitle',
+  altRepeatKey: 'editor.altRepeatKey.editTitle',
+}
+
+const KEYCODE_FIELDS = new Set([
+  'onTap', 'onHold', 'onDoubleTap', 'onTapHold',
+  'key1', 'key2', 'key3', 'key4', 'output',
+  'triggerKey', 'replacementKey',
+  'lastKey', 'altKey',
+])
+
+interface Props {
+  entries: SnapshotMeta[]
+  /** Snapshot shown on the right-hand side when the view opens. */
+  initialTargetId: string
+  loadEntry: (entryId: string) => Promise<VilFile | null>
+  getLive: () => VilFile
+  rows: number
+  cols: number
+  macroCount: number
+  vialProtocol: number
+  layerNames?: string[]
+  /** Writes a merged file to the board; omitted when nothing is connected. */
+  onApply?: (vil: VilFile) => Promise<void>
+  onClose: () => void
+}
+
+function toggle<T>(list: readonly T[], value: T, on: boolean): T[] {
+  return on ? [...list, value] : list.filter((v) => v !== value)
+}
+
+export function SnapshotCompareModal({
+  entries,
+  initialTargetId,
+  loadEntry,
+  getLive,
+  rows,
+  cols,
+  macroCount,
+  vialProtocol,
+  layerNames,
+  onApply,
+  onClose,
+}: Props) {
+  const { t } = useTranslation()
+  const [baseId, setBaseId] = useState(LIVE_SOURCE)
+  const [targetId, setTargetId] = useState(initialTargetId)
+  const [files, setFiles] = useState<{ base: VilFile; target: VilFile } | null>(null)
+  const [selection, setSelection] = useState<SnapshotSelection>(emptySnapshotSelection)
+  const [busy, setBusy] = useState(false)
+  const [loadFailed, setLoadFailed] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  useEscapeClose(onClose)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = (id: string) => (id === LIVE_SOURCE ? Promise.resolve(getLive()) : loadEntry(id))
+    setFiles(null)
+    setLoadFailed(false)
+    setError(null)
+    setSelection(emptySnapshotSelection())
+    void Promise.all([load(baseId), load(targetId)]).then(([base, target]) => {
+      if (cancelled) return
+      if (base && target) setFiles({ base, target })
+      else setLoadFailed(true)
+    })
+    return () => { cancelled = true }
+  }, [baseId, targetId, loadEntry, getLive])
+
+  const diff = useMemo(
+    () => files && diffSnapshots(files.base, files.target, { macroCount, vialProtocol }),
+    [files, macroCount, vialProtocol],
+  )
+  const isEmptyDiff = diff !== null && isEmptySnapshotSelection(fullSnapshotSelection(diff))
+  const canApply = !!onApply && targetId !== LIVE_SOURCE && !isEmptySnapshotSelection(selection) && !busy
+
+  const layerLabel = (layer: number) => layerNames?.[layer] || t('editor.keymap.layerN', { n: layer })
+  const formatCode = (code: number | undefined) => (code === undefined ? '—' : serialize(code))
+  const formatField = (change: EntryFieldChange, value: number | boolean | undefined) => {
+    if (value === undefined) return '—'
+    if (typeof value === 'boolean') return t(value ? 'editor.qmkSettings.profiles.on' : 'editor.qmkSettings.profiles.off')
+    return KEYCODE_FIELDS.has(change.field) ? serialize(value) : String(value)
+  }
+  const formatSetting = (value: number | undefined, type: 'boolean' | 'integer') => {
+    if (value === undefined) return '—'
+    if (type === 'boolean') return t(value ? 'editor.qmkSettings.profiles.on' : 'editor.qmkSettings.profiles.off')
+    return String(value)
+  }
+
+  async function handleApply() {
+    if (!files || !onApply || !canApply) return
+    setBusy(true)
+    setError(null)
+    try {
+      await onApply(mergeSnapshotSelection(getLive(), files.target, selection, macroCount))
+      onClose()
+    } catch (err) {
+      setError(t('layoutStore.compare.applyFailed', { message: err instanceof Error ? err.message : String(err) }))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function sourceSelect(value: string, onChange: (id: string) => void, labelKey: string, testId: string) {
+    return (
+      <label className="flex flex-1 flex-col gap-1">
+        <span className="text-sm text-content-muted">{t(labelKey)}</span>
+        <select
+          data-testid={testId}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={SELECT_CLASS}
+        >
+          <option value={LIVE_SOURCE}>{t('layoutStore.compare.live')}</option>
+          {entries.map((entry) => (
+            <option key={entry.id} value={entry.id}>{entry.label || t('common.noLabel')}</option>
+          ))}
+        </select>
+      </label>
+    )
+  }
+
+  function checkbox(checked: boolean, onChange: (on: boolean) => void, label: string, testId: string) {
+    return (
+      <label className="flex items-center gap-2 text-sm font-medium">
+        <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} data-testid={testId} />
+        {label}
+      </label>
+    )
+  }
+
+  function layerGrid(layer: LayerDiff) {
+    if (!files) return null
+    const changed = new Map(layer.keys.map((k) => [`${k.row},${k.col}`, k]))
+    return (
+      <div className="grid gap-0.5" style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))` }}>
+        {Array.from({ length: rows * cols }, (_, i) => {
+          const row = Math.floor(i / cols)
+          const col = i % cols
+          const code = files.target.keymap[`${layer.layer},${row},${col}`]
+          const change = changed.get(`${row},${col}`)
+          const label = code === undefined ? '' : serialize(code)
+          if (!change) {
+            return (
+              <div key={i} className="truncate rounded bg-surface-dim px-0.5 text-center font-mono text-[10px] text-content-muted">
+                {label}
+              </div>
+            )
+          }
+          return (
+            <Tooltip key={i} content={`${formatCode(change.from)} → ${formatCode(change.to)}`} wrapperClassName="block min-w-0">
+              <div
+                className="truncate rounded bg-warning/20 px-0.5 text-center font-mono text-[10px] text-content"
+                data-testid="snapshot-compare-key-changed"
+              >
+                {label}
+              </div>
+            </Tooltip>
+          )
+        })}
+      </div>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" data-testid="snapshot-compare" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        className="w-modal-md max-w-modal-vw max-h-modal-80vh overflow-y-auto rounded-lg bg-surface-alt p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-1 flex items-center justify-between">
+          <h3 className="text-lg font-semibold">{t('layoutStore.compare.title')}</h3>
+          <ModalCloseButton testid="snapshot-compare-close" onClick={onClose} />
+        </div>
+        <p className="mb-4 text-xs text-content-muted">{t('layoutStore.compare.description')}</p>
+
+        <div className="mb-4 flex gap-2">
+          {sourceSelect(baseId, setBaseId, 'layoutStore.compare.from', 'snapshot-compare-base')}
+          {sourceSelect(targetId, setTargetId, 'layoutStore.compare.to', 'snapshot-compare-target')}
+        </div>
+
+        {(loadFailed || error) && (
+          <p className="mb-2 text-sm text-danger" data-testid="snapshot-compare-error">
+            {loadFailed ? t('layoutStore.compare.loadFailed') : error}
+          </p>
+        )}
+        {!diff && !loadFailed && <p className="text-sm text-content-muted">{t('common.loading')}</p>}
+        {isEmptyDiff && (
+          <p className="text-sm text-content-muted" data-testid="snapshot-compare-empty">{t('layoutStore.compare.noDifferences')}</p>
+        )}
+
+        {diff && !isEmptyDiff && (
+          <div className="flex flex-col gap-4">
+            <div className="flex gap-2">
+              <button type="button" className={BTN_SECONDARY} onClick={() => setSelection(fullSnapshotSelection(diff))} data-testid="snapshot-compare-select-all">
+                {t('layoutStore.compare.selectAll')}
+              </button>
+              <button type="button" className={BTN_SECONDARY} onClick={() => setSelection(emptySnapshotSelection())} data-testid="snapshot-compare-select-none">
+                {t('layoutStore.compare.selectNone')}
+              </button>
+            </div>
+
+            {diff.layers.map((layer) => (
+              <section key={`layer-${layer.layer}`} className="flex flex-col gap-1" data-testid="snapshot-compare-layer">
+                {checkbox(
+                  selection.layers.includes(layer.layer),
+                  (on) => setSelection((s) => ({ ...s, layers: toggle(s.layers, layer.layer, on) })),
+                  t('layoutStore.compare.layerChanges', { layer: layerLabel(layer.layer), count: layer.keys.length }),
+                  `snapshot-compare-layer-${layer.layer}`,
+                )}
+                {layer.name && (
+                  <p className="text-xs text-content-muted">
+                    {t('layoutStore.compare.layerName', { from: layer.name.from || '—', to: layer.name.to || '—' })}
+                  </p>
+                )}
+                {layer.keys.length > 0 && layerGrid(layer)}
+                {layer.encoders.map((enc) => (
+                  <p key={`${enc.idx},${enc.dir}`} className="font-mono text-xs">
+                    {t('layoutStore.compare.encoder', {
+                      idx: enc.idx, dir: enc.dir === 0 ? 'CW' : 'CCW', from: formatCode(enc.from), to: formatCode(enc.to),
+                    })}
+                  </p>
+                ))}
+              </section>
+            ))}
+
+            {diff.layoutOptions && (
+              <section>
+                {checkbox(
+                  selection.layoutOptions,
+                  (on) => setSelection((s) => ({ ...s, layoutOptions: on })),
+                  t('layoutStore.compare.layoutOptions', { from: diff.layoutOptions.from, to: diff.layoutOptions.to }),
+                  'snapshot-compare-layout-options',
+                )}
+              </section>
+            )}
+
+            {diff.macros.map((macro) => (
+              <section key={`macro-${macro.index}`} className="flex flex-col gap-1">
+                {checkbox(
+                  selection.macros.includes(macro.index),
+                  (on) => setSelection((s) => ({ ...s, macros: toggle(s.macros, macro.index, on) })),
+                  t('layoutStore.compare.macro', { index: macro.index }),
+                  `snapshot-compare-macro-${macro.index}`,
+                )}
+                <pre className="rounded bg-surface-dim px-2 py-1 font-mono text-xs">
+                  {macro.lines.map((line, i) => (
+                    <div
+                      key={i}
+                      className={line.op === 'added' ? 'text-accent' : line.op === 'removed' ? 'text-danger line-through' : 'text-content-muted'}
+                    >
+                      {line.op === 'added' ? '+ ' : line.op === 'removed' ? '- ' : '  '}{line.text}
+                    </div>
+                  ))}
+                  {macro.lines.length === 0 && <div className="text-content-muted">—</div>}
+                </pre>
+              </section>
+            ))}
+
+            {SNAPSHOT_ENTRY_KINDS.map((kind) => diff.entries[kind].map((entry) => (
+              <section key={`${kind}-${entry.index}`} className="flex flex-col gap-1">
+                {checkbox(
+                  selection.entries[kind].includes(entry.index),
+                  (on) => setSelection((s) => ({
+                    ...s, entries: { ...s.entries, [kind]: toggle(s.entries[kind], entry.index, on) },
+                  })),
+                  t(ENTRY_TITLE_KEY[kind], { index: entry.index }),
+                  `snapshot-compare-${kind}-${entry.index}`,
+                )}
+                <table className="text-xs">
+                  <tbody>
+                    {entry.fields.map((change) => (
+                      <tr key={change.field}>
+                        <td className="pr-2 text-content-muted">{change.field}</td>
+                        <td className="pr-2 font-mono">{formatField(change, change.from)}</td>
+                        <td className="font-mono text-warning">{formatField(change, change.to)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )))}
+
+            {diff.qmkSettings.map((setting) => (
+              <section key={`qsid-${setting.qsid}`} className="flex flex-col gap-1">
+                {checkbox(
+                  selection.qmkSettings.includes(setting.qsid),
+                  (on) => setSelection((s) => ({ ...s, qmkSettings: toggle(s.qmkSettings, setting.qsid, on) })),
+                  t('layoutStore.compare.qmkSetting', { qsid: setting.qsid }),
+                  `snapshot-compare-qsid-${setting.qsid}`,
+                )}
+                <table className="text-xs">
+                  <tbody>
+                    {setting.fields.map((row) => (
+                      <tr key={`${row.qsid}:${row.bit ?? ''}`}>
+                        <td className="pr-2 text-content-muted">{row.title}</td>
+                        <td className="pr-2 font-mono">{formatSetting(row.current, row.type)}</td>
+                        <td className="font-mono text-warning">{formatSetting(row.profile, row.type)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            ))}
+          </div>
+        )}
+
+        {onApply && (
+          <div className="mt-4 flex items-center justify-end gap-2">
+            {targetId === LIVE_SOURCE && (
+              <span className="text-xs text-content-muted">{t('layoutStore.compare.targetIsLive')}</span>
+            )}
+            <button
+              type="button"
+              className={BTN_PRIMARY}
+              disabled={!canApply}
+              onClick={() => void handleApply()}
+              data-testid="snapshot-compare-apply"
+            >
+              {t('layoutStore.compare.apply')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
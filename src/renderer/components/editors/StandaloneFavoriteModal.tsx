@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { useEffect } from 'react'
+import { useFavoriteStore } from '../../hooks/useFavoriteStore'
+import { FavoriteStoreModal } from './FavoriteStoreModal'
+import type { HubIntegrationProps } from './KeycodeEntryModalShell'
+import type { FavoriteType } from '../../../shared/types/favorite-store'
+
+interface Props extends HubIntegrationProps {
+  favoriteType: FavoriteType
+  vialProtocol: number
+  /** Snapshot of the live state to save. */
+  serialize: () => unknown
+  /** Writes a loaded favorite; the modal closes afterwards. */
+  apply: (data: unknown) => void
+  canSave?: boolean
+  onClose: () => void
+}
+
+/**
+ * Favorites modal with its own store, for favorite kinds that have no entry
+ * editor to host the panel (layers, encoders, QMK Settings groups).
+ */
+export function StandaloneFavoriteModal({
+  favoriteType,
+  vialProtocol,
+  serialize,
+  apply,
+  canSave,
+  onClose,
+  ...hubProps
+}: Props) {
+  const favStore = useFavoriteStore({
+    favoriteType,
+    serialize,
+    apply: (data) => {
+      apply(data)
+      onClose()
+    },
+    vialProtocol,
+  })
+  const { refreshEntries } = favStore
+
+  useEffect(() => {
+    void refreshEntries()
+  }, [refreshEntries])
+
+  return (
+    <FavoriteStoreModal
+      favoriteType={favoriteType}
+      onClose={onClose}
+      entries={favStore.entries}
+      loading={favStore.loading}
+      saving={favStore.saving}
+      canSave={canSave}
+      onSave={favStore.saveFavorite}
+      onLoad={favStore.loadFavorite}
+      onRename={favStore.renameEntry}
+      onDelete={favStore.deleteEntry}
+      onExport={favStore.exportFavorites}
+      onExportEntry={favStore.exportEntry}
+      onImport={favStore.importFavorites}
+      onExportCurrent={favStore.exportCurrent}
+      onImportCurrent={favStore.importCurrent}
+      exporting={favStore.exporting}
+      importing={favStore.importing}
+      importResult={favStore.importResult}
+      {...hubProps}
+      onRefreshEntries={refreshEntries}
+      onSetTags={favStore.setEntryTags}
+      searchTexts={favStore.searchTexts}
+      onSearchContent={favStore.loadSearchTexts}
+    />
+  )
+}
@@ -0,0 +1,212 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Per-LED painter for VialRGB's Direct Control effect. LEDs are read from the
+// keyboard once, mapped onto the layout's keys, and painted by clicking keys;
+// every change switches the board to Direct Control and sends the frame.
+// Frames can be kept as named lighting scenes, which travel with snapshots.
+
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { KeyboardWidget } from '../keyboard'
+import { HSVColorPicker, hsvToRgb, rgbToHex } from './HSVColorPicker'
+import { mapLedsToKeys, groupLedsByKey } from '../../../shared/vialrgb-led-map'
+import { VIALRGB_EFFECT_DIRECT } from '../../../shared/constants/protocol'
+import { BTN_PRIMARY, BTN_SECONDARY } from '../../constants/ui-tokens'
+import type { KleKey } from '../../../shared/kle/types'
+import type { HsvColor, LightingScene, VialRGBLedInfo } from '../../../shared/types/protocol'
+
+const EMPTY_KEYCODES = new Map<string, string>()
+const OFF: HsvColor = [0, 0, 0]
+
+interface Props {
+  keys: KleKey[]
+  layoutOptions?: Map<number, number>
+  maxBrightness: number
+  mode: number
+  directColors: HsvColor[]
+  scenes: LightingScene[]
+  onSetMode: (mode: number) => Promise<void>
+  onSetDirectColors: (colors: HsvColor[]) => Promise<void>
+  onSaveScene: (name: string, colors: HsvColor[]) => void
+  onDeleteScene: (name: string) => void
+}
+
+/** `colors` resized to `count` LEDs, unlit past its end. */
+function fitFrame(colors: readonly HsvColor[], count: number): HsvColor[] {
+  return Array.from({ length: count }, (_, i) => colors[i] ?? OFF)
+}
+
+export function VialRGBPainter({
+  keys,
+  layoutOptions,
+  maxBrightness,
+  mode,
+  directColors,
+  scenes,
+  onSetMode,
+  onSetDirectColors,
+  onSaveScene,
+  onDeleteScene,
+}: Props) {
+  const { t } = useTranslation()
+  const [leds, setLeds] = useState<VialRGBLedInfo[] | null>(null)
+  const [loadFailed, setLoadFailed] = useState(false)
+  const [brush, setBrush] = useState<HsvColor>([0, 255, maxBrightness])
+  const [sceneName, setSceneName] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    window.vialAPI.getVialRGBLeds()
+      .then((result) => { if (!cancelled) setLeds(result) })
+      .catch(() => { if (!cancelled) setLoadFailed(true) })
+    return () => { cancelled = true }
+  }, [])
+
+  const ledKeys = useMemo(() => mapLedsToKeys(leds ?? [], keys), [leds, keys])
+  const ledsByKey = useMemo(() => groupLedsByKey(ledKeys), [ledKeys])
+  const frame = useMemo(() => fitFrame(directColors, leds?.length ?? 0), [directColors, leds])
+
+  // Unlit keys keep the normal key face so the layout stays readable
+  const keyColors = useMemo(() => {
+    const colors = new Map<string, string>()
+    for (const [pos, indices] of ledsByKey) {
+      const lit = indices.map((i) => frame[i]).find((c) => c[2] > 0)
+      if (lit) colors.set(pos, rgbToHex(...hsvToRgb(...lit)))
+    }
+    return colors
+  }, [ledsByKey, frame])
+
+  async function paint(colors: HsvColor[]): Promise<void> {
+    try {
+      if (mode !== VIALRGB_EFFECT_DIRECT) await onSetMode(VIALRGB_EFFECT_DIRECT)
+      await onSetDirectColors(colors)
+    } catch (err) {
+      console.error('[Lighting] direct paint failed:', err)
+    }
+  }
+
+  function handleKeyClick(key: KleKey): void {
+    const indices = ledsByKey.get(`${key.row},${key.col}`)
+    if (!indices) return
+    const next = [...frame]
+    for (const i of indices) next[i] = [...brush]
+    void paint(next)
+  }
+
+  function handleSaveScene(): void {
+    const name = sceneName.trim()
+    if (!name) return
+    onSaveScene(name, frame)
+    setSceneName('')
+  }
+
+  if (loadFailed) {
+    return <p className="text-sm text-danger" data-testid="vialrgb-painter-error">{t('editor.lighting.painter.loadFailed')}</p>
+  }
+  if (leds === null) return null
+  if (leds.length === 0) {
+    return <p className="text-sm text-content-muted" data-testid="vialrgb-painter-empty">{t('editor.lighting.painter.noLeds')}</p>
+  }
+
+  return (
+    <section className="flex flex-col gap-3" data-testid="vialrgb-painter">
+      <div>
+        <h3 className="text-base font-medium">{t('editor.lighting.painter.title')}</h3>
+        <p className="text-xs text-content-muted">{t('editor.lighting.painter.description')}</p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <KeyboardWidget
+          keys={keys}
+          keycodes={EMPTY_KEYCODES}
+          layoutOptions={layoutOptions}
+          keyColors={keyColors}
+          onKeyClick={(key) => handleKeyClick(key)}
+          scale={0.6}
+        />
+      </div>
+
+      <div className="flex items-start gap-3">
+        <label className="min-w-rgb-label pt-1 text-sm">{t('editor.lighting.painter.brush')}</label>
+        <HSVColorPicker
+          hue={brush[0]}
+          saturation={brush[1]}
+          value={brush[2]}
+          onHueChange={(h) => setBrush(([, s, v]) => [h, s, v])}
+          onSaturationChange={(s) => setBrush(([h, , v]) => [h, s, v])}
+          onValueChange={(v) => setBrush(([h, s]) => [h, s, Math.min(v, maxBrightness)])}
+          onColorChange={(h, s, v) => setBrush([h, s, Math.min(v, maxBrightness)])}
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          className={BTN_SECONDARY}
+          data-testid="vialrgb-painter-fill"
+          onClick={() => void paint(frame.map(() => [...brush]))}
+        >
+          {t('editor.lighting.painter.fill')}
+        </button>
+        <button
+          type="button"
+          className={BTN_SECONDARY}
+          data-testid="vialrgb-painter-clear"
+          onClick={() => void paint(frame.map(() => OFF))}
+        >
+          {t('common.clear')}
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label className="text-sm font-medium">{t('editor.lighting.painter.scenes')}</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            className="flex-1 rounded border border-edge bg-surface px-2 py-1 text-sm focus:border-accent focus:outline-none"
+            placeholder={t('editor.lighting.painter.sceneName')}
+            value={sceneName}
+            onChange={(e) => setSceneName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSaveScene() }}
+            data-testid="vialrgb-scene-name"
+          />
+          <button
+            type="button"
+            className={BTN_PRIMARY}
+            disabled={!sceneName.trim()}
+            onClick={handleSaveScene}
+            data-testid="vialrgb-scene-save"
+          >
+            {t('editor.lighting.painter.saveScene')}
+          </button>
+        </div>
+        {scenes.length === 0 ? (
+          <p className="text-xs text-content-muted">{t('editor.lighting.painter.noScenes')}</p>
+        ) : (
+          <ul className="flex flex-col gap-1">
+            {scenes.map((scene) => (
+              <li key={scene.name} className="flex items-center gap-2 text-sm" data-testid="vialrgb-scene">
+                <span className="flex-1 truncate">{scene.name}</span>
+                <button
+                  type="button"
+                  className={BTN_SECONDARY}
+                  onClick={() => void paint(fitFrame(scene.colors, leds.length))}
+                  data-testid="vialrgb-scene-apply"
+                >
+                  {t('common.apply')}
+                </button>
+                <button
+                  type="button"
+                  className={BTN_SECONDARY}
+                  onClick={() => onDeleteScene(scene.name)}
+                  data-testid="vialrgb-scene-delete"
+                >
+                  {t('common.delete')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,112 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react'
+import { CustomMenusPanel } from '../CustomMenusPanel'
+import { parseCustomMenus } from '../../../../shared/via-custom-menus'
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}))
+
+const MENUS = parseCustomMenus([
+  {
+    label: 'Keyboard',
+    content: [
+      {
+        label: 'Encoder',
+        content: [
+          { label: 'Enabled', type: 'toggle', content: ['id_enabled', 0, 1] },
+          { label: 'Mode', type: 'dropdown', options: ['Volume', 'Scroll'], content: ['id_mode', 0, 2], showIf: '{id_enabled} == 1' },
+          { label: 'Speed', type: 'range', options: [0, 1000], content: ['id_speed', 0, 3] },
+        ],
+      },
+    ],
+  },
+])
+
+const mockGet = vi.fn<(channelId: number, valueId: number[], length: number) => Promise<number[]>>()
+const mockSet = vi.fn<(channelId: number, valueId: number[], data: number[]) => Promise<void>>()
+const mockSave = vi.fn<(channelId: number) => Promise<void>>()
+
+function deviceValues(values: Record<number, number[]>): void {
+  mockGet.mockImplementation(async (_channel, valueId) => values[valueId[0]] ?? [0, 0])
+}
+
+beforeEach(() => {
+  mockGet.mockReset()
+  mockSet.mockReset().mockResolvedValue(undefined)
+  mockSave.mockReset().mockResolvedValue(undefined)
+  window.vialAPI = {
+    ...window.vialAPI,
+    customGetValue: mockGet,
+    customSetValue: mockSet,
+    customSave: mockSave,
+  } as unknown as typeof window.vialAPI
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('CustomMenusPanel', () => {
+  it('reads every control with its value width', async () => {
+    deviceValues({ 1: [1], 2: [1], 3: [0x01, 0xf4] })
+    render(<CustomMenusPanel menus={MENUS} />)
+
+    await waitFor(() => expect(screen.getByTestId('custom-menus-panel')).toBeTruthy())
+    expect(mockGet.mock.calls).toEqual([[0, [1], 1], [0, [2], 1], [0, [3], 2]])
+    expect((screen.getByTestId('custom-menu-id_speed') as HTMLInputElement).value).toBe('500')
+    expect((screen.getByTestId('custom-menu-id_mode') as HTMLSelectElement).value).toBe('1')
+  })
+
+  it('hides controls whose showIf is false and reveals them on change', async () => {
+    deviceValues({ 1: [0] })
+    render(<CustomMenusPanel menus={MENUS} />)
+    await waitFor(() => expect(screen.getByTestId('custom-menus-panel')).toBeTruthy())
+
+    expect(screen.queryByTestId('custom-menu-id_mode')).toBeNull()
+    fireEvent.click(screen.getByTestId('custom-menu-id_enabled'))
+
+    expect(screen.getByTestId('custom-menu-id_mode')).toBeTruthy()
+    await waitFor(() => expect(mockSet).toHaveBeenCalledWith(0, [1], [1]))
+  })
+
+  it('debounces the channel save after writes', async () => {
+    deviceValues({ 1: [1] })
+    render(<CustomMenusPanel menus={MENUS} />)
+    await waitFor(() => expect(screen.getByTestId('custom-menus-panel')).toBeTruthy())
+
+    vi.useFakeTimers()
+    fireEvent.change(screen.getByTestId('custom-menu-id_speed'), { target: { value: '300' } })
+    fireEvent.change(screen.getByTestId('custom-menu-id_speed'), { target: { value: '301' } })
+    await act(async () => { await Promise.resolve() })
+    expect(mockSet).toHaveBeenLastCalledWith(0, [3], [0x01, 0x2d])
+    expect(mockSave).not.toHaveBeenCalled()
+
+    await act(async () => { vi.advanceTimersByTime(500) })
+    expect(mockSave).toHaveBeenCalledTimes(1)
+    expect(mockSave).toHaveBeenCalledWith(0)
+  })
+
+  it('flushes a pending save on unmount', async () => {
+    deviceValues({ 1: [1] })
+    const { unmount } = render(<CustomMenusPanel menus={MENUS} />)
+    await waitFor(() => expect(screen.getByTestId('custom-menus-panel')).toBeTruthy())
+
+    fireEvent.click(screen.getByTestId('custom-menu-id_enabled'))
+    await waitFor(() => expect(mockSet).toHaveBeenCalled())
+    unmount()
+    expect(mockSave).toHaveBeenCalledWith(0)
+  })
+
+  it('shows an error when reading fails', async () => {
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockGet.mockRejectedValue(new Error('timeout'))
+    render(<CustomMenusPanel menus={MENUS} />)
+
+    await waitFor(() => expect(screen.getByTestId('custom-menus-error')).toBeTruthy())
+    spy.mockRestore()
+  })
+})
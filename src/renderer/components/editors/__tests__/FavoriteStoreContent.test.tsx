@@ -171,4 +171,66 @@ describe('FavoriteStoreContent', () => {
       })
     })
   })
+
+  describe('search, tags and sorting', () => {
+    const ENTRIES: SavedFavoriteMeta[] = [
+      { id: 'a', label: 'Vim arrows', filename: 'a.json', savedAt: '2026-01-01T00:00:00.000Z', tags: ['nav'] },
+      { id: 'b', label: 'Gaming', filename: 'b.json', savedAt: '2026-02-01T00:00:00.000Z' },
+    ]
+
+    function labels(): string[] {
+      return screen.getAllByTestId('favorite-store-entry-label').map((el) => el.textContent ?? '')
+    }
+
+    it('filters by label, tag and loaded content', () => {
+      const onSearchContent = vi.fn()
+      render(
+        <FavoriteStoreContent
+          {...DEFAULT_PROPS}
+          entries={ENTRIES}
+          searchTexts={new Map([['b', 'kc_space']])}
+          onSearchContent={onSearchContent}
+        />,
+      )
+      expect(labels()).toEqual(['Vim arrows', 'Gaming'])
+
+      const search = screen.getByTestId('favorite-store-search')
+      fireEvent.change(search, { target: { value: 'nav' } })
+      expect(labels()).toEqual(['Vim arrows'])
+      expect(onSearchContent).toHaveBeenCalled()
+
+      fireEvent.change(search, { target: { value: 'space' } })
+      expect(labels()).toEqual(['Gaming'])
+
+      fireEvent.change(search, { target: { value: 'nothing' } })
+      expect(screen.getByTestId('favorite-store-no-match')).toBeInTheDocument()
+    })
+
+    it('filters by a clicked tag and sorts by label', () => {
+      render(<FavoriteStoreContent {...DEFAULT_PROPS} entries={ENTRIES} />)
+
+      fireEvent.change(screen.getByTestId('favorite-store-sort'), { target: { value: 'label' } })
+      expect(labels()).toEqual(['Gaming', 'Vim arrows'])
+      fireEvent.change(screen.getByTestId('favorite-store-sort'), { target: { value: 'newest' } })
+      expect(labels()).toEqual(['Gaming', 'Vim arrows'])
+
+      fireEvent.click(screen.getByTestId('favorite-store-entry-tag'))
+      expect(labels()).toEqual(['Vim arrows'])
+      expect(screen.getByTestId('favorite-store-tag-filter')).toHaveValue('nav')
+    })
+
+    it('edits tags as a comma-separated list', () => {
+      const onSetTags = vi.fn()
+      render(<FavoriteStoreContent {...DEFAULT_PROPS} entries={ENTRIES} onSetTags={onSetTags} />)
+
+      fireEvent.click(screen.getAllByTestId('favorite-store-tags-btn')[0])
+      const input = screen.getByTestId('favorite-store-tags-input')
+      expect(input).toHaveValue('nav')
+      fireEvent.change(input, { target: { value: 'nav, Vim' } })
+      fireEvent.keyDown(input, { key: 'Enter' })
+
+      expect(onSetTags).toHaveBeenCalledWith('a', ['nav', 'vim'])
+      expect(screen.queryByTestId('favorite-store-tags-input')).not.toBeInTheDocument()
+    })
+  })
 })
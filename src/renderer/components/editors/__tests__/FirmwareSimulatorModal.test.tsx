@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { FirmwareSimulatorModal } from '../FirmwareSimulatorModal'
+import type { FirmwareSimInput } from '../../../../shared/keymap/firmware-sim'
+import type { KleKey } from '../../../../shared/kle/types'
+import { deserialize, resolve } from '../../../../shared/keycodes/keycodes'
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}))
+
+vi.mock('../../keyboard/KeyboardWidget', () => ({
+  KeyboardWidget: ({ keys, pressedKeys, onKeyClick }: {
+    keys: KleKey[]
+    pressedKeys?: Set<string>
+    onKeyClick?: (key: KleKey, maskClicked: boolean, event?: { ctrlKey: boolean; shiftKey: boolean }) => void
+  }) => (
+    <div>
+      {keys.map((key) => (
+        <button
+          key={key.col}
+          type="button"
+          data-testid={`sim-key-${key.col}`}
+          data-pressed={pressedKeys?.has(`${key.row},${key.col}`) || undefined}
+          onClick={(e) => onKeyClick?.(key, false, { ctrlKey: e.ctrlKey, shiftKey: e.shiftKey })}
+        />
+      ))}
+    </div>
+  ),
+}))
+
+function makeKey(row: number, col: number): KleKey {
+  return {
+    x: col, y: row, width: 1, height: 1,
+    x2: 0, y2: 0, width2: 1, height2: 1,
+    rotation: 0, rotationX: 0, rotationY: 0,
+    color: '', labels: [], textColor: [], textSize: [],
+    row, col, encoderIdx: -1, encoderDir: -1,
+    layoutIndex: -1, layoutOption: -1,
+    decal: false, nub: false, stepped: false, ghost: false,
+  }
+}
+
+// Layer 0: KC_A, MO(1); layer 1: KC_1, KC_TRNS
+const keys = [makeKey(0, 0), makeKey(0, 1)]
+const input: FirmwareSimInput = {
+  layers: 2,
+  keymap: new Map([
+    ['0,0,0', deserialize('KC_A')], ['0,0,1', resolve('MO(1)')],
+    ['1,0,0', deserialize('KC_1')], ['1,0,1', 1],
+  ]),
+  settings: { tappingTermMs: 200, permissiveHold: false, holdOnOtherKeyPress: false, chordalHold: false, comboTermMs: 50 },
+}
+const keycodesForLayer = (): Map<string, string> => new Map()
+const layerLabel = (layer: number): string => `L${layer}`
+
+function renderModal() {
+  render(<FirmwareSimulatorModal input={input} keys={keys} keycodesForLayer={keycodesForLayer} layerLabel={layerLabel} onClose={vi.fn()} />)
+}
+
+describe('FirmwareSimulatorModal', () => {
+  it('taps clicked keys and shows the typed text and reports', () => {
+    renderModal()
+    expect(screen.getByTestId('firmware-sim-empty')).toBeTruthy()
+
+    fireEvent.click(screen.getByTestId('sim-key-0'))
+    fireEvent.click(screen.getByTestId('sim-key-0'))
+
+    expect(screen.getByTestId('firmware-sim-text').textContent).toBe('aa')
+    expect(screen.getAllByTestId('firmware-sim-report')).toHaveLength(4)
+
+    fireEvent.click(screen.getByTestId('firmware-sim-reset'))
+    expect(screen.getByTestId('firmware-sim-text').textContent).toBe('')
+    expect(screen.getByTestId('firmware-sim-empty')).toBeTruthy()
+  })
+
+  it('holds a shift-clicked key until it is clicked again', () => {
+    renderModal()
+
+    fireEvent.click(screen.getByTestId('sim-key-1'), { shiftKey: true })
+    expect(screen.getByTestId('sim-key-1').getAttribute('data-pressed')).toBe('true')
+    fireEvent.click(screen.getByTestId('sim-key-0'))
+    fireEvent.click(screen.getByTestId('sim-key-1'))
+    fireEvent.click(screen.getByTestId('sim-key-0'))
+
+    expect(screen.getByTestId('firmware-sim-text').textContent).toBe('1a')
+    expect(screen.getByTestId('sim-key-1').getAttribute('data-pressed')).toBeNull()
+  })
+})
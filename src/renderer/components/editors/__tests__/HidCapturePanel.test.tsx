@@ -0,0 +1,70 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { HidCapturePanel } from '../HidCapturePanel'
+import type { DeviceInfo, KeyboardDefinition } from '../../../../shared/types/protocol'
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}))
+
+const device: DeviceInfo = {
+  vendorId: 0x1234,
+  productId: 0x5678,
+  productName: 'Board',
+  serialNumber: 'vial:f64c2b3c',
+  type: 'vial',
+}
+const definition: KeyboardDefinition = { name: 'Board', matrix: { rows: 1, cols: 1 }, layouts: { keymap: [] } }
+
+const mockStart = vi.fn()
+const mockStop = vi.fn()
+const mockStatus = vi.fn()
+const mockReload = vi.fn()
+
+beforeEach(() => {
+  mockStart.mockReset().mockResolvedValue(undefined)
+  mockStop.mockReset().mockResolvedValue({ success: true, filePath: '/tmp/c.json', exchanges: 42 })
+  mockStatus.mockReset().mockResolvedValue({ recording: false, exchanges: 0 })
+  mockReload.mockReset().mockResolvedValue('0x1')
+  window.vialAPI = {
+    ...window.vialAPI,
+    hidCaptureStart: mockStart,
+    hidCaptureStop: mockStop,
+    hidCaptureStatus: mockStatus,
+  } as unknown as typeof window.vialAPI
+})
+
+describe('HidCapturePanel', () => {
+  it('starts recording and reloads the keyboard into the capture', async () => {
+    render(<HidCapturePanel device={device} definition={definition} onReload={mockReload} />)
+
+    fireEvent.click(screen.getByTestId('hid-capture-start'))
+
+    await waitFor(() => expect(screen.getByTestId('hid-capture-recording')).toBeTruthy())
+    expect(mockStart).toHaveBeenCalledWith(device)
+    expect(mockReload).toHaveBeenCalled()
+  })
+
+  it('saves a scrubbed capture by default', async () => {
+    mockStatus.mockResolvedValue({ recording: true, exchanges: 10 })
+    render(<HidCapturePanel device={device} definition={definition} onReload={mockReload} />)
+
+    fireEvent.click(await screen.findByTestId('hid-capture-stop'))
+
+    await waitFor(() => expect(screen.getByTestId('hid-capture-saved').textContent).toBe('hidCapture.saved'))
+    expect(mockStop).toHaveBeenCalledWith(definition, true)
+  })
+
+  it('keeps identifying data when scrubbing is turned off', async () => {
+    mockStatus.mockResolvedValue({ recording: true, exchanges: 10 })
+    render(<HidCapturePanel device={device} definition={definition} onReload={mockReload} />)
+
+    fireEvent.click(screen.getByTestId('hid-capture-scrub'))
+    fireEvent.click(await screen.findByTestId('hid-capture-stop'))
+
+    await waitFor(() => expect(mockStop).toHaveBeenCalledWith(definition, false))
+  })
+})
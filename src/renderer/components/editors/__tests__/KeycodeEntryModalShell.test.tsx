@@ -114,6 +114,7 @@ function createMockHook(overrides?: Partial<KeycodeEntryModalReturn<TestEntry>>)
       exporting: false,
       importing: false,
       importResult: null,
+      searchTexts: new Map(),
       showModal: false,
       refreshEntries: vi.fn(),
       openModal: vi.fn(),
@@ -127,6 +128,8 @@ function createMockHook(overrides?: Partial<KeycodeEntryModalReturn<TestEntry>>)
       importFavorites: vi.fn(),
       exportCurrent: vi.fn(),
       importCurrent: vi.fn(),
+      loadSearchTexts: vi.fn(),
+      setEntryTags: vi.fn(),
     },
     preEditValueRef: { current: 0 },
     showFavorites: true,
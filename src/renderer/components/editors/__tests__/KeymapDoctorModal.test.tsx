@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { KeymapDoctorModal } from '../KeymapDoctorModal'
+import type { KeymapDoctorInput } from '../../../../shared/keymap/keymap-doctor'
+import { resolve } from '../../../../shared/keycodes/keycodes'
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}))
+
+function input(keymap: [string, number][]): KeymapDoctorInput {
+  return {
+    layers: 2,
+    keymap: new Map(keymap),
+    encoderLayout: new Map(),
+    keys: [{ row: 0, col: 0 }, { row: 0, col: 1 }],
+    encoderCount: 0,
+    comboEntries: [{ key1: 0x04, key2: 0x1d, key3: 0, key4: 0, output: 0x29 }],
+    tappingTermMs: 200,
+  }
+}
+
+describe('KeymapDoctorModal', () => {
+  it('lists findings most severe first and jumps to a clicked finding', () => {
+    const onJump = vi.fn()
+    render(
+      <KeymapDoctorModal
+        input={input([['0,0,0', 0x04], ['0,0,1', resolve('MO(7)')], ['1,0,0', 0x05], ['1,0,1', 0x01]])}
+        layerLabel={(layer) => `L${layer}`}
+        onJump={onJump}
+        onClose={vi.fn()}
+      />,
+    )
+
+    const rows = screen.getAllByTestId('keymap-doctor-finding')
+    expect(rows.map((r) => r.getAttribute('data-severity'))).toEqual(['error', 'warning', 'warning'])
+    expect(rows[0].textContent).toContain('editor.keymap.doctor.findings.layerOutOfRange')
+
+    fireEvent.click(rows[0])
+    expect(onJump).toHaveBeenCalledWith({ kind: 'key', layer: 0, row: 0, col: 1 })
+  })
+
+  it('shows an empty state for a clean keymap and closes on Escape', () => {
+    const onClose = vi.fn()
+    render(
+      <KeymapDoctorModal
+        input={{ ...input([['0,0,0', 0x04], ['0,0,1', 0x1d]]), layers: 1 }}
+        layerLabel={(layer) => `L${layer}`}
+        onJump={vi.fn()}
+        onClose={onClose}
+      />,
+    )
+
+    expect(screen.getByTestId('keymap-doctor-empty')).toBeInTheDocument()
+    fireEvent.keyDown(window, { key: 'Escape' })
+    expect(onClose).toHaveBeenCalled()
+  })
+})
@@ -113,6 +113,7 @@ vi.mock('../../keycodes/ModifierCheckboxStrip', () => ({
 
 vi.mock('../../../../preload/macro', () => ({
   deserializeAllMacros: () => [],
+  expandMacroActions: (actions: unknown[]) => actions,
 }))
 
 vi.mock('../TapDanceModal', () => ({
@@ -98,6 +98,7 @@ vi.mock('../../keycodes/ModifierCheckboxStrip', () => ({
 
 vi.mock('../../../../preload/macro', () => ({
   deserializeAllMacros: () => [],
+  expandMacroActions: (actions: unknown[]) => actions,
 }))
 
 vi.mock('../TapDanceModal', () => ({
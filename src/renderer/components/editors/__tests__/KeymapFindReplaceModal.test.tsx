@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import { KeymapFindReplaceModal } from '../KeymapFindReplaceModal'
+import type { KeycodeSearchInput } from '../../../../shared/keymap/keycode-search'
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}))
+
+const input: KeycodeSearchInput = {
+  layers: 2,
+  keymap: new Map([['0,0,0', 0x04], ['0,0,1', 0x05], ['1,0,0', 0x04], ['1,0,1', 0]]),
+  encoderLayout: new Map(),
+  keys: [{ row: 0, col: 0 }, { row: 0, col: 1 }],
+  encoderCount: 0,
+  comboEntries: [{ key1: 0x04, key2: 0x1d, key3: 0, key4: 0, output: 0x29 }],
+}
+
+function renderModal(onReplace = vi.fn().mockResolvedValue(undefined)) {
+  const onJump = vi.fn()
+  render(
+    <KeymapFindReplaceModal
+      input={input}
+      layerLabel={(layer) => `L${layer}`}
+      onJump={onJump}
+      onReplace={onReplace}
+      onClose={vi.fn()}
+    />,
+  )
+  return { onJump, onReplace }
+}
+
+describe('KeymapFindReplaceModal', () => {
+  it('lists every use of the typed keycode and jumps to a clicked result', () => {
+    const { onJump } = renderModal()
+
+    fireEvent.change(screen.getByTestId('keymap-find-input'), { target: { value: 'KC_A' } })
+
+    const rows = screen.getAllByTestId('keymap-find-result')
+    expect(rows).toHaveLength(3)
+    fireEvent.click(rows[2])
+    expect(onJump).toHaveBeenCalledWith({ kind: 'combo', index: 0, field: 'key1' })
+  })
+
+  it('flags unknown keycodes and shows an empty state for unused ones', () => {
+    renderModal()
+
+    fireEvent.change(screen.getByTestId('keymap-find-input'), { target: { value: 'KC_NOPE' } })
+    expect(screen.getByTestId('keymap-find-invalid')).toBeTruthy()
+
+    fireEvent.change(screen.getByTestId('keymap-find-input'), { target: { value: 'KC_F13' } })
+    expect(screen.getByTestId('keymap-find-empty')).toBeTruthy()
+  })
+
+  it('replaces only after confirming', async () => {
+    const { onReplace } = renderModal()
+
+    fireEvent.change(screen.getByTestId('keymap-find-input'), { target: { value: 'KC_A' } })
+    const button = screen.getByTestId('keymap-replace-button') as HTMLButtonElement
+    expect(button.disabled).toBe(true)
+
+    fireEvent.change(screen.getByTestId('keymap-replace-input'), { target: { value: 'KC_B' } })
+    fireEvent.click(button)
+    expect(onReplace).not.toHaveBeenCalled()
+
+    await act(async () => { fireEvent.click(button) })
+    expect(onReplace).toHaveBeenCalledWith(0x04, 0x05)
+    expect(screen.getByTestId('keymap-find-message').textContent).toBe('editor.keymap.find.replaced')
+  })
+})
@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { KeymapHistoryModal } from '../KeymapHistoryModal'
+import type { HistoryEntry } from '../useKeymapHistory'
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}))
+
+const keyEntry: HistoryEntry = { kind: 'key', layer: 0, row: 0, col: 0, oldKeycode: 0x04, newKeycode: 0x05 }
+const macros: HistoryEntry = { kind: 'macros', oldBuffer: [0], newBuffer: [1, 0] }
+const layout: HistoryEntry = { kind: 'layoutOptions', oldValue: 0, newValue: 1 }
+
+describe('KeymapHistoryModal', () => {
+  it('lists the timeline newest first, with undone entries above the current state', () => {
+    render(
+      <KeymapHistoryModal
+        undoEntries={[keyEntry, macros]} redoEntries={[layout]}
+        layerLabel={(layer) => `L${layer}`} onJump={vi.fn()} onClose={vi.fn()}
+      />,
+    )
+
+    const rows = screen.getAllByTestId('keymap-history-entry')
+    expect(rows.map((r) => r.getAttribute('data-position'))).toEqual(['3', '2', '1', '0'])
+    expect(rows[0].textContent).toContain('editor.keymap.history.entries.layoutOptions')
+    expect(rows[0].textContent).toContain('editor.keymap.history.undone')
+    expect(rows[1].textContent).toContain('editor.keymap.history.entries.macros')
+    expect(rows[1]).toHaveAttribute('aria-current', 'step')
+    expect(rows[2].textContent).toContain('editor.keymap.history.entries.key')
+    expect(rows[3].textContent).toContain('editor.keymap.history.initialState')
+  })
+
+  it('jumps by the offset between the clicked state and the current one', async () => {
+    const onJump = vi.fn().mockResolvedValue(undefined)
+    render(
+      <KeymapHistoryModal
+        undoEntries={[keyEntry, macros]} redoEntries={[layout]}
+        layerLabel={(layer) => `L${layer}`} onJump={onJump} onClose={vi.fn()}
+      />,
+    )
+
+    fireEvent.click(screen.getAllByTestId('keymap-history-entry')[3])
+    await waitFor(() => expect(onJump).toHaveBeenCalledWith(-2))
+  })
+
+  it('shows the error when a jump fails', async () => {
+    const onJump = vi.fn().mockRejectedValue(new Error('write failed'))
+    render(
+      <KeymapHistoryModal
+        undoEntries={[keyEntry]} redoEntries={[macros]}
+        layerLabel={(layer) => `L${layer}`} onJump={onJump} onClose={vi.fn()}
+      />,
+    )
+
+    fireEvent.click(screen.getAllByTestId('keymap-history-entry')[0])
+    expect(await screen.findByTestId('keymap-history-error')).toHaveTextContent('editor.keymap.history.jumpFailed')
+    expect(onJump).toHaveBeenCalledWith(1)
+  })
+})
@@ -0,0 +1,94 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { KeymapImportModal } from '../KeymapImportModal'
+import type { KeymapImportInput } from '../../../../shared/keymap-import'
+import type { KleKey } from '../../../../shared/kle/types'
+import { deserialize } from '../../../../shared/keycodes/keycodes'
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}))
+
+const captured: { highlightedKeys?: Set<string>; keycodes: Map<string, string> }[] = []
+
+vi.mock('../../keyboard/KeyboardWidget', () => ({
+  KeyboardWidget: (props: { highlightedKeys?: Set<string>; keycodes: Map<string, string> }) => {
+    captured.push(props)
+    return <div data-testid="keyboard-widget" />
+  },
+}))
+
+function makeKey(row: number, col: number): KleKey {
+  return {
+    x: col, y: row, width: 1, height: 1,
+    x2: 0, y2: 0, width2: 1, height2: 1,
+    rotation: 0, rotationX: 0, rotationY: 0,
+    color: '', labels: [], textColor: [], textSize: [],
+    row, col, encoderIdx: -1, encoderDir: -1,
+    layoutIndex: -1, layoutOption: -1,
+    decal: false, nub: false, stepped: false, ghost: false,
+  }
+}
+
+const input: KeymapImportInput = {
+  layers: 1,
+  keys: [makeKey(0, 0), makeKey(0, 1)],
+  layoutOptions: new Map(),
+  encoderCount: 0,
+  keymap: new Map([['0,0,0', deserialize('KC_A')]]),
+  encoderLayout: new Map(),
+  deserializeKeycode: deserialize,
+}
+const layerLabel = (layer: number): string => `L${layer}`
+
+const mockLoadLayout = vi.fn()
+
+beforeEach(() => {
+  captured.length = 0
+  mockLoadLayout.mockReset()
+  Object.defineProperty(window, 'vialAPI', {
+    value: { loadLayout: mockLoadLayout },
+    writable: true,
+    configurable: true,
+  })
+})
+
+describe('KeymapImportModal', () => {
+  it('previews the file with unresolved keycodes flagged and applies the plan', async () => {
+    mockLoadLayout.mockResolvedValue({
+      success: true,
+      filePath: '/tmp/keymap.json',
+      data: JSON.stringify({ layout: 'LAYOUT', layers: [['KC_B', 'KC_NOPE']] }),
+    })
+    const onApply = vi.fn().mockResolvedValue(undefined)
+    const onClose = vi.fn()
+    render(<KeymapImportModal input={input} layerLabel={layerLabel} onApply={onApply} onClose={onClose} />)
+
+    fireEvent.click(screen.getByTestId('keymap-import-choose'))
+    await waitFor(() => expect(screen.getByTestId('keymap-import-summary')).toBeTruthy())
+
+    expect(mockLoadLayout).toHaveBeenCalledWith('editor.keymap.import.chooseFile', ['c', 'json'])
+    expect(screen.getAllByTestId('keymap-import-unresolved')).toHaveLength(1)
+    const widget = captured[captured.length - 1]
+    expect(widget.keycodes.get('0,0')).toBe('KC_B')
+    expect([...widget.highlightedKeys!]).toEqual(['0,1'])
+
+    fireEvent.click(screen.getByTestId('keymap-import-apply'))
+    await waitFor(() => expect(onClose).toHaveBeenCalled())
+    expect(onApply.mock.calls[0][0].keys).toEqual([{ layer: 0, row: 0, col: 0, oldKeycode: deserialize('KC_A'), newKeycode: deserialize('KC_B') }])
+  })
+
+  it('shows why a file could not be read', async () => {
+    mockLoadLayout.mockResolvedValue({ success: true, data: 'int main(void) { return 0; }' })
+    render(<KeymapImportModal input={input} layerLabel={layerLabel} onApply={vi.fn()} onClose={vi.fn()} />)
+
+    fireEvent.click(screen.getByTestId('keymap-import-choose'))
+
+    await waitFor(() => expect(screen.getByTestId('keymap-import-error')).toBeTruthy())
+    expect(screen.queryByTestId('keymap-import-summary')).toBeNull()
+    expect((screen.getByTestId('keymap-import-apply') as HTMLButtonElement).disabled).toBe(true)
+  })
+})
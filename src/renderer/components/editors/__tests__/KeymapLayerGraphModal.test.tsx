@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { KeymapLayerGraphModal } from '../KeymapLayerGraphModal'
+import type { LayerGraphInput } from '../../../../shared/keymap/layer-graph'
+import { resolve } from '../../../../shared/keycodes/keycodes'
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}))
+
+function input(keymap: [string, number][]): LayerGraphInput {
+  return {
+    layers: 3,
+    keymap: new Map(keymap),
+    encoderLayout: new Map(),
+    keys: [{ row: 0, col: 0 }, { row: 0, col: 1 }],
+    encoderCount: 0,
+  }
+}
+
+describe('KeymapLayerGraphModal', () => {
+  it('draws one node per layer and highlights trapped layers', () => {
+    render(
+      <KeymapLayerGraphModal
+        input={input([['0,0,0', resolve('MO(1)')], ['0,0,1', resolve('TG(2)')], ['1,0,0', 0x04], ['2,0,0', 0x04]])}
+        layerLabel={(layer) => `L${layer}`}
+        onJump={vi.fn()}
+        onClose={vi.fn()}
+      />,
+    )
+
+    const nodes = screen.getAllByTestId('keymap-layer-graph-node')
+    expect(nodes.map((n) => n.getAttribute('data-trapped'))).toEqual([null, null, 'true'])
+    expect(screen.getAllByTestId('keymap-layer-graph-arrow')).toHaveLength(2)
+    expect(screen.getByTestId('keymap-layer-graph-trapped')).toBeTruthy()
+  })
+
+  it('jumps to the key that fires a clicked edge', () => {
+    const onJump = vi.fn()
+    render(
+      <KeymapLayerGraphModal
+        input={input([['0,0,0', 0x04], ['0,0,1', resolve('MO(1)')], ['1,0,0', 0x04], ['1,0,1', 0x04]])}
+        layerLabel={(layer) => `L${layer}`}
+        onJump={onJump}
+        onClose={vi.fn()}
+      />,
+    )
+
+    const rows = screen.getAllByTestId('keymap-layer-graph-edge')
+    expect(rows).toHaveLength(1)
+    fireEvent.click(rows[0])
+    expect(onJump).toHaveBeenCalledWith({ kind: 'key', layer: 0, row: 0, col: 1 })
+
+    fireEvent.click(screen.getByTestId('keymap-layer-graph-arrow'))
+    expect(onJump).toHaveBeenCalledTimes(2)
+  })
+})
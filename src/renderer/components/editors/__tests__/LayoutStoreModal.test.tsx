@@ -112,6 +112,28 @@ describe('LayoutStoreModal', () => {
     expect(screen.queryByTestId('layout-store-load-confirm')).not.toBeInTheDocument()
   })
 
+  it('opens the comparison for an entry only when onCompare is given', () => {
+    const onCompare = vi.fn()
+    const { rerender } = render(
+      <LayoutStoreModal
+        entries={MOCK_ENTRIES}
+        {...DEFAULT_PROPS}
+      />,
+    )
+    expect(screen.queryByTestId('layout-store-compare-btn')).not.toBeInTheDocument()
+
+    rerender(
+      <LayoutStoreModal
+        entries={MOCK_ENTRIES}
+        {...DEFAULT_PROPS}
+        onCompare={onCompare}
+      />,
+    )
+    fireEvent.click(screen.getAllByTestId('layout-store-compare-btn')[1])
+
+    expect(onCompare).toHaveBeenCalledWith('entry-2')
+  })
+
   it('opening load confirm closes an open delete confirm on the same row, and vice versa', () => {
     render(
       <LayoutStoreModal
@@ -2,7 +2,7 @@
 // @vitest-environment jsdom
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { render, screen, fireEvent } from '@testing-library/react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 
 vi.mock('react-i18next', () => ({
   useTranslation: () => ({
@@ -12,6 +12,8 @@ vi.mock('react-i18next', () => ({
         'editor.macro.addAction': 'Add Action',
         'editor.macro.record': 'Record',
         'editor.macro.textEditor': 'Text Editor',
+        'editor.macro.overBudget': `${opts?.over} bytes over`,
+        'editor.macro.compactDiff': `${opts?.before} → ${opts?.after} (${opts?.saved} saved)`,
         'common.save': 'Save',
         'common.revert': 'Revert',
       }
@@ -72,6 +74,7 @@ Object.defineProperty(window, 'vialAPI', {
 })
 
 import { MacroEditor } from '../MacroEditor'
+import type { MacroAction } from '../../../../preload/macro'
 
 describe('MacroEditor', () => {
   const defaultProps = {
@@ -127,4 +130,56 @@ describe('MacroEditor', () => {
     render(<MacroEditor {...defaultProps} isDummy={true} />)
     expect(screen.queryByTestId('macro-favorites-panel')).not.toBeInTheDocument()
   })
+
+  it('shows the unicode input method only once the macro has a unicode action', () => {
+    render(<MacroEditor {...defaultProps} isDummy={true} />)
+    expect(screen.queryByTestId('macro-unicode-method')).not.toBeInTheDocument()
+    fireEvent.change(screen.getByTestId('macro-add-action'), { target: { value: 'unicode' } })
+    expect(screen.getByTestId('macro-unicode-text')).toBeInTheDocument()
+    expect(screen.getByTestId('macro-unicode-method')).toHaveValue('linux')
+  })
+
+  it('applies the unicode input method to every unicode action of the macro', async () => {
+    const onSaveMacros = vi.fn().mockResolvedValue(undefined)
+    const parsedMacros: MacroAction[][] = [
+      [
+        { type: 'unicode', text: 'é', method: 'linux' },
+        { type: 'text', text: 'x' },
+        { type: 'unicode', text: '—', method: 'linux' },
+      ],
+      [], [], [],
+    ]
+    render(<MacroEditor {...defaultProps} isDummy={true} parsedMacros={parsedMacros} onSaveMacros={onSaveMacros} />)
+    fireEvent.change(screen.getByTestId('macro-unicode-method'), { target: { value: 'macos' } })
+    fireEvent.click(screen.getByTestId('macro-save'))
+    await waitFor(() => expect(onSaveMacros).toHaveBeenCalled())
+    expect(onSaveMacros.mock.calls[0][1][0]).toEqual([
+      { type: 'unicode', text: 'é', method: 'macos' },
+      { type: 'text', text: 'x' },
+      { type: 'unicode', text: '—', method: 'macos' },
+    ])
+  })
+
+  it('warns and blocks saving when the macros do not fit the buffer', () => {
+    render(<MacroEditor {...defaultProps} macroBufferSize={3} isDummy={true} />)
+    expect(screen.getByTestId('macro-memory').textContent).toBe('Memory: 4 / 3 bytes')
+    expect(screen.getByTestId('macro-over-budget').textContent).toBe('1 bytes over')
+    fireEvent.change(screen.getByTestId('macro-add-action'), { target: { value: 'text' } })
+    expect(screen.getByTestId('macro-save')).toBeDisabled()
+  })
+
+  it('previews compaction and saves the trimmed buffer zero-filled', async () => {
+    const onSaveMacros = vi.fn().mockResolvedValue(undefined)
+    const parsedMacros: MacroAction[][] = [[{ type: 'delay', delay: 0 }, { type: 'text', text: 'x' }], [], [], []]
+    render(<MacroEditor {...defaultProps} isDummy={true} parsedMacros={parsedMacros} onSaveMacros={onSaveMacros} />)
+    fireEvent.click(screen.getByTestId('macro-compact'))
+    expect(screen.getByTestId('macro-compact-diff').textContent).toBe('4 → 1 (3 saved)')
+    fireEvent.click(screen.getByTestId('macro-compact-apply'))
+    expect(screen.queryByTestId('macro-compact-panel')).not.toBeInTheDocument()
+    expect(screen.getByTestId('macro-memory').textContent).toBe('Memory: 1 / 512 bytes')
+    fireEvent.click(screen.getByTestId('macro-save'))
+    await waitFor(() => expect(onSaveMacros).toHaveBeenCalled())
+    expect(onSaveMacros.mock.calls[0][0]).toHaveLength(512)
+    expect(onSaveMacros.mock.calls[0][1][0]).toEqual([{ type: 'text', text: 'x' }])
+  })
 })
@@ -7,34 +7,27 @@ import { MacroTextEditor } from '../MacroTextEditor'
 
 vi.mock('react-i18next', () => ({
   useTranslation: () => ({
-    t: (key: string) => {
+    t: (key: string, opts?: Record<string, unknown>) => {
       const map: Record<string, string> = {
         'editor.macro.textEditorTitle': 'Edit Macro (Text)',
         'editor.macro.invalidJson': 'Invalid JSON format',
+        'editor.macro.scriptMode': 'Script',
+        'editor.macro.jsonMode': 'JSON',
+        'editor.macro.scriptErrorAt': 'Line {{line}}, column {{column}}: {{message}}',
+        'editor.macro.scriptError.unknownKeycode': 'Unknown keycode',
         'common.cancel': 'Cancel',
         'common.apply': 'Apply',
         'common.save': 'Save',
       }
-      return map[key] ?? key
+      return (map[key] ?? key).replace(/\{\{(\w+)\}\}/g, (_, name: string) => String(opts?.[name]))
     },
   }),
 }))
 
-vi.mock('../../../../preload/macro', () => ({
-  jsonToMacroActions: (json: string) => {
-    try {
-      const parsed = JSON.parse(json)
-      if (!Array.isArray(parsed)) return null
-      return parsed
-    } catch {
-      return null
-    }
-  },
-}))
-
 describe('MacroTextEditor', () => {
   const defaultProps = {
     initialJson: '[["text","hello"]]',
+    vialProtocol: 6,
     onApply: vi.fn(),
     onClose: vi.fn(),
   }
@@ -43,23 +36,72 @@ describe('MacroTextEditor', () => {
     vi.clearAllMocks()
   })
 
-  it('renders the dialog with initial JSON', () => {
+  function showJson(): HTMLTextAreaElement {
+    fireEvent.click(screen.getByTestId('macro-text-editor-mode-json'))
+    return screen.getByTestId('macro-text-editor-textarea') as HTMLTextAreaElement
+  }
+
+  it('renders the dialog with the macro as a script', () => {
     render(<MacroTextEditor {...defaultProps} />)
     expect(screen.getByTestId('macro-text-editor')).toBeInTheDocument()
     expect(screen.getByText('Edit Macro (Text)')).toBeInTheDocument()
     const textarea = screen.getByTestId('macro-text-editor-textarea') as HTMLTextAreaElement
-    expect(textarea.value).toBe('[["text","hello"]]')
+    expect(textarea.value).toBe('"hello"')
+  })
+
+  it('shows the initial JSON in JSON mode', () => {
+    render(<MacroTextEditor {...defaultProps} />)
+    expect(showJson().value).toBe('[["text","hello"]]')
+  })
+
+  it('highlights script tokens', () => {
+    render(<MacroTextEditor {...defaultProps} initialJson='[["text","hi"],["tap","KC_A"],["delay",10]]' />)
+    const highlight = screen.getByTestId('macro-text-editor-highlight')
+    expect(highlight.textContent).toBe('"hi" a {delay 10}\n')
+    expect(highlight.querySelector('.text-success')?.textContent).toBe('"hi"')
+    expect(highlight.querySelector('.text-accent')?.textContent).toBe('a')
+    expect(highlight.querySelector('.text-warning')?.textContent).toBe('delay')
+  })
+
+  it('shows script errors with line and column', () => {
+    render(<MacroTextEditor {...defaultProps} />)
+    fireEvent.change(screen.getByTestId('macro-text-editor-textarea'), { target: { value: 'a\n  nope' } })
+    expect(screen.getByTestId('macro-text-editor-error').textContent).toBe('Line 2, column 3: Unknown keycode')
+    expect(screen.getByTestId('macro-text-editor-apply')).toBeDisabled()
+  })
+
+  it('applies parsed script actions', () => {
+    const onApply = vi.fn()
+    render(<MacroTextEditor {...defaultProps} onApply={onApply} />)
+    fireEvent.change(screen.getByTestId('macro-text-editor-textarea'), { target: { value: '{LSFT+a} {delay 5}' } })
+    fireEvent.click(screen.getByTestId('macro-text-editor-apply'))
+    expect(onApply).toHaveBeenCalledWith([
+      { type: 'down', keycodes: [0xe1] },
+      { type: 'tap', keycodes: [0x04] },
+      { type: 'up', keycodes: [0xe1] },
+      { type: 'delay', delay: 5 },
+    ])
+  })
+
+  it('carries edits across modes', () => {
+    render(<MacroTextEditor {...defaultProps} />)
+    fireEvent.change(screen.getByTestId('macro-text-editor-textarea'), { target: { value: '"bye" a' } })
+    expect(showJson().value).toBe('[["text","bye"],["tap","KC_A"]]')
+    fireEvent.change(screen.getByTestId('macro-text-editor-textarea'), { target: { value: '[["tap","KC_B"]]' } })
+    fireEvent.click(screen.getByTestId('macro-text-editor-mode-script'))
+    expect((screen.getByTestId('macro-text-editor-textarea') as HTMLTextAreaElement).value).toBe('b')
   })
 
   it('enables Apply when JSON is valid', () => {
     render(<MacroTextEditor {...defaultProps} />)
+    showJson()
     const applyBtn = screen.getByTestId('macro-text-editor-apply')
     expect(applyBtn).not.toBeDisabled()
   })
 
   it('disables Apply and shows error when JSON is invalid', () => {
     render(<MacroTextEditor {...defaultProps} />)
-    const textarea = screen.getByTestId('macro-text-editor-textarea')
+    const textarea = showJson()
     fireEvent.change(textarea, { target: { value: 'not valid json' } })
     expect(screen.getByTestId('macro-text-editor-error')).toBeInTheDocument()
     expect(screen.getByTestId('macro-text-editor-apply')).toBeDisabled()
@@ -69,8 +111,9 @@ describe('MacroTextEditor', () => {
     const onApply = vi.fn()
     const onClose = vi.fn()
     render(<MacroTextEditor {...defaultProps} onApply={onApply} onClose={onClose} />)
+    showJson()
     fireEvent.click(screen.getByTestId('macro-text-editor-apply'))
-    expect(onApply).toHaveBeenCalledWith([['text', 'hello']])
+    expect(onApply).toHaveBeenCalledWith([{ type: 'text', text: 'hello' }])
     expect(onClose).toHaveBeenCalled()
   })
 
@@ -104,7 +147,7 @@ describe('MacroTextEditor', () => {
 
   it('shows error for non-array JSON', () => {
     render(<MacroTextEditor {...defaultProps} />)
-    const textarea = screen.getByTestId('macro-text-editor-textarea')
+    const textarea = showJson()
     fireEvent.change(textarea, { target: { value: '{"type":"text"}' } })
     expect(screen.getByTestId('macro-text-editor-error')).toBeInTheDocument()
     expect(screen.getByTestId('macro-text-editor-apply')).toBeDisabled()
@@ -112,13 +155,14 @@ describe('MacroTextEditor', () => {
 
   it('shows error and disables Apply when initialJson is invalid', () => {
     render(<MacroTextEditor {...defaultProps} initialJson="not valid" />)
+    showJson()
     expect(screen.getByTestId('macro-text-editor-error')).toBeInTheDocument()
     expect(screen.getByTestId('macro-text-editor-apply')).toBeDisabled()
   })
 
   it('clears error and enables Apply after fixing invalid JSON', () => {
     render(<MacroTextEditor {...defaultProps} />)
-    const textarea = screen.getByTestId('macro-text-editor-textarea')
+    const textarea = showJson()
     fireEvent.change(textarea, { target: { value: 'broken' } })
     expect(screen.getByTestId('macro-text-editor-error')).toBeInTheDocument()
     fireEvent.change(textarea, { target: { value: '[["text","fixed"]]' } })
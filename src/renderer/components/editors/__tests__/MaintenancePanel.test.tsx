@@ -0,0 +1,97 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { MaintenancePanel } from '../MaintenancePanel'
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}))
+
+const mockSaveSnapshot = vi.fn<(label: string) => Promise<string | null>>()
+const mockResetKeymap = vi.fn<() => Promise<void>>()
+const mockResetEeprom = vi.fn<() => Promise<void>>()
+const mockJump = vi.fn<() => Promise<void>>()
+
+function renderPanel() {
+  return render(
+    <MaintenancePanel
+      onSaveSnapshot={mockSaveSnapshot}
+      onResetDynamicKeymap={mockResetKeymap}
+      onResetEeprom={mockResetEeprom}
+      onJumpToBootloader={mockJump}
+    />,
+  )
+}
+
+beforeEach(() => {
+  mockSaveSnapshot.mockReset().mockResolvedValue('snap-1')
+  mockResetKeymap.mockReset().mockResolvedValue(undefined)
+  mockResetEeprom.mockReset().mockResolvedValue(undefined)
+  mockJump.mockReset().mockResolvedValue(undefined)
+})
+
+describe('MaintenancePanel', () => {
+  it('needs a second click before running a command', async () => {
+    renderPanel()
+    const button = screen.getByTestId('maintenance-dynamicKeymapReset')
+
+    fireEvent.click(button)
+    expect(button.textContent).toBe('maintenance.confirm')
+    expect(mockSaveSnapshot).not.toHaveBeenCalled()
+
+    fireEvent.click(button)
+    await waitFor(() => expect(screen.getByTestId('maintenance-done')).toBeTruthy())
+    expect(mockResetKeymap).toHaveBeenCalledTimes(1)
+    expect(mockResetEeprom).not.toHaveBeenCalled()
+  })
+
+  it('saves a snapshot before sending the command', async () => {
+    const order: string[] = []
+    mockSaveSnapshot.mockImplementation(async () => { order.push('snapshot'); return 'snap-1' })
+    mockResetEeprom.mockImplementation(async () => { order.push('reset') })
+    renderPanel()
+
+    const button = screen.getByTestId('maintenance-eepromReset')
+    fireEvent.click(button)
+    fireEvent.click(button)
+
+    await waitFor(() => expect(screen.getByTestId('maintenance-done').textContent).toBe('maintenance.eepromReset.done'))
+    expect(order).toEqual(['snapshot', 'reset'])
+    expect(mockSaveSnapshot).toHaveBeenCalledWith('maintenance.snapshotLabel')
+  })
+
+  it('sends nothing when the snapshot cannot be saved', async () => {
+    mockSaveSnapshot.mockResolvedValue(null)
+    renderPanel()
+
+    const button = screen.getByTestId('maintenance-bootloaderJump')
+    fireEvent.click(button)
+    fireEvent.click(button)
+
+    await waitFor(() => expect(screen.getByTestId('maintenance-error').textContent).toBe('maintenance.snapshotFailed'))
+    expect(mockJump).not.toHaveBeenCalled()
+  })
+
+  it('reports a cancelled unlock', async () => {
+    mockResetKeymap.mockRejectedValue(new Error('Unlock cancelled'))
+    renderPanel()
+
+    const button = screen.getByTestId('maintenance-dynamicKeymapReset')
+    fireEvent.click(button)
+    fireEvent.click(button)
+
+    await waitFor(() => expect(screen.getByTestId('maintenance-error').textContent).toBe('maintenance.unlockCancelled'))
+  })
+
+  it('arming one command disarms the others', () => {
+    renderPanel()
+    fireEvent.click(screen.getByTestId('maintenance-eepromReset'))
+    fireEvent.click(screen.getByTestId('maintenance-bootloaderJump'))
+
+    expect(screen.getByTestId('maintenance-eepromReset').textContent).toBe('maintenance.eepromReset.button')
+    expect(screen.getByTestId('maintenance-bootloaderJump').textContent).toBe('maintenance.confirm')
+    expect(mockJump).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { QmkSettingsModals } from '../QmkSettingsModal'
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}))
+
+vi.mock('../QmkSettings', () => ({ QmkSettings: () => null }))
+vi.mock('../QmkSettingsProfiles', () => ({ QmkSettingsProfiles: () => null }))
+vi.mock('../StandaloneFavoriteModal', () => ({
+  StandaloneFavoriteModal: ({ apply }: { apply: (data: unknown) => void }) => (
+    <button type="button" data-testid="favorite-apply" onClick={() => apply({ group: 'Tap-Hold', values: { '7': [150, 0] } })} />
+  ),
+}))
+
+const qmkSettingsGet = vi.fn()
+const qmkSettingsSet = vi.fn()
+
+function renderModal() {
+  return render(
+    <QmkSettingsModals
+      supportedQsids={new Set([7])}
+      qmkSettingsGet={qmkSettingsGet}
+      qmkSettingsSet={qmkSettingsSet}
+      qmkSettingsReset={vi.fn()}
+      visibleModals={{ tapHold: true }}
+      onCloseModal={vi.fn()}
+    />,
+  )
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  qmkSettingsGet.mockResolvedValue([200, 0])
+  qmkSettingsSet.mockResolvedValue(undefined)
+})
+
+describe('QmkSettingsModals favorites', () => {
+  it('shows an error when the current values cannot be read', async () => {
+    qmkSettingsGet.mockRejectedValue(new Error('disconnected'))
+    renderModal()
+    fireEvent.click(screen.getByTestId('tap-hold-settings-favorites'))
+    expect(await screen.findByTestId('tap-hold-settings-favorites-error')).toHaveTextContent('editor.qmkSettings.favoritesReadFailed')
+    expect(screen.queryByTestId('favorite-apply')).not.toBeInTheDocument()
+  })
+
+  it('shows an error when applying a favorite fails', async () => {
+    qmkSettingsSet.mockRejectedValue(new Error('disconnected'))
+    renderModal()
+    fireEvent.click(screen.getByTestId('tap-hold-settings-favorites'))
+    fireEvent.click(await screen.findByTestId('favorite-apply'))
+    await waitFor(() => {
+      expect(screen.getByTestId('tap-hold-settings-favorites-error')).toHaveTextContent('editor.qmkSettings.favoritesApplyFailed')
+    })
+  })
+})
@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { QmkSettingsProfiles } from '../QmkSettingsProfiles'
+import type { QmkSettingsProfile } from '../../../../shared/types/qmk-settings-profile'
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}))
+
+const gaming: QmkSettingsProfile = {
+  id: 'p1',
+  name: 'Gaming',
+  savedAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  values: { '7': [150, 0], '2': [30, 0] },
+}
+
+const mockList = vi.fn()
+const mockSave = vi.fn()
+const mockDelete = vi.fn()
+const mockExportJson = vi.fn()
+const mockSideloadJson = vi.fn()
+const qmkSettingsGet = vi.fn()
+const qmkSettingsSet = vi.fn()
+const onSettingsUpdate = vi.fn()
+const onApplied = vi.fn()
+
+// Tapping Term (qsid 7) only; qsid 2 (Combo Term) is unsupported
+const supportedQsids = new Set([7])
+
+function renderProfiles() {
+  return render(
+    <QmkSettingsProfiles
+      supportedQsids={supportedQsids}
+      qmkSettingsGet={qmkSettingsGet}
+      qmkSettingsSet={qmkSettingsSet}
+      onSettingsUpdate={onSettingsUpdate}
+      onApplied={onApplied}
+    />,
+  )
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockList.mockResolvedValue({ success: true, profiles: [gaming] })
+  mockSave.mockResolvedValue({ success: true, profile: gaming })
+  mockDelete.mockResolvedValue({ success: true })
+  mockExportJson.mockResolvedValue({ success: true })
+  qmkSettingsGet.mockResolvedValue([250, 0, 0, 0])
+  qmkSettingsSet.mockResolvedValue(undefined)
+  window.vialAPI = {
+    ...window.vialAPI,
+    qmkSettingsProfileList: mockList,
+    qmkSettingsProfileSave: mockSave,
+    qmkSettingsProfileDelete: mockDelete,
+    exportJson: mockExportJson,
+    sideloadJson: mockSideloadJson,
+  } as unknown as typeof window.vialAPI
+})
+
+describe('QmkSettingsProfiles', () => {
+  it('saves the current values under a name', async () => {
+    renderProfiles()
+    await screen.findByText('Gaming')
+
+    fireEvent.change(screen.getByTestId('qmk-profile-name'), { target: { value: ' Office ' } })
+    fireEvent.click(screen.getByTestId('qmk-profile-save'))
+
+    await waitFor(() => expect(mockSave).toHaveBeenCalledWith('Office', { '7': [250, 0] }))
+  })
+
+  it('diffs current values against defaults and the selected profile', async () => {
+    renderProfiles()
+    await screen.findByTestId('qmk-profile-diff')
+    expect(screen.getAllByTestId('qmk-profile-diff-row')[0].textContent).toBe('Tapping Term250200')
+
+    fireEvent.click(screen.getByTestId('qmk-profile-select'))
+    expect(screen.getAllByTestId('qmk-profile-diff-row')[0].textContent).toBe('Tapping Term250200150')
+  })
+
+  it('applies supported settings and reports skipped qsids', async () => {
+    renderProfiles()
+    await screen.findByText('Gaming')
+
+    fireEvent.click(screen.getByTestId('qmk-profile-apply'))
+
+    await screen.findByTestId('qmk-profile-report')
+    expect(qmkSettingsSet).toHaveBeenCalledTimes(1)
+    expect(qmkSettingsSet).toHaveBeenCalledWith(7, [150, 0])
+    expect(onSettingsUpdate).toHaveBeenCalledWith(7, [150, 0])
+    expect(screen.getByTestId('qmk-profile-skipped')).toBeTruthy()
+    expect(onApplied).toHaveBeenCalled()
+  })
+
+  it('exports all profiles and imports an export file', async () => {
+    renderProfiles()
+    await screen.findByText('Gaming')
+
+    fireEvent.click(screen.getByTestId('qmk-profile-export'))
+    await waitFor(() => expect(mockExportJson).toHaveBeenCalled())
+    const exported = JSON.parse(mockExportJson.mock.calls[0][0] as string)
+    expect(exported).toMatchObject({ scope: 'qmkSettingsProfiles', profiles: [{ name: 'Gaming' }] })
+
+    mockSideloadJson.mockResolvedValue({ success: true, data: exported })
+    fireEvent.click(screen.getByTestId('qmk-profile-import'))
+    await waitFor(() => expect(mockSave).toHaveBeenCalledWith('Gaming', gaming.values))
+  })
+
+  it('rejects files that are not profile exports', async () => {
+    mockSideloadJson.mockResolvedValue({ success: true, data: { foo: 1 } })
+    renderProfiles()
+    await screen.findByText('Gaming')
+
+    fireEvent.click(screen.getByTestId('qmk-profile-import'))
+
+    expect(await screen.findByTestId('qmk-profile-error')).toBeTruthy()
+    expect(mockSave).not.toHaveBeenCalled()
+  })
+})
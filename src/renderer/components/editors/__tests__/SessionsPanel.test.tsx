@@ -0,0 +1,175 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { SessionsPanel, PRIMARY_BOARD_ID, type SessionBoard } from '../SessionsPanel'
+import { emptyState, type KeyboardState } from '../../../hooks/keyboard-types'
+import type { useDeviceSessions } from '../../../hooks/useDeviceSessions'
+import type { DeviceInfo } from '../../../../shared/types/protocol'
+import type { KleKey } from '../../../../shared/kle/types'
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}))
+
+const KC_A = 0x04
+const KC_B = 0x05
+
+const KEY: KleKey = {
+  x: 0, y: 0, width: 1, height: 1, row: 0, col: 0,
+  encoderIdx: -1, encoderDir: -1, layoutIndex: -1, layoutOption: -1,
+  decal: false, labels: [], x2: 0, y2: 0, width2: 1, height2: 1,
+  rotation: 0, rotationX: 0, rotationY: 0, color: '',
+  textColor: [], textSize: [], nub: false, stepped: false, ghost: false,
+}
+
+const primaryDevice: DeviceInfo = {
+  vendorId: 0x1234,
+  productId: 0x5678,
+  productName: 'Primary',
+  serialNumber: 'vial:00000001',
+  type: 'vial',
+}
+const secondDevice: DeviceInfo = { ...primaryDevice, productName: 'Second', serialNumber: 'vial:00000002' }
+const thirdDevice: DeviceInfo = { ...primaryDevice, productName: 'Third', serialNumber: 'vial:00000003' }
+const bootloader: DeviceInfo = { ...primaryDevice, productName: 'Loader', serialNumber: 'vibl:1', type: 'bootloader' }
+
+function keyboardState(overrides: Partial<KeyboardState> = {}): KeyboardState {
+  return {
+    ...emptyState(),
+    vialProtocol: 6,
+    layers: 1,
+    rows: 1,
+    cols: 1,
+    macroCount: 1,
+    macroBufferSize: 32,
+    macroBuffer: [0],
+    unlockStatus: { unlocked: true, inProgress: false, keys: [] },
+    ...overrides,
+  }
+}
+
+const mockPrimarySetKeys = vi.fn<SessionBoard['setKeys']>()
+const mockSessionSetKeys = vi.fn()
+const mockSessionSetMacroBuffer = vi.fn()
+const mockOpenSession = vi.fn()
+const mockRefreshUnlockStatus = vi.fn()
+const mockSessionCall = vi.fn()
+
+function renderPanel(sessionState: KeyboardState) {
+  const primary: SessionBoard = {
+    id: PRIMARY_BOARD_ID,
+    name: 'Primary',
+    state: keyboardState({ keymap: new Map([['0,0,0', KC_A]]) }),
+    setKeys: mockPrimarySetKeys,
+    setEncoders: vi.fn(),
+    setMacroBuffer: vi.fn(),
+    setDynamicEntry: vi.fn(),
+    unlockStart: vi.fn(),
+    unlockPoll: vi.fn(),
+    finishUnlock: vi.fn(),
+  }
+  const deviceSessions = {
+    sessions: [{ id: '/dev/hidraw1', device: secondDevice, state: sessionState, loading: false, error: null }],
+    openSession: mockOpenSession,
+    closeSession: vi.fn(),
+    reloadSession: vi.fn(),
+    refreshUnlockStatus: mockRefreshUnlockStatus,
+    setKeys: mockSessionSetKeys,
+    setEncoders: vi.fn(),
+    setMacroBuffer: mockSessionSetMacroBuffer,
+    setDynamicEntry: vi.fn(),
+  } as unknown as ReturnType<typeof useDeviceSessions>
+  return render(<SessionsPanel primary={primary} connectedDevice={primaryDevice} deviceSessions={deviceSessions} />)
+}
+
+beforeEach(() => {
+  mockPrimarySetKeys.mockReset().mockResolvedValue(undefined)
+  mockSessionSetKeys.mockReset().mockResolvedValue(undefined)
+  mockSessionSetMacroBuffer.mockReset().mockResolvedValue(undefined)
+  mockOpenSession.mockReset().mockResolvedValue('/dev/hidraw2')
+  mockRefreshUnlockStatus.mockReset().mockResolvedValue(undefined)
+  mockSessionCall.mockReset().mockImplementation(async (_id: string, method: string) =>
+    method === 'unlockPoll' ? [1, 0, 0] : undefined)
+  window.vialAPI = {
+    ...window.vialAPI,
+    listDevices: vi.fn().mockResolvedValue([primaryDevice, secondDevice, thirdDevice, bootloader]),
+    sessionCall: mockSessionCall,
+  } as unknown as typeof window.vialAPI
+})
+
+describe('SessionsPanel', () => {
+  it('offers only keyboards that are not already open', async () => {
+    renderPanel(keyboardState())
+    await waitFor(() => expect(screen.getByTestId('sessions-device-select').textContent).toBe('Third'))
+
+    fireEvent.click(screen.getByTestId('sessions-open'))
+    await waitFor(() => expect(mockOpenSession).toHaveBeenCalledWith(thirdDevice))
+  })
+
+  it('pastes a layer copied from the editor keyboard into a session', async () => {
+    renderPanel(keyboardState({ keymap: new Map([['0,0,0', 0]]) }))
+    fireEvent.click(screen.getByTestId('sessions-right-board-/dev/hidraw1'))
+
+    expect((screen.getByTestId('sessions-right-paste-0') as HTMLButtonElement).disabled).toBe(true)
+    fireEvent.click(screen.getByTestId('sessions-left-copy-0'))
+    expect(screen.getByTestId('sessions-clipboard').textContent).toBe('sessions.clipboard')
+
+    fireEvent.click(screen.getByTestId('sessions-right-paste-0'))
+    await waitFor(() => expect(screen.getByTestId('sessions-done').textContent).toBe('sessions.pasted'))
+    expect(mockSessionSetKeys).toHaveBeenCalledWith('/dev/hidraw1', [{ layer: 0, row: 0, col: 0, keycode: KC_A }])
+    expect(mockPrimarySetKeys).not.toHaveBeenCalled()
+  })
+
+  it('previews the chosen layer of a session board', () => {
+    renderPanel(keyboardState({
+      layers: 2,
+      layout: { keys: [KEY] },
+      keymap: new Map([['0,0,0', KC_A], ['1,0,0', KC_B]]),
+    }))
+    fireEvent.click(screen.getByTestId('sessions-right-board-/dev/hidraw1'))
+    expect(screen.getByTestId('sessions-right-keymap').textContent).toContain('A')
+
+    fireEvent.click(screen.getByTestId('sessions-right-show-1'))
+    expect(screen.getByTestId('sessions-right-keymap').textContent).toContain('B')
+    expect(screen.getByTestId('sessions-right-keymap').textContent).not.toContain('A')
+  })
+
+  it('only enables paste for the section that matches the clipboard', () => {
+    renderPanel(keyboardState())
+    fireEvent.click(screen.getByTestId('sessions-left-copy-0'))
+    fireEvent.change(screen.getByTestId('sessions-right-section'), { target: { value: 'macros' } })
+
+    expect((screen.getByTestId('sessions-right-paste-0') as HTMLButtonElement).disabled).toBe(true)
+  })
+
+  it('unlocks a locked session before pasting a macro into it', async () => {
+    renderPanel(keyboardState({ unlockStatus: { unlocked: false, inProgress: false, keys: [] } }))
+    fireEvent.change(screen.getByTestId('sessions-left-section'), { target: { value: 'macros' } })
+    fireEvent.change(screen.getByTestId('sessions-right-section'), { target: { value: 'macros' } })
+    fireEvent.click(screen.getByTestId('sessions-right-board-/dev/hidraw1'))
+
+    fireEvent.click(screen.getByTestId('sessions-left-copy-0'))
+    fireEvent.click(screen.getByTestId('sessions-right-paste-0'))
+
+    await waitFor(() => expect(screen.getByTestId('sessions-done').textContent).toBe('sessions.pasted'))
+    expect(mockSessionCall).toHaveBeenCalledWith('/dev/hidraw1', 'unlockStart')
+    expect(mockRefreshUnlockStatus).toHaveBeenCalledWith('/dev/hidraw1')
+    expect(mockSessionSetMacroBuffer).toHaveBeenCalledTimes(1)
+  })
+
+  it('drops the paste when the session cannot be unlocked', async () => {
+    mockSessionCall.mockRejectedValue(new Error('gone'))
+    renderPanel(keyboardState({ unlockStatus: { unlocked: false, inProgress: false, keys: [] } }))
+    fireEvent.change(screen.getByTestId('sessions-left-section'), { target: { value: 'macros' } })
+    fireEvent.change(screen.getByTestId('sessions-right-section'), { target: { value: 'macros' } })
+    fireEvent.click(screen.getByTestId('sessions-right-board-/dev/hidraw1'))
+
+    fireEvent.click(screen.getByTestId('sessions-left-copy-0'))
+    fireEvent.click(screen.getByTestId('sessions-right-paste-0'))
+
+    await waitFor(() => expect(screen.getByTestId('sessions-error').textContent).toBe('sessions.unlockFailed'))
+    expect(mockSessionSetMacroBuffer).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { SnapshotCompareModal } from '../SnapshotCompareModal'
+import type { VilFile } from '../../../../shared/types/protocol'
+import type { SnapshotMeta } from '../../../../shared/types/snapshot-store'
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}))
+
+function vil(overrides: Partial<VilFile> = {}): VilFile {
+  return {
+    uid: '0x1',
+    keymap: { '0,0,0': 0x04, '0,0,1': 0x05, '1,0,0': 0x06, '1,0,1': 0x07 },
+    encoderLayout: {},
+    macros: [0, 0],
+    layoutOptions: 0,
+    tapDance: [],
+    combo: [{ key1: 0x04, key2: 0x05, key3: 0, key4: 0, output: 0x29 }],
+    keyOverride: [],
+    altRepeatKey: [],
+    qmkSettings: {},
+    ...overrides,
+  }
+}
+
+const entries = [{ id: 'snap-1', label: 'Work', savedAt: '2026-01-01T00:00:00Z' }] as SnapshotMeta[]
+const live = vil()
+const snapshot = vil({
+  keymap: { '0,0,0': 0x04, '0,0,1': 0x05, '1,0,0': 0x06, '1,0,1': 0x08 },
+  combo: [{ key1: 0x04, key2: 0x05, key3: 0, key4: 0, output: 0x2a }],
+})
+
+const getLive = () => live
+
+function renderModal(onApply = vi.fn().mockResolvedValue(undefined), onClose = vi.fn()) {
+  render(
+    <SnapshotCompareModal
+      entries={entries}
+      initialTargetId="snap-1"
+      loadEntry={vi.fn().mockResolvedValue(snapshot)}
+      getLive={getLive}
+      rows={1} cols={2} macroCount={2} vialProtocol={6}
+      onApply={onApply} onClose={onClose}
+    />,
+  )
+  return { onApply, onClose }
+}
+
+describe('SnapshotCompareModal', () => {
+  it('compares the live board with the chosen snapshot', async () => {
+    renderModal()
+
+    expect(await screen.findAllByTestId('snapshot-compare-layer')).toHaveLength(1)
+    expect(screen.getAllByTestId('snapshot-compare-key-changed')).toHaveLength(1)
+    expect(screen.getByTestId('snapshot-compare-combo-0')).toBeInTheDocument()
+    expect(screen.getByTestId('snapshot-compare-apply')).toBeDisabled()
+  })
+
+  it('applies only the selected parts and closes', async () => {
+    const { onApply, onClose } = renderModal()
+
+    fireEvent.click(await screen.findByTestId('snapshot-compare-combo-0'))
+    fireEvent.click(screen.getByTestId('snapshot-compare-apply'))
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled())
+    const merged = onApply.mock.calls[0][0] as VilFile
+    expect(merged.keymap).toEqual(live.keymap)
+    expect(merged.combo).toEqual(snapshot.combo)
+  })
+
+  it('shows no differences when comparing the board with itself', async () => {
+    renderModal()
+
+    fireEvent.change(screen.getByTestId('snapshot-compare-target'), { target: { value: 'live' } })
+
+    expect(await screen.findByTestId('snapshot-compare-empty')).toBeInTheDocument()
+    expect(screen.getByTestId('snapshot-compare-apply')).toBeDisabled()
+  })
+})
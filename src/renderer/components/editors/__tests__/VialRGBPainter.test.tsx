@@ -0,0 +1,135 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react'
+import { VialRGBPainter } from '../VialRGBPainter'
+import type { KleKey } from '../../../../shared/kle/types'
+import type { HsvColor, LightingScene, VialRGBLedInfo } from '../../../../shared/types/protocol'
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key }),
+}))
+
+interface CapturedWidgetProps {
+  keyColors?: Map<string, string>
+  onKeyClick?: (key: KleKey, maskClicked: boolean) => void
+}
+const captured: CapturedWidgetProps[] = []
+
+vi.mock('../../keyboard', () => ({
+  KeyboardWidget: (props: CapturedWidgetProps) => {
+    captured.push(props)
+    return <div data-testid="keyboard-widget" />
+  },
+}))
+
+function makeKey(row: number, col: number): KleKey {
+  return {
+    x: col, y: row, width: 1, height: 1,
+    x2: 0, y2: 0, width2: 1, height2: 1,
+    rotation: 0, rotationX: 0, rotationY: 0,
+    color: '', labels: [], textColor: [], textSize: [],
+    row, col, encoderIdx: -1, encoderDir: -1,
+    layoutIndex: -1, layoutOption: -1,
+    decal: false, nub: false, stepped: false, ghost: false,
+  }
+}
+
+const keys = [makeKey(0, 0), makeKey(0, 1)]
+// One LED per key plus an underglow LED closest to the right-hand key
+const leds: VialRGBLedInfo[] = [
+  { x: 0, y: 0, flags: 4, row: 0, col: 0 },
+  { x: 224, y: 0, flags: 4, row: 0, col: 1 },
+  { x: 200, y: 0, flags: 2, row: null, col: null },
+]
+
+const mockGetLeds = vi.fn()
+const onSetMode = vi.fn()
+const onSetDirectColors = vi.fn()
+const onSaveScene = vi.fn()
+const onDeleteScene = vi.fn()
+
+function renderPainter(overrides: { mode?: number; directColors?: HsvColor[]; scenes?: LightingScene[] } = {}) {
+  return render(
+    <VialRGBPainter
+      keys={keys}
+      maxBrightness={200}
+      mode={overrides.mode ?? 1}
+      directColors={overrides.directColors ?? []}
+      scenes={overrides.scenes ?? []}
+      onSetMode={onSetMode}
+      onSetDirectColors={onSetDirectColors}
+      onSaveScene={onSaveScene}
+      onDeleteScene={onDeleteScene}
+    />,
+  )
+}
+
+function lastWidget(): CapturedWidgetProps {
+  return captured[captured.length - 1]
+}
+
+beforeEach(() => {
+  captured.length = 0
+  mockGetLeds.mockReset().mockResolvedValue(leds)
+  onSetMode.mockReset().mockResolvedValue(undefined)
+  onSetDirectColors.mockReset().mockResolvedValue(undefined)
+  onSaveScene.mockReset()
+  onDeleteScene.mockReset()
+  window.vialAPI = {
+    ...window.vialAPI,
+    getVialRGBLeds: mockGetLeds,
+  } as unknown as typeof window.vialAPI
+})
+
+describe('VialRGBPainter', () => {
+  it('paints every LED mapped to the clicked key with the brush', async () => {
+    renderPainter()
+    await screen.findByTestId('vialrgb-painter')
+
+    await act(async () => { lastWidget().onKeyClick?.(keys[1], false) })
+
+    expect(onSetMode).not.toHaveBeenCalled()
+    expect(onSetDirectColors).toHaveBeenCalledWith([[0, 0, 0], [0, 255, 200], [0, 255, 200]])
+  })
+
+  it('switches to Direct Control before painting', async () => {
+    renderPainter({ mode: 5 })
+    await screen.findByTestId('vialrgb-painter')
+
+    await act(async () => { lastWidget().onKeyClick?.(keys[0], false) })
+
+    expect(onSetMode).toHaveBeenCalledWith(1)
+    expect(onSetDirectColors).toHaveBeenCalledWith([[0, 255, 200], [0, 0, 0], [0, 0, 0]])
+  })
+
+  it('colors only lit keys on the widget', async () => {
+    renderPainter({ directColors: [[0, 0, 0], [0, 255, 255]] })
+    await screen.findByTestId('vialrgb-painter')
+
+    expect(lastWidget().keyColors).toEqual(new Map([['0,1', '#FF0000']]))
+  })
+
+  it('saves the current frame as a scene and applies saved scenes', async () => {
+    const scene: LightingScene = { name: 'Red', colors: [[0, 255, 100]] }
+    renderPainter({ directColors: [[10, 20, 30]], scenes: [scene] })
+    await screen.findByTestId('vialrgb-painter')
+
+    fireEvent.change(screen.getByTestId('vialrgb-scene-name'), { target: { value: ' Night ' } })
+    fireEvent.click(screen.getByTestId('vialrgb-scene-save'))
+    expect(onSaveScene).toHaveBeenCalledWith('Night', [[10, 20, 30], [0, 0, 0], [0, 0, 0]])
+
+    fireEvent.click(screen.getByTestId('vialrgb-scene-apply'))
+    await waitFor(() => expect(onSetDirectColors).toHaveBeenCalledWith([[0, 255, 100], [0, 0, 0], [0, 0, 0]]))
+
+    fireEvent.click(screen.getByTestId('vialrgb-scene-delete'))
+    expect(onDeleteScene).toHaveBeenCalledWith('Red')
+  })
+
+  it('reports a failed LED read', async () => {
+    mockGetLeds.mockRejectedValue(new Error('nope'))
+    renderPainter()
+    expect(await screen.findByTestId('vialrgb-painter-error')).toBeTruthy()
+  })
+})
@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import { collectFavoriteTags, filterFavoriteEntries, parseTagInput } from '../favorite-store-filter'
+import type { FavoriteListQuery } from '../favorite-store-filter'
+import type { SavedFavoriteMeta } from '../../../../shared/types/favorite-store'
+
+function entry(id: string, label: string, savedAt: string, extra: Partial<SavedFavoriteMeta> = {}): SavedFavoriteMeta {
+  return { id, label, filename: `${id}.json`, savedAt, ...extra }
+}
+
+const ENTRIES = [
+  entry('a', 'Vim arrows', '2026-01-01T00:00:00.000Z', { tags: ['nav'] }),
+  entry('b', 'Gaming', '2026-03-01T00:00:00.000Z', { tags: ['games', 'nav'], updatedAt: '2026-03-02T00:00:00.000Z' }),
+  entry('c', 'email sig', '2026-02-01T00:00:00.000Z', { updatedAt: '2026-04-01T00:00:00.000Z' }),
+]
+
+const ALL: FavoriteListQuery = { search: '', tag: null, sort: 'stored' }
+
+function ids(list: SavedFavoriteMeta[]): string[] {
+  return list.map((e) => e.id)
+}
+
+describe('collectFavoriteTags', () => {
+  it('returns every tag once, sorted', () => {
+    expect(collectFavoriteTags(ENTRIES)).toEqual(['games', 'nav'])
+  })
+})
+
+describe('parseTagInput', () => {
+  it('splits on commas and normalizes', () => {
+    expect(parseTagInput('Nav, games ,,nav')).toEqual(['nav', 'games'])
+  })
+})
+
+describe('filterFavoriteEntries', () => {
+  it('sorts by each order', () => {
+    expect(ids(filterFavoriteEntries(ENTRIES, ALL))).toEqual(['a', 'b', 'c'])
+    expect(ids(filterFavoriteEntries(ENTRIES, { ...ALL, sort: 'newest' }))).toEqual(['b', 'c', 'a'])
+    expect(ids(filterFavoriteEntries(ENTRIES, { ...ALL, sort: 'oldest' }))).toEqual(['a', 'c', 'b'])
+    expect(ids(filterFavoriteEntries(ENTRIES, { ...ALL, sort: 'updated' }))).toEqual(['c', 'b', 'a'])
+    expect(ids(filterFavoriteEntries(ENTRIES, { ...ALL, sort: 'label' }))).toEqual(['c', 'b', 'a'])
+  })
+
+  it('keeps entries carrying the tag', () => {
+    expect(ids(filterFavoriteEntries(ENTRIES, { ...ALL, tag: 'games' }))).toEqual(['b'])
+    expect(ids(filterFavoriteEntries(ENTRIES, { ...ALL, tag: 'nav' }))).toEqual(['a', 'b'])
+  })
+
+  it('matches every search term against label and tags', () => {
+    expect(ids(filterFavoriteEntries(ENTRIES, { ...ALL, search: 'NAV vim' }))).toEqual(['a'])
+  })
+
+  it('matches decoded content when it has been loaded', () => {
+    const contents = new Map([['c', 'text best regards']])
+    expect(ids(filterFavoriteEntries(ENTRIES, { ...ALL, search: 'regards' }, contents))).toEqual(['c'])
+    expect(filterFavoriteEntries(ENTRIES, { ...ALL, search: 'regards' })).toEqual([])
+  })
+})
@@ -0,0 +1,99 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import { diffMatrixState, hidReportsToMacro, matrixEventsToMacro } from '../macro-matrix-recording'
+import type { FirmwareSimEvent, FirmwareSimInput } from '../../../../shared/keymap/firmware-sim'
+import { buildModTapKeycode, deserialize, resolve } from '../../../../shared/keycodes/keycodes'
+
+const KC_A = deserialize('KC_A')
+const KC_F = deserialize('KC_F')
+const KC_1 = deserialize('KC_1')
+const KC_LSHIFT = 0xe1
+
+const AS_MEASURED = { quantizeMs: 0, maxDelayMs: 0 }
+
+// Layer 0: KC_A, LSFT_T(KC_F), MO(1); layer 1: KC_1, KC_TRNS, KC_TRNS
+function input(): FirmwareSimInput {
+  const keymap = new Map<string, number>()
+  ;[KC_A, buildModTapKeycode(0x02, KC_F), resolve('MO(1)')].forEach((code, col) => keymap.set(`0,0,${col}`, code))
+  ;[KC_1, 1, 1].forEach((code, col) => keymap.set(`1,0,${col}`, code))
+  return {
+    layers: 2,
+    keymap,
+    settings: { tappingTermMs: 200, permissiveHold: false, holdOnOtherKeyPress: false, chordalHold: false, comboTermMs: 50 },
+  }
+}
+
+// [col, pressed, time]
+function events(...steps: [number, boolean, number][]): FirmwareSimEvent[] {
+  return steps.map(([col, pressed, time]) => ({ time, row: 0, col, pressed }))
+}
+
+describe('diffMatrixState', () => {
+  it('reports releases and presses between two polls', () => {
+    expect(diffMatrixState(new Set(['0,1', '2,3']), new Set(['2,3', '1,0']), 40)).toEqual([
+      { time: 40, row: 0, col: 1, pressed: false },
+      { time: 40, row: 1, col: 0, pressed: true },
+    ])
+  })
+})
+
+describe('hidReportsToMacro', () => {
+  const reports = [
+    { time: 100, mods: 0x02, keys: [] },
+    { time: 100, mods: 0x02, keys: [KC_A] },
+    { time: 163, mods: 0x02, keys: [] },
+    { time: 1900, mods: 0, keys: [KC_1] },
+  ]
+
+  it('writes measured delays between reports and releases held keys at the end', () => {
+    expect(hidReportsToMacro(reports, AS_MEASURED)).toEqual([
+      { type: 'down', keycodes: [KC_LSHIFT, KC_A] },
+      { type: 'delay', delay: 63 },
+      { type: 'up', keycodes: [KC_A] },
+      { type: 'delay', delay: 1737 },
+      { type: 'up', keycodes: [KC_LSHIFT] },
+      { type: 'tap', keycodes: [KC_1] },
+    ])
+  })
+
+  it('quantizes and caps delays, turning instant press-release pairs into taps', () => {
+    expect(hidReportsToMacro(reports, { quantizeMs: 25, maxDelayMs: 500 })).toEqual([
+      { type: 'down', keycodes: [KC_LSHIFT, KC_A] },
+      { type: 'delay', delay: 75 },
+      { type: 'up', keycodes: [KC_A] },
+      { type: 'delay', delay: 500 },
+      { type: 'up', keycodes: [KC_LSHIFT] },
+      { type: 'tap', keycodes: [KC_1] },
+    ])
+  })
+})
+
+describe('matrixEventsToMacro', () => {
+  it('resolves presses through layers and tap-hold keys', () => {
+    const recorded = events(
+      [2, true, 0], [0, true, 30], [0, false, 80], [2, false, 120], // MO(1) + key → KC_1
+      [1, true, 300], [1, false, 350], // LSFT_T(KC_F) tapped → KC_F
+      [1, true, 600], [0, true, 850], [0, false, 900], [1, false, 950], // held → Shift + A
+    )
+    expect(matrixEventsToMacro(input(), recorded, { quantizeMs: 10, maxDelayMs: 0 })).toEqual([
+      { type: 'down', keycodes: [KC_1] },
+      { type: 'delay', delay: 50 },
+      { type: 'up', keycodes: [KC_1] },
+      { type: 'delay', delay: 270 },
+      { type: 'tap', keycodes: [KC_F] },
+      { type: 'delay', delay: 450 },
+      { type: 'down', keycodes: [KC_LSHIFT] },
+      { type: 'delay', delay: 50 },
+      { type: 'down', keycodes: [KC_A] },
+      { type: 'delay', delay: 50 },
+      { type: 'up', keycodes: [KC_A] },
+      { type: 'delay', delay: 50 },
+      { type: 'up', keycodes: [KC_LSHIFT] },
+    ])
+  })
+
+  it('returns nothing when no key was pressed', () => {
+    expect(matrixEventsToMacro(input(), [], AS_MEASURED)).toEqual([])
+  })
+})
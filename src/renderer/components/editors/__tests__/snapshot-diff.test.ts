@@ -0,0 +1,135 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import type { VilFile, ComboEntry } from '../../../../shared/types/protocol'
+import {
+  diffSnapshots,
+  diffLines,
+  emptySnapshotSelection,
+  fullSnapshotSelection,
+  mergeSnapshotSelection,
+} from '../snapshot-diff'
+
+const OPTIONS = { macroCount: 3, vialProtocol: 6 }
+
+const combo = (output: number): ComboEntry => ({ key1: 0x04, key2: 0x05, key3: 0, key4: 0, output })
+
+function vil(overrides: Partial<VilFile> = {}): VilFile {
+  return {
+    uid: '0x1',
+    keymap: { '0,0,0': 0x04, '0,0,1': 0x05, '1,0,0': 0x06, '1,0,1': 0x07 },
+    encoderLayout: { '0,0,0': 0x80, '0,0,1': 0x81 },
+    // "ab", "c", "" — text macros
+    macros: [97, 98, 0, 99, 0, 0, 0, 0, 0, 0],
+    layoutOptions: 0,
+    tapDance: [],
+    combo: [combo(0x29), combo(0x2a)],
+    keyOverride: [],
+    altRepeatKey: [],
+    qmkSettings: { '7': [200, 0], '21': [0, 0, 0, 0] },
+    layerNames: ['', ''],
+    ...overrides,
+  }
+}
+
+describe('diffSnapshots', () => {
+  it('finds nothing between identical states', () => {
+    const diff = diffSnapshots(vil(), vil(), OPTIONS)
+    expect(diff.layers).toEqual([])
+    expect(diff.layoutOptions).toBeNull()
+    expect(diff.macros).toEqual([])
+    expect(diff.entries.combo).toEqual([])
+    expect(diff.qmkSettings).toEqual([])
+  })
+
+  it('reports every section field by field', () => {
+    const target = vil({
+      keymap: { ...vil().keymap, '1,0,1': 0x08 },
+      encoderLayout: { '0,0,0': 0x80, '0,0,1': 0x82 },
+      macros: [97, 120, 0, 99, 0, 0, 0, 0, 0, 0],
+      layoutOptions: 2,
+      combo: [combo(0x29), combo(0x2b)],
+      qmkSettings: { '7': [150, 0], '21': [0b10, 0, 0, 0] },
+      layerNames: ['', 'Nav'],
+    })
+    const diff = diffSnapshots(vil(), target, OPTIONS)
+
+    expect(diff.layers).toEqual([
+      { layer: 0, keys: [], encoders: [{ idx: 0, dir: 1, from: 0x81, to: 0x82 }], name: null },
+      { layer: 1, keys: [{ row: 0, col: 1, from: 0x07, to: 0x08 }], encoders: [], name: { from: '', to: 'Nav' } },
+    ])
+    expect(diff.layoutOptions).toEqual({ from: 0, to: 2 })
+    expect(diff.macros).toEqual([
+      { index: 0, lines: [{ op: 'removed', text: 'text "ab"' }, { op: 'added', text: 'text "ax"' }] },
+    ])
+    expect(diff.entries.combo).toEqual([{ index: 1, fields: [{ field: 'output', from: 0x2a, to: 0x2b }] }])
+    // Settings come in settings-tab order.
+    expect(diff.qmkSettings.map((q) => q.qsid)).toEqual([21, 7])
+    expect(diff.qmkSettings[0].fields).toEqual([
+      expect.objectContaining({ title: 'Treat Caps Lock as Control', current: 0, profile: 1 }),
+    ])
+  })
+})
+
+describe('diffLines', () => {
+  it('keeps common lines and marks the rest', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'c', 'd'])).toEqual([
+      { op: 'same', text: 'a' },
+      { op: 'removed', text: 'b' },
+      { op: 'same', text: 'c' },
+      { op: 'added', text: 'd' },
+    ])
+  })
+})
+
+describe('mergeSnapshotSelection', () => {
+  const source = vil({
+    keymap: { '0,0,0': 0x14, '0,0,1': 0x15, '1,0,0': 0x16, '1,0,1': 0x17, '5,0,0': 0x18 },
+    encoderLayout: { '0,0,0': 0x90, '0,0,1': 0x91 },
+    macros: [100, 0, 101, 102, 103, 0, 104, 0, 0, 0],
+    layoutOptions: 3,
+    combo: [combo(0x30), combo(0x31)],
+    qmkSettings: { '7': [100, 0], '21': [1, 0, 0, 0] },
+    layerNames: ['Base', 'Nav'],
+  })
+
+  it('leaves the live state alone for an empty selection', () => {
+    const live = vil()
+    expect(mergeSnapshotSelection(live, source, emptySnapshotSelection(), OPTIONS.macroCount)).toEqual(live)
+  })
+
+  it('takes only the selected layers, entries, macros and settings', () => {
+    const selection = {
+      ...emptySnapshotSelection(),
+      layers: [1, 5],
+      macros: [1],
+      entries: { ...emptySnapshotSelection().entries, combo: [0] },
+      qmkSettings: [21],
+    }
+    const merged = mergeSnapshotSelection(vil(), source, selection, OPTIONS.macroCount)
+
+    expect(merged.keymap).toEqual({ '0,0,0': 0x04, '0,0,1': 0x05, '1,0,0': 0x16, '1,0,1': 0x17 })
+    expect(merged.encoderLayout).toEqual(vil().encoderLayout)
+    expect(merged.layerNames).toEqual(['', 'Nav'])
+    expect(merged.layoutOptions).toBe(0)
+    expect(merged.macros).toEqual([97, 98, 0, 101, 102, 103, 0, 0, 0, 0])
+    expect(merged.combo).toEqual([combo(0x30), combo(0x2a)])
+    expect(merged.qmkSettings).toEqual({ '7': [200, 0], '21': [1, 0, 0, 0] })
+  })
+
+  it('throws when the selected macros do not fit the live buffer', () => {
+    const big = vil({ macros: [97, 98, 99, 100, 101, 102, 103, 104, 105, 0] })
+    const selection = { ...emptySnapshotSelection(), macros: [0] }
+    expect(() => mergeSnapshotSelection(vil(), big, selection, OPTIONS.macroCount)).toThrow('Macros do not fit')
+  })
+
+  it('applies everything the diff found', () => {
+    const diff = diffSnapshots(vil(), source, OPTIONS)
+    const merged = mergeSnapshotSelection(vil(), source, fullSnapshotSelection(diff), OPTIONS.macroCount)
+    expect(diffSnapshots(merged, source, OPTIONS).layers).toEqual([
+      // Layer 5 does not exist on the live board, so it stays a difference.
+      { layer: 5, keys: [{ row: 0, col: 0, from: undefined, to: 0x18 }], encoders: [], name: null },
+    ])
+    expect(merged.layoutOptions).toBe(3)
+  })
+})
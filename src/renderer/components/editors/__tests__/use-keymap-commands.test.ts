@@ -0,0 +1,100 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useKeymapHistory } from '../useKeymapHistory'
+import { useKeymapCommands } from '../use-keymap-commands'
+import type { UseKeymapCommandsOptions } from '../use-keymap-commands'
+import { useKeymapHistoryActions } from '../use-keymap-history-actions'
+import type { ComboEntry } from '../../../../shared/types/protocol'
+
+const combo: ComboEntry = { key1: 0x04, key2: 0x05, key3: 0, key4: 0, output: 0x29 }
+
+function setup(overrides: Partial<UseKeymapCommandsOptions> = {}) {
+  const onSetComboEntry = vi.fn().mockResolvedValue(undefined)
+  const onSaveMacros = vi.fn().mockResolvedValue(undefined)
+  const onSetLayoutOptions = vi.fn().mockResolvedValue(undefined)
+  const qmkSettingsSet = vi.fn().mockResolvedValue(undefined)
+  const onSettingsUpdate = vi.fn()
+  const onSetKey = vi.fn().mockResolvedValue(undefined)
+  const hook = renderHook(() => {
+    const history = useKeymapHistory(100)
+    const commands = useKeymapCommands({
+      history,
+      comboEntries: [combo],
+      macroBuffer: [1, 0, 0],
+      packedLayoutOptions: 0,
+      qmkSettingsValues: { '7': [200, 0] },
+      onSetComboEntry, onSaveMacros, onSetLayoutOptions, qmkSettingsSet, onSettingsUpdate,
+      ...overrides,
+    })
+    const actions = useKeymapHistoryActions({
+      history, popoverState: null, currentLayer: 0,
+      onSetKey, onSetKeysBulk: vi.fn(), onSetEncoder: vi.fn(),
+      onApplyCommand: commands.applyCommand,
+      getPopoverEpoch: () => 0, closePopoverIfEpochMatches: vi.fn(),
+    })
+    return { history, commands, actions }
+  })
+  return { hook, onSetComboEntry, onSaveMacros, onSetLayoutOptions, qmkSettingsSet, onSettingsUpdate }
+}
+
+describe('useKeymapCommands', () => {
+  it('records each write with the value it replaced, skipping writes that change nothing', async () => {
+    const { hook, onSetComboEntry, qmkSettingsSet } = setup()
+    const edited = { ...combo, output: 0x2b }
+
+    await act(async () => {
+      await hook.result.current.commands.onSetComboEntry!(0, { ...combo })
+      await hook.result.current.commands.onSetComboEntry!(0, edited)
+      await hook.result.current.commands.qmkSettingsSet!(7, [150, 0])
+      await hook.result.current.commands.onSetLayoutOptions!(3)
+      await hook.result.current.commands.onSaveMacros!([2, 0, 0])
+    })
+
+    expect(onSetComboEntry).toHaveBeenCalledTimes(2)
+    expect(qmkSettingsSet).toHaveBeenCalledWith(7, [150, 0])
+    expect(hook.result.current.history.undoEntries).toEqual([
+      { kind: 'combo', index: 0, oldEntry: combo, newEntry: edited },
+      { kind: 'qmkSetting', qsid: 7, oldData: [200, 0], newData: [150, 0] },
+      { kind: 'layoutOptions', oldValue: 0, newValue: 3 },
+      { kind: 'macros', oldBuffer: [1, 0, 0], newBuffer: [2, 0, 0], oldParsed: undefined, newParsed: undefined },
+    ])
+  })
+
+  it('does not record a write that failed', async () => {
+    const onSetComboEntry = vi.fn().mockRejectedValue(new Error('write failed'))
+    const { hook } = setup({ onSetComboEntry })
+
+    await act(async () => {
+      await expect(hook.result.current.commands.onSetComboEntry!(0, { ...combo, output: 0 })).rejects.toThrow('write failed')
+    })
+
+    expect(hook.result.current.history.canUndo).toBe(false)
+  })
+
+  it('undoes and redoes commands, several entries at a time', async () => {
+    const { hook, onSetLayoutOptions, qmkSettingsSet, onSettingsUpdate } = setup()
+
+    await act(async () => {
+      await hook.result.current.commands.qmkSettingsSet!(7, [150, 0])
+      await hook.result.current.commands.onSetLayoutOptions!(3)
+    })
+    onSetLayoutOptions.mockClear()
+    qmkSettingsSet.mockClear()
+
+    await act(async () => { await hook.result.current.actions.handleHistoryJump(-2) })
+
+    expect(onSetLayoutOptions).toHaveBeenCalledWith(0)
+    expect(qmkSettingsSet).toHaveBeenCalledWith(7, [200, 0])
+    expect(onSettingsUpdate).toHaveBeenCalledWith(7, [200, 0])
+    expect(hook.result.current.history.undoEntries).toHaveLength(0)
+    expect(hook.result.current.history.redoEntries).toHaveLength(2)
+
+    await act(async () => { await hook.result.current.actions.handleRedo() })
+
+    expect(qmkSettingsSet).toHaveBeenLastCalledWith(7, [150, 0])
+    expect(hook.result.current.history.undoEntries).toHaveLength(1)
+  })
+})
@@ -0,0 +1,102 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useKeymapHistory } from '../useKeymapHistory'
+import { useKeymapFindReplace } from '../use-keymap-find-replace'
+import type { UseKeymapFindReplaceOptions } from '../use-keymap-find-replace'
+import { useKeymapCommands } from '../use-keymap-commands'
+import { useKeymapHistoryActions } from '../use-keymap-history-actions'
+import { serializeAllMacros } from '../../../../preload/macro'
+import type { MacroAction } from '../../../../preload/macro'
+import type { ComboEntry } from '../../../../shared/types/protocol'
+
+const KC_A = 0x04
+const KC_B = 0x05
+const KC_C = 0x06
+
+const combo: ComboEntry = { key1: KC_A, key2: KC_C, key3: 0, key4: 0, output: KC_B }
+const macros: MacroAction[][] = [[{ type: 'tap', keycodes: [KC_A] }], []]
+const macroBuffer = [...serializeAllMacros(macros, 6), 0, 0, 0]
+
+function setup(overrides: Partial<UseKeymapFindReplaceOptions> = {}) {
+  const onSetKeysBulk = vi.fn().mockResolvedValue(undefined)
+  const onSetEncoder = vi.fn().mockResolvedValue(undefined)
+  const onSetComboEntry = vi.fn().mockResolvedValue(undefined)
+  const onSaveMacros = vi.fn().mockResolvedValue(undefined)
+  const triggerFlash = vi.fn()
+  const input = {
+    layers: 1,
+    keymap: new Map([['0,0,0', KC_A], ['0,0,1', KC_C]]),
+    encoderLayout: new Map([['0,0,0', KC_A], ['0,0,1', 0]]),
+    keys: [{ row: 0, col: 0 }, { row: 0, col: 1 }],
+    encoderCount: 1,
+    comboEntries: [combo],
+    macros,
+  }
+  const hook = renderHook(() => {
+    const history = useKeymapHistory(100)
+    const commands = useKeymapCommands({ history, comboEntries: [combo], macroBuffer, onSetComboEntry, onSaveMacros })
+    const findReplace = useKeymapFindReplace({
+      input, macroBuffer, macroBufferSize: macroBuffer.length, vialProtocol: 6,
+      onSetKeysBulk, onSetEncoder, applyCommand: commands.applyCommand, canSaveMacros: true,
+      history, triggerFlash,
+      ...overrides,
+    })
+    const actions = useKeymapHistoryActions({
+      history, popoverState: null, currentLayer: 0,
+      onSetKey: vi.fn(), onSetKeysBulk, onSetEncoder,
+      onApplyCommand: commands.applyCommand,
+      getPopoverEpoch: () => 0, closePopoverIfEpochMatches: vi.fn(),
+    })
+    return { history, findReplace, actions }
+  })
+  return { hook, onSetKeysBulk, onSetEncoder, onSetComboEntry, onSaveMacros, triggerFlash }
+}
+
+describe('useKeymapFindReplace', () => {
+  it('replaces a keycode everywhere as one undo batch', async () => {
+    const { hook, onSetKeysBulk, onSetEncoder, onSetComboEntry, onSaveMacros, triggerFlash } = setup()
+
+    await act(async () => { await hook.result.current.findReplace.replaceKeycode(KC_A, KC_B) })
+
+    expect(onSetKeysBulk).toHaveBeenCalledWith([{ layer: 0, row: 0, col: 0, keycode: KC_B }])
+    expect(onSetEncoder).toHaveBeenCalledWith(0, 0, 0, KC_B)
+    expect(onSetComboEntry).toHaveBeenCalledWith(0, { ...combo, key1: KC_B })
+    const [newBuffer, newParsed] = onSaveMacros.mock.calls[0]
+    expect(newParsed).toEqual([[{ type: 'tap', keycodes: [KC_B] }], []])
+    expect(newBuffer).toHaveLength(macroBuffer.length)
+    expect(triggerFlash).toHaveBeenCalledTimes(1)
+    expect(hook.result.current.history.undoEntries).toHaveLength(1)
+    expect(hook.result.current.history.undoEntries[0]).toMatchObject({ kind: 'batch' })
+  })
+
+  it('undoes the whole replace at once', async () => {
+    const { hook, onSetKeysBulk, onSetComboEntry, onSaveMacros } = setup()
+
+    await act(async () => { await hook.result.current.findReplace.replaceKeycode(KC_A, KC_B) })
+    onSetKeysBulk.mockClear()
+    onSetComboEntry.mockClear()
+    onSaveMacros.mockClear()
+
+    await act(async () => { await hook.result.current.actions.handleUndo() })
+
+    expect(onSetKeysBulk).toHaveBeenCalledWith([expect.objectContaining({ layer: 0, row: 0, col: 0, keycode: KC_A })])
+    expect(onSetComboEntry).toHaveBeenCalledWith(0, combo)
+    expect(onSaveMacros).toHaveBeenCalledWith(macroBuffer, macros)
+    expect(hook.result.current.history.canUndo).toBe(false)
+  })
+
+  it('writes nothing when the new macros do not fit', async () => {
+    const { hook, onSetKeysBulk, onSaveMacros } = setup({ macroBufferSize: 2 })
+
+    await act(async () => {
+      await expect(hook.result.current.findReplace.replaceKeycode(KC_A, KC_B)).rejects.toThrow('Macros do not fit in the macro buffer')
+    })
+
+    expect(onSetKeysBulk).not.toHaveBeenCalled()
+    expect(onSaveMacros).not.toHaveBeenCalled()
+    expect(hook.result.current.history.canUndo).toBe(false)
+  })
+})
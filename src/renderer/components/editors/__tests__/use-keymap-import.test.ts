@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useKeymapHistory } from '../useKeymapHistory'
+import { useKeymapImport } from '../use-keymap-import'
+import type { KeymapImportPlan } from '../../../../shared/keymap-import'
+
+const KC_A = 0x04
+const KC_B = 0x05
+const KC_C = 0x06
+
+const plan: KeymapImportPlan = {
+  keymap: new Map([['0,0,0', KC_B], ['0,0,1', KC_C]]),
+  keys: [{ layer: 0, row: 0, col: 0, oldKeycode: KC_A, newKeycode: KC_B }],
+  encoders: [{ layer: 0, idx: 0, dir: 1, oldKeycode: 0, newKeycode: KC_C }],
+  unresolved: [],
+  countMismatches: [],
+  droppedLayers: 0,
+}
+
+function setup(onSetEncoder = vi.fn().mockResolvedValue(undefined)) {
+  const onSetKeysBulk = vi.fn().mockResolvedValue(undefined)
+  const triggerFlash = vi.fn()
+  const hook = renderHook(() => {
+    const history = useKeymapHistory(100)
+    const keymapImport = useKeymapImport({ onSetKeysBulk, onSetEncoder, applyCommand: vi.fn(), history, triggerFlash })
+    return { history, keymapImport }
+  })
+  return { hook, onSetKeysBulk, onSetEncoder, triggerFlash }
+}
+
+describe('useKeymapImport', () => {
+  it('writes the changed positions as one undo batch', async () => {
+    const { hook, onSetKeysBulk, onSetEncoder, triggerFlash } = setup()
+
+    await act(async () => { await hook.result.current.keymapImport.applyKeymapImport(plan) })
+
+    expect(onSetKeysBulk).toHaveBeenCalledWith([{ layer: 0, row: 0, col: 0, keycode: KC_B }])
+    expect(onSetEncoder).toHaveBeenCalledWith(0, 0, 1, KC_C)
+    expect(triggerFlash).toHaveBeenCalledTimes(1)
+    expect(hook.result.current.history.undoEntries).toHaveLength(1)
+    expect(hook.result.current.history.undoEntries[0]).toMatchObject({ kind: 'batch' })
+  })
+
+  it('records only the writes that landed when one fails', async () => {
+    const { hook } = setup(vi.fn().mockRejectedValue(new Error('write failed')))
+
+    await act(async () => {
+      await expect(hook.result.current.keymapImport.applyKeymapImport(plan)).rejects.toThrow('write failed')
+    })
+
+    expect(hook.result.current.history.undoEntries[0]).toMatchObject({
+      kind: 'batch',
+      entries: [{ kind: 'key', layer: 0, row: 0, col: 0, oldKeycode: KC_A, newKeycode: KC_B }],
+    })
+  })
+})
@@ -0,0 +1,114 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { resolve } from '../../../../shared/keycodes/keycodes'
+import { useKeymapHistory } from '../useKeymapHistory'
+import type { HistoryEntry } from '../useKeymapHistory'
+import { useKeymapLayerOps } from '../use-keymap-layer-ops'
+import { useKeymapCommands } from '../use-keymap-commands'
+import type { TapDanceEntry } from '../../../../shared/types/protocol'
+
+type BatchHistoryEntry = Extract<HistoryEntry, { kind: 'batch' }>
+
+const KC_A = 0x04
+const KC_B = 0x05
+
+function setup(onSetTapDanceEntry = vi.fn().mockResolvedValue(undefined)) {
+  const onSetKeysBulk = vi.fn().mockResolvedValue(undefined)
+  const onSetEncoder = vi.fn().mockResolvedValue(undefined)
+  const onSetLayerName = vi.fn()
+  const triggerFlash = vi.fn()
+  const tapDance: TapDanceEntry = { onTap: resolve('MO(1)'), onHold: 0, onDoubleTap: 0, onTapHold: 0, tappingTerm: 200 }
+  const hook = renderHook(() => {
+    const history = useKeymapHistory(100)
+    const commands = useKeymapCommands({ history, tapDanceEntries: [tapDance], onSetTapDanceEntry, onSetLayerName })
+    const ops = useKeymapLayerOps({
+      layers: 2,
+      keymap: new Map([['0,0,0', KC_A], ['0,0,1', resolve('MO(1)')], ['1,0,0', KC_B], ['1,0,1', KC_B]]),
+      encoderLayout: new Map(),
+      tapDanceEntries: [tapDance],
+      layerNames: ['Base', 'Fn'],
+      onSetKeysBulk,
+      onSetEncoder,
+      applyCommand: commands.applyCommand,
+      history,
+      triggerFlash,
+    })
+    return { history, commands, ops }
+  })
+  return { hook, onSetKeysBulk, onSetEncoder, onSetTapDanceEntry, onSetLayerName, triggerFlash, tapDance }
+}
+
+describe('useKeymapLayerOps', () => {
+  it('swaps layers in one bulk write and one undo batch, rewriting references', async () => {
+    const { hook, onSetKeysBulk, onSetTapDanceEntry, onSetLayerName, triggerFlash } = setup()
+
+    await act(async () => { await hook.result.current.ops.swapLayers(0, 1) })
+
+    expect(onSetKeysBulk).toHaveBeenCalledTimes(1)
+    expect(onSetKeysBulk.mock.calls[0][0]).toEqual(expect.arrayContaining([
+      { layer: 0, row: 0, col: 0, keycode: KC_B },
+      { layer: 1, row: 0, col: 1, keycode: resolve('MO(0)') },
+    ]))
+    expect(onSetTapDanceEntry).toHaveBeenCalledWith(0, expect.objectContaining({ onTap: resolve('MO(0)') }))
+    expect(onSetLayerName).toHaveBeenCalledWith(0, 'Fn')
+    expect(onSetLayerName).toHaveBeenCalledWith(1, 'Base')
+    expect(triggerFlash).toHaveBeenCalledTimes(1)
+
+    const entry = hook.result.current.history.peekUndo as BatchHistoryEntry
+    expect(entry.kind).toBe('batch')
+    expect(entry.entries).toHaveLength(4)
+    expect(entry.sideChanges?.map((c) => c.kind)).toEqual(['tapDance', 'layerName', 'layerName'])
+  })
+
+  it('clears a non-base layer to KC_TRNS without touching references', async () => {
+    const { hook, onSetKeysBulk, onSetTapDanceEntry } = setup()
+
+    await act(async () => { await hook.result.current.ops.clearLayer(1) })
+
+    expect(onSetKeysBulk).toHaveBeenCalledWith([
+      { layer: 1, row: 0, col: 0, keycode: resolve('KC_TRNS') },
+      { layer: 1, row: 0, col: 1, keycode: resolve('KC_TRNS') },
+    ])
+    expect(onSetTapDanceEntry).not.toHaveBeenCalled()
+    expect((hook.result.current.history.peekUndo as BatchHistoryEntry).sideChanges).toBeUndefined()
+  })
+
+  it('records only the writes that landed when one fails', async () => {
+    const onSetTapDanceEntry = vi.fn().mockRejectedValue(new Error('write failed'))
+    const { hook, onSetLayerName } = setup(onSetTapDanceEntry)
+
+    await act(async () => {
+      await expect(hook.result.current.ops.moveLayer(1, 0)).rejects.toThrow('write failed')
+    })
+
+    expect(onSetLayerName).not.toHaveBeenCalled()
+    const entry = hook.result.current.history.peekUndo as BatchHistoryEntry
+    expect(entry.entries).toHaveLength(4)
+    expect(entry.sideChanges).toBeUndefined()
+  })
+
+  it('writes the old entry when a side change is undone', async () => {
+    const { hook, onSetTapDanceEntry, onSetLayerName, tapDance } = setup()
+    const newEntry = { ...tapDance, onTap: resolve('MO(0)') }
+
+    await act(async () => {
+      await hook.result.current.commands.applyCommand({ kind: 'tapDance', index: 0, oldEntry: tapDance, newEntry }, true)
+      await hook.result.current.commands.applyCommand({ kind: 'layerName', layer: 1, oldName: 'Fn', newName: 'Base' }, true)
+    })
+
+    expect(onSetTapDanceEntry).toHaveBeenCalledWith(0, tapDance)
+    expect(onSetLayerName).toHaveBeenCalledWith(1, 'Fn')
+  })
+
+  it('does nothing when the operation changes no key', async () => {
+    const { hook, onSetKeysBulk } = setup()
+
+    await act(async () => { await hook.result.current.ops.copyLayer(0, 0) })
+
+    expect(onSetKeysBulk).not.toHaveBeenCalled()
+    expect(hook.result.current.history.canUndo).toBe(false)
+  })
+})
@@ -165,4 +165,19 @@ describe('useKeymapHistory', () => {
     act(() => result.current.push(entry))
     expect(result.current.peekUndo).toEqual(entry)
   })
+
+  it('supports command entries and lists both stacks oldest first', () => {
+    const { result } = renderHook(() => useKeymapHistory(100))
+    const command: HistoryEntry = { kind: 'qmkSetting', qsid: 7, oldData: [200, 0], newData: [180, 0] }
+    act(() => {
+      result.current.push(keyEntry(1, 2))
+      result.current.push(command)
+      result.current.push(keyEntry(3, 4))
+    })
+    act(() => { result.current.undo() })
+
+    expect(result.current.undoEntries).toEqual([keyEntry(1, 2), command])
+    expect(result.current.redoEntries).toEqual([keyEntry(3, 4)])
+    expect(result.current.peekUndo).toEqual(command)
+  })
 })
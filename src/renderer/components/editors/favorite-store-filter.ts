@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { normalizeFavTags } from '../../../shared/favorite-data'
+import type { SavedFavoriteMeta } from '../../../shared/types/favorite-store'
+
+/** 'stored' keeps the order of the favorite index. */
+export type FavoriteSortOrder = 'stored' | 'newest' | 'oldest' | 'updated' | 'label'
+
+export const FAVORITE_SORT_ORDERS: readonly FavoriteSortOrder[] = ['stored', 'newest', 'oldest', 'updated', 'label']
+
+export interface FavoriteListQuery {
+  search: string
+  /** Only entries carrying this tag; null for all. */
+  tag: string | null
+  sort: FavoriteSortOrder
+}
+
+/** Every tag used by the entries, sorted. */
+export function collectFavoriteTags(entries: readonly SavedFavoriteMeta[]): string[] {
+  const tags = new Set<string>()
+  for (const entry of entries) entry.tags?.forEach((tag) => tags.add(tag))
+  return [...tags].sort((a, b) => a.localeCompare(b))
+}
+
+/** Tags typed as a comma-separated list. */
+export function parseTagInput(text: string): string[] {
+  return normalizeFavTags(text.split(','))
+}
+
+function timeOf(iso: string | undefined): number {
+  const time = iso ? Date.parse(iso) : NaN
+  return Number.isNaN(time) ? 0 : time
+}
+
+const COMPARATORS: Record<FavoriteSortOrder, (a: SavedFavoriteMeta, b: SavedFavoriteMeta) => number> = {
+  stored: () => 0,
+  newest: (a, b) => timeOf(b.savedAt) - timeOf(a.savedAt),
+  oldest: (a, b) => timeOf(a.savedAt) - timeOf(b.savedAt),
+  updated: (a, b) => timeOf(b.updatedAt ?? b.savedAt) - timeOf(a.updatedAt ?? a.savedAt),
+  label: (a, b) => a.label.localeCompare(b.label, undefined, { sensitivity: 'base', numeric: true }),
+}
+
+/**
+ * Entries matching the query, sorted. Every whitespace-separated search
+ * term must appear in the label, a tag or the entry's decoded content
+ * (`contentTexts`, keyed by entry id, when it has been loaded).
+ */
+export function filterFavoriteEntries(
+  entries: readonly SavedFavoriteMeta[],
+  query: FavoriteListQuery,
+  contentTexts?: ReadonlyMap<string, string>,
+): SavedFavoriteMeta[] {
+  const terms = query.search.toLowerCase().split(/\s+/).filter(Boolean)
+  return entries
+    .filter((entry) => {
+      if (query.tag !== null && !entry.tags?.includes(query.tag)) return false
+      if (terms.length === 0) return true
+      const haystack = [entry.label.toLowerCase(), ...(entry.tags ?? []), contentTexts?.get(entry.id) ?? ''].join('\n')
+      return terms.every((term) => haystack.includes(term))
+    })
+    .sort(COMPARATORS[query.sort])
+}
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import type { FavoriteType } from '../../../shared/types/favorite-store'
+
+/** i18n key of each favorite type's display name. */
+export const TYPE_LABEL_KEYS: Record<FavoriteType, string> = {
+  tapDance: 'editor.tapDance.title',
+  macro: 'editor.macro.title',
+  combo: 'editor.combo.title',
+  keyOverride: 'editor.keyOverride.title',
+  altRepeatKey: 'editor.altRepeatKey.title',
+  layer: 'favoriteStore.types.layer',
+  encoder: 'favoriteStore.types.encoder',
+  qmkSettings: 'favoriteStore.types.qmkSettings',
+}
@@ -2,7 +2,7 @@
 
 import { useState, useCallback, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
-import { ZoomIn, ZoomOut, Undo2, Redo2 } from 'lucide-react'
+import { ZoomIn, ZoomOut, Undo2, Redo2, History, Search, Stethoscope, Network, Cpu, FileInput, Star, RotateCw } from 'lucide-react'
 import { MIN_SCALE, MAX_SCALE, PANEL_COLLAPSED_WIDTH } from './keymap-editor-types'
 import { TOOLBAR_BTN_ACTIVE, TOOLBAR_BTN_INACTIVE, ICON_MD, ICON_SM } from '../../constants/ui-tokens'
 import { Tooltip } from '../ui/Tooltip'
@@ -65,16 +65,35 @@ export interface KeymapToolbarProps {
   canRedo: boolean
   onUndo: () => Promise<void>
   onRedo: () => Promise<void>
+  /** Opens the edit history panel; the button is hidden when omitted. */
+  onOpenHistory?: () => void
+  /** Opens keycode find / replace; the button is hidden when omitted. */
+  onOpenFind?: () => void
+  /** Opens the keymap doctor report; the button is hidden when omitted. */
+  onOpenDoctor?: () => void
+  /** Opens the layer navigation graph; the button is hidden when omitted. */
+  onOpenLayerGraph?: () => void
+  /** Opens the firmware simulator; the button is hidden when omitted. */
+  onOpenSimulator?: () => void
+  /** Opens the QMK keymap.c / keymap.json import; the button is hidden when omitted. */
+  onOpenImport?: () => void
+  /** Opens the current layer's favorites; the button is hidden when omitted. */
+  onOpenLayerFavorites?: () => void
+  /** Opens the current layer's encoder favorites; the button is hidden when omitted. */
+  onOpenEncoderFavorites?: () => void
   scale: number
   onScaleChange?: (delta: number) => void
 }
 
-/** The editor's left side rail: undo/redo on top, zoom controls centered.
+/** The editor's left side rail: undo/redo, find / replace, the keymap
+ *  doctor, the layer graph, the firmware simulator, the QMK keymap
+ *  import and layer / encoder favorites on top, zoom controls centered.
  *  Undo/redo act on keymap edits, which View Matrix mode disables for its
  *  duration — hide them while the mode is active rather than leave dead
  *  disabled buttons in the toolbar. */
 export function KeymapToolbar({
-  typingTestMode, viewMatrixActive, canUndo, canRedo, onUndo, onRedo, scale, onScaleChange,
+  typingTestMode, viewMatrixActive, canUndo, canRedo, onUndo, onRedo, onOpenHistory, onOpenFind, onOpenDoctor, onOpenLayerGraph, onOpenSimulator, onOpenImport,
+  onOpenLayerFavorites, onOpenEncoderFavorites, scale, onScaleChange,
 }: KeymapToolbarProps) {
   const { t } = useTranslation()
   const zoomButtonClass = `${toggleButtonClass(false)} disabled:opacity-30 disabled:pointer-events-none`
@@ -113,6 +132,62 @@ export function KeymapToolbar({
               <Redo2 size={ICON_MD} aria-hidden="true" />
             </button>
           </Tooltip>
+          {onOpenHistory && (
+            <Tooltip content={t('editor.keymap.history.title')} side="right">
+              <button type="button" data-testid="keymap-history-button" aria-label={t('editor.keymap.history.title')} className={zoomButtonClass} onClick={onOpenHistory}>
+                <History size={ICON_MD} aria-hidden="true" />
+              </button>
+            </Tooltip>
+          )}
+          {onOpenFind && (
+            <Tooltip content={t('editor.keymap.find.title')} side="right">
+              <button type="button" data-testid="keymap-find-button" aria-label={t('editor.keymap.find.title')} className={zoomButtonClass} onClick={onOpenFind}>
+                <Search size={ICON_MD} aria-hidden="true" />
+              </button>
+            </Tooltip>
+          )}
+          {onOpenDoctor && (
+            <Tooltip content={t('editor.keymap.doctor.title')} side="right">
+              <button type="button" data-testid="keymap-doctor-button" aria-label={t('editor.keymap.doctor.title')} className={zoomButtonClass} onClick={onOpenDoctor}>
+                <Stethoscope size={ICON_MD} aria-hidden="true" />
+              </button>
+            </Tooltip>
+          )}
+          {onOpenLayerGraph && (
+            <Tooltip content={t('editor.keymap.layerGraph.title')} side="right">
+              <button type="button" data-testid="keymap-layer-graph-button" aria-label={t('editor.keymap.layerGraph.title')} className={zoomButtonClass} onClick={onOpenLayerGraph}>
+                <Network size={ICON_MD} aria-hidden="true" />
+              </button>
+            </Tooltip>
+          )}
+          {onOpenSimulator && (
+            <Tooltip content={t('editor.keymap.simulator.title')} side="right">
+              <button type="button" data-testid="keymap-simulator-button" aria-label={t('editor.keymap.simulator.title')} className={zoomButtonClass} onClick={onOpenSimulator}>
+                <Cpu size={ICON_MD} aria-hidden="true" />
+              </button>
+            </Tooltip>
+          )}
+          {onOpenImport && (
+            <Tooltip content={t('editor.keymap.import.title')} side="right">
+              <button type="button" data-testid="keymap-import-button" aria-label={t('editor.keymap.import.title')} className={zoomButtonClass} onClick={onOpenImport}>
+                <FileInput size={ICON_MD} aria-hidden="true" />
+              </button>
+            </Tooltip>
+          )}
+          {onOpenLayerFavorites && (
+            <Tooltip content={t('editor.keymap.layerFavorites')} side="right">
+              <button type="button" data-testid="keymap-layer-favorites-button" aria-label={t('editor.keymap.layerFavorites')} className={zoomButtonClass} onClick={onOpenLayerFavorites}>
+                <Star size={ICON_MD} aria-hidden="true" />
+              </button>
+            </Tooltip>
+          )}
+          {onOpenEncoderFavorites && (
+            <Tooltip content={t('editor.keymap.encoderFavorites')} side="right">
+              <button type="button" data-testid="keymap-encoder-favorites-button" aria-label={t('editor.keymap.encoderFavorites')} className={zoomButtonClass} onClick={onOpenEncoderFavorites}>
+                <RotateCw size={ICON_MD} aria-hidden="true" />
+              </button>
+            </Tooltip>
+          )}
         </>
       )}
       <div className="flex-1" />
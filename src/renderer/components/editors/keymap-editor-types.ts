@@ -4,6 +4,7 @@ import type { KeyboardLayout, KleKey } from '../../../shared/kle/types'
 import type { BasicViewType, SplitKeyMode } from '../../../shared/types/app-config'
 import type { BulkKeyEntry } from '../../hooks/useKeyboard'
 import type { MacroAction } from '../../../preload/macro'
+import type { HostLayoutMap } from '../../../preload/macro-unicode'
 import type { TapDanceEntry, ComboEntry, KeyOverrideEntry, AltRepeatKeyEntry, DeviceInfo } from '../../../shared/types/protocol'
 import type { FavoriteType } from '../../../shared/types/favorite-store'
 import type { KeyboardLayoutId } from '../../hooks/useKeyboardLayout'
@@ -69,6 +70,13 @@ export interface KeymapEditorHandle {
    *  the keymap, so KeymapEditor's own uid/keymap-size clear effect never
    *  fires on its own. */
   clearHistory: () => void
+  /** Recorded variants of the dynamic-entry setters (see
+   *  `useKeymapCommands`) for the panel modals the host renders outside
+   *  this editor, so their writes land on this same undo history. */
+  setTapDanceEntry?: (index: number, entry: TapDanceEntry) => Promise<void>
+  setComboEntry?: (index: number, entry: ComboEntry) => Promise<void>
+  setKeyOverrideEntry?: (index: number, entry: KeyOverrideEntry) => Promise<void>
+  setAltRepeatKeyEntry?: (index: number, entry: AltRepeatKeyEntry) => Promise<void>
 }
 
 export interface KeymapEditorProps {
@@ -119,6 +127,8 @@ export interface KeymapEditorProps {
   vialProtocol?: number
   parsedMacros?: MacroAction[][] | null
   onSaveMacros?: (buffer: number[], parsedMacros?: MacroAction[][]) => Promise<void>
+  /** Host layout unicode macro actions are typed through; US QWERTY when absent. */
+  hostLayout?: HostLayoutMap | null
   tapHoldSupported?: boolean
   mouseKeysSupported?: boolean
   magicSupported?: boolean
@@ -259,6 +269,9 @@ export interface KeymapEditorProps {
    * useTypingTest so masked-key tap/hold classification uses the same
    * timeout QMK itself enforces. */
   tappingTermMs?: number
+  /** The keyboard's cached QMK Settings values, read by the firmware
+   * simulator for its tap-hold and combo options. */
+  qmkSettingsValues?: Record<string, number[]>
   deviceName?: string
   isDummy?: boolean
   onExportLayoutPdfAll?: () => void
@@ -27,12 +27,15 @@ export interface LayoutStoreContentProps {
   defaultSaveLabel?: string
   onSave: (label: string) => void
   onLoad: (entryId: string) => void
+  /** Open the comparison view with this snapshot as the target. */
+  onCompare?: (entryId: string) => void
   onRename: (entryId: string, newLabel: string) => void
   onDelete: (entryId: string) => void
   onImportVil?: () => void
   onExportVil?: () => Promise<boolean>
   onExportKeymapC?: () => Promise<boolean>
   onExportPdf?: () => Promise<boolean>
+  onExportZmkKeymap?: () => Promise<boolean>
   onSideloadJson?: () => void
   onExportEntryVil?: (entryId: string) => void
   onExportEntryKeymapC?: (entryId: string) => void
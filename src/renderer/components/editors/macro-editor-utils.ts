@@ -1,6 +1,7 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 
 import { type MacroAction, deserializeAllMacros } from '../../../preload/macro'
+import type { UnicodeInputMethod } from '../../../preload/macro-unicode'
 
 export const KC_TRNS = 1
 export const KC_NO = 0
@@ -11,6 +12,14 @@ export function isKeycodeAction(action: MacroAction): action is KeycodeAction {
   return action.type === 'tap' || action.type === 'down' || action.type === 'up'
 }
 
+/** Input method of a macro's unicode actions, or null when it has none. */
+export function macroUnicodeMethod(actions: MacroAction[]): UnicodeInputMethod | null {
+  for (const action of actions) {
+    if (action.type === 'unicode') return action.method
+  }
+  return null
+}
+
 export function normalizeMacroActions(actions: MacroAction[]): MacroAction[] {
   return actions.filter((a) => !isKeycodeAction(a) || a.keycodes.length > 0)
 }
@@ -0,0 +1,107 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import type { MacroAction } from '../../../preload/macro'
+import { MACRO_SCRIPT_MAX_DELAY } from '../../../preload/macro-script'
+import { simulateFirmware } from '../../../shared/keymap/firmware-sim'
+import type { FirmwareSimEvent, FirmwareSimInput, HidReport } from '../../../shared/keymap/firmware-sim'
+
+const HID_MOD_FIRST = 0xe0
+
+/** What the recorder needs to read the board: its matrix and the config that resolves presses. */
+export interface MacroMatrixSource {
+  rows: number
+  cols: number
+  getMatrixState: () => Promise<number[]>
+  simulatorInput: FirmwareSimInput
+}
+
+export interface MatrixRecordingOptions {
+  /** Round delays to a multiple of this many ms; 0 keeps them as measured. */
+  quantizeMs: number
+  /** Longest delay kept; 0 means no cap. */
+  maxDelayMs: number
+}
+
+export const QUANTIZE_CHOICES_MS = [0, 5, 10, 25, 50] as const
+export const MAX_DELAY_CHOICES_MS = [0, 100, 250, 500, 1000, 2000] as const
+
+/** Press and release events between two polled matrix states ("row,col" keys). */
+export function diffMatrixState(prev: ReadonlySet<string>, next: ReadonlySet<string>, time: number): FirmwareSimEvent[] {
+  const events: FirmwareSimEvent[] = []
+  const push = (pos: string, pressed: boolean) => {
+    const [row, col] = pos.split(',').map(Number)
+    events.push({ time, row, col, pressed })
+  }
+  for (const pos of prev) if (!next.has(pos)) push(pos, false)
+  for (const pos of next) if (!prev.has(pos)) push(pos, true)
+  return events
+}
+
+function shapeDelay(ms: number, options: MatrixRecordingOptions): number {
+  let delay = Math.max(0, Math.round(ms))
+  if (options.quantizeMs > 0) delay = Math.round(delay / options.quantizeMs) * options.quantizeMs
+  if (options.maxDelayMs > 0) delay = Math.min(delay, options.maxDelayMs)
+  return Math.min(delay, MACRO_SCRIPT_MAX_DELAY)
+}
+
+function reportCodes(report: Pick<HidReport, 'mods' | 'keys'>): { mods: number[]; keys: number[] } {
+  const mods: number[] = []
+  for (let bit = 0; bit < 8; bit++) if (report.mods & (1 << bit)) mods.push(HID_MOD_FIRST + bit)
+  return { mods, keys: report.keys }
+}
+
+function pushKeys(actions: MacroAction[], type: 'down' | 'up', keycodes: number[]): void {
+  for (const kc of keycodes) {
+    const last = actions[actions.length - 1]
+    // A press released with nothing in between is a tap
+    if (type === 'up' && last?.type === 'down' && last.keycodes[last.keycodes.length - 1] === kc) {
+      last.keycodes.pop()
+      if (last.keycodes.length === 0) actions.pop()
+      const prev = actions[actions.length - 1]
+      if (prev?.type === 'tap') prev.keycodes.push(kc)
+      else actions.push({ type: 'tap', keycodes: [kc] })
+    } else if (last?.type === type) {
+      last.keycodes.push(kc)
+    } else {
+      actions.push({ type, keycodes: [kc] })
+    }
+  }
+}
+
+/**
+ * Turn the HID reports a board sent into macro actions: a down for each
+ * key or modifier that appears, an up for each that goes away, and the time
+ * between reports as delays. Keys still held at the end are released.
+ */
+export function hidReportsToMacro(reports: readonly HidReport[], options: MatrixRecordingOptions): MacroAction[] {
+  const actions: MacroAction[] = []
+  let prev = { mods: [] as number[], keys: [] as number[] }
+  let prevTime: number | null = null
+  for (const report of reports) {
+    const next = reportCodes(report)
+    if (prevTime !== null) {
+      const delay = shapeDelay(report.time - prevTime, options)
+      if (delay > 0) actions.push({ type: 'delay', delay })
+    }
+    // Keys go up before their modifiers and modifiers go down before their keys
+    pushKeys(actions, 'up', prev.keys.filter((kc) => !next.keys.includes(kc)))
+    pushKeys(actions, 'up', prev.mods.filter((kc) => !next.mods.includes(kc)))
+    pushKeys(actions, 'down', next.mods.filter((kc) => !prev.mods.includes(kc)))
+    pushKeys(actions, 'down', next.keys.filter((kc) => !prev.keys.includes(kc)))
+    prev = next
+    prevTime = report.time
+  }
+  pushKeys(actions, 'up', prev.keys)
+  pushKeys(actions, 'up', prev.mods)
+  return actions
+}
+
+/** Resolve recorded matrix events through the keymap, layers and tap-hold settings into macro actions. */
+export function matrixEventsToMacro(
+  input: FirmwareSimInput,
+  events: readonly FirmwareSimEvent[],
+  options: MatrixRecordingOptions,
+): MacroAction[] {
+  if (events.length === 0) return []
+  return hidReportsToMacro(simulateFirmware(input, events).reports, options)
+}
@@ -0,0 +1,339 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+//
+// Snapshot comparison: a field-by-field diff of two saved states (a
+// snapshot or the live board, both as a VilFile) and the merge that takes a
+// chosen subset of one onto the other. The merged file goes through the
+// usual `applyVilFile` path, which only writes what actually differs.
+
+import type {
+  VilFile,
+  TapDanceEntry,
+  ComboEntry,
+  KeyOverrideEntry,
+  AltRepeatKeyEntry,
+} from '../../../shared/types/protocol'
+import { splitMacroBuffer, deserializeMacro } from '../../../preload/macro'
+import type { MacroAction } from '../../../preload/macro'
+import { serialize } from '../../../shared/keycodes/keycodes'
+import { sameBytes } from '../../../shared/keymap/restore-diff'
+import { diffQmkSettings } from '../../../shared/qmk-settings-profile'
+import type { QmkSettingsDiffRow } from '../../../shared/qmk-settings-profile'
+
+export const SNAPSHOT_ENTRY_KINDS = ['tapDance', 'combo', 'keyOverride', 'altRepeatKey'] as const
+export type SnapshotEntryKind = typeof SNAPSHOT_ENTRY_KINDS[number]
+
+type SnapshotEntry = TapDanceEntry | ComboEntry | KeyOverrideEntry | AltRepeatKeyEntry
+
+export interface KeyCellChange {
+  row: number
+  col: number
+  from: number | undefined
+  to: number
+}
+
+export interface EncoderChange {
+  idx: number
+  dir: number
+  from: number | undefined
+  to: number
+}
+
+export interface LayerDiff {
+  layer: number
+  keys: KeyCellChange[]
+  encoders: EncoderChange[]
+  name: { from: string; to: string } | null
+}
+
+export interface EntryFieldChange {
+  field: string
+  from: number | boolean | undefined
+  to: number | boolean | undefined
+}
+
+export interface EntryDiff {
+  index: number
+  fields: EntryFieldChange[]
+}
+
+export interface MacroLine {
+  op: 'same' | 'removed' | 'added'
+  text: string
+}
+
+export interface MacroDiff {
+  index: number
+  lines: MacroLine[]
+}
+
+export interface QmkSettingDiff {
+  qsid: number
+  /** Settings fields stored under this qsid that differ (boolean bits split out). */
+  fields: QmkSettingsDiffRow[]
+}
+
+export interface SnapshotDiff {
+  layers: LayerDiff[]
+  layoutOptions: { from: number; to: number } | null
+  macros: MacroDiff[]
+  entries: Record<SnapshotEntryKind, EntryDiff[]>
+  qmkSettings: QmkSettingDiff[]
+}
+
+/** What to take from the target; indices / qsids refer to `SnapshotDiff`. */
+export interface SnapshotSelection {
+  /** Keys, encoders and the name of each layer. */
+  layers: number[]
+  layoutOptions: boolean
+  macros: number[]
+  entries: Record<SnapshotEntryKind, number[]>
+  qmkSettings: number[]
+}
+
+export interface SnapshotDiffOptions {
+  macroCount: number
+  vialProtocol: number
+}
+
+const VIL_ENTRY_FIELD: Record<SnapshotEntryKind, 'tapDance' | 'combo' | 'keyOverride' | 'altRepeatKey'> = {
+  tapDance: 'tapDance',
+  combo: 'combo',
+  keyOverride: 'keyOverride',
+  altRepeatKey: 'altRepeatKey',
+}
+
+export function emptySnapshotSelection(): SnapshotSelection {
+  return {
+    layers: [],
+    layoutOptions: false,
+    macros: [],
+    entries: { tapDance: [], combo: [], keyOverride: [], altRepeatKey: [] },
+    qmkSettings: [],
+  }
+}
+
+/** Everything the diff found, selected. */
+export function fullSnapshotSelection(diff: SnapshotDiff): SnapshotSelection {
+  return {
+    layers: diff.layers.map((l) => l.layer),
+    layoutOptions: diff.layoutOptions !== null,
+    macros: diff.macros.map((m) => m.index),
+    entries: {
+      tapDance: diff.entries.tapDance.map((e) => e.index),
+      combo: diff.entries.combo.map((e) => e.index),
+      keyOverride: diff.entries.keyOverride.map((e) => e.index),
+      altRepeatKey: diff.entries.altRepeatKey.map((e) => e.index),
+    },
+    qmkSettings: diff.qmkSettings.map((q) => q.qsid),
+  }
+}
+
+export function isEmptySnapshotSelection(selection: SnapshotSelection): boolean {
+  return selection.layers.length === 0 && !selection.layoutOptions && selection.macros.length === 0 &&
+    SNAPSHOT_ENTRY_KINDS.every((kind) => selection.entries[kind].length === 0) &&
+    selection.qmkSettings.length === 0
+}
+
+function codeMapLayers(...maps: Record<string, number>[]): number[] {
+  const layers = new Set<number>()
+  for (const map of maps) {
+    for (const key of Object.keys(map)) layers.add(Number(key.split(',')[0]))
+  }
+  return [...layers].sort((a, b) => a - b)
+}
+
+function diffLayers(base: VilFile, target: VilFile): LayerDiff[] {
+  const layers = new Set([
+    ...codeMapLayers(base.keymap, target.keymap, base.encoderLayout, target.encoderLayout),
+    ...(target.layerNames ?? []).map((_, i) => i),
+  ])
+  const result: LayerDiff[] = []
+  for (const layer of [...layers].sort((a, b) => a - b)) {
+    const keys: KeyCellChange[] = []
+    for (const [key, to] of Object.entries(target.keymap)) {
+      const [l, row, col] = key.split(',').map(Number)
+      if (l === layer && base.keymap[key] !== to) keys.push({ row, col, from: base.keymap[key], to })
+    }
+    keys.sort((a, b) => a.row - b.row || a.col - b.col)
+    const encoders: EncoderChange[] = []
+    for (const [key, to] of Object.entries(target.encoderLayout)) {
+      const [l, idx, dir] = key.split(',').map(Number)
+      if (l === layer && base.encoderLayout[key] !== to) encoders.push({ idx, dir, from: base.encoderLayout[key], to })
+    }
+    encoders.sort((a, b) => a.idx - b.idx || a.dir - b.dir)
+    const fromName = base.layerNames?.[layer] ?? ''
+    const toName = target.layerNames?.[layer] ?? ''
+    const name = target.layerNames && fromName !== toName ? { from: fromName, to: toName } : null
+    if (keys.length > 0 || encoders.length > 0 || name) result.push({ layer, keys, encoders, name })
+  }
+  return result
+}
+
+function diffEntryFields(from: SnapshotEntry | undefined, to: SnapshotEntry): EntryFieldChange[] {
+  const a = (from ?? {}) as Record<string, number | boolean | undefined>
+  const b = to as unknown as Record<string, number | boolean | undefined>
+  return Object.keys(b)
+    .filter((field) => a[field] !== b[field])
+    .map((field) => ({ field, from: a[field], to: b[field] }))
+}
+
+function diffEntryList(base: readonly SnapshotEntry[], target: readonly SnapshotEntry[]): EntryDiff[] {
+  const result: EntryDiff[] = []
+  target.forEach((entry, index) => {
+    const fields = diffEntryFields(base[index], entry)
+    if (fields.length > 0) result.push({ index, fields })
+  })
+  return result
+}
+
+function macroSegments(buffer: readonly number[], macroCount: number): number[][] {
+  const segments = splitMacroBuffer([...buffer], macroCount)
+  while (segments.length < macroCount) segments.push([])
+  return segments
+}
+
+/** One macro action as a single line of text, e.g. "tap KC_A KC_B". */
+export function macroActionText(action: MacroAction): string {
+  switch (action.type) {
+    case 'text': return `text ${JSON.stringify(action.text)}`
+    case 'delay': return `delay ${action.delay}`
+    case 'unicode': return `unicode ${JSON.stringify(action.text)} ${action.method}`
+    default: return `${action.type} ${action.keycodes.map((kc) => serialize(kc)).join(' ')}`
+  }
+}
+
+/** Line diff (longest common subsequence) of two action lists. */
+export function diffLines(from: readonly string[], to: readonly string[]): MacroLine[] {
+  const lcs: number[][] = Array.from({ length: from.length + 1 }, () => new Array<number>(to.length + 1).fill(0))
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lcs[i][j] = from[i] === to[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+  const lines: MacroLine[] = []
+  let i = 0
+  let j = 0
+  while (i < from.length || j < to.length) {
+    if (i < from.length && j < to.length && from[i] === to[j]) {
+      lines.push({ op: 'same', text: from[i] })
+      i++
+      j++
+    } else if (i < from.length && (j >= to.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ op: 'removed', text: from[i++] })
+    } else {
+      lines.push({ op: 'added', text: to[j++] })
+    }
+  }
+  return lines
+}
+
+function diffMacros(base: VilFile, target: VilFile, { macroCount, vialProtocol }: SnapshotDiffOptions): MacroDiff[] {
+  if (target.macros.length === 0) return []
+  const from = macroSegments(base.macros, macroCount)
+  const to = macroSegments(target.macros, macroCount)
+  const result: MacroDiff[] = []
+  for (let index = 0; index < macroCount; index++) {
+    if (sameBytes(from[index], to[index])) continue
+    const text = (bytes: number[]) => deserializeMacro(bytes, vialProtocol).map(macroActionText)
+    result.push({ index, lines: diffLines(text(from[index]), text(to[index])) })
+  }
+  return result
+}
+
+function diffQmkSettingValues(base: VilFile, target: VilFile): QmkSettingDiff[] {
+  const qsids = new Set(Object.keys(target.qmkSettings).map(Number))
+  const byQsid = new Map<number, QmkSettingsDiffRow[]>()
+  for (const row of diffQmkSettings(base.qmkSettings, target.qmkSettings, qsids)) {
+    if (row.profile === undefined || row.current === row.profile) continue
+    byQsid.set(row.qsid, [...(byQsid.get(row.qsid) ?? []), row])
+  }
+  return [...byQsid].map(([qsid, fields]) => ({ qsid, fields }))
+}
+
+/**
+ * Everything `target` would change when applied over `base`. Only what the
+ * target holds counts: a key, entry or setting missing from it is left
+ * alone by the merge, so it never shows up as a change either.
+ */
+export function diffSnapshots(base: VilFile, target: VilFile, options: SnapshotDiffOptions): SnapshotDiff {
+  return {
+    layers: diffLayers(base, target),
+    layoutOptions: base.layoutOptions !== target.layoutOptions
+      ? { from: base.layoutOptions, to: target.layoutOptions }
+      : null,
+    macros: diffMacros(base, target, options),
+    entries: {
+      tapDance: diffEntryList(base.tapDance, target.tapDance),
+      combo: diffEntryList(base.combo, target.combo),
+      keyOverride: diffEntryList(base.keyOverride, target.keyOverride),
+      altRepeatKey: diffEntryList(base.altRepeatKey, target.altRepeatKey),
+    },
+    qmkSettings: diffQmkSettingValues(base, target),
+  }
+}
+
+function mergeCodeMap(live: Record<string, number>, source: Record<string, number>, layers: ReadonlySet<number>): Record<string, number> {
+  const merged = { ...live }
+  for (const [key, code] of Object.entries(source)) {
+    if (key in live && layers.has(Number(key.split(',')[0]))) merged[key] = code
+  }
+  return merged
+}
+
+function mergeMacros(live: VilFile, source: VilFile, selected: readonly number[], macroCount: number): Pick<VilFile, 'macros' | 'macroJson'> {
+  if (selected.length === 0) return { macros: live.macros, macroJson: live.macroJson }
+  const segments = macroSegments(live.macros, macroCount)
+  const sourceSegments = macroSegments(source.macros, macroCount)
+  for (const i of selected) segments[i] = sourceSegments[i]
+  const buffer = segments.flatMap((s) => [...s, 0])
+  if (buffer.length > live.macros.length) throw new Error('Macros do not fit in the macro buffer')
+  while (buffer.length < live.macros.length) buffer.push(0)
+  let macroJson: unknown[][] | undefined
+  if (live.macroJson && source.macroJson) {
+    macroJson = [...live.macroJson]
+    for (const i of selected) macroJson[i] = source.macroJson[i] ?? []
+  }
+  return { macros: buffer, macroJson }
+}
+
+/**
+ * `live` with the selected parts of `source` taken over. Positions the live
+ * board does not have are skipped; throws when the selected macros no
+ * longer fit in the live macro buffer.
+ */
+export function mergeSnapshotSelection(
+  live: VilFile,
+  source: VilFile,
+  selection: SnapshotSelection,
+  macroCount: number,
+): VilFile {
+  const layers = new Set(selection.layers)
+  const merged: VilFile = {
+    ...live,
+    keymap: mergeCodeMap(live.keymap, source.keymap, layers),
+    encoderLayout: mergeCodeMap(live.encoderLayout, source.encoderLayout, layers),
+    layoutOptions: selection.layoutOptions ? source.layoutOptions : live.layoutOptions,
+    ...mergeMacros(live, source, selection.macros, macroCount),
+    qmkSettings: { ...live.qmkSettings },
+  }
+  if (source.layerNames && layers.size > 0) {
+    const names = [...(live.layerNames ?? [])]
+    for (const layer of layers) {
+      if (source.layerNames[layer] !== undefined) names[layer] = source.layerNames[layer]
+    }
+    merged.layerNames = Array.from(names, (name) => name ?? '')
+  }
+  for (const kind of SNAPSHOT_ENTRY_KINDS) {
+    const field = VIL_ENTRY_FIELD[kind]
+    const entries: SnapshotEntry[] = [...live[field]]
+    for (const i of selection.entries[kind]) {
+      if (i < entries.length && source[field][i]) entries[i] = source[field][i]
+    }
+    Object.assign(merged, { [field]: entries })
+  }
+  for (const qsid of selection.qmkSettings) {
+    const data = source.qmkSettings[String(qsid)]
+    if (data) merged.qmkSettings[String(qsid)] = data
+  }
+  return merged
+}
@@ -0,0 +1,84 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { useCallback, useRef } from 'react'
+import type { BulkKeyEntry } from '../../hooks/useKeyboard'
+import type { LayerOpPlan } from '../../../shared/keymap/layer-ops'
+import type { BatchSideChange, HistoryCommand, SingleHistoryEntry, UseKeymapHistoryReturn } from './useKeymapHistory'
+
+/** A multi-position edit: key and encoder changes, plus the writes outside
+ *  the keymap that belong to the same undo step. */
+export interface KeymapBatch {
+  keys: Omit<Extract<SingleHistoryEntry, { kind: 'key' }>, 'kind'>[]
+  encoders: Omit<Extract<SingleHistoryEntry, { kind: 'encoder' }>, 'kind'>[]
+  sideChanges?: HistoryCommand[]
+}
+
+/** The dynamic-entry rewrites of a plan, as commands to ride along with its keys. */
+export function dynamicEntryChangesOf(
+  plan: Pick<LayerOpPlan, 'tapDance' | 'combo' | 'keyOverride' | 'altRepeatKey'>,
+): BatchSideChange[] {
+  return [
+    ...plan.tapDance.map((c) => ({ kind: 'tapDance' as const, ...c })),
+    ...plan.combo.map((c) => ({ kind: 'combo' as const, ...c })),
+    ...plan.keyOverride.map((c) => ({ kind: 'keyOverride' as const, ...c })),
+    ...plan.altRepeatKey.map((c) => ({ kind: 'altRepeatKey' as const, ...c })),
+  ]
+}
+
+export interface UseKeymapBatchWriteOptions {
+  onSetKeysBulk: (entries: BulkKeyEntry[]) => Promise<void>
+  onSetEncoder: (layer: number, idx: number, dir: number, keycode: number) => Promise<void>
+  /** Writes one side change; `useKeymapCommands`' `applyCommand`. */
+  applyCommand: (command: HistoryCommand, isUndo: boolean) => Promise<void>
+  history: UseKeymapHistoryReturn
+  triggerFlash: (entries: SingleHistoryEntry[]) => void
+}
+
+export interface UseKeymapBatchWriteReturn {
+  writeBatch: (batch: KeymapBatch) => Promise<void>
+  /** True while a batch is being written; callers drop a second one. */
+  isWriting: () => boolean
+}
+
+/**
+ * The write path shared by layer operations, find / replace and keymap
+ * import: keys in one bulk write, then encoders, then the side changes in
+ * order, pushed onto `history` as a single batch so one Undo reverts the
+ * whole edit. A failed write pushes only what actually landed, then
+ * rethrows.
+ */
+export function useKeymapBatchWrite({
+  onSetKeysBulk, onSetEncoder, applyCommand, history, triggerFlash,
+}: UseKeymapBatchWriteOptions): UseKeymapBatchWriteReturn {
+  const inFlightRef = useRef(false)
+
+  const writeBatch = useCallback(async ({ keys, encoders, sideChanges = [] }: KeymapBatch) => {
+    inFlightRef.current = true
+    const applied: SingleHistoryEntry[] = []
+    const appliedSide: HistoryCommand[] = []
+    try {
+      if (keys.length > 0) {
+        await onSetKeysBulk(keys.map((c) => ({ layer: c.layer, row: c.row, col: c.col, keycode: c.newKeycode })))
+        applied.push(...keys.map((c) => ({ kind: 'key' as const, ...c })))
+      }
+      for (const c of encoders) {
+        await onSetEncoder(c.layer, c.idx, c.dir, c.newKeycode)
+        applied.push({ kind: 'encoder', ...c })
+      }
+      for (const command of sideChanges) {
+        await applyCommand(command, false)
+        appliedSide.push(command)
+      }
+    } finally {
+      inFlightRef.current = false
+      if (applied.length > 0 || appliedSide.length > 0) {
+        history.push({ kind: 'batch', entries: applied, sideChanges: appliedSide.length > 0 ? appliedSide : undefined })
+        triggerFlash(applied)
+      }
+    }
+  }, [onSetKeysBulk, onSetEncoder, applyCommand, history, triggerFlash])
+
+  const isWriting = useCallback(() => inFlightRef.current, [])
+
+  return { writeBatch, isWriting }
+}
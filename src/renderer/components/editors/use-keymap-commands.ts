@@ -0,0 +1,152 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { useCallback } from 'react'
+import type { TapDanceEntry, ComboEntry, KeyOverrideEntry, AltRepeatKeyEntry } from '../../../shared/types/protocol'
+import type { MacroAction } from '../../../preload/macro'
+import type { HistoryCommand, UseKeymapHistoryReturn } from './useKeymapHistory'
+
+export interface UseKeymapCommandsOptions {
+  history: UseKeymapHistoryReturn
+  tapDanceEntries?: TapDanceEntry[]
+  comboEntries?: ComboEntry[]
+  keyOverrideEntries?: KeyOverrideEntry[]
+  altRepeatKeyEntries?: AltRepeatKeyEntry[]
+  layerNames?: string[]
+  macroBuffer?: number[]
+  parsedMacros?: MacroAction[][] | null
+  packedLayoutOptions?: number
+  onSetTapDanceEntry?: (index: number, entry: TapDanceEntry) => Promise<void>
+  onSetComboEntry?: (index: number, entry: ComboEntry) => Promise<void>
+  onSetKeyOverrideEntry?: (index: number, entry: KeyOverrideEntry) => Promise<void>
+  onSetAltRepeatKeyEntry?: (index: number, entry: AltRepeatKeyEntry) => Promise<void>
+  onSetLayerName?: (layer: number, name: string) => void
+  onSaveMacros?: (buffer: number[], parsedMacros?: MacroAction[][]) => Promise<void>
+  onSetLayoutOptions?: (options: number) => Promise<void>
+  qmkSettingsValues?: Record<string, number[]>
+  qmkSettingsSet?: (qsid: number, data: number[]) => Promise<void>
+  onSettingsUpdate?: (qsid: number, data: number[]) => void
+}
+
+/** Recorded variants of the raw setters — same signatures, `undefined`
+ *  whenever the raw setter is. */
+export interface UseKeymapCommandsReturn {
+  /** Writes one command to its `old*` side when `isUndo`, `new*` otherwise.
+   *  Handed to undo/redo; never pushes onto `history`. */
+  applyCommand: (command: HistoryCommand, isUndo: boolean) => Promise<void>
+  onSetTapDanceEntry?: (index: number, entry: TapDanceEntry) => Promise<void>
+  onSetComboEntry?: (index: number, entry: ComboEntry) => Promise<void>
+  onSetKeyOverrideEntry?: (index: number, entry: KeyOverrideEntry) => Promise<void>
+  onSetAltRepeatKeyEntry?: (index: number, entry: AltRepeatKeyEntry) => Promise<void>
+  onSetLayerName?: (layer: number, name: string) => void
+  onSaveMacros?: (buffer: number[], parsedMacros?: MacroAction[][]) => Promise<void>
+  onSetLayoutOptions?: (options: number) => Promise<void>
+  qmkSettingsSet?: (qsid: number, data: number[]) => Promise<void>
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Routes every non-keymap device write made from the keymap editor through
+ * `history` as a `HistoryCommand`. Each recorded setter captures the value
+ * it replaces, writes through the raw setter and pushes only once that
+ * write has landed; a write that changes nothing is not recorded. Layer
+ * operations keep using the raw setters — they push their own batch.
+ */
+export function useKeymapCommands({
+  history,
+  tapDanceEntries, comboEntries, keyOverrideEntries, altRepeatKeyEntries, layerNames,
+  macroBuffer, parsedMacros, packedLayoutOptions,
+  onSetTapDanceEntry, onSetComboEntry, onSetKeyOverrideEntry, onSetAltRepeatKeyEntry, onSetLayerName,
+  onSaveMacros, onSetLayoutOptions, qmkSettingsValues, qmkSettingsSet, onSettingsUpdate,
+}: UseKeymapCommandsOptions): UseKeymapCommandsReturn {
+  const { push } = history
+
+  const applyCommand = useCallback(async (command: HistoryCommand, isUndo: boolean) => {
+    switch (command.kind) {
+      case 'tapDance': await onSetTapDanceEntry?.(command.index, isUndo ? command.oldEntry : command.newEntry); break
+      case 'combo': await onSetComboEntry?.(command.index, isUndo ? command.oldEntry : command.newEntry); break
+      case 'keyOverride': await onSetKeyOverrideEntry?.(command.index, isUndo ? command.oldEntry : command.newEntry); break
+      case 'altRepeatKey': await onSetAltRepeatKeyEntry?.(command.index, isUndo ? command.oldEntry : command.newEntry); break
+      case 'layerName': onSetLayerName?.(command.layer, isUndo ? command.oldName : command.newName); break
+      case 'macros':
+        await onSaveMacros?.(isUndo ? command.oldBuffer : command.newBuffer, isUndo ? command.oldParsed : command.newParsed)
+        break
+      case 'layoutOptions': await onSetLayoutOptions?.(isUndo ? command.oldValue : command.newValue); break
+      case 'qmkSetting': {
+        const data = isUndo ? command.oldData : command.newData
+        await qmkSettingsSet?.(command.qsid, data)
+        onSettingsUpdate?.(command.qsid, data)
+        break
+      }
+    }
+  }, [onSetTapDanceEntry, onSetComboEntry, onSetKeyOverrideEntry, onSetAltRepeatKeyEntry, onSetLayerName, onSaveMacros, onSetLayoutOptions, qmkSettingsSet, onSettingsUpdate])
+
+  const setTapDanceEntry = useCallback(async (index: number, entry: TapDanceEntry) => {
+    const oldEntry = tapDanceEntries?.[index]
+    await onSetTapDanceEntry!(index, entry)
+    if (oldEntry && !sameValue(oldEntry, entry)) push({ kind: 'tapDance', index, oldEntry, newEntry: entry })
+  }, [tapDanceEntries, onSetTapDanceEntry, push])
+
+  const setComboEntry = useCallback(async (index: number, entry: ComboEntry) => {
+    const oldEntry = comboEntries?.[index]
+    await onSetComboEntry!(index, entry)
+    if (oldEntry && !sameValue(oldEntry, entry)) push({ kind: 'combo', index, oldEntry, newEntry: entry })
+  }, [comboEntries, onSetComboEntry, push])
+
+  const setKeyOverrideEntry = useCallback(async (index: number, entry: KeyOverrideEntry) => {
+    const oldEntry = keyOverrideEntries?.[index]
+    await onSetKeyOverrideEntry!(index, entry)
+    if (oldEntry && !sameValue(oldEntry, entry)) push({ kind: 'keyOverride', index, oldEntry, newEntry: entry })
+  }, [keyOverrideEntries, onSetKeyOverrideEntry, push])
+
+  const setAltRepeatKeyEntry = useCallback(async (index: number, entry: AltRepeatKeyEntry) => {
+    const oldEntry = altRepeatKeyEntries?.[index]
+    await onSetAltRepeatKeyEntry!(index, entry)
+    if (oldEntry && !sameValue(oldEntry, entry)) push({ kind: 'altRepeatKey', index, oldEntry, newEntry: entry })
+  }, [altRepeatKeyEntries, onSetAltRepeatKeyEntry, push])
+
+  const setLayerName = useCallback((layer: number, name: string) => {
+    const oldName = layerNames?.[layer] ?? ''
+    onSetLayerName!(layer, name)
+    if (oldName !== name) push({ kind: 'layerName', layer, oldName, newName: name })
+  }, [layerNames, onSetLayerName, push])
+
+  const saveMacros = useCallback(async (buffer: number[], parsed?: MacroAction[][]) => {
+    const oldBuffer = macroBuffer
+    const oldParsed = parsedMacros ?? undefined
+    await onSaveMacros!(buffer, parsed)
+    if (oldBuffer && !sameValue(oldBuffer, buffer)) {
+      push({ kind: 'macros', oldBuffer, newBuffer: buffer, oldParsed, newParsed: parsed })
+    }
+  }, [macroBuffer, parsedMacros, onSaveMacros, push])
+
+  const setLayoutOptions = useCallback(async (options: number) => {
+    const oldValue = packedLayoutOptions
+    await onSetLayoutOptions!(options)
+    if (oldValue != null && oldValue >= 0 && oldValue !== options) {
+      push({ kind: 'layoutOptions', oldValue, newValue: options })
+    }
+  }, [packedLayoutOptions, onSetLayoutOptions, push])
+
+  // The replaced value comes from the cached settings, which
+  // `onSettingsUpdate` keeps in step with every write.
+  const setQmkSetting = useCallback(async (qsid: number, data: number[]) => {
+    const oldData = qmkSettingsValues?.[String(qsid)]
+    await qmkSettingsSet!(qsid, data)
+    if (oldData && !sameValue(oldData, data)) push({ kind: 'qmkSetting', qsid, oldData, newData: data })
+  }, [qmkSettingsValues, qmkSettingsSet, push])
+
+  return {
+    applyCommand,
+    onSetTapDanceEntry: onSetTapDanceEntry && setTapDanceEntry,
+    onSetComboEntry: onSetComboEntry && setComboEntry,
+    onSetKeyOverrideEntry: onSetKeyOverrideEntry && setKeyOverrideEntry,
+    onSetAltRepeatKeyEntry: onSetAltRepeatKeyEntry && setAltRepeatKeyEntry,
+    onSetLayerName: onSetLayerName && setLayerName,
+    onSaveMacros: onSaveMacros && saveMacros,
+    onSetLayoutOptions: onSetLayoutOptions && setLayoutOptions,
+    qmkSettingsSet: qmkSettingsSet && setQmkSetting,
+  }
+}
@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { useCallback } from 'react'
+import { planKeycodeReplace, isEmptyKeycodeReplacePlan } from '../../../shared/keymap/keycode-search'
+import type { KeycodeSearchInput } from '../../../shared/keymap/keycode-search'
+import { serializeAllMacros } from '../../../preload/macro'
+import type { MacroAction } from '../../../preload/macro'
+import type { HostLayoutMap } from '../../../preload/macro-unicode'
+import { useUnlockGate } from '../../hooks/useUnlockGate'
+import type { BulkKeyEntry } from '../../hooks/useKeyboard'
+import type { HistoryCommand, SingleHistoryEntry, UseKeymapHistoryReturn } from './useKeymapHistory'
+import { dynamicEntryChangesOf, useKeymapBatchWrite } from './use-keymap-batch-write'
+
+export interface UseKeymapFindReplaceOptions {
+  input: KeycodeSearchInput<MacroAction>
+  macroBuffer?: number[]
+  macroBufferSize?: number
+  vialProtocol: number
+  /** Host layout unicode macro actions are typed through; US QWERTY when absent. */
+  hostLayout?: HostLayoutMap | null
+  onSetKeysBulk: (entries: BulkKeyEntry[]) => Promise<void>
+  onSetEncoder: (layer: number, idx: number, dir: number, keycode: number) => Promise<void>
+  /** Writes the dynamic-entry and macro rewrites; `useKeymapCommands`' `applyCommand`. */
+  applyCommand: (command: HistoryCommand, isUndo: boolean) => Promise<void>
+  /** Whether the macros can be written at all. */
+  canSaveMacros: boolean
+  history: UseKeymapHistoryReturn
+  triggerFlash: (entries: SingleHistoryEntry[]) => void
+  unlocked?: boolean
+  onUnlock?: (options?: { macroWarning?: boolean }) => void
+}
+
+export interface UseKeymapFindReplaceReturn {
+  /** Replaces every use of `from` with `to`; resolves once all writes landed. */
+  replaceKeycode: (from: number, to: number) => Promise<void>
+}
+
+/**
+ * Global keycode replace. The plan comes from `shared/keymap/keycode-search`
+ * and is written through `useKeymapBatchWrite` like a layer operation, with
+ * the dynamic entries and finally the macro buffer riding along, so one
+ * Undo reverts the whole replace.
+ */
+export function useKeymapFindReplace({
+  input, macroBuffer, macroBufferSize, vialProtocol, hostLayout = null,
+  onSetKeysBulk, onSetEncoder, applyCommand, canSaveMacros,
+  history, triggerFlash, unlocked, onUnlock,
+}: UseKeymapFindReplaceOptions): UseKeymapFindReplaceReturn {
+  const { guard, guardAll } = useUnlockGate({ unlocked, onUnlock })
+  const { writeBatch, isWriting } = useKeymapBatchWrite({ onSetKeysBulk, onSetEncoder, applyCommand, history, triggerFlash })
+
+  const replaceKeycode = useCallback(async (from: number, to: number) => {
+    const plan = planKeycodeReplace(input, from, to)
+    if (isEmptyKeycodeReplacePlan(plan) || isWriting()) return
+
+    // Macros are rewritten whole, so build and size-check the new buffer
+    // before anything is written.
+    let macroCommand: HistoryCommand | null = null
+    if (plan.macros.length > 0 && input.macros && macroBuffer && canSaveMacros) {
+      const newParsed = input.macros.map((actions) => [...actions])
+      for (const change of plan.macros) newParsed[change.index] = change.newActions
+      const newBuffer = serializeAllMacros(newParsed, vialProtocol, hostLayout)
+      if (macroBufferSize != null && newBuffer.length > macroBufferSize) {
+        throw new Error('Macros do not fit in the macro buffer')
+      }
+      while (newBuffer.length < macroBuffer.length) newBuffer.push(0)
+      macroCommand = {
+        kind: 'macros',
+        oldBuffer: macroBuffer, newBuffer,
+        oldParsed: input.macros.map((actions) => [...actions]), newParsed,
+      }
+    }
+
+    const run = () => writeBatch({
+      keys: plan.keys,
+      encoders: plan.encoders,
+      sideChanges: [...dynamicEntryChangesOf(plan), ...(macroCommand ? [macroCommand] : [])],
+    })
+
+    // The Vial protocol gates macro writes behind unlock unconditionally
+    if (macroCommand) await guardAll(run)
+    else await guard([to], run)
+  }, [input, macroBuffer, macroBufferSize, vialProtocol, hostLayout, canSaveMacros, writeBatch, isWriting, guard, guardAll])
+
+  return { replaceKeycode }
+}
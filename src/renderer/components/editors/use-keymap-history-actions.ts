@@ -3,7 +3,8 @@
 import { useCallback, useMemo, useEffect, useRef } from 'react'
 import type { BulkKeyEntry } from '../../hooks/useKeyboard'
 import type { PopoverState } from './keymap-editor-types'
-import type { UseKeymapHistoryReturn, SingleHistoryEntry, HistoryEntry } from './useKeymapHistory'
+import { isSingleHistoryEntry } from './useKeymapHistory'
+import type { UseKeymapHistoryReturn, SingleHistoryEntry, HistoryEntry, HistoryCommand } from './useKeymapHistory'
 
 /** Match a history entry against the current popover position, returning the keycode if matched. */
 function matchPopoverEntry(
@@ -12,7 +13,7 @@ function matchPopoverEntry(
   currentLayer: number,
   field: 'oldKeycode' | 'newKeycode',
 ): number | undefined {
-  if (!popoverState || !entry || entry.kind === 'batch') return undefined
+  if (!popoverState || !entry || !isSingleHistoryEntry(entry)) return undefined
   if (popoverState.kind === 'key' && entry.kind === 'key' && entry.layer === currentLayer && entry.row === popoverState.row && entry.col === popoverState.col) return entry[field]
   if (popoverState.kind === 'encoder' && entry.kind === 'encoder' && entry.layer === currentLayer && entry.idx === popoverState.idx && entry.dir === popoverState.dir) return entry[field]
   return undefined
@@ -25,6 +26,10 @@ export interface UseKeymapHistoryActionsOptions {
   onSetKey: (layer: number, row: number, col: number, keycode: number) => Promise<void>
   onSetKeysBulk: (entries: BulkKeyEntry[]) => Promise<void>
   onSetEncoder: (layer: number, idx: number, dir: number, keycode: number) => Promise<void>
+  /** Writes one `HistoryCommand` — a command entry or one `sideChanges`
+   *  item of a batch — to its `old*` side when `isUndo`. Commands are only
+   *  pushed by callers that also supply this (see `useKeymapCommands`). */
+  onApplyCommand?: (command: HistoryCommand, isUndo: boolean) => Promise<void>
   /** Fires the "flash" visual (see `useKeyFlash`) for the positions an
    *  undo/redo just touched. Contract: called only after ALL of that
    *  entry's device writes have succeeded AND the history stack has been
@@ -33,7 +38,8 @@ export interface UseKeymapHistoryActionsOptions {
    *  callback must not retroactively mark the undo/redo as failed, so it
    *  is invoked after `handleUndo`/`handleRedo`'s own try/finally has
    *  already run to completion. Receives the normalized entry list
-   *  (`entry.kind === 'batch' ? entry.entries : [entry]`). */
+   *  (`entry.kind === 'batch' ? entry.entries : [entry]`, empty for a
+   *  command entry). */
   onHistoryApplied?: (entries: SingleHistoryEntry[]) => void
   /** Reads the current popover-advance epoch (see
    *  `useKeymapSelectionHandlers`'s `popoverAdvanceEpochRef`) without
@@ -54,6 +60,7 @@ export function useKeymapHistoryActions({
   onSetKey,
   onSetKeysBulk,
   onSetEncoder,
+  onApplyCommand,
   onHistoryApplied,
   getPopoverEpoch,
   closePopoverIfEpochMatches,
@@ -77,23 +84,31 @@ export function useKeymapHistoryActions({
       }
       if (keyEntries.length > 0) await onSetKeysBulk(keyEntries)
       for (const op of encoderOps) await onSetEncoder(op.layer, op.idx, op.dir, op.code)
+      const sideChanges = isUndo ? [...(entry.sideChanges ?? [])].reverse() : (entry.sideChanges ?? [])
+      for (const change of sideChanges) await onApplyCommand?.(change, isUndo)
+    } else if (!isSingleHistoryEntry(entry)) {
+      await onApplyCommand?.(entry, isUndo)
     } else {
       const code = isUndo ? entry.oldKeycode : entry.newKeycode
       if (entry.kind === 'key') await onSetKey(entry.layer, entry.row, entry.col, code)
       else await onSetEncoder(entry.layer, entry.idx, entry.dir, code)
     }
-  }, [onSetKey, onSetKeysBulk, onSetEncoder])
+  }, [onSetKey, onSetKeysBulk, onSetEncoder, onApplyCommand])
 
   // In-flight guard to prevent concurrent undo/redo
   const undoRedoInFlightRef = useRef(false)
 
-  // Undo and redo differ only in direction (which stack to peek/commit,
+  // Undo and redo differ only in direction (which stack to walk/commit,
   // and which side of the entry `applyHistoryEntry` restores) — shared here
   // instead of duplicating the guard/apply/commit/notify sequence twice.
-  const runHistoryStep = useCallback(async (isUndo: boolean) => {
+  // `count` > 1 walks several entries in one go (the history panel's jump
+  // to a past state); each one is committed as soon as its own writes have
+  // landed, so a failure midway leaves the stacks matching the device.
+  const runHistorySteps = useCallback(async (isUndo: boolean, count: number) => {
     if (undoRedoInFlightRef.current) return
-    const entry = isUndo ? history.peekUndo : history.peekRedo
-    if (!entry) return
+    const stack = isUndo ? history.undoEntries : history.redoEntries
+    const steps = stack.slice(Math.max(0, stack.length - count)).reverse()
+    if (steps.length === 0) return
     undoRedoInFlightRef.current = true
     // Snapshot the epoch before the device writes below — which, for a
     // batch entry, run as a sequence of awaited HID calls and can take
@@ -106,11 +121,16 @@ export function useKeymapHistoryActions({
     // `tryAdvancePopover`, `applySelectionChange`): a stale completion
     // must never clobber something newer.
     const epoch = getPopoverEpoch()
+    const applied: SingleHistoryEntry[] = []
     try {
-      await applyHistoryEntry(entry, isUndo)
-      // Commit only after successful apply.
-      if (isUndo) history.undo()
-      else history.redo()
+      for (const entry of steps) {
+        await applyHistoryEntry(entry, isUndo)
+        // Commit only after successful apply.
+        if (isUndo) history.undo()
+        else history.redo()
+        if (entry.kind === 'batch') applied.push(...entry.entries)
+        else if (isSingleHistoryEntry(entry)) applied.push(entry)
+      }
     } finally { undoRedoInFlightRef.current = false }
     closePopoverIfEpochMatches(epoch)
     // Fire outside the try/finally above: a throw from `applyHistoryEntry`
@@ -121,18 +141,23 @@ export function useKeymapHistoryActions({
     // `onHistoryApplied` can no longer un-commit the undo/redo or leave the
     // in-flight guard stuck. The flash it triggers is purely cosmetic, so a
     // throw from the callback itself is swallowed here rather than
-    // rejecting `runHistoryStep`'s promise — the undo/redo already
+    // rejecting `runHistorySteps`'s promise — the undo/redo already
     // succeeded and must not be reported as failed just because the flash
     // visual couldn't be shown.
     try {
-      onHistoryApplied?.(entry.kind === 'batch' ? entry.entries : [entry])
+      onHistoryApplied?.(applied)
     } catch {
       // Intentionally ignored — see comment above.
     }
   }, [history, applyHistoryEntry, onHistoryApplied, getPopoverEpoch, closePopoverIfEpochMatches])
 
-  const handleUndo = useCallback(() => runHistoryStep(true), [runHistoryStep])
-  const handleRedo = useCallback(() => runHistoryStep(false), [runHistoryStep])
+  const handleUndo = useCallback(() => runHistorySteps(true, 1), [runHistorySteps])
+  const handleRedo = useCallback(() => runHistorySteps(false, 1), [runHistorySteps])
+  /** Moves `offset` entries through the history: negative undoes, positive redoes. */
+  const handleHistoryJump = useCallback(
+    (offset: number) => runHistorySteps(offset < 0, Math.abs(offset)),
+    [runHistorySteps],
+  )
 
   const handlePopoverUndo = useCallback(() => {
     if (popoverUndoKeycode == null) return
@@ -174,5 +199,6 @@ export function useKeymapHistoryActions({
     handlePopoverRedo,
     handleUndo,
     handleRedo,
+    handleHistoryJump,
   }
 }
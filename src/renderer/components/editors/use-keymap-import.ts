@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { useCallback } from 'react'
+import type { KeymapImportPlan } from '../../../shared/keymap-import'
+import { useUnlockGate } from '../../hooks/useUnlockGate'
+import type { BulkKeyEntry } from '../../hooks/useKeyboard'
+import type { HistoryCommand, SingleHistoryEntry, UseKeymapHistoryReturn } from './useKeymapHistory'
+import { useKeymapBatchWrite } from './use-keymap-batch-write'
+
+export interface UseKeymapImportOptions {
+  onSetKeysBulk: (entries: BulkKeyEntry[]) => Promise<void>
+  onSetEncoder: (layer: number, idx: number, dir: number, keycode: number) => Promise<void>
+  applyCommand: (command: HistoryCommand, isUndo: boolean) => Promise<void>
+  history: UseKeymapHistoryReturn
+  triggerFlash: (entries: SingleHistoryEntry[]) => void
+  unlocked?: boolean
+  onUnlock?: (options?: { macroWarning?: boolean }) => void
+}
+
+export interface UseKeymapImportReturn {
+  /** Writes the plan's changed positions; resolves once all writes landed. */
+  applyKeymapImport: (plan: Pick<KeymapImportPlan, 'keys' | 'encoders'>) => Promise<void>
+}
+
+/**
+ * Writes an imported keymap.c / keymap.json (`shared/keymap-import`)
+ * through `useKeymapBatchWrite`, like find / replace, so one Undo reverts
+ * the whole import. Loading a layer or encoder favorite goes through the
+ * same path.
+ */
+export function useKeymapImport({
+  onSetKeysBulk, onSetEncoder, applyCommand, history, triggerFlash, unlocked, onUnlock,
+}: UseKeymapImportOptions): UseKeymapImportReturn {
+  const { guard } = useUnlockGate({ unlocked, onUnlock })
+  const { writeBatch, isWriting } = useKeymapBatchWrite({ onSetKeysBulk, onSetEncoder, applyCommand, history, triggerFlash })
+
+  const applyKeymapImport = useCallback(async (plan: Pick<KeymapImportPlan, 'keys' | 'encoders'>) => {
+    if ((plan.keys.length === 0 && plan.encoders.length === 0) || isWriting()) return
+    await guard([...plan.keys, ...plan.encoders].map((c) => c.newKeycode), () => writeBatch(plan))
+  }, [writeBatch, isWriting, guard])
+
+  return { applyKeymapImport }
+}
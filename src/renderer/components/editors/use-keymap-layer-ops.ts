@@ -0,0 +1,103 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { useCallback, useMemo } from 'react'
+import { resolve } from '../../../shared/keycodes/keycodes'
+import {
+  planLayerCopy,
+  planLayerClear,
+  planLayerReorder,
+  swapLayerOrder,
+  moveLayerOrder,
+  isEmptyLayerOpPlan,
+} from '../../../shared/keymap/layer-ops'
+import type { LayerOpPlan, LayerOpState } from '../../../shared/keymap/layer-ops'
+import { useUnlockGate } from '../../hooks/useUnlockGate'
+import type { BulkKeyEntry } from '../../hooks/useKeyboard'
+import type { BatchSideChange, HistoryCommand, SingleHistoryEntry, UseKeymapHistoryReturn } from './useKeymapHistory'
+import { dynamicEntryChangesOf, useKeymapBatchWrite } from './use-keymap-batch-write'
+
+export interface UseKeymapLayerOpsOptions extends LayerOpState {
+  onSetKeysBulk: (entries: BulkKeyEntry[]) => Promise<void>
+  onSetEncoder: (layer: number, idx: number, dir: number, keycode: number) => Promise<void>
+  /** Writes the side changes; `useKeymapCommands`' `applyCommand`. */
+  applyCommand: (command: HistoryCommand, isUndo: boolean) => Promise<void>
+  history: UseKeymapHistoryReturn
+  triggerFlash: (entries: SingleHistoryEntry[]) => void
+  unlocked?: boolean
+  onUnlock?: (options?: { macroWarning?: boolean }) => void
+}
+
+export interface UseKeymapLayerOpsReturn {
+  copyLayer: (src: number, dst: number) => Promise<void>
+  clearLayer: (layer: number) => Promise<void>
+  swapLayers: (a: number, b: number) => Promise<void>
+  moveLayer: (from: number, to: number) => Promise<void>
+}
+
+function sideChangesOf(plan: LayerOpPlan): BatchSideChange[] {
+  return [
+    ...dynamicEntryChangesOf(plan),
+    ...plan.layerNames.map((c) => ({ kind: 'layerName' as const, ...c })),
+  ]
+}
+
+function newKeycodesOf(plan: LayerOpPlan): number[] {
+  return [
+    ...plan.keys.map((c) => c.newKeycode),
+    ...plan.encoders.map((c) => c.newKeycode),
+    ...plan.tapDance.flatMap((c) => [c.newEntry.onTap, c.newEntry.onHold, c.newEntry.onDoubleTap, c.newEntry.onTapHold]),
+    ...plan.combo.map((c) => c.newEntry.output),
+  ]
+}
+
+/**
+ * Whole-layer operations (copy / clear / swap / drag-reorder). Each one is
+ * planned against the current keymap in `shared/keymap/layer-ops` and
+ * written through `useKeymapBatchWrite`, so one Undo reverts the whole layer
+ * operation including any rewritten layer references.
+ */
+export function useKeymapLayerOps({
+  layers, keymap, encoderLayout,
+  tapDanceEntries, comboEntries, keyOverrideEntries, altRepeatKeyEntries, layerNames,
+  onSetKeysBulk, onSetEncoder, applyCommand,
+  history, triggerFlash, unlocked, onUnlock,
+}: UseKeymapLayerOpsOptions): UseKeymapLayerOpsReturn {
+  const { guard } = useUnlockGate({ unlocked, onUnlock })
+  const { writeBatch, isWriting } = useKeymapBatchWrite({ onSetKeysBulk, onSetEncoder, applyCommand, history, triggerFlash })
+
+  const runPlan = useCallback(async (plan: LayerOpPlan) => {
+    if (isEmptyLayerOpPlan(plan) || isWriting()) return
+    await guard(newKeycodesOf(plan), () => writeBatch({
+      keys: plan.keys,
+      encoders: plan.encoders,
+      sideChanges: sideChangesOf(plan),
+    }))
+  }, [guard, writeBatch, isWriting])
+
+  const opState = useMemo((): LayerOpState => ({
+    layers, keymap, encoderLayout, tapDanceEntries, comboEntries, keyOverrideEntries, altRepeatKeyEntries, layerNames,
+  }), [layers, keymap, encoderLayout, tapDanceEntries, comboEntries, keyOverrideEntries, altRepeatKeyEntries, layerNames])
+
+  const copyLayer = useCallback(
+    (src: number, dst: number) => runPlan(planLayerCopy(opState, src, dst)),
+    [runPlan, opState],
+  )
+
+  // The base layer has nothing beneath it, so it clears to KC_NO
+  const clearLayer = useCallback(
+    (layer: number) => runPlan(planLayerClear(opState, layer, layer === 0 ? 0 : resolve('KC_TRNS'))),
+    [runPlan, opState],
+  )
+
+  const swapLayers = useCallback(
+    (a: number, b: number) => runPlan(planLayerReorder(opState, swapLayerOrder(layers, a, b))),
+    [runPlan, opState, layers],
+  )
+
+  const moveLayer = useCallback(
+    (from: number, to: number) => runPlan(planLayerReorder(opState, moveLayerOrder(layers, from, to))),
+    [runPlan, opState, layers],
+  )
+
+  return { copyLayer, clearLayer, swapLayers, moveLayer }
+}
@@ -1,6 +1,8 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 
 import { useRef, useState, useCallback } from 'react'
+import type { TapDanceEntry, ComboEntry, KeyOverrideEntry, AltRepeatKeyEntry } from '../../../shared/types/protocol'
+import type { MacroAction } from '../../../preload/macro'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -17,13 +19,37 @@ export type SingleHistoryEntry =
   | HistoryEntryBase & { kind: 'key'; row: number; col: number }
   | HistoryEntryBase & { kind: 'encoder'; idx: number; dir: 0 | 1 }
 
+/** A device write outside the keymap / encoder map. Pushed on its own as a
+ *  history entry, or riding along with a batch (layer reorders rewrite
+ *  references outside the keymap too). Each side carries the full value, so
+ *  undo/redo is a plain write of `old*` / `new*`. */
+export type HistoryCommand =
+  | { kind: 'tapDance'; index: number; oldEntry: TapDanceEntry; newEntry: TapDanceEntry }
+  | { kind: 'combo'; index: number; oldEntry: ComboEntry; newEntry: ComboEntry }
+  | { kind: 'keyOverride'; index: number; oldEntry: KeyOverrideEntry; newEntry: KeyOverrideEntry }
+  | { kind: 'altRepeatKey'; index: number; oldEntry: AltRepeatKeyEntry; newEntry: AltRepeatKeyEntry }
+  | { kind: 'layerName'; layer: number; oldName: string; newName: string }
+  | { kind: 'macros'; oldBuffer: number[]; newBuffer: number[]; oldParsed?: MacroAction[][]; newParsed?: MacroAction[][] }
+  | { kind: 'layoutOptions'; oldValue: number; newValue: number }
+  | { kind: 'qmkSetting'; qsid: number; oldData: number[]; newData: number[] }
+
+/** The commands a layer operation emits alongside its key writes. */
+export type BatchSideChange = Extract<HistoryCommand, { kind: 'tapDance' | 'combo' | 'keyOverride' | 'altRepeatKey' | 'layerName' }>
+
 export type HistoryEntry =
   | SingleHistoryEntry
+  | HistoryCommand
   | {
       kind: 'batch'
       entries: SingleHistoryEntry[]
+      sideChanges?: HistoryCommand[]
     }
 
+/** Narrows a history entry to a key / encoder write. */
+export function isSingleHistoryEntry(entry: HistoryEntry): entry is SingleHistoryEntry {
+  return entry.kind === 'key' || entry.kind === 'encoder'
+}
+
 export interface UseKeymapHistoryReturn {
   /** Push a new entry onto the undo stack. Clears the redo stack. */
   push: (entry: HistoryEntry) => void
@@ -37,6 +63,10 @@ export interface UseKeymapHistoryReturn {
   peekUndo: HistoryEntry | null
   /** Peek at the next redo entry without popping. */
   peekRedo: HistoryEntry | null
+  /** Snapshot of the undo stack, oldest first (the last item is `peekUndo`). */
+  undoEntries: readonly HistoryEntry[]
+  /** Snapshot of the redo stack, oldest first (the last item is `peekRedo`). */
+  redoEntries: readonly HistoryEntry[]
   /** Clear both stacks. */
   clear: () => void
 }
@@ -46,7 +76,8 @@ export interface UseKeymapHistoryReturn {
 // ---------------------------------------------------------------------------
 
 /**
- * Manages an undo/redo history for keymap edits.
+ * Manages an undo/redo history for keymap edits and the other device
+ * writes made from the keymap editor (see `HistoryCommand`).
  *
  * Stacks are stored in refs so that `undo()` / `redo()` can return the
  * entry synchronously (needed to feed the keycode back through the guard
@@ -103,6 +134,8 @@ export function useKeymapHistory(maxHistory: number): UseKeymapHistoryReturn {
     canRedo: redoRef.current.length > 0,
     peekUndo: undoRef.current[undoRef.current.length - 1] ?? null,
     peekRedo: redoRef.current[redoRef.current.length - 1] ?? null,
+    undoEntries: undoRef.current.slice(),
+    redoEntries: redoRef.current.slice(),
     clear,
   }
 }
@@ -9,6 +9,7 @@ import { useState, useCallback, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useUnlockGate } from '../../hooks/useUnlockGate'
 import { serializeAllMacros, type MacroAction } from '../../../preload/macro'
+import type { HostLayoutMap } from '../../../preload/macro-unicode'
 import type { TapDanceEntry, ComboEntry, KeyOverrideEntry, AltRepeatKeyEntry } from '../../../shared/types/protocol'
 
 /** Extracts the raw keycodes an entry holds, for the QK_BOOT unlock check. */
@@ -110,6 +111,8 @@ export interface UseKeymapJsonEditorsOptions {
   onSaveMacros?: (buffer: number[], parsedMacros?: MacroAction[][]) => Promise<void>
   macroBufferSize?: number
   vialProtocol?: number
+  /** Host layout unicode macro actions are typed through; US QWERTY when absent. */
+  hostLayout?: HostLayoutMap | null
   tapHoldSupported?: boolean
   mouseKeysSupported?: boolean
   magicSupported?: boolean
@@ -149,7 +152,7 @@ export function useKeymapJsonEditors({
   comboEntries, onSetComboEntry,
   keyOverrideEntries, onSetKeyOverrideEntry,
   altRepeatKeyEntries, onSetAltRepeatKeyEntry,
-  onSaveMacros, macroBufferSize, vialProtocol,
+  onSaveMacros, macroBufferSize, vialProtocol, hostLayout = null,
   tapHoldSupported, mouseKeysSupported, magicSupported, graveEscapeSupported,
   autoShiftSupported, oneShotKeysSupported, comboSettingsSupported,
 }: UseKeymapJsonEditorsOptions): UseKeymapJsonEditorsReturn {
@@ -199,14 +202,14 @@ export function useKeymapJsonEditors({
     async (macros: MacroAction[][]) => {
       if (!onSaveMacros || !macroBufferSize) return
       await macroJsonGate.guardAll(async () => {
-        const buffer = serializeAllMacros(macros, vialProtocol ?? 0)
+        const buffer = serializeAllMacros(macros, vialProtocol ?? 0, hostLayout)
         if (buffer.length > macroBufferSize) {
           throw new Error(t('editor.macro.memoryUsage', { used: buffer.length, total: macroBufferSize }))
         }
         await onSaveMacros(buffer, macros)
       })
     },
-    [onSaveMacros, macroBufferSize, vialProtocol, t, macroJsonGate],
+    [onSaveMacros, macroBufferSize, vialProtocol, hostLayout, t, macroJsonGate],
   )
 
   return {
@@ -13,7 +13,7 @@ import type { MacroAction } from '../../../preload/macro'
 import { hasModifierKey } from './KeyboardPane'
 import type { PopoverState } from './keymap-editor-types'
 import type { UseKeymapMultiSelectReturn } from './useKeymapMultiSelect'
-import type { UseKeymapHistoryReturn, SingleHistoryEntry } from './useKeymapHistory'
+import type { UseKeymapHistoryReturn, SingleHistoryEntry, HistoryCommand } from './useKeymapHistory'
 import { sortKeysByViewMatrix } from './view-matrix'
 import { nextAdvanceKey, getKeyAnchorRect } from './keymap-auto-advance'
 import { useKeymapHistoryActions } from './use-keymap-history-actions'
@@ -62,6 +62,8 @@ export interface UseKeymapSelectionOptions {
    *  `UseKeymapHistoryActionsOptions` (that hook's `runHistoryStep` is
    *  what actually invokes it). */
   onHistoryApplied?: (entries: SingleHistoryEntry[]) => void
+  /** Forwarded to `useKeymapHistoryActions` (undo/redo of commands and layer operations). */
+  onApplyCommand?: (command: HistoryCommand, isUndo: boolean) => Promise<void>
   // TD/Macro
   tapDanceEntries?: TapDanceEntry[]
   onSetTapDanceEntry?: (index: number, entry: TapDanceEntry) => Promise<void>
@@ -87,6 +89,7 @@ export function useKeymapSelectionHandlers({
   multiSelect,
   history,
   onHistoryApplied,
+  onApplyCommand,
   tapDanceEntries,
   onSetTapDanceEntry,
   macroCount,
@@ -530,10 +533,10 @@ export function useKeymapSelectionHandlers({
   const {
     popoverUndoKeycode, handlePopoverUndo,
     popoverRedoKeycode, handlePopoverRedo,
-    handleUndo, handleRedo,
+    handleUndo, handleRedo, handleHistoryJump,
   } = useKeymapHistoryActions({
     history, popoverState, currentLayer,
-    onSetKey, onSetKeysBulk, onSetEncoder,
+    onSetKey, onSetKeysBulk, onSetEncoder, onApplyCommand,
     onHistoryApplied, getPopoverEpoch, closePopoverIfEpochMatches,
   })
 
@@ -574,6 +577,7 @@ export function useKeymapSelectionHandlers({
     handlePopoverRedo,
     handleUndo,
     handleRedo,
+    handleHistoryJump,
     // Deselect
     handleDeselect,
     handleDeselectClick,
@@ -582,6 +586,8 @@ export function useKeymapSelectionHandlers({
     // Modals
     tdModalIndex,
     macroModalIndex,
+    openTdModal,
+    openMacroModal,
     handleTdModalSave,
     handleTdModalClose,
     handleMacroModalClose,
@@ -112,11 +112,13 @@ const MACRO_PREFIX: Record<MacroAction['type'], string> = {
   up: 'U',
   text: 'Tx',
   delay: 'W',
+  unicode: 'Uc',
 }
 
 function macroActionLabel(action: MacroAction): string {
   switch (action.type) {
-    case 'text': return action.text
+    case 'text':
+    case 'unicode': return action.text
     case 'delay': return `${action.delay}ms`
     default: return action.keycodes.map(codeToLabel).join(' ')
   }
@@ -0,0 +1,145 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import { emptyState } from '../keyboard-types'
+import type { KeyboardState } from '../keyboard-types'
+import {
+  copyLayer,
+  copyMacro,
+  copyDynamicEntry,
+  planLayerPaste,
+  planMacroPaste,
+  planDynamicEntryPaste,
+  translateKeycodes,
+} from '../session-transfer'
+import { serializeAllMacros } from '../../../preload/macro'
+import { recreateKeyboardKeycodes, setProtocol } from '../../../shared/keycodes/keycodes'
+import type { TapDanceEntry } from '../../../shared/types/protocol'
+
+const MO1_V6 = 0x5221
+const MO1_V5 = 0x5101
+const KC_A = 0x04
+const KC_B = 0x05
+const KC_Q = 0x14
+
+function board(overrides: Partial<KeyboardState> = {}): KeyboardState {
+  return { ...emptyState(), vialProtocol: 6, layers: 2, rows: 1, cols: 2, ...overrides }
+}
+
+beforeAll(() => {
+  setProtocol(6)
+  recreateKeyboardKeycodes({
+    vialProtocol: 6,
+    layers: 4,
+    macroCount: 4,
+    tapDanceCount: 4,
+    customKeycodes: null,
+    midi: '',
+    supportedFeatures: new Set(),
+  })
+})
+
+describe('translateKeycodes', () => {
+  it('returns codes unchanged between boards on the same protocol', () => {
+    expect(translateKeycodes([MO1_V6, KC_A], 6, 6)).toEqual([MO1_V6, KC_A])
+  })
+
+  it('re-resolves protocol-specific keycodes by name', () => {
+    expect(translateKeycodes([MO1_V6, KC_A], 6, 5)).toEqual([MO1_V5, KC_A])
+  })
+})
+
+describe('layer copy/paste', () => {
+  const source = board({
+    keymap: new Map([['1,0,0', KC_A], ['1,0,1', KC_B], ['1,0,2', MO1_V6], ['0,0,0', KC_B]]),
+    encoderLayout: new Map([['1,0,0', KC_A], ['1,0,1', KC_B]]),
+  })
+
+  it('copies only the requested layer', () => {
+    const clip = copyLayer(source, 1)
+    expect(clip.kind).toBe('layer')
+    if (clip.kind !== 'layer') return
+    expect([...clip.keys]).toEqual([['0,0', KC_A], ['0,1', KC_B], ['0,2', MO1_V6]])
+    expect(clip.encoders.size).toBe(2)
+  })
+
+  it('writes only changed keys that exist on the target and counts the rest as skipped', () => {
+    const target = board({
+      keymap: new Map([['0,0,0', KC_A], ['0,0,1', 0]]),
+      encoderLayout: new Map([['0,0,0', 0], ['0,0,1', 0]]),
+    })
+    const clip = copyLayer(source, 1)
+    if (clip.kind !== 'layer') throw new Error('unexpected clip')
+
+    const plan = planLayerPaste(clip, target, 0)
+    expect(plan.keys).toEqual([{ layer: 0, row: 0, col: 1, keycode: KC_B }])
+    expect(plan.encoders).toEqual([
+      { layer: 0, idx: 0, direction: 0, keycode: KC_A },
+      { layer: 0, idx: 0, direction: 1, keycode: KC_B },
+    ])
+    expect(plan.skipped).toBe(1)
+  })
+
+  it('translates keycodes for a target on an older protocol', () => {
+    const target = board({ vialProtocol: 5, keymap: new Map([['0,0,2', 0]]) })
+    const clip = copyLayer(source, 1)
+    if (clip.kind !== 'layer') throw new Error('unexpected clip')
+
+    expect(planLayerPaste(clip, target, 0).keys).toEqual([{ layer: 0, row: 0, col: 2, keycode: MO1_V5 }])
+  })
+})
+
+describe('macro copy/paste', () => {
+  const source = board({
+    macroCount: 2,
+    macroBufferSize: 64,
+    macroBuffer: serializeAllMacros([[{ type: 'text', text: 'hi' }], [{ type: 'tap', keycodes: [KC_A] }]], 6),
+  })
+
+  it('replaces one macro in the target buffer', () => {
+    const target = board({
+      macroCount: 3,
+      macroBufferSize: 64,
+      macroBuffer: serializeAllMacros([[], [{ type: 'text', text: 'keep' }]], 6),
+    })
+    const clip = copyMacro(source, 0)
+    if (clip.kind !== 'macro') throw new Error('unexpected clip')
+
+    const plan = planMacroPaste(clip, target, 2)
+    expect(plan?.macros).toEqual([[], [{ type: 'text', text: 'keep' }], [{ type: 'text', text: 'hi' }]])
+    expect(plan?.buffer).toEqual(serializeAllMacros(plan!.macros, 6))
+  })
+
+  it('types unicode actions through the target host layout', () => {
+    const target = board({ macroCount: 1, macroBufferSize: 64 })
+    const clip = { kind: 'macro' as const, vialProtocol: 6, actions: [{ type: 'unicode' as const, text: 'a', method: 'linux' as const }] }
+
+    // On AZERTY the 'a' legend sits on the KC_Q key
+    expect(planMacroPaste(clip, target, 0, { KC_Q: 'A', KC_A: 'Q' })?.buffer)
+      .toEqual(serializeAllMacros([[{ type: 'tap', keycodes: [KC_Q] }]], 6))
+  })
+
+  it('refuses a macro that does not fit the target memory', () => {
+    const target = board({ macroCount: 1, macroBufferSize: 2 })
+    const clip = copyMacro(source, 0)
+    if (clip.kind !== 'macro') throw new Error('unexpected clip')
+
+    expect(planMacroPaste(clip, target, 0)).toBeNull()
+  })
+})
+
+describe('dynamic entry copy/paste', () => {
+  const entry: TapDanceEntry = { onTap: MO1_V6, onHold: KC_A, onDoubleTap: 0, onTapHold: 0, tappingTerm: 200 }
+
+  it('returns null for an index past the end', () => {
+    expect(copyDynamicEntry(board(), 'combo', 0)).toBeNull()
+  })
+
+  it('carries the entry across and translates its keycodes', () => {
+    const clip = copyDynamicEntry(board({ tapDanceEntries: [entry] }), 'tapDance', 0)
+    if (clip?.kind !== 'tapDance') throw new Error('unexpected clip')
+
+    expect(planDynamicEntryPaste(clip, board())).toEqual(entry)
+    expect(planDynamicEntryPaste(clip, board({ vialProtocol: 5 }))).toEqual({ ...entry, onTap: MO1_V5 })
+  })
+})
@@ -23,6 +23,9 @@ beforeEach(() => {
     openDevice: mockOpenDevice,
     closeDevice: mockCloseDevice,
     isDeviceOpen: mockIsDeviceOpen,
+    onDeviceConnected: () => () => {},
+    onDeviceDisconnected: () => () => {},
+    setDeviceWatchSuspended: vi.fn().mockResolvedValue(undefined),
   }
 })
 
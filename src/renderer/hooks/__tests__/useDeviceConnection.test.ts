@@ -18,12 +18,18 @@ const mockListDevices = vi.fn<() => Promise<DeviceInfo[]>>()
 const mockOpenDevice = vi.fn<(v: number, p: number) => Promise<boolean>>()
 const mockCloseDevice = vi.fn<() => Promise<void>>()
 const mockIsDeviceOpen = vi.fn<() => Promise<boolean>>()
+const mockSetDeviceWatchSuspended = vi.fn<(suspended: boolean) => Promise<void>>()
+let connectedListener: ((device: DeviceInfo) => void) | null = null
+let disconnectedListener: ((device: DeviceInfo) => void) | null = null
 
 beforeEach(() => {
   mockListDevices.mockResolvedValue([])
   mockOpenDevice.mockResolvedValue(true)
   mockCloseDevice.mockResolvedValue(undefined)
   mockIsDeviceOpen.mockResolvedValue(true)
+  mockSetDeviceWatchSuspended.mockResolvedValue(undefined)
+  connectedListener = null
+  disconnectedListener = null
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   ;(window as any).vialAPI = {
@@ -31,6 +37,15 @@ beforeEach(() => {
     openDevice: mockOpenDevice,
     closeDevice: mockCloseDevice,
     isDeviceOpen: mockIsDeviceOpen,
+    onDeviceConnected: (cb: (device: DeviceInfo) => void) => {
+      connectedListener = cb
+      return () => { connectedListener = null }
+    },
+    onDeviceDisconnected: (cb: (device: DeviceInfo) => void) => {
+      disconnectedListener = cb
+      return () => { disconnectedListener = null }
+    },
+    setDeviceWatchSuspended: mockSetDeviceWatchSuspended,
   }
 })
 
@@ -322,4 +337,64 @@ describe('useDeviceConnection', () => {
       expect(result.current.devices).toEqual([mockDevice])
     })
   })
+
+  describe('hot-plug events', () => {
+    it('updates the device list from watcher events', async () => {
+      const { result } = renderHook(() => useDeviceConnection())
+      await waitFor(() => expect(mockListDevices).toHaveBeenCalled())
+
+      act(() => connectedListener?.(mockDevice))
+      expect(result.current.devices).toEqual([mockDevice])
+      act(() => connectedListener?.(mockDevice))
+      expect(result.current.devices).toHaveLength(1)
+
+      act(() => disconnectedListener?.(mockDevice))
+      expect(result.current.devices).toEqual([])
+    })
+
+    it('drops the connected device on unplug by default', async () => {
+      const { result } = renderHook(() => useDeviceConnection())
+      await act(async () => { await result.current.connectDevice(mockDevice) })
+
+      await act(async () => { disconnectedListener?.(mockDevice) })
+      expect(result.current.connectedDevice).toBeNull()
+      expect(result.current.offline).toBe(false)
+    })
+
+    it('holds the device while unplugged and reopens it when it comes back', async () => {
+      const { result } = renderHook(() => useDeviceConnection({ holdOnUnplug: true }))
+      await act(async () => { await result.current.connectDevice(mockDevice) })
+      mockOpenDevice.mockClear()
+
+      await act(async () => { disconnectedListener?.(mockDevice) })
+      expect(mockCloseDevice).toHaveBeenCalled()
+      expect(result.current.connectedDevice).toEqual(mockDevice)
+      expect(result.current.offline).toBe(true)
+
+      // A different keyboard showing up does not end the hold
+      await act(async () => { connectedListener?.({ ...mockDevice, serialNumber: 'SN002' }) })
+      expect(mockOpenDevice).not.toHaveBeenCalled()
+
+      await act(async () => { connectedListener?.(mockDevice) })
+      expect(mockOpenDevice).toHaveBeenCalledWith(mockDevice.vendorId, mockDevice.productId)
+      expect(result.current.offline).toBe(false)
+      expect(result.current.connectedDevice).toEqual(mockDevice)
+    })
+
+    it('does not hold a device whose disconnect was expected', async () => {
+      const { result } = renderHook(() => useDeviceConnection({ holdOnUnplug: true }))
+      await act(async () => { await result.current.connectDevice(mockDevice) })
+
+      act(() => result.current.setDisconnectExpected(true))
+      await act(async () => { disconnectedListener?.(mockDevice) })
+      expect(result.current.connectedDevice).toBeNull()
+      expect(result.current.offline).toBe(false)
+    })
+
+    it('forwards poll suspension to the watcher', () => {
+      const { result } = renderHook(() => useDeviceConnection())
+      act(() => result.current.setPollSuspended(true))
+      expect(mockSetDeviceWatchSuspended).toHaveBeenCalledWith(true)
+    })
+  })
 })
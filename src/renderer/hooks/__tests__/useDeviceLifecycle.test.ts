@@ -59,12 +59,17 @@ function makeOptions(overrides: Partial<{
       connectDummy: vi.fn(),
       connectPipetteFile: vi.fn(),
       isPipetteFile: false,
-      keyboardUid: undefined,
+      connectedDevice: null as DeviceInfo | null,
+      offline: false,
+      keyboardUid: undefined as string | undefined,
       keyboardReload,
       keyboardReset: vi.fn(),
       keyboardLoadDummy: vi.fn() as (def: KeyboardDefinition) => void,
       keyboardLoadPipetteFile: vi.fn() as (vil: VilFile) => void,
       refreshUnlockStatus: vi.fn().mockResolvedValue(undefined),
+      keyboardSetOffline: vi.fn(),
+      flushPendingWrites: vi.fn().mockResolvedValue(true),
+      discardPendingWrites: vi.fn(),
       unlocked: false,
       activityCount: 0,
       applyDevicePrefs,
@@ -293,3 +298,55 @@ describe('useDeviceLifecycle.handleConnect — packs first-sync auto-fire', () =
     expect(mocks.markPacksPulledOnce).not.toHaveBeenCalled()
   })
 })
+
+describe('useDeviceLifecycle — unplug and reconnect', () => {
+  type Options = ReturnType<typeof makeOptions>['options']
+
+  function renderHeld(getKeyboardId: Mock) {
+    const { options, mocks } = makeOptions()
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ;(window as any).vialAPI.getKeyboardId = getKeyboardId
+    const initial: Options = { ...options, connectedDevice: mockDevice, keyboardUid: 'uid-1' }
+    const hook = renderHook((props: Options) => useDeviceLifecycle(props), { initialProps: initial })
+    return { ...hook, options: initial, mocks }
+  }
+
+  it('replays queued writes when the same keyboard comes back', async () => {
+    const getKeyboardId = vi.fn().mockResolvedValue({ vialProtocol: 6, uid: 'uid-1' })
+    const { rerender, options, mocks } = renderHeld(getKeyboardId)
+
+    rerender({ ...options, offline: true })
+    expect(options.keyboardSetOffline).toHaveBeenCalledWith(true)
+
+    await act(async () => { rerender({ ...options, offline: false }) })
+    expect(options.keyboardSetOffline).toHaveBeenLastCalledWith(false)
+    expect(options.refreshUnlockStatus).toHaveBeenCalled()
+    expect(options.flushPendingWrites).toHaveBeenCalled()
+    expect(options.discardPendingWrites).not.toHaveBeenCalled()
+    expect(mocks.connectDevice).not.toHaveBeenCalled()
+  })
+
+  it('drops the queue and reloads when a different keyboard comes back', async () => {
+    const getKeyboardId = vi.fn().mockResolvedValue({ vialProtocol: 6, uid: 'uid-2' })
+    const { rerender, options, mocks } = renderHeld(getKeyboardId)
+
+    rerender({ ...options, offline: true })
+    await act(async () => { rerender({ ...options, offline: false }) })
+
+    expect(options.discardPendingWrites).toHaveBeenCalled()
+    expect(options.flushPendingWrites).not.toHaveBeenCalled()
+    expect(mocks.connectDevice).toHaveBeenCalledWith(mockDevice)
+    expect(mocks.keyboardReload).toHaveBeenCalled()
+  })
+
+  it('does nothing when the held device was disconnected by the user', async () => {
+    const getKeyboardId = vi.fn()
+    const { rerender, options } = renderHeld(getKeyboardId)
+
+    rerender({ ...options, offline: true })
+    await act(async () => { rerender({ ...options, offline: false, connectedDevice: null }) })
+
+    expect(getKeyboardId).not.toHaveBeenCalled()
+    expect(options.flushPendingWrites).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,126 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useDeviceSessions } from '../useDeviceSessions'
+import type { DeviceInfo, KeyboardDefinition } from '../../../shared/types/protocol'
+
+const definition: KeyboardDefinition = {
+  name: 'Second Board',
+  matrix: { rows: 1, cols: 2 },
+  layouts: {
+    keymap: [['0,0', '0,1']],
+  },
+}
+
+const board: DeviceInfo = {
+  vendorId: 0x1234,
+  productId: 0x5678,
+  productName: 'Second Board',
+  serialNumber: 'vial:00000002',
+  type: 'vial',
+}
+
+// Device answers keyed by session method; vialProtocol 0 skips the dynamic-entry phases
+const deviceMethods: Record<string, (...args: unknown[]) => unknown> = {
+  getProtocolVersion: () => 9,
+  getKeyboardId: () => ({ vialProtocol: 0, uid: '0x2' }),
+  getLayerCount: () => 2,
+  getMacroCount: () => 0,
+  getMacroBufferSize: () => 0,
+  getDefinition: () => definition,
+  getLayoutOptions: () => 0,
+  getKeymapBuffer: (_offset, size) => new Array(size as number).fill(0),
+  getUnlockStatus: () => ({ unlocked: true, inProgress: false, keys: [] }),
+  setKeycode: () => undefined,
+  setTapDance: () => undefined,
+}
+
+const mockSessionOpen = vi.fn<(vid: number, pid: number, serial?: string) => Promise<string | null>>()
+const mockSessionClose = vi.fn<(id: string) => Promise<void>>()
+const mockSessionCall = vi.fn(async (_id: string, method: string, ...args: unknown[]) => deviceMethods[method](...args))
+let disconnectListener: ((device: DeviceInfo) => void) | null = null
+
+beforeEach(() => {
+  mockSessionOpen.mockReset().mockResolvedValue('/dev/hidraw1')
+  mockSessionClose.mockReset().mockResolvedValue(undefined)
+  mockSessionCall.mockClear()
+  disconnectListener = null
+  window.vialAPI = {
+    ...window.vialAPI,
+    sessionOpen: mockSessionOpen,
+    sessionClose: mockSessionClose,
+    sessionCall: mockSessionCall,
+    pipetteSettingsGet: vi.fn().mockResolvedValue(null),
+    onDeviceDisconnected: (cb: (device: DeviceInfo) => void) => {
+      disconnectListener = cb
+      return () => { disconnectListener = null }
+    },
+  } as unknown as typeof window.vialAPI
+})
+
+async function openBoard() {
+  const hook = renderHook(() => useDeviceSessions())
+  await act(async () => { await hook.result.current.openSession(board) })
+  return hook
+}
+
+describe('useDeviceSessions', () => {
+  it('opens a session and reads its keyboard state through it', async () => {
+    const { result } = await openBoard()
+
+    expect(mockSessionOpen).toHaveBeenCalledWith(0x1234, 0x5678, 'vial:00000002')
+    const [session] = result.current.sessions
+    expect(session.id).toBe('/dev/hidraw1')
+    expect(session.loading).toBe(false)
+    expect(session.state?.uid).toBe('0x2')
+    expect(session.state?.keymap.get('1,0,1')).toBe(0)
+    expect(mockSessionCall.mock.calls.every(([id]) => id === '/dev/hidraw1')).toBe(true)
+  })
+
+  it('adds nothing when the board cannot be opened', async () => {
+    mockSessionOpen.mockResolvedValue(null)
+    const { result } = renderHook(() => useDeviceSessions())
+
+    let id: string | null = 'x'
+    await act(async () => { id = await result.current.openSession(board) })
+    expect(id).toBeNull()
+    expect(result.current.sessions).toEqual([])
+  })
+
+  it('writes keys through the session and updates its cached state', async () => {
+    const { result } = await openBoard()
+
+    await act(async () => {
+      await result.current.setKeys('/dev/hidraw1', [{ layer: 1, row: 0, col: 0, keycode: 0x04 }])
+    })
+    expect(mockSessionCall).toHaveBeenCalledWith('/dev/hidraw1', 'setKeycode', 1, 0, 0, 0x04)
+    expect(result.current.sessions[0].state?.keymap.get('1,0,0')).toBe(0x04)
+  })
+
+  it('writes dynamic entries into the matching list', async () => {
+    const { result } = await openBoard()
+    const entry = { onTap: 0x04, onHold: 0, onDoubleTap: 0, onTapHold: 0, tappingTerm: 200 }
+
+    await act(async () => {
+      await result.current.setDynamicEntry('/dev/hidraw1', 'tapDance', 0, entry)
+    })
+    expect(mockSessionCall).toHaveBeenCalledWith('/dev/hidraw1', 'setTapDance', 0, entry)
+    expect(result.current.sessions[0].state?.tapDanceEntries).toEqual([entry])
+  })
+
+  it('closes the session when its board is unplugged', async () => {
+    const { result } = await openBoard()
+
+    await act(async () => { disconnectListener?.(board) })
+    expect(mockSessionClose).toHaveBeenCalledWith('/dev/hidraw1')
+    expect(result.current.sessions).toEqual([])
+  })
+
+  it('closes open sessions on unmount', async () => {
+    const { unmount } = await openBoard()
+    unmount()
+    expect(mockSessionClose).toHaveBeenCalledWith('/dev/hidraw1')
+  })
+})
@@ -647,11 +647,14 @@ describe('useFileIO – roundtrip', () => {
 // ---------------------------------------------------------------------------
 
 describe('useFileIO – exportKeymapC', () => {
-  const keymapCContent = '/* generated keymap.c */'
+  const keymapCFiles = [
+    { name: 'keymap.c', content: '/* generated keymap.c */' },
+    { name: 'rules.mk', content: 'COMBO_ENABLE = yes\n' },
+  ]
 
-  it('calls vialAPI.exportKeymapC with generated content', async () => {
+  it('calls vialAPI.exportKeymapC with the generated files', async () => {
     mockExportKeymapC.mockResolvedValueOnce({ success: true, filePath: '/tmp/keymap.c' })
-    const opts = createHookOptions({ keymapCGenerator: () => keymapCContent })
+    const opts = createHookOptions({ keymapCGenerator: () => keymapCFiles })
     const { result } = renderHook(() => useFileIO(opts))
 
     let ok: boolean | undefined
@@ -660,12 +663,12 @@ describe('useFileIO – exportKeymapC', () => {
     })
 
     expect(ok).toBe(true)
-    expect(mockExportKeymapC).toHaveBeenCalledWith(keymapCContent, 'Test Keyboard')
+    expect(mockExportKeymapC).toHaveBeenCalledWith(keymapCFiles, 'Test Keyboard')
   })
 
   it('returns false and shows no error when user cancels dialog', async () => {
     mockExportKeymapC.mockResolvedValueOnce({ success: false, error: 'cancelled' })
-    const opts = createHookOptions({ keymapCGenerator: () => keymapCContent })
+    const opts = createHookOptions({ keymapCGenerator: () => keymapCFiles })
     const { result } = renderHook(() => useFileIO(opts))
 
     let ok: boolean | undefined
@@ -679,7 +682,7 @@ describe('useFileIO – exportKeymapC', () => {
 
   it('returns false and sets error on IPC failure', async () => {
     mockExportKeymapC.mockResolvedValueOnce({ success: false, error: 'write error' })
-    const opts = createHookOptions({ keymapCGenerator: () => keymapCContent })
+    const opts = createHookOptions({ keymapCGenerator: () => keymapCFiles })
     const { result } = renderHook(() => useFileIO(opts))
 
     let ok: boolean | undefined
@@ -693,7 +696,7 @@ describe('useFileIO – exportKeymapC', () => {
 
   it('sets error on IPC exception', async () => {
     mockExportKeymapC.mockRejectedValueOnce(new Error('IPC crash'))
-    const opts = createHookOptions({ keymapCGenerator: () => keymapCContent })
+    const opts = createHookOptions({ keymapCGenerator: () => keymapCFiles })
     const { result } = renderHook(() => useFileIO(opts))
 
     let ok: boolean | undefined
@@ -0,0 +1,197 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useFirmwareFlash } from '../useFirmwareFlash'
+import type { DeviceInfo } from '../../../shared/types/protocol'
+import type { FirmwareFlashProgress } from '../../../shared/types/firmware'
+import { EMPTY_UID } from '../../../shared/constants/protocol'
+
+const UID = '0x004b504754524956'
+
+const keyboard: DeviceInfo = {
+  vendorId: 0x7a79,
+  productId: 0xf063,
+  productName: 'Test Keyboard',
+  serialNumber: 'vial:f64c2b3c',
+  type: 'vial',
+}
+
+const bootloader: DeviceInfo = { ...keyboard, serialNumber: 'vibl:d4f8159c', type: 'bootloader' }
+
+const mockSelectFile = vi.fn()
+const mockFlash = vi.fn()
+const mockReadUid = vi.fn()
+let progressListener: ((p: FirmwareFlashProgress) => void) | null = null
+const mockUnsubscribe = vi.fn()
+
+interface Props {
+  devices: DeviceInfo[]
+  connectedDevice: DeviceInfo | null
+  keyboardUid: string
+  keyboardLoading: boolean
+}
+
+function setup(initial: Props) {
+  const connect = vi.fn(async () => {})
+  const saveSnapshot = vi.fn(async () => 'snap-1')
+  const restoreSnapshot = vi.fn(async () => true)
+  const setPollSuspended = vi.fn()
+  const setDisconnectExpected = vi.fn()
+  const hook = renderHook((props: Props) => useFirmwareFlash({
+    ...props,
+    isDummy: false,
+    deviceName: 'Test Keyboard',
+    connect,
+    setPollSuspended,
+    setDisconnectExpected,
+    saveSnapshot,
+    restoreSnapshot,
+  }), { initialProps: initial })
+  return { ...hook, connect, saveSnapshot, restoreSnapshot, setPollSuspended, setDisconnectExpected }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  progressListener = null
+  mockSelectFile.mockResolvedValue({
+    success: true,
+    firmware: { fileName: 'board.bin', format: 'bin', size: 128, sha256: 'ab' },
+  })
+  mockFlash.mockImplementation(async () => {
+    progressListener?.({ phase: 'flashing', written: 64, total: 128 })
+    return { success: true, bootloaderUid: UID }
+  })
+  window.vialAPI = {
+    ...window.vialAPI,
+    firmwareSelectFile: mockSelectFile,
+    firmwareFlash: mockFlash,
+    firmwareReadBootloaderUid: mockReadUid,
+    firmwareOnProgress: (cb: (p: FirmwareFlashProgress) => void) => {
+      progressListener = cb
+      return mockUnsubscribe
+    },
+  } as unknown as typeof window.vialAPI
+})
+
+describe('useFirmwareFlash', () => {
+  it('runs snapshot → bootloader → flash → reconnect → verify → restore', async () => {
+    const connected = { devices: [keyboard], connectedDevice: keyboard, keyboardUid: UID, keyboardLoading: false }
+    const { result, rerender, connect, saveSnapshot, restoreSnapshot, setPollSuspended, setDisconnectExpected } = setup(connected)
+
+    act(() => result.current.start())
+    expect(result.current.step).toBe('prepare')
+
+    await act(async () => { await result.current.prepare('Before firmware update') })
+    expect(saveSnapshot).toHaveBeenCalledWith('Before firmware update')
+    expect(setDisconnectExpected).toHaveBeenCalledWith(true)
+    expect(result.current.target).toMatchObject({ uid: UID, snapshotId: 'snap-1', vendorId: keyboard.vendorId })
+    expect(result.current.step).toBe('waitBootloader')
+
+    // Keyboard drops off the bus and comes back as its bootloader
+    rerender({ devices: [bootloader], connectedDevice: null, keyboardUid: UID, keyboardLoading: false })
+    expect(result.current.step).toBe('ready')
+    expect(result.current.bootloader).toEqual(bootloader)
+
+    await act(async () => { await result.current.selectFile() })
+    expect(result.current.firmware?.fileName).toBe('board.bin')
+
+    await act(async () => { await result.current.flash() })
+    expect(mockFlash).toHaveBeenCalledWith(bootloader.vendorId, bootloader.productId, { expectedUid: UID, enableInsecure: true })
+    expect(result.current.progress).toEqual({ phase: 'flashing', written: 64, total: 128 })
+    expect(setPollSuspended.mock.calls).toEqual([[true], [false]])
+    expect(mockUnsubscribe).toHaveBeenCalled()
+    expect(result.current.step).toBe('reconnecting')
+
+    // Rebooted keyboard re-enumerates → reconnect, then reload with the same uid
+    rerender({ devices: [keyboard], connectedDevice: null, keyboardUid: UID, keyboardLoading: false })
+    expect(connect).toHaveBeenCalledWith(keyboard)
+    rerender({ devices: [keyboard], connectedDevice: keyboard, keyboardUid: UID, keyboardLoading: false })
+    expect(result.current.step).toBe('reconnecting')
+    rerender({ devices: [keyboard], connectedDevice: keyboard, keyboardUid: EMPTY_UID, keyboardLoading: true })
+    rerender({ devices: [keyboard], connectedDevice: keyboard, keyboardUid: UID, keyboardLoading: false })
+    expect(result.current.step).toBe('verified')
+
+    await act(async () => { await result.current.restore() })
+    expect(restoreSnapshot).toHaveBeenCalledWith('snap-1')
+    expect(result.current.step).toBe('restored')
+  })
+
+  it('fails verification when the keyboard comes back with another uid', async () => {
+    const { result, rerender } = setup({ devices: [keyboard], connectedDevice: keyboard, keyboardUid: UID, keyboardLoading: false })
+    act(() => result.current.start())
+    await act(async () => { await result.current.prepare('snap') })
+    rerender({ devices: [bootloader], connectedDevice: null, keyboardUid: UID, keyboardLoading: false })
+    await act(async () => { await result.current.selectFile() })
+    await act(async () => { await result.current.flash() })
+
+    rerender({ devices: [keyboard], connectedDevice: keyboard, keyboardUid: EMPTY_UID, keyboardLoading: true })
+    rerender({ devices: [keyboard], connectedDevice: keyboard, keyboardUid: '0x1122334455667788', keyboardLoading: false })
+    expect(result.current.step).toBe('failed')
+    expect(result.current.error).toBe('uid changed')
+  })
+
+  it('surfaces a rejected flash without reconnecting', async () => {
+    mockFlash.mockResolvedValue({ success: false, error: 'uid mismatch' })
+    const { result, rerender, connect } = setup({ devices: [keyboard], connectedDevice: keyboard, keyboardUid: UID, keyboardLoading: false })
+    act(() => result.current.start())
+    await act(async () => { await result.current.prepare('snap') })
+    rerender({ devices: [bootloader], connectedDevice: null, keyboardUid: UID, keyboardLoading: false })
+    await act(async () => { await result.current.selectFile() })
+    await act(async () => { await result.current.flash() })
+
+    expect(result.current.step).toBe('failed')
+    expect(result.current.error).toBe('uid mismatch')
+    rerender({ devices: [keyboard], connectedDevice: null, keyboardUid: UID, keyboardLoading: false })
+    expect(connect).not.toHaveBeenCalled()
+  })
+
+  it('flashes a package onto a bootloader picked from the device list', async () => {
+    mockReadUid.mockResolvedValue({ success: true, uid: UID })
+    mockSelectFile.mockResolvedValue({
+      success: true,
+      firmware: { fileName: 'board.vfw', format: 'vfw', size: 128, sha256: 'ab', uid: UID },
+    })
+    const { result, connect } = setup({ devices: [bootloader], connectedDevice: null, keyboardUid: EMPTY_UID, keyboardLoading: false })
+    await act(async () => { await result.current.openForBootloader(bootloader) })
+    expect(mockReadUid).toHaveBeenCalledWith(bootloader.vendorId, bootloader.productId)
+    expect(result.current.step).toBe('ready')
+    expect(result.current.target).toMatchObject({ uid: UID, deviceName: 'Test Keyboard', snapshotId: null, fromBootloader: true })
+
+    await act(async () => { await result.current.selectFile() })
+    await act(async () => { await result.current.flash() })
+    expect(mockFlash).toHaveBeenCalledWith(bootloader.vendorId, bootloader.productId, {
+      expectedUid: UID, enableInsecure: false, requirePackage: true,
+    })
+    // The keyboard's own VID/PID are unknown, so the flow ends without a reconnect
+    expect(result.current.step).toBe('flashed')
+    expect(connect).not.toHaveBeenCalled()
+  })
+
+  it('refuses a raw image for a bootloader picked from the device list', async () => {
+    mockReadUid.mockResolvedValue({ success: true, uid: UID })
+    const { result } = setup({ devices: [bootloader], connectedDevice: null, keyboardUid: EMPTY_UID, keyboardLoading: false })
+    await act(async () => { await result.current.openForBootloader(bootloader) })
+    await act(async () => { await result.current.selectFile() })
+    await act(async () => { await result.current.flash() })
+    expect(mockFlash).not.toHaveBeenCalled()
+    expect(result.current.step).toBe('failed')
+    expect(result.current.error).toBe('package required')
+  })
+
+  it('fails a picked bootloader that has no uid set', async () => {
+    mockReadUid.mockResolvedValue({ success: true, uid: null })
+    const { result } = setup({ devices: [bootloader], connectedDevice: null, keyboardUid: EMPTY_UID, keyboardLoading: false })
+    await act(async () => { await result.current.openForBootloader(bootloader) })
+    expect(result.current.step).toBe('failed')
+    expect(result.current.error).toBe('uid not set')
+    expect(result.current.target).toBeNull()
+  })
+
+  it('does not start for a disconnected keyboard', () => {
+    const { result } = setup({ devices: [], connectedDevice: null, keyboardUid: EMPTY_UID, keyboardLoading: false })
+    act(() => result.current.start())
+    expect(result.current.step).toBe('idle')
+  })
+})
@@ -13,6 +13,7 @@ import { useState, useRef } from 'react'
 import { useKeyboardPersistence } from '../useKeyboardPersistence'
 import { emptyState } from '../keyboard-types'
 import type { KeyboardState, BootGuardRef } from '../keyboard-types'
+import { recordToMap } from '../../../shared/vil-file'
 import { VALID_VIL, MODIFIED_VIL } from './fixtures/valid-vil'
 
 function useHarness(initial?: Partial<KeyboardState>) {
@@ -94,3 +95,109 @@ describe('useKeyboardPersistence — applyVilFile keymapRestoreSeq bump', () =>
     expect(result.current.state.keymap.size).toBe(0)
   })
 })
+
+describe('useKeyboardPersistence — restore verification', () => {
+  const connected: Partial<KeyboardState> = {
+    isDummy: false,
+    viaProtocol: 9,
+    layers: 1,
+    rows: 2,
+    cols: 10,
+    unlockStatus: { unlocked: true, inProgress: false, keys: [] },
+  }
+
+  beforeEach(() => {
+    window.vialAPI = {
+      ...window.vialAPI,
+      setKeymapBuffer: vi.fn().mockResolvedValue(undefined),
+      // A board that ignores every keymap write
+      getKeymapBuffer: vi.fn(async (_offset: number, size: number) => new Array(size).fill(0)),
+      setEncoder: vi.fn().mockResolvedValue(undefined),
+      getEncoder: vi.fn().mockResolvedValue([0x81, 0x80]),
+      setMacroBuffer: vi.fn().mockResolvedValue(undefined),
+      getMacroBuffer: vi.fn().mockResolvedValue([0]),
+      setLayoutOptions: vi.fn().mockResolvedValue(undefined),
+      getLayoutOptions: vi.fn().mockResolvedValue(0),
+      setTapDance: vi.fn().mockResolvedValue(undefined),
+      getTapDance: vi.fn().mockResolvedValue(VALID_VIL.tapDance[0]),
+      setCombo: vi.fn().mockResolvedValue(undefined),
+      getCombo: vi.fn().mockResolvedValue(VALID_VIL.combo[0]),
+      setKeyOverride: vi.fn().mockResolvedValue(undefined),
+      getKeyOverride: vi.fn().mockResolvedValue(VALID_VIL.keyOverride[0]),
+      setAltRepeatKey: vi.fn().mockResolvedValue(undefined),
+      getAltRepeatKey: vi.fn().mockResolvedValue(VALID_VIL.altRepeatKey[0]),
+      qmkSettingsSet: vi.fn().mockResolvedValue(undefined),
+      qmkSettingsGet: vi.fn(async (qsid: number) => VALID_VIL.qmkSettings[String(qsid)]),
+    } as unknown as typeof window.vialAPI
+  })
+
+  it('offers the pre-restore layout when the keymap does not read back', async () => {
+    const { result } = renderHook(() => useHarness(connected))
+
+    await act(async () => {
+      await result.current.applyVilFile(VALID_VIL)
+    })
+
+    const verification = result.current.state.restoreVerification
+    expect(verification?.mismatches).toHaveLength(Object.keys(VALID_VIL.keymap).length)
+    expect(verification?.previous?.keymap).toEqual({})
+    expect(result.current.state.restoreProgress).toBeNull()
+  })
+
+  it('offers a rollback when a write fails partway', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(window.vialAPI.setTapDance).mockRejectedValueOnce(new Error('timeout'))
+    const tapDance = [{ ...VALID_VIL.tapDance[0], tappingTerm: 200 }]
+    const { result } = renderHook(() => useHarness({
+      ...connected,
+      keymap: recordToMap(VALID_VIL.keymap),
+      encoderLayout: recordToMap(VALID_VIL.encoderLayout),
+      macroBuffer: VALID_VIL.macros,
+      tapDanceEntries: VALID_VIL.tapDance,
+      comboEntries: VALID_VIL.combo,
+      keyOverrideEntries: VALID_VIL.keyOverride,
+      altRepeatKeyEntries: VALID_VIL.altRepeatKey,
+      qmkSettingsValues: VALID_VIL.qmkSettings,
+    }))
+
+    await act(async () => {
+      await result.current.applyVilFile({ ...MODIFIED_VIL, tapDance })
+    })
+
+    expect(window.vialAPI.setKeymapBuffer).toHaveBeenCalledTimes(1)
+    const verification = result.current.state.restoreVerification
+    expect(verification?.mismatches).toEqual(['tap_dance 0'])
+    expect(verification?.previous?.tapDance).toEqual(VALID_VIL.tapDance)
+    expect(result.current.state.restoreProgress).toBeNull()
+
+    vi.mocked(window.vialAPI.setKeymapBuffer).mockClear()
+    await act(async () => {
+      await result.current.rollbackRestore()
+    })
+    expect(window.vialAPI.setKeymapBuffer).toHaveBeenCalledTimes(1)
+    expect(window.vialAPI.setTapDance).toHaveBeenLastCalledWith(0, VALID_VIL.tapDance[0])
+    expect(result.current.state.keymap).toEqual(recordToMap(VALID_VIL.keymap))
+  })
+
+  it('rolls back once and does not offer to roll back the rollback', async () => {
+    const { result } = renderHook(() => useHarness({ ...connected, keymap: new Map([['0,0,0', 0x29]]) }))
+
+    await act(async () => {
+      await result.current.applyVilFile(MODIFIED_VIL)
+    })
+    vi.mocked(window.vialAPI.setKeymapBuffer).mockClear()
+
+    await act(async () => {
+      await result.current.rollbackRestore()
+    })
+
+    expect(window.vialAPI.setKeymapBuffer).toHaveBeenCalledWith(0, [0x00, 0x29])
+    expect(result.current.state.keymap.get('0,0,0')).toBe(0x29)
+    expect(result.current.state.restoreVerification?.previous).toBeNull()
+
+    act(() => {
+      result.current.dismissRestoreVerification()
+    })
+    expect(result.current.state.restoreVerification).toBeNull()
+  })
+})
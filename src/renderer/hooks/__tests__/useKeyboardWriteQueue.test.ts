@@ -0,0 +1,93 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// @vitest-environment jsdom
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useKeyboardWriteQueue } from '../useKeyboardWriteQueue'
+
+const mockIsDeviceOpen = vi.fn<() => Promise<boolean>>()
+
+beforeEach(() => {
+  mockIsDeviceOpen.mockReset().mockResolvedValue(true)
+  window.vialAPI = {
+    ...window.vialAPI,
+    isDeviceOpen: mockIsDeviceOpen,
+  } as unknown as typeof window.vialAPI
+})
+
+describe('useKeyboardWriteQueue', () => {
+  it('writes straight through while online', async () => {
+    const { result } = renderHook(() => useKeyboardWriteQueue())
+    const write = vi.fn(async () => {})
+
+    await act(async () => { await result.current.writeOrQueue('key:0,0,0', write) })
+    expect(write).toHaveBeenCalledTimes(1)
+    expect(result.current.pendingWriteCount).toBe(0)
+  })
+
+  it('keeps only the latest write per key while offline and replays on flush', async () => {
+    const { result } = renderHook(() => useKeyboardWriteQueue())
+    const order: string[] = []
+    act(() => result.current.setOffline(true))
+
+    await act(async () => {
+      await result.current.writeOrQueue('key:0,0,0', async () => { order.push('a1') })
+      await result.current.writeOrQueue('macroBuffer', async () => { order.push('m') })
+      await result.current.writeOrQueue('key:0,0,0', async () => { order.push('a2') })
+    })
+    expect(order).toEqual([])
+    expect(result.current.pendingWriteCount).toBe(2)
+
+    act(() => result.current.setOffline(false))
+    let flushed = false
+    await act(async () => { flushed = await result.current.flushPendingWrites() })
+    expect(flushed).toBe(true)
+    expect(order).toEqual(['m', 'a2'])
+    expect(result.current.pendingWriteCount).toBe(0)
+  })
+
+  it('stops flushing at the first failure and keeps the rest', async () => {
+    const { result } = renderHook(() => useKeyboardWriteQueue())
+    const second = vi.fn(async () => {})
+    act(() => result.current.setOffline(true))
+    await act(async () => {
+      await result.current.writeOrQueue('combo:0', async () => { throw new Error('gone') })
+      await result.current.writeOrQueue('combo:1', second)
+    })
+
+    act(() => result.current.setOffline(false))
+    let flushed = true
+    await act(async () => { flushed = await result.current.flushPendingWrites() })
+    expect(flushed).toBe(false)
+    expect(second).not.toHaveBeenCalled()
+    expect(result.current.pendingWriteCount).toBe(2)
+  })
+
+  it('queues a write that fails because the device just went away', async () => {
+    mockIsDeviceOpen.mockResolvedValue(false)
+    const { result } = renderHook(() => useKeyboardWriteQueue())
+
+    await act(async () => {
+      await result.current.writeOrQueue('layoutOptions', async () => { throw new Error('write failed') })
+    })
+    expect(result.current.pendingWriteCount).toBe(1)
+  })
+
+  it('rethrows a failed write while the device is still open', async () => {
+    const { result } = renderHook(() => useKeyboardWriteQueue())
+
+    await expect(
+      result.current.writeOrQueue('layoutOptions', async () => { throw new Error('write failed') }),
+    ).rejects.toThrow('write failed')
+    expect(result.current.pendingWriteCount).toBe(0)
+  })
+
+  it('discards the queue', async () => {
+    const { result } = renderHook(() => useKeyboardWriteQueue())
+    act(() => result.current.setOffline(true))
+    await act(async () => { await result.current.writeOrQueue('vialRGB', async () => {}) })
+
+    act(() => result.current.discardPendingWrites())
+    expect(result.current.pendingWriteCount).toBe(0)
+  })
+})
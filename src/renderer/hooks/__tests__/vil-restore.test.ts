@@ -0,0 +1,124 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { writeVilDiff } from '../vil-restore'
+import { emptyState } from '../keyboard-types'
+import type { KeyboardState } from '../keyboard-types'
+import { recordToMap } from '../../../shared/vil-file'
+import { VALID_VIL, MODIFIED_VIL } from './fixtures/valid-vil'
+
+// Board state matching VALID_VIL on a 2x10 matrix
+function boardState(viaProtocol: number): KeyboardState {
+  return {
+    ...emptyState(),
+    viaProtocol,
+    layers: 1,
+    rows: 2,
+    cols: 10,
+    keymap: recordToMap(VALID_VIL.keymap),
+    encoderLayout: recordToMap(VALID_VIL.encoderLayout),
+    macroBuffer: VALID_VIL.macros,
+    layoutOptions: VALID_VIL.layoutOptions,
+    tapDanceEntries: VALID_VIL.tapDance,
+    comboEntries: VALID_VIL.combo,
+    keyOverrideEntries: VALID_VIL.keyOverride,
+    altRepeatKeyEntries: VALID_VIL.altRepeatKey,
+    qmkSettingsValues: VALID_VIL.qmkSettings,
+  }
+}
+
+// Raw keymap buffer the fake device reads and writes
+let deviceKeymap: number[]
+
+const api = {
+  setKeycode: vi.fn(async (layer: number, row: number, col: number, code: number) => {
+    const offset = (layer * 20 + row * 10 + col) * 2
+    deviceKeymap[offset] = code >> 8
+    deviceKeymap[offset + 1] = code & 0xff
+  }),
+  setKeymapBuffer: vi.fn(async (offset: number, data: number[]) => {
+    deviceKeymap.splice(offset, data.length, ...data)
+  }),
+  getKeymapBuffer: vi.fn(async (offset: number, size: number) => deviceKeymap.slice(offset, offset + size)),
+  setEncoder: vi.fn(),
+  getEncoder: vi.fn(),
+  setMacroBuffer: vi.fn(),
+  getMacroBuffer: vi.fn(),
+  setLayoutOptions: vi.fn(),
+  getLayoutOptions: vi.fn(),
+  setTapDance: vi.fn(),
+  getTapDance: vi.fn(),
+  setCombo: vi.fn(),
+  getCombo: vi.fn(),
+  setKeyOverride: vi.fn(),
+  getKeyOverride: vi.fn(),
+  setAltRepeatKey: vi.fn(),
+  getAltRepeatKey: vi.fn(),
+  qmkSettingsSet: vi.fn(),
+  qmkSettingsGet: vi.fn(),
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  deviceKeymap = new Array(40).fill(0)
+})
+
+describe('writeVilDiff', () => {
+  it('writes nothing when the file matches the board', async () => {
+    const result = await writeVilDiff(api, boardState(9), VALID_VIL)
+
+    expect(result).toEqual({ writes: 0, written: 0, mismatches: [] })
+    expect(api.setKeymapBuffer).not.toHaveBeenCalled()
+    expect(api.setTapDance).not.toHaveBeenCalled()
+    expect(api.qmkSettingsSet).not.toHaveBeenCalled()
+  })
+
+  it('sends the changed cells as one set_buffer run on VIA protocol 9', async () => {
+    const onProgress = vi.fn()
+    const result = await writeVilDiff(api, boardState(9), MODIFIED_VIL, onProgress)
+
+    expect(api.setKeymapBuffer).toHaveBeenCalledWith(0, [0x00, 0x04, 0x00, 0x05])
+    expect(api.setKeycode).not.toHaveBeenCalled()
+    expect(onProgress).toHaveBeenCalledWith(1, 1)
+    expect(result).toEqual({ writes: 1, written: 1, mismatches: [] })
+  })
+
+  it('falls back to one set_keycode per changed cell on older boards', async () => {
+    const result = await writeVilDiff(api, boardState(8), MODIFIED_VIL)
+
+    expect(api.setKeycode.mock.calls).toEqual([[0, 0, 0, 0x04], [0, 0, 1, 0x05]])
+    expect(result.mismatches).toEqual([])
+  })
+
+  it('reports cells that do not read back as written', async () => {
+    api.setKeymapBuffer.mockImplementationOnce(async (offset: number, data: number[]) => {
+      deviceKeymap.splice(offset, 2, ...data.slice(0, 2))
+    })
+
+    const result = await writeVilDiff(api, boardState(9), MODIFIED_VIL)
+
+    expect(result.mismatches).toEqual(['keymap 0,0,1'])
+  })
+
+  it('stops at a write that fails and reports what it did not send', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    api.setKeycode.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('timeout'))
+    const tapDance = [{ ...VALID_VIL.tapDance[0], tappingTerm: 200 }]
+
+    const result = await writeVilDiff(api, boardState(8), { ...MODIFIED_VIL, tapDance })
+
+    expect(result).toEqual({ writes: 3, written: 1, mismatches: ['keymap 0,0,1', 'tap_dance 0'] })
+    expect(api.setTapDance).not.toHaveBeenCalled()
+    expect(api.getKeymapBuffer).not.toHaveBeenCalled()
+  })
+
+  it('verifies changed dynamic entries against what the board returns', async () => {
+    const tapDance = [{ ...VALID_VIL.tapDance[0], tappingTerm: 200 }]
+    api.getTapDance.mockResolvedValue(VALID_VIL.tapDance[0])
+
+    const result = await writeVilDiff(api, boardState(9), { ...VALID_VIL, tapDance })
+
+    expect(api.setTapDance).toHaveBeenCalledWith(0, tapDance[0])
+    expect(result.mismatches).toEqual(['tap_dance 0'])
+  })
+})
@@ -3,6 +3,7 @@
 import type { KeyboardLayoutId } from '../data/keyboard-layouts'
 import type { KeymapRewriteTable } from '../../shared/keymap/keymap-apply'
 import type { RemapKind } from '../components/keyboard/constants'
+import type { HostLayoutMap } from '../../preload/macro-unicode'
 import type { TypingTestResult, ViewMode, TypingTestMemory, TypingTestComparisonBaseline, TypingTestComparisonBaselines, ViewMatrixCell } from '../../shared/types/pipette-settings'
 import type { TypingTestConfig } from '../typing-test/types'
 import type { AutoLockMinutes, BasicViewType, SplitKeyMode } from '../../shared/types/app-config'
@@ -139,4 +140,8 @@ export interface UseDevicePrefsReturn {
    *  (nothing to permute), so it already resolves to identity without a
    *  separate guard. */
   pickerRemapLabel: (qmkId: string) => string
+  /** The host layout unicode macro actions are typed through: the active
+   *  pack's map, or `null` (US QWERTY) while none is loaded. Passed to
+   *  macro expansion / serialization for this board. */
+  hostLayout: HostLayoutMap | null
 }
@@ -9,6 +9,9 @@ import type {
   AltRepeatKeyEntry,
   DynamicEntryCounts,
   UnlockStatus,
+  VilFile,
+  HsvColor,
+  LightingScene,
 } from '../../shared/types/protocol'
 import type { MacroAction } from '../../preload/macro'
 import type { KeyboardLayout } from '../../shared/kle/types'
@@ -71,6 +74,10 @@ export interface KeyboardState {
   vialRGBHue: number
   vialRGBSat: number
   vialRGBVal: number
+  /** Direct Control colors in LED index order, as last sent by the painter. */
+  vialRGBDirectColors: HsvColor[]
+  /** Saved Direct Control frames, stored with snapshots and .vil exports. */
+  lightingScenes: LightingScene[]
   // QMK Settings
   supportedQsids: Set<number>
   // QMK Settings snapshot for .vil serialization
@@ -88,6 +95,17 @@ export interface KeyboardState {
   // the current value forward instead of zeroing it via `emptyState()`,
   // so consumers can watch for a plain change rather than an increase.
   keymapRestoreSeq: number
+  // Device writes done / needed by the `applyVilFile` in flight, null otherwise
+  restoreProgress: { done: number; total: number } | null
+  // Set when a restore's read-back did not match what was written; holds
+  // the layout from before the restore so the user can roll back to it
+  restoreVerification: RestoreVerification | null
+}
+
+export interface RestoreVerification {
+  mismatches: string[]
+  // null when the failed restore was itself a rollback
+  previous: VilFile | null
 }
 
 export function emptyState(): KeyboardState {
@@ -134,10 +152,14 @@ export function emptyState(): KeyboardState {
     vialRGBHue: 0,
     vialRGBSat: 0,
     vialRGBVal: 0,
+    vialRGBDirectColors: [],
+    lightingScenes: [],
     supportedQsids: new Set(),
     qmkSettingsValues: {},
     layerNames: [],
     keymapRestoreSeq: 0,
+    restoreProgress: null,
+    restoreVerification: null,
   }
 }
 
@@ -151,6 +173,9 @@ export interface BootGuardRef {
 
 export type SetState = React.Dispatch<React.SetStateAction<KeyboardState>>
 
+/** Sends a device write now, or queues it under `key` while the keyboard is offline. */
+export type WriteOrQueue = (key: string, fn: () => Promise<void>) => Promise<void>
+
 export interface KeyboardRefs {
   stateRef: React.MutableRefObject<KeyboardState>
   qmkSettingsBaselineRef: React.MutableRefObject<Record<string, number[]>>
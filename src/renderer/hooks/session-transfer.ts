@@ -0,0 +1,184 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Copy/paste between device sessions. Copies are taken from a board's
+// KeyboardState and pasted as a plan of writes against another board's
+// state; keycodes are carried across vial protocol versions by name.
+
+import type {
+  TapDanceEntry,
+  ComboEntry,
+  KeyOverrideEntry,
+  AltRepeatKeyEntry,
+} from '../../shared/types/protocol'
+import {
+  type MacroAction,
+  deserializeAllMacros,
+  serializeAllMacros,
+} from '../../preload/macro'
+import type { HostLayoutMap } from '../../preload/macro-unicode'
+import { serialize, deserialize } from '../../shared/keycodes/keycodes'
+import { withDeserializeProtocol, withSerializeProtocol } from '../../shared/keycodes/with-protocol'
+import { serializeFavData, deserializeFavData } from '../../shared/favorite-data'
+import type { BulkKeyEntry, KeyboardState } from './keyboard-types'
+
+export interface DynamicEntryMap {
+  tapDance: TapDanceEntry
+  combo: ComboEntry
+  keyOverride: KeyOverrideEntry
+  altRepeatKey: AltRepeatKeyEntry
+}
+
+export type DynamicEntryKind = keyof DynamicEntryMap
+
+export const DYNAMIC_ENTRY_KINDS: readonly DynamicEntryKind[] = ['tapDance', 'combo', 'keyOverride', 'altRepeatKey']
+
+export interface EncoderEntry {
+  layer: number
+  idx: number
+  direction: number
+  keycode: number
+}
+
+export type SessionClipboard =
+  | {
+      kind: 'layer'
+      vialProtocol: number
+      keys: Map<string, number> // "row,col" -> keycode
+      encoders: Map<string, number> // "idx,dir" -> keycode
+    }
+  | { kind: 'macro'; vialProtocol: number; actions: MacroAction[] }
+  | {
+      [K in DynamicEntryKind]: { kind: K; vialProtocol: number; entry: DynamicEntryMap[K] }
+    }[DynamicEntryKind]
+
+export function dynamicEntries<K extends DynamicEntryKind>(
+  state: KeyboardState,
+  kind: K,
+): DynamicEntryMap[K][] {
+  const lists: { [P in DynamicEntryKind]: DynamicEntryMap[P][] } = {
+    tapDance: state.tapDanceEntries,
+    combo: state.comboEntries,
+    keyOverride: state.keyOverrideEntries,
+    altRepeatKey: state.altRepeatKeyEntries,
+  }
+  return lists[kind]
+}
+
+/** Re-resolve keycodes recorded under `from` for a board speaking `to`. */
+export function translateKeycodes(codes: number[], from: number, to: number): number[] {
+  if (from === to || codes.length === 0) return codes
+  const names = withSerializeProtocol(from, () => codes.map((code) => serialize(code)))
+  return withDeserializeProtocol(to, () => names.map((name) => deserialize(name)))
+}
+
+export function copyLayer(state: KeyboardState, layer: number): SessionClipboard {
+  const keys = new Map<string, number>()
+  const prefix = `${layer},`
+  for (const [pos, code] of state.keymap) {
+    if (pos.startsWith(prefix)) keys.set(pos.slice(prefix.length), code)
+  }
+  const encoders = new Map<string, number>()
+  for (const [pos, code] of state.encoderLayout) {
+    if (pos.startsWith(prefix)) encoders.set(pos.slice(prefix.length), code)
+  }
+  return { kind: 'layer', vialProtocol: state.vialProtocol, keys, encoders }
+}
+
+export function copyMacro(state: KeyboardState, index: number): SessionClipboard {
+  const macros = state.parsedMacros
+    ?? deserializeAllMacros(state.macroBuffer, state.vialProtocol, state.macroCount)
+  return { kind: 'macro', vialProtocol: state.vialProtocol, actions: macros[index] ?? [] }
+}
+
+export function copyDynamicEntry(
+  state: KeyboardState,
+  kind: DynamicEntryKind,
+  index: number,
+): SessionClipboard | null {
+  const entry = dynamicEntries(state, kind)[index]
+  if (!entry) return null
+  return { kind, vialProtocol: state.vialProtocol, entry } as SessionClipboard
+}
+
+export interface LayerPastePlan {
+  keys: BulkKeyEntry[]
+  encoders: EncoderEntry[]
+  /** Copied positions that do not exist on the target matrix */
+  skipped: number
+}
+
+/**
+ * Writes that make `layer` on the target match the copied layer. Matrix
+ * positions and encoders missing on the target are skipped, and keys that
+ * already hold the value are left alone.
+ */
+export function planLayerPaste(
+  clip: Extract<SessionClipboard, { kind: 'layer' }>,
+  target: KeyboardState,
+  layer: number,
+): LayerPastePlan {
+  const keyPositions = [...clip.keys.keys()]
+  const keyCodes = translateKeycodes([...clip.keys.values()], clip.vialProtocol, target.vialProtocol)
+  const encoderPositions = [...clip.encoders.keys()]
+  const encoderCodes = translateKeycodes([...clip.encoders.values()], clip.vialProtocol, target.vialProtocol)
+
+  const plan: LayerPastePlan = { keys: [], encoders: [], skipped: 0 }
+  keyPositions.forEach((pos, i) => {
+    const current = target.keymap.get(`${layer},${pos}`)
+    if (current === undefined) {
+      plan.skipped++
+      return
+    }
+    if (current === keyCodes[i]) return
+    const [row, col] = pos.split(',').map(Number)
+    plan.keys.push({ layer, row, col, keycode: keyCodes[i] })
+  })
+  encoderPositions.forEach((pos, i) => {
+    const current = target.encoderLayout.get(`${layer},${pos}`)
+    if (current === undefined) {
+      plan.skipped++
+      return
+    }
+    if (current === encoderCodes[i]) return
+    const [idx, direction] = pos.split(',').map(Number)
+    plan.encoders.push({ layer, idx, direction, keycode: encoderCodes[i] })
+  })
+  return plan
+}
+
+/**
+ * The target's full macro buffer with macro `index` replaced by the copied
+ * one, or null when the result does not fit the target's macro memory.
+ * Unicode actions are typed through the target's `hostLayout`.
+ */
+export function planMacroPaste(
+  clip: Extract<SessionClipboard, { kind: 'macro' }>,
+  target: KeyboardState,
+  index: number,
+  hostLayout: HostLayoutMap | null = null,
+): { buffer: number[]; macros: MacroAction[][] } | null {
+  const actions = clip.actions.map((action): MacroAction => {
+    if (action.type !== 'tap' && action.type !== 'down' && action.type !== 'up') return action
+    return { ...action, keycodes: translateKeycodes(action.keycodes, clip.vialProtocol, target.vialProtocol) }
+  })
+  const macros = [
+    ...(target.parsedMacros
+      ?? deserializeAllMacros(target.macroBuffer, target.vialProtocol, target.macroCount)),
+  ]
+  while (macros.length < target.macroCount) macros.push([])
+  macros[index] = actions
+  const buffer = serializeAllMacros(macros, target.vialProtocol, hostLayout)
+  if (buffer.length > target.macroBufferSize) return null
+  return { buffer, macros }
+}
+
+/** The copied dynamic entry with its keycodes resolved for the target. */
+export function planDynamicEntryPaste<K extends DynamicEntryKind>(
+  clip: { kind: K; vialProtocol: number; entry: DynamicEntryMap[K] },
+  target: KeyboardState,
+): DynamicEntryMap[K] {
+  if (clip.vialProtocol === target.vialProtocol) return clip.entry
+  const named = withSerializeProtocol(clip.vialProtocol, () => serializeFavData(clip.kind, clip.entry, serialize))
+  return withDeserializeProtocol(target.vialProtocol, () =>
+    deserializeFavData(clip.kind, named, deserialize),
+  ) as DynamicEntryMap[K]
+}
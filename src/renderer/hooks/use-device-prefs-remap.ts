@@ -144,5 +144,8 @@ export function useDevicePrefsRemap(layout: KeyboardLayoutId) {
     activeRewriteTable: activeRewriteTable as KeymapRewriteTable | undefined,
     activeLayoutName,
     pickerRemapLabel,
+    // Unicode macro actions are typed through the host layout, so macro
+    // serialization follows the same pack the legends show
+    hostLayout: activeMap ?? null,
   }
 }
@@ -1,14 +1,16 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
-// Keymap-C / PDF export generator callbacks fed into useFileIO. Split out
+// Keymap-C / PDF / ZMK export generator callbacks fed into useFileIO. Split out
 // of App.tsx (Task-split-app-tsx) — pure move, same generators and
 // dependency arrays as before.
 
 import { useCallback } from 'react'
 import type { useKeyboard } from './useKeyboard'
 import type { decodeLayoutOptions } from '../../shared/kle/layout-options'
-import type { deserializeAllMacros } from '../../preload/macro'
-import { generateKeymapC } from '../../shared/keymap-export'
+import { expandMacroActions, type MacroAction } from '../../preload/macro'
+import type { HostLayoutMap } from '../../preload/macro-unicode'
+import { generateKeymapExportFiles } from '../../shared/keymap-export'
 import { generateKeymapPdf } from '../../shared/pdf-export'
+import { generateZmkKeymap } from '../../shared/zmk-export'
 import {
   serialize as serializeKeycode,
   serializeForCExport,
@@ -22,12 +24,14 @@ interface Params {
   keyboard: ReturnType<typeof useKeyboard>
   deviceName: string
   decodedLayoutOptions: ReturnType<typeof decodeLayoutOptions>
-  deserializedMacros: ReturnType<typeof deserializeAllMacros> | undefined
+  deserializedMacros: MacroAction[][] | undefined
+  /** Host layout unicode macro actions are typed through (see useDevicePrefs). */
+  hostLayout: HostLayoutMap | null
 }
 
-export function useFileGenerators({ keyboard, deviceName, decodedLayoutOptions, deserializedMacros }: Params) {
+export function useFileGenerators({ keyboard, deviceName, decodedLayoutOptions, deserializedMacros, hostLayout }: Params) {
   const keymapCGenerator = useCallback(
-    () => generateKeymapC({
+    () => generateKeymapExportFiles({
       layers: keyboard.layers,
       keys: keyboard.layout?.keys ?? [],
       keymap: keyboard.keymap,
@@ -36,8 +40,15 @@ export function useFileGenerators({ keyboard, deviceName, decodedLayoutOptions,
       layoutOptions: decodedLayoutOptions,
       serializeKeycode: serializeForCExport,
       customKeycodes: keyboard.definition?.customKeycodes,
+      tapDance: keyboard.tapDanceEntries,
+      combo: keyboard.comboEntries,
+      keyOverride: keyboard.keyOverrideEntries,
+      altRepeatKey: keyboard.altRepeatKeyEntries,
+      macros: deserializedMacros?.map((m) => expandMacroActions(m, hostLayout)),
+      qmkSettings: keyboard.qmkSettingsValues,
     }),
-    [keyboard.layers, keyboard.layout, keyboard.keymap, keyboard.encoderLayout, keyboard.encoderCount, decodedLayoutOptions, keyboard.definition?.customKeycodes],
+    [keyboard.layers, keyboard.layout, keyboard.keymap, keyboard.encoderLayout, keyboard.encoderCount, decodedLayoutOptions, keyboard.definition?.customKeycodes,
+     keyboard.tapDanceEntries, keyboard.comboEntries, keyboard.keyOverrideEntries, keyboard.altRepeatKeyEntries, deserializedMacros, hostLayout, keyboard.qmkSettingsValues],
   )
 
   const pdfGenerator = useCallback(
@@ -58,11 +69,30 @@ export function useFileGenerators({ keyboard, deviceName, decodedLayoutOptions,
       combo: keyboard.comboEntries,
       keyOverride: keyboard.keyOverrideEntries,
       altRepeatKey: keyboard.altRepeatKeyEntries,
-      macros: deserializedMacros,
+      macros: deserializedMacros?.map((m) => expandMacroActions(m, hostLayout)),
     }),
     [deviceName, keyboard.layers, keyboard.layout, keyboard.keymap, keyboard.encoderLayout, keyboard.encoderCount, decodedLayoutOptions,
-     keyboard.tapDanceEntries, keyboard.comboEntries, keyboard.keyOverrideEntries, keyboard.altRepeatKeyEntries, deserializedMacros],
+     keyboard.tapDanceEntries, keyboard.comboEntries, keyboard.keyOverrideEntries, keyboard.altRepeatKeyEntries, deserializedMacros, hostLayout],
+  )
+
+  const zmkKeymapGenerator = useCallback(
+    () => generateZmkKeymap({
+      layers: keyboard.layers,
+      keys: keyboard.layout?.keys ?? [],
+      keymap: keyboard.keymap,
+      encoderLayout: keyboard.encoderLayout,
+      encoderCount: keyboard.encoderCount,
+      layoutOptions: decodedLayoutOptions,
+      tapDance: keyboard.tapDanceEntries,
+      combo: keyboard.comboEntries,
+      keyOverride: keyboard.keyOverrideEntries,
+      altRepeatKey: keyboard.altRepeatKeyEntries,
+      macros: deserializedMacros?.map((m) => expandMacroActions(m, hostLayout)),
+      qmkSettings: keyboard.qmkSettingsValues,
+    }).keymap,
+    [keyboard.layers, keyboard.layout, keyboard.keymap, keyboard.encoderLayout, keyboard.encoderCount, decodedLayoutOptions,
+     keyboard.tapDanceEntries, keyboard.comboEntries, keyboard.keyOverrideEntries, keyboard.altRepeatKeyEntries, deserializedMacros, hostLayout, keyboard.qmkSettingsValues],
   )
 
-  return { keymapCGenerator, pdfGenerator }
+  return { keymapCGenerator, pdfGenerator, zmkKeymapGenerator }
 }
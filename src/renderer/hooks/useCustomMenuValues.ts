@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  flattenCustomMenuControls,
+  customValueLength,
+  decodeCustomValue,
+  encodeCustomValue,
+} from '../../shared/via-custom-menus'
+import type { CustomMenu, CustomMenuControl, CustomMenuValues } from '../../shared/via-custom-menus'
+
+/** Quiet period before a channel's values are committed to EEPROM, so
+ *  dragging a range slider doesn't issue a save per step. */
+const SAVE_DEBOUNCE_MS = 500
+
+/**
+ * Reads every VIA custom menu value from the device on mount and writes
+ * changes back through id_custom_set_value, followed by a debounced
+ * id_custom_save per channel. Pending saves are flushed on unmount.
+ */
+export function useCustomMenuValues(menus: CustomMenu[]) {
+  const controls = useMemo(() => flattenCustomMenuControls(menus), [menus])
+  const [values, setValues] = useState<CustomMenuValues>({})
+  const [loading, setLoading] = useState(controls.length > 0)
+  const [error, setError] = useState(false)
+  const saveTimers = useRef(new Map<number, ReturnType<typeof setTimeout>>())
+
+  useEffect(() => {
+    let cancelled = false
+    async function load(): Promise<void> {
+      setLoading(true)
+      setError(false)
+      const loaded: CustomMenuValues = {}
+      try {
+        for (const control of controls) {
+          const bytes = await window.vialAPI.customGetValue(control.channelId, control.valueId, customValueLength(control))
+          loaded[control.key] = decodeCustomValue(control, bytes)
+        }
+      } catch (err) {
+        console.error('[CustomMenus] load failed:', err)
+        if (!cancelled) setError(true)
+      }
+      if (cancelled) return
+      setValues(loaded)
+      setLoading(false)
+    }
+    void load()
+    return () => { cancelled = true }
+  }, [controls])
+
+  const flushSave = useCallback((channelId: number) => {
+    saveTimers.current.delete(channelId)
+    window.vialAPI.customSave(channelId).catch((err: unknown) => {
+      console.error('[CustomMenus] save failed:', err)
+    })
+  }, [])
+
+  useEffect(() => {
+    const timers = saveTimers.current
+    return () => {
+      for (const [channelId, timer] of timers) {
+        clearTimeout(timer)
+        flushSave(channelId)
+      }
+    }
+  }, [flushSave])
+
+  const setValue = useCallback(async (control: CustomMenuControl, value: number) => {
+    setValues((prev) => ({ ...prev, [control.key]: value }))
+    try {
+      await window.vialAPI.customSetValue(control.channelId, control.valueId, encodeCustomValue(control, value))
+    } catch (err) {
+      console.error('[CustomMenus] set failed:', err)
+      setError(true)
+      return
+    }
+    const pending = saveTimers.current.get(control.channelId)
+    if (pending) clearTimeout(pending)
+    saveTimers.current.set(control.channelId, setTimeout(() => flushSave(control.channelId), SAVE_DEBOUNCE_MS))
+  }, [flushSave])
+
+  return { values, loading, error, setValue }
+}
@@ -10,6 +10,16 @@ export interface DeviceConnectionState {
   error: string | null
   isDummy: boolean
   isPipetteFile: boolean
+  /** Connected device dropped off the bus and is held until it comes back. */
+  offline: boolean
+}
+
+interface Options {
+  /**
+   * Keep `connectedDevice` when it unplugs instead of dropping back to the
+   * device list, and reopen it once the same device re-enumerates.
+   */
+  holdOnUnplug?: boolean
 }
 
 /** Polling interval for device auto-detection and disconnect monitoring (ms) */
@@ -27,7 +37,13 @@ function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
   ])
 }
 
-export function useDeviceConnection() {
+export function isSameDevice(a: DeviceInfo, b: DeviceInfo): boolean {
+  return a.vendorId === b.vendorId && a.productId === b.productId &&
+    a.serialNumber === b.serialNumber && a.type === b.type
+}
+
+export function useDeviceConnection(options: Options = {}) {
+  const holdOnUnplug = options.holdOnUnplug ?? false
   const [state, setState] = useState<DeviceConnectionState>({
     devices: [],
     connectedDevice: null,
@@ -35,6 +51,7 @@ export function useDeviceConnection() {
     error: null,
     isDummy: false,
     isPipetteFile: false,
+    offline: false,
   })
   const mountedRef = useRef(true)
   const connectedDeviceRef = useRef<DeviceInfo | null>(null)
@@ -43,6 +60,12 @@ export function useDeviceConnection() {
   // Skip all USB activity when suspended (e.g. during unlock dialog).
   // USB device enumeration disrupts firmware operations like unlock counter.
   const pollSuspendedRef = useRef(false)
+  const holdOnUnplugRef = useRef(holdOnUnplug)
+  holdOnUnplugRef.current = holdOnUnplug
+  const offlineRef = useRef(false)
+  const reopeningRef = useRef(false)
+  // Set before an intentional drop (bootloader jump) so it is not held.
+  const expectDisconnectRef = useRef(false)
 
   useEffect(() => {
     mountedRef.current = true
@@ -79,10 +102,13 @@ export function useDeviceConnection() {
       )
       if (mountedRef.current) {
         if (success) {
+          offlineRef.current = false
+          expectDisconnectRef.current = false
           setState((s) => ({
             ...s,
             connectedDevice: device,
             connecting: false,
+            offline: false,
           }))
         } else {
           setState((s) => ({
@@ -152,14 +178,57 @@ export function useDeviceConnection() {
     // Update refs immediately to avoid stale-ref races
     connectedDeviceRef.current = null
     isDummyRef.current = false
+    offlineRef.current = false
     try {
       if (!wasDummy) {
         await window.vialAPI.closeDevice()
       }
     } finally {
       if (mountedRef.current) {
-        setState((s) => ({ ...s, connectedDevice: null, isDummy: false, isPipetteFile: false }))
+        setState((s) => ({ ...s, connectedDevice: null, isDummy: false, isPipetteFile: false, offline: false }))
+      }
+    }
+  }, [])
+
+  // The connected device went away (failed health check or watcher event).
+  const handleDeviceLost = useCallback(async () => {
+    if (offlineRef.current || !connectedDeviceRef.current || isDummyRef.current) return
+    try {
+      await window.vialAPI.closeDevice()
+    } catch {
+      // Device already closed — ignore cleanup errors
+    }
+    if (holdOnUnplugRef.current && !expectDisconnectRef.current) {
+      offlineRef.current = true
+      if (mountedRef.current) setState((s) => ({ ...s, offline: true }))
+      return
+    }
+    expectDisconnectRef.current = false
+    connectedDeviceRef.current = null
+    isDummyRef.current = false
+    if (mountedRef.current) {
+      setState((s) => ({ ...s, connectedDevice: null, isDummy: false, isPipetteFile: false }))
+    }
+  }, [])
+
+  // Reopen the held device once it shows up again.
+  const reopenHeldDevice = useCallback(async (devices: DeviceInfo[]) => {
+    const held = connectedDeviceRef.current
+    if (!offlineRef.current || !held || reopeningRef.current) return
+    const match = devices.find((d) => isSameDevice(d, held))
+    if (!match) return
+    reopeningRef.current = true
+    try {
+      const success = await window.vialAPI.openDevice(match.vendorId, match.productId)
+      if (success && offlineRef.current && connectedDeviceRef.current === held) {
+        offlineRef.current = false
+        connectedDeviceRef.current = match
+        if (mountedRef.current) setState((s) => ({ ...s, connectedDevice: match, offline: false }))
       }
+    } catch {
+      // Still settling after re-enumeration — the next poll retries
+    } finally {
+      reopeningRef.current = false
     }
   }, [])
 
@@ -168,22 +237,30 @@ export function useDeviceConnection() {
     refreshDevices()
   }, [refreshDevices])
 
-  // Auto-detect polling: refresh device list when disconnected,
-  // monitor connection health when connected
+  // Live device list updates from the main-process hot-plug watcher
   useEffect(() => {
-    async function handleDisconnect(): Promise<void> {
-      try {
-        await window.vialAPI.closeDevice()
-      } catch {
-        // Device already closed — ignore cleanup errors
-      }
-      connectedDeviceRef.current = null
-      isDummyRef.current = false
-      if (mountedRef.current) {
-        setState((s) => ({ ...s, connectedDevice: null, isDummy: false, isPipetteFile: false }))
-      }
+    const offConnected = window.vialAPI.onDeviceConnected((device) => {
+      if (!mountedRef.current) return
+      setState((s) => s.devices.some((d) => isSameDevice(d, device))
+        ? s
+        : { ...s, devices: [...s.devices, device] })
+      void reopenHeldDevice([device])
+    })
+    const offDisconnected = window.vialAPI.onDeviceDisconnected((device) => {
+      if (!mountedRef.current) return
+      setState((s) => ({ ...s, devices: s.devices.filter((d) => !isSameDevice(d, device)) }))
+      const connected = connectedDeviceRef.current
+      if (connected && isSameDevice(connected, device)) void handleDeviceLost()
+    })
+    return () => {
+      offConnected()
+      offDisconnected()
     }
+  }, [handleDeviceLost, reopenHeldDevice])
 
+  // Auto-detect polling: refresh device list when disconnected,
+  // monitor connection health when connected
+  useEffect(() => {
     let timerId: ReturnType<typeof setTimeout> | null = null
     let cancelled = false
 
@@ -196,8 +273,9 @@ export function useDeviceConnection() {
         return
       }
 
-      // Refresh device list only when device picker is actively browsing
-      if (deviceListActiveRef.current || !connectedDeviceRef.current) {
+      // Refresh device list only when device picker is actively browsing,
+      // or while waiting for a held device to come back
+      if (deviceListActiveRef.current || !connectedDeviceRef.current || offlineRef.current) {
         try {
           const devices = await withTimeout(
             window.vialAPI.listDevices(),
@@ -206,19 +284,20 @@ export function useDeviceConnection() {
           if (mountedRef.current) {
             setState((s) => ({ ...s, devices, error: null }))
           }
+          await reopenHeldDevice(devices)
         } catch {
           // Ignore polling errors (including timeouts) to avoid flooding the UI
         }
       }
 
-      if (connectedDeviceRef.current) {
+      if (connectedDeviceRef.current && !offlineRef.current) {
         // Health check for connected device (skip for dummy keyboards)
         if (!isDummyRef.current) {
           const open = await withTimeout(
             window.vialAPI.isDeviceOpen(),
             POLL_TIMEOUT_MS,
           ).catch(() => false)
-          if (!open) await handleDisconnect()
+          if (!open) await handleDeviceLost()
         }
       }
 
@@ -234,10 +313,15 @@ export function useDeviceConnection() {
       cancelled = true
       if (timerId !== null) clearTimeout(timerId)
     }
-  }, []) // stable — uses refs internally
+  }, [handleDeviceLost, reopenHeldDevice]) // stable — uses refs internally
 
   const setDeviceListActive = useCallback((active: boolean) => { deviceListActiveRef.current = active }, [])
-  const setPollSuspended = useCallback((suspended: boolean) => { pollSuspendedRef.current = suspended }, [])
+  const setPollSuspended = useCallback((suspended: boolean) => {
+    pollSuspendedRef.current = suspended
+    void window.vialAPI.setDeviceWatchSuspended(suspended).catch(() => { /* best-effort */ })
+  }, [])
+  /** Mark the next disconnect as intentional (e.g. bootloader jump) so the device is dropped, not held. */
+  const setDisconnectExpected = useCallback((expected: boolean) => { expectDisconnectRef.current = expected }, [])
 
   return {
     ...state,
@@ -248,5 +332,6 @@ export function useDeviceConnection() {
     disconnectDevice,
     setDeviceListActive,
     setPollSuspended,
+    setDisconnectExpected,
   }
 }
@@ -15,6 +15,10 @@ interface Options {
   connectDummy: () => void
   connectPipetteFile: (name: string) => void
   isPipetteFile: boolean
+  // Hot-plug hold: the device connection keeps `connectedDevice` while it is
+  // unplugged (`offline`) and reopens it when the same device comes back.
+  connectedDevice: DeviceInfo | null
+  offline: boolean
   // Keyboard
   keyboardUid: string | undefined
   keyboardReload: () => Promise<string | null>
@@ -22,6 +26,9 @@ interface Options {
   keyboardLoadDummy: (def: KeyboardDefinition) => void
   keyboardLoadPipetteFile: (vil: VilFile) => void
   refreshUnlockStatus: () => Promise<void>
+  keyboardSetOffline: (offline: boolean) => void
+  flushPendingWrites: () => Promise<boolean>
+  discardPendingWrites: () => void
   unlocked: boolean
   activityCount: number
   // Device prefs
@@ -63,12 +70,17 @@ export function useDeviceLifecycle(options: Options) {
     connectDummy,
     connectPipetteFile,
     isPipetteFile,
+    connectedDevice,
+    offline,
     keyboardUid,
     keyboardReload,
     keyboardReset,
     keyboardLoadDummy,
     keyboardLoadPipetteFile,
     refreshUnlockStatus,
+    keyboardSetOffline,
+    flushPendingWrites,
+    discardPendingWrites,
     unlocked,
     activityCount,
     applyDevicePrefs,
@@ -188,6 +200,43 @@ export function useDeviceLifecycle(options: Options) {
      packsPulledOnce, markPacksPulledOnce],
   )
 
+  // Unplugged: the editor keeps its state and queues writes. Back again: the
+  // same keyboard gets the queued writes replayed; anything else (a different
+  // board with the same USB ids, or one reflashed with a new uid) is loaded
+  // from scratch and the queue is dropped.
+  const wasOfflineRef = useRef(false)
+  useEffect(() => {
+    if (offline) {
+      wasOfflineRef.current = true
+      keyboardSetOffline(true)
+      return
+    }
+    if (!wasOfflineRef.current) return
+    wasOfflineRef.current = false
+    // Disconnected by the user while waiting — handleDisconnect already reset the keyboard
+    if (!connectedDevice) return
+
+    const dev = connectedDevice
+    void (async () => {
+      let uid: string | null = null
+      try {
+        uid = (await window.vialAPI.getKeyboardId()).uid
+      } catch {
+        // Treated as a different keyboard below
+      }
+      if (uid != null && uid === keyboardUid) {
+        keyboardSetOffline(false)
+        // The keyboard power-cycled, so it is locked again
+        await refreshUnlockStatus().catch(() => {})
+        await flushPendingWrites()
+      } else {
+        discardPendingWrites()
+        await handleConnect(dev)
+      }
+    })()
+  }, [offline, connectedDevice, keyboardUid, keyboardSetOffline, refreshUnlockStatus,
+      flushPendingWrites, discardPendingWrites, handleConnect])
+
   const handleLock = useCallback(async () => {
     await window.vialAPI.lock()
     await refreshUnlockStatus()
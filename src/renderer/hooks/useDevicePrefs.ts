@@ -216,6 +216,7 @@ export function useDevicePrefs(): UseDevicePrefsReturn {
     activeRewriteTable,
     activeLayoutName,
     pickerRemapLabel,
+    hostLayout,
   } = useDevicePrefsRemap(layout)
 
   return {
@@ -298,5 +299,6 @@ export function useDevicePrefs(): UseDevicePrefsReturn {
     activeRewriteTable,
     activeLayoutName,
     pickerRemapLabel,
+    hostLayout,
   }
 }
@@ -0,0 +1,160 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { useState, useCallback, useEffect, useRef } from 'react'
+import type { DeviceInfo } from '../../shared/types/protocol'
+import type { DeviceSessionApi } from '../../shared/types/vial-api'
+import type { MacroAction } from '../../preload/macro'
+import type { BulkKeyEntry, KeyboardState } from './keyboard-types'
+import { readKeyboardState } from './useKeyboardReload'
+import { isSameDevice } from './useDeviceConnection'
+import type { DynamicEntryKind, DynamicEntryMap, EncoderEntry } from './session-transfer'
+
+export interface DeviceSession {
+  id: string
+  device: DeviceInfo
+  state: KeyboardState | null
+  loading: boolean
+  error: string | null
+}
+
+/** A DeviceSessionApi whose calls are routed to one additional session. */
+export function createSessionApi(sessionId: string): DeviceSessionApi {
+  const call = window.vialAPI.sessionCall as (...args: unknown[]) => Promise<unknown>
+  return new Proxy({} as DeviceSessionApi, {
+    get: (_target, method) => (...args: unknown[]) => call(sessionId, method, ...args),
+  })
+}
+
+const ENTRY_FIELDS = {
+  tapDance: 'tapDanceEntries',
+  combo: 'comboEntries',
+  keyOverride: 'keyOverrideEntries',
+  altRepeatKey: 'altRepeatKeyEntries',
+} as const satisfies Record<DynamicEntryKind, keyof KeyboardState>
+
+/**
+ * Keyboards opened next to the editor's device. Each session has its own
+ * HID handle and mutex in main and keeps its own KeyboardState here; the
+ * editor's keyboard is not affected by anything done through a session.
+ */
+export function useDeviceSessions() {
+  const [sessions, setSessions] = useState<DeviceSession[]>([])
+  const sessionsRef = useRef(sessions)
+  sessionsRef.current = sessions
+
+  const patchSession = useCallback((id: string, patch: (s: DeviceSession) => Partial<DeviceSession>) => {
+    setSessions((list) => list.map((s) => (s.id === id ? { ...s, ...patch(s) } : s)))
+  }, [])
+
+  const patchState = useCallback((id: string, patch: (state: KeyboardState) => Partial<KeyboardState>) => {
+    patchSession(id, (s) => (s.state ? { state: { ...s.state, ...patch(s.state) } } : {}))
+  }, [patchSession])
+
+  const reloadSession = useCallback(async (id: string) => {
+    patchSession(id, () => ({ loading: true, error: null }))
+    try {
+      const state = await readKeyboardState(createSessionApi(id))
+      patchSession(id, () => (state
+        ? { state, loading: false }
+        : { loading: false, error: 'sessions.loadFailed' }))
+    } catch (err) {
+      console.error('[Sessions] reload failed:', err)
+      patchSession(id, () => ({ loading: false, error: 'sessions.loadFailed' }))
+    }
+  }, [patchSession])
+
+  const openSession = useCallback(async (device: DeviceInfo): Promise<string | null> => {
+    const id = await window.vialAPI.sessionOpen(device.vendorId, device.productId, device.serialNumber)
+    if (!id) return null
+    setSessions((list) => [...list, { id, device, state: null, loading: true, error: null }])
+    await reloadSession(id)
+    return id
+  }, [reloadSession])
+
+  const closeSession = useCallback(async (id: string) => {
+    setSessions((list) => list.filter((s) => s.id !== id))
+    await window.vialAPI.sessionClose(id)
+  }, [])
+
+  // An unplugged board takes its session with it
+  useEffect(() => {
+    return window.vialAPI.onDeviceDisconnected((device) => {
+      for (const s of sessionsRef.current) {
+        if (isSameDevice(s.device, device)) void closeSession(s.id)
+      }
+    })
+  }, [closeSession])
+
+  useEffect(() => () => {
+    for (const s of sessionsRef.current) void window.vialAPI.sessionClose(s.id)
+  }, [])
+
+  const refreshUnlockStatus = useCallback(async (id: string) => {
+    const unlockStatus = await createSessionApi(id).getUnlockStatus()
+    patchState(id, () => ({ unlockStatus }))
+  }, [patchState])
+
+  const setKeys = useCallback(async (id: string, entries: BulkKeyEntry[]) => {
+    const api = createSessionApi(id)
+    for (const { layer, row, col, keycode } of entries) {
+      await api.setKeycode(layer, row, col, keycode)
+    }
+    patchState(id, (state) => {
+      const keymap = new Map(state.keymap)
+      for (const { layer, row, col, keycode } of entries) keymap.set(`${layer},${row},${col}`, keycode)
+      return { keymap }
+    })
+  }, [patchState])
+
+  const setEncoders = useCallback(async (id: string, entries: EncoderEntry[]) => {
+    const api = createSessionApi(id)
+    for (const { layer, idx, direction, keycode } of entries) {
+      await api.setEncoder(layer, idx, direction, keycode)
+    }
+    patchState(id, (state) => {
+      const encoderLayout = new Map(state.encoderLayout)
+      for (const { layer, idx, direction, keycode } of entries) {
+        encoderLayout.set(`${layer},${idx},${direction}`, keycode)
+      }
+      return { encoderLayout }
+    })
+  }, [patchState])
+
+  const setMacroBuffer = useCallback(async (id: string, buffer: number[], parsedMacros: MacroAction[][]) => {
+    await createSessionApi(id).setMacroBuffer(buffer)
+    patchState(id, () => ({ macroBuffer: buffer, parsedMacros }))
+  }, [patchState])
+
+  const setDynamicEntry = useCallback(async <K extends DynamicEntryKind>(
+    id: string,
+    kind: K,
+    index: number,
+    entry: DynamicEntryMap[K],
+  ) => {
+    const api = createSessionApi(id)
+    switch (kind) {
+      case 'tapDance': await api.setTapDance(index, entry as DynamicEntryMap['tapDance']); break
+      case 'combo': await api.setCombo(index, entry as DynamicEntryMap['combo']); break
+      case 'keyOverride': await api.setKeyOverride(index, entry as DynamicEntryMap['keyOverride']); break
+      case 'altRepeatKey': await api.setAltRepeatKey(index, entry as DynamicEntryMap['altRepeatKey']); break
+    }
+    const field = ENTRY_FIELDS[kind]
+    patchState(id, (state) => {
+      const entries = [...state[field]] as DynamicEntryMap[K][]
+      entries[index] = entry
+      return { [field]: entries }
+    })
+  }, [patchState])
+
+  return {
+    sessions,
+    openSession,
+    closeSession,
+    reloadSession,
+    refreshUnlockStatus,
+    setKeys,
+    setEncoders,
+    setMacroBuffer,
+    setDynamicEntry,
+  }
+}
@@ -2,21 +2,23 @@
 
 import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import { LIGHTING_TYPES } from '../app-types'
-import type { QmkSettingsTab } from '../../shared/types/protocol'
+import type { QmkSettingsTab, KeyboardDefinition } from '../../shared/types/protocol'
 import settingsDefs from '../../shared/qmk-settings-defs.json'
+import { parseCustomMenus } from '../../shared/via-custom-menus'
 
 interface Options {
   isDummy: boolean
   effectiveIsDummy: boolean
   supportedQsids: Set<number>
   lighting: string | undefined
+  menus: KeyboardDefinition['menus']
   dynamicCounts: { combo: number; altRepeatKey: number; keyOverride: number }
   keymapScale: number
   setKeymapScale: (scale: number) => void
 }
 
 export function useEditorUIState(options: Options) {
-  const { isDummy, effectiveIsDummy, supportedQsids, lighting, dynamicCounts, keymapScale, setKeymapScale } = options
+  const { isDummy, effectiveIsDummy, supportedQsids, lighting, menus, dynamicCounts, keymapScale, setKeymapScale } = options
 
   // Unlock dialog
   const [showUnlockDialog, setShowUnlockDialog] = useState(false)
@@ -48,6 +50,9 @@ export function useEditorUIState(options: Options) {
 
   // Modals
   const [showLightingModal, setShowLightingModal] = useState(false)
+  const [showCustomMenusModal, setShowCustomMenusModal] = useState(false)
+  const [showMaintenanceModal, setShowMaintenanceModal] = useState(false)
+  const [showSessionsModal, setShowSessionsModal] = useState(false)
   const [comboInitialIndex, setComboInitialIndex] = useState<number | null>(null)
   const [altRepeatKeyInitialIndex, setAltRepeatKeyInitialIndex] = useState<number | null>(null)
   const [keyOverrideInitialIndex, setKeyOverrideInitialIndex] = useState<number | null>(null)
@@ -77,6 +82,9 @@ export function useEditorUIState(options: Options) {
 
   const lightingSupported = !isDummy && LIGHTING_TYPES.has(lighting ?? '')
 
+  const customMenus = useMemo(() => parseCustomMenus(menus), [menus])
+  const customMenusSupported = !isDummy && customMenus.length > 0
+
   const comboSupported = !effectiveIsDummy && dynamicCounts.combo > 0
   const altRepeatKeySupported = !effectiveIsDummy && dynamicCounts.altRepeatKey > 0
   const keyOverrideSupported = !effectiveIsDummy && dynamicCounts.keyOverride > 0
@@ -84,16 +92,21 @@ export function useEditorUIState(options: Options) {
   // Close modals when feature support lost
   useEffect(() => {
     if (!lightingSupported) setShowLightingModal(false)
+    if (!customMenusSupported) setShowCustomMenusModal(false)
+    if (isDummy) setShowMaintenanceModal(false)
+    if (isDummy) setShowSessionsModal(false)
     if (!comboSupported) setComboInitialIndex(null)
     if (!altRepeatKeySupported) setAltRepeatKeyInitialIndex(null)
     if (!keyOverrideSupported) setKeyOverrideInitialIndex(null)
-  }, [lightingSupported, comboSupported, altRepeatKeySupported, keyOverrideSupported])
+  }, [lightingSupported, customMenusSupported, isDummy, comboSupported, altRepeatKeySupported, keyOverrideSupported])
 
   const resetUIState = useCallback(() => {
     setTypingTestMode(false)
     setCurrentLayer(0)
     setShowUnlockDialog(false)
     setUnlockMacroWarning(false)
+    setShowMaintenanceModal(false)
+    setShowSessionsModal(false)
     setMatrixState({ matrixMode: false, hasMatrixTester: false })
   }, [])
 
@@ -118,6 +131,12 @@ export function useEditorUIState(options: Options) {
     // Modals
     showLightingModal,
     setShowLightingModal,
+    showCustomMenusModal,
+    setShowCustomMenusModal,
+    showMaintenanceModal,
+    setShowMaintenanceModal,
+    showSessionsModal,
+    setShowSessionsModal,
     comboInitialIndex,
     setComboInitialIndex,
     altRepeatKeyInitialIndex,
@@ -134,6 +153,8 @@ export function useEditorUIState(options: Options) {
     comboSettingsSupported,
     hasAnySettings,
     lightingSupported,
+    customMenus,
+    customMenusSupported,
     comboSupported,
     altRepeatKeySupported,
     keyOverrideSupported,
@@ -2,7 +2,7 @@
 
 import { useCallback } from 'react'
 import { decodeLayoutOptions } from '../../shared/kle/layout-options'
-import { generateKeymapC } from '../../shared/keymap-export'
+import { generateKeymapC, generateKeymapExportFiles } from '../../shared/keymap-export'
 import { generateKeymapPdf } from '../../shared/pdf-export'
 import { generatePdfThumbnail } from '../utils/pdf-thumbnail'
 import {
@@ -18,6 +18,7 @@ import {
   deserializeMacro,
   macroActionsToJson,
   jsonToMacroActions,
+  expandMacroActions,
 } from '../../preload/macro'
 import {
   serialize as serializeKeycode,
@@ -30,6 +31,7 @@ import {
 import type { VilFile, KeyboardDefinition } from '../../shared/types/protocol'
 import type { SnapshotMeta } from '../../shared/types/snapshot-store'
 import type { KeyboardLayout } from '../../shared/kle/types'
+import type { HostLayoutMap } from '../../preload/macro-unicode'
 
 interface Options {
   keyboardUid: string | undefined
@@ -45,6 +47,8 @@ interface Options {
   dynamicCountsFeatureFlags: number
   layoutStoreEntries: SnapshotMeta[]
   deviceName: string
+  /** Host layout unicode macro actions are typed through (see useDevicePrefs). */
+  hostLayout: HostLayoutMap | null
 }
 
 export function useEntryOperations(options: Options) {
@@ -62,6 +66,7 @@ export function useEntryOperations(options: Options) {
     dynamicCountsFeatureFlags,
     layoutStoreEntries,
     deviceName,
+    hostLayout,
   } = options
 
   const backfillQmkSettings = useCallback((vil: VilFile): boolean => {
@@ -133,12 +138,13 @@ export function useEntryOperations(options: Options) {
       combo: vilData.combo,
       keyOverride: vilData.keyOverride,
       altRepeatKey: vilData.altRepeatKey,
+      qmkSettings: vilData.qmkSettings,
       macros: vilData.macroJson
-        ? vilData.macroJson.map((m) => jsonToMacroActions(JSON.stringify(m)) ?? [])
+        ? vilData.macroJson.map((m) => expandMacroActions(jsonToMacroActions(JSON.stringify(m)) ?? [], hostLayout))
         : splitMacroBuffer(vilData.macros, macroCount)
             .map((m) => deserializeMacro(m, vialProtocol)),
     }
-  }, [definition, layout, encoderCount, macroCount, vialProtocol])
+  }, [definition, layout, encoderCount, macroCount, vialProtocol, hostLayout])
 
   const buildVilExportContext = useCallback((vilData: VilFile) => {
     const macroActions = splitMacroBuffer(vilData.macros, macroCount)
@@ -169,8 +175,8 @@ export function useEntryOperations(options: Options) {
     try {
       const vilData = await loadEntryVilData(entryId)
       if (!vilData) return
-      const content = generateKeymapC({ ...buildEntryParams(vilData), serializeKeycode: serializeForCExport })
-      await window.vialAPI.exportKeymapC(content, entryExportName(entryId))
+      const files = generateKeymapExportFiles({ ...buildEntryParams(vilData), serializeKeycode: serializeForCExport })
+      await window.vialAPI.exportKeymapC(files, entryExportName(entryId))
     } catch {
       // Export errors are non-critical
     }
@@ -1,9 +1,10 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 
-import { useCallback, useState } from 'react'
+import { useCallback, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import type { FavoriteType, SavedFavoriteMeta } from '../../shared/types/favorite-store'
-import { isFavoriteDataFile } from '../../shared/favorite-data'
+import { favoriteSearchText, isFavoriteDataFile } from '../../shared/favorite-data'
+import { serialize as serializeKeycode } from '../../shared/keycodes/keycodes'
 
 export interface UseFavoriteStoreOptions {
   favoriteType: FavoriteType
@@ -32,13 +33,17 @@ export interface UseFavoriteStoreReturn {
   importing: boolean
   importResult: FavoriteImportResultState | null
   showModal: boolean
+  /** Decoded content per entry id, filled by `loadSearchTexts`. */
+  searchTexts: ReadonlyMap<string, string>
   refreshEntries: () => Promise<void>
+  loadSearchTexts: () => Promise<void>
   openModal: () => Promise<void>
   closeModal: () => void
   saveFavorite: (label: string) => Promise<boolean>
   loadFavorite: (entryId: string) => Promise<boolean>
   renameEntry: (entryId: string, newLabel: string) => Promise<boolean>
   deleteEntry: (entryId: string) => Promise<boolean>
+  setEntryTags: (entryId: string, tags: string[]) => Promise<boolean>
   exportCurrent: () => Promise<boolean>
   importCurrent: () => Promise<boolean>
   exportFavorites: () => Promise<boolean>
@@ -56,6 +61,9 @@ export function useFavoriteStore({ favoriteType, serialize, apply, enabled = tru
   const [importing, setImporting] = useState(false)
   const [importResult, setImportResult] = useState<FavoriteImportResultState | null>(null)
   const [showModal, setShowModal] = useState(false)
+  const [searchTexts, setSearchTexts] = useState<ReadonlyMap<string, string>>(new Map())
+  // Entry id -> search text of the content as of the entry's updatedAt
+  const searchCacheRef = useRef(new Map<string, { updatedAt: string | undefined; text: string }>())
 
   const refreshEntries = useCallback(async () => {
     try {
@@ -68,6 +76,29 @@ export function useFavoriteStore({ favoriteType, serialize, apply, enabled = tru
     }
   }, [favoriteType])
 
+  const loadSearchTexts = useCallback(async () => {
+    const cache = searchCacheRef.current
+    const next = new Map<string, string>()
+    for (const entry of entries) {
+      const cached = cache.get(entry.id)
+      if (cached && cached.updatedAt === entry.updatedAt) {
+        next.set(entry.id, cached.text)
+        continue
+      }
+      try {
+        const result = await window.vialAPI.favoriteStoreLoad(favoriteType, entry.id)
+        if (!result.success || !result.data) continue
+        const parsed = JSON.parse(result.data) as Record<string, unknown>
+        const text = favoriteSearchText(favoriteType, parsed.data, serializeKeycode)
+        cache.set(entry.id, { updatedAt: entry.updatedAt, text })
+        next.set(entry.id, text)
+      } catch {
+        // Unreadable entries are searched by label and tags only
+      }
+    }
+    setSearchTexts(next)
+  }, [entries, favoriteType])
+
   const openModal = useCallback(async () => {
     await refreshEntries()
     setShowModal(true)
@@ -157,6 +188,21 @@ export function useFavoriteStore({ favoriteType, serialize, apply, enabled = tru
     }
   }, [enabled, favoriteType, refreshEntries])
 
+  const setEntryTags = useCallback(async (entryId: string, tags: string[]): Promise<boolean> => {
+    if (!enabled) return false
+    setError(null)
+    try {
+      const result = await window.vialAPI.favoriteStoreSetTags(favoriteType, entryId, tags)
+      if (!result.success) {
+        return false
+      }
+      await refreshEntries()
+      return true
+    } catch {
+      return false
+    }
+  }, [enabled, favoriteType, refreshEntries])
+
   const exportCurrent = useCallback(async (): Promise<boolean> => {
     if (!enabled) return false
     setError(null)
@@ -263,13 +309,16 @@ export function useFavoriteStore({ favoriteType, serialize, apply, enabled = tru
     importing,
     importResult,
     showModal,
+    searchTexts,
     refreshEntries,
+    loadSearchTexts,
     openModal,
     closeModal,
     saveFavorite,
     loadFavorite,
     renameEntry,
     deleteEntry,
+    setEntryTags,
     exportCurrent,
     importCurrent,
     exportFavorites,
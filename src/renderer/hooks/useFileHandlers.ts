@@ -17,6 +17,7 @@ interface Options {
     saveLayout: () => Promise<boolean>
     exportKeymapC: () => Promise<boolean>
     exportPdf: () => Promise<boolean>
+    exportZmkKeymap: () => Promise<boolean>
     loading: boolean
     saving: boolean
   }
@@ -60,6 +61,11 @@ export function useFileHandlers(options: Options) {
     return ok
   }, [fileIO.exportPdf])
 
+  const handleExportZmkKeymap = useCallback(async (): Promise<boolean> => {
+    const ok = await fileIO.exportZmkKeymap()
+    return ok
+  }, [fileIO.exportZmkKeymap])
+
   const exportLayoutPdf = useCallback(async (
     generator: (input: LayoutPdfInput) => string,
     suffix: string,
@@ -103,6 +109,7 @@ export function useFileHandlers(options: Options) {
     handleExportVil,
     handleExportKeymapC,
     handleExportPdf,
+    handleExportZmkKeymap,
     handleExportLayoutPdfAll,
     handleExportLayoutPdfCurrent,
   }
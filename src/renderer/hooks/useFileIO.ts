@@ -6,15 +6,20 @@ import type { VilFile } from '../../shared/types/protocol'
 import { isVilFile } from '../../shared/vil-file'
 import { isVialGuiFile, vialGuiToVil } from '../../shared/vil-compat'
 import { serializeMacro, jsonToMacroActions } from '../../preload/macro'
+import type { KeymapExportFile } from '../../shared/keymap-export'
+import type { HostLayoutMap } from '../../preload/macro-unicode'
 
 export interface UseFileIOOptions {
   deviceUid: string
   deviceName: string
   serialize: () => VilFile
-  serializeVialGui?: () => string
+  serializeVialGui?: (hostLayout: HostLayoutMap | null) => string
   applyVilFile: (vil: VilFile) => Promise<void>
-  keymapCGenerator?: () => string
+  /** Host layout unicode macro actions are typed through (see useDevicePrefs). */
+  hostLayout?: HostLayoutMap | null
+  keymapCGenerator?: () => KeymapExportFile[]
   pdfGenerator?: () => string
+  zmkKeymapGenerator?: () => string
 }
 
 export function useFileIO({
@@ -23,8 +28,10 @@ export function useFileIO({
   serialize,
   serializeVialGui,
   applyVilFile,
+  hostLayout = null,
   keymapCGenerator,
   pdfGenerator,
+  zmkKeymapGenerator,
 }: UseFileIOOptions) {
   const { t } = useTranslation()
   const [error, setError] = useState<string | null>(null)
@@ -33,9 +40,9 @@ export function useFileIO({
 
   // Shared wrapper for export operations that follow the same
   // generate-content -> call-IPC -> handle-result pattern
-  async function runExport(
-    generate: () => string,
-    send: (content: string, name: string) => Promise<{ success: boolean; error?: string }>,
+  async function runExport<T>(
+    generate: () => T,
+    send: (content: T, name: string) => Promise<{ success: boolean; error?: string }>,
     errorKey: string,
   ): Promise<boolean> {
     setError(null)
@@ -60,11 +67,11 @@ export function useFileIO({
 
   const saveLayout = useCallback(
     () => runExport(
-      () => serializeVialGui ? serializeVialGui() : JSON.stringify(serialize(), null, 2),
+      () => serializeVialGui ? serializeVialGui(hostLayout) : JSON.stringify(serialize(), null, 2),
       window.vialAPI.saveLayout,
       'error.saveFailed',
     ),
-    [serialize, serializeVialGui, deviceName, t],
+    [serialize, serializeVialGui, hostLayout, deviceName, t],
   )
 
   const loadLayout = useCallback(async (): Promise<boolean> => {
@@ -91,7 +98,7 @@ export function useFileIO({
         const data = parsed as Record<string, unknown>
         const vialProtocol = (data.vial_protocol as number) ?? 6
         const macroJsonArrays = (data.macro as unknown[][]) ?? []
-        const macroBuffer = convertVialGuiMacros(macroJsonArrays, vialProtocol)
+        const macroBuffer = convertVialGuiMacros(macroJsonArrays, vialProtocol, hostLayout)
         vil = vialGuiToVil(data, rawJson, macroBuffer)
         vil.macroJson = macroJsonArrays
       } else {
@@ -115,7 +122,7 @@ export function useFileIO({
     } finally {
       setLoading(false)
     }
-  }, [deviceUid, applyVilFile, t])
+  }, [deviceUid, applyVilFile, hostLayout, t])
 
   const exportKeymapC = useCallback((): Promise<boolean> => {
     if (!keymapCGenerator) return Promise.resolve(false)
@@ -127,16 +134,21 @@ export function useFileIO({
     return runExport(pdfGenerator, window.vialAPI.exportPdf, 'error.exportPdfFailed')
   }, [pdfGenerator, deviceName, t])
 
-  return { saveLayout, loadLayout, exportKeymapC, exportPdf, error, saving, loading }
+  const exportZmkKeymap = useCallback((): Promise<boolean> => {
+    if (!zmkKeymapGenerator) return Promise.resolve(false)
+    return runExport(zmkKeymapGenerator, window.vialAPI.exportZmkKeymap, 'error.exportZmkKeymapFailed')
+  }, [zmkKeymapGenerator, deviceName, t])
+
+  return { saveLayout, loadLayout, exportKeymapC, exportPdf, exportZmkKeymap, error, saving, loading }
 }
 
-function convertVialGuiMacros(macroJsonArrays: unknown[][], vialProtocol: number): number[] {
+function convertVialGuiMacros(macroJsonArrays: unknown[][], vialProtocol: number, hostLayout: HostLayoutMap | null): number[] {
   const buffer: number[] = []
   for (const macroJson of macroJsonArrays) {
     const json = JSON.stringify(macroJson)
     const actions = jsonToMacroActions(json)
     if (actions) {
-      buffer.push(...serializeMacro(actions, vialProtocol))
+      buffer.push(...serializeMacro(actions, vialProtocol, hostLayout))
     }
     buffer.push(0) // NUL terminator
   }
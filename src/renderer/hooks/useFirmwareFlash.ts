@@ -0,0 +1,278 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Firmware flashing workflow state. Lives at App level because the flow
+// spans both views: it starts in the editor (snapshot + uid capture), the
+// keyboard then drops off the bus into its bootloader (disconnected view),
+// and finally re-enumerates and reconnects for verification and restore.
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { EMPTY_UID } from '../../shared/constants/protocol'
+import type { DeviceInfo } from '../../shared/types/protocol'
+import type { FirmwareFileInfo, FirmwareFlashProgress } from '../../shared/types/firmware'
+
+/** How long to wait for the rebooted keyboard to come back before giving up (ms) */
+export const FLASH_RECONNECT_TIMEOUT_MS = 30_000
+
+export type FirmwareFlashStep =
+  | 'idle'
+  | 'prepare'
+  | 'waitBootloader'
+  | 'ready'
+  | 'flashing'
+  | 'reconnecting'
+  | 'flashed'
+  | 'verified'
+  | 'restoring'
+  | 'restored'
+  | 'failed'
+
+/** The keyboard the image is meant for, captured while it was still connected. */
+export interface FirmwareFlashTarget {
+  uid: string
+  deviceName: string
+  vendorId: number
+  productId: number
+  /** Pre-flash snapshot entry, null if saving it failed */
+  snapshotId: string | null
+  /**
+   * Built from a bootloader picked in the device list: the uid is the one
+   * the bootloader reports, so only a .vfw package carrying the same uid may
+   * be flashed. The keyboard's own VID/PID are unknown, so there is no
+   * reconnect to verify against.
+   */
+  fromBootloader?: boolean
+}
+
+interface Options {
+  devices: DeviceInfo[]
+  connectedDevice: DeviceInfo | null
+  isDummy: boolean
+  keyboardUid: string
+  keyboardLoading: boolean
+  deviceName: string
+  connect: (device: DeviceInfo) => Promise<void>
+  /** Pauses device polling so enumeration never interleaves with the transfer */
+  setPollSuspended: (suspended: boolean) => void
+  /** Lets the keyboard drop to its bootloader without being held as an unplug */
+  setDisconnectExpected: (expected: boolean) => void
+  saveSnapshot: (label: string) => Promise<string | null>
+  restoreSnapshot: (entryId: string) => Promise<boolean>
+}
+
+function uidEquals(a: string, b: string): boolean {
+  const norm = (uid: string) => uid.toLowerCase().replace(/^0x0*/, '0x')
+  return norm(a) === norm(b)
+}
+
+export function useFirmwareFlash({
+  devices,
+  connectedDevice,
+  isDummy,
+  keyboardUid,
+  keyboardLoading,
+  deviceName,
+  connect,
+  setPollSuspended,
+  setDisconnectExpected,
+  saveSnapshot,
+  restoreSnapshot,
+}: Options) {
+  const [step, setStep] = useState<FirmwareFlashStep>('idle')
+  const [target, setTarget] = useState<FirmwareFlashTarget | null>(null)
+  const [bootloader, setBootloader] = useState<DeviceInfo | null>(null)
+  const [firmware, setFirmware] = useState<FirmwareFileInfo | null>(null)
+  const [progress, setProgress] = useState<FirmwareFlashProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const reconnectRequestedRef = useRef(false)
+  // The keyboard state is not reset when the device silently drops off the
+  // bus, so the pre-flash uid is still around until the reconnect reloads it.
+  const reloadSeenRef = useRef(false)
+
+  const fail = useCallback((reason: string) => {
+    setError(reason)
+    setStep('failed')
+  }, [])
+
+  /** Editor entry point: only a live (non-dummy) keyboard has a uid to check against. */
+  const start = useCallback(() => {
+    if (!connectedDevice || isDummy || keyboardUid === EMPTY_UID) return
+    setTarget(null)
+    setBootloader(null)
+    setFirmware(null)
+    setProgress(null)
+    setError(null)
+    setStep('prepare')
+  }, [connectedDevice, isDummy, keyboardUid])
+
+  const prepare = useCallback(async (snapshotLabel: string) => {
+    if (!connectedDevice) return
+    const snapshotId = await saveSnapshot(snapshotLabel)
+    setTarget({
+      uid: keyboardUid,
+      deviceName,
+      vendorId: connectedDevice.vendorId,
+      productId: connectedDevice.productId,
+      snapshotId,
+    })
+    setDisconnectExpected(true)
+    setStep('waitBootloader')
+  }, [connectedDevice, keyboardUid, deviceName, saveSnapshot, setDisconnectExpected])
+
+  /** Device-list entry point: a bootloader was picked directly. */
+  const openForBootloader = useCallback(async (device: DeviceInfo) => {
+    setTarget(null)
+    setBootloader(device)
+    setFirmware(null)
+    setProgress(null)
+    setError(null)
+    setStep('ready')
+    try {
+      const result = await window.vialAPI.firmwareReadBootloaderUid(device.vendorId, device.productId)
+      if (!result.success) {
+        fail(result.error ?? 'unknown')
+      } else if (!result.uid) {
+        fail('uid not set')
+      } else {
+        setTarget({
+          uid: result.uid,
+          deviceName: device.productName,
+          vendorId: device.vendorId,
+          productId: device.productId,
+          snapshotId: null,
+          fromBootloader: true,
+        })
+      }
+    } catch (err) {
+      fail(String(err))
+    }
+  }, [fail])
+
+  // Pick up the bootloader once the keyboard re-enumerates as one. Prefer
+  // the same VID/PID, but vibl builds may use their own ids.
+  useEffect(() => {
+    if (step !== 'waitBootloader' || !target) return
+    const candidates = devices.filter((d) => d.type === 'bootloader')
+    const match = candidates.find((d) => d.vendorId === target.vendorId && d.productId === target.productId)
+      ?? candidates[0]
+    if (match) {
+      setBootloader(match)
+      setStep('ready')
+    }
+  }, [step, target, devices])
+
+  const selectFile = useCallback(async () => {
+    setError(null)
+    const result = await window.vialAPI.firmwareSelectFile()
+    if (result.success && result.firmware) {
+      setFirmware(result.firmware)
+    } else if (result.error !== 'cancelled') {
+      setFirmware(null)
+      setError(result.error ?? 'unknown')
+    }
+  }, [])
+
+  const flash = useCallback(async () => {
+    if (!bootloader || !target || !firmware) return
+    if (target.fromBootloader && firmware.uid == null) {
+      fail('package required')
+      return
+    }
+    setError(null)
+    setProgress(null)
+    setStep('flashing')
+    setPollSuspended(true)
+    const unsubscribe = window.vialAPI.firmwareOnProgress(setProgress)
+    try {
+      const result = await window.vialAPI.firmwareFlash(bootloader.vendorId, bootloader.productId, {
+        expectedUid: target.uid,
+        enableInsecure: target.snapshotId != null,
+        ...(target.fromBootloader ? { requirePackage: true } : {}),
+      })
+      if (!result.success) {
+        fail(result.error ?? 'unknown')
+        return
+      }
+      if (target.fromBootloader) {
+        setStep('flashed')
+        return
+      }
+      reconnectRequestedRef.current = false
+      reloadSeenRef.current = false
+      setStep('reconnecting')
+    } catch (err) {
+      fail(String(err))
+    } finally {
+      unsubscribe()
+      setPollSuspended(false)
+    }
+  }, [bootloader, target, firmware, fail, setPollSuspended])
+
+  // After the reboot: reconnect to the keyboard as soon as it re-enumerates.
+  useEffect(() => {
+    if (step !== 'reconnecting' || !target || connectedDevice || reconnectRequestedRef.current) return
+    const device = devices.find(
+      (d) => d.type !== 'bootloader' && d.vendorId === target.vendorId && d.productId === target.productId,
+    )
+    if (!device) return
+    reconnectRequestedRef.current = true
+    void connect(device)
+  }, [step, target, devices, connectedDevice, connect])
+
+  // Verification: the reconnected keyboard must report the uid we flashed for.
+  useEffect(() => {
+    if (step !== 'reconnecting' || !target || !connectedDevice) return
+    if (keyboardLoading) {
+      reloadSeenRef.current = true
+      return
+    }
+    if (!reloadSeenRef.current || keyboardUid === EMPTY_UID) return
+    if (uidEquals(keyboardUid, target.uid)) {
+      setStep('verified')
+    } else {
+      fail('uid changed')
+    }
+  }, [step, target, connectedDevice, keyboardLoading, keyboardUid, fail])
+
+  useEffect(() => {
+    if (step !== 'reconnecting') return
+    const timer = setTimeout(() => fail('reconnect timeout'), FLASH_RECONNECT_TIMEOUT_MS)
+    return () => clearTimeout(timer)
+  }, [step, fail])
+
+  const restore = useCallback(async () => {
+    if (!target?.snapshotId) return
+    setStep('restoring')
+    const ok = await restoreSnapshot(target.snapshotId)
+    if (ok) {
+      setStep('restored')
+    } else {
+      fail('restore failed')
+    }
+  }, [target, restoreSnapshot, fail])
+
+  const close = useCallback(() => {
+    // Never abandon a write in progress — the bootloader would be left half-flashed
+    if (step === 'flashing') return
+    if (step === 'waitBootloader') setDisconnectExpected(false)
+    setStep('idle')
+    setBootloader(null)
+    setFirmware(null)
+    setProgress(null)
+    setError(null)
+  }, [step, setDisconnectExpected])
+
+  return {
+    step,
+    target,
+    bootloader,
+    firmware,
+    progress,
+    error,
+    start,
+    prepare,
+    openForBootloader,
+    selectFile,
+    flash,
+    restore,
+    close,
+  }
+}
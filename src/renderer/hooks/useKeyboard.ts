@@ -8,6 +8,8 @@ import { useKeyboardLoaders } from './useKeyboardLoaders'
 import { useKeyboardSetters } from './useKeyboardSetters'
 import { useKeyboardLighting } from './useKeyboardLighting'
 import { useKeyboardPersistence } from './useKeyboardPersistence'
+import { useKeyboardMaintenance } from './useKeyboardMaintenance'
+import { useKeyboardWriteQueue } from './useKeyboardWriteQueue'
 
 export type { BulkKeyEntry, KeyboardState } from './keyboard-types'
 
@@ -69,28 +71,43 @@ export function useKeyboard() {
     bootGuardRef.current.onUnlock = cb
   }, [])
 
+  const {
+    writeOrQueue, setOffline, flushPendingWrites, discardPendingWrites, pendingWriteCount,
+  } = useKeyboardWriteQueue()
   const { reload } = useKeyboardReload(setState, refs)
   const { loadDummy, loadPipetteFile } = useKeyboardLoaders(setState, refs)
   const {
     setKey, setKeysBulk, setEncoder, setLayoutOptions, setMacroBuffer,
     setTapDanceEntry, setComboEntry, setKeyOverrideEntry, setAltRepeatKeyEntry,
     setLayerName, setSaveLayerNamesCallback,
-  } = useKeyboardSetters(setState, stateRef, bumpActivity, saveLayerNamesRef, bootGuardRef, waitForUnlock)
+  } = useKeyboardSetters(setState, stateRef, bumpActivity, saveLayerNamesRef, bootGuardRef, waitForUnlock, writeOrQueue)
   const {
     setBacklightBrightness, setBacklightEffect,
     setRgblightBrightness, setRgblightEffect, setRgblightEffectSpeed, setRgblightColor,
     setVialRGBMode, setVialRGBSpeed, setVialRGBColor, setVialRGBBrightness, setVialRGBHSV,
+    setVialRGBDirectColors, saveLightingScene, deleteLightingScene,
     updateQmkSettingsValue,
-  } = useKeyboardLighting(setState, stateRef, bumpActivity)
+  } = useKeyboardLighting(setState, stateRef, bumpActivity, writeOrQueue)
   const {
     serialize, serializeVialGui, applyDefinition, applyVilFile,
-    reset, refreshUnlockStatus,
+    rollbackRestore, dismissRestoreVerification,
+    reset: resetState, refreshUnlockStatus,
     pipetteFileQmkSettingsGet, pipetteFileQmkSettingsSet, pipetteFileQmkSettingsReset,
   } = useKeyboardPersistence(setState, refs, bumpActivity, bootGuardRef, waitForUnlock)
+  const {
+    resetDynamicKeymap, resetEeprom, jumpToBootloader,
+  } = useKeyboardMaintenance(stateRef, bootGuardRef, waitForUnlock, reload)
+
+  // Queued writes belong to the keyboard being reset; never replay them onto the next one.
+  const reset = useCallback(() => {
+    discardPendingWrites()
+    resetState()
+  }, [discardPendingWrites, resetState])
 
   return {
     ...state,
     activityCount,
+    pendingWriteCount,
     reload,
     reset,
     refreshUnlockStatus,
@@ -121,12 +138,23 @@ export function useKeyboard() {
     setVialRGBColor,
     setVialRGBBrightness,
     setVialRGBHSV,
+    setVialRGBDirectColors,
+    saveLightingScene,
+    deleteLightingScene,
     serialize,
     serializeVialGui,
     applyDefinition,
     applyVilFile,
+    rollbackRestore,
+    dismissRestoreVerification,
     updateQmkSettingsValue,
     setLayerName,
     setSaveLayerNamesCallback,
+    resetDynamicKeymap,
+    resetEeprom,
+    jumpToBootloader,
+    setOffline,
+    flushPendingWrites,
+    discardPendingWrites,
   }
 }
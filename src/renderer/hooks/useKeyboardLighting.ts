@@ -10,105 +10,135 @@ import {
   QMK_RGBLIGHT_COLOR,
 } from '../../shared/constants/protocol'
 import { normalizeQmkSettingData } from '../../shared/qmk-settings-normalize'
-import type { SetState, KeyboardState } from './keyboard-types'
+import type { HsvColor } from '../../shared/types/protocol'
+import type { SetState, KeyboardState, WriteOrQueue } from './keyboard-types'
 
 export function useKeyboardLighting(
   setState: SetState,
   stateRef: React.MutableRefObject<KeyboardState>,
   bumpActivity: () => void,
+  writeOrQueue: WriteOrQueue,
 ) {
   const setBacklightBrightness = useCallback(async (v: number) => {
     if (!stateRef.current.isDummy) {
-      await window.vialAPI.setLightingValue(QMK_BACKLIGHT_BRIGHTNESS, v)
+      await writeOrQueue(`lighting:${QMK_BACKLIGHT_BRIGHTNESS}`, () => window.vialAPI.setLightingValue(QMK_BACKLIGHT_BRIGHTNESS, v))
     }
     setState((s) => ({ ...s, backlightBrightness: v }))
     bumpActivity()
-  }, [setState, stateRef, bumpActivity])
+  }, [setState, stateRef, bumpActivity, writeOrQueue])
 
   const setBacklightEffect = useCallback(async (v: number) => {
     if (!stateRef.current.isDummy) {
-      await window.vialAPI.setLightingValue(QMK_BACKLIGHT_EFFECT, v)
+      await writeOrQueue(`lighting:${QMK_BACKLIGHT_EFFECT}`, () => window.vialAPI.setLightingValue(QMK_BACKLIGHT_EFFECT, v))
     }
     setState((s) => ({ ...s, backlightEffect: v }))
     bumpActivity()
-  }, [setState, stateRef, bumpActivity])
+  }, [setState, stateRef, bumpActivity, writeOrQueue])
 
   const setRgblightBrightness = useCallback(async (v: number) => {
     if (!stateRef.current.isDummy) {
-      await window.vialAPI.setLightingValue(QMK_RGBLIGHT_BRIGHTNESS, v)
+      await writeOrQueue(`lighting:${QMK_RGBLIGHT_BRIGHTNESS}`, () => window.vialAPI.setLightingValue(QMK_RGBLIGHT_BRIGHTNESS, v))
     }
     setState((s) => ({ ...s, rgblightBrightness: v }))
     bumpActivity()
-  }, [setState, stateRef, bumpActivity])
+  }, [setState, stateRef, bumpActivity, writeOrQueue])
 
   const setRgblightEffect = useCallback(async (index: number) => {
     if (!stateRef.current.isDummy) {
-      await window.vialAPI.setLightingValue(QMK_RGBLIGHT_EFFECT, index)
+      await writeOrQueue(`lighting:${QMK_RGBLIGHT_EFFECT}`, () => window.vialAPI.setLightingValue(QMK_RGBLIGHT_EFFECT, index))
     }
     setState((s) => ({ ...s, rgblightEffect: index }))
     bumpActivity()
-  }, [setState, stateRef, bumpActivity])
+  }, [setState, stateRef, bumpActivity, writeOrQueue])
 
   const setRgblightEffectSpeed = useCallback(async (v: number) => {
     if (!stateRef.current.isDummy) {
-      await window.vialAPI.setLightingValue(QMK_RGBLIGHT_EFFECT_SPEED, v)
+      await writeOrQueue(`lighting:${QMK_RGBLIGHT_EFFECT_SPEED}`, () => window.vialAPI.setLightingValue(QMK_RGBLIGHT_EFFECT_SPEED, v))
     }
     setState((s) => ({ ...s, rgblightEffectSpeed: v }))
     bumpActivity()
-  }, [setState, stateRef, bumpActivity])
+  }, [setState, stateRef, bumpActivity, writeOrQueue])
 
   const setRgblightColor = useCallback(async (h: number, s: number) => {
     if (!stateRef.current.isDummy) {
-      await window.vialAPI.setLightingValue(QMK_RGBLIGHT_COLOR, h, s)
+      await writeOrQueue(`lighting:${QMK_RGBLIGHT_COLOR}`, () => window.vialAPI.setLightingValue(QMK_RGBLIGHT_COLOR, h, s))
     }
     setState((prev) => ({ ...prev, rgblightHue: h, rgblightSat: s }))
     bumpActivity()
-  }, [setState, stateRef, bumpActivity])
+  }, [setState, stateRef, bumpActivity, writeOrQueue])
 
   const setVialRGBMode = useCallback(async (mode: number) => {
     const s = stateRef.current
     if (!s.isDummy) {
-      await window.vialAPI.setVialRGBMode(mode, s.vialRGBSpeed, s.vialRGBHue, s.vialRGBSat, s.vialRGBVal)
+      await writeOrQueue('vialRGB', () => window.vialAPI.setVialRGBMode(mode, s.vialRGBSpeed, s.vialRGBHue, s.vialRGBSat, s.vialRGBVal))
     }
     setState((prev) => ({ ...prev, vialRGBMode: mode }))
     bumpActivity()
-  }, [setState, stateRef, bumpActivity])
+  }, [setState, stateRef, bumpActivity, writeOrQueue])
 
   const setVialRGBSpeed = useCallback(async (speed: number) => {
     const s = stateRef.current
     if (!s.isDummy) {
-      await window.vialAPI.setVialRGBMode(s.vialRGBMode, speed, s.vialRGBHue, s.vialRGBSat, s.vialRGBVal)
+      await writeOrQueue('vialRGB', () => window.vialAPI.setVialRGBMode(s.vialRGBMode, speed, s.vialRGBHue, s.vialRGBSat, s.vialRGBVal))
     }
     setState((prev) => ({ ...prev, vialRGBSpeed: speed }))
     bumpActivity()
-  }, [setState, stateRef, bumpActivity])
+  }, [setState, stateRef, bumpActivity, writeOrQueue])
 
   const setVialRGBColor = useCallback(async (h: number, s: number) => {
     const st = stateRef.current
     if (!st.isDummy) {
-      await window.vialAPI.setVialRGBMode(st.vialRGBMode, st.vialRGBSpeed, h, s, st.vialRGBVal)
+      await writeOrQueue('vialRGB', () => window.vialAPI.setVialRGBMode(st.vialRGBMode, st.vialRGBSpeed, h, s, st.vialRGBVal))
     }
     setState((prev) => ({ ...prev, vialRGBHue: h, vialRGBSat: s }))
     bumpActivity()
-  }, [setState, stateRef, bumpActivity])
+  }, [setState, stateRef, bumpActivity, writeOrQueue])
 
   const setVialRGBBrightness = useCallback(async (v: number) => {
     const s = stateRef.current
     if (!s.isDummy) {
-      await window.vialAPI.setVialRGBMode(s.vialRGBMode, s.vialRGBSpeed, s.vialRGBHue, s.vialRGBSat, v)
+      await writeOrQueue('vialRGB', () => window.vialAPI.setVialRGBMode(s.vialRGBMode, s.vialRGBSpeed, s.vialRGBHue, s.vialRGBSat, v))
     }
     setState((prev) => ({ ...prev, vialRGBVal: v }))
     bumpActivity()
-  }, [setState, stateRef, bumpActivity])
+  }, [setState, stateRef, bumpActivity, writeOrQueue])
 
   const setVialRGBHSV = useCallback(async (h: number, s: number, v: number) => {
     const st = stateRef.current
     if (!st.isDummy) {
-      await window.vialAPI.setVialRGBMode(st.vialRGBMode, st.vialRGBSpeed, h, s, v)
+      await writeOrQueue('vialRGB', () => window.vialAPI.setVialRGBMode(st.vialRGBMode, st.vialRGBSpeed, h, s, v))
     }
     setState((prev) => ({ ...prev, vialRGBHue: h, vialRGBSat: s, vialRGBVal: v }))
     bumpActivity()
-  }, [setState, stateRef, bumpActivity])
+  }, [setState, stateRef, bumpActivity, writeOrQueue])
+
+  // Always sends the whole frame: a queued write replays only the latest
+  // closure, so a partial update would drop LEDs painted while offline.
+  const setVialRGBDirectColors = useCallback(async (colors: HsvColor[]) => {
+    if (!stateRef.current.isDummy) {
+      await writeOrQueue('vialRGBDirect', () => window.vialAPI.setVialRGBDirect(0, colors))
+    }
+    setState((prev) => ({ ...prev, vialRGBDirectColors: colors }))
+    bumpActivity()
+  }, [setState, stateRef, bumpActivity, writeOrQueue])
+
+  /** Save a Direct Control frame under `name`, replacing a scene of the same name. */
+  const saveLightingScene = useCallback((name: string, colors: HsvColor[]) => {
+    setState((prev) => {
+      const scene = { name, colors: colors.map((c): HsvColor => [...c]) }
+      const index = prev.lightingScenes.findIndex((s) => s.name === name)
+      const lightingScenes = index >= 0
+        ? prev.lightingScenes.map((s, i) => (i === index ? scene : s))
+        : [...prev.lightingScenes, scene]
+      return { ...prev, lightingScenes }
+    })
+    bumpActivity()
+  }, [setState, bumpActivity])
+
+  const deleteLightingScene = useCallback((name: string) => {
+    setState((prev) => ({ ...prev, lightingScenes: prev.lightingScenes.filter((s) => s.name !== name) }))
+    bumpActivity()
+  }, [setState, bumpActivity])
 
   const updateQmkSettingsValue = useCallback((qsid: number, data: number[]) => {
     const normalized = normalizeQmkSettingData(qsid, data)
@@ -131,6 +161,9 @@ export function useKeyboardLighting(
     setVialRGBColor,
     setVialRGBBrightness,
     setVialRGBHSV,
+    setVialRGBDirectColors,
+    saveLightingScene,
+    deleteLightingScene,
     updateQmkSettingsValue,
   }
 }
@@ -137,6 +137,8 @@ export function useKeyboardLoaders(
       vil.layerNames && i < vil.layerNames.length ? vil.layerNames[i] : '',
     )
 
+    newState.lightingScenes = vil.lightingScenes ?? []
+
     // Apply dynamic entries
     newState.tapDanceEntries = vil.tapDance
     newState.comboEntries = vil.combo
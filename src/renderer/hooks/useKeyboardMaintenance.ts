@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { useCallback } from 'react'
+import type { BootGuardRef, KeyboardState } from './keyboard-types'
+
+export function useKeyboardMaintenance(
+  stateRef: React.MutableRefObject<KeyboardState>,
+  bootGuardRef: React.MutableRefObject<BootGuardRef>,
+  waitForUnlock: () => Promise<void>,
+  reload: () => Promise<string | null>,
+) {
+  // vial-qmk drops all three commands while locked, so go through the same
+  // unlock gate as QK_BOOT writes before sending any of them.
+  const ensureUnlocked = useCallback(async () => {
+    if (stateRef.current.unlockStatus.unlocked === false) {
+      bootGuardRef.current.onUnlock?.()
+      await waitForUnlock()
+    }
+  }, [stateRef, bootGuardRef, waitForUnlock])
+
+  const resetDynamicKeymap = useCallback(async () => {
+    if (stateRef.current.isDummy) return
+    await ensureUnlocked()
+    await window.vialAPI.dynamicKeymapReset()
+    await reload()
+  }, [stateRef, ensureUnlocked, reload])
+
+  const resetEeprom = useCallback(async () => {
+    if (stateRef.current.isDummy) return
+    await ensureUnlocked()
+    await window.vialAPI.eepromReset()
+    await reload()
+  }, [stateRef, ensureUnlocked, reload])
+
+  /**
+   * The keyboard drops off the bus right after this; device polling picks up
+   * the disconnect. `beforeSend` runs once unlocked, just before the command.
+   */
+  const jumpToBootloader = useCallback(async (beforeSend?: () => void) => {
+    if (stateRef.current.isDummy) return
+    await ensureUnlocked()
+    beforeSend?.()
+    await window.vialAPI.jumpToBootloader()
+  }, [stateRef, ensureUnlocked])
+
+  return { resetDynamicKeymap, resetEeprom, jumpToBootloader }
+}
@@ -4,10 +4,18 @@ import { useCallback } from 'react'
 import type { KeyboardDefinition, VilFile } from '../../shared/types/protocol'
 import { mapToRecord, recordToMap, VILFILE_CURRENT_VERSION } from '../../shared/vil-file'
 import { vilToVialGuiJson } from '../../shared/vil-compat'
-import { splitMacroBuffer, deserializeMacro, macroActionsToJson, jsonToMacroActions } from '../../preload/macro'
+import {
+  splitMacroBuffer,
+  deserializeMacro,
+  macroActionsToJson,
+  jsonToMacroActions,
+  expandMacroActions,
+} from '../../preload/macro'
+import type { HostLayoutMap } from '../../preload/macro-unicode'
 import { parseKle } from '../../shared/kle/kle-parser'
-import type { SetState, KeyboardRefs, BootGuardRef } from './keyboard-types'
+import type { SetState, KeyboardRefs, BootGuardRef, RestoreVerification } from './keyboard-types'
 import { emptyState } from './keyboard-types'
+import { writeVilDiff } from './vil-restore'
 
 export function useKeyboardPersistence(
   setState: SetState,
@@ -36,6 +44,7 @@ export function useKeyboardPersistence(
       altRepeatKey: s.altRepeatKeyEntries,
       qmkSettings: s.qmkSettingsValues,
       layerNames: s.layerNames,
+      lightingScenes: s.lightingScenes.length > 0 ? s.lightingScenes : undefined,
       viaProtocol: s.viaProtocol,
       vialProtocol: s.vialProtocol,
       featureFlags: s.dynamicCounts.featureFlags,
@@ -43,12 +52,13 @@ export function useKeyboardPersistence(
     }
   }, [stateRef])
 
-  const serializeVialGui = useCallback((): string => {
+  const serializeVialGui = useCallback((hostLayout: HostLayoutMap | null = null): string => {
     const s = stateRef.current
     const vil = serialize()
     const macrosSrc = s.parsedMacros
       ?? splitMacroBuffer(s.macroBuffer, s.macroCount).map((m) => deserializeMacro(m, s.vialProtocol))
-    const macroActions = macrosSrc.map((m) => JSON.parse(macroActionsToJson(m)) as unknown[])
+    // vial-gui has no unicode action; it gets the key sequence the board types
+    const macroActions = macrosSrc.map((m) => JSON.parse(macroActionsToJson(expandMacroActions(m, hostLayout))) as unknown[])
     return vilToVialGuiJson(vil, {
       rows: s.rows,
       cols: s.cols,
@@ -77,11 +87,12 @@ export function useKeyboardPersistence(
     })
   }, [setState])
 
-  const applyVilFile = useCallback(async (vil: VilFile) => {
+  const restoreVilFile = useCallback(async (vil: VilFile, offerRollback: boolean) => {
     const isDummy = stateRef.current.isDummy
 
     const keymap = recordToMap(vil.keymap)
     const encoderLayout = recordToMap(vil.encoderLayout)
+    let restoreVerification: RestoreVerification | null = null
 
     if (!isDummy) {
       // Prompt unlock before writing to device
@@ -90,51 +101,19 @@ export function useKeyboardPersistence(
         await waitForUnlock()
       }
 
-      const api = window.vialAPI
-
-      // Apply keymap
-      for (const [key, keycode] of keymap) {
-        const [layer, row, col] = key.split(',').map(Number)
-        await api.setKeycode(layer, row, col, keycode)
-      }
-
-      // Apply encoder layout
-      for (const [key, keycode] of encoderLayout) {
-        const [layer, idx, direction] = key.split(',').map(Number)
-        await api.setEncoder(layer, idx, direction, keycode)
-      }
-
-      // Apply macros
-      if (vil.macros.length > 0) {
-        await api.setMacroBuffer(vil.macros)
-      }
-
-      // Apply layout options
-      await api.setLayoutOptions(vil.layoutOptions)
-
-      // Apply tap dance entries
-      for (let i = 0; i < vil.tapDance.length; i++) {
-        await api.setTapDance(i, vil.tapDance[i])
-      }
-
-      // Apply combo entries
-      for (let i = 0; i < vil.combo.length; i++) {
-        await api.setCombo(i, vil.combo[i])
-      }
-
-      // Apply key override entries
-      for (let i = 0; i < vil.keyOverride.length; i++) {
-        await api.setKeyOverride(i, vil.keyOverride[i])
-      }
-
-      // Apply alt repeat key entries
-      for (let i = 0; i < vil.altRepeatKey.length; i++) {
-        await api.setAltRepeatKey(i, vil.altRepeatKey[i])
-      }
-
-      // Apply QMK settings
-      for (const [qsid, data] of Object.entries(vil.qmkSettings)) {
-        await api.qmkSettingsSet(Number(qsid), data)
+      const previous = serialize()
+      // A write that failed partway comes back as mismatches for everything
+      // it did not send. The cache still takes the whole file below, so a
+      // rollback diffs against it and rewrites every cell the restore touched.
+      try {
+        const { mismatches } = await writeVilDiff(window.vialAPI, stateRef.current, vil, (done, total) => {
+          setState((s) => ({ ...s, restoreProgress: { done, total } }))
+        })
+        if (mismatches.length > 0) {
+          restoreVerification = { mismatches, previous: offerRollback ? previous : null }
+        }
+      } finally {
+        setState((s) => ({ ...s, restoreProgress: null }))
       }
     }
 
@@ -158,14 +137,28 @@ export function useKeyboardPersistence(
       altRepeatKeyEntries: vil.altRepeatKey,
       qmkSettingsValues: vil.qmkSettings,
       layerNames,
+      lightingScenes: vil.lightingScenes ?? s.lightingScenes,
       // Snapshot/layout-store restore and .vil import both converge here —
       // bump so App.tsx's restore-cleanup effect (Plan-qwerty-select-no-rewrite
       // §snapshot/.vil 復元時のクリーンアップ) notices even though uid and
       // keymap size are unchanged (the two things KeymapEditor's own clear
       // effect keys off of).
       keymapRestoreSeq: s.keymapRestoreSeq + 1,
+      restoreVerification,
     }))
-  }, [setState, stateRef, saveLayerNamesRef])
+  }, [setState, stateRef, saveLayerNamesRef, bootGuardRef, waitForUnlock, serialize])
+
+  const applyVilFile = useCallback((vil: VilFile) => restoreVilFile(vil, true), [restoreVilFile])
+
+  /** Write back the layout captured before a restore that failed verification. */
+  const rollbackRestore = useCallback(async () => {
+    const previous = stateRef.current.restoreVerification?.previous
+    if (previous) await restoreVilFile(previous, false)
+  }, [stateRef, restoreVilFile])
+
+  const dismissRestoreVerification = useCallback(() => {
+    setState((s) => ({ ...s, restoreVerification: null }))
+  }, [setState])
 
   const reset = useCallback(() => {
     // `keymapRestoreSeq` is monotonic for the whole session (see
@@ -212,6 +205,8 @@ export function useKeyboardPersistence(
     serializeVialGui,
     applyDefinition,
     applyVilFile,
+    rollbackRestore,
+    dismissRestoreVerification,
     reset,
     refreshUnlockStatus,
     pipetteFileQmkSettingsGet,
@@ -8,7 +8,7 @@ import type {
   AltRepeatKeyEntry,
 } from '../../shared/types/protocol'
 import type { MacroAction } from '../../preload/macro'
-import type { BootGuardRef, BulkKeyEntry, SetState, KeyboardState } from './keyboard-types'
+import type { BootGuardRef, BulkKeyEntry, SetState, KeyboardState, WriteOrQueue } from './keyboard-types'
 import { isResetKeycode } from '../../shared/keycodes/keycodes'
 
 export function useKeyboardSetters(
@@ -18,6 +18,7 @@ export function useKeyboardSetters(
   saveLayerNamesRef: React.MutableRefObject<((names: string[]) => void) | null>,
   bootGuardRef: React.MutableRefObject<BootGuardRef>,
   waitForUnlock: () => Promise<void>,
+  writeOrQueue: WriteOrQueue,
 ) {
   const guardedCall = useCallback(
     async (keycode: number, fn: () => Promise<void>) => {
@@ -33,7 +34,8 @@ export function useKeyboardSetters(
   const setKey = useCallback(
     async (layer: number, row: number, col: number, keycode: number) => {
       if (!stateRef.current.isDummy) {
-        await guardedCall(keycode, () => window.vialAPI.setKeycode(layer, row, col, keycode))
+        await writeOrQueue(`key:${layer},${row},${col}`, () =>
+          guardedCall(keycode, () => window.vialAPI.setKeycode(layer, row, col, keycode)))
       }
       setState((s) => {
         const newKeymap = new Map(s.keymap)
@@ -42,7 +44,7 @@ export function useKeyboardSetters(
       })
       bumpActivity()
     },
-    [setState, stateRef, bumpActivity, guardedCall],
+    [setState, stateRef, bumpActivity, guardedCall, writeOrQueue],
   )
 
   const setKeysBulk = useCallback(
@@ -50,7 +52,8 @@ export function useKeyboardSetters(
       if (entries.length === 0) return
       if (!stateRef.current.isDummy) {
         for (const { layer, row, col, keycode } of entries) {
-          await guardedCall(keycode, () => window.vialAPI.setKeycode(layer, row, col, keycode))
+          await writeOrQueue(`key:${layer},${row},${col}`, () =>
+            guardedCall(keycode, () => window.vialAPI.setKeycode(layer, row, col, keycode)))
         }
       }
       setState((s) => {
@@ -62,7 +65,7 @@ export function useKeyboardSetters(
       })
       bumpActivity()
     },
-    [setState, stateRef, bumpActivity, guardedCall],
+    [setState, stateRef, bumpActivity, guardedCall, writeOrQueue],
   )
 
   const setEncoder = useCallback(
@@ -73,7 +76,8 @@ export function useKeyboardSetters(
       keycode: number,
     ) => {
       if (!stateRef.current.isDummy) {
-        await guardedCall(keycode, () => window.vialAPI.setEncoder(layer, idx, direction, keycode))
+        await writeOrQueue(`encoder:${layer},${idx},${direction}`, () =>
+          guardedCall(keycode, () => window.vialAPI.setEncoder(layer, idx, direction, keycode)))
       }
       setState((s) => {
         const newLayout = new Map(s.encoderLayout)
@@ -82,29 +86,29 @@ export function useKeyboardSetters(
       })
       bumpActivity()
     },
-    [setState, stateRef, bumpActivity, guardedCall],
+    [setState, stateRef, bumpActivity, guardedCall, writeOrQueue],
   )
 
   const setLayoutOptions = useCallback(async (options: number) => {
     if (!stateRef.current.isDummy) {
-      await window.vialAPI.setLayoutOptions(options)
+      await writeOrQueue('layoutOptions', () => window.vialAPI.setLayoutOptions(options))
     }
     setState((s) => ({ ...s, layoutOptions: options }))
     bumpActivity()
-  }, [setState, stateRef, bumpActivity])
+  }, [setState, stateRef, bumpActivity, writeOrQueue])
 
   const setMacroBuffer = useCallback(async (buffer: number[], parsedMacros?: MacroAction[][]) => {
     if (!stateRef.current.isDummy) {
-      await window.vialAPI.setMacroBuffer(buffer)
+      await writeOrQueue('macroBuffer', () => window.vialAPI.setMacroBuffer(buffer))
     }
     setState((s) => ({ ...s, macroBuffer: buffer, parsedMacros: parsedMacros ?? null }))
     bumpActivity()
-  }, [setState, stateRef, bumpActivity])
+  }, [setState, stateRef, bumpActivity, writeOrQueue])
 
   const setTapDanceEntry = useCallback(
     async (index: number, entry: TapDanceEntry) => {
       if (!stateRef.current.isDummy) {
-        await window.vialAPI.setTapDance(index, entry)
+        await writeOrQueue(`tapDance:${index}`, () => window.vialAPI.setTapDance(index, entry))
       }
       setState((s) => {
         const entries = [...s.tapDanceEntries]
@@ -113,13 +117,13 @@ export function useKeyboardSetters(
       })
       bumpActivity()
     },
-    [setState, stateRef, bumpActivity],
+    [setState, stateRef, bumpActivity, writeOrQueue],
   )
 
   const setComboEntry = useCallback(
     async (index: number, entry: ComboEntry) => {
       if (!stateRef.current.isDummy) {
-        await window.vialAPI.setCombo(index, entry)
+        await writeOrQueue(`combo:${index}`, () => window.vialAPI.setCombo(index, entry))
       }
       setState((s) => {
         const entries = [...s.comboEntries]
@@ -128,13 +132,13 @@ export function useKeyboardSetters(
       })
       bumpActivity()
     },
-    [setState, stateRef, bumpActivity],
+    [setState, stateRef, bumpActivity, writeOrQueue],
   )
 
   const setKeyOverrideEntry = useCallback(
     async (index: number, entry: KeyOverrideEntry) => {
       if (!stateRef.current.isDummy) {
-        await window.vialAPI.setKeyOverride(index, entry)
+        await writeOrQueue(`keyOverride:${index}`, () => window.vialAPI.setKeyOverride(index, entry))
       }
       setState((s) => {
         const entries = [...s.keyOverrideEntries]
@@ -143,13 +147,13 @@ export function useKeyboardSetters(
       })
       bumpActivity()
     },
-    [setState, stateRef, bumpActivity],
+    [setState, stateRef, bumpActivity, writeOrQueue],
   )
 
   const setAltRepeatKeyEntry = useCallback(
     async (index: number, entry: AltRepeatKeyEntry) => {
       if (!stateRef.current.isDummy) {
-        await window.vialAPI.setAltRepeatKey(index, entry)
+        await writeOrQueue(`altRepeatKey:${index}`, () => window.vialAPI.setAltRepeatKey(index, entry))
       }
       setState((s) => {
         const entries = [...s.altRepeatKeyEntries]
@@ -158,7 +162,7 @@ export function useKeyboardSetters(
       })
       bumpActivity()
     },
-    [setState, stateRef, bumpActivity],
+    [setState, stateRef, bumpActivity, writeOrQueue],
   )
 
   const setSaveLayerNamesCallback = useCallback((cb: (names: string[]) => void) => {
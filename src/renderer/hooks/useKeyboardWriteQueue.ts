@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { useCallback, useRef, useState } from 'react'
+
+/**
+ * Holds device writes while the keyboard is unplugged so the editor keeps
+ * working against local state. Writes are keyed by what they target
+ * (`key:0,1,2`, `macroBuffer`, ...) and only the latest one per key is kept;
+ * they are replayed in the order they were last touched.
+ */
+export function useKeyboardWriteQueue() {
+  const offlineRef = useRef(false)
+  const pendingRef = useRef(new Map<string, () => Promise<void>>())
+  const [pendingWriteCount, setPendingWriteCount] = useState(0)
+
+  const syncCount = useCallback(() => setPendingWriteCount(pendingRef.current.size), [])
+
+  const enqueue = useCallback((key: string, fn: () => Promise<void>) => {
+    pendingRef.current.delete(key)
+    pendingRef.current.set(key, fn)
+    syncCount()
+  }, [syncCount])
+
+  const writeOrQueue = useCallback(async (key: string, fn: () => Promise<void>) => {
+    if (offlineRef.current) {
+      enqueue(key, fn)
+      return
+    }
+    // A direct write supersedes anything still waiting for the same target.
+    if (pendingRef.current.delete(key)) syncCount()
+    try {
+      await fn()
+    } catch (err) {
+      // A write racing the unplug fails before the disconnect is noticed.
+      // Keep it for the reconnect only when the device is really gone.
+      let open = true
+      try { open = await window.vialAPI.isDeviceOpen() } catch { /* keep the original error */ }
+      if (open) throw err
+      enqueue(key, fn)
+    }
+  }, [enqueue, syncCount])
+
+  const setOffline = useCallback((offline: boolean) => {
+    offlineRef.current = offline
+  }, [])
+
+  /** Replay queued writes. Stops at the first failure and keeps the rest. */
+  const flushPendingWrites = useCallback(async (): Promise<boolean> => {
+    const pending = pendingRef.current
+    for (const [key, fn] of [...pending]) {
+      if (pending.get(key) !== fn) continue
+      try {
+        await fn()
+      } catch {
+        syncCount()
+        return false
+      }
+      if (pending.get(key) === fn) pending.delete(key)
+    }
+    syncCount()
+    return true
+  }, [syncCount])
+
+  const discardPendingWrites = useCallback(() => {
+    offlineRef.current = false
+    pendingRef.current.clear()
+    syncCount()
+  }, [syncCount])
+
+  return { writeOrQueue, setOffline, flushPendingWrites, discardPendingWrites, pendingWriteCount }
+}
@@ -20,6 +20,8 @@ function actionsEqual(a: MacroAction[], b: MacroAction[]): boolean {
       if (x.text !== y.text) return false
     } else if (x.type === 'delay' && y.type === 'delay') {
       if (x.delay !== y.delay) return false
+    } else if (x.type === 'unicode' && y.type === 'unicode') {
+      if (x.text !== y.text || x.method !== y.method) return false
     } else if ('keycodes' in x && 'keycodes' in y) {
       if (x.keycodes.length !== y.keycodes.length) return false
       for (let j = 0; j < x.keycodes.length; j++) {
@@ -0,0 +1,157 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+//
+// Device side of `applyVilFile`: writes only what differs between the
+// cached KeyboardState and the file being restored, then reads the same
+// values back. Kept free of React so the write plan can be tested on its own.
+// A write that throws stops the restore; everything from that write on is
+// reported as a mismatch so the caller can offer to roll back.
+
+import type { VilFile } from '../../shared/types/protocol'
+import type { VialAPI } from '../../shared/types/vial-api'
+import { recordToMap } from '../../shared/vil-file'
+import { VIA_PROTOCOL_KEYMAP_SET_BUFFER } from '../../shared/constants/protocol'
+import {
+  diffCodeMap,
+  diffEntries,
+  keymapBufferRuns,
+  keymapRunKeys,
+  keymapRunMismatches,
+  sameBytes,
+  sameEntry,
+} from '../../shared/keymap/restore-diff'
+import type { KeyboardState } from './keyboard-types'
+
+type RestoreApi = Pick<VialAPI,
+  | 'setKeycode' | 'setKeymapBuffer' | 'getKeymapBuffer'
+  | 'setEncoder' | 'getEncoder'
+  | 'setMacroBuffer' | 'getMacroBuffer'
+  | 'setLayoutOptions' | 'getLayoutOptions'
+  | 'setTapDance' | 'getTapDance'
+  | 'setCombo' | 'getCombo'
+  | 'setKeyOverride' | 'getKeyOverride'
+  | 'setAltRepeatKey' | 'getAltRepeatKey'
+  | 'qmkSettingsSet' | 'qmkSettingsGet'
+>
+
+export interface VilRestoreResult {
+  /** Number of device writes the restore needed. */
+  writes: number
+  /** Number of those writes that reached the device before one failed. */
+  written: number
+  /** What did not read back as written, e.g. "keymap 0,1,2" or "combo 3". */
+  mismatches: string[]
+}
+
+interface WriteStep {
+  /** What the write covers, in the same form as `mismatches`. */
+  labels: string[]
+  write: () => Promise<void>
+}
+
+/**
+ * Write the parts of `vil` that differ from `current` to the device and
+ * verify them. `onProgress` is called after every write.
+ */
+export async function writeVilDiff(
+  api: RestoreApi,
+  current: KeyboardState,
+  vil: VilFile,
+  onProgress?: (done: number, total: number) => void,
+): Promise<VilRestoreResult> {
+  const { rows, cols } = current
+  const targetEncoders = recordToMap(vil.encoderLayout)
+  const keymapChanges = diffCodeMap(current.keymap, recordToMap(vil.keymap))
+  const keymapRuns = keymapBufferRuns(keymapChanges, rows, cols)
+  const encoderChanges = diffCodeMap(current.encoderLayout, targetEncoders)
+  const macrosChanged = vil.macros.length > 0 && !sameBytes(vil.macros, current.macroBuffer)
+  const optionsChanged = vil.layoutOptions !== current.layoutOptions
+  const tapDanceChanges = diffEntries(current.tapDanceEntries, vil.tapDance, vil.tapDance.length)
+  const comboChanges = diffEntries(current.comboEntries, vil.combo, vil.combo.length)
+  const keyOverrideChanges = diffEntries(current.keyOverrideEntries, vil.keyOverride, vil.keyOverride.length)
+  const altRepeatKeyChanges = diffEntries(current.altRepeatKeyEntries, vil.altRepeatKey, vil.altRepeatKey.length)
+  const qmkChanges = Object.entries(vil.qmkSettings)
+    .filter(([qsid, data]) => !sameBytes(data, current.qmkSettingsValues[qsid] ?? []))
+
+  const steps: WriteStep[] = []
+  const step = (label: string, write: () => Promise<void>) => steps.push({ labels: [label], write })
+  if (current.viaProtocol >= VIA_PROTOCOL_KEYMAP_SET_BUFFER) {
+    for (const run of keymapRuns) {
+      steps.push({
+        labels: keymapRunKeys(run, rows, cols).map((key) => `keymap ${key}`),
+        write: () => api.setKeymapBuffer(run.offset, run.data),
+      })
+    }
+  } else {
+    for (const { key, code } of keymapChanges) {
+      const [layer, row, col] = key.split(',').map(Number)
+      step(`keymap ${key}`, () => api.setKeycode(layer, row, col, code))
+    }
+  }
+  for (const { key, code } of encoderChanges) {
+    const [layer, idx, direction] = key.split(',').map(Number)
+    step(`encoder ${key}`, () => api.setEncoder(layer, idx, direction, code))
+  }
+  if (macrosChanged) step('macro', () => api.setMacroBuffer(vil.macros))
+  if (optionsChanged) step('layout_options', () => api.setLayoutOptions(vil.layoutOptions))
+  for (const i of tapDanceChanges) step(`tap_dance ${i}`, () => api.setTapDance(i, vil.tapDance[i]))
+  for (const i of comboChanges) step(`combo ${i}`, () => api.setCombo(i, vil.combo[i]))
+  for (const i of keyOverrideChanges) step(`key_override ${i}`, () => api.setKeyOverride(i, vil.keyOverride[i]))
+  for (const i of altRepeatKeyChanges) step(`alt_repeat_key ${i}`, () => api.setAltRepeatKey(i, vil.altRepeatKey[i]))
+  for (const [qsid, data] of qmkChanges) step(`qmk_setting ${qsid}`, () => api.qmkSettingsSet(Number(qsid), data))
+
+  for (let i = 0; i < steps.length; i++) {
+    try {
+      await steps[i].write()
+    } catch (err) {
+      // The writes before this one landed; nothing after it was sent
+      console.error('[KB] restore write failed:', err)
+      return { writes: steps.length, written: i, mismatches: steps.slice(i).flatMap((s) => s.labels) }
+    }
+    onProgress?.(i + 1, steps.length)
+  }
+
+  // Read back only what was written
+  const mismatches: string[] = []
+  try {
+    for (const run of keymapRuns) {
+      const readBack = await api.getKeymapBuffer(run.offset, run.data.length)
+      for (const key of keymapRunMismatches(run, readBack, rows, cols)) mismatches.push(`keymap ${key}`)
+    }
+    const encoders = new Set(encoderChanges.map(({ key }) => key.slice(0, key.lastIndexOf(','))))
+    for (const pair of encoders) {
+      const [layer, idx] = pair.split(',').map(Number)
+      const readBack = await api.getEncoder(layer, idx)
+      for (const direction of [0, 1]) {
+        const expected = targetEncoders.get(`${pair},${direction}`)
+        if (expected !== undefined && readBack[direction] !== expected) mismatches.push(`encoder ${pair},${direction}`)
+      }
+    }
+    if (macrosChanged && !sameBytes(await api.getMacroBuffer(vil.macros.length), vil.macros)) {
+      mismatches.push('macro')
+    }
+    if (optionsChanged && await api.getLayoutOptions() !== vil.layoutOptions) {
+      mismatches.push('layout_options')
+    }
+    for (const i of tapDanceChanges) {
+      if (!sameEntry(await api.getTapDance(i), vil.tapDance[i])) mismatches.push(`tap_dance ${i}`)
+    }
+    for (const i of comboChanges) {
+      if (!sameEntry(await api.getCombo(i), vil.combo[i])) mismatches.push(`combo ${i}`)
+    }
+    for (const i of keyOverrideChanges) {
+      if (!sameEntry(await api.getKeyOverride(i), vil.keyOverride[i])) mismatches.push(`key_override ${i}`)
+    }
+    for (const i of altRepeatKeyChanges) {
+      if (!sameEntry(await api.getAltRepeatKey(i), vil.altRepeatKey[i])) mismatches.push(`alt_repeat_key ${i}`)
+    }
+    for (const [qsid, data] of qmkChanges) {
+      const readBack = await api.qmkSettingsGet(Number(qsid))
+      if (!sameBytes(readBack.slice(0, data.length), data)) mismatches.push(`qmk_setting ${qsid}`)
+    }
+  } catch (err) {
+    console.error('[KB] restore read-back failed:', err)
+    mismatches.push('readback')
+  }
+
+  return { writes: steps.length, written: steps.length, mismatches }
+}
@@ -13,10 +13,13 @@ import {
   FALLBACK_VIAL_PROTOCOL,
   serializeFavData,
   deserializeFavData,
+  normalizeFavTags,
+  favoriteSearchText,
+  MAX_FAV_TAGS,
 } from '../favorite-data'
 
 describe('isValidFavoriteType', () => {
-  it.each(['tapDance', 'macro', 'combo', 'keyOverride', 'altRepeatKey'])(
+  it.each(['tapDance', 'macro', 'combo', 'keyOverride', 'altRepeatKey', 'layer', 'encoder', 'qmkSettings'])(
     'returns true for %s',
     (type) => {
       expect(isValidFavoriteType(type)).toBe(true)
@@ -24,7 +27,7 @@ describe('isValidFavoriteType', () => {
   )
 
   it('returns false for invalid strings', () => {
-    expect(isValidFavoriteType('qmkSettings')).toBe(false)
+    expect(isValidFavoriteType('qmk')).toBe(false)
     expect(isValidFavoriteType('')).toBe(false)
     expect(isValidFavoriteType('TAPDANCE')).toBe(false)
   })
@@ -161,6 +164,42 @@ describe('isFavoriteDataFile', () => {
     })
   })
 
+  describe('layer', () => {
+    it('accepts keycodes keyed by position', () => {
+      const file = { type: 'layer', data: { keys: [{ x: 0.5, y: 0.5, keycode: 4 }] } }
+      expect(isFavoriteDataFile(file, 'layer')).toBe(true)
+    })
+
+    it('rejects a key without a position', () => {
+      const file = { type: 'layer', data: { keys: [{ keycode: 4 }] } }
+      expect(isFavoriteDataFile(file, 'layer')).toBe(false)
+    })
+  })
+
+  describe('encoder', () => {
+    it('accepts valid encoder data', () => {
+      const file = { type: 'encoder', data: { encoders: [{ cw: 0x80, ccw: 0x81 }] } }
+      expect(isFavoriteDataFile(file, 'encoder')).toBe(true)
+    })
+
+    it('rejects a missing direction', () => {
+      const file = { type: 'encoder', data: { encoders: [{ cw: 0x80 }] } }
+      expect(isFavoriteDataFile(file, 'encoder')).toBe(false)
+    })
+  })
+
+  describe('qmkSettings', () => {
+    it('accepts a group with byte values', () => {
+      const file = { type: 'qmkSettings', data: { group: 'Tap-Hold', values: { '7': [200, 0] } } }
+      expect(isFavoriteDataFile(file, 'qmkSettings')).toBe(true)
+    })
+
+    it('rejects a missing group', () => {
+      const file = { type: 'qmkSettings', data: { values: { '7': [200, 0] } } }
+      expect(isFavoriteDataFile(file, 'qmkSettings')).toBe(false)
+    })
+  })
+
   describe('edge cases', () => {
     it('rejects null', () => {
       expect(isFavoriteDataFile(null, 'tapDance')).toBe(false)
@@ -298,6 +337,9 @@ describe('isValidFavExportFile', () => {
       combo: [makeEntry()],
       ko: [makeEntry()],
       ark: [makeEntry()],
+      layer: [makeEntry()],
+      enc: [makeEntry()],
+      qmk: [makeEntry()],
     })
     expect(isValidFavExportFile(file)).toBe(true)
   })
@@ -444,6 +486,16 @@ describe('isValidFavExportFile', () => {
       const file = makeValidExportFile({ macro: [makeEntry({ data: null })] })
       expect(isValidFavExportFile(file)).toBe(true)
     })
+
+    it('accepts entry with tags', () => {
+      const file = makeValidExportFile({ macro: [makeEntry({ tags: ['gaming'] })] })
+      expect(isValidFavExportFile(file)).toBe(true)
+    })
+
+    it('rejects entry with non-array tags', () => {
+      const file = makeValidExportFile({ macro: [makeEntry({ tags: 'gaming' })] })
+      expect(isValidFavExportFile(file)).toBe(false)
+    })
   })
 
 })
@@ -470,7 +522,7 @@ describe('FAV_KEYCODE_FIELDS', () => {
   })
 
   it('covers all FavoriteTypes', () => {
-    const ALL_FAV_TYPES = ['tapDance', 'macro', 'combo', 'keyOverride', 'altRepeatKey'] as const
+    const ALL_FAV_TYPES = ['tapDance', 'macro', 'combo', 'keyOverride', 'altRepeatKey', 'layer', 'encoder', 'qmkSettings'] as const
     for (const t of ALL_FAV_TYPES) {
       expect(FAV_KEYCODE_FIELDS).toHaveProperty(t)
     }
@@ -533,6 +585,16 @@ describe('serializeFavData', () => {
     expect(result).toEqual(data)
   })
 
+  it('converts keycodes inside layer keys, keeping positions', () => {
+    const data = { keys: [{ x: 0.5, y: 1.5, keycode: 4 }] }
+    expect(serializeFavData('layer', data, mockSerialize)).toEqual({ keys: [{ x: 0.5, y: 1.5, keycode: 'QMK_4' }] })
+  })
+
+  it('returns qmkSettings data unchanged', () => {
+    const data = { group: 'Tap-Hold', values: { '7': [200, 0] } }
+    expect(serializeFavData('qmkSettings', data, mockSerialize)).toEqual(data)
+  })
+
   it('does not mutate the original data object', () => {
     const data = { onTap: 4, onHold: 5, onDoubleTap: 0, onTapHold: 0, tappingTerm: 200 }
     const original = { ...data }
@@ -598,9 +660,40 @@ describe('serializeFavData / deserializeFavData roundtrip', () => {
     ['combo', { key1: 4, key2: 5, key3: 0, key4: 0, output: 10 }],
     ['keyOverride', { triggerKey: 4, replacementKey: 5, layers: 0xffff, triggerMods: 0, negativeMods: 0, suppressedMods: 0, options: 0, enabled: true }],
     ['altRepeatKey', { lastKey: 4, altKey: 5, allowedMods: 0, options: 0, enabled: true }],
+    ['layer', { keys: [{ x: 0.5, y: 0.5, keycode: 4 }, { x: 1.5, y: 0.5, keycode: 0 }] }],
+    ['encoder', { encoders: [{ cw: 0x80, ccw: 0x81 }] }],
   ] as const)('roundtrips %s data', (type, data) => {
     const serialized = serializeFavData(type, data, mockSerialize)
     const deserialized = deserializeFavData(type, serialized, mockDeserialize)
     expect(deserialized).toEqual(data)
   })
 })
+
+describe('normalizeFavTags', () => {
+  it('trims, lower-cases and removes duplicates', () => {
+    expect(normalizeFavTags([' Gaming ', 'gaming', 'Work', ''])).toEqual(['gaming', 'work'])
+  })
+
+  it('drops non-strings and non-arrays', () => {
+    expect(normalizeFavTags(['a', 1, null])).toEqual(['a'])
+    expect(normalizeFavTags('a')).toEqual([])
+  })
+
+  it('caps the number of tags', () => {
+    const many = Array.from({ length: MAX_FAV_TAGS + 5 }, (_, i) => `t${i}`)
+    expect(normalizeFavTags(many)).toHaveLength(MAX_FAV_TAGS)
+  })
+})
+
+describe('favoriteSearchText', () => {
+  const mockSerialize = (code: number): string => `QMK_${code}`
+
+  it('decodes keycodes to their names', () => {
+    expect(favoriteSearchText('combo', { key1: 4, key2: 5, key3: 0, key4: 0, output: 10 }, mockSerialize))
+      .toBe('qmk_4 qmk_5 qmk_0 qmk_0 qmk_10')
+  })
+
+  it('includes macro text', () => {
+    expect(favoriteSearchText('macro', [['text', 'Hello']], mockSerialize)).toBe('text hello')
+  })
+})
@@ -0,0 +1,190 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import {
+  generateConfigH,
+  generateFeatureBlocks,
+  generateRulesMk,
+  type KeymapFeatureInput,
+} from '../keymap-export-features'
+import { AltRepeatKeyOptions, KeyOverrideOptions } from '../types/protocol'
+import type { TapDanceEntry } from '../types/protocol'
+
+function mockSerialize(code: number): string {
+  const names: Record<number, string> = {
+    0x00: 'KC_NO',
+    0x04: 'KC_A',
+    0x05: 'KC_B',
+    0x06: 'KC_C',
+    0x29: 'KC_ESC',
+    0x2A: 'KC_BSPC',
+    0x4C: 'KC_DEL',
+    0xE1: 'KC_LSFT',
+  }
+  return names[code] ?? `0x${code.toString(16).toUpperCase().padStart(4, '0')}`
+}
+
+function input(overrides: Partial<KeymapFeatureInput> = {}): KeymapFeatureInput {
+  return { encoderCount: 0, serializeKeycode: mockSerialize, ...overrides }
+}
+
+function tapDance(overrides: Partial<TapDanceEntry> = {}): TapDanceEntry {
+  return { onTap: 0, onHold: 0, onDoubleTap: 0, onTapHold: 0, tappingTerm: 200, ...overrides }
+}
+
+describe('generateFeatureBlocks', () => {
+  it('emits nothing without dynamic entries', () => {
+    expect(generateFeatureBlocks(input({ tapDance: [tapDance()], combo: [], macros: [[]] }))).toEqual([])
+  })
+
+  it('keeps tap dance indices up to the last configured entry', () => {
+    const [block] = generateFeatureBlocks(input({
+      tapDance: [tapDance(), tapDance({ onTap: 0x04, onHold: 0xE1 }), tapDance()],
+    }))
+
+    expect(block).toContain('[0] = { KC_NO, KC_NO, KC_NO, KC_NO },')
+    expect(block).toContain('[1] = { KC_A, KC_LSFT, KC_NO, KC_NO },')
+    expect(block).not.toContain('[2] =')
+    expect(block).toContain('PIPETTE_TAP_DANCE(1),')
+    expect(block).toContain('tap_dance_action_t tap_dance_actions[] = {')
+    expect(block).not.toContain('get_tapping_term')
+  })
+
+  it('emits get_tapping_term for tap dances with their own term', () => {
+    const [block] = generateFeatureBlocks(input({
+      tapDance: [tapDance({ onTap: 0x04, tappingTerm: 150 }), tapDance({ onTap: 0x05, tappingTerm: 180 })],
+      qmkSettings: { '7': [180, 0] },
+    }))
+
+    expect(block).toContain('case TD(0): return 150;')
+    expect(block).not.toContain('case TD(1)')
+  })
+
+  it('emits combos, skipping incomplete ones', () => {
+    const [block] = generateFeatureBlocks(input({
+      combo: [
+        { key1: 0x04, key2: 0x05, key3: 0, key4: 0, output: 0x29 },
+        { key1: 0x04, key2: 0, key3: 0, key4: 0, output: 0x29 },
+        { key1: 0x04, key2: 0x05, key3: 0x06, key4: 0, output: 0 },
+      ],
+    }))
+
+    expect(block).toContain('const uint16_t PROGMEM pipette_combo_0[] = { KC_A, KC_B, COMBO_END };')
+    expect(block).toContain('COMBO(pipette_combo_0, KC_ESC),')
+    expect(block).not.toContain('pipette_combo_1')
+  })
+
+  it('emits enabled key overrides with QMK option names', () => {
+    const [block] = generateFeatureBlocks(input({
+      keyOverride: [
+        {
+          triggerKey: 0x2A, replacementKey: 0x4C, layers: 0xFFFF, triggerMods: 0x02, negativeMods: 0,
+          suppressedMods: 0x02, options: KeyOverrideOptions.ActivationTriggerDown | KeyOverrideOptions.OneShot, enabled: true,
+        },
+        {
+          triggerKey: 0x04, replacementKey: 0x05, layers: 1, triggerMods: 0, negativeMods: 0,
+          suppressedMods: 0, options: 0, enabled: false,
+        },
+      ],
+    }))
+
+    expect(block).toContain('.trigger = KC_BSPC,')
+    expect(block).toContain('.trigger_mods = 0x02,')
+    expect(block).toContain('.layers = 0xFFFF,')
+    expect(block).toContain('.replacement = KC_DEL,')
+    expect(block).toContain('.options = ko_option_activation_trigger_down | ko_option_one_mod,')
+    expect(block).toContain('&pipette_key_override_0,')
+    expect(block).not.toContain('pipette_key_override_1')
+  })
+
+  it('emits alt repeat handlers with mod checks and bidirectional pairs', () => {
+    const [block] = generateFeatureBlocks(input({
+      altRepeatKey: [
+        { lastKey: 0x04, altKey: 0x05, allowedMods: 0x02, options: AltRepeatKeyOptions.Bidirectional, enabled: true },
+        { lastKey: 0x06, altKey: 0x29, allowedMods: 0x02, options: AltRepeatKeyOptions.IgnoreModHandedness, enabled: true },
+        { lastKey: 0x29, altKey: 0x06, allowedMods: 0, options: AltRepeatKeyOptions.DefaultToThisAltKey, enabled: true },
+      ],
+    }))
+
+    expect(block).toContain('if (keycode == KC_A && (mods & ~0x02) == 0) return KC_B;')
+    expect(block).toContain('if (keycode == KC_B && (mods & ~0x02) == 0) return KC_A;')
+    expect(block).toContain('if (keycode == KC_C && (mods & ~0x22) == 0) return KC_ESC;')
+    expect(block).toContain('if (keycode == KC_ESC) return KC_C;')
+    expect(block).toContain('return KC_TRNS;')
+  })
+
+  it('emits process_record_user macro bodies', () => {
+    const [block] = generateFeatureBlocks(input({
+      macros: [
+        [],
+        [
+          { type: 'text', text: 'say "hi"\n' },
+          { type: 'down', keycodes: [0xE1] },
+          { type: 'tap', keycodes: [0x04, 0x05] },
+          { type: 'up', keycodes: [0xE1] },
+          { type: 'delay', delay: 50 },
+        ],
+      ],
+    }))
+
+    expect(block).not.toContain('QK_MACRO + 0:')
+    expect(block).toContain('case QK_MACRO + 1:')
+    expect(block).toContain('SEND_STRING("say \\"hi\\"\\n");')
+    expect(block).toContain('register_code16(KC_LSFT);')
+    expect(block).toContain('tap_code16(KC_A);')
+    expect(block).toContain('tap_code16(KC_B);')
+    expect(block).toContain('unregister_code16(KC_LSFT);')
+    expect(block).toContain('wait_ms(50);')
+  })
+})
+
+describe('generateConfigH', () => {
+  it('defines only settings that differ from the firmware defaults', () => {
+    const result = generateConfigH(input({
+      qmkSettings: {
+        '7': [180, 0], // TAPPING_TERM
+        '2': [50, 0], // COMBO_TERM at default
+        '22': [1], // PERMISSIVE_HOLD
+        '23': [0],
+        '1': [0b0101], // grave esc alt + gui
+      },
+    }))
+
+    expect(result).toContain('#pragma once')
+    expect(result).toContain('#define TAPPING_TERM 180')
+    expect(result).not.toContain('COMBO_TERM')
+    expect(result).toContain('#define PERMISSIVE_HOLD')
+    expect(result).not.toContain('HOLD_ON_OTHER_KEY_PRESS')
+    expect(result).toContain('#define GRAVE_ESC_ALT_OVERRIDE')
+    expect(result).toContain('#define GRAVE_ESC_GUI_OVERRIDE')
+    expect(result).not.toContain('GRAVE_ESC_CTRL_OVERRIDE')
+  })
+
+  it('enables TAPPING_TERM_PER_KEY for tap dances with their own term', () => {
+    const result = generateConfigH(input({ tapDance: [tapDance({ onTap: 0x04, tappingTerm: 150 })] }))
+    expect(result).toContain('#define TAPPING_TERM_PER_KEY')
+  })
+})
+
+describe('generateRulesMk', () => {
+  it('enables the features the export uses', () => {
+    const result = generateRulesMk(input({
+      encoderCount: 1,
+      tapDance: [tapDance({ onTap: 0x04 })],
+      combo: [{ key1: 0x04, key2: 0x05, key3: 0, key4: 0, output: 0x29 }],
+      qmkSettings: { '3': [1] },
+    }))
+
+    expect(result).toBe([
+      'ENCODER_MAP_ENABLE = yes',
+      'TAP_DANCE_ENABLE = yes',
+      'COMBO_ENABLE = yes',
+      'AUTO_SHIFT_ENABLE = yes',
+      '',
+    ].join('\n'))
+  })
+
+  it('is empty when nothing needs enabling', () => {
+    expect(generateRulesMk(input())).toBe('')
+  })
+})
@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 
 import { describe, it, expect } from 'vitest'
-import { generateKeymapC, type KeymapExportInput } from '../keymap-export'
+import { generateKeymapC, generateKeymapExportFiles, type KeymapExportInput } from '../keymap-export'
 import type { KleKey } from '../kle/types'
 
 function makeKey(overrides: Partial<KleKey> = {}): KleKey {
@@ -361,3 +361,26 @@ describe('generateKeymapC', () => {
     expect(result).toContain('HAS_NAME,')
   })
 })
+
+describe('generateKeymapExportFiles', () => {
+  it('bundles keymap.c with config.h and rules.mk', () => {
+    const files = generateKeymapExportFiles(createBasicInput({
+      combo: [{ key1: 0x04, key2: 0x05, key3: 0, key4: 0, output: 0x29 }],
+      qmkSettings: { '7': [180, 0] },
+    }))
+
+    expect(files.map((f) => f.name)).toEqual(['keymap.c', 'config.h', 'rules.mk'])
+    expect(files[0].content).toContain('COMBO(pipette_combo_0, KC_ESC),')
+    expect(files[1].content).toContain('#define TAPPING_TERM 180')
+    expect(files[2].content).toBe('COMBO_ENABLE = yes\n')
+  })
+
+  it('places feature blocks after the keymaps array', () => {
+    const [keymapC] = generateKeymapExportFiles(createBasicInput({
+      macros: [[{ type: 'tap', keycodes: [0x04] }]],
+    }))
+
+    expect(keymapC.content.indexOf('bool process_record_user'))
+      .toBeGreaterThan(keymapC.content.indexOf('const uint16_t PROGMEM keymaps'))
+  })
+})
@@ -0,0 +1,162 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import { parseKeymapC, parseKeymapJson, parseQmkKeymap, planKeymapImport, type KeymapImportInput } from '../keymap-import'
+import { generateKeymapC } from '../keymap-export'
+import { buildLTKeycode, deserialize, resolve, serializeForCExport } from '../keycodes/keycodes'
+import type { KleKey } from '../kle/types'
+
+function makeKey(overrides: Partial<KleKey> = {}): KleKey {
+  return {
+    x: 0, y: 0,
+    width: 1, height: 1,
+    x2: 0, y2: 0,
+    width2: 1, height2: 1,
+    rotation: 0, rotationX: 0, rotationY: 0,
+    color: '#cccccc',
+    labels: Array(12).fill(null),
+    textColor: Array(12).fill(null),
+    textSize: Array(12).fill(null),
+    row: 0, col: 0,
+    encoderIdx: -1, encoderDir: -1,
+    layoutIndex: -1, layoutOption: -1,
+    decal: false, nub: false, stepped: false, ghost: false,
+    ...overrides,
+  }
+}
+
+// Listed out of visual order: LAYOUT() order is (0,1) (0,0) on top, then (1,0)
+const keys = [
+  makeKey({ x: 1, y: 0, row: 0, col: 0 }),
+  makeKey({ x: 0, y: 0, row: 0, col: 1 }),
+  makeKey({ x: 0, y: 1, row: 1, col: 0 }),
+  makeKey({ x: 3, y: 0, row: 0, col: 2, encoderIdx: 0, encoderDir: 0 }),
+]
+
+function input(overrides: Partial<KeymapImportInput> = {}): KeymapImportInput {
+  return {
+    layers: 2,
+    keys,
+    layoutOptions: new Map(),
+    encoderCount: 1,
+    keymap: new Map(),
+    encoderLayout: new Map(),
+    deserializeKeycode: deserialize,
+    ...overrides,
+  }
+}
+
+const KEYMAP_C = `
+#include QMK_KEYBOARD_H
+
+enum layers { _BASE, _FN };
+#define _EXTRA 2
+
+enum custom_keycodes {
+    MY_MACRO = SAFE_RANGE,
+    OTHER,
+};
+
+const uint16_t PROGMEM keymaps[][MATRIX_ROWS][MATRIX_COLS] = {
+    /* Base
+     * ,-------.
+     */
+    [_BASE] = LAYOUT_split(
+        KC_ESC, LT(_FN, KC_A), // home row
+        MO(_FN)
+    ),
+    [_FN] = LAYOUT_split(
+        _______, XXXXXXX,
+        KC_BOGUS
+    )
+};
+
+const uint16_t PROGMEM encoder_map[][NUM_ENCODERS][NUM_DIRECTIONS] = {
+    [_BASE] = { ENCODER_CCW_CW(KC_VOLD, KC_VOLU) },
+    [_FN] = { ENCODER_CCW_CW(KC_NO, MY_MACRO) },
+};
+`
+
+describe('parseKeymapC', () => {
+  it('reads LAYOUT blocks, encoder_map and custom keycodes with layer names resolved', () => {
+    const parsed = parseKeymapC(KEYMAP_C)
+
+    expect(parsed.layout).toBe('LAYOUT_split')
+    expect(parsed.layers).toEqual([
+      ['KC_ESC', 'LT(1, KC_A)', 'MO(1)'],
+      ['_______', 'XXXXXXX', 'KC_BOGUS'],
+    ])
+    expect(parsed.encoders).toEqual([
+      [{ cw: 'KC_VOLU', ccw: 'KC_VOLD' }],
+      [{ cw: 'MY_MACRO', ccw: 'KC_NO' }],
+    ])
+    expect(parsed.customKeycodes).toEqual(['MY_MACRO', 'OTHER'])
+  })
+
+  it('rejects a file without a keymaps array', () => {
+    expect(() => parseKeymapC('#include QMK_KEYBOARD_H\n')).toThrow('No keymaps[] array')
+  })
+})
+
+describe('parseKeymapJson', () => {
+  it('reads Configurator layers and encoders', () => {
+    const parsed = parseQmkKeymap(JSON.stringify({
+      keyboard: 'test', keymap: 'default', layout: 'LAYOUT',
+      layers: [['KC_A', 'ANY(LCTL(KC_B))', 'KC_C']],
+      encoders: [[{ ccw: 'KC_VOLD', cw: 'KC_VOLU' }]],
+    }))
+
+    expect(parsed.format).toBe('json')
+    expect(parsed.layers).toEqual([['KC_A', 'ANY(LCTL(KC_B))', 'KC_C']])
+    expect(parsed.encoders).toEqual([[{ cw: 'KC_VOLU', ccw: 'KC_VOLD' }]])
+    expect(() => parseKeymapJson('{"layers": [[1]]}')).toThrow('Not a QMK keymap.json')
+  })
+})
+
+describe('planKeymapImport', () => {
+  it('maps LAYOUT arguments onto keys in export order and flags unresolved names', () => {
+    // The board registers USER00 without a name, so MY_MACRO maps by enum order
+    const USER00 = resolve('USER00')
+    const plan = planKeymapImport(parseKeymapC(KEYMAP_C), input({
+      keymap: new Map([['0,0,1', deserialize('KC_ESC')]]),
+      deserializeKeycode: (name) => (name === 'USER00' ? USER00 : deserialize(name)),
+    }))
+
+    expect(plan.keymap.get('0,0,1')).toBe(deserialize('KC_ESC'))
+    expect(plan.keymap.get('0,0,0')).toBe(buildLTKeycode(1, deserialize('KC_A')))
+    expect(plan.keymap.get('0,1,0')).toBe(resolve('MO(1)'))
+    expect(plan.keymap.get('1,0,1')).toBe(deserialize('KC_TRNS'))
+    expect(plan.keymap.get('1,0,0')).toBe(0)
+    // KC_ESC was already bound there
+    expect(plan.keys.map((c) => `${c.layer},${c.row},${c.col}`)).not.toContain('0,0,1')
+    expect(plan.unresolved).toEqual([{ target: { kind: 'key', layer: 1, row: 1, col: 0 }, name: 'KC_BOGUS' }])
+    expect(plan.encoders).toContainEqual({ layer: 0, idx: 0, dir: 0, oldKeycode: 0, newKeycode: deserialize('KC_VOLU') })
+    expect(plan.encoders).toContainEqual({ layer: 1, idx: 0, dir: 0, oldKeycode: 0, newKeycode: USER00 })
+  })
+
+  it('reports argument count mismatches and layers the board does not have', () => {
+    const plan = planKeymapImport(parseKeymapJson(JSON.stringify({
+      layers: [['KC_A', 'KC_B'], ['KC_C', 'KC_D', 'KC_E'], ['KC_F', 'KC_G', 'KC_H']],
+    })), input())
+
+    expect(plan.countMismatches).toEqual([{ layer: 0, expected: 3, actual: 2 }])
+    expect(plan.droppedLayers).toBe(1)
+    expect(plan.keymap.has('0,1,0')).toBe(false)
+  })
+
+  it('round-trips a generated keymap.c', () => {
+    const keymap = new Map([
+      ['0,0,1', deserialize('KC_Q')], ['0,0,0', buildLTKeycode(1, deserialize('KC_SPACE'))], ['0,1,0', deserialize('KC_LSFT')],
+      ['1,0,1', deserialize('KC_TRNS')], ['1,0,0', resolve('TG(0)')], ['1,1,0', deserialize('KC_1')],
+    ])
+    const encoderLayout = new Map([['0,0,0', deserialize('KC_VOLU')], ['0,0,1', deserialize('KC_VOLD')]])
+    const source = generateKeymapC({
+      layers: 2, keys, keymap, encoderLayout, encoderCount: 1, layoutOptions: new Map(), serializeKeycode: serializeForCExport,
+    })
+
+    const plan = planKeymapImport(parseKeymapC(source), input())
+    expect(plan.unresolved).toEqual([])
+    expect(plan.keymap).toEqual(keymap)
+    expect(planKeymapImport(parseKeymapC(source), input({ keymap, encoderLayout }))).toMatchObject({ keys: [], encoders: [] })
+  })
+})
@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import {
+  QMK_SETTINGS_DEFAULTS,
+  decodeQmkSettingValue,
+  diffQmkSettings,
+  isQmkSettingsDiffRowChanged,
+  planQmkSettingsProfile,
+  buildQmkSettingsProfileExport,
+  parseQmkSettingsProfileExport,
+} from '../qmk-settings-profile'
+import type { QmkSettingsProfile } from '../types/qmk-settings-profile'
+
+describe('decodeQmkSettingValue', () => {
+  it('reads little-endian bytes', () => {
+    expect(decodeQmkSettingValue([0xc8, 0x00])).toBe(200)
+    expect(decodeQmkSettingValue([0x88, 0x13])).toBe(5000)
+    expect(decodeQmkSettingValue([])).toBe(0)
+  })
+})
+
+describe('diffQmkSettings', () => {
+  it('lists supported fields with current, default and profile values', () => {
+    const rows = diffQmkSettings({ '7': [250, 0] }, { '7': [180, 0] }, new Set([7]))
+    const term = rows.find((r) => r.qsid === 7)
+    expect(term).toMatchObject({ type: 'integer', current: 250, defaultValue: 200, profile: 180 })
+    expect(rows.every((r) => r.qsid === 7)).toBe(true)
+  })
+
+  it('compares boolean bit-fields bit by bit', () => {
+    // qsid 21 packs the Magic options, one per bit
+    const rows = diffQmkSettings({ '21': [0b10] }, null, new Set([21]))
+    const bits = rows.filter((r) => r.qsid === 21 && r.bit !== undefined)
+    expect(bits.find((r) => r.bit === 0)).toMatchObject({ current: 0, defaultValue: 0, profile: undefined })
+    expect(bits.find((r) => r.bit === 1)).toMatchObject({ current: 1, defaultValue: 0 })
+  })
+
+  it('skips fields the board does not support', () => {
+    expect(diffQmkSettings({ '7': [200, 0] }, null, new Set())).toEqual([])
+  })
+})
+
+describe('isQmkSettingsDiffRowChanged', () => {
+  const row = { tab: 'Tap-Hold', title: 'Tapping Term', qsid: 7, type: 'integer' as const }
+
+  it('flags rows off their default or the profile', () => {
+    expect(isQmkSettingsDiffRowChanged({ ...row, current: 200, defaultValue: 200, profile: undefined })).toBe(false)
+    expect(isQmkSettingsDiffRowChanged({ ...row, current: 250, defaultValue: 200, profile: undefined })).toBe(true)
+    expect(isQmkSettingsDiffRowChanged({ ...row, current: 200, defaultValue: 200, profile: 180 })).toBe(true)
+  })
+})
+
+describe('planQmkSettingsProfile', () => {
+  it('writes supported qsids trimmed to width and reports the rest', () => {
+    const plan = planQmkSettingsProfile({ '7': [180, 0, 9, 9], '2': [50, 0], '99': [1] }, new Set([7]))
+    expect(plan.writes).toEqual([{ qsid: 7, data: [180, 0] }])
+    expect(plan.skipped).toEqual([2, 99])
+  })
+})
+
+describe('profile export', () => {
+  const profile: QmkSettingsProfile = {
+    id: 'id-1',
+    name: 'Gaming',
+    savedAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    values: { '7': [150, 0] },
+  }
+
+  it('round-trips profiles through the export file', () => {
+    const file = buildQmkSettingsProfileExport([profile], '2026-02-01T00:00:00.000Z')
+    expect(file).toEqual({
+      app: 'pipette',
+      version: 1,
+      scope: 'qmkSettingsProfiles',
+      exportedAt: '2026-02-01T00:00:00.000Z',
+      profiles: [{ name: 'Gaming', values: { '7': [150, 0] } }],
+    })
+    expect(parseQmkSettingsProfileExport(JSON.parse(JSON.stringify(file)))).toEqual(file.profiles)
+  })
+
+  it('rejects other files and malformed values', () => {
+    const file = buildQmkSettingsProfileExport([profile])
+    expect(parseQmkSettingsProfileExport({ ...file, scope: 'favorites' })).toBeNull()
+    expect(parseQmkSettingsProfileExport({ ...file, profiles: [{ name: 'x', values: { '7': [300] } }] })).toBeNull()
+    expect(parseQmkSettingsProfileExport({ ...file, profiles: [{ name: ' ', values: {} }] })).toBeNull()
+    expect(parseQmkSettingsProfileExport(null)).toBeNull()
+  })
+
+  it('has a default for every qsid in the settings definitions', () => {
+    expect(QMK_SETTINGS_DEFAULTS.get(7)).toBe(200)
+    expect(QMK_SETTINGS_DEFAULTS.size).toBe(27)
+  })
+})
@@ -0,0 +1,138 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseCustomMenus,
+  flattenCustomMenuControls,
+  customValueLength,
+  encodeCustomValue,
+  decodeCustomValue,
+  evaluateShowIf,
+} from '../via-custom-menus'
+import type { ViaMenu } from '../types/protocol'
+
+const MENUS: (string | ViaMenu)[] = [
+  'qmk_rgblight',
+  {
+    label: 'Keyboard',
+    content: [
+      {
+        label: 'Encoder',
+        content: [
+          { label: 'Enabled', type: 'toggle', content: ['id_enc_enabled', 0, 1] },
+          { label: 'Mode', type: 'dropdown', options: ['Volume', 'Scroll'], content: ['id_enc_mode', 0, 2], showIf: '{id_enc_enabled} == 1' },
+          { label: 'Speed', type: 'range', options: [1, 1000], content: ['id_enc_speed', 0, 3] },
+        ],
+      },
+      {
+        label: 'Indicator',
+        showIf: '{id_enc_enabled}',
+        content: [
+          { label: 'Color', type: 'color', content: ['id_ind_color', 0, 4] },
+          { label: 'Key', type: 'keycode', content: ['id_ind_key', 0, 5, 1] },
+          { label: 'Level', type: 'dropdown', options: [['Low', 10], ['High', 20]], content: ['id_ind_level', 0, 6] },
+        ],
+      },
+    ],
+  },
+]
+
+describe('parseCustomMenus', () => {
+  it('drops built-in preset names and keeps menus with controls', () => {
+    const menus = parseCustomMenus(MENUS)
+    expect(menus).toHaveLength(1)
+    expect(menus[0].label).toBe('Keyboard')
+    expect(menus[0].sections.map((s) => s.label)).toEqual(['Encoder', 'Indicator'])
+    expect(menus[0].sections[1].showIf).toBe('{id_enc_enabled}')
+  })
+
+  it('normalizes control bindings and options', () => {
+    const controls = flattenCustomMenuControls(parseCustomMenus(MENUS))
+    expect(controls.map((c) => c.key)).toEqual([
+      'id_enc_enabled', 'id_enc_mode', 'id_enc_speed', 'id_ind_color', 'id_ind_key', 'id_ind_level',
+    ])
+    const [toggle, dropdown, range, , keycode, pairs] = controls
+    expect(toggle).toMatchObject({ channelId: 0, valueId: [1], min: 0, max: 1 })
+    expect(dropdown.choices).toEqual([{ label: 'Volume', value: 0 }, { label: 'Scroll', value: 1 }])
+    expect(range).toMatchObject({ min: 1, max: 1000 })
+    expect(keycode.valueId).toEqual([5, 1])
+    expect(pairs.choices).toEqual([{ label: 'Low', value: 10 }, { label: 'High', value: 20 }])
+  })
+
+  it('skips malformed controls and empty sections', () => {
+    const menus = parseCustomMenus([
+      {
+        label: 'Broken',
+        content: [
+          { label: 'Nothing valid', content: [
+            { label: 'Unknown', type: 'slider' as never, content: ['id_x', 0, 1] },
+            { label: 'Short', type: 'toggle', content: ['id_y', 0] as never },
+            { label: 'Wide', type: 'toggle', content: ['id_z', 0, 300] },
+          ] },
+        ],
+      },
+    ])
+    expect(menus).toEqual([])
+  })
+
+  it('returns an empty list for a definition without menus', () => {
+    expect(parseCustomMenus(undefined)).toEqual([])
+  })
+})
+
+describe('custom value encoding', () => {
+  const controls = flattenCustomMenuControls(parseCustomMenus(MENUS))
+  const byKey = new Map(controls.map((c) => [c.key, c]))
+
+  it('uses one byte for toggles, dropdowns and small ranges', () => {
+    expect(customValueLength(byKey.get('id_enc_enabled')!)).toBe(1)
+    expect(customValueLength(byKey.get('id_enc_mode')!)).toBe(1)
+  })
+
+  it('uses two big-endian bytes for wide ranges, colors and keycodes', () => {
+    const range = byKey.get('id_enc_speed')!
+    expect(customValueLength(range)).toBe(2)
+    expect(encodeCustomValue(range, 500)).toEqual([0x01, 0xf4])
+    expect(decodeCustomValue(range, [0x01, 0xf4])).toBe(500)
+
+    const color = byKey.get('id_ind_color')!
+    expect(encodeCustomValue(color, (85 << 8) | 200)).toEqual([85, 200])
+    expect(decodeCustomValue(byKey.get('id_ind_key')!, [0x00, 0x04])).toBe(0x04)
+  })
+
+  it('reads missing bytes as zero', () => {
+    expect(decodeCustomValue(byKey.get('id_enc_speed')!, [0x02])).toBe(0x200)
+  })
+})
+
+describe('evaluateShowIf', () => {
+  it('is visible when no expression is given', () => {
+    expect(evaluateShowIf(undefined, {})).toBe(true)
+    expect(evaluateShowIf('  ', {})).toBe(true)
+  })
+
+  it('compares referenced values', () => {
+    expect(evaluateShowIf('{a} == 1', { a: 1 })).toBe(true)
+    expect(evaluateShowIf('{a} != 1', { a: 1 })).toBe(false)
+    expect(evaluateShowIf('{a} >= 3', { a: 4 })).toBe(true)
+    expect(evaluateShowIf('{a} < 0x10', { a: 16 })).toBe(false)
+  })
+
+  it('combines with && / || / ! and parentheses', () => {
+    const values = { a: 1, b: 0, c: 2 }
+    expect(evaluateShowIf('{a} == 1 && {b} == 0', values)).toBe(true)
+    expect(evaluateShowIf('{b} == 1 || {c} == 2', values)).toBe(true)
+    expect(evaluateShowIf('!({a} == 1 && {c} == 3)', values)).toBe(true)
+    expect(evaluateShowIf('!{a}', values)).toBe(false)
+  })
+
+  it('treats unknown references as zero', () => {
+    expect(evaluateShowIf('{missing} == 0', {})).toBe(true)
+  })
+
+  it('falls back to visible for unparsable expressions', () => {
+    expect(evaluateShowIf('{a} ==', { a: 1 })).toBe(true)
+    expect(evaluateShowIf('{a} $ 1', { a: 1 })).toBe(true)
+    expect(evaluateShowIf('({a} == 1', { a: 0 })).toBe(true)
+  })
+})
@@ -0,0 +1,66 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import { mapLedsToKeys, groupLedsByKey } from '../vialrgb-led-map'
+import type { KleKey } from '../kle/types'
+import type { VialRGBLedInfo } from '../types/protocol'
+
+function makeKey(overrides: Partial<KleKey> = {}): KleKey {
+  return {
+    x: 0, y: 0,
+    width: 1, height: 1,
+    x2: 0, y2: 0,
+    width2: 1, height2: 1,
+    rotation: 0, rotationX: 0, rotationY: 0,
+    color: '#cccccc',
+    labels: Array(12).fill(null),
+    textColor: Array(12).fill(null),
+    textSize: Array(12).fill(null),
+    row: 0, col: 0,
+    encoderIdx: -1, encoderDir: -1,
+    layoutIndex: -1, layoutOption: -1,
+    decal: false, nub: false, stepped: false, ghost: false,
+    ...overrides,
+  }
+}
+
+function led(x: number, y: number, row: number | null = null, col: number | null = null): VialRGBLedInfo {
+  return { x, y, flags: row === null ? 0x02 : 0x04, row, col }
+}
+
+// 3x2 grid of keys
+const keys = [0, 1].flatMap((row) => [0, 1, 2].map((col) => makeKey({ x: col, y: row, row, col })))
+
+describe('mapLedsToKeys', () => {
+  it('uses the matrix position of per-key LEDs', () => {
+    expect(mapLedsToKeys([led(0, 0, 1, 2), led(224, 64, 0, 0)], keys)).toEqual(['1,2', '0,0'])
+  })
+
+  it('places LEDs without a matrix position on the nearest key', () => {
+    const underglow = [led(0, 0), led(112, 0), led(224, 0), led(224, 64)]
+    expect(mapLedsToKeys(underglow, keys)).toEqual(['0,0', '0,1', '0,2', '1,2'])
+  })
+
+  it('falls back to the nearest key when the position is not in the layout', () => {
+    expect(mapLedsToKeys([led(0, 64, 5, 5), led(224, 0)], keys)).toEqual(['1,0', '0,2'])
+  })
+
+  it('ignores encoders and decals', () => {
+    const withExtras = [
+      ...keys,
+      makeKey({ x: 5, y: 0, encoderIdx: 0, encoderDir: 0 }),
+      makeKey({ x: 6, y: 0, decal: true }),
+    ]
+    expect(mapLedsToKeys([led(224, 0), led(0, 0)], withExtras)).toEqual(['0,2', '0,0'])
+    expect(mapLedsToKeys([led(0, 0)], [])).toEqual([null])
+  })
+})
+
+describe('groupLedsByKey', () => {
+  it('collects LED indices per key', () => {
+    const byKey = groupLedsByKey(['0,0', '0,1', '0,0', null])
+    expect(byKey.get('0,0')).toEqual([0, 2])
+    expect(byKey.get('0,1')).toEqual([1])
+    expect(byKey.size).toBe(2)
+  })
+})
@@ -0,0 +1,220 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import { generateZmkKeymap, type ZmkExportInput } from '../zmk-export'
+import {
+  buildLTKeycode,
+  buildModTapKeycode,
+  deserialize,
+  recreateKeyboardKeycodes,
+  resolve,
+} from '../keycodes/keycodes'
+import type { KleKey } from '../kle/types'
+import type { TapDanceEntry } from '../types/protocol'
+
+beforeAll(() => {
+  recreateKeyboardKeycodes({
+    vialProtocol: 6,
+    layers: 4,
+    macroCount: 4,
+    tapDanceCount: 4,
+    customKeycodes: null,
+    midi: '',
+    supportedFeatures: new Set(),
+  })
+})
+
+function makeKey(overrides: Partial<KleKey> = {}): KleKey {
+  return {
+    x: 0, y: 0,
+    width: 1, height: 1,
+    x2: 0, y2: 0,
+    width2: 1, height2: 1,
+    rotation: 0, rotationX: 0, rotationY: 0,
+    color: '#cccccc',
+    labels: Array(12).fill(null),
+    textColor: Array(12).fill(null),
+    textSize: Array(12).fill(null),
+    row: 0, col: 0,
+    encoderIdx: -1, encoderDir: -1,
+    layoutIndex: -1, layoutOption: -1,
+    decal: false, nub: false, stepped: false, ghost: false,
+    ...overrides,
+  }
+}
+
+// Key positions 0..3: (0,0) (0,1) on top, then (1,0) (1,1)
+const keys = [
+  makeKey({ x: 0, y: 0, row: 0, col: 0 }),
+  makeKey({ x: 1, y: 0, row: 0, col: 1 }),
+  makeKey({ x: 0, y: 1, row: 1, col: 0 }),
+  makeKey({ x: 1, y: 1, row: 1, col: 1 }),
+]
+
+const kc = (name: string): number => deserialize(name)
+
+function input(overrides: Partial<ZmkExportInput> = {}): ZmkExportInput {
+  return {
+    layers: 1,
+    keys,
+    keymap: new Map([
+      ['0,0,0', kc('KC_ESCAPE')], ['0,0,1', kc('KC_A')],
+      ['0,1,0', kc('KC_LSHIFT')], ['0,1,1', kc('KC_SPACE')],
+    ]),
+    encoderLayout: new Map(),
+    encoderCount: 0,
+    layoutOptions: new Map(),
+    ...overrides,
+  }
+}
+
+function tapDance(overrides: Partial<TapDanceEntry> = {}): TapDanceEntry {
+  return { onTap: 0, onHold: 0, onDoubleTap: 0, onTapHold: 0, tappingTerm: 0, ...overrides }
+}
+
+describe('generateZmkKeymap', () => {
+  it('converts basic keys in LAYOUT() order', () => {
+    const { keymap, report } = generateZmkKeymap(input())
+
+    expect(keymap).toContain('#include <behaviors.dtsi>')
+    expect(keymap).toContain('#include <dt-bindings/zmk/keys.h>')
+    expect(keymap).toContain('compatible = "zmk,keymap";')
+    expect(keymap).toContain('&kp ESC &kp A\n')
+    expect(keymap).toContain('&kp LSHFT &kp SPACE\n')
+    expect(keymap).not.toContain('pointing.h')
+    expect(report).toEqual([])
+  })
+
+  it('converts layer, mod-tap and modifier keycodes', () => {
+    const { keymap, report } = generateZmkKeymap(input({
+      layers: 2,
+      keymap: new Map([
+        ['0,0,0', deserialize('MO(1)')], ['0,0,1', buildLTKeycode(1, kc('KC_SPACE'))],
+        ['0,1,0', buildModTapKeycode(0x03, kc('KC_A'))], ['0,1,1', kc('KC_TILD')],
+        ['1,0,0', kc('KC_TRNS')], ['1,0,1', deserialize('TG(1)')],
+        ['1,1,0', deserialize('TO(0)')], ['1,1,1', 0],
+      ]),
+    }))
+
+    expect(keymap).toContain('&mo 1 &lt 1 SPACE\n')
+    expect(keymap).toContain('&mt LS(LCTRL) A &kp LS(GRAVE)\n')
+    expect(keymap).toContain('&trans &tog 1\n')
+    expect(keymap).toContain('&to 0 &none\n')
+    expect(report).toEqual([])
+  })
+
+  it('reports keycodes with no ZMK equivalent and binds them to &none', () => {
+    const { keymap, report } = generateZmkKeymap(input({
+      keymap: new Map([['0,0,0', deserialize('DF(1)')], ['0,0,1', kc('KC_A')]]),
+    }))
+
+    expect(keymap).toContain('&none &kp A\n')
+    expect(report).toEqual([{ location: { kind: 'key', layer: 0, row: 0, col: 0 }, name: 'DF(1)', label: expect.any(String) }])
+    expect(keymap).toContain(' *   layer 0 key 0,0: DF(1)')
+  })
+
+  it('converts tap dances with hold slots into hold-tap behaviors', () => {
+    const { keymap, report } = generateZmkKeymap(input({
+      keymap: new Map([['0,0,0', deserialize('TD(1)')]]),
+      tapDance: [
+        tapDance({ onTap: kc('KC_A'), onDoubleTap: kc('KC_B'), tappingTerm: 150 }),
+        tapDance({ onTap: kc('KC_ESCAPE'), onHold: kc('KC_LCTRL') }),
+        tapDance(),
+      ],
+    }))
+
+    expect(keymap).toContain('td_0: td_0 {')
+    expect(keymap).toContain('tapping-term-ms = <150>;')
+    expect(keymap).toContain('bindings = <&kp A>, <&kp B>;')
+    expect(keymap).toContain('td_1_hold_1: td_1_hold_1 {')
+    expect(keymap).toContain('bindings = <&td_1_hold_1 LCTRL ESC>;')
+    expect(keymap).not.toContain('td_2')
+    expect(keymap).toContain('&td_1 &none\n')
+    expect(report).toEqual([])
+  })
+
+  it('converts macros, reporting characters and keycodes it cannot type', () => {
+    const { keymap, report } = generateZmkKeymap(input({
+      keymap: new Map([['0,0,0', deserialize('M1')], ['0,0,1', deserialize('M0')]]),
+      macros: [
+        [],
+        [
+          { type: 'text', text: 'Hi!é' },
+          { type: 'down', keycodes: [kc('KC_LSHIFT')] },
+          { type: 'tap', keycodes: [kc('KC_A'), resolve('QK_BOOT')] },
+          { type: 'up', keycodes: [kc('KC_LSHIFT')] },
+          { type: 'delay', delay: 30 },
+        ],
+      ],
+    }))
+
+    expect(keymap).toContain('macro_1: macro_1 {')
+    expect(keymap).toContain('= <&macro_tap &kp LS(H) &kp I &kp LS(N1)>')
+    expect(keymap).toContain(', <&macro_press &kp LSHFT>')
+    expect(keymap).toContain(', <&macro_tap &kp A>')
+    expect(keymap).toContain(', <&macro_release &kp LSHFT>')
+    expect(keymap).toContain(', <&macro_wait_time 30>\n                , <&macro_tap &none>\n                , <&macro_wait_time 15>')
+    expect(keymap).toContain('&macro_1 &none\n')
+    expect(report.map((r) => [r.location, r.name])).toEqual([
+      [{ kind: 'key', layer: 0, row: 0, col: 1 }, 'M0'],
+      [{ kind: 'macro', index: 1 }, '"é"'],
+      [{ kind: 'macro', index: 1 }, 'QK_BOOT'],
+    ])
+  })
+
+  it('leaves out and reports macros none of whose keys convert', () => {
+    const { keymap, report } = generateZmkKeymap(input({
+      keymap: new Map([['0,0,0', deserialize('M0')]]),
+      macros: [[{ type: 'tap', keycodes: [resolve('QK_BOOT')] }, { type: 'delay', delay: 30 }]],
+    }))
+
+    expect(keymap).not.toContain('macro_0')
+    expect(keymap).not.toContain('bindings\n')
+    expect(report.map((r) => [r.location, r.name])).toEqual([
+      [{ kind: 'key', layer: 0, row: 0, col: 0 }, 'M0'],
+      [{ kind: 'macro', index: 0 }, 'QK_BOOT'],
+      [{ kind: 'macro', index: 0 }, 'M0'],
+    ])
+  })
+
+  it('places combos on the key positions of their keycodes', () => {
+    const { keymap, report } = generateZmkKeymap(input({
+      combo: [
+        { key1: kc('KC_A'), key2: kc('KC_SPACE'), key3: 0, key4: 0, output: kc('KC_TAB') },
+        { key1: kc('KC_A'), key2: kc('KC_Z'), key3: 0, key4: 0, output: kc('KC_TAB') },
+      ],
+      qmkSettings: { '2': [40, 0] },
+    }))
+
+    expect(keymap).toContain('compatible = "zmk,combos";')
+    expect(keymap).toContain('key-positions = <1 3>;')
+    expect(keymap).toContain('timeout-ms = <40>;')
+    expect(keymap).toContain('bindings = <&kp TAB>;')
+    expect(keymap).not.toContain('combo_1')
+    expect(report.filter((r) => r.location.kind === 'combo').map((r) => r.name)).toEqual(['KC_A', 'KC_Z'])
+  })
+
+  it('emits encoder sensor bindings and reports key overrides and alt repeat keys', () => {
+    const { keymap, report } = generateZmkKeymap(input({
+      encoderCount: 1,
+      encoderLayout: new Map([['0,0,0', kc('KC_VOLU')], ['0,0,1', kc('KC_VOLD')]]),
+      keyOverride: [{
+        triggerKey: kc('KC_BSPACE'), replacementKey: kc('KC_DELETE'), layers: 0xffff,
+        triggerMods: 0x02, negativeMods: 0, suppressedMods: 0x02, options: 0, enabled: true,
+      }],
+      altRepeatKey: [{ lastKey: kc('KC_A'), altKey: kc('KC_B'), allowedMods: 0, options: 0, enabled: false }],
+    }))
+
+    expect(keymap).toContain('sensor-bindings = <&inc_dec_kp C_VOL_UP C_VOL_DN>;')
+    expect(report).toEqual([{
+      location: { kind: 'keyOverride', index: 0 }, name: 'KC_BSPACE -> KC_DELETE', label: 'KC_BSPACE -> KC_DELETE',
+    }])
+  })
+
+  it('carries a non-default tapping term over to &lt and &mt', () => {
+    const { keymap } = generateZmkKeymap(input({ qmkSettings: { '7': [180, 0] } }))
+
+    expect(keymap).toContain('&lt { tapping-term-ms = <180>; };')
+    expect(keymap).toContain('&mt { tapping-term-ms = <180>; };')
+  })
+})
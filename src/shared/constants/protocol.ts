@@ -9,6 +9,21 @@ export const HID_REPORT_ID = 0x00
 export const VIAL_SERIAL_MAGIC = 'vial:f64c2b3c'
 export const BOOTLOADER_SERIAL_MAGIC = 'vibl:d4f8159c'
 
+// Vial bootloader (vibl) — 64-byte packets, ASCII command prefixes.
+// Mirrors vial-gui's firmware_flasher.py.
+export const VIBL_PACKET_LEN = 64
+export const VIBL_CMD_CHECK = [0x56, 0x43] // "VC"
+export const VIBL_CHECK_VERSION = 0x00
+export const VIBL_CHECK_UID = 0x01
+export const VIBL_CMD_FLASH = [0x56, 0x46] // "VF" + u16 LE chunk count
+export const VIBL_CMD_INSECURE_BOOT = [0x56, 0x54] // "VT"
+export const VIBL_CMD_REBOOT = [0x56, 0x52] // "VR"
+export const VIBL_SUPPORTED_VERSIONS: readonly number[] = [0, 1]
+/** Magic at the start of a .vfw firmware package */
+export const VIBL_PACKAGE_SIGNATURE = 'VIALFW00'
+/** .vfw header: signature(8) uid(8) timestamp(8) reserved(8) sha256(32) */
+export const VIBL_PACKAGE_HEADER_LEN = 64
+
 // Communication parameters
 export const HID_TIMEOUT_MS = 500
 export const HID_RETRY_COUNT = 20
@@ -37,15 +52,24 @@ export const CMD_VIA_GET_KEYBOARD_VALUE = 0x02
 export const CMD_VIA_SET_KEYBOARD_VALUE = 0x03
 export const CMD_VIA_GET_KEYCODE = 0x04
 export const CMD_VIA_SET_KEYCODE = 0x05
+export const CMD_VIA_DYNAMIC_KEYMAP_RESET = 0x06
 export const CMD_VIA_LIGHTING_SET_VALUE = 0x07
 export const CMD_VIA_LIGHTING_GET_VALUE = 0x08
 export const CMD_VIA_LIGHTING_SAVE = 0x09
+// VIA v3 names for the same three ids: byte1 is a channel id (0-5) instead
+// of a legacy lighting value id (>= 0x09), so both share the wire commands.
+export const CMD_VIA_CUSTOM_SET_VALUE = 0x07
+export const CMD_VIA_CUSTOM_GET_VALUE = 0x08
+export const CMD_VIA_CUSTOM_SAVE = 0x09
+export const CMD_VIA_EEPROM_RESET = 0x0a
+export const CMD_VIA_BOOTLOADER_JUMP = 0x0b
 export const CMD_VIA_MACRO_GET_COUNT = 0x0c
 export const CMD_VIA_MACRO_GET_BUFFER_SIZE = 0x0d
 export const CMD_VIA_MACRO_GET_BUFFER = 0x0e
 export const CMD_VIA_MACRO_SET_BUFFER = 0x0f
 export const CMD_VIA_GET_LAYER_COUNT = 0x11
 export const CMD_VIA_KEYMAP_GET_BUFFER = 0x12
+export const CMD_VIA_KEYMAP_SET_BUFFER = 0x13
 export const CMD_VIA_VIAL_PREFIX = 0xfe
 
 // --- VIA Keyboard Value subcommands ---
@@ -63,6 +87,15 @@ export const VIALRGB_GET_INFO = 0x40
 export const VIALRGB_GET_MODE = 0x41
 export const VIALRGB_GET_SUPPORTED = 0x42
 export const VIALRGB_SET_MODE = 0x41
+export const VIALRGB_GET_NUMBER_LEDS = 0x43
+export const VIALRGB_GET_LED_INFO = 0x44
+export const VIALRGB_DIRECT_FASTSET = 0x42
+/** VialRGB effect id of "Direct Control" (per-LED colors from the host). */
+export const VIALRGB_EFFECT_DIRECT = 1
+/** LEDs per direct_fastset packet: 3 HSV bytes each after the 5-byte header. */
+export const VIALRGB_DIRECT_FASTSET_MAX_LEDS = Math.floor((MSG_LEN - 5) / 3)
+/** vialrgb_get_led_info row/col when the LED has no matrix position. */
+export const VIALRGB_NO_MATRIX_POSITION = 0xff
 
 // --- Vial Protocol Commands (sent after CMD_VIA_VIAL_PREFIX) ---
 export const CMD_VIAL_GET_KEYBOARD_ID = 0x00
@@ -113,3 +146,6 @@ export const VIAL_PROTOCOL_DYNAMIC = 4
 export const VIAL_PROTOCOL_QMK_SETTINGS = 4
 export const VIAL_PROTOCOL_EXT_MACROS = 5
 export const VIAL_PROTOCOL_KEY_OVERRIDE = 5
+// VIA protocol 9 is the first where clients may rely on
+// dynamic_keymap_set_buffer; older boards get one set_keycode per cell.
+export const VIA_PROTOCOL_KEYMAP_SET_BUFFER = 9
@@ -1,8 +1,11 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 
 import type { FavoriteType, FavoriteExportFile, FavoriteExportEntry } from './types/favorite-store'
+import { isQmkSettingsValues } from './qmk-settings-profile'
 
-export const FAVORITE_TYPES: readonly FavoriteType[] = ['tapDance', 'macro', 'combo', 'keyOverride', 'altRepeatKey']
+export const FAVORITE_TYPES: readonly FavoriteType[] = [
+  'tapDance', 'macro', 'combo', 'keyOverride', 'altRepeatKey', 'layer', 'encoder', 'qmkSettings',
+]
 
 export const FAV_EXPORT_KEY_MAP: Record<string, FavoriteType> = {
   macro: 'macro',
@@ -10,6 +13,9 @@ export const FAV_EXPORT_KEY_MAP: Record<string, FavoriteType> = {
   combo: 'combo',
   ko: 'keyOverride',
   ark: 'altRepeatKey',
+  layer: 'layer',
+  enc: 'encoder',
+  qmk: 'qmkSettings',
 }
 
 export const FAV_TYPE_TO_EXPORT_KEY: Record<FavoriteType, string> = {
@@ -18,6 +24,9 @@ export const FAV_TYPE_TO_EXPORT_KEY: Record<FavoriteType, string> = {
   combo: 'combo',
   keyOverride: 'ko',
   altRepeatKey: 'ark',
+  layer: 'layer',
+  encoder: 'enc',
+  qmkSettings: 'qmk',
 }
 
 export const FAV_KEYCODE_FIELDS: Record<FavoriteType, readonly string[]> = {
@@ -26,6 +35,31 @@ export const FAV_KEYCODE_FIELDS: Record<FavoriteType, readonly string[]> = {
   combo: ['key1', 'key2', 'key3', 'key4', 'output'],
   keyOverride: ['triggerKey', 'replacementKey'],
   altRepeatKey: ['lastKey', 'altKey'],
+  layer: [],
+  encoder: [],
+  qmkSettings: [],
+}
+
+/** Keycode fields inside the items of a list, for types whose data is a list of records. */
+export const FAV_KEYCODE_LIST_FIELDS: Partial<Record<FavoriteType, { list: string; fields: readonly string[] }>> = {
+  layer: { list: 'keys', fields: ['keycode'] },
+  encoder: { list: 'encoders', fields: ['cw', 'ccw'] },
+}
+
+export const MAX_FAV_TAGS = 20
+export const MAX_FAV_TAG_LENGTH = 40
+
+/** Trimmed, lower-case, unique tags; anything that is not a string is dropped. */
+export function normalizeFavTags(v: unknown): string[] {
+  if (!Array.isArray(v)) return []
+  const tags: string[] = []
+  for (const item of v) {
+    if (typeof item !== 'string') continue
+    const tag = item.trim().toLowerCase().slice(0, MAX_FAV_TAG_LENGTH)
+    if (tag && !tags.includes(tag)) tags.push(tag)
+    if (tags.length === MAX_FAV_TAGS) break
+  }
+  return tags
 }
 
 export function isValidFavoriteType(v: unknown): v is FavoriteType {
@@ -123,6 +157,22 @@ function isValidKeyOverrideData(data: unknown): boolean {
   )
 }
 
+function isKeycodeList(v: unknown, fields: string[]): boolean {
+  return Array.isArray(v) && v.every((item) => isRecord(item) && hasNumberFields(item, fields))
+}
+
+function isValidLayerData(data: unknown): boolean {
+  return isRecord(data) && isKeycodeList(data.keys, ['x', 'y', 'keycode'])
+}
+
+function isValidEncoderData(data: unknown): boolean {
+  return isRecord(data) && isKeycodeList(data.encoders, ['cw', 'ccw'])
+}
+
+function isValidQmkSettingsData(data: unknown): boolean {
+  return isRecord(data) && typeof data.group === 'string' && isQmkSettingsValues(data.values)
+}
+
 function isValidAltRepeatKeyData(data: unknown): boolean {
   if (!isRecord(data)) return false
   return (
@@ -150,26 +200,46 @@ export function isValidFavExportFile(v: unknown): v is FavoriteExportFile {
       if (!isRecord(entry)) return false
       if (typeof entry.label !== 'string') return false
       if (typeof entry.savedAt !== 'string') return false
+      if (entry.tags !== undefined && !Array.isArray(entry.tags)) return false
       if (entry.data === undefined) return false
     }
   }
   return true
 }
 
-export function serializeFavData(
+function mapKeycodeFields(
   type: FavoriteType,
   data: unknown,
-  serializeFn: (code: number) => string,
+  mapValue: (val: unknown) => unknown,
 ): unknown {
-  const fields = FAV_KEYCODE_FIELDS[type]
-  if (fields.length === 0 || !isRecord(data)) return data
-  const result = { ...data }
-  for (const field of fields) {
-    if (typeof result[field] === 'number') {
-      result[field] = serializeFn(result[field] as number)
+  if (!isRecord(data)) return data
+  const mapFields = (record: Record<string, unknown>, fields: readonly string[]) => {
+    const result = { ...record }
+    for (const field of fields) {
+      if (field in result) result[field] = mapValue(result[field])
     }
+    return result
   }
-  return result
+  const listSpec = FAV_KEYCODE_LIST_FIELDS[type]
+  if (listSpec) {
+    const list = data[listSpec.list]
+    if (!Array.isArray(list)) return data
+    return {
+      ...data,
+      [listSpec.list]: list.map((item) => (isRecord(item) ? mapFields(item, listSpec.fields) : item)),
+    }
+  }
+  const fields = FAV_KEYCODE_FIELDS[type]
+  if (fields.length === 0) return data
+  return mapFields(data, fields)
+}
+
+export function serializeFavData(
+  type: FavoriteType,
+  data: unknown,
+  serializeFn: (code: number) => string,
+): unknown {
+  return mapKeycodeFields(type, data, (val) => (typeof val === 'number' ? serializeFn(val) : val))
 }
 
 export function deserializeFavData(
@@ -177,16 +247,30 @@ export function deserializeFavData(
   data: unknown,
   deserializeFn: (val: string | number) => number,
 ): unknown {
-  const fields = FAV_KEYCODE_FIELDS[type]
-  if (fields.length === 0 || !isRecord(data)) return data
-  const result = { ...data }
-  for (const field of fields) {
-    const val = result[field]
-    if (typeof val === 'string' || typeof val === 'number') {
-      result[field] = deserializeFn(val)
-    }
-  }
-  return result
+  return mapKeycodeFields(type, data, (val) =>
+    typeof val === 'string' || typeof val === 'number' ? deserializeFn(val) : val,
+  )
+}
+
+function collectStrings(v: unknown, out: string[]): void {
+  if (typeof v === 'string') out.push(v)
+  else if (Array.isArray(v)) v.forEach((item) => collectStrings(item, out))
+  else if (isRecord(v)) Object.values(v).forEach((item) => collectStrings(item, out))
+}
+
+/**
+ * Lower-case text of a favorite's content for free-text search: keycodes
+ * decoded to their QMK names plus any strings the data holds (macro text,
+ * the QMK Settings group).
+ */
+export function favoriteSearchText(
+  type: FavoriteType,
+  data: unknown,
+  serializeFn: (code: number) => string,
+): string {
+  const strings: string[] = []
+  collectStrings(serializeFavData(type, data, serializeFn), strings)
+  return strings.join(' ').toLowerCase()
 }
 
 export function isFavoriteDataFile(v: unknown, type: FavoriteType): boolean {
@@ -205,6 +289,12 @@ export function isFavoriteDataFile(v: unknown, type: FavoriteType): boolean {
       return isValidKeyOverrideData(data)
     case 'altRepeatKey':
       return isValidAltRepeatKeyData(data)
+    case 'layer':
+      return isValidLayerData(data)
+    case 'encoder':
+      return isValidEncoderData(data)
+    case 'qmkSettings':
+      return isValidQmkSettingsData(data)
     default:
       return false
   }
@@ -3,12 +3,14 @@ export const IpcChannels = {
   // Device events (main → renderer)
   DEVICE_CONNECTED: 'device:connected',
   DEVICE_DISCONNECTED: 'device:disconnected',
+  DEVICE_WATCH_SET_SUSPENDED: 'device:watch-set-suspended',
 
   // File I/O (renderer → main → renderer)
   FILE_SAVE_LAYOUT: 'file:save-layout',
   FILE_LOAD_LAYOUT: 'file:load-layout',
   FILE_EXPORT_KEYMAP_C: 'file:export-keymap-c',
   FILE_EXPORT_PDF: 'file:export-pdf',
+  FILE_EXPORT_ZMK_KEYMAP: 'file:export-zmk-keymap',
   FILE_EXPORT_CSV: 'file:export-csv',
   FILE_EXPORT_CSV_BUNDLE: 'file:export-csv-bundle',
   FILE_EXPORT_JSON: 'file:export-json',
@@ -25,6 +27,17 @@ export const IpcChannels = {
   HID_SEND: 'hid:send',
   HID_IS_DEVICE_OPEN: 'hid:isDeviceOpen',
   HID_PROBE_DEVICE: 'hid:probeDevice',
+  HID_OPEN_SESSION: 'hid:openSession',
+  HID_CLOSE_SESSION: 'hid:closeSession',
+  HID_CAPTURE_START: 'hid:captureStart',
+  HID_CAPTURE_STOP: 'hid:captureStop',
+  HID_CAPTURE_STATUS: 'hid:captureStatus',
+
+  // Firmware flashing via the Vial bootloader (renderer → main → renderer)
+  FIRMWARE_SELECT_FILE: 'firmware:select-file',
+  FIRMWARE_FLASH: 'firmware:flash',
+  FIRMWARE_READ_BOOTLOADER_UID: 'firmware:read-bootloader-uid',
+  FIRMWARE_FLASH_PROGRESS: 'firmware:flash-progress',
 
   // LZMA decompression (preload → main → preload)
   LZMA_DECOMPRESS: 'lzma:decompress',
@@ -59,6 +72,12 @@ export const IpcChannels = {
   FAVORITE_STORE_IMPORT: 'favorite-store:import',
   FAVORITE_STORE_IMPORT_TO_CURRENT: 'favorite-store:import-to-current',
 
+  // QMK Settings Profile Store (renderer → main → renderer)
+  QMK_SETTINGS_PROFILE_LIST: 'qmk-settings-profile:list',
+  QMK_SETTINGS_PROFILE_SAVE: 'qmk-settings-profile:save',
+  QMK_SETTINGS_PROFILE_RENAME: 'qmk-settings-profile:rename',
+  QMK_SETTINGS_PROFILE_DELETE: 'qmk-settings-profile:delete',
+
   // App Config (renderer ↔ main)
   APP_CONFIG_GET_ALL: 'app-config:get-all',
   APP_CONFIG_SET: 'app-config:set',
@@ -269,6 +288,7 @@ export const IpcChannels = {
   // Favorite Store extensions
   FAVORITE_STORE_SET_HUB_POST_ID: 'favorite-store:set-hub-post-id',
   FAVORITE_STORE_SET_HUB_PRIVATE: 'favorite-store:set-hub-private',
+  FAVORITE_STORE_SET_TAGS: 'favorite-store:set-tags',
 
   // Analyze Filter Store extensions
   ANALYZE_FILTER_STORE_SET_HUB_POST_ID: 'analyze-filter-store:set-hub-post-id',
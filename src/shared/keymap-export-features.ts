@@ -0,0 +1,401 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// QMK source for the dynamic features Vial keeps in EEPROM — tap dance,
+// combos, key overrides, alt repeat and macros — plus the config.h / rules.mk
+// fragments that enable them, for the keymap.c export bundle
+
+import type { AltRepeatKeyEntry, ComboEntry, KeyOverrideEntry, TapDanceEntry } from './types/protocol'
+import { AltRepeatKeyOptions, KeyOverrideOptions } from './types/protocol'
+import { QMK_SETTINGS_DEFAULTS, decodeQmkSettingValue } from './qmk-settings-profile'
+import { DEFAULT_TAPPING_TERM_MS, QSID_TAPPING_TERM } from './qmk-settings-tapping-term'
+
+// Structurally compatible with MacroAction from preload/macro.ts
+export type KeymapExportMacroAction =
+  | { type: 'text'; text: string }
+  | { type: 'tap'; keycodes: number[] }
+  | { type: 'down'; keycodes: number[] }
+  | { type: 'up'; keycodes: number[] }
+  | { type: 'delay'; delay: number }
+
+export interface KeymapFeatureInput {
+  encoderCount: number
+  serializeKeycode: (code: number) => string
+  tapDance?: TapDanceEntry[]
+  combo?: ComboEntry[]
+  keyOverride?: KeyOverrideEntry[]
+  altRepeatKey?: AltRepeatKeyEntry[]
+  macros?: KeymapExportMacroAction[][]
+  /** QMK Settings values keyed by qsid, little-endian bytes. */
+  qmkSettings?: Record<string, number[]>
+}
+
+const KC_NO = 0
+
+// QMK's ko_option_t bits share Vial's KeyOverrideOptions layout
+const KEY_OVERRIDE_OPTION_NAMES: [KeyOverrideOptions, string][] = [
+  [KeyOverrideOptions.ActivationTriggerDown, 'ko_option_activation_trigger_down'],
+  [KeyOverrideOptions.ActivationRequired, 'ko_option_activation_required_mod_down'],
+  [KeyOverrideOptions.ActivationNegativeModUp, 'ko_option_activation_negative_mod_up'],
+  [KeyOverrideOptions.OneShot, 'ko_option_one_mod'],
+  [KeyOverrideOptions.NoReregister, 'ko_option_no_reregister_trigger'],
+  [KeyOverrideOptions.NoUnregisterOnOther, 'ko_option_no_unregister_on_other_key_down'],
+]
+
+// qsid -> config.h define for the integer settings
+const INTEGER_SETTING_DEFINES: [number, string][] = [
+  [QSID_TAPPING_TERM, 'TAPPING_TERM'],
+  [25, 'QUICK_TAP_TERM'],
+  [27, 'FLOW_TAP_TERM'],
+  [18, 'TAP_CODE_DELAY'],
+  [19, 'TAP_HOLD_CAPS_DELAY'],
+  [20, 'TAPPING_TOGGLE'],
+  [2, 'COMBO_TERM'],
+  [4, 'AUTO_SHIFT_TIMEOUT'],
+  [5, 'ONESHOT_TAP_TOGGLE'],
+  [6, 'ONESHOT_TIMEOUT'],
+  [9, 'MOUSEKEY_DELAY'],
+  [10, 'MOUSEKEY_INTERVAL'],
+  [11, 'MOUSEKEY_MOVE_DELTA'],
+  [12, 'MOUSEKEY_MAX_SPEED'],
+  [13, 'MOUSEKEY_TIME_TO_MAX'],
+  [14, 'MOUSEKEY_WHEEL_DELAY'],
+  [15, 'MOUSEKEY_WHEEL_INTERVAL'],
+  [16, 'MOUSEKEY_WHEEL_MAX_SPEED'],
+  [17, 'MOUSEKEY_WHEEL_TIME_TO_MAX'],
+]
+
+// qsid -> [bit, config.h define] for the flag settings. Magic (qsid 21) is
+// runtime EEPROM state with no compile-time equivalent besides FORCE_NKRO.
+const FLAG_SETTING_DEFINES: [number, number, string][] = [
+  [1, 0, 'GRAVE_ESC_ALT_OVERRIDE'],
+  [1, 1, 'GRAVE_ESC_CTRL_OVERRIDE'],
+  [1, 2, 'GRAVE_ESC_GUI_OVERRIDE'],
+  [1, 3, 'GRAVE_ESC_SHIFT_OVERRIDE'],
+  [3, 1, 'AUTO_SHIFT_MODIFIERS'],
+  [3, 2, 'NO_AUTO_SHIFT_SPECIAL'],
+  [3, 3, 'NO_AUTO_SHIFT_NUMERIC'],
+  [3, 4, 'NO_AUTO_SHIFT_ALPHA'],
+  [3, 5, 'AUTO_SHIFT_REPEAT'],
+  [3, 6, 'AUTO_SHIFT_NO_AUTO_REPEAT'],
+  [8, 0, 'PERMISSIVE_HOLD'],
+  [8, 1, 'IGNORE_MOD_TAP_INTERRUPT'],
+  [8, 2, 'TAPPING_FORCE_HOLD'],
+  [8, 3, 'RETRO_TAPPING'],
+  [21, 7, 'FORCE_NKRO'],
+  [22, 0, 'PERMISSIVE_HOLD'],
+  [23, 0, 'HOLD_ON_OTHER_KEY_PRESS'],
+  [24, 0, 'RETRO_TAPPING'],
+  [26, 0, 'CHORDAL_HOLD'],
+]
+
+const QSID_AUTO_SHIFT = 3
+
+function hex2(value: number): string {
+  return `0x${value.toString(16).toUpperCase().padStart(2, '0')}`
+}
+
+function settingValue(qmkSettings: Record<string, number[]> | undefined, qsid: number): number | undefined {
+  const bytes = qmkSettings?.[String(qsid)]
+  return bytes && bytes.length > 0 ? decodeQmkSettingValue(bytes) : undefined
+}
+
+/** The board's TAPPING_TERM, which tap dances with term 0 fall back to. */
+function globalTappingTerm(input: KeymapFeatureInput): number {
+  return settingValue(input.qmkSettings, QSID_TAPPING_TERM) || DEFAULT_TAPPING_TERM_MS
+}
+
+function isTapDanceUsed(td: TapDanceEntry): boolean {
+  return td.onTap !== KC_NO || td.onHold !== KC_NO || td.onDoubleTap !== KC_NO || td.onTapHold !== KC_NO
+}
+
+/** Entries up to the last configured one, so `TD(n)` keeps its index. */
+function usedTapDances(input: KeymapFeatureInput): TapDanceEntry[] {
+  const entries = input.tapDance ?? []
+  let end = entries.length
+  while (end > 0 && !isTapDanceUsed(entries[end - 1])) end--
+  return entries.slice(0, end)
+}
+
+function comboKeys(combo: ComboEntry): number[] {
+  const keys = [combo.key1, combo.key2, combo.key3, combo.key4]
+  const end = keys.indexOf(KC_NO)
+  return end === -1 ? keys : keys.slice(0, end)
+}
+
+function usedCombos(input: KeymapFeatureInput): ComboEntry[] {
+  return (input.combo ?? []).filter((c) => c.output !== KC_NO && comboKeys(c).length >= 2)
+}
+
+function usedKeyOverrides(input: KeymapFeatureInput): KeyOverrideEntry[] {
+  return (input.keyOverride ?? []).filter((ko) => ko.enabled && ko.triggerKey !== KC_NO)
+}
+
+function usedAltRepeatKeys(input: KeymapFeatureInput): AltRepeatKeyEntry[] {
+  return (input.altRepeatKey ?? []).filter((ar) => ar.enabled && ar.lastKey !== KC_NO && ar.altKey !== KC_NO)
+}
+
+/** Index of each macro with at least one action; `M<n>` keeps its index. */
+function usedMacros(input: KeymapFeatureInput): [number, KeymapExportMacroAction[]][] {
+  return (input.macros ?? []).flatMap((actions, i): [number, KeymapExportMacroAction[]][] => (actions.length > 0 ? [[i, actions]] : []))
+}
+
+/** Tap dances whose own tapping term differs from the board's. */
+function perKeyTappingTerms(input: KeymapFeatureInput): [number, number][] {
+  const global = globalTappingTerm(input)
+  return usedTapDances(input).flatMap((td, i): [number, number][] =>
+    isTapDanceUsed(td) && td.tappingTerm > 0 && td.tappingTerm !== global ? [[i, td.tappingTerm]] : [],
+  )
+}
+
+// --- keymap.c ---
+
+function generateTapDance(input: KeymapFeatureInput): string | null {
+  const entries = usedTapDances(input)
+  if (entries.length === 0) return null
+  const kc = input.serializeKeycode
+
+  const rows = entries.map((td, i) =>
+    `    [${i}] = { ${kc(td.onTap)}, ${kc(td.onHold)}, ${kc(td.onDoubleTap)}, ${kc(td.onTapHold)} },`,
+  )
+  const actions = entries.map((_, i) => `    PIPETTE_TAP_DANCE(${i}),`)
+  const lines = [
+    `typedef struct {`,
+    `    uint16_t on_tap;`,
+    `    uint16_t on_hold;`,
+    `    uint16_t on_double_tap;`,
+    `    uint16_t on_tap_hold;`,
+    `} pipette_tap_dance_t;`,
+    '',
+    `static const pipette_tap_dance_t pipette_tap_dances[] = {`,
+    ...rows,
+    `};`,
+    `static uint16_t pipette_tap_dance_held[${entries.length}];`,
+    '',
+    `static void pipette_tap_dance_finished(tap_dance_state_t *state, void *user_data) {`,
+    `    uint8_t index = (uintptr_t)user_data;`,
+    `    const pipette_tap_dance_t *td = &pipette_tap_dances[index];`,
+    `    bool holding = state->pressed && !state->interrupted;`,
+    `    uint16_t keycode = td->on_tap;`,
+    `    if (state->count == 1 && holding && td->on_hold != KC_NO) {`,
+    `        keycode = td->on_hold;`,
+    `    } else if (state->count >= 2 && holding && td->on_tap_hold != KC_NO) {`,
+    `        keycode = td->on_tap_hold;`,
+    `    } else if (state->count >= 2 && td->on_double_tap != KC_NO) {`,
+    `        keycode = td->on_double_tap;`,
+    `    } else {`,
+    `        for (uint8_t i = 1; i < state->count; i++) tap_code16(td->on_tap);`,
+    `    }`,
+    `    pipette_tap_dance_held[index] = keycode;`,
+    `    register_code16(keycode);`,
+    `}`,
+    '',
+    `static void pipette_tap_dance_reset(tap_dance_state_t *state, void *user_data) {`,
+    `    uint8_t index = (uintptr_t)user_data;`,
+    `    unregister_code16(pipette_tap_dance_held[index]);`,
+    `    pipette_tap_dance_held[index] = KC_NO;`,
+    `}`,
+    '',
+    `#define PIPETTE_TAP_DANCE(index) \\`,
+    `    { .fn = { NULL, pipette_tap_dance_finished, pipette_tap_dance_reset, NULL }, .user_data = (void *)(uintptr_t)(index) }`,
+    '',
+    `tap_dance_action_t tap_dance_actions[] = {`,
+    ...actions,
+    `};`,
+  ]
+
+  const terms = perKeyTappingTerms(input)
+  if (terms.length > 0) {
+    lines.push(
+      '',
+      `uint16_t get_tapping_term(uint16_t keycode, keyrecord_t *record) {`,
+      `    switch (keycode) {`,
+      ...terms.map(([i, term]) => `        case TD(${i}): return ${term};`),
+      `        default: return TAPPING_TERM;`,
+      `    }`,
+      `}`,
+    )
+  }
+  return lines.join('\n')
+}
+
+function generateCombos(input: KeymapFeatureInput): string | null {
+  const combos = usedCombos(input)
+  if (combos.length === 0) return null
+  const kc = input.serializeKeycode
+
+  return [
+    ...combos.map((c, i) =>
+      `const uint16_t PROGMEM pipette_combo_${i}[] = { ${comboKeys(c).map(kc).join(', ')}, COMBO_END };`,
+    ),
+    '',
+    `combo_t key_combos[] = {`,
+    ...combos.map((c, i) => `    COMBO(pipette_combo_${i}, ${kc(c.output)}),`),
+    `};`,
+  ].join('\n')
+}
+
+function keyOverrideOptions(options: number): string {
+  const names = KEY_OVERRIDE_OPTION_NAMES.filter(([bit]) => (options & bit) !== 0).map(([, name]) => name)
+  return names.length > 0 ? names.join(' | ') : '0'
+}
+
+function generateKeyOverrides(input: KeymapFeatureInput): string | null {
+  const overrides = usedKeyOverrides(input)
+  if (overrides.length === 0) return null
+  const kc = input.serializeKeycode
+
+  const blocks = overrides.map((ko, i) => [
+    `const key_override_t pipette_key_override_${i} = {`,
+    `    .trigger = ${kc(ko.triggerKey)},`,
+    `    .trigger_mods = ${hex2(ko.triggerMods)},`,
+    `    .layers = 0x${ko.layers.toString(16).toUpperCase().padStart(4, '0')},`,
+    `    .negative_mod_mask = ${hex2(ko.negativeMods)},`,
+    `    .suppressed_mods = ${hex2(ko.suppressedMods)},`,
+    `    .replacement = ${kc(ko.replacementKey)},`,
+    `    .options = ${keyOverrideOptions(ko.options)},`,
+    `};`,
+  ].join('\n'))
+
+  return [
+    ...blocks,
+    '',
+    `const key_override_t *key_overrides[] = {`,
+    ...overrides.map((_, i) => `    &pipette_key_override_${i},`),
+    `};`,
+  ].join('\n')
+}
+
+/** Mods an entry accepts; handedness-free entries accept either side. */
+function altRepeatAllowedMods(ar: AltRepeatKeyEntry): number {
+  if ((ar.options & AltRepeatKeyOptions.IgnoreModHandedness) === 0) return ar.allowedMods
+  const either = (ar.allowedMods | (ar.allowedMods >> 4)) & 0x0f
+  return either | (either << 4)
+}
+
+function generateAltRepeatKeys(input: KeymapFeatureInput): string | null {
+  const entries = usedAltRepeatKeys(input)
+  if (entries.length === 0) return null
+  const kc = input.serializeKeycode
+
+  const lines = entries.flatMap((ar) => {
+    // DefaultToThisAltKey: the alt key applies whatever mods are held
+    const modCheck = (ar.options & AltRepeatKeyOptions.DefaultToThisAltKey) !== 0
+      ? ''
+      : ` && (mods & ~${hex2(altRepeatAllowedMods(ar))}) == 0`
+    const forward = `    if (keycode == ${kc(ar.lastKey)}${modCheck}) return ${kc(ar.altKey)};`
+    return (ar.options & AltRepeatKeyOptions.Bidirectional) !== 0
+      ? [forward, `    if (keycode == ${kc(ar.altKey)}${modCheck}) return ${kc(ar.lastKey)};`]
+      : [forward]
+  })
+
+  return [
+    `uint16_t get_alt_repeat_key_keycode_user(uint16_t keycode, uint8_t mods) {`,
+    ...lines,
+    `    return KC_TRNS;`,
+    `}`,
+  ].join('\n')
+}
+
+function cStringLiteral(text: string): string {
+  let out = ''
+  for (const ch of text) {
+    const code = ch.codePointAt(0) ?? 0
+    if (ch === '"' || ch === '\\') out += `\\${ch}`
+    else if (ch === '\n') out += '\\n'
+    else if (ch === '\t') out += '\\t'
+    else if (code < 0x20 || code === 0x7f) out += `\\x${code.toString(16).padStart(2, '0')}`
+    else out += ch
+  }
+  return `"${out}"`
+}
+
+function macroStatements(actions: KeymapExportMacroAction[], kc: (code: number) => string): string[] {
+  return actions.flatMap((action) => {
+    switch (action.type) {
+      case 'text': return [`SEND_STRING(${cStringLiteral(action.text)});`]
+      case 'tap': return action.keycodes.map((code) => `tap_code16(${kc(code)});`)
+      case 'down': return action.keycodes.map((code) => `register_code16(${kc(code)});`)
+      case 'up': return action.keycodes.map((code) => `unregister_code16(${kc(code)});`)
+      case 'delay': return [`wait_ms(${action.delay});`]
+    }
+  })
+}
+
+function generateMacros(input: KeymapFeatureInput): string | null {
+  const macros = usedMacros(input)
+  if (macros.length === 0) return null
+
+  const cases = macros.flatMap(([i, actions]) => [
+    `        case QK_MACRO + ${i}:`,
+    `            if (record->event.pressed) {`,
+    ...macroStatements(actions, input.serializeKeycode).map((s) => `                ${s}`),
+    `            }`,
+    `            return false;`,
+  ])
+
+  return [
+    `bool process_record_user(uint16_t keycode, keyrecord_t *record) {`,
+    `    switch (keycode) {`,
+    ...cases,
+    `    }`,
+    `    return true;`,
+    `}`,
+  ].join('\n')
+}
+
+/** keymap.c blocks that follow `keymaps[]` / `encoder_map`, in file order. */
+export function generateFeatureBlocks(input: KeymapFeatureInput): string[] {
+  return [
+    generateTapDance(input),
+    generateCombos(input),
+    generateKeyOverrides(input),
+    generateAltRepeatKeys(input),
+    generateMacros(input),
+  ].filter((block): block is string => block != null)
+}
+
+// --- config.h / rules.mk ---
+
+/**
+ * config.h fragment: QMK Settings values that differ from the firmware
+ * defaults, plus TAPPING_TERM_PER_KEY when a tap dance carries its own term.
+ */
+export function generateConfigH(input: KeymapFeatureInput): string {
+  const defines = new Map<string, string>()
+
+  for (const [qsid, name] of INTEGER_SETTING_DEFINES) {
+    const value = settingValue(input.qmkSettings, qsid)
+    if (value != null && value !== QMK_SETTINGS_DEFAULTS.get(qsid)) defines.set(name, String(value))
+  }
+  for (const [qsid, bit, name] of FLAG_SETTING_DEFINES) {
+    const value = settingValue(input.qmkSettings, qsid)
+    if (value != null && (value & (1 << bit)) !== 0) defines.set(name, '')
+  }
+  if (perKeyTappingTerms(input).length > 0) defines.set('TAPPING_TERM_PER_KEY', '')
+
+  const lines = [
+    `/* SPDX-License-Identifier: GPL-2.0-or-later */`,
+    `#pragma once`,
+  ]
+  if (defines.size > 0) lines.push('')
+  for (const [name, value] of defines) {
+    lines.push(value === '' ? `#define ${name}` : `#define ${name} ${value}`)
+  }
+  return lines.join('\n') + '\n'
+}
+
+/** rules.mk fragment enabling each feature the export uses. */
+export function generateRulesMk(input: KeymapFeatureInput): string {
+  const autoShift = settingValue(input.qmkSettings, QSID_AUTO_SHIFT) ?? 0
+  const features: [string, boolean][] = [
+    ['ENCODER_MAP_ENABLE', input.encoderCount > 0],
+    ['TAP_DANCE_ENABLE', usedTapDances(input).length > 0],
+    ['COMBO_ENABLE', usedCombos(input).length > 0],
+    ['KEY_OVERRIDE_ENABLE', usedKeyOverrides(input).length > 0],
+    ['REPEAT_KEY_ENABLE', usedAltRepeatKeys(input).length > 0],
+    ['AUTO_SHIFT_ENABLE', (autoShift & 1) !== 0],
+  ]
+  return features
+    .filter(([, enabled]) => enabled)
+    .map(([name]) => `${name} = yes\n`)
+    .join('')
+}
@@ -4,18 +4,24 @@
 import type { KleKey } from './kle/types'
 import type { CustomKeycodeDefinition } from './keycodes/keycodes'
 import { filterVisibleKeys } from './kle/filter-keys'
+import { generateConfigH, generateFeatureBlocks, generateRulesMk } from './keymap-export-features'
+import type { KeymapFeatureInput } from './keymap-export-features'
 
-export interface KeymapExportInput {
+export interface KeymapExportInput extends KeymapFeatureInput {
   layers: number
   keys: KleKey[]
   keymap: Map<string, number>
   encoderLayout: Map<string, number>
-  encoderCount: number
   layoutOptions: Map<number, number>
-  serializeKeycode: (code: number) => string
   customKeycodes?: CustomKeycodeDefinition[]
 }
 
+/** One file of the keymap export bundle. */
+export interface KeymapExportFile {
+  name: string
+  content: string
+}
+
 function groupKeysByRow(keys: KleKey[]): KleKey[][] {
   if (keys.length === 0) return []
 
@@ -38,6 +44,24 @@ function groupKeysByRow(keys: KleKey[]): KleKey[][] {
   return rows
 }
 
+/**
+ * Keys in LAYOUT() argument order: the visible non-encoder keys, row by row
+ * as `groupKeysByRow` lays them out. The keymap.c importer maps arguments
+ * back onto keys through the same order.
+ */
+export function layoutArgumentOrder(keys: KleKey[], layoutOptions: Map<number, number>): KleKey[] {
+  return layoutArgumentRows(keys, layoutOptions).flat()
+}
+
+/** `layoutArgumentOrder` split into its visual rows, for formatting. */
+export function layoutArgumentRows(keys: KleKey[], layoutOptions: Map<number, number>): KleKey[][] {
+  return groupKeysByRow(visibleNormalKeys(keys, layoutOptions))
+}
+
+function visibleNormalKeys(keys: KleKey[], layoutOptions: Map<number, number>): KleKey[] {
+  return filterVisibleKeys(keys, layoutOptions).filter((k) => k.encoderIdx === -1)
+}
+
 function generateLayerLayout(
   layer: number,
   normalKeys: KleKey[],
@@ -98,8 +122,7 @@ export function generateKeymapC(input: KeymapExportInput): string {
     customKeycodes,
   } = input
 
-  const visibleKeys = filterVisibleKeys(keys, layoutOptions)
-  const normalKeys = visibleKeys.filter((k) => k.encoderIdx === -1)
+  const normalKeys = visibleNormalKeys(keys, layoutOptions)
 
   const layerBlocks = Array.from({ length: layers }, (_, l) =>
     generateLayerLayout(l, normalKeys, keymap, serializeKeycode),
@@ -134,5 +157,18 @@ export function generateKeymapC(input: KeymapExportInput): string {
     )
   }
 
+  for (const block of generateFeatureBlocks(input)) {
+    sections.push('', block)
+  }
+
   return sections.join('\n') + '\n'
 }
+
+/** keymap.c with its config.h and rules.mk, zipped by FILE_EXPORT_KEYMAP_C. */
+export function generateKeymapExportFiles(input: KeymapExportInput): KeymapExportFile[] {
+  return [
+    { name: 'keymap.c', content: generateKeymapC(input) },
+    { name: 'config.h', content: generateConfigH(input) },
+    { name: 'rules.mk', content: generateRulesMk(input) },
+  ]
+}
@@ -0,0 +1,340 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Read a QMK keymap.c or QMK Configurator keymap.json back into keymap state
+
+import type { KleKey } from './kle/types'
+import { layoutArgumentOrder } from './keymap-export'
+import type { LayerKeyChange, LayerEncoderChange } from './keymap/layer-ops'
+
+/** Keycode names per layer, in LAYOUT() argument order, before resolving. */
+export interface ParsedQmkKeymap {
+  format: 'c' | 'json'
+  /** LAYOUT macro of the first layer, e.g. `LAYOUT_ansi`. */
+  layout: string | null
+  /** Layers the file does not define (gaps in `[n] =` designators) are empty. */
+  layers: string[][]
+  /** Per layer, per encoder. */
+  encoders: { cw: string; ccw: string }[][]
+  /** `enum custom_keycodes` entries in order; the first one is USER00. */
+  customKeycodes: string[]
+}
+
+export interface KeymapImportInput {
+  layers: number
+  keys: KleKey[]
+  layoutOptions: Map<number, number>
+  encoderCount: number
+  keymap: ReadonlyMap<string, number> // "layer,row,col" -> keycode
+  encoderLayout: ReadonlyMap<string, number> // "layer,idx,dir" -> keycode
+  deserializeKeycode: (name: string) => number
+}
+
+export type KeymapImportTarget =
+  | { kind: 'key'; layer: number; row: number; col: number }
+  | { kind: 'encoder'; layer: number; idx: number; dir: 0 | 1 }
+
+export interface KeymapImportPlan {
+  /** Every resolved position, changed or not, for previewing. */
+  keymap: Map<string, number>
+  /** Positions whose keycode differs from the board's. */
+  keys: LayerKeyChange[]
+  encoders: LayerEncoderChange[]
+  /** Names that did not resolve; those positions are left as they are. */
+  unresolved: { target: KeymapImportTarget; name: string }[]
+  /** Layers whose LAYOUT() argument count differs from the board's key count. */
+  countMismatches: { layer: number; expected: number; actual: number }[]
+  /** Layers in the file beyond the board's layer count. */
+  droppedLayers: number
+}
+
+// First values that mark an enum as custom keycodes rather than layer names
+const CUSTOM_KEYCODE_STARTS = new Set(['SAFE_RANGE', 'QK_KB_0', 'QK_KB', 'QK_USER', 'QK_USER_0', 'USER00'])
+
+const QMK_ALIASES: Record<string, string> = {
+  _______: 'KC_TRNS',
+  XXXXXXX: 'KC_NO',
+}
+
+// --- keymap.c ---
+
+/** Blank out comments, keeping string and char literals intact. */
+function stripComments(source: string): string {
+  let out = ''
+  let i = 0
+  while (i < source.length) {
+    const ch = source[i]
+    const next = source[i + 1]
+    if (ch === '/' && next === '/') {
+      while (i < source.length && source[i] !== '\n') i++
+    } else if (ch === '/' && next === '*') {
+      const end = source.indexOf('*/', i + 2)
+      i = end === -1 ? source.length : end + 2
+      out += ' '
+    } else if (ch === '"' || ch === "'") {
+      let j = i + 1
+      while (j < source.length && source[j] !== ch && source[j] !== '\n') j += source[j] === '\\' ? 2 : 1
+      out += source.slice(i, j + 1)
+      i = j + 1
+    } else {
+      out += ch
+      i++
+    }
+  }
+  return out
+}
+
+/** Index just past the bracket that closes the one at `open`. */
+function matchBracket(text: string, open: number): number {
+  const pairs: Record<string, string> = { '{': '}', '(': ')', '[': ']' }
+  const stack: string[] = []
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i]
+    if (ch in pairs) stack.push(pairs[ch])
+    else if (ch === stack[stack.length - 1]) {
+      stack.pop()
+      if (stack.length === 0) return i + 1
+    }
+  }
+  throw new Error('Unbalanced brackets in keymap.c')
+}
+
+/** Split on commas outside of any bracket; drops a trailing empty item. */
+function splitTopLevel(text: string): string[] {
+  const items: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (ch === '(' || ch === '{' || ch === '[') depth++
+    else if (ch === ')' || ch === '}' || ch === ']') depth--
+    else if (ch === ',' && depth === 0) {
+      items.push(text.slice(start, i).trim())
+      start = i + 1
+    }
+  }
+  const last = text.slice(start).trim()
+  if (last !== '') items.push(last)
+  return items
+}
+
+/** Body between the braces of `<name>[..][..][..] = { ... }`, or null. */
+function arrayBody(text: string, name: string): string | null {
+  const match = new RegExp(`\\b${name}\\s*(?:\\[[^\\]]*\\]\\s*){3}=\\s*\\{`).exec(text)
+  if (!match) return null
+  const open = match.index + match[0].length - 1
+  return text.slice(open + 1, matchBracket(text, open) - 1)
+}
+
+function parseNumber(value: string, constants: Map<string, number>): number | null {
+  const v = value.trim()
+  if (/^\d+$/.test(v)) return parseInt(v, 10)
+  if (/^0x[0-9a-f]+$/i.test(v)) return parseInt(v, 16)
+  return constants.get(v) ?? null
+}
+
+/** Numeric `#define`s and enums (layer names), plus the custom keycode enum. */
+function collectNames(text: string): { constants: Map<string, number>; customKeycodes: string[] } {
+  const constants = new Map<string, number>()
+  const customKeycodes: string[] = []
+  for (const m of text.matchAll(/^[ \t]*#define[ \t]+(\w+)[ \t]+(\w+)[ \t]*$/gm)) {
+    const value = parseNumber(m[2], constants)
+    if (value != null) constants.set(m[1], value)
+  }
+  for (const m of text.matchAll(/\benum\s*\w*\s*\{([^}]*)\}/g)) {
+    const entries = splitTopLevel(m[1]).map((entry) => {
+      const [name, value] = entry.split('=').map((s) => s.trim())
+      return { name, value }
+    })
+    if (entries.length === 0) continue
+    if (entries[0].value && CUSTOM_KEYCODE_STARTS.has(entries[0].value)) {
+      customKeycodes.push(...entries.map((e) => e.name))
+      continue
+    }
+    let next = 0
+    for (const { name, value } of entries) {
+      const explicit = value != null ? parseNumber(value, constants) : null
+      if (explicit != null) next = explicit
+      constants.set(name, next)
+      next++
+    }
+  }
+  return { constants, customKeycodes }
+}
+
+/** Replace layer names inside a keycode, e.g. `MO(_LOWER)` -> `MO(1)`. */
+function substituteConstants(token: string, constants: Map<string, number>): string {
+  return token.replace(/\b[A-Za-z_]\w*\b/g, (name) => {
+    const value = constants.get(name)
+    return value != null ? String(value) : name
+  })
+}
+
+/** Parse `[idx] = <body>` items; items without a designator follow the previous one. */
+function designatedItems(body: string, constants: Map<string, number>): { index: number; value: string }[] {
+  const items: { index: number; value: string }[] = []
+  let next = 0
+  for (const item of splitTopLevel(body)) {
+    const m = /^\[([^\]]+)\]\s*=\s*([\s\S]*)$/.exec(item)
+    let index = next
+    let value = item
+    if (m) {
+      const resolved = parseNumber(m[1], constants)
+      if (resolved == null) throw new Error(`Unknown layer index: ${m[1].trim()}`)
+      index = resolved
+      value = m[2].trim()
+    }
+    items.push({ index, value })
+    next = index + 1
+  }
+  return items
+}
+
+function fillLayers<T>(items: { index: number; value: T }[], empty: () => T): T[] {
+  const count = items.reduce((max, item) => Math.max(max, item.index + 1), 0)
+  const layers = Array.from({ length: count }, empty)
+  for (const item of items) layers[item.index] = item.value
+  return layers
+}
+
+export function parseKeymapC(source: string): ParsedQmkKeymap {
+  const text = stripComments(source)
+  const { constants, customKeycodes } = collectNames(text)
+
+  const keymapsBody = arrayBody(text, 'keymaps')
+  if (keymapsBody == null) throw new Error('No keymaps[] array found in keymap.c')
+
+  let layout: string | null = null
+  const layerItems = designatedItems(keymapsBody, constants).map(({ index, value }) => {
+    const m = /^(\w+)\s*\(([\s\S]*)\)$/.exec(value)
+    if (!m) throw new Error(`Layer ${index} is not a LAYOUT() call`)
+    layout ??= m[1]
+    return { index, value: splitTopLevel(m[2]).map((token) => substituteConstants(token, constants)) }
+  })
+
+  const encoderBody = arrayBody(text, 'encoder_map')
+  const encoderItems = encoderBody == null ? [] : designatedItems(encoderBody, constants).map(({ index, value }) => {
+    const inner = value.replace(/^\{([\s\S]*)\}$/, '$1')
+    return {
+      index,
+      value: splitTopLevel(inner).map((entry) => {
+        const m = /^ENCODER_CCW_CW\s*\(([\s\S]*)\)$/.exec(entry)
+        const [ccw = 'KC_NO', cw = 'KC_NO'] = m ? splitTopLevel(m[1]) : []
+        return { cw: substituteConstants(cw, constants), ccw: substituteConstants(ccw, constants) }
+      }),
+    }
+  })
+
+  return {
+    format: 'c',
+    layout,
+    layers: fillLayers(layerItems, () => []),
+    encoders: fillLayers(encoderItems, () => []),
+    customKeycodes,
+  }
+}
+
+// --- keymap.json ---
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string')
+}
+
+export function parseKeymapJson(source: string): ParsedQmkKeymap {
+  const data: unknown = JSON.parse(source)
+  if (typeof data !== 'object' || data === null) throw new Error('Not a QMK keymap.json')
+  const { layout, layers, encoders } = data as Record<string, unknown>
+  if (!Array.isArray(layers) || !layers.every(isStringArray)) {
+    throw new Error('Not a QMK keymap.json')
+  }
+
+  const parsedEncoders = Array.isArray(encoders)
+    ? encoders.map((layer: unknown) => (Array.isArray(layer) ? layer : []).map((entry: unknown) => {
+        const { cw, ccw } = (entry ?? {}) as Record<string, unknown>
+        return { cw: typeof cw === 'string' ? cw : 'KC_NO', ccw: typeof ccw === 'string' ? ccw : 'KC_NO' }
+      }))
+    : []
+
+  return {
+    format: 'json',
+    layout: typeof layout === 'string' ? layout : null,
+    layers,
+    encoders: parsedEncoders,
+    customKeycodes: [],
+  }
+}
+
+/** Parse either format; a leading `{` means keymap.json. */
+export function parseQmkKeymap(source: string): ParsedQmkKeymap {
+  return source.trimStart().startsWith('{') ? parseKeymapJson(source) : parseKeymapC(source)
+}
+
+// --- Mapping onto the board ---
+
+function resolveName(name: string, customKeycodes: string[], deserializeKeycode: (name: string) => number): number | null {
+  // Configurator wraps raw expressions in ANY(); QMK keymap.c uses the
+  // 7-character placeholders for transparent / no-op keys
+  const unwrapped = name.replace(/^ANY\(([\s\S]*)\)$/, '$1').replace(/\s+/g, '')
+  const normalized = QMK_ALIASES[unwrapped] ?? unwrapped
+  if (normalized === 'KC_NO') return 0
+  const code = deserializeKeycode(normalized)
+  if (code !== 0) return code
+  const customIndex = customKeycodes.indexOf(normalized)
+  if (customIndex !== -1) {
+    const user = deserializeKeycode(`USER${String(customIndex).padStart(2, '0')}`)
+    if (user !== 0) return user
+  }
+  return null
+}
+
+/**
+ * Map parsed keycode names onto the board: LAYOUT() arguments go to keys in
+ * `layoutArgumentOrder`, encoders by index. Names that do not resolve are
+ * reported and leave their position untouched.
+ */
+export function planKeymapImport(parsed: ParsedQmkKeymap, input: KeymapImportInput): KeymapImportPlan {
+  const order = layoutArgumentOrder(input.keys, input.layoutOptions)
+  const plan: KeymapImportPlan = {
+    keymap: new Map(),
+    keys: [],
+    encoders: [],
+    unresolved: [],
+    countMismatches: [],
+    droppedLayers: Math.max(0, parsed.layers.length - input.layers),
+  }
+  const resolve = (name: string) => resolveName(name, parsed.customKeycodes, input.deserializeKeycode)
+
+  parsed.layers.slice(0, input.layers).forEach((names, layer) => {
+    if (names.length === 0) return
+    if (names.length !== order.length) {
+      plan.countMismatches.push({ layer, expected: order.length, actual: names.length })
+    }
+    names.slice(0, order.length).forEach((name, i) => {
+      const { row, col } = order[i]
+      const code = resolve(name)
+      if (code == null) {
+        plan.unresolved.push({ target: { kind: 'key', layer, row, col }, name })
+        return
+      }
+      const key = `${layer},${row},${col}`
+      plan.keymap.set(key, code)
+      const oldKeycode = input.keymap.get(key) ?? 0
+      if (oldKeycode !== code) plan.keys.push({ layer, row, col, oldKeycode, newKeycode: code })
+    })
+  })
+
+  parsed.encoders.slice(0, input.layers).forEach((encoders, layer) => {
+    encoders.slice(0, input.encoderCount).forEach((entry, idx) => {
+      // encoderLayout stores: dir 0=CW, dir 1=CCW
+      for (const [dir, name] of [[0, entry.cw], [1, entry.ccw]] as [0 | 1, string][]) {
+        const code = resolve(name)
+        if (code == null) {
+          plan.unresolved.push({ target: { kind: 'encoder', layer, idx, dir }, name })
+          continue
+        }
+        const oldKeycode = input.encoderLayout.get(`${layer},${idx},${dir}`) ?? 0
+        if (oldKeycode !== code) plan.encoders.push({ layer, idx, dir, oldKeycode, newKeycode: code })
+      }
+    })
+  })
+
+  return plan
+}
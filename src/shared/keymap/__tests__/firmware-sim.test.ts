@@ -0,0 +1,177 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import { simulateFirmware, resolveFirmwareSimSettings, hidReportsToText, DEFAULT_COMBO_TERM_MS } from '../firmware-sim'
+import type { FirmwareSimEvent, FirmwareSimInput, FirmwareSimSettings } from '../firmware-sim'
+import { buildLTKeycode, buildModTapKeycode, buildModMaskKeycode, deserialize, resolve } from '../../keycodes/keycodes'
+
+const KC_A = deserialize('KC_A')
+const KC_B = deserialize('KC_B')
+const KC_J = deserialize('KC_J')
+const KC_X = deserialize('KC_X')
+const KC_Y = deserialize('KC_Y')
+const KC_Z = deserialize('KC_Z')
+const KC_1 = deserialize('KC_1')
+const KC_SPC = deserialize('KC_SPACE')
+
+// Layer 0: LT(1, KC_SPC), KC_A, LSFT_T(KC_F), KC_J, TD(0), M0, TG(1)
+// Layer 1: KC_TRNS, KC_1, KC_TRNS, KC_J, KC_TRNS, KC_TRNS, KC_TRNS
+const LT_SPC = 0
+const A = 1
+const SFT_F = 2
+const J = 3
+const TD0 = 4
+const MACRO = 5
+const TG1 = 6
+
+const settings: FirmwareSimSettings = {
+  tappingTermMs: 200, permissiveHold: false, holdOnOtherKeyPress: false, chordalHold: false, comboTermMs: 50,
+}
+
+function input(overrides: Partial<FirmwareSimInput> = {}): FirmwareSimInput {
+  const base = [buildLTKeycode(1, KC_SPC), KC_A, buildModTapKeycode(0x02, deserialize('KC_F')), KC_J, resolve('TD(0)'), resolve('M0'), resolve('TG(1)')]
+  const fn = [1, KC_1, 1, KC_J, 1, 1, 1]
+  const keymap = new Map<string, number>()
+  base.forEach((code, col) => keymap.set(`0,0,${col}`, code))
+  fn.forEach((code, col) => keymap.set(`1,0,${col}`, code))
+  return {
+    layers: 2,
+    keymap,
+    tapDanceEntries: [{ onTap: KC_X, onHold: KC_Y, onDoubleTap: KC_Z, onTapHold: 0, tappingTerm: 200 }],
+    macros: [[{ type: 'text', text: 'Hi!' }]],
+    settings,
+    ...overrides,
+  }
+}
+
+// [col, pressed, time]
+function events(...steps: [number, boolean, number][]): FirmwareSimEvent[] {
+  return steps.map(([col, pressed, time]) => ({ time, row: 0, col, pressed }))
+}
+
+const tap = (col: number, time: number, hold = 20): [number, boolean, number][] => [[col, true, time], [col, false, time + hold]]
+
+describe('simulateFirmware', () => {
+  it('sends a report per change and types the text', () => {
+    const result = simulateFirmware(input(), events(...tap(A, 0), ...tap(J, 50)))
+
+    expect(result.reports).toEqual([
+      { time: 0, mods: 0, keys: [KC_A] },
+      { time: 20, mods: 0, keys: [] },
+      { time: 50, mods: 0, keys: [KC_J] },
+      { time: 70, mods: 0, keys: [] },
+    ])
+    expect(result.text).toBe('aj')
+  })
+
+  it('settles a layer-tap by the tapping term', () => {
+    expect(simulateFirmware(input(), events(...tap(LT_SPC, 0, 100))).text).toBe(' ')
+
+    const held = simulateFirmware(input(), events([LT_SPC, true, 0], ...tap(A, 250), [LT_SPC, false, 300]))
+    expect(held.text).toBe('1')
+    expect(held.decisions).toEqual([{ time: 200, row: 0, col: LT_SPC, keycode: buildLTKeycode(1, KC_SPC), outcome: 'hold', reason: 'term' }])
+  })
+
+  it('treats a release exactly at the tapping term as a hold', () => {
+    expect(simulateFirmware(input(), events(...tap(LT_SPC, 0, 200))).decisions[0].outcome).toBe('hold')
+  })
+
+  it('applies the interrupt rules from the tap-hold settings', () => {
+    // LT down, A tapped inside it, LT up — all inside TAPPING_TERM
+    const rolled = events([LT_SPC, true, 0], [A, true, 50], [A, false, 80], [LT_SPC, false, 120])
+    expect(simulateFirmware(input(), rolled).text).toBe(' a')
+    expect(simulateFirmware(input({ settings: { ...settings, permissiveHold: true } }), rolled).text).toBe('1')
+
+    const overlapped = events([LT_SPC, true, 0], [A, true, 50], [LT_SPC, false, 80], [A, false, 120])
+    expect(simulateFirmware(input({ settings: { ...settings, permissiveHold: true } }), overlapped).text).toBe(' a')
+    const onPress = simulateFirmware(input({ settings: { ...settings, holdOnOtherKeyPress: true } }), overlapped)
+    expect(onPress.text).toBe('1')
+    expect(onPress.decisions[0]).toMatchObject({ time: 50, outcome: 'hold', reason: 'holdOnOtherKeyPress' })
+  })
+
+  it('settles as a tap when Chordal Hold sees a same-hand key', () => {
+    const chordal = { ...settings, holdOnOtherKeyPress: true, chordalHold: true }
+    const overlapped = events([LT_SPC, true, 0], [A, true, 50], [LT_SPC, false, 80], [A, false, 120])
+
+    const sameHand = new Map([['0,0', 'left' as const], ['0,1', 'left' as const]])
+    const same = simulateFirmware(input({ settings: chordal, hands: sameHand }), overlapped)
+    expect(same.text).toBe(' a')
+    expect(same.decisions[0].reason).toBe('chordalHold')
+
+    const otherHand = new Map([['0,0', 'left' as const], ['0,1', 'right' as const]])
+    expect(simulateFirmware(input({ settings: chordal, hands: otherHand }), overlapped).text).toBe('1')
+  })
+
+  it('holds the mod of a mod-tap', () => {
+    const result = simulateFirmware(input(), events([SFT_F, true, 0], ...tap(J, 250), [SFT_F, false, 300]))
+
+    expect(result.text).toBe('J')
+    expect(result.reports[0]).toEqual({ time: 200, mods: 0x02, keys: [] })
+  })
+
+  it('fires combos inside the combo term and falls back to the keys outside it', () => {
+    const withCombo = input({ comboEntries: [{ key1: KC_A, key2: KC_J, key3: 0, key4: 0, output: KC_B }] })
+
+    const chord = simulateFirmware(withCombo, events([A, true, 0], [J, true, 20], [A, false, 60], [J, false, 70]))
+    expect(chord.text).toBe('b')
+    expect(chord.combos).toEqual([0])
+
+    const slow = simulateFirmware(withCombo, events([A, true, 0], [J, true, DEFAULT_COMBO_TERM_MS + 10], [A, false, 100], [J, false, 110]))
+    expect(slow.text).toBe('aj')
+    expect(slow.combos).toEqual([])
+  })
+
+  it('resolves tap dances by tap count and hold', () => {
+    expect(simulateFirmware(input(), events(...tap(TD0, 0))).text).toBe('x')
+    expect(simulateFirmware(input(), events(...tap(TD0, 0), ...tap(TD0, 100))).text).toBe('z')
+    const hold = simulateFirmware(input(), events([TD0, true, 0], [TD0, false, 400]))
+    expect(hold.text).toBe('y')
+    expect(hold.decisions[0]).toMatchObject({ outcome: 'hold', reason: 'term' })
+    expect(simulateFirmware(input(), events(...tap(TD0, 0), ...tap(A, 50))).text).toBe('xa')
+  })
+
+  it('replaces a key through a key override and suppresses its mods', () => {
+    const withOverride = input({
+      keyOverrideEntries: [{
+        triggerKey: KC_A, replacementKey: KC_B, layers: 0xffff,
+        triggerMods: 0x02, negativeMods: 0, suppressedMods: 0x02, options: 0, enabled: true,
+      }],
+    })
+    const result = simulateFirmware(withOverride, events([SFT_F, true, 0], ...tap(A, 250), [SFT_F, false, 300], ...tap(A, 350)))
+
+    expect(result.text).toBe('ba')
+    expect(result.reports).toContainEqual({ time: 250, mods: 0, keys: [KC_B] })
+  })
+
+  it('plays macros and toggles layers', () => {
+    expect(simulateFirmware(input(), events(...tap(MACRO, 0))).text).toBe('Hi!')
+
+    const toggled = simulateFirmware(input(), events(...tap(TG1, 0), ...tap(A, 50)))
+    expect(toggled.text).toBe('1')
+    expect(toggled.layerState).toBe(0b10)
+  })
+})
+
+describe('hidReportsToText', () => {
+  it('applies shift and backspace', () => {
+    expect(hidReportsToText([
+      { time: 0, mods: 0x20, keys: [KC_A] },
+      { time: 1, mods: 0, keys: [] },
+      { time: 2, mods: 0, keys: [KC_1] },
+      { time: 3, mods: 0, keys: [deserialize('KC_BSPC')] },
+      { time: 4, mods: 0, keys: [buildModMaskKeycode(0, KC_Z)] },
+    ])).toBe('Az')
+  })
+})
+
+describe('resolveFirmwareSimSettings', () => {
+  it('reads the tap-hold and combo settings, defaulting to QMK values', () => {
+    expect(resolveFirmwareSimSettings(undefined)).toEqual({
+      tappingTermMs: 200, permissiveHold: false, holdOnOtherKeyPress: false, chordalHold: false, comboTermMs: 50,
+    })
+    expect(resolveFirmwareSimSettings({ '7': [0x2c, 0x01], '22': [1], '23': [0], '26': [1], '2': [80, 0] })).toEqual({
+      tappingTermMs: 300, permissiveHold: true, holdOnOtherKeyPress: false, chordalHold: true, comboTermMs: 80,
+    })
+    expect(resolveFirmwareSimSettings({ '8': [0b1] }).permissiveHold).toBe(true)
+  })
+})
@@ -0,0 +1,96 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import { findKeycodeUses, planKeycodeReplace, parseKeycodeQuery, isEmptyKeycodeReplacePlan } from '../keycode-search'
+import type { KeycodeSearchInput, MacroKeycodeAction } from '../keycode-search'
+import { deserialize } from '../../keycodes/keycodes'
+import type { AltRepeatKeyEntry, ComboEntry, KeyOverrideEntry, TapDanceEntry } from '../../types/protocol'
+
+const APP = deserialize('KC_APP')
+const A = deserialize('KC_A')
+const B = deserialize('KC_B')
+const F13 = deserialize('KC_F13')
+
+const tapDance: TapDanceEntry = { onTap: A, onHold: APP, onDoubleTap: 0, onTapHold: 0, tappingTerm: 200 }
+const combo: ComboEntry = { key1: APP, key2: B, key3: 0, key4: 0, output: APP }
+const keyOverride: KeyOverrideEntry = {
+  triggerKey: APP, replacementKey: B, layers: 0xffff,
+  triggerMods: 0, negativeMods: 0, suppressedMods: 0, options: 0, enabled: true,
+}
+const altRepeatKey: AltRepeatKeyEntry = { lastKey: A, altKey: APP, allowedMods: 0, options: 0, enabled: true }
+
+// Two layers of two keys, one encoder
+function input(overrides: Partial<KeycodeSearchInput> = {}): KeycodeSearchInput {
+  return {
+    layers: 2,
+    keymap: new Map([['0,0,0', APP], ['0,0,1', A], ['1,0,0', 0], ['1,0,1', APP]]),
+    encoderLayout: new Map([['0,0,0', B], ['0,0,1', APP], ['1,0,0', 0], ['1,0,1', 0]]),
+    keys: [{ row: 0, col: 0 }, { row: 0, col: 1 }],
+    encoderCount: 1,
+    tapDanceEntries: [tapDance],
+    comboEntries: [combo],
+    keyOverrideEntries: [keyOverride],
+    altRepeatKeyEntries: [altRepeatKey],
+    macros: [[{ type: 'text' }, { type: 'tap', keycodes: [A, APP] }], [{ type: 'down', keycodes: [B] }]],
+    ...overrides,
+  }
+}
+
+describe('parseKeycodeQuery', () => {
+  it('parses QMK names and rejects unknown text', () => {
+    expect(parseKeycodeQuery(' KC_APP ')).toBe(APP)
+    expect(parseKeycodeQuery('KC_NO')).toBe(0)
+    expect(parseKeycodeQuery('NOT_A_KEYCODE')).toBeNull()
+    expect(parseKeycodeQuery('')).toBeNull()
+  })
+})
+
+describe('findKeycodeUses', () => {
+  it('finds a keycode in every kind of slot', () => {
+    expect(findKeycodeUses(input(), APP)).toEqual([
+      { kind: 'key', layer: 0, row: 0, col: 0 },
+      { kind: 'key', layer: 1, row: 0, col: 1 },
+      { kind: 'encoder', layer: 0, idx: 0, dir: 1 },
+      { kind: 'macro', index: 0, action: 1 },
+      { kind: 'tapDance', index: 0, field: 'onHold' },
+      { kind: 'combo', index: 0, field: 'key1' },
+      { kind: 'combo', index: 0, field: 'output' },
+      { kind: 'keyOverride', index: 0, field: 'triggerKey' },
+      { kind: 'altRepeatKey', index: 0, field: 'altKey' },
+    ])
+  })
+
+  it('only searches the keymap and encoders for KC_NO', () => {
+    expect(findKeycodeUses(input(), 0).map((u) => u.kind)).toEqual(['key', 'encoder', 'encoder'])
+  })
+
+  it('skips macros that have not been read', () => {
+    expect(findKeycodeUses(input({ macros: null }), B).map((u) => u.kind)).toEqual(['encoder', 'combo', 'keyOverride'])
+  })
+})
+
+describe('planKeycodeReplace', () => {
+  it('rewrites every use and keeps the rest of each entry', () => {
+    const plan = planKeycodeReplace(input(), APP, F13)
+
+    expect(plan.keys).toEqual([
+      { layer: 0, row: 0, col: 0, oldKeycode: APP, newKeycode: F13 },
+      { layer: 1, row: 0, col: 1, oldKeycode: APP, newKeycode: F13 },
+    ])
+    expect(plan.encoders).toEqual([{ layer: 0, idx: 0, dir: 1, oldKeycode: APP, newKeycode: F13 }])
+    expect(plan.tapDance).toEqual([{ index: 0, oldEntry: tapDance, newEntry: { ...tapDance, onHold: F13 } }])
+    expect(plan.combo).toEqual([{ index: 0, oldEntry: combo, newEntry: { ...combo, key1: F13, output: F13 } }])
+    expect(plan.keyOverride[0].newEntry).toEqual({ ...keyOverride, triggerKey: F13 })
+    expect(plan.altRepeatKey[0].newEntry).toEqual({ ...altRepeatKey, altKey: F13 })
+    expect(plan.macros).toEqual([{
+      index: 0,
+      oldActions: [{ type: 'text' }, { type: 'tap', keycodes: [A, APP] }],
+      newActions: [{ type: 'text' }, { type: 'tap', keycodes: [A, F13] }],
+    }])
+  })
+
+  it('plans nothing when replacing a keycode with itself or one that is unused', () => {
+    expect(isEmptyKeycodeReplacePlan(planKeycodeReplace(input(), APP, APP))).toBe(true)
+    expect(isEmptyKeycodeReplacePlan(planKeycodeReplace<MacroKeycodeAction>(input(), F13, A))).toBe(true)
+  })
+})
@@ -0,0 +1,132 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import { analyzeKeymap } from '../keymap-doctor'
+import type { KeymapDoctorInput } from '../keymap-doctor'
+import { deserialize, resolve } from '../../keycodes/keycodes'
+import type { ComboEntry, KeyOverrideEntry, TapDanceEntry } from '../../types/protocol'
+
+// Layer, tap-dance and macro keycodes go through resolve(): with no keyboard registered,
+// deserialize() falls back to the any-keycode decoder, which encodes TO()
+// the v5 way.
+const kc = (qmkId: string): number =>
+  /^(MO|DF|PDF|TG|TT|OSL|TO|TD)\(|^M\d+$/.test(qmkId) ? resolve(qmkId) : deserialize(qmkId)
+
+// Two keys per layer: (0,0) and (0,1)
+function input(layers: string[][], overrides: Partial<KeymapDoctorInput> = {}): KeymapDoctorInput {
+  const keymap = new Map<string, number>()
+  layers.forEach((codes, layer) => codes.forEach((id, col) => keymap.set(`${layer},0,${col}`, kc(id))))
+  return {
+    layers: layers.length,
+    keymap,
+    encoderLayout: new Map(),
+    keys: [{ row: 0, col: 0 }, { row: 0, col: 1 }],
+    encoderCount: 0,
+    tappingTermMs: 200,
+    ...overrides,
+  }
+}
+
+const combo = (keys: string[], output: string): ComboEntry => {
+  const [key1, key2, key3, key4] = [...keys, 'KC_NO', 'KC_NO', 'KC_NO', 'KC_NO'].map(kc)
+  return { key1, key2, key3, key4, output: kc(output) }
+}
+
+const keyOverride = (layers: number, enabled = true): KeyOverrideEntry => ({
+  triggerKey: kc('KC_A'), replacementKey: kc('KC_B'), layers,
+  triggerMods: 0, negativeMods: 0, suppressedMods: 0, options: 0, enabled,
+})
+
+const tapDance = (tappingTerm: number, onTap = 'KC_A'): TapDanceEntry => ({
+  onTap: kc(onTap), onHold: 0, onDoubleTap: 0, onTapHold: 0, tappingTerm,
+})
+
+const codes = (i: KeymapDoctorInput): string[] => analyzeKeymap(i).map((f) => f.code)
+
+describe('analyzeKeymap', () => {
+  it('reports nothing for a clean keymap', () => {
+    expect(analyzeKeymap(input([['KC_A', 'MO(1)'], ['KC_B', 'KC_TRNS']]))).toEqual([])
+  })
+
+  it('flags a configured layer with no way in', () => {
+    const findings = analyzeKeymap(input([['KC_A', 'KC_B'], ['KC_C', 'KC_TRNS'], ['KC_TRNS', 'KC_TRNS']]))
+    expect(findings).toEqual([
+      { code: 'layerUnreachable', severity: 'warning', target: { kind: 'layer', layer: 1 }, params: { layer: 1 } },
+    ])
+  })
+
+  it('follows tap dances, combos and key overrides into layers', () => {
+    expect(codes(input([['TD(0)', 'KC_A'], ['KC_B', 'KC_C']], { tapDanceEntries: [tapDance(200, 'TG(1)')] })))
+      .not.toContain('layerUnreachable')
+    expect(codes(input([['KC_A', 'KC_B'], ['KC_C', 'MO(0)']], { comboEntries: [combo(['KC_A', 'KC_B'], 'MO(1)')] })))
+      .toEqual([])
+  })
+
+  it('flags a latched layer with no way back', () => {
+    const findings = analyzeKeymap(input([['KC_A', 'TO(1)'], ['KC_B', 'KC_C']]))
+    expect(findings[0]).toMatchObject({
+      code: 'layerNoWayBack', severity: 'error',
+      target: { kind: 'key', layer: 0, row: 0, col: 1 }, params: { layer: 1 },
+    })
+    expect(codes(input([['KC_A', 'TO(1)'], ['KC_B', 'TO(0)']]))).toEqual([])
+  })
+
+  it('treats a transparent TG position or a momentary exit as a way back', () => {
+    expect(codes(input([['KC_A', 'TG(1)'], ['KC_B', 'KC_TRNS']]))).toEqual([])
+    expect(codes(input([['KC_A', 'TG(1)'], ['MO(2)', 'KC_B'], ['KC_C', 'TG(1)']]))).toEqual([])
+  })
+
+  it('flags layer keys past the layer count anywhere in the configuration', () => {
+    const findings = analyzeKeymap(input([['MO(5)', 'KC_A']], { comboEntries: [combo(['KC_A', 'KC_A'], 'TG(4)')] }))
+    expect(findings.filter((f) => f.code === 'layerOutOfRange').map((f) => f.target)).toEqual([
+      { kind: 'key', layer: 0, row: 0, col: 0 },
+      { kind: 'combo', index: 0 },
+    ])
+  })
+
+  it('flags combos with missing triggers, duplicates and shadowed combos', () => {
+    const findings = analyzeKeymap(input([['KC_A', 'KC_B']], {
+      comboEntries: [
+        combo(['KC_A', 'KC_B'], 'KC_ESC'),
+        combo(['KC_B', 'KC_A'], 'KC_ESC'),
+        combo(['KC_A', 'KC_B'], 'KC_TAB'),
+        combo(['KC_A', 'KC_Z'], 'KC_ENTER'),
+        combo([], 'KC_NO'),
+      ],
+    }))
+    expect(findings.map((f) => [f.code, f.target])).toEqual([
+      ['comboShadowed', { kind: 'combo', index: 2 }],
+      ['comboDuplicate', { kind: 'combo', index: 1 }],
+      ['comboTriggerMissing', { kind: 'combo', index: 3 }],
+    ])
+    expect(findings[0].params).toEqual({ combo: 2, other: 0 })
+    expect(findings[2].params).toEqual({ combo: 3, keycode: 'KC_Z' })
+  })
+
+  it('flags enabled key overrides without an existing layer', () => {
+    const findings = analyzeKeymap(input([['KC_A', 'KC_B']], {
+      keyOverrideEntries: [keyOverride(0), keyOverride(0b10), keyOverride(0, false), keyOverride(0b1)],
+    }))
+    expect(findings.map((f) => f.target)).toEqual([
+      { kind: 'keyOverride', index: 0 },
+      { kind: 'keyOverride', index: 1 },
+    ])
+  })
+
+  it('flags keys that run empty macros once macros are known', () => {
+    const base = input([['M0', 'M1']])
+    expect(codes({ ...base, macros: [[], [{}]] })).toEqual(['macroEmpty'])
+    expect(codes({ ...base, macros: null })).toEqual([])
+  })
+
+  it('flags tap dances whose tapping term is far from TAPPING_TERM', () => {
+    const findings = analyzeKeymap(input([['KC_A', 'KC_B']], {
+      tapDanceEntries: [tapDance(200), tapDance(450), tapDance(90), tapDance(1000, 'KC_NO')],
+    }))
+    expect(findings.map((f) => [f.code, f.severity, f.target])).toEqual([
+      ['tapDanceTerm', 'info', { kind: 'tapDance', index: 1 }],
+      ['tapDanceTerm', 'info', { kind: 'tapDance', index: 2 }],
+    ])
+    expect(findings[0].params).toEqual({ tapDance: 1, term: 450, tappingTerm: 200 })
+  })
+})
@@ -0,0 +1,103 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildEncoderFavorite,
+  buildLayerFavorite,
+  keyCenter,
+  planEncoderFavorite,
+  planLayerFavorite,
+} from '../layer-favorite'
+import type { KleKey } from '../../kle/types'
+
+function makeKey(overrides: Partial<KleKey> = {}): KleKey {
+  return {
+    x: 0, y: 0,
+    width: 1, height: 1,
+    x2: 0, y2: 0,
+    width2: 1, height2: 1,
+    rotation: 0, rotationX: 0, rotationY: 0,
+    color: '#cccccc',
+    labels: Array(12).fill(null),
+    textColor: Array(12).fill(null),
+    textSize: Array(12).fill(null),
+    row: 0, col: 0,
+    encoderIdx: -1, encoderDir: -1,
+    layoutIndex: -1, layoutOption: -1,
+    decal: false, nub: false, stepped: false, ghost: false,
+    ...overrides,
+  }
+}
+
+describe('keyCenter', () => {
+  it('returns the center of an unrotated key', () => {
+    expect(keyCenter(makeKey({ x: 1, y: 2, width: 2 }))).toEqual({ x: 2, y: 2.5 })
+  })
+
+  it('applies the rotation around its origin', () => {
+    expect(keyCenter(makeKey({ rotation: 90 }))).toEqual({ x: -0.5, y: 0.5 })
+  })
+})
+
+describe('buildLayerFavorite / planLayerFavorite', () => {
+  // Two keys in a row, wired to row 0 on the source board
+  const source = {
+    keys: [makeKey({ x: 0, row: 0, col: 0 }), makeKey({ x: 1, row: 0, col: 1 })],
+    layoutOptions: new Map<number, number>(),
+    keymap: new Map([['1,0,0', 4], ['1,0,1', 5]]),
+  }
+
+  it('saves keycodes by position', () => {
+    expect(buildLayerFavorite(source, 1)).toEqual({
+      keys: [{ x: 0.5, y: 0.5, keycode: 4 }, { x: 1.5, y: 0.5, keycode: 5 }],
+    })
+  })
+
+  it('maps onto a board with the same layout but different wiring', () => {
+    const target = {
+      keys: [makeKey({ x: 1, row: 2, col: 0 }), makeKey({ x: 0, row: 3, col: 5 })],
+      layoutOptions: new Map<number, number>(),
+      keymap: new Map([['0,2,0', 5]]),
+    }
+    const plan = planLayerFavorite(buildLayerFavorite(source, 1), target, 0)
+    expect(plan.unmatched).toBe(0)
+    // The key already holding its keycode is left out
+    expect(plan.keys).toEqual([{ layer: 0, row: 3, col: 5, oldKeycode: 0, newKeycode: 4 }])
+  })
+
+  it('counts saved keys with no key at their position', () => {
+    const target = {
+      keys: [makeKey({ x: 0, row: 0, col: 0 })],
+      layoutOptions: new Map<number, number>(),
+      keymap: new Map<string, number>(),
+    }
+    const plan = planLayerFavorite(buildLayerFavorite(source, 1), target, 0)
+    expect(plan.unmatched).toBe(1)
+    expect(plan.keys).toHaveLength(1)
+  })
+
+  it('leaves encoder keys out', () => {
+    const input = { ...source, keys: [...source.keys, makeKey({ x: 2, encoderIdx: 0, encoderDir: 0 })] }
+    expect(buildLayerFavorite(input, 1).keys).toHaveLength(2)
+  })
+})
+
+describe('buildEncoderFavorite / planEncoderFavorite', () => {
+  const source = {
+    encoderCount: 2,
+    encoderLayout: new Map([['0,0,0', 0x80], ['0,0,1', 0x81], ['0,1,0', 0x52]]),
+  }
+
+  it('saves both directions of every encoder', () => {
+    expect(buildEncoderFavorite(source, 0)).toEqual({
+      encoders: [{ cw: 0x80, ccw: 0x81 }, { cw: 0x52, ccw: 0 }],
+    })
+  })
+
+  it('writes changed directions only and drops encoders the board lacks', () => {
+    const target = { encoderCount: 1, encoderLayout: new Map([['2,0,0', 0x80]]) }
+    expect(planEncoderFavorite(buildEncoderFavorite(source, 0), target, 2)).toEqual([
+      { layer: 2, idx: 0, dir: 1, oldKeycode: 0, newKeycode: 0x81 },
+    ])
+  })
+})
@@ -0,0 +1,93 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import { buildLayerGraph } from '../layer-graph'
+import type { LayerGraphInput } from '../layer-graph'
+import { analyzeKeymap } from '../keymap-doctor'
+import { deserialize, resolve } from '../../keycodes/keycodes'
+import type { ComboEntry, TapDanceEntry } from '../../types/protocol'
+
+// Layer and tap-dance keycodes go through resolve(), as in keymap-doctor.test.ts
+const kc = (qmkId: string): number =>
+  /^(MO|DF|PDF|TG|TT|OSL|TO|TD)\(/.test(qmkId) ? resolve(qmkId) : deserialize(qmkId)
+
+// Two keys per layer: (0,0) and (0,1)
+function input(layers: string[][], overrides: Partial<LayerGraphInput> = {}): LayerGraphInput {
+  const keymap = new Map<string, number>()
+  layers.forEach((codes, layer) => codes.forEach((id, col) => keymap.set(`${layer},0,${col}`, kc(id))))
+  return {
+    layers: layers.length,
+    keymap,
+    encoderLayout: new Map(),
+    keys: [{ row: 0, col: 0 }, { row: 0, col: 1 }],
+    encoderCount: 0,
+    ...overrides,
+  }
+}
+
+const combo = (keys: string[], output: string): ComboEntry => {
+  const [key1, key2, key3, key4] = [...keys, 'KC_NO', 'KC_NO', 'KC_NO', 'KC_NO'].map(kc)
+  return { key1, key2, key3, key4, output: kc(output) }
+}
+
+const tapDance = (onTap: string, onHold: string): TapDanceEntry => ({
+  onTap: kc(onTap), onHold: kc(onHold), onDoubleTap: 0, onTapHold: 0, tappingTerm: 200,
+})
+
+describe('buildLayerGraph', () => {
+  it('labels each edge with its mechanism and trigger key', () => {
+    const graph = buildLayerGraph(input([['MO(1)', 'TD(0)'], ['KC_A', 'KC_B'], ['KC_TRNS', 'TO(0)']], {
+      tapDanceEntries: [tapDance('KC_ESC', 'TG(2)')],
+    }))
+
+    expect(graph.edges).toEqual([
+      { from: 0, to: 1, fn: 'MO', via: { kind: 'keycode' }, keycode: kc('MO(1)'), triggers: [{ kind: 'key', row: 0, col: 0 }] },
+      { from: 0, to: 2, fn: 'TG', via: { kind: 'tapDance', index: 0, slot: 'onHold' }, keycode: kc('TG(2)'), triggers: [{ kind: 'key', row: 0, col: 1 }] },
+      { from: 2, to: 0, fn: 'TO', via: { kind: 'keycode' }, keycode: kc('TO(0)'), triggers: [{ kind: 'key', row: 0, col: 1 }] },
+    ])
+    expect(graph.nodes.map((n) => n.reachable)).toEqual([true, true, true])
+  })
+
+  it('adds combo edges only on layers that bind every trigger keycode', () => {
+    const graph = buildLayerGraph(input([['KC_J', 'KC_K'], ['KC_J', 'KC_NO']], {
+      comboEntries: [combo(['KC_J', 'KC_K'], 'TG(1)')],
+    }))
+
+    expect(graph.edges).toEqual([{
+      from: 0, to: 1, fn: 'TG', via: { kind: 'combo', index: 0 }, keycode: kc('TG(1)'),
+      triggers: [{ kind: 'key', row: 0, col: 0 }, { kind: 'key', row: 0, col: 1 }],
+    }])
+  })
+
+  it('highlights layers that can be entered but not left', () => {
+    const graph = buildLayerGraph(input([['TG(1)', 'TO(2)', 'MO(3)'], ['KC_A', 'KC_B', 'KC_C'], ['KC_A', 'TG(2)', 'KC_C'], ['KC_A', 'KC_B', 'KC_C']], {
+      keys: [{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 }],
+    }))
+
+    // Layer 1 is toggled on with nothing to toggle it back; TO(2) lands on
+    // a layer with no TO out; MO(3) releases on its own
+    expect(graph.nodes.map((n) => n.trapped)).toEqual([false, true, true, false])
+  })
+
+  it('treats a transparent TG position as the way back', () => {
+    const graph = buildLayerGraph(input([['TG(1)', 'KC_A'], ['KC_TRNS', 'KC_B']]))
+    expect(graph.nodes[1].trapped).toBe(false)
+  })
+
+  it('agrees with the keymap doctor on combo outputs as a way back', () => {
+    // The combo's trigger keys are not on layer 1, but the doctor counts
+    // combo outputs on every layer, and so does the graph
+    const graphInput = input([['TG(1)', 'KC_A'], ['KC_B', 'KC_C']], {
+      comboEntries: [combo(['KC_J', 'KC_K'], 'TO(0)')],
+    })
+    expect(buildLayerGraph(graphInput).nodes[1].trapped).toBe(false)
+    expect(analyzeKeymap({ ...graphInput, tappingTermMs: 200 }).map((f) => f.code)).not.toContain('layerNoWayBack')
+  })
+
+  it('marks layers with no path from layer 0 as unreachable and skips out-of-range targets', () => {
+    const graph = buildLayerGraph(input([['KC_A', 'MO(5)'], ['MO(0)', 'KC_B']]))
+
+    expect(graph.edges).toHaveLength(1)
+    expect(graph.nodes.map((n) => n.reachable)).toEqual([true, false])
+  })
+})
@@ -0,0 +1,140 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import {
+  decodeLayerKeycode,
+  remapLayerKeycode,
+  remapLayerMask,
+  swapLayerOrder,
+  moveLayerOrder,
+  planLayerCopy,
+  planLayerClear,
+  planLayerReorder,
+  isEmptyLayerOpPlan,
+} from '../layer-ops'
+import { deserialize, resolve } from '../../keycodes/keycodes'
+import type { LayerOpState } from '../layer-ops'
+import type { KeyOverrideEntry } from '../../types/protocol'
+
+// Layer functions go through resolve(): with no keyboard registered,
+// deserialize() falls back to the any-keycode decoder, which encodes TO()
+// the v5 way.
+const kc = (qmkId: string): number =>
+  /^(MO|DF|PDF|TG|TT|OSL|TO)\(/.test(qmkId) ? resolve(qmkId) : deserialize(qmkId)
+
+function state(overrides: Partial<LayerOpState> = {}): LayerOpState {
+  return {
+    layers: 3,
+    keymap: new Map([
+      ['0,0,0', kc('KC_A')], ['0,0,1', kc('MO(1)')],
+      ['1,0,0', kc('KC_B')], ['1,0,1', kc('LT2(KC_SPACE)')],
+      ['2,0,0', kc('KC_C')], ['2,0,1', kc('KC_TRNS')],
+    ]),
+    encoderLayout: new Map([['0,0,0', kc('TG(2)')], ['1,0,0', kc('KC_VOLU')], ['2,0,0', kc('KC_VOLD')]]),
+    ...overrides,
+  }
+}
+
+describe('decodeLayerKeycode', () => {
+  it('decodes single-argument and LT/LM layer keycodes', () => {
+    expect(decodeLayerKeycode(kc('MO(3)'))).toEqual({ fn: 'MO', layer: 3 })
+    expect(decodeLayerKeycode(kc('TO(1)'))).toEqual({ fn: 'TO', layer: 1 })
+    expect(decodeLayerKeycode(kc('LT2(KC_SPACE)'))).toEqual({ fn: 'LT', layer: 2 })
+    expect(decodeLayerKeycode(kc('KC_A'))).toBeNull()
+  })
+})
+
+describe('remapLayerKeycode', () => {
+  const swap01 = [1, 0, 2]
+
+  it('rewrites every layer keycode family', () => {
+    for (const fn of ['MO', 'DF', 'PDF', 'TG', 'TT', 'OSL', 'TO']) {
+      expect(remapLayerKeycode(kc(`${fn}(0)`), swap01)).toBe(kc(`${fn}(1)`))
+    }
+    expect(remapLayerKeycode(kc('LT1(KC_A)'), swap01)).toBe(kc('LT0(KC_A)'))
+    expect(remapLayerKeycode(kc('LM0(MOD_LSFT)'), swap01)).toBe(kc('LM1(MOD_LSFT)'))
+  })
+
+  it('leaves other keycodes and layers outside the table alone', () => {
+    expect(remapLayerKeycode(kc('KC_A'), swap01)).toBe(kc('KC_A'))
+    expect(remapLayerKeycode(kc('MO(2)'), swap01)).toBe(kc('MO(2)'))
+    expect(remapLayerKeycode(kc('MO(5)'), swap01)).toBe(kc('MO(5)'))
+  })
+})
+
+describe('remapLayerMask', () => {
+  it('moves bits with their layers and keeps bits past the table', () => {
+    expect(remapLayerMask(0b0001, [1, 0, 2])).toBe(0b0010)
+    expect(remapLayerMask(0b1101, [2, 0, 1])).toBe(0b1110)
+  })
+})
+
+describe('layer orders', () => {
+  it('swaps and moves', () => {
+    expect(swapLayerOrder(4, 1, 3)).toEqual([0, 3, 2, 1])
+    expect(moveLayerOrder(4, 0, 2)).toEqual([1, 2, 0, 3])
+    expect(moveLayerOrder(4, 3, 1)).toEqual([0, 3, 1, 2])
+  })
+})
+
+describe('planLayerCopy', () => {
+  it('overwrites the target layer without touching references', () => {
+    const plan = planLayerCopy(state(), 0, 2)
+    expect(plan.keys).toEqual([
+      { layer: 2, row: 0, col: 0, oldKeycode: kc('KC_C'), newKeycode: kc('KC_A') },
+      { layer: 2, row: 0, col: 1, oldKeycode: kc('KC_TRNS'), newKeycode: kc('MO(1)') },
+    ])
+    expect(plan.encoders).toEqual([{ layer: 2, idx: 0, dir: 0, oldKeycode: kc('KC_VOLD'), newKeycode: kc('TG(2)') }])
+    expect(isEmptyLayerOpPlan(planLayerCopy(state(), 1, 1))).toBe(true)
+  })
+})
+
+describe('planLayerClear', () => {
+  it('fills every key and encoder of the layer', () => {
+    const plan = planLayerClear(state(), 2, resolve('KC_TRNS'))
+    expect(plan.keys).toEqual([{ layer: 2, row: 0, col: 0, oldKeycode: kc('KC_C'), newKeycode: resolve('KC_TRNS') }])
+    expect(plan.encoders).toHaveLength(1)
+  })
+})
+
+describe('planLayerReorder', () => {
+  it('swaps layer contents and rewrites references in the keymap', () => {
+    const plan = planLayerReorder(state(), swapLayerOrder(3, 1, 2))
+    expect(plan.keys).toEqual(expect.arrayContaining([
+      // MO(1) on layer 0 now points at the layer that moved to slot 2
+      { layer: 0, row: 0, col: 1, oldKeycode: kc('MO(1)'), newKeycode: kc('MO(2)') },
+      { layer: 1, row: 0, col: 0, oldKeycode: kc('KC_B'), newKeycode: kc('KC_C') },
+      { layer: 2, row: 0, col: 1, oldKeycode: kc('KC_TRNS'), newKeycode: kc('LT1(KC_SPACE)') },
+    ]))
+    expect(plan.encoders).toEqual(expect.arrayContaining([
+      { layer: 0, idx: 0, dir: 0, oldKeycode: kc('TG(2)'), newKeycode: kc('TG(1)') },
+    ]))
+  })
+
+  it('rewrites dynamic entries, key override masks and layer names', () => {
+    const ko: KeyOverrideEntry = {
+      triggerKey: kc('KC_A'), replacementKey: kc('TO(0)'), layers: 0b001,
+      triggerMods: 0, negativeMods: 0, suppressedMods: 0, options: 0, enabled: true,
+    }
+    const plan = planLayerReorder(state({
+      tapDanceEntries: [
+        { onTap: kc('KC_A'), onHold: kc('MO(0)'), onDoubleTap: 0, onTapHold: 0, tappingTerm: 200 },
+        { onTap: kc('KC_B'), onHold: 0, onDoubleTap: 0, onTapHold: 0, tappingTerm: 200 },
+      ],
+      comboEntries: [{ key1: kc('KC_A'), key2: kc('KC_B'), key3: 0, key4: 0, output: kc('OSL(1)') }],
+      keyOverrideEntries: [ko],
+      altRepeatKeyEntries: [{ lastKey: kc('KC_A'), altKey: kc('KC_B'), allowedMods: 0, options: 0, enabled: true }],
+      layerNames: ['Base', 'Nav', 'Num'],
+    }), moveLayerOrder(3, 0, 2))
+
+    expect(plan.tapDance).toEqual([{ index: 0, oldEntry: expect.anything(), newEntry: expect.objectContaining({ onHold: kc('MO(2)') }) }])
+    expect(plan.combo[0].newEntry.output).toBe(kc('OSL(0)'))
+    expect(plan.keyOverride[0].newEntry).toMatchObject({ replacementKey: kc('TO(2)'), layers: 0b100 })
+    expect(plan.altRepeatKey).toEqual([])
+    expect(plan.layerNames).toEqual([
+      { layer: 0, oldName: 'Base', newName: 'Nav' },
+      { layer: 1, oldName: 'Nav', newName: 'Num' },
+      { layer: 2, oldName: 'Num', newName: 'Base' },
+    ])
+  })
+})
@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import { describe, it, expect } from 'vitest'
+import {
+  diffCodeMap,
+  diffEntries,
+  keymapBufferRuns,
+  keymapRunKeys,
+  keymapRunMismatches,
+  sameEntry,
+} from '../restore-diff'
+import { BUFFER_FETCH_CHUNK } from '../../constants/protocol'
+
+describe('diffCodeMap', () => {
+  it('returns target entries that differ from or are missing in current', () => {
+    const current = new Map([['0,0,0', 4], ['0,0,1', 5], ['0,0,2', 6]])
+    const target = new Map([['0,0,0', 4], ['0,0,1', 7], ['0,0,3', 8]])
+    expect(diffCodeMap(current, target)).toEqual([
+      { key: '0,0,1', code: 7 },
+      { key: '0,0,3', code: 8 },
+    ])
+  })
+})
+
+describe('keymapBufferRuns', () => {
+  it('merges adjacent cells across rows and layers into one big-endian run', () => {
+    const changes = [
+      { key: '1,0,0', code: 0x5221 },
+      { key: '0,1,1', code: 0x0004 },
+    ]
+    expect(keymapBufferRuns(changes, 2, 2)).toEqual([
+      { offset: 6, data: [0x00, 0x04, 0x52, 0x21] },
+    ])
+  })
+
+  it('starts a new run at a gap', () => {
+    const changes = [{ key: '0,0,0', code: 1 }, { key: '0,0,2', code: 2 }]
+    expect(keymapBufferRuns(changes, 1, 4).map((r) => r.offset)).toEqual([0, 4])
+  })
+
+  it('keeps every run within one packet', () => {
+    const changes = Array.from({ length: 20 }, (_, col) => ({ key: `0,0,${col}`, code: col }))
+    const runs = keymapBufferRuns(changes, 1, 20)
+    expect(runs.map((r) => r.data.length)).toEqual([BUFFER_FETCH_CHUNK, 40 - BUFFER_FETCH_CHUNK])
+    expect(runs[1].offset).toBe(BUFFER_FETCH_CHUNK)
+  })
+})
+
+describe('keymap run read-back', () => {
+  const run = { offset: 6, data: [0x00, 0x04, 0x52, 0x21] }
+
+  it('maps run cells back to layer,row,col keys', () => {
+    expect(keymapRunKeys(run, 2, 2)).toEqual(['0,1,1', '1,0,0'])
+  })
+
+  it('reports only the cells whose bytes differ', () => {
+    expect(keymapRunMismatches(run, [0x00, 0x04, 0x00, 0x00], 2, 2)).toEqual(['1,0,0'])
+    expect(keymapRunMismatches(run, [...run.data], 2, 2)).toEqual([])
+  })
+})
+
+describe('entry diff', () => {
+  it('compares entries field by field', () => {
+    expect(sameEntry({ a: 1, b: true }, { b: true, a: 1 })).toBe(true)
+    expect(sameEntry({ a: 1, b: true }, { a: 1, b: false })).toBe(false)
+    expect(sameEntry(undefined, { a: 1 })).toBe(false)
+  })
+
+  it('returns changed indices within the count', () => {
+    const current = [{ v: 1 }, { v: 2 }]
+    const target = [{ v: 1 }, { v: 3 }, { v: 4 }]
+    expect(diffEntries(current, target, 3)).toEqual([1, 2])
+    expect(diffEntries(current, target, 2)).toEqual([1])
+  })
+})
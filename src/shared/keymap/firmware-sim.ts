@@ -0,0 +1,595 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+//
+// Firmware behavior simulator: replays timed press / release events on
+// matrix positions against a keyboard configuration and reports what QMK
+// would send — the HID keyboard report after every change and the text
+// those reports type on a US ANSI host.
+//
+// Modelled: layer keycodes (MO, TG, TO, TT, OSL, LM, DF, PDF), mod-tap and
+// layer-tap with TAPPING_TERM, Permissive Hold, Hold On Other Key Press and
+// Chordal Hold, combos within COMBO_TERM, tap dance (tap / hold / double
+// tap / tap-hold), key overrides and macros. Not modelled: Retro Tapping,
+// Quick Tap Term, Flow Tap, one-shot mods, TT's tap-to-toggle count, Auto
+// Shift, Caps Word and anything implemented in keyboard-side C code.
+// Timings follow QMK's rule that an event exactly at a deadline is late.
+
+import { serialize, resolve, findByQmkId, isModTapKeycode, isLTKeycode, extractLTLayer, extractLMMod, extractModMask, isTapDanceKeycode, getTapDanceIndex } from '../keycodes/keycodes'
+import { DEFAULT_TAPPING_TERM_MS, resolveTappingTermMs } from '../qmk-settings-tapping-term'
+import { decodeLayerKeycode } from './layer-ops'
+import type { TapDanceEntry, ComboEntry, KeyOverrideEntry } from '../types/protocol'
+
+export interface FirmwareSimSettings {
+  tappingTermMs: number
+  permissiveHold: boolean
+  holdOnOtherKeyPress: boolean
+  chordalHold: boolean
+  comboTermMs: number
+}
+
+/** Structural copy of the parsed macro actions (see preload/macro). */
+export type FirmwareSimMacroAction =
+  | { type: 'text'; text: string }
+  | { type: 'tap' | 'down' | 'up'; keycodes: readonly number[] }
+  | { type: 'delay'; delay: number }
+
+export interface FirmwareSimInput {
+  layers: number
+  keymap: ReadonlyMap<string, number> // "layer,row,col" -> keycode
+  tapDanceEntries?: readonly TapDanceEntry[]
+  comboEntries?: readonly ComboEntry[]
+  keyOverrideEntries?: readonly KeyOverrideEntry[]
+  /** Parsed macros; `null` or missing plays nothing for macro keycodes. */
+  macros?: readonly (readonly FirmwareSimMacroAction[])[] | null
+  /** Hand of each key by "row,col", used by Chordal Hold. Keys without a hand never trigger it. */
+  hands?: ReadonlyMap<string, 'left' | 'right'>
+  settings: FirmwareSimSettings
+}
+
+export interface FirmwareSimEvent {
+  time: number
+  row: number
+  col: number
+  pressed: boolean
+}
+
+/** One HID keyboard report: 8-bit modifier byte and the pressed basic keycodes. */
+export interface HidReport {
+  time: number
+  mods: number
+  keys: number[]
+}
+
+export type FirmwareSimOutcome = 'tap' | 'hold' | 'doubleTap' | 'tapHold'
+export type FirmwareSimReason = 'release' | 'term' | 'permissiveHold' | 'holdOnOtherKeyPress' | 'chordalHold' | 'interrupt'
+
+/** How a tap-hold or tap-dance key was settled. */
+export interface FirmwareSimDecision {
+  time: number
+  row: number
+  col: number
+  keycode: number
+  outcome: FirmwareSimOutcome
+  reason: FirmwareSimReason
+}
+
+export interface FirmwareSimResult {
+  reports: HidReport[]
+  text: string
+  decisions: FirmwareSimDecision[]
+  /** Combo indices in the order they fired. */
+  combos: number[]
+  /** Layers left on after the last event, as a bitmask, and the default layer. */
+  layerState: number
+  defaultLayer: number
+}
+
+/** QSIDs read by `resolveFirmwareSimSettings` (see qmk-settings-defs.json). */
+const QSID_COMBO_TERM = 2
+const QSID_TAPPING_FLAGS = 8 // bit 0: Permissive Hold (older firmware)
+const QSID_PERMISSIVE_HOLD = 22
+const QSID_HOLD_ON_OTHER_KEY_PRESS = 23
+const QSID_CHORDAL_HOLD = 26
+
+/** QMK's COMBO_TERM default. */
+export const DEFAULT_COMBO_TERM_MS = 50
+
+function settingFlag(values: Record<string, number[]> | undefined, qsid: number, bit = 0): boolean {
+  const bytes = values?.[String(qsid)]
+  return !!bytes && bytes.length > 0 && ((bytes[0] >> bit) & 1) === 1
+}
+
+/** Simulator settings from the keyboard's cached QMK Settings values, QMK defaults otherwise. */
+export function resolveFirmwareSimSettings(values: Record<string, number[]> | undefined): FirmwareSimSettings {
+  const combo = values?.[String(QSID_COMBO_TERM)]
+  const comboTermMs = combo && combo.length >= 2 ? (combo[0] | (combo[1] << 8)) & 0xffff : 0
+  return {
+    tappingTermMs: values ? resolveTappingTermMs(values) : DEFAULT_TAPPING_TERM_MS,
+    permissiveHold: settingFlag(values, QSID_PERMISSIVE_HOLD) || settingFlag(values, QSID_TAPPING_FLAGS, 0),
+    holdOnOtherKeyPress: settingFlag(values, QSID_HOLD_ON_OTHER_KEY_PRESS),
+    chordalHold: settingFlag(values, QSID_CHORDAL_HOLD),
+    comboTermMs: comboTermMs > 0 ? comboTermMs : DEFAULT_COMBO_TERM_MS,
+  }
+}
+
+const KC_NO = 0
+const KC_TRNS = 1
+const KC_ENTER = 0x28
+const KC_BSPC = 0x2a
+const KC_TAB = 0x2b
+const KC_SPACE = 0x2c
+const HID_MOD_FIRST = 0xe0
+const HID_MOD_LAST = 0xe7
+const MOD_LSFT = 0x02
+const MOD_SHIFT_BITS = 0x22
+const MACRO_KEYCODE_COUNT = 256
+
+/** US ANSI shifted symbols for the non-letter printable keys. */
+const SHIFT_MAP: Record<string, string> = {
+  '1': '!', '2': '@', '3': '#', '4': '$', '5': '%',
+  '6': '^', '7': '&', '8': '*', '9': '(', '0': ')',
+  '-': '_', '=': '+', '[': '{', ']': '}', '\\': '|',
+  ';': ':', "'": '"', '`': '~', ',': '<', '.': '>', '/': '?',
+}
+
+function printableOf(code: number): string | undefined {
+  return findByQmkId(serialize(code))?.printable
+}
+
+function charOf(code: number, shifted: boolean): string | undefined {
+  if (code === KC_SPACE) return ' '
+  if (code === KC_ENTER) return '\n'
+  if (code === KC_TAB) return '\t'
+  const printable = printableOf(code)
+  if (!printable || printable.length !== 1) return undefined
+  if (!shifted) return printable
+  return printable >= 'a' && printable <= 'z' ? printable.toUpperCase() : SHIFT_MAP[printable] ?? printable
+}
+
+// char -> [basic keycode, shifted], for typing macro text
+let charMapCache: Map<string, [number, boolean]> | null = null
+
+function keycodeForChar(char: string): [number, boolean] | undefined {
+  if (!charMapCache) {
+    charMapCache = new Map()
+    for (let code = 0x04; code <= 0x38; code++) {
+      for (const shifted of [false, true]) {
+        const c = charOf(code, shifted)
+        if (c !== undefined && !charMapCache.has(c)) charMapCache.set(c, [code, shifted])
+      }
+    }
+  }
+  return charMapCache.get(char)
+}
+
+/** The text a report stream types: each newly pressed key, shifted by the report's mods. */
+export function hidReportsToText(reports: readonly HidReport[]): string {
+  let text = ''
+  let prev: readonly number[] = []
+  for (const report of reports) {
+    for (const code of report.keys) {
+      if (prev.includes(code)) continue
+      if (code === KC_BSPC) text = text.slice(0, -1)
+      else text += charOf(code, (report.mods & MOD_SHIFT_BITS) !== 0) ?? ''
+    }
+    prev = report.keys
+  }
+  return text
+}
+
+/** QMK's 5-bit mod mask (bit 4 = right hand) as HID modifier bits. */
+function modBits(mask5: number): number {
+  const mods = mask5 & 0x0f
+  return mask5 & 0x10 ? mods << 4 : mods
+}
+
+/** An event on its way through the combo and action stages. */
+interface StageEvent {
+  time: number
+  pos: string // "row,col", or "combo:<index>" for a fired combo's output
+  pressed: boolean
+  /** Keycode fixed by an earlier stage (combo output); resolved from the keymap otherwise. */
+  code?: number
+}
+
+interface PendingTapHold { pos: string; code: number; time: number; waiting: StageEvent[] }
+interface Dance { pos: string; index: number; count: number; pressed: boolean; deadline: number; interrupted: boolean }
+
+/**
+ * Run `events` against `input`. Events are processed in time order; every
+ * timer still pending after the last event (tapping term, combo term, tap
+ * dance term) runs out as if the user waited.
+ */
+export function simulateFirmware(input: FirmwareSimInput, events: readonly FirmwareSimEvent[]): FirmwareSimResult {
+  const { settings } = input
+  const reports: HidReport[] = []
+  const decisions: FirmwareSimDecision[] = []
+  const combos: number[] = []
+  let now = 0
+  let defaultLayer = 0
+  let layerState = 0
+  let oneShotLayer: number | null = null
+  let oneShotConsumer: string | null = null
+
+  // --- HID report state ---
+  const keyCounts = new Map<number, number>() // insertion order = report order
+  const modCounts = new Array<number>(8).fill(0)
+  const suppressCounts = new Array<number>(8).fill(0)
+
+  function emit(): void {
+    let mods = 0
+    for (let bit = 0; bit < 8; bit++) {
+      if (modCounts[bit] > 0 && suppressCounts[bit] === 0) mods |= 1 << bit
+    }
+    const keys = [...keyCounts.keys()]
+    const last = reports[reports.length - 1]
+    if (last && last.mods === mods && last.keys.length === keys.length && last.keys.every((k, i) => k === keys[i])) return
+    if (!last && mods === 0 && keys.length === 0) return
+    reports.push({ time: now, mods, keys })
+  }
+
+  function addMods(bits: number, delta: number, counts = modCounts): void {
+    for (let bit = 0; bit < 8; bit++) {
+      if (bits & (1 << bit)) counts[bit] = Math.max(0, counts[bit] + delta)
+    }
+  }
+
+  function addKey(code: number, delta: number): void {
+    if (code === KC_NO) return
+    if (code >= HID_MOD_FIRST && code <= HID_MOD_LAST) {
+      addMods(1 << (code - HID_MOD_FIRST), delta)
+      return
+    }
+    const count = (keyCounts.get(code) ?? 0) + delta
+    if (count > 0) keyCounts.set(code, count)
+    else keyCounts.delete(code)
+  }
+
+  function activeMods(): number {
+    let mods = 0
+    for (let bit = 0; bit < 8; bit++) if (modCounts[bit] > 0) mods |= 1 << bit
+    return mods
+  }
+
+  // --- Layers ---
+  function highestLayer(): number {
+    const state = layerState | (1 << defaultLayer) | (oneShotLayer !== null ? 1 << oneShotLayer : 0)
+    return 31 - Math.clz32(state >>> 0)
+  }
+
+  function keycodeAt(pos: string): number {
+    const state = layerState | (1 << defaultLayer) | (oneShotLayer !== null ? 1 << oneShotLayer : 0)
+    for (let layer = Math.min(31, input.layers - 1); layer >= 0; layer--) {
+      if (!(state & (1 << layer))) continue
+      const code = input.keymap.get(`${layer},${pos}`) ?? KC_NO
+      if (code !== KC_TRNS) return code
+    }
+    return KC_NO
+  }
+
+  // --- Keycode effects. Each press returns the matching release. ---
+  const held = new Map<string, () => void>()
+
+  function keyOverrideFor(code: number): KeyOverrideEntry | undefined {
+    const mods = activeMods()
+    const layer = highestLayer()
+    return input.keyOverrideEntries?.find((ko) => ko.enabled && ko.triggerKey === code &&
+      (ko.layers & (1 << layer)) !== 0 && (mods & ko.triggerMods) === ko.triggerMods &&
+      (mods & ko.negativeMods) === 0)
+  }
+
+  function pressBasic(code: number, mods: number): () => void {
+    addMods(mods, 1)
+    addKey(code, 1)
+    emit()
+    return () => {
+      addKey(code, -1)
+      addMods(mods, -1)
+      emit()
+    }
+  }
+
+  // Macros block the firmware while they play, so their delays move the
+  // clock forward
+  function playMacro(index: number): void {
+    const macroHeld = new Map<number, () => void>()
+    for (const action of input.macros?.[index] ?? []) {
+      switch (action.type) {
+        case 'delay':
+          now += action.delay
+          break
+        case 'text':
+          for (const char of action.text) {
+            const hit = keycodeForChar(char)
+            if (hit) pressBasic(hit[0], hit[1] ? MOD_LSFT : 0)()
+          }
+          break
+        case 'tap': {
+          const releases = action.keycodes.map((code) => pressCode(code))
+          for (const release of releases.reverse()) release()
+          break
+        }
+        case 'down':
+          for (const code of action.keycodes) if (!macroHeld.has(code)) macroHeld.set(code, pressCode(code))
+          break
+        case 'up':
+          for (const code of action.keycodes) {
+            macroHeld.get(code)?.()
+            macroHeld.delete(code)
+          }
+          break
+      }
+    }
+  }
+
+  function pressCode(code: number): () => void {
+    const noop = (): void => {}
+    if (code === KC_NO || code === KC_TRNS) return noop
+    if (code <= 0xff) {
+      const ko = code < HID_MOD_FIRST ? keyOverrideFor(code) : undefined
+      if (!ko) return pressBasic(code, 0)
+      addMods(ko.suppressedMods, 1, suppressCounts)
+      const release = pressCode(ko.replacementKey)
+      return () => {
+        release()
+        addMods(ko.suppressedMods, -1, suppressCounts)
+        emit()
+      }
+    }
+    if (code <= 0x1fff) return pressBasic(code & 0xff, modBits(extractModMask(code)))
+    // Tap-hold keycodes reaching here (e.g. from a tap-dance slot) act as their tap key
+    if (isModTapKeycode(code) || isLTKeycode(code)) return pressCode(code & 0xff)
+    const macro = code - resolve('M0')
+    if (macro >= 0 && macro < MACRO_KEYCODE_COUNT) {
+      playMacro(macro)
+      return noop
+    }
+    const ref = decodeLayerKeycode(code)
+    if (!ref || ref.layer >= input.layers) return noop
+    const bit = 1 << ref.layer
+    switch (ref.fn) {
+      case 'MO':
+      case 'TT':
+        layerState |= bit
+        return () => { layerState &= ~bit }
+      case 'LM': {
+        layerState |= bit
+        const release = pressBasic(KC_NO, modBits(extractLMMod(code)))
+        return () => { layerState &= ~bit; release() }
+      }
+      case 'TG':
+        layerState ^= bit
+        return noop
+      case 'TO':
+        layerState = bit
+        return noop
+      case 'DF':
+      case 'PDF':
+        defaultLayer = ref.layer
+        return noop
+      case 'OSL':
+        oneShotLayer = ref.layer
+        oneShotConsumer = null
+        return noop
+      default:
+        return noop
+    }
+  }
+
+  function pressAt(pos: string, code: number): void {
+    if (oneShotLayer !== null && oneShotConsumer === null && decodeLayerKeycode(code)?.fn !== 'OSL') oneShotConsumer = pos
+    held.set(pos, pressCode(code))
+  }
+
+  function releaseAt(pos: string): void {
+    held.get(pos)?.()
+    held.delete(pos)
+    if (pos === oneShotConsumer) {
+      oneShotLayer = null
+      oneShotConsumer = null
+    }
+  }
+
+  // Combo outputs have no matrix position
+  function posOf(pos: string): { row: number; col: number } {
+    if (pos.startsWith('combo:')) return { row: -1, col: -1 }
+    const [row, col] = pos.split(',').map(Number)
+    return { row, col }
+  }
+
+  function decide(pos: string, keycode: number, outcome: FirmwareSimOutcome, reason: FirmwareSimReason): void {
+    decisions.push({ time: now, ...posOf(pos), keycode, outcome, reason })
+  }
+
+  // --- Tap dance ---
+  let dance: Dance | null = null
+
+  function finishDance(reason: FirmwareSimReason): void {
+    if (!dance) return
+    const d = dance
+    dance = null
+    const entry = input.tapDanceEntries?.[d.index]
+    const code = resolve(`TD(${d.index})`)
+    if (!entry) return
+    const holding = d.pressed && !d.interrupted
+    let outcome: FirmwareSimOutcome = 'tap'
+    let slot = entry.onTap
+    if (d.count === 1 && holding && entry.onHold !== KC_NO) {
+      outcome = 'hold'
+      slot = entry.onHold
+    } else if (d.count >= 2 && holding && entry.onTapHold !== KC_NO) {
+      outcome = 'tapHold'
+      slot = entry.onTapHold
+    } else if (d.count >= 2 && entry.onDoubleTap !== KC_NO) {
+      outcome = 'doubleTap'
+      slot = entry.onDoubleTap
+    } else {
+      // No slot for this count: every tap but the last sends onTap on its own
+      for (let i = 1; i < d.count; i++) pressCode(entry.onTap)()
+    }
+    decide(d.pos, code, outcome, reason)
+    const release = pressCode(slot)
+    if (d.pressed) held.set(d.pos, release)
+    else release()
+  }
+
+  // --- Action stage: tap dance and tap-hold, then plain keycodes ---
+  let pending: PendingTapHold | null = null
+
+  function isTapHold(code: number): boolean {
+    return (isModTapKeycode(code) || isLTKeycode(code)) && (code & 0xff) !== KC_NO
+  }
+
+  function handOf(pos: string): string | undefined {
+    return input.hands?.get(pos)
+  }
+
+  function settle(outcome: 'tap' | 'hold', reason: FirmwareSimReason): void {
+    if (!pending) return
+    const { pos, code, waiting } = pending
+    pending = null
+    decide(pos, code, outcome, reason)
+    if (outcome === 'tap') {
+      held.set(pos, pressCode(code & 0xff))
+    } else if (isLTKeycode(code)) {
+      const bit = 1 << extractLTLayer(code)
+      layerState |= bit
+      held.set(pos, () => { layerState &= ~bit })
+    } else {
+      held.set(pos, pressBasic(KC_NO, modBits(extractModMask(code))))
+    }
+    for (const event of waiting) actionStage(event)
+  }
+
+  function actionStage(event: StageEvent): void {
+    if (pending) {
+      if (!event.pressed && event.pos === pending.pos) {
+        settle('tap', 'release')
+        actionStage(event)
+        return
+      }
+      pending.waiting.push(event)
+      if (event.pressed) {
+        const hand = handOf(pending.pos)
+        if (settings.chordalHold && hand !== undefined && hand === handOf(event.pos)) settle('tap', 'chordalHold')
+        else if (settings.holdOnOtherKeyPress) settle('hold', 'holdOnOtherKeyPress')
+      } else if (settings.permissiveHold && pending.waiting.some((e) => e.pressed && e.pos === event.pos)) {
+        settle('hold', 'permissiveHold')
+      }
+      return
+    }
+
+    if (!event.pressed) {
+      if (dance && event.pos === dance.pos) {
+        dance.pressed = false
+        dance.deadline = event.time + (input.tapDanceEntries?.[dance.index]?.tappingTerm || settings.tappingTermMs)
+        return
+      }
+      releaseAt(event.pos)
+      return
+    }
+
+    const code = event.code ?? keycodeAt(event.pos)
+    if (dance && (event.pos !== dance.pos || !isTapDanceKeycode(code) || getTapDanceIndex(code) !== dance.index)) {
+      dance.interrupted = true
+      finishDance('interrupt')
+    }
+    if (isTapDanceKeycode(code) && input.tapDanceEntries?.[getTapDanceIndex(code)]) {
+      const index = getTapDanceIndex(code)
+      const term = input.tapDanceEntries[index].tappingTerm || settings.tappingTermMs
+      if (dance) {
+        dance.count++
+        dance.pressed = true
+        dance.deadline = event.time + term
+      } else {
+        dance = { pos: event.pos, index, count: 1, pressed: true, deadline: event.time + term, interrupted: false }
+      }
+      return
+    }
+    if (isTapHold(code)) {
+      pending = { pos: event.pos, code, time: event.time, waiting: [] }
+      return
+    }
+    pressAt(event.pos, code)
+  }
+
+  // --- Combo stage ---
+  const comboEntries = (input.comboEntries ?? [])
+    .map((entry, index) => ({ index, output: entry.output, keys: [entry.key1, entry.key2, entry.key3, entry.key4].filter((k) => k !== KC_NO) }))
+    .filter((c) => c.keys.length >= 2)
+  let comboBuffer: { event: StageEvent; code: number }[] = []
+  const activeCombos = new Map<string, { index: number; members: Set<string>; released: boolean }>()
+
+  function flushCombo(): void {
+    const buffered = comboBuffer
+    comboBuffer = []
+    for (const { event } of buffered) actionStage(event)
+  }
+
+  function comboStage(event: StageEvent): void {
+    const member = [...activeCombos.entries()].find(([, combo]) => combo.members.has(event.pos))
+    if (!event.pressed && member) {
+      const [key, combo] = member
+      combo.members.delete(event.pos)
+      // The output releases with the first trigger key
+      if (!combo.released) {
+        combo.released = true
+        actionStage({ time: event.time, pos: key, pressed: false })
+      }
+      if (combo.members.size === 0) activeCombos.delete(key)
+      return
+    }
+    if (!event.pressed) {
+      if (comboBuffer.some((b) => b.event.pos === event.pos)) flushCombo()
+      actionStage(event)
+      return
+    }
+
+    const code = keycodeAt(event.pos)
+    const codes = [...comboBuffer.map((b) => b.code), code]
+    const candidates = comboEntries.filter((c) => codes.every((k) => c.keys.includes(k)))
+    if (candidates.length === 0) {
+      flushCombo()
+      if (comboEntries.some((c) => c.keys.includes(code))) comboBuffer.push({ event, code })
+      else actionStage(event)
+      return
+    }
+    comboBuffer.push({ event, code })
+    const complete = candidates.find((c) => c.keys.length === codes.length)
+    if (!complete) return
+    const key = `combo:${complete.index}`
+    activeCombos.set(key, { index: complete.index, members: new Set(comboBuffer.map((b) => b.event.pos)), released: false })
+    comboBuffer = []
+    combos.push(complete.index)
+    actionStage({ time: event.time, pos: key, pressed: true, code: complete.output })
+  }
+
+  // --- Timers ---
+  function nextDeadline(): number | null {
+    const deadlines: number[] = []
+    if (comboBuffer.length > 0) deadlines.push(comboBuffer[0].event.time + settings.comboTermMs)
+    if (pending) deadlines.push(pending.time + settings.tappingTermMs)
+    if (dance) deadlines.push(dance.deadline)
+    return deadlines.length > 0 ? Math.min(...deadlines) : null
+  }
+
+  function advanceTo(time: number): void {
+    for (;;) {
+      const deadline = nextDeadline()
+      if (deadline === null || deadline > time) break
+      now = Math.max(now, deadline)
+      if (comboBuffer.length > 0 && comboBuffer[0].event.time + settings.comboTermMs <= now) flushCombo()
+      else if (pending && pending.time + settings.tappingTermMs <= now) settle('hold', 'term')
+      else if (dance && dance.deadline <= now) finishDance('term')
+    }
+    if (Number.isFinite(time)) now = Math.max(now, time)
+  }
+
+  const ordered = events.map((e, i) => ({ e, i })).sort((a, b) => a.e.time - b.e.time || a.i - b.i).map(({ e }) => e)
+  for (const e of ordered) {
+    advanceTo(e.time)
+    comboStage({ time: e.time, pos: `${e.row},${e.col}`, pressed: e.pressed })
+  }
+  advanceTo(Infinity)
+
+  return { reports, text: hidReportsToText(reports), decisions, combos, layerState, defaultLayer }
+}
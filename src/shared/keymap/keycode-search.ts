@@ -0,0 +1,185 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+//
+// Keycode find / replace: lists every place a keycode is bound — keymap,
+// encoders, macro actions, tap-dance slots, combo keys and outputs, key
+// override trigger / replacement keys and alt repeat keys — and plans
+// replacing it everywhere as one flat list of changes, so the editor can
+// write it in one pass and push it as a single undo batch.
+//
+// Matches are exact: a keycode wrapped in a mod mask or layer-tap (e.g.
+// LCTL(KC_APP)) is a different keycode and is not found. KC_NO is only
+// searched in the keymap and encoders, since 0 in dynamic entries and
+// macros means "unset".
+
+import { serialize, deserialize } from '../keycodes/keycodes'
+import type { TapDanceEntry, ComboEntry, KeyOverrideEntry, AltRepeatKeyEntry } from '../types/protocol'
+import type { LayerKeyChange, LayerEncoderChange, LayerEntryChange } from './layer-ops'
+
+/** Structural view of a macro action; only tap / down / up carry keycodes. */
+export interface MacroKeycodeAction {
+  type: string
+  keycodes?: readonly number[]
+}
+
+export type KeycodeSearchEntryKind = 'tapDance' | 'combo' | 'keyOverride' | 'altRepeatKey'
+
+export type KeycodeUse =
+  | { kind: 'key'; layer: number; row: number; col: number }
+  | { kind: 'encoder'; layer: number; idx: number; dir: 0 | 1 }
+  | { kind: 'macro'; index: number; action: number }
+  | { kind: KeycodeSearchEntryKind; index: number; field: string }
+
+export interface KeycodeSearchInput<A extends MacroKeycodeAction = MacroKeycodeAction> {
+  layers: number
+  keymap: ReadonlyMap<string, number> // "layer,row,col" -> keycode
+  encoderLayout: ReadonlyMap<string, number> // "layer,idx,dir" -> keycode
+  /** Physical keys of the KLE layout (visible layout options only). */
+  keys: readonly { row: number; col: number }[]
+  encoderCount: number
+  tapDanceEntries?: readonly TapDanceEntry[]
+  comboEntries?: readonly ComboEntry[]
+  keyOverrideEntries?: readonly KeyOverrideEntry[]
+  altRepeatKeyEntries?: readonly AltRepeatKeyEntry[]
+  /** Parsed macros; `null` when they have not been read, which skips macros. */
+  macros?: readonly (readonly A[])[] | null
+}
+
+export interface MacroChange<A> { index: number; oldActions: A[]; newActions: A[] }
+
+export interface KeycodeReplacePlan<A extends MacroKeycodeAction = MacroKeycodeAction> {
+  keys: LayerKeyChange[]
+  encoders: LayerEncoderChange[]
+  tapDance: LayerEntryChange<TapDanceEntry>[]
+  combo: LayerEntryChange<ComboEntry>[]
+  keyOverride: LayerEntryChange<KeyOverrideEntry>[]
+  altRepeatKey: LayerEntryChange<AltRepeatKeyEntry>[]
+  macros: MacroChange<A>[]
+}
+
+/** Keycode fields searched in each kind of dynamic entry. */
+export const KEYCODE_SEARCH_FIELDS = {
+  tapDance: ['onTap', 'onHold', 'onDoubleTap', 'onTapHold'],
+  combo: ['key1', 'key2', 'key3', 'key4', 'output'],
+  keyOverride: ['triggerKey', 'replacementKey'],
+  altRepeatKey: ['lastKey', 'altKey'],
+} as const satisfies Record<KeycodeSearchEntryKind, readonly string[]>
+
+const KC_NO = 0
+
+/**
+ * Parse a keycode typed by the user (QMK name or any-keycode expression)
+ * through the same serialization the rest of the app uses. Returns null
+ * for text that does not name a keycode.
+ */
+export function parseKeycodeQuery(text: string): number | null {
+  const query = text.trim()
+  if (!query) return null
+  const code = deserialize(query)
+  if (code === KC_NO && query !== serialize(KC_NO)) return null
+  return code
+}
+
+function entryUses<T extends object>(
+  kind: KeycodeSearchEntryKind,
+  entries: readonly T[] | undefined,
+  code: number,
+): KeycodeUse[] {
+  if (!entries || code === KC_NO) return []
+  const fields = KEYCODE_SEARCH_FIELDS[kind] as readonly string[]
+  const uses: KeycodeUse[] = []
+  entries.forEach((entry, index) => {
+    const values = entry as Record<string, unknown>
+    for (const field of fields) {
+      if (values[field] === code) uses.push({ kind, index, field })
+    }
+  })
+  return uses
+}
+
+/** Every place `code` is bound, in keymap / encoder / macro / entry order. */
+export function findKeycodeUses(input: KeycodeSearchInput, code: number): KeycodeUse[] {
+  const uses: KeycodeUse[] = []
+  for (let layer = 0; layer < input.layers; layer++) {
+    for (const { row, col } of input.keys) {
+      if (input.keymap.get(`${layer},${row},${col}`) === code) uses.push({ kind: 'key', layer, row, col })
+    }
+  }
+  for (let layer = 0; layer < input.layers; layer++) {
+    for (let idx = 0; idx < input.encoderCount; idx++) {
+      for (const dir of [0, 1] as const) {
+        if (input.encoderLayout.get(`${layer},${idx},${dir}`) === code) uses.push({ kind: 'encoder', layer, idx, dir })
+      }
+    }
+  }
+  if (code !== KC_NO) {
+    input.macros?.forEach((actions, index) => {
+      actions.forEach((action, i) => {
+        if (action.keycodes?.includes(code)) uses.push({ kind: 'macro', index, action: i })
+      })
+    })
+  }
+  uses.push(
+    ...entryUses('tapDance', input.tapDanceEntries, code),
+    ...entryUses('combo', input.comboEntries, code),
+    ...entryUses('keyOverride', input.keyOverrideEntries, code),
+    ...entryUses('altRepeatKey', input.altRepeatKeyEntries, code),
+  )
+  return uses
+}
+
+function replaceInEntries<T extends object>(
+  kind: KeycodeSearchEntryKind,
+  entries: readonly T[] | undefined,
+  from: number,
+  to: number,
+): LayerEntryChange<T>[] {
+  if (!entries || from === KC_NO) return []
+  const fields = KEYCODE_SEARCH_FIELDS[kind] as readonly string[]
+  const changes: LayerEntryChange<T>[] = []
+  entries.forEach((oldEntry, index) => {
+    const values = oldEntry as Record<string, unknown>
+    const hits = fields.filter((field) => values[field] === from)
+    if (hits.length === 0) return
+    const newEntry = { ...oldEntry }
+    for (const field of hits) (newEntry as Record<string, unknown>)[field] = to
+    changes.push({ index, oldEntry, newEntry })
+  })
+  return changes
+}
+
+/** True when the plan has nothing to write. */
+export function isEmptyKeycodeReplacePlan(plan: KeycodeReplacePlan): boolean {
+  return plan.keys.length === 0 && plan.encoders.length === 0 && plan.tapDance.length === 0 &&
+    plan.combo.length === 0 && plan.keyOverride.length === 0 && plan.altRepeatKey.length === 0 &&
+    plan.macros.length === 0
+}
+
+/** Replace every use of `from` (as found by `findKeycodeUses`) with `to`. */
+export function planKeycodeReplace<A extends MacroKeycodeAction>(
+  input: KeycodeSearchInput<A>,
+  from: number,
+  to: number,
+): KeycodeReplacePlan<A> {
+  const plan: KeycodeReplacePlan<A> = {
+    keys: [], encoders: [], tapDance: [], combo: [], keyOverride: [], altRepeatKey: [], macros: [],
+  }
+  if (from === to) return plan
+  for (const use of findKeycodeUses(input, from)) {
+    if (use.kind === 'key') plan.keys.push({ layer: use.layer, row: use.row, col: use.col, oldKeycode: from, newKeycode: to })
+    else if (use.kind === 'encoder') plan.encoders.push({ layer: use.layer, idx: use.idx, dir: use.dir, oldKeycode: from, newKeycode: to })
+  }
+  if (from !== KC_NO) {
+    input.macros?.forEach((actions, index) => {
+      if (!actions.some((a) => a.keycodes?.includes(from))) return
+      const newActions = actions.map((action): A => (action.keycodes?.includes(from)
+        ? { ...action, keycodes: action.keycodes.map((kc) => (kc === from ? to : kc)) }
+        : action))
+      plan.macros.push({ index, oldActions: [...actions], newActions })
+    })
+  }
+  plan.tapDance = replaceInEntries('tapDance', input.tapDanceEntries, from, to)
+  plan.combo = replaceInEntries('combo', input.comboEntries, from, to)
+  plan.keyOverride = replaceInEntries('keyOverride', input.keyOverrideEntries, from, to)
+  plan.altRepeatKey = replaceInEntries('altRepeatKey', input.altRepeatKeyEntries, from, to)
+  return plan
+}
@@ -0,0 +1,331 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+//
+// Keymap doctor: static analysis of a whole keyboard configuration —
+// keymap, encoders, tap dances, combos, key overrides, alt repeat keys and
+// macros — for likely mistakes. Every finding points at one offending key,
+// encoder, layer or dynamic entry so the editor can jump to it.
+//
+// Layer reachability is a heuristic: it walks every layer keycode found on
+// a reachable layer (including tap-dance slots behind a TD key, combo
+// outputs and key-override replacements) but does not model key-press
+// timing, transparency chains or firmware-side layer state code.
+
+import { serialize, resolve, isTapDanceKeycode, getTapDanceIndex } from '../keycodes/keycodes'
+import { decodeLayerKeycode } from './layer-ops'
+import type { LayerFunction } from './layer-ops'
+import type { TapDanceEntry, ComboEntry, KeyOverrideEntry, AltRepeatKeyEntry } from '../types/protocol'
+
+export type KeymapDoctorSeverity = 'error' | 'warning' | 'info'
+
+export type KeymapDoctorTarget =
+  | { kind: 'key'; layer: number; row: number; col: number }
+  | { kind: 'encoder'; layer: number; idx: number; dir: 0 | 1 }
+  | { kind: 'layer'; layer: number }
+  | { kind: 'tapDance' | 'combo' | 'keyOverride' | 'altRepeatKey'; index: number }
+
+export type KeymapDoctorCode =
+  | 'layerUnreachable'
+  | 'layerNoWayBack'
+  | 'layerOutOfRange'
+  | 'comboTriggerMissing'
+  | 'comboDuplicate'
+  | 'comboShadowed'
+  | 'keyOverrideNoLayers'
+  | 'macroEmpty'
+  | 'tapDanceTerm'
+
+export interface KeymapDoctorFinding {
+  code: KeymapDoctorCode
+  severity: KeymapDoctorSeverity
+  target: KeymapDoctorTarget
+  /** Interpolation values for the finding's message (keycodes already serialized). */
+  params: Record<string, string | number>
+}
+
+export interface KeymapDoctorInput {
+  layers: number
+  keymap: ReadonlyMap<string, number> // "layer,row,col" -> keycode
+  encoderLayout: ReadonlyMap<string, number> // "layer,idx,dir" -> keycode
+  /** Physical keys of the KLE layout (visible layout options only, no encoders or decals). */
+  keys: readonly { row: number; col: number }[]
+  encoderCount: number
+  tapDanceEntries?: readonly TapDanceEntry[]
+  comboEntries?: readonly ComboEntry[]
+  keyOverrideEntries?: readonly KeyOverrideEntry[]
+  altRepeatKeyEntries?: readonly AltRepeatKeyEntry[]
+  /** Parsed macros; `null` when they have not been read, which skips the macro checks. */
+  macros?: readonly (readonly unknown[])[] | null
+  /** The board's QMK Settings TAPPING_TERM in ms. */
+  tappingTermMs: number
+}
+
+/** The parts of the configuration layer reachability looks at. */
+export type LayerReachInput = Pick<KeymapDoctorInput,
+  | 'layers' | 'keymap' | 'encoderLayout' | 'keys' | 'encoderCount'
+  | 'tapDanceEntries' | 'comboEntries' | 'keyOverrideEntries' | 'altRepeatKeyEntries'
+>
+
+/** A layer a latching key enters with no way back, and the first key found doing so. */
+export interface TrappedLayer {
+  layer: number
+  code: number
+  target: KeymapDoctorTarget
+}
+
+/** A tap dance whose own tapping term is off from TAPPING_TERM by at least this factor is flagged. */
+export const TAP_DANCE_TERM_FAR_RATIO = 2
+
+const KC_NO = 0
+const KC_TRNS = 1
+
+/** Macro keycodes M0..M255 are contiguous from M0 in both protocols. */
+const MACRO_KEYCODE_COUNT = 256
+
+interface LayerRef { fn: LayerFunction; layer: number }
+
+// Layer keycodes pointing past the registered layer count never serialize,
+// so they are spelled out from the decoded function and layer instead
+function keycodeName(code: number): string {
+  const ref = decodeLayerKeycode(code)
+  if (!ref || ref.fn === 'LT' || ref.fn === 'LM') return serialize(code)
+  return `${ref.fn}(${ref.layer})`
+}
+
+function macroIndexOf(code: number): number {
+  const index = code - resolve('M0')
+  return index >= 0 && index < MACRO_KEYCODE_COUNT ? index : -1
+}
+
+/** One keycode slot somewhere in the configuration. */
+export interface KeycodeSlot {
+  code: number
+  target: KeymapDoctorTarget
+}
+
+/** The key and encoder slots bound on `layer`. */
+export function keySlots(input: LayerReachInput, layer: number): KeycodeSlot[] {
+  const slots: KeycodeSlot[] = []
+  for (const { row, col } of input.keys) {
+    const code = input.keymap.get(`${layer},${row},${col}`)
+    if (code !== undefined) slots.push({ code, target: { kind: 'key', layer, row, col } })
+  }
+  for (let idx = 0; idx < input.encoderCount; idx++) {
+    for (const dir of [0, 1] as const) {
+      const code = input.encoderLayout.get(`${layer},${idx},${dir}`)
+      if (code !== undefined) slots.push({ code, target: { kind: 'encoder', layer, idx, dir } })
+    }
+  }
+  return slots
+}
+
+function entrySlots(input: KeymapDoctorInput): KeycodeSlot[] {
+  const slots: KeycodeSlot[] = []
+  const add = (kind: 'tapDance' | 'combo' | 'keyOverride' | 'altRepeatKey', index: number, codes: number[]): void => {
+    for (const code of codes) slots.push({ code, target: { kind, index } })
+  }
+  input.tapDanceEntries?.forEach((e, i) => add('tapDance', i, [e.onTap, e.onHold, e.onDoubleTap, e.onTapHold]))
+  input.comboEntries?.forEach((e, i) => add('combo', i, [e.output]))
+  input.keyOverrideEntries?.forEach((e, i) => { if (e.enabled) add('keyOverride', i, [e.replacementKey]) })
+  input.altRepeatKeyEntries?.forEach((e, i) => { if (e.enabled) add('altRepeatKey', i, [e.altKey]) })
+  return slots
+}
+
+/** Codes a key press can produce: the code itself plus, for TD keys, its tap-dance slots. */
+function expandCode(input: LayerReachInput, code: number): number[] {
+  const td = isTapDanceKeycode(code) ? input.tapDanceEntries?.[getTapDanceIndex(code)] : undefined
+  return td ? [code, td.onTap, td.onHold, td.onDoubleTap, td.onTapHold] : [code]
+}
+
+/** Codes reachable while `layer` is active, ignoring layers beneath it. */
+function layerCodes(input: LayerReachInput, layer: number): number[] {
+  const codes = keySlots(input, layer).flatMap((s) => expandCode(input, s.code))
+  input.keyOverrideEntries?.forEach((e) => {
+    if (e.enabled && e.layers & (1 << layer)) codes.push(...expandCode(input, e.replacementKey))
+  })
+  return codes
+}
+
+/** Codes active on every layer: combo outputs and alt repeat keys. */
+function globalCodes(input: LayerReachInput): number[] {
+  const codes: number[] = []
+  input.comboEntries?.forEach((e) => codes.push(...expandCode(input, e.output)))
+  input.altRepeatKeyEntries?.forEach((e) => { if (e.enabled) codes.push(...expandCode(input, e.altKey)) })
+  return codes
+}
+
+function refsOf(codes: readonly number[]): LayerRef[] {
+  return codes.map(decodeLayerKeycode).filter((r): r is LayerRef => r !== null)
+}
+
+const MOMENTARY: ReadonlySet<LayerFunction> = new Set(['MO', 'LT', 'LM', 'OSL', 'TT'])
+
+/** Layers reachable from `from`, optionally through the given layer functions only. */
+export function reachableLayers(input: LayerReachInput, from: number, fns?: ReadonlySet<LayerFunction>): Set<number> {
+  const global = refsOf(globalCodes(input))
+  const seen = new Set<number>([from])
+  const queue = [from]
+  while (queue.length > 0) {
+    const layer = queue.shift() as number
+    for (const ref of [...refsOf(layerCodes(input, layer)), ...global]) {
+      if (fns && !fns.has(ref.fn)) continue
+      if (ref.layer < input.layers && !seen.has(ref.layer)) {
+        seen.add(ref.layer)
+        queue.push(ref.layer)
+      }
+    }
+  }
+  return seen
+}
+
+function hasContent(input: LayerReachInput, layer: number): boolean {
+  return keySlots(input, layer).some((s) => s.code !== KC_NO && s.code !== KC_TRNS)
+}
+
+/**
+ * Latching entries (TG / TO / DF / PDF) need a way back; momentary ones
+ * release on their own. The way back may sit on the layer itself or on any
+ * layer momentarily reachable from it. Only keys on layers reachable from
+ * layer 0 are considered; each trapped layer is listed once.
+ */
+export function findTrappedLayers(input: LayerReachInput, reachable = reachableLayers(input, 0)): TrappedLayer[] {
+  const trapped: TrappedLayer[] = []
+  const seen = new Set<number>()
+  for (let layer = 0; layer < input.layers; layer++) {
+    if (!reachable.has(layer)) continue
+    for (const slot of keySlots(input, layer)) {
+      const ref = decodeLayerKeycode(slot.code)
+      if (!ref || ref.layer === 0 || ref.layer >= input.layers || seen.has(ref.layer)) continue
+      if (ref.fn !== 'TG' && ref.fn !== 'TO' && ref.fn !== 'DF' && ref.fn !== 'PDF') continue
+      if (hasWayBack(input, ref, slot.target)) continue
+      seen.add(ref.layer)
+      trapped.push({ layer: ref.layer, code: slot.code, target: slot.target })
+    }
+  }
+  return trapped
+}
+
+function checkLayers(input: KeymapDoctorInput, findings: KeymapDoctorFinding[]): void {
+  const reachable = reachableLayers(input, 0)
+  for (let layer = 1; layer < input.layers; layer++) {
+    if (!reachable.has(layer) && hasContent(input, layer)) {
+      findings.push({ code: 'layerUnreachable', severity: 'warning', target: { kind: 'layer', layer }, params: { layer } })
+    }
+  }
+  for (const { layer, code, target } of findTrappedLayers(input, reachable)) {
+    findings.push({
+      code: 'layerNoWayBack', severity: 'error', target,
+      params: { layer, keycode: keycodeName(code) },
+    })
+  }
+}
+
+function hasWayBack(input: LayerReachInput, ref: LayerRef, entry: KeymapDoctorTarget): boolean {
+  const target = ref.layer
+  // A TG key whose position is transparent on the target layer falls
+  // through to the TG key itself and toggles the layer back off.
+  if (ref.fn === 'TG' && entry.kind === 'key' &&
+    input.keymap.get(`${target},${entry.row},${entry.col}`) === KC_TRNS) return true
+  const codes = [...reachableLayers(input, target, MOMENTARY)].flatMap((l) => layerCodes(input, l))
+  return refsOf([...codes, ...globalCodes(input)]).some((r) => {
+    if (ref.fn === 'DF' || ref.fn === 'PDF') return (r.fn === 'DF' || r.fn === 'PDF') && r.layer !== target
+    if (ref.fn === 'TG' && r.fn === 'TG' && r.layer === target) return true
+    return r.fn === 'TO' && r.layer !== target
+  })
+}
+
+function checkSlots(input: KeymapDoctorInput, findings: KeymapDoctorFinding[]): void {
+  const slots = [...Array.from({ length: input.layers }, (_, l) => keySlots(input, l)).flat(), ...entrySlots(input)]
+  for (const slot of slots) {
+    const ref = decodeLayerKeycode(slot.code)
+    if (ref && ref.layer >= input.layers) {
+      findings.push({
+        code: 'layerOutOfRange', severity: 'error', target: slot.target,
+        params: { keycode: keycodeName(slot.code), layer: ref.layer, layers: input.layers },
+      })
+    }
+    const macro = macroIndexOf(slot.code)
+    if (macro >= 0 && input.macros && (input.macros[macro]?.length ?? 0) === 0) {
+      findings.push({
+        code: 'macroEmpty', severity: 'warning', target: slot.target,
+        params: { keycode: keycodeName(slot.code), macro },
+      })
+    }
+  }
+}
+
+function comboTriggers(e: ComboEntry): number[] {
+  return [e.key1, e.key2, e.key3, e.key4].filter((k) => k !== KC_NO)
+}
+
+function checkCombos(input: KeymapDoctorInput, findings: KeymapDoctorFinding[]): void {
+  if (!input.comboEntries) return
+  const present = new Set<number>()
+  for (let layer = 0; layer < input.layers; layer++) {
+    for (const slot of keySlots(input, layer)) present.add(slot.code)
+  }
+  const seen = new Map<string, number>() // sorted triggers -> first combo index
+  input.comboEntries.forEach((entry, index) => {
+    const triggers = comboTriggers(entry)
+    if (triggers.length === 0) return
+    for (const code of triggers) {
+      if (!present.has(code)) {
+        findings.push({
+          code: 'comboTriggerMissing', severity: 'warning', target: { kind: 'combo', index },
+          params: { combo: index, keycode: keycodeName(code) },
+        })
+      }
+    }
+    const key = [...triggers].sort((a, b) => a - b).join(',')
+    const first = seen.get(key)
+    if (first === undefined) {
+      seen.set(key, index)
+      return
+    }
+    const same = input.comboEntries?.[first]?.output === entry.output
+    findings.push({
+      code: same ? 'comboDuplicate' : 'comboShadowed', severity: same ? 'warning' : 'error',
+      target: { kind: 'combo', index }, params: { combo: index, other: first },
+    })
+  })
+}
+
+function checkKeyOverrides(input: KeymapDoctorInput, findings: KeymapDoctorFinding[]): void {
+  const mask = input.layers >= 32 ? 0xffffffff : (1 << input.layers) - 1
+  input.keyOverrideEntries?.forEach((entry, index) => {
+    if (entry.enabled && ((entry.layers & mask) >>> 0) === 0) {
+      findings.push({ code: 'keyOverrideNoLayers', severity: 'warning', target: { kind: 'keyOverride', index }, params: { keyOverride: index } })
+    }
+  })
+}
+
+function checkTapDance(input: KeymapDoctorInput, findings: KeymapDoctorFinding[]): void {
+  const term = input.tappingTermMs
+  if (term <= 0) return
+  input.tapDanceEntries?.forEach((entry, index) => {
+    const inUse = entry.onTap !== KC_NO || entry.onHold !== KC_NO || entry.onDoubleTap !== KC_NO || entry.onTapHold !== KC_NO
+    if (!inUse) return
+    const ratio = entry.tappingTerm / term
+    if (ratio >= TAP_DANCE_TERM_FAR_RATIO || ratio <= 1 / TAP_DANCE_TERM_FAR_RATIO) {
+      findings.push({
+        code: 'tapDanceTerm', severity: 'info', target: { kind: 'tapDance', index },
+        params: { tapDance: index, term: entry.tappingTerm, tappingTerm: term },
+      })
+    }
+  })
+}
+
+const SEVERITY_ORDER: Record<KeymapDoctorSeverity, number> = { error: 0, warning: 1, info: 2 }
+
+/** Run every check; findings come back most severe first, in configuration order within a severity. */
+export function analyzeKeymap(input: KeymapDoctorInput): KeymapDoctorFinding[] {
+  const findings: KeymapDoctorFinding[] = []
+  checkLayers(input, findings)
+  checkSlots(input, findings)
+  checkCombos(input, findings)
+  checkKeyOverrides(input, findings)
+  checkTapDance(input, findings)
+  return findings
+    .map((finding, order) => ({ finding, order }))
+    .sort((a, b) => SEVERITY_ORDER[a.finding.severity] - SEVERITY_ORDER[b.finding.severity] || a.order - b.order)
+    .map(({ finding }) => finding)
+}
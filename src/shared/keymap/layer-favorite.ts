@@ -0,0 +1,110 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Layer and encoder favorites: a layer is saved as keycodes keyed by the
+// physical position of each key, so it lands on any board with the same
+// layout whatever its matrix wiring; encoders are saved by index.
+
+import type { KleKey } from '../kle/types'
+import { filterVisibleKeys, repositionLayoutKeys } from '../kle/filter-keys'
+import type { EncoderFavoriteData, LayerFavoriteData } from '../types/favorite-store'
+import type { LayerEncoderChange, LayerKeyChange } from './layer-ops'
+
+// Positions are compared in 1/100 key units
+const POSITION_PRECISION = 100
+
+function round(v: number): number {
+  return Math.round(v * POSITION_PRECISION) / POSITION_PRECISION
+}
+
+/** Center of a key in key units, after its rotation. */
+export function keyCenter(key: KleKey): { x: number; y: number } {
+  const cx = key.x + key.width / 2
+  const cy = key.y + key.height / 2
+  if (!key.rotation) return { x: round(cx), y: round(cy) }
+  const rad = (key.rotation * Math.PI) / 180
+  const dx = cx - key.rotationX
+  const dy = cy - key.rotationY
+  return {
+    x: round(key.rotationX + dx * Math.cos(rad) - dy * Math.sin(rad)),
+    y: round(key.rotationY + dx * Math.sin(rad) + dy * Math.cos(rad)),
+  }
+}
+
+/**
+ * Keys a layer favorite covers: visible, non-encoder keys, with alternate
+ * layout options moved onto the default option's place so a board showing
+ * another option still matches.
+ */
+function favoriteKeys(keys: KleKey[], layoutOptions: Map<number, number>): KleKey[] {
+  return filterVisibleKeys(repositionLayoutKeys(keys, layoutOptions), layoutOptions)
+    .filter((k) => k.encoderIdx === -1)
+}
+
+export interface LayerFavoriteInput {
+  keys: KleKey[]
+  layoutOptions: Map<number, number>
+  keymap: ReadonlyMap<string, number> // "layer,row,col" -> keycode
+}
+
+export function buildLayerFavorite(input: LayerFavoriteInput, layer: number): LayerFavoriteData {
+  return {
+    keys: favoriteKeys(input.keys, input.layoutOptions).map((key) => ({
+      ...keyCenter(key),
+      keycode: input.keymap.get(`${layer},${key.row},${key.col}`) ?? 0,
+    })),
+  }
+}
+
+export interface LayerFavoritePlan {
+  keys: LayerKeyChange[]
+  /** Saved keys with no key at the same position on this board. */
+  unmatched: number
+}
+
+/** Writes that put a layer favorite onto `layer`; positions already holding the keycode are left out. */
+export function planLayerFavorite(data: LayerFavoriteData, input: LayerFavoriteInput, layer: number): LayerFavoritePlan {
+  const byPosition = new Map<string, KleKey>()
+  for (const key of favoriteKeys(input.keys, input.layoutOptions)) {
+    const { x, y } = keyCenter(key)
+    byPosition.set(`${x},${y}`, key)
+  }
+  const plan: LayerFavoritePlan = { keys: [], unmatched: 0 }
+  for (const saved of data.keys) {
+    const key = byPosition.get(`${round(saved.x)},${round(saved.y)}`)
+    if (!key) {
+      plan.unmatched++
+      continue
+    }
+    const oldKeycode = input.keymap.get(`${layer},${key.row},${key.col}`) ?? 0
+    if (oldKeycode !== saved.keycode) {
+      plan.keys.push({ layer, row: key.row, col: key.col, oldKeycode, newKeycode: saved.keycode })
+    }
+  }
+  return plan
+}
+
+export interface EncoderFavoriteInput {
+  encoderCount: number
+  encoderLayout: ReadonlyMap<string, number> // "layer,idx,dir" -> keycode
+}
+
+export function buildEncoderFavorite(input: EncoderFavoriteInput, layer: number): EncoderFavoriteData {
+  return {
+    encoders: Array.from({ length: input.encoderCount }, (_, idx) => ({
+      cw: input.encoderLayout.get(`${layer},${idx},0`) ?? 0,
+      ccw: input.encoderLayout.get(`${layer},${idx},1`) ?? 0,
+    })),
+  }
+}
+
+/** Writes that put an encoder favorite onto `layer`; encoders beyond the board's count are dropped. */
+export function planEncoderFavorite(data: EncoderFavoriteData, input: EncoderFavoriteInput, layer: number): LayerEncoderChange[] {
+  const changes: LayerEncoderChange[] = []
+  data.encoders.slice(0, input.encoderCount).forEach((entry, idx) => {
+    // encoderLayout stores: dir 0=CW, dir 1=CCW
+    for (const [dir, code] of [[0, entry.cw], [1, entry.ccw]] as [0 | 1, number][]) {
+      const oldKeycode = input.encoderLayout.get(`${layer},${idx},${dir}`) ?? 0
+      if (oldKeycode !== code) changes.push({ layer, idx, dir, oldKeycode, newKeycode: code })
+    }
+  })
+  return changes
+}
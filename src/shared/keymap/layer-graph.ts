@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+//
+// Layer navigation graph: one node per layer and one edge per way of
+// switching from a layer to another — a layer keycode bound on the layer
+// (MO, TG, TO, TT, OSL, LT, LM, DF, PDF), the same keycode in a slot of a
+// tap dance bound on the layer, or a combo whose output is a layer keycode
+// and whose trigger keys are all on the layer. Each edge carries the
+// physical key(s) that fire it.
+//
+// Which layers are reachable and which are trapped (entered by a latching
+// key with no way back) come from the keymap doctor, so the graph and the
+// doctor's findings always agree.
+
+import { isTapDanceKeycode, getTapDanceIndex } from '../keycodes/keycodes'
+import { decodeLayerKeycode } from './layer-ops'
+import type { LayerFunction } from './layer-ops'
+import { findTrappedLayers, keySlots, reachableLayers } from './keymap-doctor'
+import type { KeymapDoctorTarget, LayerReachInput } from './keymap-doctor'
+
+export type LayerGraphInput = LayerReachInput
+
+export type LayerGraphTrigger =
+  | { kind: 'key'; row: number; col: number }
+  | { kind: 'encoder'; idx: number; dir: 0 | 1 }
+
+export type LayerGraphVia =
+  | { kind: 'keycode' }
+  | { kind: 'tapDance'; index: number; slot: TapDanceSlot }
+  | { kind: 'combo'; index: number }
+
+export interface LayerGraphEdge {
+  from: number
+  to: number
+  fn: LayerFunction
+  via: LayerGraphVia
+  /** The layer keycode itself (the tap-dance slot or combo output for those). */
+  keycode: number
+  /** Physical keys pressed on `from` to fire the edge: one, or every trigger of a combo. */
+  triggers: LayerGraphTrigger[]
+}
+
+export interface LayerGraphNode {
+  layer: number
+  /** Reachable from layer 0, as the keymap doctor sees it. */
+  reachable: boolean
+  /** Entered by a latching edge with no way back. */
+  trapped: boolean
+}
+
+export interface LayerGraph {
+  nodes: LayerGraphNode[]
+  edges: LayerGraphEdge[]
+}
+
+const TAP_DANCE_SLOTS = ['onTap', 'onHold', 'onDoubleTap', 'onTapHold'] as const
+export type TapDanceSlot = typeof TAP_DANCE_SLOTS[number]
+
+const KC_NO = 0
+
+function triggerOf(target: KeymapDoctorTarget): LayerGraphTrigger {
+  if (target.kind === 'encoder') return { kind: 'encoder', idx: target.idx, dir: target.dir }
+  if (target.kind === 'key') return { kind: 'key', row: target.row, col: target.col }
+  throw new Error(`not a key or encoder slot: ${target.kind}`)
+}
+
+function layerEdges(input: LayerGraphInput, from: number): LayerGraphEdge[] {
+  const edges: LayerGraphEdge[] = []
+  const add = (code: number, via: LayerGraphVia, triggers: LayerGraphTrigger[]): void => {
+    const ref = decodeLayerKeycode(code)
+    if (ref && ref.layer < input.layers) edges.push({ from, to: ref.layer, fn: ref.fn, via, keycode: code, triggers })
+  }
+
+  const slots = keySlots(input, from).map(({ code, target }) => ({ code, trigger: triggerOf(target) }))
+  for (const { code, trigger } of slots) {
+    add(code, { kind: 'keycode' }, [trigger])
+    const td = isTapDanceKeycode(code) ? input.tapDanceEntries?.[getTapDanceIndex(code)] : undefined
+    if (!td) continue
+    const index = getTapDanceIndex(code)
+    for (const slot of TAP_DANCE_SLOTS) add(td[slot], { kind: 'tapDance', index, slot }, [trigger])
+  }
+
+  // Combos match keycodes, so they fire on a layer only when every trigger
+  // keycode is bound on one of its keys
+  const keyByCode = new Map<number, LayerGraphTrigger>()
+  for (const { code, trigger } of slots) {
+    if (trigger.kind === 'key' && !keyByCode.has(code)) keyByCode.set(code, trigger)
+  }
+  input.comboEntries?.forEach((entry, index) => {
+    const codes = [entry.key1, entry.key2, entry.key3, entry.key4].filter((k) => k !== KC_NO)
+    if (codes.length === 0 || !codes.every((k) => keyByCode.has(k))) return
+    add(entry.output, { kind: 'combo', index }, codes.map((k) => keyByCode.get(k) as LayerGraphTrigger))
+  })
+  return edges
+}
+
+/** Build the graph; edges come in layer order, then key / encoder / combo order within a layer. */
+export function buildLayerGraph(input: LayerGraphInput): LayerGraph {
+  const edges = Array.from({ length: input.layers }, (_, layer) => layerEdges(input, layer)).flat()
+  const reachable = reachableLayers(input, 0)
+  const trapped = new Set(findTrappedLayers(input, reachable).map((t) => t.layer))
+  const nodes = Array.from({ length: input.layers }, (_, layer) => ({
+    layer, reachable: reachable.has(layer), trapped: trapped.has(layer),
+  }))
+  return { nodes, edges }
+}
@@ -0,0 +1,226 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+//
+// Whole-layer keymap operations: copy one layer onto another, clear a
+// layer, and reorder layers (swap / drag-move). Each operation is planned
+// here as a flat list of changes against the current state so the editor
+// can write it in one pass and push it as a single undo batch.
+//
+// A reorder also rewrites every layer *reference* so the keymap keeps
+// working: MO/DF/PDF/TG/TT/OSL/TO and LT/LM keycodes anywhere in the
+// keymap, encoders, tap dances, combos, key overrides and alt repeat keys,
+// plus the key-override layer masks. Copy and clear move key contents
+// only and never touch references.
+
+import { resolve, isLTKeycode, extractLTLayer, buildLTKeycode, isLMKeycode, extractLMLayer, extractLMMod, buildLMKeycode } from '../keycodes/keycodes'
+import type { TapDanceEntry, ComboEntry, KeyOverrideEntry, AltRepeatKeyEntry } from '../types/protocol'
+
+/** Single-argument layer keycodes; all encode the layer as `OP(n)`. */
+const LAYER_FUNCTIONS = ['MO', 'DF', 'PDF', 'TG', 'TT', 'OSL', 'TO'] as const
+
+/** Highest layer index the single-argument layer keycodes can encode. */
+const MAX_LAYER_FUNCTION_LAYERS = 32
+
+export interface LayerOpState {
+  layers: number
+  keymap: ReadonlyMap<string, number> // "layer,row,col" -> keycode
+  encoderLayout: ReadonlyMap<string, number> // "layer,idx,dir" -> keycode
+  tapDanceEntries?: readonly TapDanceEntry[]
+  comboEntries?: readonly ComboEntry[]
+  keyOverrideEntries?: readonly KeyOverrideEntry[]
+  altRepeatKeyEntries?: readonly AltRepeatKeyEntry[]
+  layerNames?: readonly string[]
+}
+
+export interface LayerKeyChange { layer: number; row: number; col: number; oldKeycode: number; newKeycode: number }
+export interface LayerEncoderChange { layer: number; idx: number; dir: 0 | 1; oldKeycode: number; newKeycode: number }
+export interface LayerEntryChange<T> { index: number; oldEntry: T; newEntry: T }
+export interface LayerNameChange { layer: number; oldName: string; newName: string }
+
+export interface LayerOpPlan {
+  keys: LayerKeyChange[]
+  encoders: LayerEncoderChange[]
+  tapDance: LayerEntryChange<TapDanceEntry>[]
+  combo: LayerEntryChange<ComboEntry>[]
+  keyOverride: LayerEntryChange<KeyOverrideEntry>[]
+  altRepeatKey: LayerEntryChange<AltRepeatKeyEntry>[]
+  layerNames: LayerNameChange[]
+}
+
+function emptyPlan(): LayerOpPlan {
+  return { keys: [], encoders: [], tapDance: [], combo: [], keyOverride: [], altRepeatKey: [], layerNames: [] }
+}
+
+/** True when the plan has nothing to write. */
+export function isEmptyLayerOpPlan(plan: LayerOpPlan): boolean {
+  return plan.keys.length === 0 && plan.encoders.length === 0 && plan.tapDance.length === 0 &&
+    plan.combo.length === 0 && plan.keyOverride.length === 0 && plan.altRepeatKey.length === 0 &&
+    plan.layerNames.length === 0
+}
+
+// keycode -> [function, layer] for the single-argument layer keycodes,
+// rebuilt per protocol since v5 and v6 use different ranges.
+let layerFunctionCache: { protocolProbe: number; byCode: Map<number, [typeof LAYER_FUNCTIONS[number], number]> } | null = null
+
+function getLayerFunctionMap(): Map<number, [typeof LAYER_FUNCTIONS[number], number]> {
+  const probe = resolve('MO(0)')
+  if (layerFunctionCache?.protocolProbe === probe) return layerFunctionCache.byCode
+  const byCode = new Map<number, [typeof LAYER_FUNCTIONS[number], number]>()
+  for (const fn of LAYER_FUNCTIONS) {
+    for (let layer = 0; layer < MAX_LAYER_FUNCTION_LAYERS; layer++) {
+      byCode.set(resolve(`${fn}(${layer})`), [fn, layer])
+    }
+  }
+  layerFunctionCache = { protocolProbe: probe, byCode }
+  return byCode
+}
+
+export type LayerFunction = typeof LAYER_FUNCTIONS[number] | 'LT' | 'LM'
+
+/**
+ * The layer keycode family and target layer of `code`, or null when it is
+ * not a layer keycode. Decoded numerically, so it also works for layers the
+ * registered keyboard does not have.
+ */
+export function decodeLayerKeycode(code: number): { fn: LayerFunction; layer: number } | null {
+  if (isLTKeycode(code)) return { fn: 'LT', layer: extractLTLayer(code) }
+  if (isLMKeycode(code)) return { fn: 'LM', layer: extractLMLayer(code) }
+  const fn = getLayerFunctionMap().get(code)
+  return fn ? { fn: fn[0], layer: fn[1] } : null
+}
+
+/**
+ * Rewrite the layer a keycode refers to. `oldToNew[i]` is the new index of
+ * old layer `i`; references outside that table are left alone, as is
+ * every keycode that is not a layer keycode.
+ */
+export function remapLayerKeycode(code: number, oldToNew: readonly number[]): number {
+  const ref = decodeLayerKeycode(code)
+  const target = ref ? oldToNew[ref.layer] : undefined
+  if (!ref || target === undefined) return code
+  if (ref.fn === 'LT') return buildLTKeycode(target, code & 0xff)
+  if (ref.fn === 'LM') return buildLMKeycode(target, extractLMMod(code))
+  return resolve(`${ref.fn}(${target})`)
+}
+
+/** Rewrite a per-layer bitmask (key override `layers`) with `oldToNew`. */
+export function remapLayerMask(mask: number, oldToNew: readonly number[]): number {
+  let next = mask
+  for (let layer = 0; layer < oldToNew.length; layer++) next &= ~(1 << layer)
+  for (let layer = 0; layer < oldToNew.length; layer++) {
+    if (mask & (1 << layer)) next |= 1 << oldToNew[layer]
+  }
+  return next >>> 0
+}
+
+/** New layer order (index = new layer, value = old layer) after swapping two layers. */
+export function swapLayerOrder(layers: number, a: number, b: number): number[] {
+  const order = Array.from({ length: layers }, (_, i) => i)
+  order[a] = b
+  order[b] = a
+  return order
+}
+
+/** New layer order after moving layer `from` to position `to`, shifting the ones in between. */
+export function moveLayerOrder(layers: number, from: number, to: number): number[] {
+  const order = Array.from({ length: layers }, (_, i) => i)
+  const [moved] = order.splice(from, 1)
+  order.splice(to, 0, moved)
+  return order
+}
+
+function positionsOf(map: ReadonlyMap<string, number>, layer: number): { pos: string; code: number }[] {
+  const prefix = `${String(layer)},`
+  const out: { pos: string; code: number }[] = []
+  for (const [key, code] of map) {
+    if (key.startsWith(prefix)) out.push({ pos: key.slice(prefix.length), code })
+  }
+  return out
+}
+
+function pushKey(plan: LayerOpPlan, layer: number, pos: string, oldKeycode: number, newKeycode: number): void {
+  if (oldKeycode === newKeycode) return
+  const [row, col] = pos.split(',').map(Number)
+  plan.keys.push({ layer, row, col, oldKeycode, newKeycode })
+}
+
+function pushEncoder(plan: LayerOpPlan, layer: number, pos: string, oldKeycode: number, newKeycode: number): void {
+  if (oldKeycode === newKeycode) return
+  const [idx, dir] = pos.split(',').map(Number)
+  plan.encoders.push({ layer, idx, dir: dir as 0 | 1, oldKeycode, newKeycode })
+}
+
+/** Overwrite layer `dst` with the keys and encoders of layer `src`. */
+export function planLayerCopy(state: LayerOpState, src: number, dst: number): LayerOpPlan {
+  const plan = emptyPlan()
+  if (src === dst) return plan
+  for (const { pos, code } of positionsOf(state.keymap, src)) {
+    pushKey(plan, dst, pos, state.keymap.get(`${String(dst)},${pos}`) ?? 0, code)
+  }
+  for (const { pos, code } of positionsOf(state.encoderLayout, src)) {
+    pushEncoder(plan, dst, pos, state.encoderLayout.get(`${String(dst)},${pos}`) ?? 0, code)
+  }
+  return plan
+}
+
+/** Set every key and encoder of `layer` to `fill`. */
+export function planLayerClear(state: LayerOpState, layer: number, fill: number): LayerOpPlan {
+  const plan = emptyPlan()
+  for (const { pos, code } of positionsOf(state.keymap, layer)) pushKey(plan, layer, pos, code, fill)
+  for (const { pos, code } of positionsOf(state.encoderLayout, layer)) pushEncoder(plan, layer, pos, code, fill)
+  return plan
+}
+
+function planEntries<T>(
+  entries: readonly T[] | undefined,
+  remap: (entry: T) => T,
+  equal: (a: T, b: T) => boolean,
+): LayerEntryChange<T>[] {
+  const changes: LayerEntryChange<T>[] = []
+  entries?.forEach((oldEntry, index) => {
+    const newEntry = remap(oldEntry)
+    if (!equal(oldEntry, newEntry)) changes.push({ index, oldEntry, newEntry })
+  })
+  return changes
+}
+
+function shallowEqual<T extends object>(a: T, b: T): boolean {
+  return (Object.keys(a) as (keyof T)[]).every((k) => a[k] === b[k])
+}
+
+/**
+ * Reorder layers so new layer `i` holds what old layer `order[i]` held,
+ * rewriting every layer reference to follow its layer.
+ */
+export function planLayerReorder(state: LayerOpState, order: readonly number[]): LayerOpPlan {
+  const plan = emptyPlan()
+  const oldToNew: number[] = []
+  order.forEach((oldLayer, newLayer) => { oldToNew[oldLayer] = newLayer })
+  const rc = (code: number): number => remapLayerKeycode(code, oldToNew)
+
+  for (let newLayer = 0; newLayer < order.length; newLayer++) {
+    const oldLayer = order[newLayer]
+    for (const { pos, code } of positionsOf(state.keymap, oldLayer)) {
+      pushKey(plan, newLayer, pos, state.keymap.get(`${String(newLayer)},${pos}`) ?? 0, rc(code))
+    }
+    for (const { pos, code } of positionsOf(state.encoderLayout, oldLayer)) {
+      pushEncoder(plan, newLayer, pos, state.encoderLayout.get(`${String(newLayer)},${pos}`) ?? 0, rc(code))
+    }
+    const oldName = state.layerNames?.[newLayer] ?? ''
+    const newName = state.layerNames?.[oldLayer] ?? ''
+    if (oldName !== newName) plan.layerNames.push({ layer: newLayer, oldName, newName })
+  }
+
+  plan.tapDance = planEntries(state.tapDanceEntries, (e) => ({
+    ...e, onTap: rc(e.onTap), onHold: rc(e.onHold), onDoubleTap: rc(e.onDoubleTap), onTapHold: rc(e.onTapHold),
+  }), shallowEqual)
+  plan.combo = planEntries(state.comboEntries, (e) => ({
+    ...e, key1: rc(e.key1), key2: rc(e.key2), key3: rc(e.key3), key4: rc(e.key4), output: rc(e.output),
+  }), shallowEqual)
+  plan.keyOverride = planEntries(state.keyOverrideEntries, (e) => ({
+    ...e, triggerKey: rc(e.triggerKey), replacementKey: rc(e.replacementKey), layers: remapLayerMask(e.layers, oldToNew),
+  }), shallowEqual)
+  plan.altRepeatKey = planEntries(state.altRepeatKeyEntries, (e) => ({
+    ...e, lastKey: rc(e.lastKey), altKey: rc(e.altKey),
+  }), shallowEqual)
+  return plan
+}
@@ -0,0 +1,120 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+//
+// Pure helpers for restoring a saved layout onto a connected keyboard
+// without rewriting what is already there. The renderer's `.vil` apply
+// path (`vil-restore.ts`) diffs the target against the cached state,
+// writes only the changed cells (batched into dynamic_keymap_set_buffer
+// runs where the board supports it) and reads the same ranges back to
+// verify.
+
+import { BUFFER_FETCH_CHUNK } from '../constants/protocol'
+
+/** One changed "a,b,c" code-map entry. */
+export interface CodeMapChange {
+  key: string
+  code: number
+}
+
+/** A contiguous slice of the raw keymap buffer (big-endian u16 per cell). */
+export interface KeymapBufferRun {
+  offset: number
+  data: number[]
+}
+
+/**
+ * Entries of `target` whose code differs from `current`. Keys missing
+ * from `current` always count as changed; keys only in `current` are
+ * left alone.
+ */
+export function diffCodeMap(
+  current: ReadonlyMap<string, number>,
+  target: ReadonlyMap<string, number>,
+): CodeMapChange[] {
+  const changes: CodeMapChange[] = []
+  for (const [key, code] of target) {
+    if (current.get(key) !== code) changes.push({ key, code })
+  }
+  return changes
+}
+
+/** Byte offset of a "layer,row,col" cell in the keymap buffer. */
+export function keymapCellOffset(key: string, rows: number, cols: number): number {
+  const [layer, row, col] = key.split(',').map(Number)
+  return (layer * rows * cols + row * cols + col) * 2
+}
+
+/**
+ * Group changed keymap cells into runs of adjacent buffer cells. Runs never
+ * exceed one packet (BUFFER_FETCH_CHUNK bytes), so each run is exactly one
+ * set_buffer / get_buffer round trip.
+ */
+export function keymapBufferRuns(
+  changes: readonly CodeMapChange[],
+  rows: number,
+  cols: number,
+): KeymapBufferRun[] {
+  const cells = changes
+    .map(({ key, code }) => ({ offset: keymapCellOffset(key, rows, cols), code }))
+    .sort((a, b) => a.offset - b.offset)
+
+  const runs: KeymapBufferRun[] = []
+  let run: KeymapBufferRun | null = null
+  for (const { offset, code } of cells) {
+    const contiguous = run && run.offset + run.data.length === offset
+    if (!run || !contiguous || run.data.length + 2 > BUFFER_FETCH_CHUNK) {
+      run = { offset, data: [] }
+      runs.push(run)
+    }
+    run.data.push((code >> 8) & 0xff, code & 0xff)
+  }
+  return runs
+}
+
+/** "layer,row,col" keys of the cells a run covers, in buffer order. */
+export function keymapRunKeys(run: KeymapBufferRun, rows: number, cols: number): string[] {
+  const keys: string[] = []
+  const layerSize = rows * cols
+  for (let cell = run.offset / 2; cell < (run.offset + run.data.length) / 2; cell++) {
+    const layer = Math.floor(cell / layerSize)
+    keys.push(`${layer},${Math.floor((cell % layerSize) / cols)},${cell % cols}`)
+  }
+  return keys
+}
+
+/** Cell keys of `run` whose read-back bytes differ from what was written. */
+export function keymapRunMismatches(
+  run: KeymapBufferRun,
+  readBack: readonly number[],
+  rows: number,
+  cols: number,
+): string[] {
+  return keymapRunKeys(run, rows, cols).filter((_key, i) =>
+    readBack[i * 2] !== run.data[i * 2] || readBack[i * 2 + 1] !== run.data[i * 2 + 1])
+}
+
+/** Shallow field-by-field equality for dynamic entries (tap dance, combo, ...). */
+export function sameEntry<T extends object>(a: T | undefined, b: T | undefined): boolean {
+  if (a === b) return true
+  if (!a || !b) return false
+  const ka = Object.keys(a) as (keyof T)[]
+  const kb = Object.keys(b)
+  return ka.length === kb.length && ka.every((k) => a[k] === b[k])
+}
+
+/** Indices below `count` where `target` differs from `current`. */
+export function diffEntries<T extends object>(
+  current: readonly T[],
+  target: readonly T[],
+  count: number,
+): number[] {
+  const indices: number[] = []
+  for (let i = 0; i < Math.min(target.length, count); i++) {
+    if (!sameEntry(current[i], target[i])) indices.push(i)
+  }
+  return indices
+}
+
+/** True when both byte arrays hold the same values. */
+export function sameBytes(a: readonly number[], b: readonly number[]): boolean {
+  return a.length === b.length && a.every((v, i) => v === b[i])
+}
@@ -0,0 +1,185 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// QMK Settings profiles: firmware defaults, a field-level diff of the live
+// values against those defaults and a saved profile, splitting a profile by
+// what a board supports, and the profile export file format.
+
+import type { QmkSettingsTab } from './types/protocol'
+import type {
+  QmkSettingsProfile,
+  QmkSettingsProfileExportEntry,
+  QmkSettingsProfileExportFile,
+} from './types/qmk-settings-profile'
+import { normalizeQmkSettingData } from './qmk-settings-normalize'
+import settingsDefs from './qmk-settings-defs.json'
+
+const tabs = (settingsDefs as { tabs: QmkSettingsTab[] }).tabs
+
+/**
+ * Values vial-qmk's qmk_settings_reset() writes, keyed by qsid. Timing
+ * values are QMK's stock config.h defaults; a board overriding e.g.
+ * TAPPING_TERM resets to its own value, so the diff labels these
+ * "firmware defaults" rather than the board's.
+ */
+export const QMK_SETTINGS_DEFAULTS: ReadonlyMap<number, number> = new Map([
+  [1, 0],
+  [2, 50], // COMBO_TERM
+  [3, 0],
+  [4, 175], // AUTO_SHIFT_TIMEOUT
+  [5, 5], // ONESHOT_TAP_TOGGLE
+  [6, 5000], // ONESHOT_TIMEOUT
+  [7, 200], // TAPPING_TERM
+  [8, 0],
+  [9, 10], // MOUSEKEY_DELAY
+  [10, 20], // MOUSEKEY_INTERVAL
+  [11, 8], // MOUSEKEY_MOVE_DELTA
+  [12, 10], // MOUSEKEY_MAX_SPEED
+  [13, 30], // MOUSEKEY_TIME_TO_MAX
+  [14, 10], // MOUSEKEY_WHEEL_DELAY
+  [15, 80], // MOUSEKEY_WHEEL_INTERVAL
+  [16, 8], // MOUSEKEY_WHEEL_MAX_SPEED
+  [17, 40], // MOUSEKEY_WHEEL_TIME_TO_MAX
+  [18, 0], // TAP_CODE_DELAY
+  [19, 80], // TAP_HOLD_CAPS_DELAY
+  [20, 5], // TAPPING_TOGGLE
+  [21, 0],
+  [22, 0],
+  [23, 0],
+  [24, 0],
+  [25, 200], // QUICK_TAP_TERM = TAPPING_TERM
+  [26, 0],
+  [27, 0],
+])
+
+/** Qsids of one settings group (a QMK Settings tab), in definition order. */
+export function qmkSettingsGroupQsids(group: string): number[] {
+  const fields = tabs.find((tab) => tab.name === group)?.fields ?? []
+  return [...new Set(fields.map((field) => field.qsid))]
+}
+
+/** Little-endian value bytes → number. */
+export function decodeQmkSettingValue(data: readonly number[]): number {
+  let value = 0
+  for (let i = data.length - 1; i >= 0; i--) {
+    value = value * 256 + (data[i] & 0xff)
+  }
+  return value
+}
+
+/** One row per settings field; `undefined` where the source has no value. */
+export interface QmkSettingsDiffRow {
+  tab: string
+  title: string
+  qsid: number
+  bit?: number
+  type: 'boolean' | 'integer'
+  current: number | undefined
+  defaultValue: number | undefined
+  profile: number | undefined
+}
+
+function fieldValue(raw: number | undefined, type: 'boolean' | 'integer', bit: number | undefined): number | undefined {
+  if (raw === undefined) return undefined
+  if (type === 'integer') return raw
+  if (bit === undefined) return raw !== 0 ? 1 : 0
+  return Math.floor(raw / 2 ** bit) % 2
+}
+
+function rawValue(values: Record<string, number[]> | null, qsid: number): number | undefined {
+  const data = values?.[String(qsid)]
+  return data ? decodeQmkSettingValue(data) : undefined
+}
+
+/**
+ * Compare every field the board supports between its current values, the
+ * firmware defaults and (optionally) a profile. Rows come in settings-tab
+ * order; boolean fields sharing a qsid are compared bit by bit.
+ */
+export function diffQmkSettings(
+  current: Record<string, number[]>,
+  profile: Record<string, number[]> | null,
+  supportedQsids: ReadonlySet<number>,
+): QmkSettingsDiffRow[] {
+  const rows: QmkSettingsDiffRow[] = []
+  for (const tab of tabs) {
+    for (const field of tab.fields) {
+      if (!supportedQsids.has(field.qsid)) continue
+      rows.push({
+        tab: tab.name,
+        title: field.title,
+        qsid: field.qsid,
+        bit: field.bit,
+        type: field.type,
+        current: fieldValue(rawValue(current, field.qsid), field.type, field.bit),
+        defaultValue: fieldValue(QMK_SETTINGS_DEFAULTS.get(field.qsid), field.type, field.bit),
+        profile: fieldValue(rawValue(profile, field.qsid), field.type, field.bit),
+      })
+    }
+  }
+  return rows
+}
+
+/** Whether a diff row's current value differs from the default or the profile. */
+export function isQmkSettingsDiffRowChanged(row: QmkSettingsDiffRow): boolean {
+  return (row.defaultValue !== undefined && row.current !== row.defaultValue) ||
+    (row.profile !== undefined && row.current !== row.profile)
+}
+
+/**
+ * Split a profile into the writes a board can take and the qsids it does
+ * not support. Values are trimmed to each setting's declared width.
+ */
+export function planQmkSettingsProfile(
+  values: Record<string, number[]>,
+  supportedQsids: ReadonlySet<number>,
+): { writes: { qsid: number; data: number[] }[]; skipped: number[] } {
+  const writes: { qsid: number; data: number[] }[] = []
+  const skipped: number[] = []
+  const qsids = Object.keys(values).map(Number).sort((a, b) => a - b)
+  for (const qsid of qsids) {
+    if (supportedQsids.has(qsid)) {
+      writes.push({ qsid, data: normalizeQmkSettingData(qsid, values[String(qsid)]) })
+    } else {
+      skipped.push(qsid)
+    }
+  }
+  return { writes, skipped }
+}
+
+/** Runtime guard for a qsid → byte-array record. */
+export function isQmkSettingsValues(v: unknown): v is Record<string, number[]> {
+  if (typeof v !== 'object' || v === null || Array.isArray(v)) return false
+  return Object.entries(v).every(([qsid, data]) =>
+    /^\d+$/.test(qsid) &&
+    Array.isArray(data) &&
+    data.every((b) => typeof b === 'number' && Number.isInteger(b) && b >= 0 && b <= 0xff),
+  )
+}
+
+export function buildQmkSettingsProfileExport(
+  profiles: readonly QmkSettingsProfile[],
+  exportedAt: string = new Date().toISOString(),
+): QmkSettingsProfileExportFile {
+  return {
+    app: 'pipette',
+    version: 1,
+    scope: 'qmkSettingsProfiles',
+    exportedAt,
+    profiles: profiles.map((p) => ({ name: p.name, values: p.values })),
+  }
+}
+
+/** Profiles in an export file, or null when `v` is not one. */
+export function parseQmkSettingsProfileExport(v: unknown): QmkSettingsProfileExportEntry[] | null {
+  if (typeof v !== 'object' || v === null) return null
+  const file = v as Record<string, unknown>
+  if (file.app !== 'pipette' || file.scope !== 'qmkSettingsProfiles' || file.version !== 1) return null
+  if (!Array.isArray(file.profiles)) return null
+  const profiles: QmkSettingsProfileExportEntry[] = []
+  for (const entry of file.profiles as unknown[]) {
+    if (typeof entry !== 'object' || entry === null) return null
+    const { name, values } = entry as Record<string, unknown>
+    if (typeof name !== 'string' || !name.trim() || !isQmkSettingsValues(values)) return null
+    profiles.push({ name: name.trim(), values })
+  }
+  return profiles
+}
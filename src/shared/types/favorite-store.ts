@@ -2,7 +2,15 @@
 
 import type { HubPrivateLink } from './hub-private'
 
-export type FavoriteType = 'tapDance' | 'macro' | 'combo' | 'keyOverride' | 'altRepeatKey'
+export type FavoriteType =
+  | 'tapDance'
+  | 'macro'
+  | 'combo'
+  | 'keyOverride'
+  | 'altRepeatKey'
+  | 'layer'
+  | 'encoder'
+  | 'qmkSettings'
 
 export interface SavedFavoriteMeta {
   id: string // UUID v4
@@ -13,6 +21,7 @@ export interface SavedFavoriteMeta {
   deletedAt?: string // ISO 8601 — tombstone timestamp
   hubPostId?: string // Hub post ID (if uploaded publicly)
   hubPrivate?: HubPrivateLink // Private (unlisted) Hub linkage — exclusive with hubPostId
+  tags?: string[] // User tags, lower-case and unique
 }
 
 export interface FavoriteIndex {
@@ -23,9 +32,26 @@ export interface FavoriteIndex {
 export interface FavoriteExportEntry {
   label: string
   savedAt: string
+  tags?: string[]
   data: unknown
 }
 
+/** `layer` favorite: keycodes keyed by key center in key units. */
+export interface LayerFavoriteData {
+  keys: { x: number; y: number; keycode: number }[]
+}
+
+/** `encoder` favorite: one layer's encoder mappings, by encoder index. */
+export interface EncoderFavoriteData {
+  encoders: { cw: number; ccw: number }[]
+}
+
+/** `qmkSettings` favorite: one QMK Settings group (tab), qsid → raw bytes. */
+export interface QmkSettingsFavoriteData {
+  group: string
+  values: Record<string, number[]>
+}
+
 /**
  * Pipette favorite export file.
  *
@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+/** Metadata for the firmware image picked in the flash dialog. */
+export interface FirmwareFileInfo {
+  fileName: string
+  /** 'vfw' = vial-gui package (uid + sha256 header), 'bin' = raw image */
+  format: 'vfw' | 'bin'
+  /** Payload size in bytes (header excluded) */
+  size: number
+  /** Hex SHA-256 of the payload */
+  sha256: string
+  /** Target keyboard uid from the .vfw header, formatted like KeyboardId.uid */
+  uid?: string
+  /** Build time from the .vfw header (ms since epoch) */
+  builtAt?: number
+}
+
+export type FirmwareFlashPhase = 'checking' | 'flashing' | 'rebooting' | 'done'
+
+export interface FirmwareFlashProgress {
+  phase: FirmwareFlashPhase
+  /** Payload bytes written so far */
+  written: number
+  total: number
+}
+
+export interface FirmwareFlashOptions {
+  /** KeyboardId.uid of the keyboard the image is meant for */
+  expectedUid: string
+  /** Send "VT" before rebooting so the first boot is unlocked for a keymap restore */
+  enableInsecure: boolean
+  /**
+   * Only flash a .vfw package, checked against the bootloader's uid. Set when
+   * expectedUid was read from the bootloader itself and so proves nothing.
+   */
+  requirePackage?: boolean
+}
+
+export interface FirmwareFlashResult {
+  success: boolean
+  error?: string
+  /** Bootloader-reported uid, formatted like KeyboardId.uid */
+  bootloaderUid?: string
+}
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+import type { DeviceInfo, KeyboardDefinition } from './protocol'
+
+export const HID_CAPTURE_VERSION = 1
+
+/** One report sent to the editor's device and, for sendReceive, its reply. */
+export interface HidCaptureExchange {
+  /** 32-byte request as lowercase hex */
+  tx: string
+  /** 32-byte response as lowercase hex; null for fire-and-forget sends */
+  rx: string | null
+}
+
+/** Portable recording of a device session, replayable by the virtual device. */
+export interface HidCapture {
+  version: number
+  /** ISO timestamp of when recording started */
+  recordedAt: string
+  device: DeviceInfo
+  definition: KeyboardDefinition | null
+  /** True when the UID and serial number were replaced before saving */
+  scrubbed: boolean
+  exchanges: HidCaptureExchange[]
+}
+
+export interface HidCaptureStatus {
+  recording: boolean
+  /** Exchanges recorded so far */
+  exchanges: number
+}
+
+export interface HidCaptureSaveResult {
+  success: boolean
+  filePath?: string
+  error?: string
+  /** Number of exchanges in the saved capture */
+  exchanges?: number
+}
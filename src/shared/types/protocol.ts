@@ -30,6 +30,38 @@ export interface KeyboardDefinition {
   vial?: { midi?: string }
   /** QMK dynamic_keymap config — layer_count overrides dummy layer count (default: 4) */
   dynamic_keymap?: { layer_count?: number }
+  /** VIA v3 custom UI menus. Plain strings name VIA's built-in lighting
+   *  presets (e.g. "qmk_rgblight"), which Pipette covers with its own
+   *  lighting configurator instead. */
+  menus?: (string | ViaMenu)[]
+}
+
+/** VIA v3 custom menu control type */
+export type ViaMenuControlType = 'toggle' | 'range' | 'dropdown' | 'color' | 'keycode'
+
+/** A single VIA v3 custom menu control. `content` is
+ *  [valueKey, channelId, valueId, ...extra value-id bytes]. */
+export interface ViaMenuControl {
+  label: string
+  type: ViaMenuControlType
+  /** toggle: [offValue, onValue]; range: [min, max];
+   *  dropdown: labels, or [label, value] pairs */
+  options?: (string | number | [string, number])[]
+  content: [string, number, ...number[]]
+  showIf?: string
+}
+
+/** A labelled group of controls (VIA calls these sections). */
+export interface ViaMenuSection {
+  label: string
+  showIf?: string
+  content: ViaMenuControl[]
+}
+
+/** A top-level VIA v3 menu (one sidebar entry in VIA's Configure tab). */
+export interface ViaMenu {
+  label: string
+  content: ViaMenuSection[]
 }
 
 /** Tap Dance entry */
@@ -121,6 +153,28 @@ export interface QmkSettingsTab {
   fields: QmkSettingsField[]
 }
 
+/** One VialRGB LED as reported by vialrgb_get_led_info. */
+export interface VialRGBLedInfo {
+  /** rgb_matrix point, 0-224 */
+  x: number
+  /** rgb_matrix point, 0-64 */
+  y: number
+  /** LED_FLAG_* bits */
+  flags: number
+  /** Matrix position the LED sits under; null for underglow and indicators */
+  row: number | null
+  col: number | null
+}
+
+/** Hue, saturation, value — each 0-255, as VialRGB sends them. */
+export type HsvColor = [number, number, number]
+
+/** A named set of per-LED Direct Control colors, indexed by LED. */
+export interface LightingScene {
+  name: string
+  colors: HsvColor[]
+}
+
 /**
  * .vil / .pipette file format for save/restore.
  *
@@ -152,6 +206,8 @@ export interface VilFile {
   featureFlags?: number
   /** Keyboard definition embedded in v2 snapshots for offline rendering. */
   definition?: KeyboardDefinition
+  /** VialRGB Direct Control scenes; the board cannot store them itself. */
+  lightingScenes?: LightingScene[]
 }
 
 /** Result of probing a connected keyboard device */
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+
+/** A named set of QMK Settings values, kept apart from full snapshots. */
+export interface QmkSettingsProfile {
+  id: string // UUID v4
+  name: string
+  savedAt: string // ISO 8601
+  updatedAt: string // ISO 8601
+  /** qsid → LE value bytes, the same shape as VilFile.qmkSettings */
+  values: Record<string, number[]>
+}
+
+export interface QmkSettingsProfileIndex {
+  profiles: QmkSettingsProfile[]
+}
+
+export interface QmkSettingsProfileExportEntry {
+  name: string
+  values: Record<string, number[]>
+}
+
+/** Pipette QMK Settings profile export file. */
+export interface QmkSettingsProfileExportFile {
+  app: 'pipette'
+  version: 1
+  scope: 'qmkSettingsProfiles'
+  exportedAt: string
+  profiles: QmkSettingsProfileExportEntry[]
+}
+
+/** Outcome of writing a profile to a board. */
+export interface QmkSettingsProfileApplyReport {
+  applied: number[]
+  /** Qsids in the profile the board does not support */
+  skipped: number[]
+}
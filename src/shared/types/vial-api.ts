@@ -12,11 +12,16 @@ import type {
   AltRepeatKeyEntry,
   DynamicEntryCounts,
   UnlockStatus,
+  VialRGBLedInfo,
+  HsvColor,
 } from './protocol'
 import type { SnapshotMeta } from './snapshot-store'
+import type { HidCaptureSaveResult, HidCaptureStatus } from './hid-capture'
+import type { FirmwareFileInfo, FirmwareFlashOptions, FirmwareFlashProgress, FirmwareFlashResult } from './firmware'
 import type { AnalyzeFilterSnapshotMeta } from './analyze-filter-store'
 import type { RunKeystrokeLog, RunLogMeta } from './typing-run-log'
 import type { FavoriteType, SavedFavoriteMeta, FavoriteImportResult } from './favorite-store'
+import type { QmkSettingsProfile } from './qmk-settings-profile'
 import type { KeyLabelMeta, KeyLabelRecord, KeyLabelStoreResult, KeyLabelImportBatchResult } from './key-label-store'
 import type { TypingTestTextMeta, TypingTestTextRecord, TypingTestTextStoreResult } from './typing-test-text-store'
 import type { HubKeyLabelItem, HubKeyLabelListResponse, HubKeyLabelListParams, HubKeyLabelTimestampsResponse } from './hub-key-label'
@@ -77,11 +82,29 @@ export interface VialAPI {
   closeDevice(): Promise<void>
   isDeviceOpen(): Promise<boolean>
   probeDevice(vendorId: number, productId: number, serialNumber?: string): Promise<ProbeResult>
+  onDeviceConnected(callback: (device: DeviceInfo) => void): () => void
+  onDeviceDisconnected(callback: (device: DeviceInfo) => void): () => void
+  setDeviceWatchSuspended(suspended: boolean): Promise<void>
+
+  // Additional device sessions (keyboards opened next to the primary one)
+  sessionOpen(vendorId: number, productId: number, serialNumber?: string): Promise<string | null>
+  sessionClose(sessionId: string): Promise<void>
+  sessionCall<M extends DeviceSessionMethod>(
+    sessionId: string,
+    method: M,
+    ...args: Parameters<VialAPI[M]>
+  ): ReturnType<VialAPI[M]>
+
+  // HID session capture (editor's device only) for bug reports
+  hidCaptureStart(device: DeviceInfo): Promise<void>
+  hidCaptureStop(definition: KeyboardDefinition | null, scrub: boolean): Promise<HidCaptureSaveResult>
+  hidCaptureStatus(): Promise<HidCaptureStatus>
 
   // VIA Protocol
   getProtocolVersion(): Promise<number>
   getLayerCount(): Promise<number>
   getKeymapBuffer(offset: number, size: number): Promise<number[]>
+  setKeymapBuffer(offset: number, data: number[]): Promise<void>
   setKeycode(layer: number, row: number, col: number, keycode: number): Promise<void>
   getLayoutOptions(): Promise<number>
   setLayoutOptions(options: number): Promise<void>
@@ -110,11 +133,30 @@ export interface VialAPI {
   setLightingValue(id: number, ...args: number[]): Promise<void>
   saveLighting(): Promise<void>
 
+  // VIA v3 custom menus
+  customGetValue(channelId: number, valueId: number[], length: number): Promise<number[]>
+  customSetValue(channelId: number, valueId: number[], data: number[]): Promise<void>
+  customSave(channelId: number): Promise<void>
+
+  // Maintenance
+  dynamicKeymapReset(): Promise<void>
+  eepromReset(): Promise<void>
+  jumpToBootloader(): Promise<void>
+
+  // Firmware flashing (Vial bootloader)
+  firmwareSelectFile(): Promise<{ success: boolean; firmware?: FirmwareFileInfo; error?: string }>
+  firmwareFlash(vendorId: number, productId: number, options: FirmwareFlashOptions): Promise<FirmwareFlashResult>
+  /** uid is null when the bootloader has none set */
+  firmwareReadBootloaderUid(vendorId: number, productId: number): Promise<{ success: boolean; uid?: string | null; error?: string }>
+  firmwareOnProgress(callback: (progress: FirmwareFlashProgress) => void): () => void
+
   // VialRGB
   getVialRGBInfo(): Promise<{ version: number; maxBrightness: number }>
   getVialRGBMode(): Promise<{ mode: number; speed: number; hue: number; sat: number; val: number }>
   getVialRGBSupported(): Promise<number[]>
   setVialRGBMode(mode: number, speed: number, hue: number, sat: number, val: number): Promise<void>
+  getVialRGBLeds(): Promise<VialRGBLedInfo[]>
+  setVialRGBDirect(firstLed: number, colors: HsvColor[]): Promise<void>
 
   // Lock/Unlock
   getUnlockStatus(): Promise<UnlockStatus>
@@ -145,8 +187,12 @@ export interface VialAPI {
   // File I/O (IPC to main for native file dialogs)
   saveLayout(json: string, deviceName?: string): Promise<{ success: boolean; filePath?: string; error?: string }>
   loadLayout(title?: string, extensions?: string[]): Promise<{ success: boolean; data?: string; filePath?: string; error?: string }>
-  exportKeymapC(content: string, deviceName?: string): Promise<{ success: boolean; filePath?: string; error?: string }>
+  exportKeymapC(
+    files: ReadonlyArray<{ name: string; content: string }>,
+    deviceName?: string,
+  ): Promise<{ success: boolean; filePath?: string; error?: string }>
   exportPdf(base64Data: string, deviceName?: string): Promise<{ success: boolean; filePath?: string; error?: string }>
+  exportZmkKeymap(content: string, deviceName?: string): Promise<{ success: boolean; filePath?: string; error?: string }>
   exportCsv(content: string, defaultName?: string): Promise<{ success: boolean; filePath?: string; error?: string }>
   exportCsvBundle(
     files: ReadonlyArray<{ name: string; content: string }>,
@@ -186,6 +232,12 @@ export interface VialAPI {
   favoriteStoreImport(): Promise<FavoriteImportResult>
   favoriteStoreImportToCurrent(scope: string): Promise<{ success: boolean; data?: unknown; error?: string }>
 
+  // QMK Settings Profile Store (local)
+  qmkSettingsProfileList(): Promise<{ success: boolean; profiles?: QmkSettingsProfile[]; error?: string }>
+  qmkSettingsProfileSave(name: string, values: Record<string, number[]>): Promise<{ success: boolean; profile?: QmkSettingsProfile; error?: string }>
+  qmkSettingsProfileRename(id: string, newName: string): Promise<{ success: boolean; error?: string }>
+  qmkSettingsProfileDelete(id: string): Promise<{ success: boolean; error?: string }>
+
   // Key Label Store (local)
   keyLabelStoreList(): Promise<KeyLabelStoreResult<KeyLabelMeta[]>>
   keyLabelStoreListAll(): Promise<KeyLabelStoreResult<KeyLabelMeta[]>>
@@ -452,6 +504,7 @@ export interface VialAPI {
   // Favorite Store extensions
   favoriteStoreSetHubPostId(type: FavoriteType, entryId: string, hubPostId: string | null): Promise<{ success: boolean; error?: string }>
   favoriteStoreSetHubPrivate(type: FavoriteType, entryId: string, link: HubPrivateLink | null): Promise<{ success: boolean; error?: string }>
+  favoriteStoreSetTags(type: FavoriteType, entryId: string, tags: string[]): Promise<{ success: boolean; error?: string }>
 
   // Analyze Filter Store extensions
   analyzeFilterStoreSetHubPostId(uid: string, entryId: string, hubPostId: string | null): Promise<{ success: boolean; error?: string }>
@@ -474,6 +527,46 @@ export interface VialAPI {
   trayStatusUpdate(status: TrayStatus): Promise<void>
 }
 
+/** Device commands that can be sent to an additional session through
+ * `sessionCall`. Reads, the dynamic-keymap writes needed to paste layers,
+ * macros and dynamic entries between boards, and the unlock handshake
+ * those writes may need. */
+export type DeviceSessionMethod =
+  | 'getProtocolVersion'
+  | 'getKeyboardId'
+  | 'getDefinition'
+  | 'getLayerCount'
+  | 'getLayoutOptions'
+  | 'getKeymapBuffer'
+  | 'setKeycode'
+  | 'getEncoder'
+  | 'setEncoder'
+  | 'getMacroCount'
+  | 'getMacroBufferSize'
+  | 'getMacroBuffer'
+  | 'setMacroBuffer'
+  | 'getLightingValue'
+  | 'getVialRGBInfo'
+  | 'getVialRGBMode'
+  | 'getVialRGBSupported'
+  | 'getUnlockStatus'
+  | 'unlockStart'
+  | 'unlockPoll'
+  | 'getDynamicEntryCount'
+  | 'getTapDance'
+  | 'setTapDance'
+  | 'getCombo'
+  | 'setCombo'
+  | 'getKeyOverride'
+  | 'setKeyOverride'
+  | 'getAltRepeatKey'
+  | 'setAltRepeatKey'
+  | 'qmkSettingsQuery'
+  | 'qmkSettingsGet'
+
+/** The slice of VialAPI that is bound to a single device. */
+export type DeviceSessionApi = Pick<VialAPI, DeviceSessionMethod>
+
 /** Connected-keyboard name and REC keystroke-counter state reported by
  * the renderer to the main-process tray. Purely display data — declared
  * once here so every IPC leg (renderer hook, preload bridge, main
@@ -0,0 +1,291 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// VIA v3 custom menu parsing, showIf evaluation, and value (de)serialization.
+// Mirrors the semantics of VIA's `menus` definition key: each control is
+// bound to a (channelId, valueId) pair read/written through
+// id_custom_get_value / id_custom_set_value.
+
+import type { ViaMenu, ViaMenuControl, ViaMenuControlType } from './types/protocol'
+
+/** A control after normalization. `valueId` holds every id byte from
+ *  `content[2..]` — the value payload starts right after them on the wire. */
+export interface CustomMenuControl {
+  label: string
+  type: ViaMenuControlType
+  key: string
+  channelId: number
+  valueId: number[]
+  showIf?: string
+  /** toggle: [off, on]; range: [min, max] */
+  min: number
+  max: number
+  /** dropdown entries (value defaults to the option's index) */
+  choices: { label: string; value: number }[]
+}
+
+export interface CustomMenuSection {
+  label: string
+  showIf?: string
+  controls: CustomMenuControl[]
+}
+
+export interface CustomMenu {
+  label: string
+  sections: CustomMenuSection[]
+}
+
+/** Current values keyed by each control's `key` (the content[0] string). */
+export type CustomMenuValues = Record<string, number>
+
+const CONTROL_TYPES: ReadonlySet<string> = new Set(['toggle', 'range', 'dropdown', 'color', 'keycode'])
+
+function isByte(v: unknown): v is number {
+  return typeof v === 'number' && Number.isInteger(v) && v >= 0 && v <= 0xff
+}
+
+function parseChoices(options: ViaMenuControl['options']): { label: string; value: number }[] {
+  if (!Array.isArray(options)) return []
+  const choices: { label: string; value: number }[] = []
+  options.forEach((opt, index) => {
+    if (typeof opt === 'string') {
+      choices.push({ label: opt, value: index })
+    } else if (Array.isArray(opt) && typeof opt[0] === 'string' && typeof opt[1] === 'number') {
+      choices.push({ label: opt[0], value: opt[1] })
+    }
+  })
+  return choices
+}
+
+function parseControl(raw: unknown): CustomMenuControl | null {
+  if (raw == null || typeof raw !== 'object') return null
+  const c = raw as Partial<ViaMenuControl>
+  if (typeof c.type !== 'string' || !CONTROL_TYPES.has(c.type)) return null
+  if (!Array.isArray(c.content) || c.content.length < 3) return null
+  const [key, channelId, ...valueId] = c.content
+  if (typeof key !== 'string' || !isByte(channelId) || !valueId.every(isByte)) return null
+
+  const numeric = Array.isArray(c.options) ? c.options.filter((o): o is number => typeof o === 'number') : []
+  let min = 0
+  let max = 0
+  switch (c.type) {
+    case 'toggle':
+      min = numeric[0] ?? 0
+      max = numeric[1] ?? 1
+      break
+    case 'range':
+      min = numeric[0] ?? 0
+      max = numeric[1] ?? 255
+      break
+    case 'color':
+    case 'keycode':
+      max = 0xffff
+      break
+  }
+
+  return {
+    label: typeof c.label === 'string' ? c.label : key,
+    type: c.type,
+    key,
+    channelId,
+    valueId,
+    showIf: typeof c.showIf === 'string' ? c.showIf : undefined,
+    min,
+    max,
+    choices: c.type === 'dropdown' ? parseChoices(c.options) : [],
+  }
+}
+
+/**
+ * Normalize a definition's `menus` into menus/sections/controls. Built-in
+ * preset names (plain strings) and malformed entries are dropped rather
+ * than rejected so a single bad control never hides the whole panel.
+ */
+export function parseCustomMenus(menus: readonly (string | ViaMenu)[] | undefined): CustomMenu[] {
+  if (!Array.isArray(menus)) return []
+  const result: CustomMenu[] = []
+  for (const menu of menus) {
+    if (menu == null || typeof menu !== 'object' || !Array.isArray(menu.content)) continue
+    const sections: CustomMenuSection[] = []
+    for (const section of menu.content) {
+      if (section == null || typeof section !== 'object' || !Array.isArray(section.content)) continue
+      const controls: CustomMenuControl[] = []
+      for (const raw of section.content) {
+        const control = parseControl(raw)
+        if (control) controls.push(control)
+      }
+      if (controls.length === 0) continue
+      sections.push({
+        label: typeof section.label === 'string' ? section.label : '',
+        showIf: typeof section.showIf === 'string' ? section.showIf : undefined,
+        controls,
+      })
+    }
+    if (sections.length > 0) {
+      result.push({ label: typeof menu.label === 'string' ? menu.label : '', sections })
+    }
+  }
+  return result
+}
+
+/** Every control across all menus, in definition order. */
+export function flattenCustomMenuControls(menus: readonly CustomMenu[]): CustomMenuControl[] {
+  return menus.flatMap((menu) => menu.sections.flatMap((section) => section.controls))
+}
+
+/** Payload length in bytes. Ranges above 255 are sent as a u16 like VIA does. */
+export function customValueLength(control: CustomMenuControl): number {
+  switch (control.type) {
+    case 'color':
+    case 'keycode':
+      return 2
+    case 'range':
+      return control.max > 0xff ? 2 : 1
+    default:
+      return 1
+  }
+}
+
+/** Big-endian payload bytes for a value. Color packs hue in the high byte, saturation in the low byte. */
+export function encodeCustomValue(control: CustomMenuControl, value: number): number[] {
+  const length = customValueLength(control)
+  const bytes: number[] = []
+  for (let i = length - 1; i >= 0; i--) {
+    bytes.push((value >>> (i * 8)) & 0xff)
+  }
+  return bytes
+}
+
+/** Inverse of encodeCustomValue. Missing bytes read as 0. */
+export function decodeCustomValue(control: CustomMenuControl, bytes: readonly number[]): number {
+  const length = customValueLength(control)
+  let value = 0
+  for (let i = 0; i < length; i++) {
+    value = (value << 8) | ((bytes[i] ?? 0) & 0xff)
+  }
+  return value
+}
+
+// --- showIf expressions ---
+// Grammar (VIA subset): or := and ('||' and)*; and := unary ('&&' unary)*;
+// unary := '!' unary | cmp; cmp := primary (op primary)?;
+// primary := number | '{' key '}' | '(' or ')'
+
+type Token = { kind: 'num'; value: number } | { kind: 'ref'; key: string } | { kind: 'op'; op: string }
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')']
+
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < expr.length) {
+    const ch = expr[i]
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+    if (ch === '{') {
+      const end = expr.indexOf('}', i)
+      if (end < 0) throw new Error(`Unterminated reference at ${i}`)
+      tokens.push({ kind: 'ref', key: expr.slice(i + 1, end).trim() })
+      i = end + 1
+      continue
+    }
+    const num = /^(0x[0-9a-f]+|\d+)/i.exec(expr.slice(i))
+    if (num) {
+      tokens.push({ kind: 'num', value: Number(num[0]) })
+      i += num[0].length
+      continue
+    }
+    const op = OPERATORS.find((o) => expr.startsWith(o, i))
+    if (!op) throw new Error(`Unexpected '${ch}' at ${i}`)
+    tokens.push({ kind: 'op', op })
+    i += op.length
+  }
+  return tokens
+}
+
+function evaluateTokens(tokens: Token[], values: CustomMenuValues): number {
+  let pos = 0
+
+  function peekOp(op: string): boolean {
+    const tok = tokens[pos]
+    return tok?.kind === 'op' && tok.op === op
+  }
+
+  function parseOr(): number {
+    let left = parseAnd()
+    while (peekOp('||')) {
+      pos++
+      const right = parseAnd()
+      left = left || right ? 1 : 0
+    }
+    return left
+  }
+
+  function parseAnd(): number {
+    let left = parseUnary()
+    while (peekOp('&&')) {
+      pos++
+      const right = parseUnary()
+      left = left && right ? 1 : 0
+    }
+    return left
+  }
+
+  function parseUnary(): number {
+    if (peekOp('!')) {
+      pos++
+      return parseUnary() ? 0 : 1
+    }
+    return parseComparison()
+  }
+
+  function parseComparison(): number {
+    const left = parsePrimary()
+    const tok = tokens[pos]
+    if (tok?.kind !== 'op') return left
+    let result: boolean
+    switch (tok.op) {
+      case '==': pos++; result = left === parsePrimary(); break
+      case '!=': pos++; result = left !== parsePrimary(); break
+      case '<': pos++; result = left < parsePrimary(); break
+      case '>': pos++; result = left > parsePrimary(); break
+      case '<=': pos++; result = left <= parsePrimary(); break
+      case '>=': pos++; result = left >= parsePrimary(); break
+      default: return left
+    }
+    return result ? 1 : 0
+  }
+
+  function parsePrimary(): number {
+    const tok = tokens[pos++]
+    if (!tok) throw new Error('Unexpected end of expression')
+    if (tok.kind === 'num') return tok.value
+    if (tok.kind === 'ref') return values[tok.key] ?? 0
+    if (tok.op === '(') {
+      const value = parseOr()
+      if (!peekOp(')')) throw new Error('Missing )')
+      pos++
+      return value
+    }
+    throw new Error(`Unexpected '${tok.op}'`)
+  }
+
+  const result = parseOr()
+  if (pos !== tokens.length) throw new Error('Trailing tokens in expression')
+  return result
+}
+
+/**
+ * Evaluate a VIA showIf expression against the current values. A missing
+ * expression is always visible; an unparsable one is also treated as
+ * visible so a typo in a definition can't make a control unreachable.
+ * Unknown `{key}` references read as 0.
+ */
+export function evaluateShowIf(expr: string | undefined, values: CustomMenuValues): boolean {
+  if (expr == null || expr.trim() === '') return true
+  try {
+    return evaluateTokens(tokenize(expr), values) !== 0
+  } catch {
+    return true
+  }
+}
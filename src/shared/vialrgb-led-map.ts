@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Maps VialRGB LEDs onto the keys of a KLE layout. LEDs wired under a switch
+// report its matrix position; the rest (underglow, indicators) only have a
+// g_led_config point, so they go to the key whose center is closest once
+// both are scaled onto the same 0-1 box.
+
+import type { KleKey } from './kle/types'
+import type { VialRGBLedInfo } from './types/protocol'
+
+interface Point {
+  x: number
+  y: number
+}
+
+function normalize(points: Point[]): Point[] {
+  const minX = Math.min(...points.map((p) => p.x))
+  const minY = Math.min(...points.map((p) => p.y))
+  const spanX = Math.max(...points.map((p) => p.x)) - minX || 1
+  const spanY = Math.max(...points.map((p) => p.y)) - minY || 1
+  return points.map((p) => ({ x: (p.x - minX) / spanX, y: (p.y - minY) / spanY }))
+}
+
+/**
+ * "row,col" of the key each LED belongs to, in LED index order; null when
+ * the layout has no switch keys at all.
+ */
+export function mapLedsToKeys(leds: readonly VialRGBLedInfo[], keys: readonly KleKey[]): (string | null)[] {
+  const switches = keys.filter((key) => key.encoderIdx < 0 && !key.decal)
+  if (switches.length === 0) return leds.map(() => null)
+
+  const positions = new Set(switches.map((key) => `${key.row},${key.col}`))
+  const keyPoints = normalize(switches.map((key) => ({ x: key.x + key.width / 2, y: key.y + key.height / 2 })))
+  const ledPoints = leds.length > 0 ? normalize(leds.map((led) => ({ x: led.x, y: led.y }))) : []
+
+  return leds.map((led, i) => {
+    if (led.row !== null && led.col !== null) {
+      const pos = `${led.row},${led.col}`
+      if (positions.has(pos)) return pos
+    }
+    let best = 0
+    let bestDistance = Infinity
+    keyPoints.forEach((point, k) => {
+      const distance = (point.x - ledPoints[i].x) ** 2 + (point.y - ledPoints[i].y) ** 2
+      if (distance < bestDistance) {
+        best = k
+        bestDistance = distance
+      }
+    })
+    return `${switches[best].row},${switches[best].col}`
+  })
+}
+
+/** Reverse of mapLedsToKeys: the LED indices under each "row,col" key. */
+export function groupLedsByKey(ledKeys: readonly (string | null)[]): Map<string, number[]> {
+  const byKey = new Map<string, number[]>()
+  ledKeys.forEach((pos, index) => {
+    if (pos === null) return
+    const list = byKey.get(pos)
+    if (list) list.push(index)
+    else byKey.set(pos, [index])
+  })
+  return byKey
+}
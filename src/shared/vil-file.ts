@@ -36,6 +36,13 @@ export function isKeyboardDefinition(data: unknown): data is KeyboardDefinition
   return true
 }
 
+function isLightingScene(v: unknown): boolean {
+  return isRecord(v) &&
+    typeof v.name === 'string' &&
+    Array.isArray(v.colors) &&
+    v.colors.every((c) => Array.isArray(c) && c.length === 3 && c.every((n) => typeof n === 'number'))
+}
+
 /** Current VilFile format version */
 export const VILFILE_CURRENT_VERSION = 2
 
@@ -71,6 +78,8 @@ export function isVilFile(data: unknown): data is VilFile {
     obj.qmkSettings !== null &&
     (obj.layerNames === undefined ||
       (Array.isArray(obj.layerNames) && obj.layerNames.every((n) => typeof n === 'string'))) &&
+    (obj.lightingScenes === undefined ||
+      (Array.isArray(obj.lightingScenes) && obj.lightingScenes.every(isLightingScene))) &&
     (obj.macroJson === undefined || obj.macroJson === null || Array.isArray(obj.macroJson))
 
   if (!coreValid) return false
@@ -0,0 +1,651 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// Generate a ZMK .keymap devicetree file from current keymap state, with a
+// report of everything that has no ZMK equivalent
+
+import type { ComboEntry, TapDanceEntry } from './types/protocol'
+import type { KeymapExportInput } from './keymap-export'
+import type { KeymapExportMacroAction } from './keymap-export-features'
+import { layoutArgumentOrder, layoutArgumentRows } from './keymap-export'
+import { decodeQmkSettingValue } from './qmk-settings-profile'
+import { QSID_TAPPING_TERM } from './qmk-settings-tapping-term'
+import {
+  serialize,
+  deserialize,
+  resolve,
+  KEYCODES_SHIFTED,
+  findByQmkId,
+  keycodeLabel,
+  isModMaskKeycode,
+  extractModMask,
+  extractBasicKey,
+  isModTapKeycode,
+  isLTKeycode,
+  extractLTLayer,
+  isTapDanceKeycode,
+  getTapDanceIndex,
+  getMacroIndex,
+} from './keycodes/keycodes'
+
+export type ZmkExportInput = Omit<KeymapExportInput, 'serializeKeycode' | 'customKeycodes'>
+
+export type ZmkReportLocation =
+  | { kind: 'key'; layer: number; row: number; col: number }
+  | { kind: 'encoder'; layer: number; idx: number; dir: 0 | 1 }
+  | { kind: 'tapDance'; index: number }
+  | { kind: 'combo'; index: number }
+  | { kind: 'macro'; index: number }
+  | { kind: 'keyOverride'; index: number }
+  | { kind: 'altRepeatKey'; index: number }
+
+/** Something the export had to drop because ZMK has no equivalent. */
+export interface ZmkReportItem {
+  location: ZmkReportLocation
+  /** QMK keycode name, or the quoted character for macro text. */
+  name: string
+  /** Keycode label from the keycode metadata. */
+  label: string
+}
+
+export interface ZmkExportResult {
+  keymap: string
+  report: ZmkReportItem[]
+}
+
+const KC_NO = 0
+const KC_TRNS = 1
+const QSID_COMBO_TERM = 2
+const ZMK_DEFAULT_TAPPING_TERM_MS = 200
+const ZMK_DEFAULT_COMBO_TIMEOUT_MS = 50
+// CONFIG_ZMK_MACRO_DEFAULT_WAIT_MS
+const ZMK_DEFAULT_MACRO_WAIT_MS = 15
+
+// QMK basic keycode name -> ZMK dt-bindings/zmk/keys.h name
+const ZMK_KEY_NAMES: Record<string, string> = {
+  ...Object.fromEntries('ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('').map((c) => [`KC_${c}`, c])),
+  ...Object.fromEntries('1234567890'.split('').map((c) => [`KC_${c}`, `N${c}`])),
+  ...Object.fromEntries(Array.from({ length: 24 }, (_, i) => [`KC_F${i + 1}`, `F${i + 1}`])),
+  ...Object.fromEntries('1234567890'.split('').map((c) => [`KC_KP_${c}`, `KP_N${c}`])),
+  KC_ENTER: 'RET',
+  KC_ESCAPE: 'ESC',
+  KC_BSPACE: 'BSPC',
+  KC_TAB: 'TAB',
+  KC_SPACE: 'SPACE',
+  KC_MINUS: 'MINUS',
+  KC_EQUAL: 'EQUAL',
+  KC_LBRACKET: 'LBKT',
+  KC_RBRACKET: 'RBKT',
+  KC_BSLASH: 'BSLH',
+  KC_NONUS_HASH: 'NUHS',
+  KC_SCOLON: 'SEMI',
+  KC_QUOTE: 'SQT',
+  KC_GRAVE: 'GRAVE',
+  KC_COMMA: 'COMMA',
+  KC_DOT: 'DOT',
+  KC_SLASH: 'FSLH',
+  KC_CAPSLOCK: 'CAPS',
+  KC_PSCREEN: 'PSCRN',
+  KC_SCROLLLOCK: 'SLCK',
+  KC_PAUSE: 'PAUSE_BREAK',
+  KC_INSERT: 'INS',
+  KC_HOME: 'HOME',
+  KC_PGUP: 'PG_UP',
+  KC_DELETE: 'DEL',
+  KC_END: 'END',
+  KC_PGDOWN: 'PG_DN',
+  KC_RIGHT: 'RIGHT',
+  KC_LEFT: 'LEFT',
+  KC_DOWN: 'DOWN',
+  KC_UP: 'UP',
+  KC_NUMLOCK: 'KP_NUM',
+  KC_KP_SLASH: 'KP_SLASH',
+  KC_KP_ASTERISK: 'KP_MULTIPLY',
+  KC_KP_MINUS: 'KP_MINUS',
+  KC_KP_PLUS: 'KP_PLUS',
+  KC_KP_ENTER: 'KP_ENTER',
+  KC_KP_DOT: 'KP_DOT',
+  KC_KP_EQUAL: 'KP_EQUAL',
+  KC_KP_COMMA: 'KP_COMMA',
+  KC_NONUS_BSLASH: 'NUBS',
+  KC_APPLICATION: 'K_APP',
+  KC_EXEC: 'K_EXEC',
+  KC_HELP: 'K_HELP',
+  KC_SLCT: 'K_SELECT',
+  KC_STOP: 'K_STOP',
+  KC_AGIN: 'K_AGAIN',
+  KC_UNDO: 'K_UNDO',
+  KC_CUT: 'K_CUT',
+  KC_COPY: 'K_COPY',
+  KC_PSTE: 'K_PASTE',
+  KC_FIND: 'K_FIND',
+  KC__VOLUP: 'K_VOL_UP',
+  KC__VOLDOWN: 'K_VOL_DN',
+  KC_LCAP: 'LOCKING_CAPS',
+  KC_LNUM: 'LOCKING_NUM',
+  KC_LSCR: 'LOCKING_SCROLL',
+  KC_RO: 'INT_RO',
+  KC_KANA: 'INT_KANA',
+  KC_JYEN: 'INT_YEN',
+  KC_HENK: 'INT_HENKAN',
+  KC_MHEN: 'INT_MUHENKAN',
+  KC_LANG1: 'LANG1',
+  KC_LANG2: 'LANG2',
+  KC_LANG3: 'LANG3',
+  KC_LANG4: 'LANG4',
+  KC_LANG5: 'LANG5',
+  KC_PWR: 'C_POWER',
+  KC_SLEP: 'C_SLEEP',
+  KC_MUTE: 'C_MUTE',
+  KC_VOLU: 'C_VOL_UP',
+  KC_VOLD: 'C_VOL_DN',
+  KC_MNXT: 'C_NEXT',
+  KC_MPRV: 'C_PREV',
+  KC_MSTP: 'C_STOP',
+  KC_MPLY: 'C_PP',
+  KC_EJCT: 'C_EJECT',
+  KC_MAIL: 'C_AL_MAIL',
+  KC_CALC: 'C_AL_CALC',
+  KC_WSCH: 'C_AC_SEARCH',
+  KC_WHOM: 'C_AC_HOME',
+  KC_WBAK: 'C_AC_BACK',
+  KC_WFWD: 'C_AC_FORWARD',
+  KC_WSTP: 'C_AC_STOP',
+  KC_WREF: 'C_AC_REFRESH',
+  KC_WFAV: 'C_AC_BOOKMARKS',
+  KC_MFFD: 'C_FF',
+  KC_MRWD: 'C_RW',
+  KC_BRIU: 'C_BRI_UP',
+  KC_BRID: 'C_BRI_DN',
+  KC_LCTRL: 'LCTRL',
+  KC_LSHIFT: 'LSHFT',
+  KC_LALT: 'LALT',
+  KC_LGUI: 'LGUI',
+  KC_RCTRL: 'RCTRL',
+  KC_RSHIFT: 'RSHFT',
+  KC_RALT: 'RALT',
+  KC_RGUI: 'RGUI',
+}
+
+// QMK keycode name -> ZMK binding for keys that are not `&kp`
+const ZMK_SPECIAL_BINDINGS: Record<string, string> = {
+  QK_BOOT: '&bootloader',
+  QK_REBOOT: '&sys_reset',
+  QK_CAPS_WORD_TOGGLE: '&caps_word',
+  QK_REPEAT_KEY: '&key_repeat',
+  KC_BTN1: '&mkp LCLK',
+  KC_BTN2: '&mkp RCLK',
+  KC_BTN3: '&mkp MCLK',
+  KC_BTN4: '&mkp MB4',
+  KC_BTN5: '&mkp MB5',
+  KC_MS_U: '&mmv MOVE_UP',
+  KC_MS_D: '&mmv MOVE_DOWN',
+  KC_MS_L: '&mmv MOVE_LEFT',
+  KC_MS_R: '&mmv MOVE_RIGHT',
+  KC_WH_U: '&msc SCRL_UP',
+  KC_WH_D: '&msc SCRL_DOWN',
+  KC_WH_L: '&msc SCRL_LEFT',
+  KC_WH_R: '&msc SCRL_RIGHT',
+}
+
+const POINTING_BEHAVIORS = /&(mkp|mmv|msc)\b/
+
+// 5-bit QMK mod mask, bits 0-3 = Ctrl, Shift, Alt, GUI; bit 4 = right hand
+const MOD_BITS: [number, string, string][] = [
+  [0x01, 'C', 'CTRL'],
+  [0x02, 'S', 'SHFT'],
+  [0x04, 'A', 'ALT'],
+  [0x08, 'G', 'GUI'],
+]
+
+const LAYER_BINDINGS: [RegExp, string][] = [
+  [/^MO\((\d+)\)$/, '&mo'],
+  [/^TG\((\d+)\)$/, '&tog'],
+  [/^TO\((\d+)\)$/, '&to'],
+  [/^OSL\((\d+)\)$/, '&sl'],
+]
+
+/** `LC(LS(A))`-style modifier functions wrapped around `inner`. */
+function wrapMods(mods: number, inner: string): string {
+  const side = (mods & 0x10) !== 0 ? 'R' : 'L'
+  return MOD_BITS.reduceRight((acc, [bit, fn]) => ((mods & bit) !== 0 ? `${side}${fn}(${acc})` : acc), inner)
+}
+
+/** A mod mask as one keycode parameter, e.g. `LS(LCTRL)` for Ctrl+Shift. */
+function modsParam(mods: number): string | null {
+  const side = (mods & 0x10) !== 0 ? 'R' : 'L'
+  const first = MOD_BITS.find(([bit]) => (mods & bit) !== 0)
+  if (!first) return null
+  return wrapMods(mods & ~first[0], `${side}${first[2]}`)
+}
+
+/** `&kp` parameter for a basic or modifier-masked keycode, or null. */
+function kpParam(code: number): string | null {
+  if (isModMaskKeycode(code)) {
+    const inner = ZMK_KEY_NAMES[serialize(extractBasicKey(code))]
+    return inner ? wrapMods(extractModMask(code), inner) : null
+  }
+  return code > KC_TRNS ? ZMK_KEY_NAMES[serialize(code)] ?? null : null
+}
+
+function oneShotMods(code: number): number | null {
+  const base = resolve('QK_ONE_SHOT_MOD')
+  return code >= base && code < base + 0x20 ? code & 0x1f : null
+}
+
+interface Emitted {
+  tapDances: number
+  macros: ReadonlySet<number>
+}
+
+/** ZMK binding for a keycode, or null when there is no equivalent. */
+function binding(code: number, emitted: Emitted): string | null {
+  if (code === KC_NO) return '&none'
+  if (code === KC_TRNS) return '&trans'
+  const kp = kpParam(code)
+  if (kp) return `&kp ${kp}`
+
+  if (isLTKeycode(code)) {
+    const tap = kpParam(extractBasicKey(code))
+    return tap ? `&lt ${extractLTLayer(code)} ${tap}` : null
+  }
+  if (isModTapKeycode(code)) {
+    const hold = modsParam(extractModMask(code))
+    const tap = kpParam(extractBasicKey(code))
+    return hold && tap ? `&mt ${hold} ${tap}` : null
+  }
+  const osm = oneShotMods(code)
+  if (osm != null) {
+    const mods = modsParam(osm)
+    return mods ? `&sk ${mods}` : null
+  }
+  if (isTapDanceKeycode(code)) {
+    const index = getTapDanceIndex(code)
+    return index < emitted.tapDances ? `&td_${index}` : null
+  }
+  const macro = getMacroIndex(code)
+  if (macro !== -1) return emitted.macros.has(macro) ? `&macro_${macro}` : null
+
+  const name = serialize(code)
+  for (const [re, behavior] of LAYER_BINDINGS) {
+    const m = re.exec(name)
+    if (m) return `${behavior} ${m[1]}`
+  }
+  return ZMK_SPECIAL_BINDINGS[name] ?? null
+}
+
+function reportKeycode(location: ZmkReportLocation, code: number): ZmkReportItem {
+  const name = serialize(code)
+  return { location, name, label: keycodeLabel(name).replaceAll('\n', ' ') }
+}
+
+function settingValue(qmkSettings: Record<string, number[]> | undefined, qsid: number): number {
+  const bytes = qmkSettings?.[String(qsid)]
+  return bytes && bytes.length > 0 ? decodeQmkSettingValue(bytes) : 0
+}
+
+// --- Macro text ---
+
+let charMapCache: Map<string, string> | null = null
+
+/** char -> `&kp` parameter, from the printable keycodes and the shifted symbol keycodes. */
+function charKpMap(): Map<string, string> {
+  if (charMapCache) return charMapCache
+  const map = new Map<string, string>([[' ', 'SPACE'], ['\n', 'RET'], ['\t', 'TAB']])
+  for (let code = 0x04; code <= 0x38; code++) {
+    const kp = ZMK_KEY_NAMES[serialize(code)]
+    const printable = findByQmkId(serialize(code))?.printable
+    if (!kp || !printable) continue
+    if (!map.has(printable)) map.set(printable, kp)
+    if (printable >= 'a' && printable <= 'z') map.set(printable.toUpperCase(), `LS(${kp})`)
+  }
+  for (const kc of KEYCODES_SHIFTED) {
+    const code = deserialize(kc.qmkId)
+    if (kc.label.length !== 1 || map.has(kc.label) || !isModMaskKeycode(code) || extractModMask(code) !== 0x02) continue
+    const kp = ZMK_KEY_NAMES[serialize(extractBasicKey(code))]
+    if (kp) map.set(kc.label, `LS(${kp})`)
+  }
+  charMapCache = map
+  return map
+}
+
+// --- Behaviors ---
+
+function isTapDanceUsed(td: TapDanceEntry): boolean {
+  return td.onTap !== KC_NO || td.onHold !== KC_NO || td.onDoubleTap !== KC_NO || td.onTapHold !== KC_NO
+}
+
+function usedTapDances(input: ZmkExportInput): TapDanceEntry[] {
+  const entries = input.tapDance ?? []
+  let end = entries.length
+  while (end > 0 && !isTapDanceUsed(entries[end - 1])) end--
+  return entries.slice(0, end)
+}
+
+interface Context {
+  input: ZmkExportInput
+  emitted: Emitted
+  report: ZmkReportItem[]
+  tappingTerm: number
+}
+
+/** Binding for `code`, reporting it and falling back to `&none` when there is none. */
+function bindingOrNone(ctx: Context, code: number, location: ZmkReportLocation): string {
+  const b = binding(code, ctx.emitted)
+  if (b) return b
+  ctx.report.push(reportKeycode(location, code))
+  return '&none'
+}
+
+function behaviorNode(label: string, props: string[]): string[] {
+  return [
+    `        ${label}: ${label} {`,
+    ...props.map((p) => `            ${p}`),
+    `        };`,
+  ]
+}
+
+/**
+ * Each tap count of a tap dance is one tap-dance binding; counts with a
+ * hold slot become a hold-tap behavior of their own, which needs plain
+ * keys on both sides.
+ */
+function generateTapDances(ctx: Context, entries: TapDanceEntry[]): string[] {
+  return entries.flatMap((td, i) => {
+    const location: ZmkReportLocation = { kind: 'tapDance', index: i }
+    const term = td.tappingTerm || ctx.tappingTerm
+    const nodes: string[] = []
+
+    const slot = (count: 1 | 2, tapCode: number, holdCode: number): string => {
+      if (holdCode === KC_NO) return bindingOrNone(ctx, tapCode, location)
+      const hold = kpParam(holdCode)
+      const tap = kpParam(tapCode)
+      if (!hold || !tap) {
+        if (!hold) ctx.report.push(reportKeycode(location, holdCode))
+        if (!tap) ctx.report.push(reportKeycode(location, tapCode))
+        return bindingOrNone(ctx, tapCode, location)
+      }
+      const label = `td_${i}_hold_${count}`
+      nodes.push(...behaviorNode(label, [
+        `compatible = "zmk,behavior-hold-tap";`,
+        `#binding-cells = <2>;`,
+        `tapping-term-ms = <${term}>;`,
+        `bindings = <&kp>, <&kp>;`,
+      ]), '')
+      return `&${label} ${hold} ${tap}`
+    }
+
+    const bindings = [slot(1, td.onTap, td.onHold)]
+    if (td.onDoubleTap !== KC_NO || td.onTapHold !== KC_NO) {
+      bindings.push(slot(2, td.onDoubleTap !== KC_NO ? td.onDoubleTap : td.onTap, td.onTapHold))
+    }
+    nodes.push(...behaviorNode(`td_${i}`, [
+      `compatible = "zmk,behavior-tap-dance";`,
+      `#binding-cells = <0>;`,
+      `tapping-term-ms = <${term}>;`,
+      `bindings = ${bindings.map((b) => `<${b}>`).join(', ')};`,
+    ]))
+    return nodes
+  })
+}
+
+function macroKps(report: ZmkReportItem[], codes: number[], location: ZmkReportLocation): string[] {
+  return codes.flatMap((code) => {
+    const kp = kpParam(code)
+    if (kp) return [`&kp ${kp}`]
+    report.push(reportKeycode(location, code))
+    return []
+  })
+}
+
+interface ConvertedMacro {
+  index: number
+  bindings: string[]
+}
+
+/**
+ * Macro bindings, or null when none of its keys converted. A delay is a
+ * tap of `&none` under a changed wait time; `&macro_wait_time` persists, so
+ * the default wait is restored right after.
+ */
+function macroBindings(report: ZmkReportItem[], actions: KeymapExportMacroAction[], location: ZmkReportLocation): string[] | null {
+  let sendsKeys = false
+  const keys = (behavior: string, kps: string[]): string[] => {
+    if (kps.length === 0) return []
+    sendsKeys = true
+    return [`${behavior} ${kps.join(' ')}`]
+  }
+  const bindings = actions.flatMap((action): string[] => {
+    switch (action.type) {
+      case 'text': {
+        const chars = charKpMap()
+        return keys('&macro_tap', [...action.text].flatMap((ch) => {
+          const kp = chars.get(ch)
+          if (kp) return [`&kp ${kp}`]
+          report.push({ location, name: JSON.stringify(ch), label: ch })
+          return []
+        }))
+      }
+      case 'tap':
+        return keys('&macro_tap', macroKps(report, action.keycodes, location))
+      case 'down':
+        return keys('&macro_press', macroKps(report, action.keycodes, location))
+      case 'up':
+        return keys('&macro_release', macroKps(report, action.keycodes, location))
+      case 'delay':
+        return [
+          `&macro_wait_time ${action.delay}`,
+          `&macro_tap &none`,
+          `&macro_wait_time ${ZMK_DEFAULT_MACRO_WAIT_MS}`,
+        ]
+    }
+  })
+  return sendsKeys ? bindings : null
+}
+
+/**
+ * Convert the non-empty macros. One whose keys all fail to convert is left
+ * out and reported, so keys bound to it fall back to `&none`. Its report
+ * items are returned rather than pushed so they keep their place after the
+ * keymap's.
+ */
+function convertMacros(macros: readonly KeymapExportMacroAction[][]): { converted: ConvertedMacro[]; report: ZmkReportItem[] } {
+  const report: ZmkReportItem[] = []
+  const converted = macros.flatMap((actions, index): ConvertedMacro[] => {
+    if (actions.length === 0) return []
+    const location: ZmkReportLocation = { kind: 'macro', index }
+    const bindings = macroBindings(report, actions, location)
+    if (bindings) return [{ index, bindings }]
+    report.push(reportKeycode(location, deserialize(`M${index}`)))
+    return []
+  })
+  return { converted, report }
+}
+
+function generateMacros(macros: ConvertedMacro[]): string[] {
+  return macros.flatMap(({ index, bindings }) =>
+    behaviorNode(`macro_${index}`, [
+      `compatible = "zmk,behavior-macro";`,
+      `#binding-cells = <0>;`,
+      `bindings`,
+      ...bindings.map((b, j) => `    ${j === 0 ? '=' : ','} <${b}>`),
+      `    ;`,
+    ]),
+  )
+}
+
+// --- Combos ---
+
+function comboKeys(combo: ComboEntry): number[] {
+  const keys = [combo.key1, combo.key2, combo.key3, combo.key4]
+  const end = keys.indexOf(KC_NO)
+  return end === -1 ? keys : keys.slice(0, end)
+}
+
+/**
+ * ZMK combos trigger on key positions, Vial combos on keycodes: each combo
+ * uses the lowest layer where every one of its keycodes sits on a key.
+ */
+function comboPositions(ctx: Context, keys: number[], order: { row: number; col: number }[]): { layer: number; positions: number[] } | null {
+  for (let layer = 0; layer < ctx.input.layers; layer++) {
+    const positions = keys.map((code) =>
+      order.findIndex(({ row, col }) => ctx.input.keymap.get(`${layer},${row},${col}`) === code),
+    )
+    if (positions.every((p) => p !== -1)) return { layer, positions }
+  }
+  return null
+}
+
+function generateCombos(ctx: Context, order: { row: number; col: number }[]): string[] {
+  const timeout = settingValue(ctx.input.qmkSettings, QSID_COMBO_TERM) || ZMK_DEFAULT_COMBO_TIMEOUT_MS
+  return (ctx.input.combo ?? []).flatMap((combo, i) => {
+    const keys = comboKeys(combo)
+    if (combo.output === KC_NO || keys.length < 2) return []
+    const location: ZmkReportLocation = { kind: 'combo', index: i }
+    const found = comboPositions(ctx, keys, order)
+    if (!found) {
+      ctx.report.push(...keys.map((code) => reportKeycode(location, code)))
+      return []
+    }
+    const output = binding(combo.output, ctx.emitted)
+    if (!output) {
+      ctx.report.push(reportKeycode(location, combo.output))
+      return []
+    }
+    return [
+      `        combo_${i} {`,
+      `            timeout-ms = <${timeout}>;`,
+      `            key-positions = <${found.positions.join(' ')}>;`,
+      `            layers = <${found.layer}>;`,
+      `            bindings = <${output}>;`,
+      `        };`,
+    ]
+  })
+}
+
+// --- Keymap ---
+
+function generateSensorBindings(ctx: Context, layer: number): string | null {
+  const entries: string[] = []
+  let configured = false
+  for (let idx = 0; idx < ctx.input.encoderCount; idx++) {
+    // encoderLayout stores: dir 0=CW, dir 1=CCW
+    const params = ([0, 1] as const).map((dir) => {
+      const code = ctx.input.encoderLayout.get(`${layer},${idx},${dir}`) ?? KC_NO
+      if (code !== KC_NO && code !== KC_TRNS) configured = true
+      const kp = kpParam(code)
+      if (!kp && code !== KC_NO && code !== KC_TRNS) {
+        ctx.report.push(reportKeycode({ kind: 'encoder', layer, idx, dir }, code))
+      }
+      return kp
+    })
+    if (params.some((p) => p == null)) return null
+    entries.push(`&inc_dec_kp ${params[0]} ${params[1]}`)
+  }
+  return configured ? `sensor-bindings = <${entries.join(' ')}>;` : null
+}
+
+function generateLayer(ctx: Context, layer: number, rows: { row: number; col: number }[][]): string[] {
+  const lines = rows.map((row) =>
+    row.map(({ row: r, col }) =>
+      bindingOrNone(ctx, ctx.input.keymap.get(`${layer},${r},${col}`) ?? KC_NO, { kind: 'key', layer, row: r, col }),
+    ).join(' '),
+  )
+  const sensors = ctx.input.encoderCount > 0 ? generateSensorBindings(ctx, layer) : null
+  return [
+    `        layer_${layer} {`,
+    `            bindings = <`,
+    ...lines.map((l) => `                ${l}`),
+    `            >;`,
+    ...(sensors ? [`            ${sensors}`] : []),
+    `        };`,
+  ]
+}
+
+function describeLocation(location: ZmkReportLocation): string {
+  switch (location.kind) {
+    case 'key': return `layer ${location.layer} key ${location.row},${location.col}`
+    case 'encoder': return `layer ${location.layer} encoder ${location.idx} ${location.dir === 0 ? 'CW' : 'CCW'}`
+    case 'tapDance': return `tap dance ${location.index}`
+    case 'combo': return `combo ${location.index}`
+    case 'macro': return `macro ${location.index}`
+    case 'keyOverride': return `key override ${location.index}`
+    case 'altRepeatKey': return `alt repeat key ${location.index}`
+  }
+}
+
+/** Key overrides and alt repeat keys have no ZMK behavior to map onto. */
+function reportUnconvertibleEntries(ctx: Context): void {
+  const keyOverrides = ctx.input.keyOverride ?? []
+  for (let i = 0; i < keyOverrides.length; i++) {
+    const ko = keyOverrides[i]
+    if (!ko.enabled || ko.triggerKey === KC_NO) continue
+    const name = `${serialize(ko.triggerKey)} -> ${serialize(ko.replacementKey)}`
+    ctx.report.push({ location: { kind: 'keyOverride', index: i }, name, label: name })
+  }
+  const altRepeatKeys = ctx.input.altRepeatKey ?? []
+  for (let i = 0; i < altRepeatKeys.length; i++) {
+    const ar = altRepeatKeys[i]
+    if (!ar.enabled || ar.lastKey === KC_NO) continue
+    const name = `${serialize(ar.lastKey)} -> ${serialize(ar.altKey)}`
+    ctx.report.push({ location: { kind: 'altRepeatKey', index: i }, name, label: name })
+  }
+}
+
+/**
+ * Convert the keymap, tap dances, combos and macros to a ZMK `.keymap`.
+ * Key positions follow keymap.c's LAYOUT() argument order. Anything without
+ * a ZMK equivalent becomes `&none` (or is left out) and is listed both in the
+ * returned report and in a comment at the top of the file.
+ */
+export function generateZmkKeymap(input: ZmkExportInput): ZmkExportResult {
+  const tapDances = usedTapDances(input)
+  const macros = convertMacros(input.macros ?? [])
+  const ctx: Context = {
+    input,
+    emitted: { tapDances: tapDances.length, macros: new Set(macros.converted.map((m) => m.index)) },
+    report: [],
+    tappingTerm: settingValue(input.qmkSettings, QSID_TAPPING_TERM) || ZMK_DEFAULT_TAPPING_TERM_MS,
+  }
+
+  const rows = layoutArgumentRows(input.keys, input.layoutOptions)
+  const layers = Array.from({ length: input.layers }, (_, l) => generateLayer(ctx, l, rows))
+  const behaviors = [...generateTapDances(ctx, tapDances), ...generateMacros(macros.converted)]
+  ctx.report.push(...macros.report)
+  const combos = generateCombos(ctx, layoutArgumentOrder(input.keys, input.layoutOptions))
+  reportUnconvertibleEntries(ctx)
+
+  const body = [
+    `/ {`,
+    ...(behaviors.length > 0 ? [`    behaviors {`, ...behaviors, `    };`, ''] : []),
+    ...(combos.length > 0 ? [`    combos {`, `        compatible = "zmk,combos";`, ...combos, `    };`, ''] : []),
+    `    keymap {`,
+    `        compatible = "zmk,keymap";`,
+    ...layers.flatMap((layer, i) => (i === 0 ? layer : ['', ...layer])),
+    `    };`,
+    `};`,
+  ]
+
+  const header = [`/* SPDX-License-Identifier: GPL-2.0-or-later */`]
+  if (ctx.report.length > 0) {
+    header.push(
+      '',
+      `/*`,
+      ` * Not converted (no ZMK equivalent):`,
+      ...ctx.report.map((item) => ` *   ${describeLocation(item.location)}: ${item.name}`),
+      ` */`,
+    )
+  }
+  const text = body.join('\n')
+  const includes = [
+    `#include <behaviors.dtsi>`,
+    `#include <dt-bindings/zmk/keys.h>`,
+    ...(POINTING_BEHAVIORS.test(text) ? [`#include <dt-bindings/zmk/pointing.h>`] : []),
+  ]
+  const overrides = ctx.tappingTerm !== ZMK_DEFAULT_TAPPING_TERM_MS
+    ? ['', `&lt { tapping-term-ms = <${ctx.tappingTerm}>; };`, `&mt { tapping-term-ms = <${ctx.tappingTerm}>; };`]
+    : []
+
+  return {
+    keymap: [...header, '', ...includes, ...overrides, '', text].join('\n') + '\n',
+    report: ctx.report,
+  }
+}